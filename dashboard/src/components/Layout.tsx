@@ -6,6 +6,7 @@ import {
   LayoutDashboard,
   AlertTriangle,
   Users,
+  Package,
   Activity,
   Settings,
   Bell,
@@ -25,6 +26,7 @@ const navItems = [
   { to: '/', icon: LayoutDashboard, label: 'Dashboard' },
   { to: '/issues', icon: AlertTriangle, label: 'Issues' },
   { to: '/users', icon: Users, label: 'Users' },
+  { to: '/products', icon: Package, label: 'Products' },
   { to: '/events', icon: Activity, label: 'Events' },
   { to: '/alerts', icon: Bell, label: 'Alerts' },
   { to: '/insights', icon: Sparkles, label: 'Insights' },
@@ -1,7 +1,7 @@
 import clsx from 'clsx';
 
 interface BadgeProps {
-  variant?: 'critical' | 'warning' | 'info' | 'success' | 'neutral' | 'open' | 'acknowledged' | 'resolved' | 'dismissed' | 'slate' | 'violet' | 'amber' | 'emerald';
+  variant?: 'critical' | 'warning' | 'info' | 'success' | 'neutral' | 'open' | 'acknowledged' | 'snoozed' | 'resolved' | 'dismissed' | 'slate' | 'violet' | 'amber' | 'emerald';
   size?: 'sm' | 'md';
   dot?: boolean;
   children: React.ReactNode;
@@ -16,6 +16,7 @@ const variantStyles: Record<string, string> = {
   neutral: 'bg-gray-100 text-gray-600 border-gray-200',
   open: 'bg-red-50 text-red-700 border-red-200',
   acknowledged: 'bg-amber-50 text-amber-700 border-amber-200',
+  snoozed: 'bg-blue-50 text-blue-700 border-blue-200',
   resolved: 'bg-green-50 text-green-700 border-green-200',
   dismissed: 'bg-gray-100 text-gray-500 border-gray-200',
   // Category color variants
@@ -33,6 +34,7 @@ const dotStyles: Record<string, string> = {
   neutral: 'bg-gray-400',
   open: 'bg-red-500',
   acknowledged: 'bg-amber-500',
+  snoozed: 'bg-blue-500',
   resolved: 'bg-green-500',
   dismissed: 'bg-gray-400',
   // Category color variants
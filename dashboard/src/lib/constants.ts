@@ -12,7 +12,7 @@ export const DETECTOR_CATEGORIES: Record<string, {
     label: 'Integration Health',
     icon: 'Wifi',
     color: 'slate',
-    detectors: ['webhook_delivery_gap', 'data_freshness'],
+    detectors: ['webhook_delivery_gap', 'data_freshness', 'state_drift'],
   },
   cross_platform: {
     label: 'Cross-Platform Intelligence',
@@ -168,6 +168,13 @@ export const DETECTOR_META: Record<string, {
     defaultSeverity: 'warning',
     recommendedAction: 'Many subscriptions have no recent events — webhooks may be silently failing. Re-sync.',
   },
+  state_drift: {
+    category: 'integration_health',
+    scope: 'per_user',
+    tier: 1,
+    defaultSeverity: 'critical',
+    recommendedAction: 'The provider and RevBack disagree on this subscription — a webhook was likely missed. Compare both views.',
+  },
 };
 
 // ---------------------------------------------------------------------------
@@ -188,6 +195,7 @@ export const DETECTOR_TO_CATEGORY: Record<string, DetectorCategoryKey> = Object.
 export const ISSUE_TYPE_FILTER_OPTIONS: Record<string, string> = {
   webhook_delivery_gap: 'Webhook Delivery Gap',
   data_freshness: 'Missing Billing Updates',
+  state_drift: 'Out of Sync with Provider',
   duplicate_billing: 'Duplicate Billing',
   cross_platform_conflict: 'Platform State Conflict',
   unrevoked_refund: 'Unrevoked Refund',
@@ -215,6 +223,7 @@ export const ISSUE_TYPE_LABELS: Record<string, string> = {
   paid_no_access: 'Paid Without Access',
   access_no_payment: 'Unpaid Access',
   refund_still_active: 'Unrevoked Refund',
+  custom_rule: 'Custom Rule',
 };
 
 // ---------------------------------------------------------------------------
@@ -3,14 +3,18 @@ import relativeTime from 'dayjs/plugin/relativeTime';
 
 dayjs.extend(relativeTime);
 
-export function formatCents(cents: number | null | undefined, currency = 'USD'): string {
+/** Amounts are in the currency's minor unit: 1000 is $10 but ¥1,000 */
+export function formatCents(cents: number | null | undefined, currency?: string | null): string {
   if (cents == null) return '—';
+  const code = currency || 'USD';
+  const digits = new Intl.NumberFormat('en-US', { style: 'currency', currency: code })
+    .resolvedOptions().maximumFractionDigits ?? 2;
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency,
+    currency: code,
     minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-  }).format(cents / 100);
+    maximumFractionDigits: digits,
+  }).format(cents / 10 ** digits);
 }
 
 export function formatNumber(n: number): string {
@@ -59,6 +63,7 @@ export function sourceIcon(source: string): string {
     case 'apple': return '🍎';
     case 'google': return '🤖';
     case 'recurly': return '🔄';
+    case 'braintree': return '💠';
     default: return '📦';
   }
 }
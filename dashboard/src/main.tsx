@@ -7,6 +7,7 @@ import { IssuesPage } from './pages/Issues';
 import { IssueDetailPage } from './pages/IssueDetail';
 import { UsersPage } from './pages/Users';
 import { UserProfilePage } from './pages/UserProfile';
+import { ProductsPage } from './pages/Products';
 import { EventsPage } from './pages/Events';
 import { OnboardingPage } from './pages/Onboarding';
 import { AlertsPage } from './pages/Alerts';
@@ -39,6 +40,7 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
           <Route path="/issues/:issueId" element={<IssueDetailPage />} />
           <Route path="/users" element={<UsersPage />} />
           <Route path="/users/:userId" element={<UserProfilePage />} />
+          <Route path="/products" element={<ProductsPage />} />
           <Route path="/events" element={<EventsPage />} />
           <Route path="/alerts" element={<AlertsPage />} />
           <Route path="/insights" element={<InsightsPage />} />
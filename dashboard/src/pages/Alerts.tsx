@@ -26,6 +26,8 @@ import {
 
 // ─── Types ──────────────────────────────────────────────────────────
 
+type DeliveryMode = 'immediate' | 'batched' | 'digest';
+
 interface AlertConfig {
   id: string;
   orgId: string;
@@ -38,6 +40,24 @@ interface AlertConfig {
   severityFilter: string[];
   issueTypes: string[] | null;
   enabled: boolean;
+  deliveryMode: DeliveryMode;
+  deliverySchedule: {
+    windowMinutes?: number;
+    frequency?: 'daily' | 'weekly';
+    hour?: number;
+    dayOfWeek?: number;
+    timezone?: string;
+  } | null;
+  escalationPolicy: {
+    afterMinutes: number;
+    escalateToAlertConfigId?: string;
+  } | null;
+  quietHours: {
+    start: string;
+    end: string;
+    timezone: string;
+    allowCritical?: boolean;
+  } | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -49,9 +69,30 @@ interface DeliveryLog {
   channel: 'slack' | 'email';
   status: string;
   errorMessage: string | null;
+  escalationLevel: number;
   sentAt: string;
 }
 
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+function describeDelivery(config: AlertConfig): string {
+  const schedule = config.deliverySchedule ?? {};
+  if (config.deliveryMode === 'batched') {
+    return `Batched every ${schedule.windowMinutes ?? 15} min`;
+  }
+  if (config.deliveryMode === 'digest') {
+    const at = `${formatHour(schedule.hour ?? 9)} ${schedule.timezone ?? 'UTC'}`;
+    return schedule.frequency === 'weekly'
+      ? `Weekly digest, ${WEEKDAYS[schedule.dayOfWeek ?? 1]} ${at}`
+      : `Daily digest, ${at}`;
+  }
+  return 'Immediate';
+}
+
 // ─── Component ──────────────────────────────────────────────────────
 
 export function AlertsPage() {
@@ -70,6 +111,11 @@ export function AlertsPage() {
   const [slackChannelName, setSlackChannelName] = useState('');
   const [emailRecipients, setEmailRecipients] = useState('');
   const [severityFilter, setSeverityFilter] = useState<string[]>(['critical', 'warning', 'info']);
+  const [deliveryMode, setDeliveryMode] = useState<DeliveryMode>('immediate');
+  const [windowMinutes, setWindowMinutes] = useState(15);
+  const [digestFrequency, setDigestFrequency] = useState<'daily' | 'weekly'>('daily');
+  const [digestHour, setDigestHour] = useState(9);
+  const [digestDay, setDigestDay] = useState(1);
   const [saving, setSaving] = useState(false);
   const [testingId, setTestingId] = useState<string | null>(null);
 
@@ -110,12 +156,25 @@ export function AlertsPage() {
         config.recipients = emailRecipients.split(',').map(e => e.trim()).filter(Boolean);
       }
 
+      const deliverySchedule = deliveryMode === 'batched'
+        ? { windowMinutes }
+        : deliveryMode === 'digest'
+          ? {
+            frequency: digestFrequency,
+            hour: digestHour,
+            ...(digestFrequency === 'weekly' ? { dayOfWeek: digestDay } : {}),
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          }
+          : null;
+
       await apiFetch('/alerts', {
         method: 'POST',
         body: JSON.stringify({
           channel: newChannel,
           config,
           severityFilter,
+          deliveryMode,
+          deliverySchedule,
         }),
       });
 
@@ -178,6 +237,11 @@ export function AlertsPage() {
     setSlackChannelName('');
     setEmailRecipients('');
     setSeverityFilter(['critical', 'warning', 'info']);
+    setDeliveryMode('immediate');
+    setWindowMinutes(15);
+    setDigestFrequency('daily');
+    setDigestHour(9);
+    setDigestDay(1);
   }
 
   function toggleSeverity(severity: string) {
@@ -355,6 +419,73 @@ export function AlertsPage() {
             </div>
           </div>
 
+          {/* Delivery mode */}
+          <div className="mb-6">
+            <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+              Delivery
+            </label>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={deliveryMode}
+                onChange={(e) => setDeliveryMode(e.target.value as DeliveryMode)}
+                className="px-3.5 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              >
+                <option value="immediate">Immediately, one message per issue</option>
+                <option value="batched">Batched, one message per window</option>
+                <option value="digest">Scheduled digest</option>
+              </select>
+
+              {deliveryMode === 'batched' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Every
+                  <input
+                    type="number"
+                    min={1}
+                    max={1440}
+                    value={windowMinutes}
+                    onChange={(e) => setWindowMinutes(Number(e.target.value))}
+                    className="w-20 px-2.5 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  minutes
+                </label>
+              )}
+
+              {deliveryMode === 'digest' && (
+                <>
+                  <select
+                    value={digestFrequency}
+                    onChange={(e) => setDigestFrequency(e.target.value as 'daily' | 'weekly')}
+                    className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly</option>
+                  </select>
+                  {digestFrequency === 'weekly' && (
+                    <select
+                      value={digestDay}
+                      onChange={(e) => setDigestDay(Number(e.target.value))}
+                      className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                    </select>
+                  )}
+                  <select
+                    value={digestHour}
+                    onChange={(e) => setDigestHour(Number(e.target.value))}
+                    className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{formatHour(h)}</option>)}
+                  </select>
+                </>
+              )}
+            </div>
+            {deliveryMode !== 'immediate' && (
+              <p className="text-xs text-gray-400 mt-1.5">
+                Issues are collected into one message with counts, revenue at risk and the top issues
+              </p>
+            )}
+          </div>
+
           {/* Actions */}
           <div className="flex gap-3 pt-4 border-t border-gray-100">
             <button
@@ -424,6 +555,17 @@ export function AlertsPage() {
                       {!config.enabled && (
                         <Badge variant="neutral" size="sm">Paused</Badge>
                       )}
+                      <span className="text-xs text-gray-500">{describeDelivery(config)}</span>
+                      {config.escalationPolicy && (
+                        <span className="text-xs text-gray-500">
+                          &middot; {config.escalationPolicy.escalateToAlertConfigId ? 'Escalates' : 'Re-notifies'} after {config.escalationPolicy.afterMinutes} min unacknowledged
+                        </span>
+                      )}
+                      {config.quietHours && (
+                        <span className="text-xs text-gray-500">
+                          &middot; Quiet {config.quietHours.start}&ndash;{config.quietHours.end} {config.quietHours.timezone}
+                        </span>
+                      )}
                     </div>
                     {config.channel === 'slack' ? (
                       <p className="text-sm text-gray-900 truncate">
@@ -525,6 +667,14 @@ export function AlertsPage() {
                           <Badge variant="success" dot size="sm">Sent</Badge>
                         ) : d.status === 'rate_limited' ? (
                           <Badge variant="warning" dot size="sm">Rate Limited</Badge>
+                        ) : d.status === 'pending' ? (
+                          <Badge variant="info" dot size="sm">Queued</Badge>
+                        ) : d.status === 'skipped' ? (
+                          <Badge variant="neutral" dot size="sm">Skipped</Badge>
+                        ) : d.status === 'suppressed' ? (
+                          <span title={d.errorMessage ?? undefined}>
+                            <Badge variant="neutral" dot size="sm">Suppressed</Badge>
+                          </span>
                         ) : (
                           <Badge variant="critical" dot size="sm">Failed</Badge>
                         )}
@@ -536,6 +686,9 @@ export function AlertsPage() {
                         >
                           {d.channel}
                         </Badge>
+                        {d.escalationLevel > 0 && (
+                          <span className="ml-1.5 text-xs text-red-600">Escalation {d.escalationLevel}</span>
+                        )}
                       </td>
                       <td className="px-4 py-3">
                         {d.issueId ? (
@@ -44,10 +44,11 @@ interface Summary {
 }
 
 interface RevenueImpact {
-  atRisk: { totalCents: number; issueCount: number };
+  atRisk: { totalCents: number; netCents: number; issueCount: number };
   bySeverity: Array<{ severity: string; totalRevenueCents: string | null; issueCount: number }>;
   byType: Array<{ issueType: string; totalRevenueCents: string | null; issueCount: number }>;
-  saved: { totalCents: number; issueCount: number };
+  saved: { totalCents: number; netCents: number; issueCount: number };
+  currency: string;
 }
 
 interface HealthData {
@@ -64,6 +65,7 @@ interface Issue {
   title: string;
   description: string;
   estimatedRevenueCents: number | null;
+  revenueCurrency: string | null;
   createdAt: string;
 }
 
@@ -72,6 +74,7 @@ interface CategoryData {
   openIssues: number;
   criticalIssues: number;
   revenueAtRiskCents: number;
+  currency?: string;
   detectors: Record<string, { openIssues: number; maxSeverity: string; revenueCents: number }>;
 }
 
@@ -171,6 +174,7 @@ export function DashboardPage() {
 
     // Fill from revenue byType (revenue + severity hints)
     if (revenue?.byType) {
+      for (const cat of Object.values(result)) cat.currency = revenue.currency;
       for (const item of revenue.byType) {
         const catKey = getIssueCategory(item.issueType);
         const cat = result[catKey];
@@ -253,8 +257,12 @@ export function DashboardPage() {
           <KPICard
             icon={<DollarSign className="text-red-600" size={18} />}
             label="Revenue at Risk"
-            value={formatCents(revenue?.atRisk.totalCents)}
-            sublabel={`${summary?.open || 0} open issues affecting revenue`}
+            value={formatCents(revenue?.atRisk.totalCents, revenue?.currency)}
+            sublabel={
+              revenue && revenue.atRisk.netCents !== revenue.atRisk.totalCents
+                ? `${formatCents(revenue.atRisk.netCents, revenue.currency)} net across ${summary?.open || 0} open issues`
+                : `${summary?.open || 0} open issues affecting revenue`
+            }
             variant="danger"
             trend={{ direction: 'up', value: '12% vs last week', positive: false }}
           />
@@ -273,7 +281,7 @@ export function DashboardPage() {
           <KPICard
             icon={<Shield className="text-green-600" size={18} />}
             label="Revenue Saved"
-            value={revenue?.saved.totalCents ? formatCents(revenue.saved.totalCents) : '--'}
+            value={revenue?.saved.totalCents ? formatCents(revenue.saved.totalCents, revenue.currency) : '--'}
             sublabel={
               revenue?.saved.totalCents
                 ? `${revenue.saved.issueCount} issues resolved`
@@ -390,7 +398,7 @@ export function DashboardPage() {
                   <div className="text-right flex-shrink-0">
                     {issue.estimatedRevenueCents != null && issue.estimatedRevenueCents > 0 && (
                       <p className="text-sm font-semibold text-red-600">
-                        {formatCents(issue.estimatedRevenueCents)}
+                        {formatCents(issue.estimatedRevenueCents, issue.revenueCurrency)}
                       </p>
                     )}
                     <p className="text-xs text-gray-400">{timeAgo(issue.createdAt)}</p>
@@ -475,7 +483,7 @@ function CategoryHealthCard({
         <span className="text-xs text-gray-500 ml-1">open issues</span>
         {data.revenueAtRiskCents > 0 && (
           <p className="text-xs text-gray-500">
-            {formatCents(data.revenueAtRiskCents)} at risk
+            {formatCents(data.revenueAtRiskCents, data.currency)} at risk
           </p>
         )}
       </div>
@@ -685,7 +693,7 @@ function VerifiedIssuesCard({
         <span className="text-xs text-gray-500 ml-1">open issues</span>
         {data.revenueAtRiskCents > 0 && (
           <p className="text-xs text-gray-500">
-            {formatCents(data.revenueAtRiskCents)} at risk
+            {formatCents(data.revenueAtRiskCents, data.currency)} at risk
           </p>
         )}
       </div>
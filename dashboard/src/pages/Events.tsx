@@ -14,6 +14,7 @@ import {
   Zap,
   Shield,
   RefreshCw,
+  CreditCard,
   ExternalLink,
   Calendar,
 } from 'lucide-react';
@@ -37,6 +38,7 @@ const sourceIcons: Record<string, React.ReactNode> = {
   apple: <Shield size={14} className="text-gray-700" />,
   google: <Activity size={14} className="text-green-600" />,
   recurly: <RefreshCw size={14} className="text-blue-600" />,
+  braintree: <CreditCard size={14} className="text-sky-600" />,
 };
 
 const sourceLabels: Record<string, string> = {
@@ -44,6 +46,7 @@ const sourceLabels: Record<string, string> = {
   apple: 'Apple',
   google: 'Google Play',
   recurly: 'Recurly',
+  braintree: 'Braintree',
 };
 
 const DATE_PRESETS = [
@@ -102,6 +105,7 @@ export function EventsPage() {
           { value: 'apple', label: 'Apple', icon: <Shield size={13} className="text-gray-700" /> },
           { value: 'google', label: 'Google', icon: <Activity size={13} className="text-green-600" /> },
           { value: 'recurly', label: 'Recurly', icon: <RefreshCw size={13} className="text-blue-600" /> },
+          { value: 'braintree', label: 'Braintree', icon: <CreditCard size={13} className="text-sky-600" /> },
         ].map((s) => (
           <button
             key={s.value}
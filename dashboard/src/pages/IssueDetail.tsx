@@ -47,6 +47,10 @@ interface Issue {
   title: string;
   description: string;
   estimatedRevenueCents: number | null;
+  netRevenueCents: number | null;
+  revenueCurrency: string | null;
+  originalRevenueCents: number | null;
+  originalCurrency: string | null;
   confidence: number | null;
   userId: string | null;
   detectorId: string;
@@ -54,6 +58,9 @@ interface Issue {
   evidence: Record<string, any>;
   resolution: string | null;
   resolvedAt: string | null;
+  snoozedUntil: string | null;
+  occurrenceCount: number;
+  lastSeenAt: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -93,6 +100,8 @@ const RECOMMENDED_ACTION_TEXT: Record<string, string> = {
     'This user\'s subscription status differs between billing platforms — for example, active in Stripe but expired in Apple. Your app may be showing inconsistent behavior depending on which platform it checks. Compare both dashboards to find the correct status and update the out-of-sync platform.',
   renewal_anomaly:
     'The rate of successful subscription renewals dropped significantly compared to your recent average. This often signals a wave of expired payment methods, a pricing change impact, or a billing provider issue. Review failed payment logs in your provider dashboard to identify the pattern.',
+  state_drift:
+    'Your billing provider and RevBack disagree about whether this customer should have access. RevBack only learns about subscription changes from webhooks, so this almost always means one was missed. Compare the two views below, check the subscription in your provider\'s dashboard, and look for failed webhook deliveries around the provider\'s last change. Turn on reconciliation auto-correct in settings to fix drift like this automatically.',
   data_freshness:
     'A significant number of active subscriptions haven\'t generated any billing events recently. This usually means webhooks are being lost — your billing provider is sending them, but your server isn\'t receiving or processing them. Check your webhook endpoint health and trigger a data re-sync from the provider\'s API.',
 };
@@ -234,6 +243,18 @@ export function IssueDetailPage() {
     }
   }
 
+  async function handleSnooze(hours: number) {
+    setActionLoading(true);
+    try {
+      const until = new Date(Date.now() + hours * 3600_000).toISOString();
+      await apiFetch(`/issues/${issueId}/snooze`, { method: 'POST', body: JSON.stringify({ until }) });
+      mutate(`/issues/${issueId}`);
+      mutateIssue();
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
   function copyEvidence() {
     if (!issue) return;
     navigator.clipboard.writeText(JSON.stringify(issue.evidence, null, 2));
@@ -324,6 +345,11 @@ export function IssueDetailPage() {
                   <Clock size={13} /> Updated {timeAgo(issue.updatedAt)}
                 </span>
               )}
+              {issue.occurrenceCount > 1 && (
+                <span className="flex items-center gap-1.5">
+                  <Eye size={13} /> Seen {issue.occurrenceCount} times, last {timeAgo(issue.lastSeenAt)}
+                </span>
+              )}
               <span className="flex items-center gap-1.5">
                 <Shield size={13} /> Detector: {ISSUE_TYPE_LABELS[issue.detectorId] || ISSUE_TYPE_LABELS[issue.issueType] || issue.detectorId}
               </span>
@@ -340,9 +366,19 @@ export function IssueDetailPage() {
             <div className="text-right ml-6 flex-shrink-0">
               <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold mb-1">Revenue Impact</p>
               <p className="text-3xl font-bold text-red-600">
-                {formatCents(issue.estimatedRevenueCents)}
+                {formatCents(issue.estimatedRevenueCents, issue.revenueCurrency)}
               </p>
               <p className="text-xs text-red-500 mt-0.5">at risk</p>
+              {issue.netRevenueCents != null && issue.netRevenueCents !== issue.estimatedRevenueCents && (
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {formatCents(issue.netRevenueCents, issue.revenueCurrency)} net of tax and fees
+                </p>
+              )}
+              {issue.originalCurrency && issue.originalCurrency !== issue.revenueCurrency && (
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {formatCents(issue.originalRevenueCents, issue.originalCurrency)} charged
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -392,11 +428,30 @@ export function IssueDetailPage() {
                 >
                   <XCircle size={15} /> Dismiss
                 </button>
+                <select
+                  value=""
+                  onChange={(e) => handleSnooze(Number(e.target.value))}
+                  disabled={actionLoading}
+                  className="px-3 py-2.5 text-sm font-medium rounded-lg bg-gray-50 text-gray-500 hover:bg-gray-100 border border-gray-200 transition-colors"
+                >
+                  <option value="" disabled>Snooze...</option>
+                  <option value="1">1 hour</option>
+                  <option value="24">1 day</option>
+                  <option value="168">1 week</option>
+                </select>
               </>
             )}
           </div>
         )}
 
+        {/* Snooze display */}
+        {issue.status === 'snoozed' && issue.snoozedUntil && (
+          <div className="flex items-center gap-2 mt-5 pt-5 border-t border-gray-100 text-sm text-gray-600">
+            <Clock size={14} className="text-blue-600" />
+            Snoozed until {formatDate(issue.snoozedUntil)}. Alerts are held back until then.
+          </div>
+        )}
+
         {/* Resolution display */}
         {issue.resolution && (
           <div className="mt-5 pt-5 border-t border-gray-100">
@@ -478,6 +533,8 @@ export function IssueDetailPage() {
         </div>
       </Card>
 
+      {issue.issueType === 'state_drift' && <StateDriftCard issue={issue} />}
+
       {/* Event Timeline from evidence */}
       {issue.evidence.events && Array.isArray(issue.evidence.events) && (
         <Card padding="lg" className="mb-6">
@@ -704,8 +761,6 @@ function AiInvestigationSection({ issueId }: { issueId: string }) {
   );
 }
 
-// ─── Affected Scope Card (for aggregate issues) ─────────────────────
-
 // ─── Category Badge ─────────────────────────────────────────────────
 
 function CategoryBadge({ issueType }: { issueType: string }) {
@@ -768,6 +823,40 @@ function RecommendedActionCard({ issue, onAcknowledge }: { issue: Issue; onAckno
   );
 }
 
+// ─── State Drift Card (provider vs entitlement) ──────────────────────
+
+function StateDriftCard({ issue }: { issue: Issue }) {
+  const { source, provider, entitlement, autoCorrected } = issue.evidence as Record<string, any>;
+  if (!provider || !entitlement) return null;
+
+  const sides = [
+    { label: `${source} (provider)`, state: provider.state, detail: provider.status, periodEnd: provider.currentPeriodEnd },
+    { label: 'RevBack entitlement', state: entitlement.state, detail: null, periodEnd: entitlement.currentPeriodEnd },
+  ];
+
+  return (
+    <Card padding="lg" className="mb-6">
+      <CardHeader
+        title="Provider vs RevBack"
+        subtitle="What the provider's subscription API reported, next to the entitlement"
+        action={autoCorrected ? <Badge variant="success" size="sm">Auto-corrected</Badge> : undefined}
+      />
+      <div className="grid grid-cols-2 gap-3">
+        {sides.map((side) => (
+          <div key={side.label} className="bg-gray-50 rounded-lg p-4 border border-gray-100">
+            <p className="text-xs font-medium text-gray-500 capitalize">{side.label}</p>
+            <p className="text-lg font-bold text-gray-900 capitalize">{String(side.state).replace(/_/g, ' ')}</p>
+            {side.detail && <p className="text-xs text-gray-500 font-mono mt-0.5">{side.detail}</p>}
+            <p className="text-xs text-gray-400 mt-1">
+              {side.periodEnd ? `Period ends ${formatDate(side.periodEnd)}` : 'No period end'}
+            </p>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
 // ─── Affected Scope Card (for aggregate issues) ─────────────────────
 
 function AffectedScopeCard({ issue }: { issue: Issue }) {
@@ -803,7 +892,7 @@ function AffectedScopeCard({ issue }: { issue: Issue }) {
           <div className="bg-gray-50 rounded-lg p-3 border border-gray-100">
             <p className="text-xs font-medium text-gray-500">Revenue at Risk</p>
             <p className="text-lg font-bold text-red-600">
-              {issue.estimatedRevenueCents != null ? formatCents(issue.estimatedRevenueCents) : 'N/A'}
+              {issue.estimatedRevenueCents != null ? formatCents(issue.estimatedRevenueCents, issue.revenueCurrency) : 'N/A'}
             </p>
           </div>
         </div>
@@ -884,7 +973,7 @@ function AffectedScopeCard({ issue }: { issue: Issue }) {
       {issue.estimatedRevenueCents != null && issue.estimatedRevenueCents > 0 && (
         <div className="mt-3 bg-gray-50 rounded-lg p-3 border border-gray-100">
           <p className="text-xs font-medium text-gray-500">Estimated Revenue Impact</p>
-          <p className="text-lg font-bold text-red-600">{formatCents(issue.estimatedRevenueCents)}</p>
+          <p className="text-lg font-bold text-red-600">{formatCents(issue.estimatedRevenueCents, issue.revenueCurrency)}</p>
         </div>
       )}
     </Card>
@@ -28,6 +28,7 @@ import {
   CheckSquare,
   Square,
   Eye,
+  Clock,
   XCircle,
   Loader2,
   BarChart3,
@@ -46,6 +47,7 @@ interface Issue {
   title: string;
   description: string;
   estimatedRevenueCents: number | null;
+  revenueCurrency: string | null;
   confidence: number | null;
   userId: string | null;
   detectionTier: string | null;
@@ -61,6 +63,7 @@ interface IssuesResponse {
 const STATUS_TABS = [
   { value: 'open', label: 'Open', icon: AlertTriangle },
   { value: 'acknowledged', label: 'Acknowledged', icon: Eye },
+  { value: 'snoozed', label: 'Snoozed', icon: Clock },
   { value: 'resolved', label: 'Resolved', icon: CheckCircle },
   { value: 'dismissed', label: 'Dismissed', icon: XCircle },
 ];
@@ -545,7 +548,7 @@ function AggregateIssueRow({
 
         <div className="text-right flex-shrink-0 w-24">
           {issue.estimatedRevenueCents != null && issue.estimatedRevenueCents > 0 && (
-            <p className="text-sm font-bold text-red-600">{formatCents(issue.estimatedRevenueCents)}</p>
+            <p className="text-sm font-bold text-red-600">{formatCents(issue.estimatedRevenueCents, issue.revenueCurrency)}</p>
           )}
           <p className="text-[10px] text-gray-400 mt-0.5">est. aggregate</p>
         </div>
@@ -649,7 +652,7 @@ function IssueRow({
 
         <div className="text-right flex-shrink-0 w-24">
           {issue.estimatedRevenueCents != null && issue.estimatedRevenueCents > 0 && (
-            <p className="text-sm font-bold text-red-600">{formatCents(issue.estimatedRevenueCents)}</p>
+            <p className="text-sm font-bold text-red-600">{formatCents(issue.estimatedRevenueCents, issue.revenueCurrency)}</p>
           )}
           {issue.confidence != null && (
             <p className="text-[10px] text-gray-400 mt-0.5">
@@ -1,7 +1,7 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import useSWR from 'swr';
-import { fetcher } from '../lib/api';
+import { fetcher, apiFetch } from '../lib/api';
 import { PageHeader } from '../components/ui/PageHeader';
 import { Badge } from '../components/ui/Badge';
 import {
@@ -20,6 +20,8 @@ import {
   BadgeCheck,
   Lock,
   CheckCircle,
+  Settings2,
+  AlertTriangle,
 } from 'lucide-react';
 import clsx from 'clsx';
 
@@ -78,6 +80,160 @@ interface IssuesResponse {
   total: number;
 }
 
+type Severity = 'critical' | 'warning' | 'info';
+
+interface DetectorThresholdSetting {
+  description: string;
+  unit: 'hours' | 'days' | 'percent' | 'count';
+  default?: number;
+  min: number;
+  max: number;
+  value: number | null;
+}
+
+interface DetectorSetting {
+  id: string;
+  enabled: boolean;
+  severity: Severity | null;
+  thresholds: Record<string, DetectorThresholdSetting>;
+  settings: { thresholds?: Record<string, number> };
+}
+
+const unitLabel: Record<DetectorThresholdSetting['unit'], string> = {
+  hours: 'hours',
+  days: 'days',
+  percent: '%',
+  count: '',
+};
+
+// Enable/disable, severity override and thresholds for one detector
+function DetectorSettingsPanel({
+  detector,
+  onSaved,
+}: {
+  detector: DetectorSetting;
+  onSaved: () => Promise<unknown>;
+}) {
+  const [enabled, setEnabled] = useState(detector.enabled);
+  const [severity, setSeverity] = useState<Severity | ''>(detector.severity ?? '');
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.keys(detector.thresholds).map((name) => {
+        const override = detector.settings.thresholds?.[name];
+        return [name, override == null ? '' : String(override)];
+      }),
+    ),
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleSave() {
+    run(() =>
+      apiFetch(`/detector-settings/${detector.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          enabled,
+          severity: severity || null,
+          // Blank inputs go back to the default
+          thresholds: Object.fromEntries(
+            Object.entries(values).map(([name, value]) => [name, value === '' ? null : Number(value)]),
+          ),
+        }),
+      }),
+    );
+  }
+
+  function handleReset() {
+    run(() => apiFetch(`/detector-settings/${detector.id}`, { method: 'DELETE' }));
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        Enabled
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-gray-700">
+        Severity
+        <select
+          value={severity}
+          onChange={(e) => setSeverity(e.target.value as Severity | '')}
+          className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-gray-900"
+        >
+          <option value="">Detector default</option>
+          <option value="critical">Always critical</option>
+          <option value="warning">Always warning</option>
+          <option value="info">Always info</option>
+        </select>
+      </label>
+
+      {Object.entries(detector.thresholds).map(([name, threshold]) => (
+        <label key={name} className="block text-xs text-gray-700">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{name}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={threshold.min}
+                max={threshold.max}
+                value={values[name] ?? ''}
+                placeholder={threshold.default != null ? String(threshold.default) : 'per source'}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className="w-24 px-2 py-1.5 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-gray-900"
+              />
+              <span className="w-8 text-gray-400">{unitLabel[threshold.unit]}</span>
+            </span>
+          </div>
+          <p className="mt-0.5 text-[10px] text-gray-400">{threshold.description}</p>
+        </label>
+      ))}
+
+      {error && (
+        <div className="flex items-center gap-1 text-xs text-red-600">
+          <AlertTriangle size={12} />
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={handleReset}
+          disabled={busy}
+          className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-30 transition-colors"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={busy}
+          className="px-3 py-1.5 text-xs font-medium rounded-lg bg-gray-900 text-white hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export function MonitorsPage() {
   useEffect(() => { document.title = 'What We Monitor - RevBack'; }, []);
 
@@ -87,6 +243,15 @@ export function MonitorsPage() {
     fetcher,
   );
 
+  const { data: settingsData, mutate: mutateSettings } = useSWR<{ detectors: DetectorSetting[] }>(
+    '/detector-settings',
+    fetcher,
+  );
+  const settingsById = Object.fromEntries(
+    (settingsData?.detectors ?? []).map((d) => [d.id, d]),
+  );
+  const [openSettings, setOpenSettings] = useState<string | null>(null);
+
   // Count open issues per detector type
   const issueCountsByType: Record<string, number> = {};
   if (issuesData?.issues) {
@@ -184,20 +349,23 @@ export function MonitorsPage() {
                   const isLocked = isTier2 && !sdkConnected;
                   const label =
                     ISSUE_TYPE_FILTER_OPTIONS[detectorId] || detectorId;
+                  const setting = settingsById[detectorId];
+                  const isDisabled = setting?.enabled === false;
+                  const severity = setting?.severity ?? meta.defaultSeverity;
 
                   return (
                     <div
                       key={detectorId}
                       className={clsx(
                         'bg-white rounded-xl border p-5',
-                        isLocked
+                        isLocked || isDisabled
                           ? 'border-dashed border-gray-300 opacity-75'
                           : count > 0
                           ? clsx(
                               'border-gray-200 border-l-4',
-                              meta.defaultSeverity === 'critical'
+                              severity === 'critical'
                                 ? 'border-l-red-500'
-                                : meta.defaultSeverity === 'warning'
+                                : severity === 'warning'
                                 ? 'border-l-amber-500'
                                 : 'border-l-blue-500',
                             )
@@ -224,14 +392,27 @@ export function MonitorsPage() {
                             )}
                           </div>
                         </div>
-                        <div>
+                        <div className="flex items-center gap-2">
+                          {setting && (
+                            <button
+                              onClick={() => setOpenSettings(openSettings === detectorId ? null : detectorId)}
+                              title="Detector settings"
+                              className="text-gray-400 hover:text-gray-600 transition-colors"
+                            >
+                              <Settings2 size={16} />
+                            </button>
+                          )}
                           {isLocked ? (
                             <Lock size={16} className="text-gray-400" />
+                          ) : isDisabled ? (
+                            <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">
+                              Off
+                            </span>
                           ) : count > 0 ? (
                             <div
                               className={clsx(
                                 'w-6 h-6 rounded-full text-xs font-bold flex items-center justify-center',
-                                severityBgColor[meta.defaultSeverity],
+                                severityBgColor[severity],
                               )}
                             >
                               {count}
@@ -252,15 +433,8 @@ export function MonitorsPage() {
 
                       {/* Severity & action row */}
                       <div className="mt-3 pt-3 border-t border-gray-100 flex items-center justify-between">
-                        <Badge
-                          variant={
-                            meta.defaultSeverity as
-                              | 'critical'
-                              | 'warning'
-                              | 'info'
-                          }
-                        >
-                          {meta.defaultSeverity}
+                        <Badge variant={severity as Severity}>
+                          {severity}
                         </Badge>
                         <div>
                           {isLocked ? (
@@ -285,6 +459,15 @@ export function MonitorsPage() {
                         </div>
                       </div>
 
+                      {/* Settings */}
+                      {setting && openSettings === detectorId && (
+                        <DetectorSettingsPanel
+                          key={JSON.stringify(setting)}
+                          detector={setting}
+                          onSaved={() => mutateSettings()}
+                        />
+                      )}
+
                       {/* Tier 2 footer */}
                       {isLocked && (
                         <div className="mt-3 pt-3 border-t border-dashed border-gray-200 flex items-center gap-2">
@@ -55,6 +55,7 @@ interface FirstLookReport {
     distribution: { state: string; count: number; percentage: number }[];
   };
   revenueImpact: {
+    currency: string;
     totalMonthlyRevenueCentsAtRisk: number;
     totalOpenIssues: number;
     bySeverity: { severity: string; count: number; revenueCents: number }[];
@@ -1524,7 +1525,7 @@ function SectionReport({ apiKey }: { apiKey: string }) {
       {hasIssues ? (
         <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center mb-6">
           <p className="text-5xl font-bold text-red-700">
-            {formatCents(report.revenueImpact.totalMonthlyRevenueCentsAtRisk)}
+            {formatCents(report.revenueImpact.totalMonthlyRevenueCentsAtRisk, report.revenueImpact.currency)}
             <span className="text-lg font-medium text-red-500">/mo</span>
           </p>
           <p className="text-sm text-red-600 mt-1">
@@ -1614,7 +1615,7 @@ function SectionReport({ apiKey }: { apiKey: string }) {
                   {issue.severity}
                 </span>
                 <span className="text-sm font-medium text-gray-900 w-24 text-right">
-                  {formatCents(issue.estimatedRevenueCents)}
+                  {formatCents(issue.estimatedRevenueCents, report.revenueImpact.currency)}
                 </span>
               </div>
             ))}
@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import useSWR from 'swr';
+import { fetcher, apiFetch } from '../lib/api';
+import { formatNumber, timeAgo, sourceIcon } from '../lib/format';
+import { Card, CardHeader } from '../components/ui/Card';
+import { Badge } from '../components/ui/Badge';
+import { PageHeader } from '../components/ui/PageHeader';
+import { EmptyState } from '../components/ui/EmptyState';
+import { ErrorState } from '../components/ui/ErrorState';
+import { SkeletonRow } from '../components/ui/Skeleton';
+import { Package, AlertTriangle, GitMerge, Check } from 'lucide-react';
+
+type ExternalIds = Partial<Record<string, string[]>>;
+
+interface Product {
+  id: string;
+  name: string;
+  externalIds: ExternalIds;
+  isActive: boolean;
+  autoCreated: boolean;
+  createdAt: string;
+}
+
+interface UnmappedProduct extends Product {
+  eventCount: number;
+  userCount: number;
+  lastEventAt: string | null;
+}
+
+function ExternalIdList({ externalIds }: { externalIds: ExternalIds }) {
+  const entries = Object.entries(externalIds).flatMap(([source, ids]) =>
+    (ids ?? []).map((id) => ({ source, id })),
+  );
+  if (entries.length === 0) return <span className="text-xs text-gray-300">--</span>;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {entries.map(({ source, id }) => (
+        <span
+          key={`${source}:${id}`}
+          className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-mono bg-gray-50 border border-gray-200 rounded"
+          title={source}
+        >
+          {sourceIcon(source)} {id}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function ProductsPage() {
+  useEffect(() => { document.title = 'Products - RevBack'; }, []);
+
+  const {
+    data: unmappedData,
+    isLoading: unmappedLoading,
+    error: unmappedError,
+    mutate: mutateUnmapped,
+  } = useSWR<{ products: UnmappedProduct[] }>('/dashboard/unmapped-products', fetcher);
+  const {
+    data: catalogData,
+    isLoading: catalogLoading,
+    error: catalogError,
+    mutate: mutateCatalog,
+  } = useSWR<{ products: Product[] }>('/products', fetcher);
+
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const unmapped = unmappedData?.products ?? [];
+  const mapped = (catalogData?.products ?? []).filter((p) => !p.autoCreated);
+
+  async function runAction(productId: string, action: () => Promise<unknown>) {
+    setBusyId(productId);
+    setActionError(null);
+    try {
+      await action();
+      await Promise.all([mutateUnmapped(), mutateCatalog()]);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function handleMerge(product: UnmappedProduct) {
+    const targetId = mergeTargets[product.id];
+    if (!targetId) return;
+    runAction(product.id, () =>
+      apiFetch(`/products/${targetId}/merge`, {
+        method: 'POST',
+        body: JSON.stringify({ sourceProductId: product.id }),
+      }),
+    );
+  }
+
+  // Keeping it as its own product still counts as mapping it
+  function handleKeep(product: UnmappedProduct) {
+    runAction(product.id, () =>
+      apiFetch(`/products/${product.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ name: product.name }),
+      }),
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <PageHeader
+        title="Products"
+        subtitle="Map the product IDs from each billing platform onto one catalog"
+      />
+
+      {actionError && (
+        <div className="mb-4 flex items-center gap-2 px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertTriangle size={14} />
+          {actionError}
+        </div>
+      )}
+
+      {/* Unmapped products */}
+      <Card padding="none" className="mb-6 overflow-hidden">
+        <div className="p-5 pb-0">
+          <CardHeader
+            title="Unmapped products"
+            subtitle="Created automatically from events with a product ID RevBack hadn't seen. Merge each into the product it belongs to so duplicate billing across platforms can be detected."
+          />
+        </div>
+
+        {unmappedLoading && (
+          <div className="space-y-2 p-5">
+            {Array.from({ length: 3 }).map((_, i) => <SkeletonRow key={i} />)}
+          </div>
+        )}
+
+        {unmappedError && (
+          <div className="p-5">
+            <ErrorState message="Failed to load unmapped products" onRetry={() => mutateUnmapped()} />
+          </div>
+        )}
+
+        {!unmappedLoading && !unmappedError && unmapped.length === 0 && (
+          <EmptyState
+            icon={Check}
+            title="Every product is mapped"
+            description="New product IDs from your billing platforms will show up here"
+          />
+        )}
+
+        {!unmappedLoading && !unmappedError && unmapped.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50 border-y border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">External ID</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">Events</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">Users</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">Last seen</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">Map to</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {unmapped.map((product) => (
+                  <tr key={product.id} className="hover:bg-gray-50/50 transition-colors">
+                    <td className="py-3 px-4">
+                      <ExternalIdList externalIds={product.externalIds} />
+                    </td>
+                    <td className="py-3 px-4 text-gray-700">{formatNumber(product.eventCount)}</td>
+                    <td className="py-3 px-4 text-gray-700">{formatNumber(product.userCount)}</td>
+                    <td className="py-3 px-4">
+                      <span className="text-xs text-gray-500">
+                        {product.lastEventAt ? timeAgo(product.lastEventAt) : '--'}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={mergeTargets[product.id] ?? ''}
+                          onChange={(e) => setMergeTargets((prev) => ({ ...prev, [product.id]: e.target.value }))}
+                          className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-gray-900"
+                        >
+                          <option value="">Choose a product...</option>
+                          {mapped.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleMerge(product)}
+                          disabled={!mergeTargets[product.id] || busyId === product.id}
+                          className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-lg bg-gray-900 text-white hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                        >
+                          <GitMerge size={12} />
+                          Merge
+                        </button>
+                        <button
+                          onClick={() => handleKeep(product)}
+                          disabled={busyId === product.id}
+                          className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-30 transition-colors"
+                        >
+                          Keep separate
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Catalog */}
+      <Card padding="none" className="overflow-hidden">
+        <div className="p-5 pb-0">
+          <CardHeader title="Catalog" subtitle={`${mapped.length} mapped products`} />
+        </div>
+
+        {catalogLoading && (
+          <div className="space-y-2 p-5">
+            {Array.from({ length: 4 }).map((_, i) => <SkeletonRow key={i} />)}
+          </div>
+        )}
+
+        {catalogError && (
+          <div className="p-5">
+            <ErrorState message="Failed to load products" onRetry={() => mutateCatalog()} />
+          </div>
+        )}
+
+        {!catalogLoading && !catalogError && mapped.length === 0 && (
+          <EmptyState
+            icon={Package}
+            title="No products yet"
+            description="Create products through the API, or keep an unmapped product to add it here"
+          />
+        )}
+
+        {!catalogLoading && !catalogError && mapped.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50 border-y border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">Product</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">External IDs</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-500 text-xs uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {mapped.map((product) => (
+                  <tr key={product.id} className="hover:bg-gray-50/50 transition-colors">
+                    <td className="py-3 px-4">
+                      <p className="text-sm font-medium text-gray-900">{product.name}</p>
+                      <p className="text-[10px] text-gray-400 font-mono">{product.id.slice(0, 8)}</p>
+                    </td>
+                    <td className="py-3 px-4">
+                      <ExternalIdList externalIds={product.externalIds} />
+                    </td>
+                    <td className="py-3 px-4">
+                      {product.isActive ? (
+                        <Badge variant="success" size="sm">Active</Badge>
+                      ) : (
+                        <Badge variant="neutral" size="sm">Inactive</Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -79,6 +79,7 @@ export function UserProfilePage() {
     apple: <Shield size={14} className="text-gray-700" />,
     google: <Activity size={14} className="text-green-600" />,
     recurly: <CreditCard size={14} className="text-blue-600" />,
+    braintree: <CreditCard size={14} className="text-sky-600" />,
   };
 
   return (
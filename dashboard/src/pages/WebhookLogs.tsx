@@ -1,8 +1,9 @@
 import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import useSWR from 'swr';
 import { fetcher } from '../lib/api';
 import { formatDate, timeAgo } from '../lib/format';
-import { Card } from '../components/ui/Card';
+import { Card, CardHeader } from '../components/ui/Card';
 import { Badge } from '../components/ui/Badge';
 import { PageHeader } from '../components/ui/PageHeader';
 import { KPICard } from '../components/ui/KPICard';
@@ -14,6 +15,7 @@ import {
   Zap,
   Shield,
   RefreshCw,
+  CreditCard,
   FileText,
   CheckCircle,
   XCircle,
@@ -23,6 +25,7 @@ import {
   ChevronRight,
   X,
   Percent,
+  History,
 } from 'lucide-react';
 
 // ─── Types ─────────────────────────────────────────────────────────
@@ -34,6 +37,7 @@ interface WebhookLog {
   eventType: string | null;
   externalEventId: string | null;
   errorMessage: string | null;
+  recoveryIssueId: string | null;
   createdAt: string;
   processedAt: string | null;
 }
@@ -48,10 +52,31 @@ interface WebhookLogDetail {
   errorMessage: string | null;
   rawHeaders: Record<string, string> | null;
   rawBody: string | null;
+  recoveryIssueId: string | null;
   createdAt: string;
   processedAt: string | null;
 }
 
+interface GapRecovery {
+  issueId: string;
+  status: string;
+  title: string;
+  source: string;
+  createdAt: string;
+  recovery: {
+    status: 'completed' | 'failed' | 'skipped';
+    reason?: string;
+    from: string;
+    to: string;
+    found: number;
+    alreadyReceived: number;
+    replayed: number;
+    failed: number;
+    errors?: string[];
+    completedAt: string;
+  };
+}
+
 interface WebhookStats {
   total: number;
   last24h: {
@@ -73,6 +98,7 @@ const sourceIcons: Record<string, React.ReactNode> = {
   apple: <Shield size={14} className="text-gray-700" />,
   google: <Activity size={14} className="text-green-600" />,
   recurly: <RefreshCw size={14} className="text-blue-600" />,
+  braintree: <CreditCard size={14} className="text-sky-600" />,
 };
 
 const sourceLabels: Record<string, string> = {
@@ -80,6 +106,7 @@ const sourceLabels: Record<string, string> = {
   apple: 'Apple',
   google: 'Google Play',
   recurly: 'Recurly',
+  braintree: 'Braintree',
 };
 
 const statusConfig: Record<string, { variant: 'success' | 'critical' | 'warning' | 'neutral'; label: string }> = {
@@ -90,6 +117,16 @@ const statusConfig: Record<string, { variant: 'success' | 'critical' | 'warning'
   queued: { variant: 'neutral', label: 'Queued' },
 };
 
+const recoveryStatusConfig: Record<string, { variant: 'success' | 'critical' | 'warning'; label: string }> = {
+  completed: { variant: 'success', label: 'Recovered' },
+  failed: { variant: 'critical', label: 'Failed' },
+  skipped: { variant: 'warning', label: 'Skipped' },
+};
+
+const recoverySkipReasons: Record<string, string> = {
+  no_api_access: 'No API credentials on the connection',
+};
+
 const DATE_PRESETS = [
   { value: '', label: 'All Time' },
   { value: '1', label: 'Last 24h' },
@@ -107,6 +144,7 @@ export function WebhookLogsPage() {
   const [source, setSource] = useState('');
   const [status, setStatus] = useState('');
   const [dateRange, setDateRange] = useState('');
+  const [recoveredOnly, setRecoveredOnly] = useState(false);
   const [page, setPage] = useState(0);
   const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
 
@@ -127,6 +165,7 @@ export function WebhookLogsPage() {
   if (source) params.set('source', source);
   if (status) params.set('status', status);
   if (dateParams.from) params.set('from', dateParams.from);
+  if (recoveredOnly) params.set('recovered', 'true');
 
   // Fetch logs list
   const { data, isLoading, error, mutate } = useSWR<{
@@ -141,6 +180,13 @@ export function WebhookLogsPage() {
     { refreshInterval: 30000 },
   );
 
+  // Fetch webhook gap recoveries
+  const { data: recoveriesData } = useSWR<{ recoveries: GapRecovery[] }>(
+    '/webhook-logs/recoveries',
+    fetcher,
+    { refreshInterval: 30000 },
+  );
+
   // Fetch detail for selected log
   const { data: detailData } = useSWR<{ log: WebhookLogDetail }>(
     selectedLogId ? `/webhook-logs/${selectedLogId}` : null,
@@ -150,7 +196,7 @@ export function WebhookLogsPage() {
   // Reset page when filters change
   useEffect(() => {
     setPage(0);
-  }, [source, status, dateRange]);
+  }, [source, status, dateRange, recoveredOnly]);
 
   const totalPages = data ? Math.ceil(data.pagination.count / PAGE_SIZE) : 0;
   const stats = statsData?.last24h;
@@ -208,6 +254,52 @@ export function WebhookLogsPage() {
         </div>
       )}
 
+      {/* Webhook gap recoveries */}
+      {recoveriesData && recoveriesData.recoveries.length > 0 && (
+        <Card padding="none" className="mb-6 overflow-hidden">
+          <div className="p-5 pb-0">
+            <CardHeader
+              title="Gap recoveries"
+              subtitle="Notifications missed during a webhook delivery gap, fetched from the provider's API and replayed"
+            />
+          </div>
+          <div className="divide-y divide-gray-100 border-t border-gray-200">
+            {recoveriesData.recoveries.map((r) => {
+              const rc = recoveryStatusConfig[r.recovery.status];
+              return (
+                <div key={r.issueId} className="flex items-center gap-4 px-5 py-3">
+                  <div className="w-7 h-7 rounded bg-gray-50 border border-gray-200 flex items-center justify-center">
+                    {sourceIcons[r.source] || <Activity size={12} className="text-gray-400" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <Link to={`/issues/${r.issueId}`} className="text-sm font-medium text-gray-900 hover:underline">
+                      {r.title}
+                    </Link>
+                    <p className="text-[11px] text-gray-400 mt-0.5">
+                      {formatDate(r.recovery.from)} &ndash; {formatDate(r.recovery.to)}
+                    </p>
+                  </div>
+                  <div className="text-xs text-gray-500 text-right">
+                    {r.recovery.status === 'skipped' ? (
+                      <span>{recoverySkipReasons[r.recovery.reason ?? ''] ?? r.recovery.reason}</span>
+                    ) : r.recovery.status === 'failed' && r.recovery.found === 0 ? (
+                      <span className="text-red-600" title={r.recovery.errors?.[0]}>Provider API error</span>
+                    ) : (
+                      <span>
+                        {r.recovery.replayed} replayed &middot; {r.recovery.alreadyReceived} already received
+                        {r.recovery.failed > 0 && <span className="text-red-600"> &middot; {r.recovery.failed} failed</span>}
+                      </span>
+                    )}
+                    <p className="text-[10px] text-gray-400 mt-0.5">{timeAgo(r.recovery.completedAt)}</p>
+                  </div>
+                  <Badge variant={rc.variant} size="sm" dot>{rc.label}</Badge>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
       {/* Filters */}
       <div className="flex items-center gap-2 mb-6 flex-wrap">
         {[
@@ -216,6 +308,7 @@ export function WebhookLogsPage() {
           { value: 'apple', label: 'Apple', icon: <Shield size={13} className="text-gray-700" /> },
           { value: 'google', label: 'Google', icon: <Activity size={13} className="text-green-600" /> },
           { value: 'recurly', label: 'Recurly', icon: <RefreshCw size={13} className="text-blue-600" /> },
+          { value: 'braintree', label: 'Braintree', icon: <CreditCard size={13} className="text-sky-600" /> },
         ].map((s) => (
           <button
             key={s.value}
@@ -248,6 +341,20 @@ export function WebhookLogsPage() {
 
         <div className="w-px h-5 bg-gray-200 mx-1" />
 
+        <button
+          onClick={() => setRecoveredOnly((v) => !v)}
+          className={`inline-flex items-center gap-1.5 px-3.5 py-2 text-xs font-medium rounded-lg border transition-all ${
+            recoveredOnly
+              ? 'bg-gray-900 text-white border-gray-900 shadow-sm'
+              : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50 hover:border-gray-300'
+          }`}
+        >
+          <History size={13} />
+          Recovered
+        </button>
+
+        <div className="w-px h-5 bg-gray-200 mx-1" />
+
         <div className="relative">
           <Calendar size={13} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
           <select
@@ -335,9 +442,14 @@ export function WebhookLogsPage() {
                           )}
                         </td>
                         <td className="py-3 px-4">
-                          <Badge variant={sc.variant} size="sm" dot>
-                            {sc.label}
-                          </Badge>
+                          <div className="flex items-center gap-1.5">
+                            <Badge variant={sc.variant} size="sm" dot>
+                              {sc.label}
+                            </Badge>
+                            {log.recoveryIssueId && (
+                              <Badge variant="info" size="sm">Recovered</Badge>
+                            )}
+                          </div>
                         </td>
                         <td className="py-3 px-4">
                           {log.errorMessage ? (
@@ -472,6 +584,13 @@ function WebhookDetailModal({
                 {log.httpStatus != null && (
                   <DetailField label="HTTP Status" value={String(log.httpStatus)} />
                 )}
+                {log.recoveryIssueId && (
+                  <DetailField label="Recovered For">
+                    <Link to={`/issues/${log.recoveryIssueId}`} className="text-sm text-gray-900 underline">
+                      Webhook gap issue
+                    </Link>
+                  </DetailField>
+                )}
               </div>
 
               {/* Error Message */}
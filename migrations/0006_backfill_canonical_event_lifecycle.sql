@@ -0,0 +1,31 @@
+-- Normalizers now populate expiration_time and environment directly.
+-- Backfill both for events stored before that from the raw payloads, so
+-- entitlement replays keep their period end dates.
+
+UPDATE "canonical_events"
+SET "expiration_time" = to_timestamp(("raw_payload" -> 'data' -> 'object' ->> 'current_period_end')::bigint) AT TIME ZONE 'UTC'
+WHERE "source" = 'stripe'
+  AND "expiration_time" IS NULL
+  AND "raw_payload" -> 'data' -> 'object' ->> 'current_period_end' IS NOT NULL;
+
+UPDATE "canonical_events"
+SET "expiration_time" = to_timestamp(("raw_payload" -> 'transaction' ->> 'expiresDate')::bigint / 1000.0) AT TIME ZONE 'UTC'
+WHERE "source" = 'apple'
+  AND "expiration_time" IS NULL
+  AND "raw_payload" -> 'transaction' ->> 'expiresDate' IS NOT NULL;
+
+UPDATE "canonical_events"
+SET "expiration_time" = ("raw_payload" -> 'subject' -> 'subscription' ->> 'billingPeriodEndDate')::timestamp
+WHERE "source" = 'braintree'
+  AND "expiration_time" IS NULL
+  AND "raw_payload" -> 'subject' -> 'subscription' ->> 'billingPeriodEndDate' IS NOT NULL;
+
+UPDATE "canonical_events"
+SET "environment" = 'sandbox'
+WHERE "source" = 'stripe'
+  AND "raw_payload" ->> 'livemode' = 'false';
+
+UPDATE "canonical_events"
+SET "environment" = 'sandbox'
+WHERE "source" = 'apple'
+  AND "raw_payload" -> 'notification' -> 'data' ->> 'environment' IN ('Sandbox', 'Xcode');
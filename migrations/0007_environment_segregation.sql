@@ -0,0 +1,40 @@
+-- Tag entitlements and issues with the environment (sandbox | production)
+ALTER TABLE "entitlements" ADD COLUMN IF NOT EXISTS "environment" varchar(20) DEFAULT 'production' NOT NULL;
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "environment" varchar(20) DEFAULT 'production' NOT NULL;
+
+-- Sandbox and production entitlements for the same user/product/source are kept apart
+DROP INDEX IF EXISTS "entitlements_user_product_source_idx";
+CREATE UNIQUE INDEX IF NOT EXISTS "entitlements_user_product_source_idx"
+  ON "entitlements" ("org_id", "user_id", "product_id", "source", "environment");
+
+CREATE INDEX IF NOT EXISTS "issues_org_environment_idx" ON "issues" ("org_id", "environment");
+
+-- Entitlements built only from sandbox events become sandbox entitlements.
+-- Mixed histories stay production; rebuild them to split the sandbox events out.
+UPDATE "entitlements" e
+SET "environment" = 'sandbox'
+WHERE EXISTS (
+    SELECT 1 FROM "canonical_events" ce
+    WHERE ce."org_id" = e."org_id" AND ce."user_id" = e."user_id"
+      AND ce."product_id" = e."product_id" AND ce."source" = e."source"
+      AND ce."environment" = 'sandbox'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM "canonical_events" ce
+    WHERE ce."org_id" = e."org_id" AND ce."user_id" = e."user_id"
+      AND ce."product_id" = e."product_id" AND ce."source" = e."source"
+      AND ce."environment" = 'production'
+  );
+
+-- Issues already raised for QA/test users (every event sandbox) become sandbox issues
+UPDATE "issues" i
+SET "environment" = 'sandbox'
+WHERE i."user_id" IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM "canonical_events" ce
+    WHERE ce."org_id" = i."org_id" AND ce."user_id" = i."user_id" AND ce."environment" = 'sandbox'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM "canonical_events" ce
+    WHERE ce."org_id" = i."org_id" AND ce."user_id" = i."user_id" AND ce."environment" = 'production'
+  );
@@ -0,0 +1,27 @@
+-- Product external IDs become lists, so one product can carry several IDs per source
+-- ({ "stripe": "prod_x" } -> { "stripe": ["prod_x"] })
+UPDATE "products"
+SET "external_ids" = (
+  SELECT coalesce(
+    jsonb_object_agg(key, CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE jsonb_build_array(value) END),
+    '{}'::jsonb
+  )
+  FROM jsonb_each("external_ids")
+)
+WHERE EXISTS (SELECT 1 FROM jsonb_each("external_ids") WHERE jsonb_typeof(value) <> 'array');
+
+-- Products the ingestion pipeline created from an unknown external ID, awaiting mapping
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "auto_created" boolean DEFAULT false NOT NULL;
+
+-- Auto-created products were named after their single external ID
+UPDATE "products" p
+SET "auto_created" = true
+WHERE (SELECT count(*) FROM jsonb_each(p."external_ids")) = 1
+  AND EXISTS (
+    SELECT 1
+    FROM jsonb_each(p."external_ids") e, jsonb_array_elements_text(e.value) AS ext(id)
+    WHERE ext.id = p."name"
+  );
+
+-- Lookup by external ID: external_ids @> '{"stripe": ["prod_x"]}'
+CREATE INDEX IF NOT EXISTS "products_external_ids_idx" ON "products" USING gin ("external_ids" jsonb_path_ops);
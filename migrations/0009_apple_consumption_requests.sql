@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS apple_consumption_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id),
+  user_id UUID REFERENCES users(id),
+  notification_uuid VARCHAR(255) NOT NULL,
+  transaction_id VARCHAR(255) NOT NULL,
+  original_transaction_id VARCHAR(255) NOT NULL,
+  external_product_id VARCHAR(255),
+  reason VARCHAR(50),
+  environment VARCHAR(20) DEFAULT 'production' NOT NULL,
+  status VARCHAR(20) DEFAULT 'pending' NOT NULL,
+  skip_reason VARCHAR(100),
+  consumption_data JSONB,
+  error_message TEXT,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  requested_at TIMESTAMP NOT NULL,
+  deadline_at TIMESTAMP NOT NULL,
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Apple may deliver a notification more than once
+CREATE UNIQUE INDEX IF NOT EXISTS apple_consumption_notification_idx
+  ON apple_consumption_requests(org_id, notification_uuid);
+CREATE INDEX IF NOT EXISTS apple_consumption_org_requested_idx
+  ON apple_consumption_requests(org_id, requested_at);
@@ -0,0 +1,6 @@
+-- Webhook deliveries recovered from the provider's API after a delivery gap
+-- point at the webhook_delivery_gap issue that triggered the recovery
+ALTER TABLE "webhook_logs" ADD COLUMN IF NOT EXISTS "recovery_issue_id" UUID REFERENCES "issues"("id");
+
+CREATE INDEX IF NOT EXISTS "webhook_logs_recovery_issue_idx"
+  ON "webhook_logs" ("recovery_issue_id");
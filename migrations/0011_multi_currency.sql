@@ -0,0 +1,30 @@
+-- Daily exchange rates against USD. Shared rows have no org; an org's own
+-- rows take precedence for the same day.
+CREATE TABLE IF NOT EXISTS "fx_rates" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "org_id" uuid REFERENCES "organizations"("id"),
+  "currency" varchar(3) NOT NULL,
+  "units_per_usd" numeric(24, 12) NOT NULL,
+  "effective_date" date NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "fx_rates_shared_currency_date_idx"
+  ON "fx_rates" ("currency", "effective_date") WHERE "org_id" IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "fx_rates_org_currency_date_idx"
+  ON "fx_rates" ("org_id", "currency", "effective_date") WHERE "org_id" IS NOT NULL;
+
+-- Issue revenue is converted to the org's reporting currency; the amount
+-- the detector saw is kept alongside
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "revenue_currency" varchar(3);
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "original_revenue_cents" integer;
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "original_currency" varchar(3);
+
+-- Existing amounts were stored unconverted, in the currency of the event
+-- behind the issue (recorded in the evidence by the revenue detectors)
+UPDATE "issues"
+SET "original_revenue_cents" = "estimated_revenue_cents",
+    "original_currency" = upper(coalesce("evidence"->>'currency', 'USD')),
+    "revenue_currency" = upper(coalesce("evidence"->>'currency', 'USD'))
+WHERE "estimated_revenue_cents" IS NOT NULL AND "revenue_currency" IS NULL;
@@ -0,0 +1,41 @@
+-- Gross, tax and fees per event; proceeds_cents (net) already exists
+ALTER TABLE "canonical_events" ADD COLUMN IF NOT EXISTS "tax_cents" integer;
+ALTER TABLE "canonical_events" ADD COLUMN IF NOT EXISTS "fee_cents" integer;
+
+-- Apple prices are milliunits of the currency but were stored multiplied
+-- by 1000 instead of scaled down to minor units
+UPDATE "canonical_events"
+SET "amount_cents" = round("amount_cents" / CASE
+      WHEN upper("currency") IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 1000000.0
+      WHEN upper("currency") IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 1000.0
+      ELSE 10000.0
+    END)
+WHERE "source" = 'apple' AND "amount_cents" IS NOT NULL AND "proceeds_cents" IS NULL;
+
+-- Net revenue impact alongside gross, converted the same way
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "net_revenue_cents" integer;
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "original_net_revenue_cents" integer;
+
+-- Issues raised on Apple events copied those amounts; scale them by the
+-- currency the amount was in (converted amounts scale the same way)
+UPDATE "issues"
+SET "estimated_revenue_cents" = round("estimated_revenue_cents" / d.divisor),
+    "original_revenue_cents" = round("original_revenue_cents" / d.divisor)
+FROM (
+  SELECT "id", CASE
+      WHEN upper("original_currency") IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 1000000.0
+      WHEN upper("original_currency") IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 1000.0
+      ELSE 10000.0
+    END AS divisor
+  FROM "issues"
+) d
+WHERE "issues"."id" = d."id"
+  AND "issues"."evidence"->>'source' = 'apple'
+  AND "issues"."original_revenue_cents" IS NOT NULL
+  AND "issues"."net_revenue_cents" IS NULL;
+
+-- Fees weren't known for existing issues, so net starts out equal to gross
+UPDATE "issues"
+SET "net_revenue_cents" = "estimated_revenue_cents",
+    "original_net_revenue_cents" = "original_revenue_cents"
+WHERE "net_revenue_cents" IS NULL;
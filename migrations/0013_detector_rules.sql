@@ -0,0 +1,16 @@
+-- Declarative detectors defined per org
+CREATE TABLE IF NOT EXISTS "detector_rules" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "org_id" uuid NOT NULL REFERENCES "organizations"("id"),
+  "name" varchar(255) NOT NULL,
+  "description" text,
+  "severity" "issue_severity" NOT NULL,
+  "conditions" jsonb NOT NULL,
+  "title_template" text NOT NULL,
+  "description_template" text,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "detector_rules_org_idx" ON "detector_rules" ("org_id");
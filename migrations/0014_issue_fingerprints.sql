@@ -0,0 +1,45 @@
+-- Stable identity per detected problem, with how often it has been seen
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "fingerprint" varchar(500);
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "occurrence_count" integer DEFAULT 1 NOT NULL;
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "last_seen_at" timestamp DEFAULT now() NOT NULL;
+
+-- Same format as issueFingerprint() in src/detection/fingerprint.ts
+UPDATE "issues"
+SET "fingerprint" = "detector_id" || ':' || "issue_type" || ':' || coalesce("evidence"->>'source', '-') || ':' || coalesce("user_id"::text, 'org')
+      || coalesce(':' || coalesce("evidence"->>'entitlementId', "evidence"->>'productId'), ''),
+    "last_seen_at" = "updated_at"
+WHERE "fingerprint" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "issues_org_fingerprint_idx" ON "issues" ("org_id", "fingerprint");
+
+-- Aggregate detectors raised a new issue on every scan while a problem
+-- lasted. Keep the most recent open one, counting the others as its
+-- occurrences, and resolve the others as duplicates.
+UPDATE "issues" AS i
+SET "occurrence_count" = d."count"
+FROM (
+  SELECT "org_id", "fingerprint", count(*) AS "count", max("created_at") AS "latest"
+  FROM "issues"
+  WHERE "status" IN ('open', 'acknowledged')
+  GROUP BY "org_id", "fingerprint"
+  HAVING count(*) > 1
+) AS d
+WHERE i."org_id" = d."org_id"
+  AND i."fingerprint" = d."fingerprint"
+  AND i."status" IN ('open', 'acknowledged')
+  AND i."created_at" = d."latest";
+
+UPDATE "issues" AS i
+SET "status" = 'resolved',
+    "resolved_at" = now(),
+    "resolved_by" = 'system',
+    "resolution" = 'Duplicate of a newer issue for the same problem',
+    "updated_at" = now()
+WHERE i."status" IN ('open', 'acknowledged')
+  AND EXISTS (
+    SELECT 1 FROM "issues" AS newer
+    WHERE newer."org_id" = i."org_id"
+      AND newer."fingerprint" = i."fingerprint"
+      AND newer."status" IN ('open', 'acknowledged')
+      AND newer."created_at" > i."created_at"
+  );
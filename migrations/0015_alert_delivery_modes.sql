@@ -0,0 +1,6 @@
+-- Batched and digest delivery per alert configuration
+ALTER TABLE "alert_configurations" ADD COLUMN IF NOT EXISTS "delivery_mode" varchar(20) DEFAULT 'immediate' NOT NULL;
+ALTER TABLE "alert_configurations" ADD COLUMN IF NOT EXISTS "delivery_schedule" jsonb;
+
+-- Issues awaiting a batch or digest are 'pending' delivery log entries
+CREATE INDEX IF NOT EXISTS "alert_delivery_config_status_idx" ON "alert_delivery_logs" ("alert_config_id", "status");
@@ -0,0 +1,3 @@
+-- Re-notify or escalate when an alerted issue goes unacknowledged
+ALTER TABLE "alert_configurations" ADD COLUMN IF NOT EXISTS "escalation_policy" jsonb;
+ALTER TABLE "alert_delivery_logs" ADD COLUMN IF NOT EXISTS "escalation_level" integer DEFAULT 0 NOT NULL;
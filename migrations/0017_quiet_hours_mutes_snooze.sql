@@ -0,0 +1,20 @@
+-- Quiet hours per alert configuration
+ALTER TABLE "alert_configurations" ADD COLUMN IF NOT EXISTS "quiet_hours" jsonb;
+
+-- Alert mutes for an issue type and/or user
+CREATE TABLE IF NOT EXISTS "alert_mutes" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "org_id" uuid NOT NULL REFERENCES "organizations"("id"),
+  "issue_type" varchar(100),
+  "user_id" uuid REFERENCES "users"("id"),
+  "reason" text,
+  "muted_until" timestamp NOT NULL,
+  "created_by" varchar(255) NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "alert_mutes_org_until_idx" ON "alert_mutes" ("org_id", "muted_until");
+
+-- Snoozed issues are hidden until snoozed_until, then reopen
+ALTER TYPE "issue_status" ADD VALUE IF NOT EXISTS 'snoozed' AFTER 'acknowledged';
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "snoozed_until" timestamp;
@@ -0,0 +1,2 @@
+ALTER TYPE "alert_channel" ADD VALUE IF NOT EXISTS 'teams';
+ALTER TYPE "alert_channel" ADD VALUE IF NOT EXISTS 'discord';
@@ -0,0 +1 @@
+ALTER TYPE "alert_channel" ADD VALUE IF NOT EXISTS 'opsgenie';
@@ -0,0 +1,36 @@
+-- Two scans racing on the same problem could each raise an issue. Keep
+-- the most recent active one per fingerprint, counting the others as its
+-- occurrences, and resolve the others as duplicates.
+UPDATE "issues" AS i
+SET "occurrence_count" = d."occurrences"
+FROM (
+  SELECT "org_id", "fingerprint", sum("occurrence_count") AS "occurrences", max("created_at") AS "latest"
+  FROM "issues"
+  WHERE "status" IN ('open', 'acknowledged', 'snoozed') AND "fingerprint" IS NOT NULL
+  GROUP BY "org_id", "fingerprint"
+  HAVING count(*) > 1
+) AS d
+WHERE i."org_id" = d."org_id"
+  AND i."fingerprint" = d."fingerprint"
+  AND i."status" IN ('open', 'acknowledged', 'snoozed')
+  AND i."created_at" = d."latest";
+
+UPDATE "issues" AS i
+SET "status" = 'resolved',
+    "resolved_at" = now(),
+    "resolved_by" = 'system',
+    "resolution" = 'Duplicate of a newer issue for the same problem',
+    "snoozed_until" = NULL,
+    "updated_at" = now()
+WHERE i."status" IN ('open', 'acknowledged', 'snoozed')
+  AND EXISTS (
+    SELECT 1 FROM "issues" AS newer
+    WHERE newer."org_id" = i."org_id"
+      AND newer."fingerprint" = i."fingerprint"
+      AND newer."status" IN ('open', 'acknowledged', 'snoozed')
+      AND (newer."created_at", newer."id") > (i."created_at", i."id")
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS "issues_org_active_fingerprint_idx"
+  ON "issues" ("org_id", "fingerprint")
+  WHERE "status" IN ('open', 'acknowledged', 'snoozed');
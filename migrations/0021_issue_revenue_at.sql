@@ -0,0 +1,8 @@
+-- When an issue's revenue changed hands, so re-conversion into a new
+-- reporting currency uses the same day's rate as the first conversion.
+-- Existing issues were converted at their creation date.
+ALTER TABLE "issues" ADD COLUMN IF NOT EXISTS "revenue_at" timestamp;
+
+UPDATE "issues"
+SET "revenue_at" = "created_at"
+WHERE "original_revenue_cents" IS NOT NULL AND "revenue_at" IS NULL;
@@ -333,8 +333,8 @@ async function seed() {
       orgId: ORG_ID,
       name: p.name,
       externalIds: {
-        ...(p.stripeProductId ? { stripe: p.stripeProductId, stripePriceId: p.stripePriceId } : {}),
-        ...(p.appleProductId ? { apple: p.appleProductId } : {}),
+        ...(p.stripeProductId ? { stripe: [p.stripeProductId] } : {}),
+        ...(p.appleProductId ? { apple: [p.appleProductId] } : {}),
       },
       isActive: true,
     }))
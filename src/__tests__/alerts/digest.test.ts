@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Issue, AlertConfiguration } from '../../models/types.js';
+
+// Use vi.hoisted so mock functions survive mockReset: true
+const mockFetch = vi.hoisted(() => vi.fn());
+const mockGetEnv = vi.hoisted(() => vi.fn());
+
+vi.mock('../../config/env.js', () => ({
+  getEnv: mockGetEnv,
+}));
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Stub global fetch
+vi.stubGlobal('fetch', mockFetch);
+
+import { deliverPendingAlerts, digestPeriod, isDigestDue, rankIssues } from '../../alerts/digest.js';
+
+function makeIssue(overrides: Partial<Issue>): Issue {
+  return {
+    id: 'issue-1',
+    orgId: 'org-1',
+    userId: null,
+    issueType: 'unrevoked_refund',
+    severity: 'warning',
+    status: 'open',
+    title: 'Refund not revoked',
+    description: 'Refunded but still has access.',
+    estimatedRevenueCents: 999,
+    revenueCurrency: 'USD',
+    confidence: 0.9,
+    detectorId: 'unrevoked_refund',
+    detectionTier: 'billing_only',
+    evidence: {},
+    resolvedAt: null,
+    resolvedBy: null,
+    resolution: null,
+    createdAt: new Date('2026-03-02T10:00:00Z'),
+    updatedAt: new Date('2026-03-02T10:00:00Z'),
+    ...overrides,
+  } as Issue;
+}
+
+const slackConfig = {
+  id: 'config-1',
+  orgId: 'org-1',
+  channel: 'slack',
+  config: { webhookUrl: 'https://hooks.slack.com/services/T/B/x' },
+  deliveryMode: 'batched',
+  deliverySchedule: { windowMinutes: 30 },
+  enabled: true,
+} as unknown as AlertConfiguration;
+
+function createMockDb(pending: Array<{ logId: string; issue: Issue }>) {
+  const db: any = {
+    select: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    innerJoin: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn(),
+  };
+  // The first where() is the pending lookup; the rest are updates
+  db.where.mockResolvedValueOnce(pending).mockResolvedValue(undefined);
+  return db;
+}
+
+beforeEach(() => {
+  mockGetEnv.mockReturnValue({ DASHBOARD_URL: 'https://app.revback.dev' });
+  mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => 'ok' });
+});
+
+describe('isDigestDue', () => {
+  it('is due in the configured hour of the configured timezone', () => {
+    const schedule = { frequency: 'daily' as const, hour: 9, timezone: 'America/New_York' };
+
+    // 13:00 UTC is 09:00 in New York during daylight saving time
+    expect(isDigestDue(schedule, new Date('2026-06-10T13:00:00Z'))).toBe(true);
+    expect(isDigestDue(schedule, new Date('2026-06-10T09:00:00Z'))).toBe(false);
+  });
+
+  it('is only due on the configured day for weekly digests', () => {
+    const schedule = { frequency: 'weekly' as const, hour: 9, dayOfWeek: 1 };
+
+    expect(isDigestDue(schedule, new Date('2026-06-08T09:30:00Z'))).toBe(true); // Monday
+    expect(isDigestDue(schedule, new Date('2026-06-09T09:30:00Z'))).toBe(false); // Tuesday
+  });
+});
+
+describe('digestPeriod', () => {
+  it('describes batches by their window and digests by their frequency', () => {
+    expect(digestPeriod({ deliveryMode: 'batched', deliverySchedule: { windowMinutes: 120 } }))
+      .toEqual({ title: 'Alert Summary', window: 'the last 2 hours' });
+    expect(digestPeriod({ deliveryMode: 'batched', deliverySchedule: null }).window).toBe('the last 15 minutes');
+    expect(digestPeriod({ deliveryMode: 'digest', deliverySchedule: { frequency: 'weekly' } }).title).toBe('Weekly Digest');
+  });
+});
+
+describe('rankIssues', () => {
+  it('puts the most severe first, then the most revenue at risk', () => {
+    const ranked = rankIssues([
+      makeIssue({ id: 'info', severity: 'info', estimatedRevenueCents: 100_000 }),
+      makeIssue({ id: 'small', severity: 'critical', estimatedRevenueCents: 500 }),
+      makeIssue({ id: 'large', severity: 'critical', estimatedRevenueCents: 5_000 }),
+    ]);
+
+    expect(ranked.map(i => i.id)).toEqual(['large', 'small', 'info']);
+  });
+});
+
+describe('deliverPendingAlerts', () => {
+  it('sends every pending issue as one Slack message and marks them sent', async () => {
+    const db = createMockDb(
+      Array.from({ length: 12 }, (_, n) => ({
+        logId: `log-${n}`,
+        issue: makeIssue({ id: `issue-${n}`, title: `Refund ${n}`, estimatedRevenueCents: (n + 1) * 100 }),
+      })),
+    );
+
+    const result = await deliverPendingAlerts(db, slackConfig);
+
+    expect(result).toEqual({ sent: 12, skipped: 0, failed: 0 });
+    expect(mockFetch).toHaveBeenCalledOnce();
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    const text = JSON.stringify(body);
+    expect(text).toContain('Alert Summary: 12 issues');
+    expect(text).toContain('$78.00'); // revenue at risk across all 12
+    expect(text).toContain('...and 2 more');
+    // Top issues by revenue: Refund 11 leads, Refund 0 and 1 are left out
+    expect(text.indexOf('Refund 11')).toBeLessThan(text.indexOf('Refund 10'));
+    expect(text).not.toContain('|Refund 0>');
+
+    expect(db.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'sent', errorMessage: null }));
+  });
+
+  it('skips issues closed while they waited', async () => {
+    const db = createMockDb([
+      { logId: 'log-1', issue: makeIssue({ id: 'issue-1', status: 'resolved' }) },
+      { logId: 'log-2', issue: makeIssue({ id: 'issue-2', status: 'dismissed' }) },
+    ]);
+
+    const result = await deliverPendingAlerts(db, slackConfig);
+
+    expect(result).toEqual({ sent: 0, skipped: 2, failed: 0 });
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(db.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'skipped' }));
+  });
+
+  it('leaves the batch pending with the error when Slack rejects it', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404, text: async () => 'no_service' });
+    const db = createMockDb([{ logId: 'log-1', issue: makeIssue({}) }]);
+
+    const result = await deliverPendingAlerts(db, slackConfig);
+
+    expect(result).toEqual({ sent: 0, skipped: 0, failed: 1 });
+    expect(db.set).toHaveBeenCalledWith({ errorMessage: 'Slack returned 404: no_service' });
+  });
+});
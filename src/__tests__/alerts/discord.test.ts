@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Issue } from '../../models/types.js';
+
+// Use vi.hoisted so mock functions survive mockReset: true
+const mockFetch = vi.hoisted(() => vi.fn());
+const mockGetEnv = vi.hoisted(() => vi.fn());
+
+vi.mock('../../config/env.js', () => ({
+  getEnv: mockGetEnv,
+}));
+
+// Stub global fetch
+vi.stubGlobal('fetch', mockFetch);
+
+import { sendDiscordAlert, sendDiscordDigest } from '../../alerts/discord.js';
+
+const mockIssue = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  orgId: '550e8400-e29b-41d4-a716-446655440001',
+  userId: '550e8400-e29b-41d4-a716-446655440002',
+  issueType: 'unrevoked_refund',
+  severity: 'warning',
+  status: 'open',
+  title: 'Refund not revoked for @everyone',
+  description: 'Refunded but still has access.',
+  estimatedRevenueCents: 999,
+  revenueCurrency: 'USD',
+  confidence: 0.8,
+  detectorId: 'unrevoked_refund',
+  detectionTier: 'billing_only',
+  evidence: {},
+  resolvedAt: null,
+  resolvedBy: null,
+  resolution: null,
+  createdAt: new Date('2026-02-01T10:00:00Z'),
+  updatedAt: new Date('2026-02-01T10:00:00Z'),
+} as unknown as Issue;
+
+const WEBHOOK_URL = 'https://discord.com/api/webhooks/123456789/token-abc';
+
+function sentMessage(call = 0) {
+  return JSON.parse(mockFetch.mock.calls[call][1].body);
+}
+
+beforeEach(() => {
+  mockGetEnv.mockReturnValue({ DASHBOARD_URL: 'https://app.revback.dev' });
+  mockFetch.mockResolvedValue({ ok: true, status: 204, text: async () => '' });
+});
+
+describe('sendDiscordAlert', () => {
+  it('sends the issue as an embed without parsing mentions', async () => {
+    const result = await sendDiscordAlert(WEBHOOK_URL, mockIssue);
+
+    expect(result.success).toBe(true);
+    expect(mockFetch.mock.calls[0][0]).toBe(WEBHOOK_URL);
+
+    const message = sentMessage();
+    expect(message.allowed_mentions).toEqual({ parse: [] });
+
+    const [embed] = message.embeds;
+    expect(embed.title).toContain('Warning Billing Issue Detected');
+    expect(embed.url).toBe(`https://app.revback.dev/issues/${mockIssue.id}`);
+    expect(embed.color).toBe(0xf59e0b);
+    expect(embed.description).toContain('**Refund not revoked for @everyone**');
+    expect(embed.fields).toContainEqual({ name: 'Revenue Impact', value: '$9.99', inline: true });
+    expect(embed.timestamp).toBe('2026-02-01T10:00:00.000Z');
+  });
+
+  it('keeps long descriptions within Discord\'s limit', async () => {
+    await sendDiscordAlert(WEBHOOK_URL, { ...mockIssue, description: 'x'.repeat(5000) }, { level: 2, openMinutes: 60 });
+
+    const [embed] = sentMessage().embeds;
+    expect(embed.title).toContain('Unacknowledged Warning Billing Issue');
+    expect(embed.description).toMatch(/^\*\*Still open after 60 minutes/);
+    expect(embed.description).toHaveLength(4096);
+  });
+
+  it('returns the error Discord gives when rate limited', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 429, text: async () => '{"retry_after":1.5}' });
+
+    const result = await sendDiscordAlert(WEBHOOK_URL, mockIssue);
+
+    expect(result).toEqual({ success: false, error: 'Discord returned 429: {"retry_after":1.5}' });
+  });
+});
+
+describe('sendDiscordDigest', () => {
+  it('lists issues as links with counts and revenue at risk', async () => {
+    await sendDiscordDigest(WEBHOOK_URL, [
+      { ...mockIssue, id: 'issue-1', severity: 'critical' },
+      { ...mockIssue, id: 'issue-2', title: 'Gap [stripe]' },
+    ] as Issue[], { title: 'Alert Summary', window: 'the last 15 minutes' });
+
+    const [embed] = sentMessage().embeds;
+    expect(embed.title).toContain('RevBack Alert Summary: 2 issues');
+    expect(embed.color).toBe(0xdc2626);
+    expect(embed.fields).toContainEqual({ name: 'Critical', value: '1', inline: true });
+    expect(embed.fields).toContainEqual({ name: 'Revenue at Risk', value: '$19.98', inline: true });
+    expect(embed.description).toContain('[Gap \\[stripe\\]](https://app.revback.dev/issues/issue-2)');
+    expect(embed.footer.text).toBe('Issues detected in the last 15 minutes');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockDb, mockQueueAdd, mockCreateWorker, mockDeliverAlert, mockLoadActiveMutes, mockSuppressionReason } = vi.hoisted(() => ({
+  mockDb: {} as any,
+  mockQueueAdd: vi.fn(),
+  mockCreateWorker: vi.fn(),
+  mockDeliverAlert: vi.fn(),
+  mockLoadActiveMutes: vi.fn(),
+  mockSuppressionReason: vi.fn(),
+}));
+
+vi.mock('../../config/database.js', () => ({
+  getDb: () => mockDb,
+}));
+
+vi.mock('../../config/queue.js', () => ({
+  QUEUE_NAMES: { ALERT_ESCALATIONS: 'alert-escalations' },
+  getQueue: () => ({ add: mockQueueAdd }),
+  createWorker: mockCreateWorker,
+}));
+
+vi.mock('../../alerts/delivery.js', () => ({
+  deliverAlert: mockDeliverAlert,
+}));
+
+vi.mock('../../alerts/suppression.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../alerts/suppression.js')>()),
+  loadActiveMutes: mockLoadActiveMutes,
+  suppressionReason: mockSuppressionReason,
+}));
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { enqueueAlertEscalation, startAlertEscalationWorker } from '../../queue/alert-escalation-worker.js';
+
+const slackConfig = {
+  id: 'slack-config',
+  orgId: 'org-1',
+  channel: 'slack',
+  enabled: true,
+  escalationPolicy: { afterMinutes: 30, escalateToAlertConfigId: 'pd-config', maxEscalations: 2 },
+};
+const pagerdutyConfig = { id: 'pd-config', orgId: 'org-1', channel: 'pagerduty', enabled: true };
+const openIssue = { id: 'issue-1', orgId: 'org-1', status: 'open', severity: 'critical' };
+
+/** Queue the rows each select(...).limit(1) resolves to, in order */
+function selectResults(...results: unknown[][]) {
+  for (const result of results) mockDb.limit.mockResolvedValueOnce(result);
+}
+
+let processEscalation: (job: any) => Promise<string>;
+
+beforeEach(() => {
+  Object.assign(mockDb, {
+    select: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    limit: vi.fn(),
+    insert: vi.fn().mockReturnThis(),
+    values: vi.fn().mockResolvedValue(undefined),
+  });
+  mockQueueAdd.mockResolvedValue({ id: 'job-1' });
+  mockDeliverAlert.mockResolvedValue({ success: true });
+  mockLoadActiveMutes.mockResolvedValue([]);
+  mockSuppressionReason.mockReturnValue(null);
+
+  // The worker registers once per module; keep the processor it was given
+  if (!processEscalation) {
+    startAlertEscalationWorker();
+    processEscalation = mockCreateWorker.mock.calls[0][1];
+  }
+});
+
+describe('enqueueAlertEscalation', () => {
+  it('delays the check and keys it by config, issue and level', async () => {
+    await enqueueAlertEscalation({ alertConfigId: 'slack-config', issueId: 'issue-1', level: 1 }, 30);
+
+    expect(mockQueueAdd).toHaveBeenCalledWith(
+      'escalate-alert',
+      { alertConfigId: 'slack-config', issueId: 'issue-1', level: 1 },
+      expect.objectContaining({ jobId: 'alert-escalation-slack-config-issue-1-1', delay: 30 * 60_000 }),
+    );
+  });
+});
+
+describe('alert escalation worker', () => {
+  const job = { data: { alertConfigId: 'slack-config', issueId: 'issue-1', level: 1 } };
+
+  it('escalates an unacknowledged issue to the target channel and schedules the next level', async () => {
+    selectResults([openIssue], [slackConfig], [pagerdutyConfig]);
+
+    expect(await processEscalation(job)).toBe('sent');
+
+    expect(mockDeliverAlert).toHaveBeenCalledWith(mockDb, pagerdutyConfig, openIssue, { level: 1, openMinutes: 30 });
+    expect(mockQueueAdd).toHaveBeenCalledWith(
+      'escalate-alert',
+      { alertConfigId: 'slack-config', issueId: 'issue-1', level: 2 },
+      expect.objectContaining({ delay: 30 * 60_000 }),
+    );
+  });
+
+  it('stops once the issue is acknowledged', async () => {
+    selectResults([{ ...openIssue, status: 'acknowledged' }]);
+
+    expect(await processEscalation(job)).toBe('not_open');
+    expect(mockDeliverAlert).not.toHaveBeenCalled();
+    expect(mockQueueAdd).not.toHaveBeenCalled();
+  });
+
+  it('stops at the last level the policy allows', async () => {
+    selectResults([openIssue], [slackConfig], [pagerdutyConfig]);
+
+    await processEscalation({ data: { ...job.data, level: 2 } });
+
+    expect(mockDeliverAlert).toHaveBeenCalledWith(mockDb, pagerdutyConfig, openIssue, { level: 2, openMinutes: 60 });
+    expect(mockQueueAdd).not.toHaveBeenCalled();
+  });
+
+  it('records a failed delivery when the target has been deleted', async () => {
+    selectResults([openIssue], [slackConfig], []);
+
+    expect(await processEscalation(job)).toBe('no_target');
+
+    expect(mockDeliverAlert).not.toHaveBeenCalled();
+    expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+      alertConfigId: 'slack-config',
+      issueId: 'issue-1',
+      status: 'failed',
+      errorMessage: 'Escalation target no longer exists',
+      escalationLevel: 1,
+    }));
+  });
+
+  it('holds back a level during the target\'s quiet hours but keeps escalating', async () => {
+    selectResults([openIssue], [slackConfig], [pagerdutyConfig]);
+    mockSuppressionReason.mockReturnValue('Quiet hours');
+
+    expect(await processEscalation(job)).toBe('suppressed');
+
+    expect(mockDeliverAlert).not.toHaveBeenCalled();
+    expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+      alertConfigId: 'pd-config',
+      status: 'suppressed',
+      errorMessage: 'Quiet hours',
+      escalationLevel: 1,
+    }));
+    expect(mockQueueAdd).toHaveBeenCalledWith(
+      'escalate-alert',
+      expect.objectContaining({ level: 2 }),
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+
+const { mockDb, mockPagerDutyResolve, mockOpsgenieClose, mockDispatchWebhookEvent, mockIntegrationAuditLog } = vi.hoisted(() => ({
+  mockDb: {} as any,
+  mockPagerDutyResolve: vi.fn(),
+  mockOpsgenieClose: vi.fn(),
+  mockDispatchWebhookEvent: vi.fn(),
+  mockIntegrationAuditLog: vi.fn(),
+}));
+
+vi.mock('../../alerts/pagerduty.js', () => ({
+  sendPagerDutyResolve: mockPagerDutyResolve,
+}));
+
+vi.mock('../../alerts/opsgenie.js', () => ({
+  sendOpsgenieClose: mockOpsgenieClose,
+}));
+
+vi.mock('../../alerts/webhook-events.js', () => ({
+  dispatchWebhookEvent: mockDispatchWebhookEvent,
+}));
+
+vi.mock('../../security/audit.js', () => ({
+  integrationAuditLog: mockIntegrationAuditLog,
+}));
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import {
+  applyIncidentUpdate,
+  parseOpsgenieWebhook,
+  parsePagerDutyWebhook,
+  resolveIncidents,
+  verifyOpsgenieSecret,
+  verifyPagerDutySignature,
+} from '../../alerts/incident-sync.js';
+
+const ISSUE_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+const pagerdutyConfig = {
+  id: 'pd-config',
+  orgId: 'org-1',
+  channel: 'pagerduty',
+  config: { routingKey: 'routing-key', webhookSecret: 'pd-signing-secret' },
+} as any;
+const opsgenieConfig = {
+  id: 'og-config',
+  orgId: 'org-1',
+  channel: 'opsgenie',
+  config: { apiKey: 'genie-key', region: 'eu' },
+} as any;
+
+beforeEach(() => {
+  Object.assign(mockDb, {
+    select: vi.fn().mockReturnThis(),
+    selectDistinct: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn(),
+    update: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    returning: vi.fn(),
+  });
+  mockPagerDutyResolve.mockResolvedValue({ success: true });
+  mockOpsgenieClose.mockResolvedValue({ success: true });
+  mockDispatchWebhookEvent.mockResolvedValue(undefined);
+});
+
+describe('resolveIncidents', () => {
+  it('resolves every incident the issue was alerted to', async () => {
+    mockDb.where
+      .mockResolvedValueOnce([{ alertConfigId: 'pd-config' }, { alertConfigId: 'og-config' }])
+      .mockResolvedValueOnce([pagerdutyConfig, opsgenieConfig]);
+
+    await resolveIncidents(mockDb, 'org-1', ISSUE_ID);
+
+    expect(mockPagerDutyResolve).toHaveBeenCalledWith('routing-key', ISSUE_ID);
+    expect(mockOpsgenieClose).toHaveBeenCalledWith('genie-key', ISSUE_ID, 'eu');
+  });
+
+  it('skips the configuration the resolution came from', async () => {
+    mockDb.where.mockResolvedValueOnce([{ alertConfigId: 'pd-config' }]);
+
+    await resolveIncidents(mockDb, 'org-1', ISSUE_ID, { exceptAlertConfigId: 'pd-config' });
+
+    expect(mockDb.select).not.toHaveBeenCalled();
+    expect(mockPagerDutyResolve).not.toHaveBeenCalled();
+  });
+
+  it('never throws', async () => {
+    mockDb.where.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(resolveIncidents(mockDb, 'org-1', ISSUE_ID)).resolves.toBeUndefined();
+  });
+});
+
+describe('verifyPagerDutySignature', () => {
+  const body = '{"event":{}}';
+  const signature = `v1=${createHmac('sha256', 'pd-signing-secret').update(body).digest('hex')}`;
+
+  it('accepts any matching v1 signature', () => {
+    expect(verifyPagerDutySignature(body, signature, 'pd-signing-secret')).toBe(true);
+    expect(verifyPagerDutySignature(body, `v1=${'0'.repeat(64)}, ${signature}`, 'pd-signing-secret')).toBe(true);
+  });
+
+  it('rejects missing and wrong signatures', () => {
+    expect(verifyPagerDutySignature(body, undefined, 'pd-signing-secret')).toBe(false);
+    expect(verifyPagerDutySignature(body, signature, 'another-secret')).toBe(false);
+    expect(verifyPagerDutySignature('{"event":{"x":1}}', signature, 'pd-signing-secret')).toBe(false);
+  });
+});
+
+describe('verifyOpsgenieSecret', () => {
+  it('compares the header with the configured secret', () => {
+    expect(verifyOpsgenieSecret('og-shared-secret', 'og-shared-secret')).toBe(true);
+    expect(verifyOpsgenieSecret('og-shared-secreX', 'og-shared-secret')).toBe(false);
+    expect(verifyOpsgenieSecret(undefined, 'og-shared-secret')).toBe(false);
+  });
+});
+
+describe('parsing incident webhooks', () => {
+  it('reads PagerDuty acknowledgements and resolutions of our incidents', () => {
+    const payload = (eventType: string, incidentKey: string) => ({
+      event: {
+        id: 'evt-1',
+        event_type: eventType,
+        agent: { summary: 'Jane Doe' },
+        data: { incident_key: incidentKey },
+      },
+    });
+
+    expect(parsePagerDutyWebhook(payload('incident.resolved', ISSUE_ID))).toEqual({
+      action: 'resolve',
+      issueId: ISSUE_ID,
+      agent: 'Jane Doe',
+      eventId: 'evt-1',
+    });
+    expect(parsePagerDutyWebhook(payload('incident.acknowledged', ISSUE_ID))?.action).toBe('acknowledge');
+    expect(parsePagerDutyWebhook(payload('incident.annotated', ISSUE_ID))).toBeNull();
+    expect(parsePagerDutyWebhook(payload('incident.resolved', 'revback-test-alert'))).toBeNull();
+  });
+
+  it('reads Opsgenie acknowledgements and closes of our alerts', () => {
+    const payload = (action: string) => ({
+      action,
+      alert: { alertId: 'alert-1', alias: ISSUE_ID, username: 'jane@example.com' },
+    });
+
+    expect(parseOpsgenieWebhook(payload('Close'))).toEqual({
+      action: 'resolve',
+      issueId: ISSUE_ID,
+      agent: 'jane@example.com',
+      eventId: 'alert-1',
+    });
+    expect(parseOpsgenieWebhook(payload('Acknowledge'))?.action).toBe('acknowledge');
+    expect(parseOpsgenieWebhook(payload('AddNote'))).toBeNull();
+  });
+});
+
+describe('applyIncidentUpdate', () => {
+  const resolution = { action: 'resolve' as const, issueId: ISSUE_ID, agent: 'Jane Doe', eventId: 'evt-1' };
+
+  it('resolves the issue, audits it and resolves the other incident tools', async () => {
+    mockDb.where.mockReturnValueOnce(mockDb).mockResolvedValueOnce([]);
+    mockDb.returning.mockResolvedValue([{ id: ISSUE_ID }]);
+
+    expect(await applyIncidentUpdate(mockDb, pagerdutyConfig, resolution)).toBe('resolved');
+
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'resolved',
+      resolvedBy: 'pagerduty',
+      resolution: 'Resolved in PagerDuty by Jane Doe',
+    }));
+    expect(mockIntegrationAuditLog).toHaveBeenCalledWith(
+      mockDb, 'org-1', 'pagerduty', 'issue.resolved', 'issue', ISSUE_ID,
+      { alertConfigId: 'pd-config', agent: 'Jane Doe', eventId: 'evt-1' },
+    );
+    expect(mockDispatchWebhookEvent).toHaveBeenCalledWith(mockDb, 'org-1', ISSUE_ID, 'issue.resolved');
+    expect(mockDb.selectDistinct).toHaveBeenCalled();
+  });
+
+  it('acknowledges without touching other incident tools', async () => {
+    mockDb.where.mockReturnValueOnce(mockDb);
+    mockDb.returning.mockResolvedValue([{ id: ISSUE_ID }]);
+
+    const result = await applyIncidentUpdate(mockDb, opsgenieConfig, { ...resolution, action: 'acknowledge' });
+
+    expect(result).toBe('acknowledged');
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'acknowledged' }));
+    expect(mockIntegrationAuditLog).toHaveBeenCalledWith(
+      mockDb, 'org-1', 'opsgenie', 'issue.acknowledged', 'issue', ISSUE_ID, expect.any(Object),
+    );
+    expect(mockDb.selectDistinct).not.toHaveBeenCalled();
+  });
+
+  it('ignores issues already past that state, so our own resolutions don\'t echo back', async () => {
+    mockDb.where.mockReturnValueOnce(mockDb);
+    mockDb.returning.mockResolvedValue([]);
+
+    expect(await applyIncidentUpdate(mockDb, pagerdutyConfig, resolution)).toBe('ignored');
+
+    expect(mockIntegrationAuditLog).not.toHaveBeenCalled();
+    expect(mockDispatchWebhookEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Issue } from '../../models/types.js';
+
+// Use vi.hoisted so mock functions survive mockReset: true
+const mockFetch = vi.hoisted(() => vi.fn());
+const mockGetEnv = vi.hoisted(() => vi.fn());
+
+vi.mock('../../config/env.js', () => ({
+  getEnv: mockGetEnv,
+}));
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Stub global fetch
+vi.stubGlobal('fetch', mockFetch);
+
+import { sendOpsgenieAlert, sendOpsgenieClose, sendOpsgenieTestAlert } from '../../alerts/opsgenie.js';
+
+const mockIssue = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  orgId: '550e8400-e29b-41d4-a716-446655440001',
+  userId: null,
+  issueType: 'duplicate_billing',
+  severity: 'critical',
+  status: 'open',
+  title: 'Duplicate billing on Stripe and Apple',
+  description: 'User is paying for the same subscription on both platforms.',
+  estimatedRevenueCents: 1499,
+  revenueCurrency: 'USD',
+  confidence: 0.95,
+  detectorId: 'duplicate_billing',
+  detectionTier: 'billing_only',
+  evidence: {},
+  resolvedAt: null,
+  resolvedBy: null,
+  resolution: null,
+  createdAt: new Date('2026-02-01T10:00:00Z'),
+  updatedAt: new Date('2026-02-01T10:00:00Z'),
+} as unknown as Issue;
+
+const API_KEY = 'opsgenie-api-key';
+
+beforeEach(() => {
+  mockGetEnv.mockReturnValue({ DASHBOARD_URL: 'https://app.revback.dev' });
+  mockFetch.mockResolvedValue({
+    ok: true,
+    status: 202,
+    text: async () => '{"result":"Request will be processed"}',
+  });
+});
+
+describe('sendOpsgenieAlert', () => {
+  it('creates an alert aliased to the issue with a mapped priority', async () => {
+    const result = await sendOpsgenieAlert(API_KEY, mockIssue);
+
+    expect(result).toEqual({ success: true });
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://api.opsgenie.com/v2/alerts');
+    expect(options.headers.Authorization).toBe(`GenieKey ${API_KEY}`);
+
+    const body = JSON.parse(options.body);
+    expect(body.alias).toBe(mockIssue.id);
+    expect(body.priority).toBe('P1');
+    expect(body.message).toBe('[RevBack] CRITICAL: Duplicate billing on Stripe and Apple');
+    expect(body.details.revenue_impact).toBe('$14.99');
+    expect(body.details.dashboard_url).toBe(`https://app.revback.dev/issues/${mockIssue.id}`);
+  });
+
+  it('keeps the alias on escalations and uses the EU region when configured', async () => {
+    await sendOpsgenieAlert(API_KEY, mockIssue, { level: 1, openMinutes: 30 }, 'eu');
+
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://api.eu.opsgenie.com/v2/alerts');
+
+    const body = JSON.parse(options.body);
+    expect(body.alias).toBe(mockIssue.id);
+    expect(body.message).toContain('(unacknowledged 30m)');
+    expect(body.details.escalation_level).toBe('1');
+  });
+
+  it('returns the error when Opsgenie rejects the alert', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 422, text: async () => 'Key format is not valid!' });
+
+    const result = await sendOpsgenieAlert(API_KEY, mockIssue);
+
+    expect(result).toEqual({ success: false, error: 'Opsgenie returned 422: Key format is not valid!' });
+  });
+});
+
+describe('sendOpsgenieClose', () => {
+  it('closes the alert by its alias', async () => {
+    const result = await sendOpsgenieClose(API_KEY, mockIssue.id);
+
+    expect(result).toEqual({ success: true });
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toBe(`https://api.opsgenie.com/v2/alerts/${mockIssue.id}/close?identifierType=alias`);
+    expect(JSON.parse(options.body)).toEqual({ source: 'revback', note: 'Closed in RevBack' });
+  });
+});
+
+describe('sendOpsgenieTestAlert', () => {
+  it('sends a low-priority alert with a fixed alias', async () => {
+    await sendOpsgenieTestAlert(API_KEY);
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.alias).toBe('revback-test-alert');
+    expect(body.priority).toBe('P5');
+  });
+});
@@ -134,6 +134,17 @@ describe('sendPagerDutyAlert', () => {
     expect(body.payload.summary).toContain(mockIssue.title);
   });
 
+  it('marks escalations in the summary and keeps the dedup_key', async () => {
+    const { sendPagerDutyAlert } = await import('../../alerts/pagerduty.js');
+
+    await sendPagerDutyAlert(ROUTING_KEY, mockIssue, { level: 1, openMinutes: 30 });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.dedup_key).toBe(mockIssue.id);
+    expect(body.payload.summary).toBe(`[RevBack] CRITICAL (unacknowledged 30m): ${mockIssue.title}`);
+    expect(body.payload.custom_details.escalation_level).toBe(1);
+  });
+
   it('returns error on non-200 response', async () => {
     const { sendPagerDutyAlert } = await import('../../alerts/pagerduty.js');
 
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AlertMute } from '../../models/types.js';
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { isQuietHours, findMute, suppressionReason } from '../../alerts/suppression.js';
+
+function makeMute(overrides: Partial<AlertMute>): AlertMute {
+  return {
+    id: 'mute-1',
+    orgId: 'org-1',
+    issueType: null,
+    userId: null,
+    reason: null,
+    mutedUntil: new Date('2026-06-11T00:00:00Z'),
+    createdBy: 'key-1',
+    createdAt: new Date('2026-06-10T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const issue = { issueType: 'unrevoked_refund', userId: 'user-1', severity: 'warning', status: 'open' };
+
+describe('isQuietHours', () => {
+  it('covers a window that runs past midnight, in its timezone', () => {
+    const quietHours = { start: '22:00', end: '07:00', timezone: 'America/New_York' };
+
+    // 03:00 UTC is 23:00 in New York during daylight saving time
+    expect(isQuietHours(quietHours, new Date('2026-06-10T03:00:00Z'))).toBe(true);
+    expect(isQuietHours(quietHours, new Date('2026-06-10T10:59:00Z'))).toBe(true);
+    expect(isQuietHours(quietHours, new Date('2026-06-10T11:00:00Z'))).toBe(false);
+    expect(isQuietHours(quietHours, new Date('2026-06-10T18:00:00Z'))).toBe(false);
+  });
+
+  it('covers a window within one day', () => {
+    const quietHours = { start: '12:00', end: '13:30', timezone: 'UTC' };
+
+    expect(isQuietHours(quietHours, new Date('2026-06-10T13:29:00Z'))).toBe(true);
+    expect(isQuietHours(quietHours, new Date('2026-06-10T13:30:00Z'))).toBe(false);
+  });
+});
+
+describe('findMute', () => {
+  it('matches on every field the mute sets', () => {
+    const byType = makeMute({ id: 'by-type', issueType: 'unrevoked_refund' });
+    const byBoth = makeMute({ id: 'by-both', issueType: 'duplicate_billing', userId: 'user-1' });
+
+    expect(findMute([byBoth, byType], issue)?.id).toBe('by-type');
+    expect(findMute([byBoth], issue)).toBeUndefined();
+    expect(findMute([makeMute({ userId: 'user-1' })], issue)).toBeDefined();
+  });
+});
+
+describe('suppressionReason', () => {
+  const night = new Date('2026-06-10T23:30:00Z');
+  const config = { deliveryMode: 'immediate', quietHours: { start: '22:00', end: '07:00', timezone: 'UTC' } };
+
+  it('holds back non-critical alerts during quiet hours', () => {
+    expect(suppressionReason(config, issue, [], night)).toBe('Quiet hours');
+    expect(suppressionReason(config, issue, [], new Date('2026-06-10T12:00:00Z'))).toBeNull();
+  });
+
+  it('lets critical alerts through quiet hours unless the config says otherwise', () => {
+    const critical = { ...issue, severity: 'critical' };
+
+    expect(suppressionReason(config, critical, [], night)).toBeNull();
+    expect(suppressionReason(
+      { ...config, quietHours: { ...config.quietHours, allowCritical: false } },
+      critical,
+      [],
+      night,
+    )).toBe('Quiet hours');
+  });
+
+  it('leaves digests to go out at their own hour', () => {
+    expect(suppressionReason({ ...config, deliveryMode: 'digest' }, issue, [], night)).toBeNull();
+  });
+
+  it('holds back alerts for muted and snoozed issues at any hour', () => {
+    const mute = makeMute({ userId: 'user-1' });
+
+    expect(suppressionReason({ deliveryMode: 'immediate', quietHours: null }, issue, [mute])).toBe('Muted until 2026-06-11T00:00:00.000Z');
+    expect(suppressionReason({ deliveryMode: 'immediate', quietHours: null }, { ...issue, status: 'snoozed' }, [])).toBe('Issue is snoozed');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Issue } from '../../models/types.js';
+
+// Use vi.hoisted so mock functions survive mockReset: true
+const mockFetch = vi.hoisted(() => vi.fn());
+const mockGetEnv = vi.hoisted(() => vi.fn());
+
+vi.mock('../../config/env.js', () => ({
+  getEnv: mockGetEnv,
+}));
+
+// Stub global fetch
+vi.stubGlobal('fetch', mockFetch);
+
+import { sendTeamsAlert, sendTeamsDigest, sendTeamsTestAlert } from '../../alerts/teams.js';
+
+const mockIssue = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  orgId: '550e8400-e29b-41d4-a716-446655440001',
+  userId: '550e8400-e29b-41d4-a716-446655440002',
+  issueType: 'duplicate_billing',
+  severity: 'critical',
+  status: 'open',
+  title: 'Duplicate billing on Stripe and Apple',
+  description: 'User is paying for the same subscription on both platforms.',
+  estimatedRevenueCents: 1499,
+  revenueCurrency: 'USD',
+  confidence: 0.95,
+  detectorId: 'duplicate_billing',
+  detectionTier: 'billing_only',
+  evidence: {},
+  resolvedAt: null,
+  resolvedBy: null,
+  resolution: null,
+  createdAt: new Date('2026-02-01T10:00:00Z'),
+  updatedAt: new Date('2026-02-01T10:00:00Z'),
+} as unknown as Issue;
+
+const WEBHOOK_URL = 'https://contoso.webhook.office.com/webhookb2/abc/IncomingWebhook/def/ghi';
+
+/** The Adaptive Card in the message sent by the nth fetch call */
+function sentCard(call = 0) {
+  const body = JSON.parse(mockFetch.mock.calls[call][1].body);
+  expect(body.type).toBe('message');
+  expect(body.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+  return body.attachments[0].content;
+}
+
+beforeEach(() => {
+  mockGetEnv.mockReturnValue({ DASHBOARD_URL: 'https://app.revback.dev' });
+  mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => '1' });
+});
+
+describe('sendTeamsAlert', () => {
+  it('sends the issue as an Adaptive Card linking to the dashboard', async () => {
+    const result = await sendTeamsAlert(WEBHOOK_URL, mockIssue);
+
+    expect(result.success).toBe(true);
+    expect(mockFetch.mock.calls[0][0]).toBe(WEBHOOK_URL);
+
+    const card = sentCard();
+    expect(card.type).toBe('AdaptiveCard');
+    expect(card.body[0]).toMatchObject({ text: expect.stringContaining('Critical Billing Issue Detected'), color: 'Attention' });
+    expect(card.body[1].facts).toContainEqual({ title: 'Revenue Impact', value: '$14.99' });
+    expect(card.body[1].facts).toContainEqual({ title: 'Confidence', value: '95%' });
+    expect(card.actions[0]).toEqual({
+      type: 'Action.OpenUrl',
+      title: 'View in Dashboard',
+      url: `https://app.revback.dev/issues/${mockIssue.id}`,
+    });
+  });
+
+  it('says how long an escalated issue has gone unacknowledged', async () => {
+    await sendTeamsAlert(WEBHOOK_URL, mockIssue, { level: 1, openMinutes: 45 });
+
+    const card = sentCard();
+    expect(card.body[0].text).toContain('Unacknowledged Critical Billing Issue');
+    expect(card.body[1].text).toContain('Still open after 45 minutes');
+  });
+
+  it('returns the error Teams gives', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 400, text: async () => 'Bad payload' });
+
+    const result = await sendTeamsAlert(WEBHOOK_URL, mockIssue);
+
+    expect(result).toEqual({ success: false, error: 'Teams returned 400: Bad payload' });
+  });
+});
+
+describe('sendTeamsDigest', () => {
+  it('lists the top issues with counts and revenue at risk', async () => {
+    const issuesList = Array.from({ length: 12 }, (_, n) => ({
+      ...mockIssue,
+      id: `issue-${n}`,
+      title: `Refund [${n}]`,
+      severity: n === 0 ? 'critical' : 'warning',
+      estimatedRevenueCents: 100,
+    })) as Issue[];
+
+    await sendTeamsDigest(WEBHOOK_URL, issuesList, { title: 'Daily Digest', window: 'the last 24 hours' });
+
+    const text = JSON.stringify(sentCard());
+    expect(text).toContain('RevBack Daily Digest: 12 issues');
+    expect(text).toContain('{"title":"Critical","value":"1"}');
+    expect(text).toContain('{"title":"Revenue at Risk","value":"$12.00"}');
+    expect(text).toContain('[Refund \\\\[0\\\\]](https://app.revback.dev/issues/issue-0)');
+    expect(text).toContain('...and 2 more');
+    expect(text).not.toContain('issues/issue-10');
+  });
+});
+
+describe('sendTeamsTestAlert', () => {
+  it('handles network errors', async () => {
+    mockFetch.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+    const result = await sendTeamsTestAlert(WEBHOOK_URL);
+
+    expect(result).toEqual({ success: false, error: 'getaddrinfo ENOTFOUND' });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+
+const mockAuditLog = vi.hoisted(() => vi.fn());
+
+vi.mock('../../security/audit.js', () => ({
+  auditLog: mockAuditLog,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { createAlertMuteRoutes } from '../../api/alert-mutes.js';
+
+describe('Alert Mutes API', () => {
+  const orgId = 'org_alert_mutes_test';
+  const until = new Date(Date.now() + 3 * 3600_000).toISOString();
+  let app: Hono;
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      orderBy: vi.fn(),
+      limit: vi.fn(),
+      insert: vi.fn().mockReturnThis(),
+      values: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      returning: vi.fn(),
+    };
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('auth' as any, { orgId, orgSlug: 'test-org', apiKeyId: 'key_test' });
+      await next();
+    });
+    app.route('/alert-mutes', createAlertMuteRoutes(mockDb));
+  });
+
+  function post(body: unknown) {
+    return app.request('/alert-mutes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe('POST /alert-mutes', () => {
+    it('should mute a user until the given time and audit it', async () => {
+      mockDb.limit.mockResolvedValue([{ id: 'user-1' }]);
+      mockDb.returning.mockImplementation(async () => [{
+        id: 'mute-1',
+        issueType: null,
+        userId: 'user-1',
+        mutedUntil: new Date(until),
+      }]);
+
+      const res = await post({ userId: '6f1c1b7e-2d0a-4b8f-9c5e-3a7d2e1f0b4c', until });
+
+      expect(res.status).toBe(201);
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        orgId,
+        issueType: null,
+        mutedUntil: new Date(until),
+        createdBy: 'key_test',
+      }));
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        mockDb,
+        expect.anything(),
+        'alert_mute.created',
+        'alert_mute',
+        'mute-1',
+        expect.objectContaining({ userId: 'user-1' }),
+      );
+    });
+
+    it('should require an issue type or a user', async () => {
+      const res = await post({ until, reason: 'Too noisy' });
+
+      expect(res.status).toBe(400);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a time in the past', async () => {
+      const res = await post({ issueType: 'data_freshness', until: '2020-01-01T00:00:00Z' });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).details.until).toBeDefined();
+    });
+
+    it('should return 404 for a user outside the org', async () => {
+      mockDb.limit.mockResolvedValue([]);
+
+      const res = await post({ userId: '6f1c1b7e-2d0a-4b8f-9c5e-3a7d2e1f0b4c', until });
+
+      expect(res.status).toBe(404);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /alert-mutes/:muteId', () => {
+    it('should return 404 for an unknown mute', async () => {
+      mockDb.returning.mockResolvedValue([]);
+
+      const res = await app.request('/alert-mutes/mute-404', { method: 'DELETE' });
+
+      expect(res.status).toBe(404);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for the Braintree webhook route registration.
+ *
+ * Braintree posts form-encoded bodies (bt_signature + bt_payload) rather than
+ * JSON; these tests verify the route exists and passes the body through.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createWebhookRoutes } from '../../api/webhooks.js';
+
+// Hoisted mocks
+const { mockEnqueueWebhookJob, mockVerifySignature, mockGetNormalizer } = vi.hoisted(() => ({
+  mockEnqueueWebhookJob: vi.fn().mockResolvedValue(undefined),
+  mockVerifySignature: vi.fn(),
+  mockGetNormalizer: vi.fn(),
+}));
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../../ingestion/normalizer/base.js', () => ({
+  getNormalizer: mockGetNormalizer,
+}));
+
+vi.mock('../../queue/webhook-worker.js', () => ({
+  enqueueWebhookJob: mockEnqueueWebhookJob,
+}));
+
+vi.mock('../../ingestion/proxy/apple-proxy.js', () => ({
+  AppleWebhookProxy: vi.fn().mockImplementation(() => ({
+    forwardIfConfigured: vi.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+vi.mock('../../security/sanitize.js', () => ({
+  sanitizeHeaders: vi.fn().mockImplementation((h: any) => h),
+}));
+
+describe('Braintree Webhook Route', () => {
+  let app: Hono;
+  const orgSlug = 'acme-corp';
+  const orgId = 'org_acme_001';
+
+  function createMockDb(connectionOverrides?: Record<string, any>) {
+    let limitCallCount = 0;
+    const chain: any = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      values: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockImplementation(() => {
+        limitCallCount++;
+        if (limitCallCount === 1) return Promise.resolve([{ id: orgId }]);
+        if (limitCallCount === 2) return Promise.resolve([{
+          id: 'conn_braintree_1',
+          orgId,
+          source: 'braintree',
+          credentials: 'encrypted',
+          webhookSecret: 'bt_private_key',
+          isActive: true,
+          ...connectionOverrides,
+        }]);
+        return Promise.resolve([]);
+      }),
+      returning: vi.fn().mockImplementation(() =>
+        Promise.resolve([{ id: 'wh_log_001' }]),
+      ),
+      onConflictDoUpdate: vi.fn().mockReturnThis(),
+      catch: vi.fn().mockReturnThis(),
+      then: vi.fn().mockImplementation((resolve: any) => resolve([])),
+    };
+    return chain;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Restore hoisted mock implementations after mockReset
+    mockEnqueueWebhookJob.mockResolvedValue(undefined);
+    mockVerifySignature.mockResolvedValue(true);
+    mockGetNormalizer.mockReturnValue({ source: 'braintree', verifySignature: mockVerifySignature });
+  });
+
+  it('should route POST /webhooks/:orgSlug/braintree and verify the signature', async () => {
+    const mockDb = createMockDb();
+    app = new Hono();
+    app.route('/webhooks', createWebhookRoutes(mockDb));
+
+    const formBody = 'bt_signature=pub%7Cabc&bt_payload=PG5vdGlmaWNhdGlvbi8%2B';
+    const res = await app.request(`/webhooks/${orgSlug}/braintree`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: formBody,
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.ok).toBe(true);
+
+    expect(mockVerifySignature).toHaveBeenCalledWith(
+      expect.objectContaining({ body: formBody }),
+      'bt_private_key',
+    );
+  });
+
+  it('should return 401 when the Braintree signature does not verify', async () => {
+    mockVerifySignature.mockResolvedValue(false);
+    const mockDb = createMockDb();
+    app = new Hono();
+    app.route('/webhooks', createWebhookRoutes(mockDb));
+
+    const res = await app.request(`/webhooks/${orgSlug}/braintree`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'bt_signature=pub%7Cbad&bt_payload=PG5vdGlmaWNhdGlvbi8%2B',
+    });
+
+    expect(res.status).toBe(401);
+    expect(mockEnqueueWebhookJob).not.toHaveBeenCalled();
+  });
+
+  it('should enqueue webhook job with source=braintree', async () => {
+    const mockDb = createMockDb();
+    app = new Hono();
+    app.route('/webhooks', createWebhookRoutes(mockDb));
+
+    await app.request(`/webhooks/${orgSlug}/braintree`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'bt_signature=pub%7Cabc&bt_payload=PG5vdGlmaWNhdGlvbi8%2B',
+    });
+
+    expect(mockEnqueueWebhookJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orgId,
+        source: 'braintree',
+        webhookLogId: 'wh_log_001',
+      }),
+    );
+  });
+});
@@ -132,6 +132,18 @@ describe('Dashboard API', () => {
       const res = await app.request('/dashboard/events?type=renewal');
       expect(res.status).toBe(200);
     });
+
+    it('should filter by environment', async () => {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([]));
+
+      const res = await app.request('/dashboard/events?environment=sandbox');
+      expect(res.status).toBe(200);
+    });
+
+    it('should reject an unknown environment', async () => {
+      const res = await app.request('/dashboard/events?environment=qa');
+      expect(res.status).toBe(400);
+    });
   });
 
   describe('GET /dashboard/entitlement-health', () => {
@@ -222,6 +234,40 @@ describe('Dashboard API', () => {
       expect(body.days).toBeDefined();
     });
   });
+
+  describe('GET /dashboard/unmapped-products', () => {
+    it('should list auto-created products with their event activity', async () => {
+      const lastEventAt = new Date('2025-02-01T00:00:00Z');
+      let queryNum = 0;
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => {
+        queryNum++;
+        if (queryNum === 1) {
+          return resolve([
+            { id: 'prod-1', name: 'com.app.premium', externalIds: { apple: ['com.app.premium'] }, autoCreated: true },
+            { id: 'prod-2', name: 'prod_abc', externalIds: { stripe: ['prod_abc'] }, autoCreated: true },
+          ]);
+        }
+        return resolve([{ productId: 'prod-1', eventCount: 12, userCount: 4, lastEventAt }]);
+      });
+
+      const res = await app.request('/dashboard/unmapped-products');
+      expect(res.status).toBe(200);
+      const body = await res.json();
+
+      expect(body.products).toHaveLength(2);
+      expect(body.products[0]).toMatchObject({ id: 'prod-1', eventCount: 12, userCount: 4 });
+      expect(body.products[1]).toMatchObject({ id: 'prod-2', eventCount: 0, userCount: 0, lastEventAt: null });
+    });
+
+    it('should skip the activity query when every product is mapped', async () => {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([]));
+
+      const res = await app.request('/dashboard/unmapped-products');
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ products: [] });
+      expect(mockDb.groupBy).not.toHaveBeenCalled();
+    });
+  });
 });
 
 function createDashboardMockDb() {
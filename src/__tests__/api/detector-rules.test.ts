@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createDetectorRuleRoutes } from '../../api/detector-rules.js';
+
+const { mockDryRunRule, mockTriggerScanNow, mockAuditLog } = vi.hoisted(() => ({
+  mockDryRunRule: vi.fn(),
+  mockTriggerScanNow: vi.fn(),
+  mockAuditLog: vi.fn(),
+}));
+
+vi.mock('../../detection/rules/rule-detector.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../detection/rules/rule-detector.js')>()),
+  dryRunRule: mockDryRunRule,
+}));
+
+vi.mock('../../queue/scan-scheduler.js', () => ({
+  triggerScanNow: mockTriggerScanNow,
+}));
+
+vi.mock('../../security/audit.js', () => ({
+  auditLog: mockAuditLog,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('Detector Rules API', () => {
+  const orgId = 'org_rules_api_test';
+  let app: Hono;
+  let mockDb: any;
+
+  const enterprisePastDue = {
+    name: 'Enterprise dunning',
+    severity: 'critical',
+    conditions: [
+      { subject: 'entitlement', field: 'planTier', operator: 'eq', value: 'enterprise' },
+      { subject: 'entitlement', field: 'state', operator: 'eq', value: 'past_due' },
+      { subject: 'entitlement', field: 'daysInState', operator: 'gt', value: 3 },
+    ],
+    titleTemplate: '{{entitlement.planTier}} subscription past due for {{entitlement.daysInState}} days',
+  };
+
+  beforeEach(() => {
+    mockDb = createRulesMockDb();
+    mockTriggerScanNow.mockResolvedValue('job-1');
+    mockDryRunRule.mockResolvedValue({
+      scan: { matches: 0, issues: [] },
+      events: { days: 30, checked: 0, truncated: false, matches: 0, issues: [] },
+    });
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('auth' as any, { orgId, orgSlug: 'test-org', apiKeyId: 'key_test' });
+      await next();
+    });
+    app.route('/detector-rules', createDetectorRuleRoutes(mockDb));
+  });
+
+  function send(method: string, path: string, body: unknown) {
+    return app.request(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe('POST /detector-rules', () => {
+    it('should store the rule, audit it and scan with it straight away', async () => {
+      mockDb.returning = vi.fn().mockResolvedValue([{ id: 'rule-1', orgId, enabled: true, ...enterprisePastDue }]);
+
+      const res = await send('POST', '/detector-rules', enterprisePastDue);
+
+      expect(res.status).toBe(201);
+      expect((await res.json()).rule.detectorId).toBe('rule:rule-1');
+      expect(mockDb.values).toHaveBeenCalledWith({ orgId, enabled: true, ...enterprisePastDue });
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        mockDb, expect.anything(), 'detector_rule.created', 'detector_rule', 'rule-1', { name: 'Enterprise dunning' },
+      );
+      expect(mockTriggerScanNow).toHaveBeenCalledWith('rule:rule-1', orgId);
+    });
+
+    it('should reject unknown fields and placeholders', async () => {
+      const res = await send('POST', '/detector-rules', {
+        ...enterprisePastDue,
+        conditions: [{ subject: 'entitlement', field: 'email', operator: 'eq', value: 'x' }],
+        titleTemplate: '{{user.email}} is past due',
+      });
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.details.conditions).toEqual(['conditions[0]: unknown entitlement field "email"']);
+      expect(body.details.titleTemplate).toEqual(['unknown placeholder {{user.email}}']);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should require at least one condition', async () => {
+      const res = await send('POST', '/detector-rules', { ...enterprisePastDue, conditions: [] });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('PUT /detector-rules/:ruleId', () => {
+    it('should return 404 for another org\'s rule', async () => {
+      const res = await send('PUT', '/detector-rules/missing', { enabled: false });
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should not scan with a rule that was disabled', async () => {
+      const rule = { id: 'rule-1', orgId, ...enterprisePastDue, enabled: true };
+      mockDb.limit = vi.fn().mockResolvedValue([rule]);
+      mockDb.returning = vi.fn().mockResolvedValue([{ ...rule, enabled: false }]);
+
+      const res = await send('PUT', '/detector-rules/rule-1', { enabled: false });
+
+      expect(res.status).toBe(200);
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ enabled: false }));
+      expect(mockTriggerScanNow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dry runs', () => {
+    it('should evaluate an unsaved rule over the requested days', async () => {
+      const res = await send('POST', '/detector-rules/dry-run', { ...enterprisePastDue, days: 14 });
+
+      expect(res.status).toBe(200);
+      expect(mockDryRunRule).toHaveBeenCalledWith(mockDb, orgId, {
+        id: null,
+        name: 'Enterprise dunning',
+        severity: 'critical',
+        conditions: enterprisePastDue.conditions,
+        titleTemplate: enterprisePastDue.titleTemplate,
+        descriptionTemplate: null,
+      }, 14);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should evaluate a saved rule over 30 days by default', async () => {
+      mockDb.limit = vi.fn().mockResolvedValue([{ id: 'rule-1', orgId, ...enterprisePastDue, descriptionTemplate: null }]);
+
+      const res = await send('POST', '/detector-rules/rule-1/dry-run', {});
+
+      expect(res.status).toBe(200);
+      expect(mockDryRunRule).toHaveBeenCalledWith(mockDb, orgId, expect.objectContaining({ id: 'rule-1' }), 30);
+    });
+
+    it('should cap the window at 90 days', async () => {
+      const res = await send('POST', '/detector-rules/dry-run', { ...enterprisePastDue, days: 365 });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
+
+function createRulesMockDb() {
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    delete: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve([])),
+    returning: vi.fn().mockImplementation(() => Promise.resolve([])),
+    then: vi.fn().mockImplementation((resolve: any) => resolve([])),
+  };
+
+  return chainable;
+}
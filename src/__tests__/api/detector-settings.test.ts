@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+
+const { mockGetDetectorSettings, mockSetDetectorSettings, mockAuditLog } = vi.hoisted(() => ({
+  mockGetDetectorSettings: vi.fn(),
+  mockSetDetectorSettings: vi.fn(),
+  mockAuditLog: vi.fn(),
+}));
+
+vi.mock('../../config/org-settings.js', () => ({
+  getDetectorSettings: mockGetDetectorSettings,
+  setDetectorSettings: mockSetDetectorSettings,
+}));
+
+vi.mock('../../security/audit.js', () => ({
+  auditLog: mockAuditLog,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { createDetectorSettingsRoutes } from '../../api/detector-settings.js';
+
+describe('Detector Settings API', () => {
+  const orgId = 'org_detector_settings_test';
+  const mockDb: any = {};
+  let app: Hono;
+
+  beforeEach(() => {
+    mockGetDetectorSettings.mockResolvedValue({});
+    mockSetDetectorSettings.mockResolvedValue(undefined);
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('auth' as any, { orgId, orgSlug: 'test-org', apiKeyId: 'key_test' });
+      await next();
+    });
+    app.route('/detector-settings', createDetectorSettingsRoutes(mockDb));
+  });
+
+  function put(detectorId: string, body: unknown) {
+    return app.request(`/detector-settings/${detectorId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe('GET /detector-settings', () => {
+    it('should list every built-in detector with the threshold values in effect', async () => {
+      mockGetDetectorSettings.mockResolvedValue({
+        data_freshness: { enabled: false, thresholds: { staleDays: 60 } },
+      });
+
+      const res = await app.request('/detector-settings');
+
+      expect(res.status).toBe(200);
+      const { detectors } = await res.json();
+      expect(detectors).toHaveLength(9);
+
+      const freshness = detectors.find((d: any) => d.id === 'data_freshness');
+      expect(freshness.enabled).toBe(false);
+      expect(freshness.thresholds.staleDays).toMatchObject({ default: 35, value: 60 });
+      expect(freshness.thresholds.warningPercent).toMatchObject({ default: 10, value: 10 });
+
+      const gap = detectors.find((d: any) => d.id === 'webhook_delivery_gap');
+      expect(gap.enabled).toBe(true);
+      expect(gap.thresholds.warningHours.value).toBeNull();
+    });
+  });
+
+  describe('PUT /detector-settings/:detectorId', () => {
+    it('should merge the update into the org\'s settings and audit it', async () => {
+      mockGetDetectorSettings.mockResolvedValue({
+        renewal_anomaly: { severity: 'info', thresholds: { warningDropPercent: 40 } },
+        duplicate_billing: { enabled: false },
+      });
+
+      const res = await put('renewal_anomaly', {
+        severity: null,
+        thresholds: { warningDropPercent: null, criticalDropPercent: 80 },
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockSetDetectorSettings).toHaveBeenCalledWith(mockDb, orgId, 'renewal_anomaly', {
+        thresholds: { criticalDropPercent: 80 },
+      });
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        mockDb, expect.anything(), 'detector_settings.updated', 'detector', 'renewal_anomaly', expect.anything(),
+      );
+      expect((await res.json()).detector.severity).toBeNull();
+    });
+
+    it('should drop a detector back to its defaults when nothing is overridden', async () => {
+      mockGetDetectorSettings.mockResolvedValue({ duplicate_billing: { enabled: false } });
+
+      await put('duplicate_billing', { enabled: true });
+
+      expect(mockSetDetectorSettings).toHaveBeenCalledWith(mockDb, orgId, 'duplicate_billing', undefined);
+    });
+
+    it('should reject thresholds the detector doesn\'t have or out of bounds', async () => {
+      const res = await put('data_freshness', { thresholds: { staleHours: 12, staleDays: 1 } });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).details.thresholds).toEqual([
+        'data_freshness has no threshold "staleHours"',
+        'staleDays must be between 7 and 400',
+      ]);
+      expect(mockSetDetectorSettings).not.toHaveBeenCalled();
+    });
+
+    it('should reject a warning threshold at or above the critical one, counting saved and default values', async () => {
+      mockGetDetectorSettings.mockResolvedValue({ renewal_anomaly: { thresholds: { warningDropPercent: 50 } } });
+
+      const res = await put('renewal_anomaly', { thresholds: { criticalDropPercent: 40 } });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).details.thresholds).toEqual(['warningDropPercent must be less than criticalDropPercent']);
+
+      const atDefault = await put('data_freshness', { thresholds: { warningPercent: 25 } });
+      expect(atDefault.status).toBe(400);
+      expect(mockSetDetectorSettings).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown detectors and custom rules', async () => {
+      expect((await put('silent_renewal_failure', { enabled: false })).status).toBe(404);
+      expect((await put('rule:rule-1', { enabled: false })).status).toBe(404);
+    });
+  });
+
+  describe('DELETE /detector-settings/:detectorId', () => {
+    it('should reset the detector to its defaults', async () => {
+      mockGetDetectorSettings.mockResolvedValue({
+        webhook_delivery_gap: { thresholds: { warningHours: 2 } },
+        state_drift: { severity: 'critical' },
+      });
+
+      const res = await app.request('/detector-settings/webhook_delivery_gap', { method: 'DELETE' });
+
+      expect(res.status).toBe(200);
+      expect(mockSetDetectorSettings).toHaveBeenCalledWith(mockDb, orgId, 'webhook_delivery_gap');
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        mockDb, expect.anything(), 'detector_settings.reset', 'detector', 'webhook_delivery_gap',
+        { previous: { thresholds: { warningHours: 2 } } },
+      );
+    });
+  });
+});
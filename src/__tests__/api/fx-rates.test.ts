@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createFxRateRoutes } from '../../api/fx-rates.js';
+
+const { mockLoadRates, mockConvertIssues, mockAuditLog } = vi.hoisted(() => ({
+  mockLoadRates: vi.fn(),
+  mockConvertIssues: vi.fn(),
+  mockAuditLog: vi.fn(),
+}));
+
+vi.mock('../../currency/fx.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../currency/fx.js')>()),
+  CurrencyConverter: class {
+    loadRates = mockLoadRates;
+    convertIssues = mockConvertIssues;
+  },
+}));
+
+vi.mock('../../security/audit.js', () => ({
+  auditLog: mockAuditLog,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('FX Rates API', () => {
+  const orgId = 'org_fx_api_test';
+  let app: Hono;
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      orderBy: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue([]),
+    };
+    mockLoadRates.mockResolvedValue(2);
+    mockConvertIssues.mockResolvedValue(0);
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('auth' as any, { orgId, orgSlug: 'test-org', apiKeyId: 'key_test' });
+      await next();
+    });
+    app.route('/fx-rates', createFxRateRoutes(mockDb));
+  });
+
+  function post(body: unknown) {
+    return app.request('/fx-rates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe('GET /fx-rates', () => {
+    it('should list rates and flag the shared ones', async () => {
+      mockDb.limit = vi.fn().mockResolvedValue([
+        { currency: 'EUR', unitsPerUsd: '0.930000000000', effectiveDate: '2026-10-02', orgId },
+        { currency: 'EUR', unitsPerUsd: '0.920000000000', effectiveDate: '2026-10-01', orgId: null },
+      ]);
+
+      const res = await app.request('/fx-rates?currency=eur');
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).rates).toEqual([
+        { currency: 'EUR', unitsPerUsd: 0.93, effectiveDate: '2026-10-02', shared: false },
+        { currency: 'EUR', unitsPerUsd: 0.92, effectiveDate: '2026-10-01', shared: true },
+      ]);
+    });
+
+    it('should reject malformed dates', async () => {
+      const res = await app.request('/fx-rates?from=yesterday');
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /fx-rates', () => {
+    it('should store rates for the org and convert waiting issues', async () => {
+      const snapshot = { date: '2026-10-01', rates: { EUR: 0.92, JPY: 149.3 } };
+
+      const res = await post(snapshot);
+
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({ stored: 2 });
+      expect(mockLoadRates).toHaveBeenCalledWith(orgId, [snapshot]);
+      expect(mockConvertIssues).toHaveBeenCalledWith(orgId);
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        mockDb, expect.anything(), 'fx_rates.loaded', 'organization', orgId,
+        { days: ['2026-10-01'], stored: 2 },
+      );
+    });
+
+    it('should accept several days at once', async () => {
+      const res = await post([
+        { date: '2026-10-01', rates: { EUR: 0.92 } },
+        { date: '2026-10-02', rates: { EUR: 0.93 } },
+      ]);
+
+      expect(res.status).toBe(201);
+      expect(mockLoadRates.mock.calls[0][1]).toHaveLength(2);
+    });
+
+    it('should reject rates against a base other than USD', async () => {
+      const res = await post({ date: '2026-10-01', base: 'EUR', rates: { USD: 1.08 } });
+
+      expect(res.status).toBe(400);
+      expect(mockLoadRates).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-positive rates', async () => {
+      const res = await post({ date: '2026-10-01', rates: { EUR: 0 } });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createGapRecoveryRoutes } from '../../api/gap-recovery.js';
+import { createTestIssue, resetUuidCounter } from '../helpers.js';
+
+const { mockEnqueueGapRecovery, mockGetJob } = vi.hoisted(() => ({
+  mockEnqueueGapRecovery: vi.fn(),
+  mockGetJob: vi.fn(),
+}));
+
+vi.mock('../../queue/gap-recovery-worker.js', () => ({
+  enqueueGapRecovery: mockEnqueueGapRecovery,
+}));
+
+vi.mock('../../ingestion/recovery/gap-recovery.js', () => ({
+  canRecoverGap: (source: string) => source === 'apple' || source === 'stripe',
+}));
+
+vi.mock('../../config/queue.js', () => ({
+  QUEUE_NAMES: { GAP_RECOVERY: 'webhook-gap-recovery' },
+  getQueue: () => ({ getJob: mockGetJob }),
+}));
+
+vi.mock('../../security/audit.js', () => ({
+  auditLog: vi.fn(),
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('Gap Recovery API', () => {
+  const orgId = 'org_gap_recovery_api_test';
+  let app: Hono;
+  let mockDb: any;
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createGapRecoveryMockDb();
+    mockEnqueueGapRecovery.mockResolvedValue('42');
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('auth' as any, { orgId, orgSlug: 'test-org', apiKeyId: 'key_test' });
+      await next();
+    });
+    app.route('/gap-recovery', createGapRecoveryRoutes(mockDb));
+  });
+
+  function post(body: unknown) {
+    return app.request('/gap-recovery', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe('POST /gap-recovery', () => {
+    it('should queue recovery of a Stripe window', async () => {
+      mockDb.limit = vi.fn().mockResolvedValue([{ id: 'conn-stripe' }]);
+
+      const res = await post({ source: 'stripe', from: '2026-02-01T00:00:00.000Z', to: '2026-02-02T00:00:00.000Z' });
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).jobId).toBe('42');
+      expect(mockEnqueueGapRecovery).toHaveBeenCalledWith({
+        orgId,
+        source: 'stripe',
+        from: '2026-02-01T00:00:00.000Z',
+        to: '2026-02-02T00:00:00.000Z',
+      });
+    });
+
+    it('should re-run recovery for a gap issue', async () => {
+      const issue = createTestIssue(orgId, {
+        id: '11111111-1111-4111-8111-111111111111',
+        issueType: 'webhook_delivery_gap',
+        evidence: { source: 'stripe', connectionId: 'conn-stripe' },
+      });
+      mockDb.limit = vi.fn()
+        .mockResolvedValueOnce([issue])
+        .mockResolvedValueOnce([{ id: 'conn-stripe' }]);
+
+      const res = await post({ issueId: issue.id });
+
+      expect(res.status).toBe(200);
+      expect(mockEnqueueGapRecovery).toHaveBeenCalledWith({ orgId, issueId: issue.id });
+    });
+
+    it('should reject a request with neither an issue nor a window', async () => {
+      const res = await post({ source: 'stripe' });
+
+      expect(res.status).toBe(400);
+      expect(mockEnqueueGapRecovery).not.toHaveBeenCalled();
+    });
+
+    it('should reject sources without a recovery API', async () => {
+      const res = await post({ source: 'google', from: '2026-02-01T00:00:00.000Z' });
+
+      expect(res.status).toBe(400);
+      expect(mockEnqueueGapRecovery).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the source is not connected', async () => {
+      const res = await post({ source: 'stripe', from: '2026-02-01T00:00:00.000Z' });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /gap-recovery/:jobId', () => {
+    it('should report the recovery outcome', async () => {
+      const outcome = { status: 'completed', found: 4, alreadyReceived: 1, replayed: 3, failed: 0 };
+      mockGetJob.mockResolvedValue({
+        id: '42',
+        data: { orgId, source: 'stripe', from: '2026-02-01T00:00:00.000Z' },
+        getState: async () => 'completed',
+        finishedOn: Date.parse('2026-02-02T00:01:00.000Z'),
+        returnvalue: outcome,
+      });
+
+      const res = await app.request('/gap-recovery/42');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ status: 'completed', source: 'stripe', result: outcome });
+    });
+
+    it('should hide jobs from other orgs', async () => {
+      mockGetJob.mockResolvedValue({ id: '42', data: { orgId: 'other-org' } });
+
+      const res = await app.request('/gap-recovery/42');
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
+
+function createGapRecoveryMockDb() {
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve([])),
+  };
+
+  return chainable;
+}
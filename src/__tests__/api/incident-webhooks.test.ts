@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { createIncidentWebhookRoutes } from '../../api/incident-webhooks.js';
+
+const { mockApplyIncidentUpdate } = vi.hoisted(() => ({
+  mockApplyIncidentUpdate: vi.fn(),
+}));
+
+vi.mock('../../alerts/incident-sync.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../alerts/incident-sync.js')>()),
+  applyIncidentUpdate: mockApplyIncidentUpdate,
+}));
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const CONFIG_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const ISSUE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const PD_SECRET = 'pd-signing-secret';
+
+const pagerdutyConfig = {
+  id: CONFIG_ID,
+  orgId: 'org-1',
+  channel: 'pagerduty',
+  config: { routingKey: 'routing-key', webhookSecret: PD_SECRET },
+};
+
+/** The org lookup, then the alert configuration lookup */
+function createMockDb(config: unknown) {
+  const db: any = {
+    select: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    limit: vi.fn(),
+  };
+  db.limit
+    .mockResolvedValueOnce([{ id: 'org-1' }])
+    .mockResolvedValueOnce(config ? [config] : []);
+  return db;
+}
+
+function pagerdutyRequest(app: ReturnType<typeof createIncidentWebhookRoutes>, body: string, secret = PD_SECRET) {
+  return app.request(`/acme/pagerduty/${CONFIG_ID}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-PagerDuty-Signature': `v1=${createHmac('sha256', secret).update(body).digest('hex')}`,
+    },
+    body,
+  });
+}
+
+const resolvedEvent = JSON.stringify({
+  event: {
+    id: 'evt-1',
+    event_type: 'incident.resolved',
+    agent: { summary: 'Jane Doe' },
+    data: { incident_key: ISSUE_ID },
+  },
+});
+
+beforeEach(() => {
+  mockApplyIncidentUpdate.mockResolvedValue('resolved');
+});
+
+describe('incident webhooks', () => {
+  it('applies a signed PagerDuty resolution to the issue', async () => {
+    const db = createMockDb(pagerdutyConfig);
+    const app = createIncidentWebhookRoutes(db);
+
+    const res = await pagerdutyRequest(app, resolvedEvent);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, result: 'resolved' });
+    expect(mockApplyIncidentUpdate).toHaveBeenCalledWith(db, pagerdutyConfig, {
+      action: 'resolve',
+      issueId: ISSUE_ID,
+      agent: 'Jane Doe',
+      eventId: 'evt-1',
+    });
+  });
+
+  it('rejects a bad signature', async () => {
+    const app = createIncidentWebhookRoutes(createMockDb(pagerdutyConfig));
+
+    const res = await pagerdutyRequest(app, resolvedEvent, 'wrong-secret');
+
+    expect(res.status).toBe(401);
+    expect(mockApplyIncidentUpdate).not.toHaveBeenCalled();
+  });
+
+  it('is not found until a webhookSecret is configured', async () => {
+    const app = createIncidentWebhookRoutes(createMockDb({ ...pagerdutyConfig, config: { routingKey: 'routing-key' } }));
+
+    const res = await pagerdutyRequest(app, resolvedEvent);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Incident sync not configured' });
+  });
+
+  it('acknowledges events it has no use for', async () => {
+    const app = createIncidentWebhookRoutes(createMockDb(pagerdutyConfig));
+
+    const res = await pagerdutyRequest(app, JSON.stringify({ event: { event_type: 'pagey.ping' } }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, result: 'ignored' });
+    expect(mockApplyIncidentUpdate).not.toHaveBeenCalled();
+  });
+
+  it('checks the shared secret header on Opsgenie webhooks', async () => {
+    const opsgenieConfig = {
+      ...pagerdutyConfig,
+      channel: 'opsgenie',
+      config: { apiKey: 'genie-key', webhookSecret: 'og-shared-secret' },
+    };
+    const body = JSON.stringify({ action: 'Acknowledge', alert: { alias: ISSUE_ID, username: 'jane@example.com' } });
+    mockApplyIncidentUpdate.mockResolvedValue('acknowledged');
+
+    const request = (secret: string) => createIncidentWebhookRoutes(createMockDb(opsgenieConfig)).request(
+      `/acme/opsgenie/${CONFIG_ID}`,
+      { method: 'POST', headers: { 'X-RevBack-Webhook-Secret': secret }, body },
+    );
+
+    expect((await request('not-the-secret')).status).toBe(401);
+    const res = await request('og-shared-secret');
+    expect(await res.json()).toEqual({ ok: true, result: 'acknowledged' });
+  });
+});
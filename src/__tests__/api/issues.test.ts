@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Hono } from 'hono';
+
+const mockEnqueueIssueUnsnooze = vi.hoisted(() => vi.fn());
+
+vi.mock('../../queue/issue-snooze-worker.js', () => ({
+  enqueueIssueUnsnooze: mockEnqueueIssueUnsnooze,
+}));
+
 import { createIssueRoutes } from '../../api/issues.js';
 import { createTestIssue, resetUuidCounter } from '../helpers.js';
 
@@ -113,6 +120,26 @@ describe('Issues API', () => {
       const res = await app.request('/issues?type=payment_without_entitlement');
       expect(res.status).toBe(200);
     });
+
+    it('should filter by environment', async () => {
+      let callCount = 0;
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => {
+        callCount++;
+        if (callCount === 1) return resolve([{ count: 0 }]);
+        return resolve([]);
+      });
+
+      const res = await app.request('/issues?environment=sandbox');
+      expect(res.status).toBe(200);
+    });
+
+    it('should reject an unknown environment', async () => {
+      mockDb.then = vi.fn();
+
+      const res = await app.request('/issues?environment=staging');
+      expect(res.status).toBe(400);
+      expect(mockDb.then).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /issues/summary', () => {
@@ -135,6 +162,11 @@ describe('Issues API', () => {
       const res = await app.request('/issues/summary');
       expect(res.status).toBe(200);
     });
+
+    it('should reject an unknown environment', async () => {
+      const res = await app.request('/issues/summary?environment=test');
+      expect(res.status).toBe(400);
+    });
   });
 
   describe('GET /issues/:issueId', () => {
@@ -209,6 +241,65 @@ describe('Issues API', () => {
       expect(body.ok).toBe(true);
     });
   });
+
+  describe('POST /issues/:issueId/snooze', () => {
+    const until = new Date(Date.now() + 24 * 3600_000).toISOString();
+
+    function snooze(body: unknown) {
+      return app.request('/issues/issue-snooze-1/snooze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it('should snooze an open issue and schedule it to reopen', async () => {
+      mockDb._configureSelectResult([{ status: 'open' }]);
+
+      const res = await snooze({ until, reason: 'Waiting on the App Store' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ ok: true, snoozedUntil: until });
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'snoozed',
+        snoozedUntil: new Date(until),
+      }));
+      expect(mockEnqueueIssueUnsnooze).toHaveBeenCalledWith('issue-snooze-1', new Date(until));
+    });
+
+    it('should leave the issue alone when the reopen can\'t be scheduled', async () => {
+      mockDb._configureSelectResult([{ status: 'open' }]);
+      mockEnqueueIssueUnsnooze.mockRejectedValue(new Error('Redis unavailable'));
+
+      const res = await snooze({ until });
+
+      expect(res.status).toBe(500);
+      expect(mockDb.set).not.toHaveBeenCalled();
+    });
+
+    it('should reject a time in the past', async () => {
+      const res = await snooze({ until: new Date(Date.now() - 60_000).toISOString() });
+
+      expect(res.status).toBe(400);
+      expect(mockEnqueueIssueUnsnooze).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown issue', async () => {
+      mockDb._configureSelectResult([]);
+
+      const res = await snooze({ until });
+      expect(res.status).toBe(404);
+    });
+
+    it('should refuse to snooze a resolved issue', async () => {
+      mockDb._configureSelectResult([{ status: 'resolved' }]);
+
+      const res = await snooze({ until });
+
+      expect(res.status).toBe(409);
+      expect(mockDb.set).not.toHaveBeenCalled();
+    });
+  });
 });
 
 function createIssuesMockDb() {
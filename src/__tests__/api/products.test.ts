@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createProductRoutes } from '../../api/products.js';
+import { createTestProduct, resetUuidCounter } from '../helpers.js';
+
+const { mockFindConflicts, mockMerge, mockTriggerScanNow } = vi.hoisted(() => ({
+  mockFindConflicts: vi.fn(),
+  mockMerge: vi.fn(),
+  mockTriggerScanNow: vi.fn(),
+}));
+
+vi.mock('../../products/catalog.js', () => ({
+  ProductCatalog: class {
+    findConflicts = mockFindConflicts;
+    merge = mockMerge;
+  },
+}));
+
+vi.mock('../../queue/scan-scheduler.js', () => ({
+  triggerScanNow: mockTriggerScanNow,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('Products API', () => {
+  const orgId = 'org_products_api_test';
+  let app: Hono;
+  let mockDb: any;
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createProductsMockDb();
+    mockFindConflicts.mockResolvedValue([]);
+    mockTriggerScanNow.mockResolvedValue('job-1');
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('auth' as any, { orgId, orgSlug: 'test-org', apiKeyId: 'key_test' });
+      await next();
+    });
+    app.route('/products', createProductRoutes(mockDb));
+  });
+
+  describe('GET /products', () => {
+    it('should list the org\'s products', async () => {
+      const product = createTestProduct(orgId);
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([product]));
+
+      const res = await app.request('/products');
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.products).toHaveLength(1);
+      expect(body.products[0].id).toBe(product.id);
+    });
+  });
+
+  describe('GET /products/:productId', () => {
+    it('should return 404 for an unknown product', async () => {
+      const res = await app.request('/products/missing');
+      expect(res.status).toBe(404);
+    });
+
+    it('should return the product with its usage counts', async () => {
+      const product = createTestProduct(orgId);
+      mockDb.limit = vi.fn().mockResolvedValue([product]);
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([{ count: 3 }]));
+
+      const res = await app.request(`/products/${product.id}`);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.usage).toEqual({ events: 3, entitlements: 3, accessChecks: 3 });
+    });
+  });
+
+  describe('POST /products', () => {
+    it('should create a product with external IDs from several sources', async () => {
+      const product = createTestProduct(orgId, { name: 'Premium' });
+      mockDb.returning = vi.fn().mockResolvedValue([product]);
+
+      const res = await app.request('/products', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: 'Premium',
+          externalIds: { stripe: ['prod_abc'], apple: ['com.app.premium', 'com.app.premium.annual'] },
+        }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        orgId,
+        name: 'Premium',
+        externalIds: { stripe: ['prod_abc'], apple: ['com.app.premium', 'com.app.premium.annual'] },
+      }));
+    });
+
+    it('should return 409 when an external ID belongs to another product', async () => {
+      const conflict = { source: 'stripe', externalId: 'prod_abc', productId: 'prod-other', productName: 'Other' };
+      mockFindConflicts.mockResolvedValue([conflict]);
+
+      const res = await app.request('/products', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Premium', externalIds: { stripe: ['prod_abc'] } }),
+      });
+
+      expect(res.status).toBe(409);
+      expect((await res.json()).conflicts).toEqual([conflict]);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown billing sources', async () => {
+      const res = await app.request('/products', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Premium', externalIds: { paypal: ['x'] } }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('PUT /products/:productId', () => {
+    it('should mark the product as mapped', async () => {
+      const product = createTestProduct(orgId, { autoCreated: true });
+      mockDb.limit = vi.fn().mockResolvedValue([product]);
+      mockDb.returning = vi.fn().mockResolvedValue([{ ...product, name: 'Premium', autoCreated: false }]);
+
+      const res = await app.request(`/products/${product.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Premium' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ name: 'Premium', autoCreated: false }));
+    });
+
+    it('should check new external IDs against other products only', async () => {
+      const product = createTestProduct(orgId);
+      mockDb.limit = vi.fn().mockResolvedValue([product]);
+      mockDb.returning = vi.fn().mockResolvedValue([product]);
+
+      await app.request(`/products/${product.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ externalIds: { google: ['premium_monthly'] } }),
+      });
+
+      expect(mockFindConflicts).toHaveBeenCalledWith(orgId, { google: ['premium_monthly'] }, product.id);
+    });
+  });
+
+  describe('DELETE /products/:productId', () => {
+    it('should refuse to delete a product that has events', async () => {
+      const product = createTestProduct(orgId);
+      mockDb.limit = vi.fn().mockResolvedValue([product]);
+      let queryNum = 0;
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => {
+        queryNum++;
+        return resolve([{ count: queryNum === 1 ? 5 : 0 }]);
+      });
+
+      const res = await app.request(`/products/${product.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(409);
+      expect((await res.json()).usage.events).toBe(5);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete an unused product', async () => {
+      const product = createTestProduct(orgId);
+      mockDb.limit = vi.fn().mockResolvedValue([product]);
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([{ count: 0 }]));
+
+      const res = await app.request(`/products/${product.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(200);
+      expect(mockDb.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /products/:productId/merge', () => {
+    const target = createTestProduct(orgId, { id: '11111111-1111-4111-8111-111111111111', name: 'Premium' });
+    const source = createTestProduct(orgId, { id: '22222222-2222-4222-8222-222222222222', name: 'com.app.premium' });
+
+    function merge(productId: string, sourceProductId: string) {
+      return app.request(`/products/${productId}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceProductId }),
+      });
+    }
+
+    it('should reject merging a product into itself', async () => {
+      const res = await merge(target.id, target.id);
+      expect(res.status).toBe(400);
+      expect(mockMerge).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when either product is missing', async () => {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([target]));
+
+      const res = await merge(target.id, source.id);
+      expect(res.status).toBe(404);
+    });
+
+    it('should merge and queue a duplicate billing scan', async () => {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([target, source]));
+      mockMerge.mockResolvedValue({
+        targetProductId: target.id,
+        mergedProductId: source.id,
+        eventsMoved: 7,
+        entitlementsMoved: 2,
+        entitlementsRebuilt: 0,
+        accessChecksMoved: 0,
+        issuesUpdated: 1,
+      });
+
+      const res = await merge(target.id, source.id);
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body).toMatchObject({ ok: true, eventsMoved: 7 });
+      expect(mockMerge).toHaveBeenCalledWith(orgId, target, source);
+      expect(mockTriggerScanNow).toHaveBeenCalledWith('duplicate_billing', orgId);
+    });
+  });
+});
+
+function createProductsMockDb() {
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    delete: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve([])),
+    returning: vi.fn().mockImplementation(() => Promise.resolve([])),
+    catch: vi.fn().mockReturnThis(),
+    then: vi.fn().mockImplementation((resolve: any) => resolve([])),
+  };
+
+  return chainable;
+}
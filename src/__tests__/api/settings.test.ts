@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import type { AuthContext } from '../../middleware/auth.js';
+
+const { mockGetOrgSettings, mockUpdateOrgSettings, mockConvertIssues } = vi.hoisted(() => ({
+  mockGetOrgSettings: vi.fn(),
+  mockUpdateOrgSettings: vi.fn(),
+  mockConvertIssues: vi.fn(),
+}));
+
+vi.mock('../../config/org-settings.js', () => ({
+  getOrgSettings: mockGetOrgSettings,
+  updateOrgSettings: mockUpdateOrgSettings,
+}));
+
+vi.mock('../../currency/fx.js', () => ({
+  CurrencyConverter: class {
+    convertIssues = mockConvertIssues;
+  },
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Mock the audit module — use plain function (not vi.fn()) to avoid mockReset issues
+vi.mock('../../security/audit.js', () => ({
+  auditLog: () => {},
+}));
+
+// Mock the require-scope middleware to pass through
+vi.mock('../../middleware/require-scope.js', () => ({
+  requireScope: () => async (_c: any, next: any) => next(),
+}));
+
+import { createSettingsRoutes } from '../../api/settings.js';
+
+const TEST_ORG_ID = 'org-settings-test-123';
+
+function createAuth(): AuthContext {
+  return {
+    orgId: TEST_ORG_ID,
+    orgSlug: 'test-org',
+    apiKeyId: 'key-test-789',
+    scopes: ['admin:read', 'admin:write'],
+  };
+}
+
+describe('Settings API', () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    mockGetOrgSettings.mockResolvedValue({});
+    mockConvertIssues.mockResolvedValue(0);
+    const routes = createSettingsRoutes({} as any);
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('auth', createAuth());
+      await next();
+    });
+    app.route('/settings', routes);
+  });
+
+  describe('GET /settings', () => {
+    it('should return the org settings', async () => {
+      mockGetOrgSettings.mockResolvedValue({ dropSandboxEvents: true });
+
+      const res = await app.request('/settings');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ settings: { dropSandboxEvents: true } });
+      expect(mockGetOrgSettings).toHaveBeenCalledWith(expect.anything(), TEST_ORG_ID);
+    });
+  });
+
+  describe('PUT /settings', () => {
+    it('should merge the update into the org settings', async () => {
+      mockUpdateOrgSettings.mockResolvedValue({ dropSandboxEvents: true });
+
+      const res = await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dropSandboxEvents: true }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ settings: { dropSandboxEvents: true } });
+      expect(mockUpdateOrgSettings).toHaveBeenCalledWith(
+        expect.anything(),
+        TEST_ORG_ID,
+        { dropSandboxEvents: true },
+      );
+    });
+
+    it('should reject unknown settings', async () => {
+      const res = await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ somethingElse: 1 }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockUpdateOrgSettings).not.toHaveBeenCalled();
+    });
+
+    it('should accept Apple consumption opt-in rules', async () => {
+      const appleConsumption = {
+        enabled: true,
+        customerConsented: true,
+        refundPreference: 'decline',
+        reasons: ['UNINTENDED_PURCHASE', 'OTHER'],
+      };
+      mockUpdateOrgSettings.mockResolvedValue({ appleConsumption });
+
+      const res = await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appleConsumption }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockUpdateOrgSettings).toHaveBeenCalledWith(expect.anything(), TEST_ORG_ID, { appleConsumption });
+    });
+
+    it('should reject an unknown consumption request reason', async () => {
+      const res = await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appleConsumption: { enabled: true, reasons: ['BORED'] } }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockUpdateOrgSettings).not.toHaveBeenCalled();
+    });
+
+    it('should convert existing issues when the reporting currency changes', async () => {
+      mockUpdateOrgSettings.mockResolvedValue({ reportingCurrency: 'EUR' });
+
+      const res = await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportingCurrency: 'EUR' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockConvertIssues).toHaveBeenCalledWith(TEST_ORG_ID);
+    });
+
+    it('should not convert issues when the reporting currency is unchanged', async () => {
+      mockGetOrgSettings.mockResolvedValue({ reportingCurrency: 'EUR' });
+      mockUpdateOrgSettings.mockResolvedValue({ reportingCurrency: 'EUR' });
+
+      await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportingCurrency: 'EUR' }),
+      });
+
+      expect(mockConvertIssues).not.toHaveBeenCalled();
+    });
+
+    it('should reject a reporting currency that is not an ISO code', async () => {
+      const res = await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportingCurrency: 'euro' }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject a non-boolean dropSandboxEvents', async () => {
+      const res = await app.request('/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dropSandboxEvents: 'yes' }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -3,6 +3,25 @@ import { Hono } from 'hono';
 import { createUserRoutes } from '../../api/users.js';
 import { createTestUser, createTestEntitlement, resetUuidCounter } from '../helpers.js';
 
+const { mockMerge, mockSplit, mockIdentify } = vi.hoisted(() => ({
+  mockMerge: vi.fn(),
+  mockSplit: vi.fn(),
+  mockIdentify: vi.fn(),
+}));
+
+vi.mock('../../identity/resolver.js', () => ({
+  IdentityResolver: class {
+    identify = mockIdentify;
+  },
+}));
+
+vi.mock('../../identity/merge.js', () => ({
+  IdentityMergeService: class {
+    merge = mockMerge;
+    split = mockSplit;
+  },
+}));
+
 // Mock the logger
 vi.mock('../../config/logger.js', () => ({
   createChildLogger: () => ({
@@ -155,6 +174,18 @@ describe('Users API', () => {
       const res = await app.request('/users/user-1/timeline?limit=1000');
       expect(res.status).toBe(200);
     });
+
+    it('should include sandbox events when asked', async () => {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([]));
+
+      const res = await app.request('/users/user-1/timeline?environment=all');
+      expect(res.status).toBe(200);
+    });
+
+    it('should reject an unknown environment', async () => {
+      const res = await app.request('/users/user-1/timeline?environment=dev');
+      expect(res.status).toBe(400);
+    });
   });
 
   describe('GET /users/:userId/entitlements', () => {
@@ -194,6 +225,169 @@ describe('Users API', () => {
       expect(body.issues).toBeDefined();
     });
   });
+
+  describe('POST /users/identify', () => {
+    function identify(path: string, body: unknown) {
+      return app.request(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it('should link the identifiers and return the canonical user', async () => {
+      mockIdentify.mockResolvedValue({ userId: 'user-1', created: true, merged: [], identities: [] });
+
+      const res = await identify('/users/identify', { appUserId: 'app_1', stripeCustomerId: 'cus_1' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ ok: true, userId: 'user-1', created: true });
+      expect(mockIdentify).toHaveBeenCalledWith(orgId, { appUserId: 'app_1', stripeCustomerId: 'cus_1' });
+    });
+
+    it('should require an appUserId', async () => {
+      const res = await identify('/users/identify', { stripeCustomerId: 'cus_1' });
+      expect(res.status).toBe(400);
+      expect(mockIdentify).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid email', async () => {
+      const res = await identify('/users/identify', { appUserId: 'app_1', email: 'not-an-email' });
+      expect(res.status).toBe(400);
+    });
+
+    it('should identify each row of a batch and report failures per row', async () => {
+      mockIdentify
+        .mockResolvedValueOnce({ userId: 'user-1', created: true, merged: [], identities: [] })
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce({
+          userId: 'user-3',
+          created: false,
+          merged: [{ mergedUserId: 'user-dup' }],
+          identities: [],
+        });
+
+      const res = await identify('/users/identify/batch', {
+        users: [{ appUserId: 'app_1' }, { appUserId: 'app_2' }, { appUserId: 'app_3' }],
+      });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.ok).toBe(false);
+      expect(body.summary).toEqual({ identified: 2, created: 1, merged: 1, failed: 1 });
+      expect(body.errors).toEqual([{ index: 1, appUserId: 'app_2', error: 'boom' }]);
+      expect(body.results[1]).toMatchObject({ index: 2, userId: 'user-3', mergedUserIds: ['user-dup'] });
+    });
+
+    it('should reject an empty batch', async () => {
+      const res = await identify('/users/identify/batch', { users: [] });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /users/:userId/merge', () => {
+    const targetId = '11111111-1111-4111-8111-111111111111';
+    const sourceId = '22222222-2222-4222-8222-222222222222';
+
+    function merge(userId: string, body: unknown) {
+      return app.request(`/users/${userId}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it('should fold the source user into the target', async () => {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([
+        createTestUser(orgId, { id: targetId }),
+        createTestUser(orgId, { id: sourceId }),
+      ]));
+      mockMerge.mockResolvedValue({ targetUserId: targetId, mergedUserId: sourceId, eventsMoved: 3 });
+
+      const res = await merge(targetId, { sourceUserId: sourceId });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.mergedUserId).toBe(sourceId);
+      expect(mockMerge).toHaveBeenCalledWith(
+        orgId,
+        expect.objectContaining({ id: targetId }),
+        expect.objectContaining({ id: sourceId }),
+      );
+    });
+
+    it('should return 404 when either user is missing', async () => {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([
+        createTestUser(orgId, { id: targetId }),
+      ]));
+
+      const res = await merge(targetId, { sourceUserId: sourceId });
+
+      expect(res.status).toBe(404);
+      expect(mockMerge).not.toHaveBeenCalled();
+    });
+
+    it('should reject merging a user into itself', async () => {
+      const res = await merge(targetId, { sourceUserId: targetId });
+      expect(res.status).toBe(400);
+    });
+
+    it('should require a sourceUserId', async () => {
+      const res = await merge(targetId, {});
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /users/:userId/split', () => {
+    const userId = '33333333-3333-4333-8333-333333333333';
+    const stripeIdentity = { id: '44444444-4444-4444-8444-444444444444', userId, source: 'stripe' };
+    const appleIdentity = { id: '55555555-5555-4555-8555-555555555555', userId, source: 'apple' };
+
+    function split(body: unknown) {
+      return app.request(`/users/${userId}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it('should detach the given identities into a new user', async () => {
+      mockDb.limit = vi.fn().mockResolvedValue([createTestUser(orgId, { id: userId })]);
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([stripeIdentity, appleIdentity]));
+      mockSplit.mockResolvedValue({ userId, newUserId: 'new-user', identitiesMoved: 1 });
+
+      const res = await split({ identityIds: [appleIdentity.id] });
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).newUserId).toBe('new-user');
+      expect(mockSplit).toHaveBeenCalledWith(orgId, expect.objectContaining({ id: userId }), [appleIdentity]);
+    });
+
+    it('should reject identities that belong to someone else', async () => {
+      mockDb.limit = vi.fn().mockResolvedValue([createTestUser(orgId, { id: userId })]);
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([stripeIdentity]));
+
+      const res = await split({ identityIds: [appleIdentity.id] });
+
+      expect(res.status).toBe(400);
+      expect(mockSplit).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to detach every identity', async () => {
+      mockDb.limit = vi.fn().mockResolvedValue([createTestUser(orgId, { id: userId })]);
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve([stripeIdentity]));
+
+      const res = await split({ identityIds: [stripeIdentity.id] });
+
+      expect(res.status).toBe(400);
+      expect(mockSplit).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      const res = await split({ identityIds: [stripeIdentity.id] });
+      expect(res.status).toBe(404);
+    });
+  });
 });
 
 function createUsersMockDb() {
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockGetReportingCurrency } = vi.hoisted(() => ({
+  mockGetReportingCurrency: vi.fn(),
+}));
+
+vi.mock('../../config/org-settings.js', () => ({
+  getReportingCurrency: mockGetReportingCurrency,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { CurrencyConverter } from '../../currency/fx.js';
+import { formatMoney, minorUnitDigits } from '../../currency/format.js';
+
+describe('formatMoney', () => {
+  it('should format amounts in each currency\'s minor unit', () => {
+    expect(formatMoney(1499, 'USD')).toBe('$14.99');
+    expect(formatMoney(999, 'eur')).toBe('€9.99');
+    expect(formatMoney(1200, 'JPY')).toBe('¥1,200');
+  });
+
+  it('should default to US dollars', () => {
+    expect(formatMoney(500, null)).toBe('$5.00');
+  });
+
+  it('should fall back to the code for currencies Intl rejects', () => {
+    expect(formatMoney(1000, 'EURO')).toBe('10.00 EURO');
+  });
+});
+
+describe('minorUnitDigits', () => {
+  it('should know zero- and three-decimal currencies', () => {
+    expect(minorUnitDigits('USD')).toBe(2);
+    expect(minorUnitDigits('JPY')).toBe(0);
+    expect(minorUnitDigits('KWD')).toBe(3);
+  });
+});
+
+describe('CurrencyConverter', () => {
+  const orgId = 'org_fx_test';
+  const at = new Date('2026-10-01T12:00:00Z');
+  let mockDb: any;
+  let converter: CurrencyConverter;
+
+  beforeEach(() => {
+    mockDb = createFxMockDb();
+    converter = new CurrencyConverter(mockDb);
+    mockGetReportingCurrency.mockResolvedValue('USD');
+  });
+
+  it('should convert through USD between minor units', async () => {
+    // 1 USD = 0.8 GBP = 150 JPY
+    mockDb._queueLimited([{ unitsPerUsd: '0.8' }], [{ unitsPerUsd: '150' }]);
+
+    expect(await converter.convert(orgId, 1000, 'GBP', 'JPY', at)).toBe(1875);
+  });
+
+  it('should not look up rates for the same currency or USD', async () => {
+    expect(await converter.convert(orgId, 1234, 'eur', 'EUR', at)).toBe(1234);
+    mockDb._queueLimited([{ unitsPerUsd: '0.92' }]);
+    expect(await converter.convert(orgId, 920, 'EUR', 'USD', at)).toBe(1000);
+    expect(mockDb.limit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the earliest rate for amounts older than the table', async () => {
+    mockDb._queueLimited([], [{ unitsPerUsd: '0.5' }]);
+
+    expect(await converter.convert(orgId, 1000, 'USD', 'GBP', at)).toBe(500);
+    expect(mockDb.limit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return null when a currency has no rate', async () => {
+    expect(await converter.convert(orgId, 1000, 'BRL', 'USD', at)).toBeNull();
+  });
+
+  it('should cache rates per day', async () => {
+    mockDb._queueLimited([{ unitsPerUsd: '0.92' }]);
+
+    await converter.convert(orgId, 100, 'EUR', 'USD', at);
+    await converter.convert(orgId, 200, 'EUR', 'USD', new Date('2026-10-01T23:00:00Z'));
+
+    expect(mockDb.limit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should upsert rates without storing USD itself', async () => {
+    const stored = await converter.loadRates(orgId, [
+      { date: '2026-10-01', rates: { USD: 1, EUR: 0.92, JPY: 149.3 } },
+    ]);
+
+    expect(stored).toBe(2);
+    expect(mockDb.values).toHaveBeenCalledWith([
+      { orgId, currency: 'EUR', unitsPerUsd: '0.92', effectiveDate: '2026-10-01' },
+      { orgId, currency: 'JPY', unitsPerUsd: '149.3', effectiveDate: '2026-10-01' },
+    ]);
+    expect(mockDb.onConflictDoUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  describe('convertIssues', () => {
+    it('should convert issues into the reporting currency at their revenue date', async () => {
+      mockDb._queueLimited(
+        [{
+          id: 'issue-1',
+          estimatedRevenueCents: null,
+          originalRevenueCents: 920,
+          originalNetRevenueCents: 644,
+          originalCurrency: 'EUR',
+          revenueAt: at,
+        }],
+        [{ unitsPerUsd: '0.92' }],
+      );
+
+      expect(await converter.convertIssues(orgId)).toBe(1);
+      expect(mockDb.set).toHaveBeenCalledWith({ estimatedRevenueCents: 1000, netRevenueCents: 700, revenueCurrency: 'USD' });
+    });
+
+    it('should clear amounts that cannot be converted yet', async () => {
+      mockGetReportingCurrency.mockResolvedValue('GBP');
+      mockDb._queueLimited([
+        { id: 'issue-1', estimatedRevenueCents: 1000, originalRevenueCents: 1000, originalCurrency: 'USD', revenueAt: at },
+        { id: 'issue-2', estimatedRevenueCents: null, originalRevenueCents: 500, originalCurrency: 'USD', revenueAt: at },
+      ]);
+
+      expect(await converter.convertIssues(orgId)).toBe(0);
+      expect(mockDb.set).toHaveBeenCalledTimes(1);
+      expect(mockDb.set).toHaveBeenCalledWith({ estimatedRevenueCents: null, netRevenueCents: null, revenueCurrency: null });
+    });
+  });
+});
+
+/**
+ * Mock DB for the converter. Queries ending in limit() take results from
+ * the limited queue, falling back to an empty array.
+ */
+function createFxMockDb() {
+  let limited: any[][] = [];
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    onConflictDoUpdate: vi.fn().mockResolvedValue(undefined),
+    limit: vi.fn().mockImplementation(() => Promise.resolve(limited.shift() ?? [])),
+
+    _queueLimited(...results: any[][]) {
+      limited = results;
+    },
+  };
+
+  return chainable;
+}
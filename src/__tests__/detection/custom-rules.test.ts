@@ -0,0 +1,354 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  evaluateConditions,
+  renderTemplate,
+  validateConditions,
+  validateTemplate,
+} from '../../detection/rules/conditions.js';
+import { createRuleDetector, dryRunRule } from '../../detection/rules/rule-detector.js';
+import { createTestCanonicalEvent, createTestEntitlement, createTestIssue, resetUuidCounter } from '../helpers.js';
+import { canonicalEvents, entitlements } from '../../models/schema.js';
+import type { CanonicalEvent, DetectorRule, RuleCondition } from '../../models/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('rule conditions', () => {
+  describe('evaluateConditions', () => {
+    const facts = {
+      entitlement: { state: 'past_due', planTier: 'Enterprise', daysInState: 4.5, cancelScheduled: false },
+      event: { eventType: null, amountCents: null },
+    };
+
+    it('should match when every condition holds', () => {
+      const matched = evaluateConditions([
+        { subject: 'entitlement', field: 'planTier', operator: 'eq', value: 'enterprise' },
+        { subject: 'entitlement', field: 'state', operator: 'in', value: ['past_due', 'billing_retry'] },
+        { subject: 'entitlement', field: 'daysInState', operator: 'gt', value: 3 },
+        { subject: 'entitlement', field: 'cancelScheduled', operator: 'eq', value: false },
+      ], facts);
+
+      expect(matched).toHaveLength(4);
+      expect(matched![2]).toMatchObject({ field: 'daysInState', actual: 4.5 });
+    });
+
+    it('should not match when any condition fails', () => {
+      expect(evaluateConditions([
+        { subject: 'entitlement', field: 'planTier', operator: 'eq', value: 'enterprise' },
+        { subject: 'entitlement', field: 'daysInState', operator: 'gte', value: 7 },
+      ], facts)).toBeNull();
+    });
+
+    it('should treat missing values as absent rather than equal or unequal', () => {
+      expect(evaluateConditions([{ subject: 'event', field: 'eventType', operator: 'not_exists' }], facts)).toHaveLength(1);
+      expect(evaluateConditions([{ subject: 'event', field: 'eventType', operator: 'neq', value: 'refund' }], facts)).toHaveLength(1);
+      expect(evaluateConditions([{ subject: 'event', field: 'amountCents', operator: 'lt', value: 100 }], facts)).toBeNull();
+      expect(evaluateConditions([{ subject: 'accessCheck', field: 'hasAccess', operator: 'eq', value: true }], facts)).toBeNull();
+    });
+  });
+
+  describe('validateConditions', () => {
+    it('should accept well-formed conditions', () => {
+      expect(validateConditions([
+        { subject: 'entitlement', field: 'daysInState', operator: 'gt', value: 3 },
+        { subject: 'event', field: 'eventType', operator: 'in', value: ['refund', 'chargeback'] },
+        { subject: 'accessCheck', field: 'hasAccess', operator: 'exists' },
+      ])).toEqual([]);
+    });
+
+    it('should explain each malformed condition', () => {
+      const errors = validateConditions([
+        { subject: 'entitlement', field: 'email', operator: 'eq', value: 'x' },
+        { subject: 'entitlement', field: 'state', operator: 'gt', value: 3 },
+        { subject: 'event', field: 'eventType', operator: 'in', value: 'refund' },
+        { subject: 'accessCheck', field: 'hasAccess', operator: 'exists', value: true },
+        { subject: 'accessCheck', field: 'hasAccess', operator: 'eq', value: 'yes' },
+        { subject: 'entitlement', field: 'productId', operator: 'in', value: ['com.app.premium'] },
+      ] as RuleCondition[]);
+
+      expect(errors).toEqual([
+        'conditions[0]: unknown entitlement field "email"',
+        'conditions[1]: gt compares numeric fields with a number',
+        'conditions[2]: in needs a non-empty list of values',
+        'conditions[3]: exists takes no value',
+        'conditions[4]: hasAccess is a boolean',
+        'conditions[5]: productId values must be UUIDs',
+      ]);
+    });
+  });
+
+  describe('templates', () => {
+    it('should reject unknown placeholders', () => {
+      expect(validateTemplate('{{rule.name}}: {{entitlement.planTier}}')).toEqual([]);
+      expect(validateTemplate('{{user.email}} is past due')).toEqual(['unknown placeholder {{user.email}}']);
+    });
+
+    it('should render whole days and unknown values', () => {
+      const title = renderTemplate(
+        '{{rule.name}}: {{ entitlement.planTier }} past due for {{entitlement.daysInState}} days ({{event.currency}})',
+        { entitlement: { planTier: 'enterprise', daysInState: 4.9 }, event: { currency: null } },
+        'Enterprise dunning',
+      );
+
+      expect(title).toBe('Enterprise dunning: enterprise past due for 4 days (unknown)');
+    });
+  });
+});
+
+describe('custom rule detector', () => {
+  const orgId = 'org_rules_test';
+  const userId = 'user_rules_001';
+  const productId = 'product_rules_001';
+  let mockDb: any;
+
+  const enterprisePastDue = createTestRule({
+    conditions: [
+      { subject: 'entitlement', field: 'planTier', operator: 'eq', value: 'enterprise' },
+      { subject: 'entitlement', field: 'state', operator: 'eq', value: 'past_due' },
+      { subject: 'entitlement', field: 'daysInState', operator: 'gt', value: 3 },
+    ],
+    titleTemplate: '{{entitlement.planTier}} subscription past due for {{entitlement.daysInState}} days',
+  });
+
+  function pastDueFor(days: number, overrides?: Partial<any>) {
+    return createTestEntitlement(orgId, userId, productId, {
+      state: 'past_due',
+      planTier: 'enterprise',
+      stateHistory: [{ from: 'active', to: 'past_due', eventType: 'renewal', eventId: null, timestamp: new Date(Date.now() - days * DAY_MS) }],
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createRuleMockDb();
+  });
+
+  it('should run as a detector named after the rule', () => {
+    const detector = createRuleDetector(enterprisePastDue);
+
+    expect(detector.id).toBe('rule:rule-1');
+    expect(detector.name).toBe('Enterprise dunning');
+    expect(detector.scheduledScan).toBeDefined();
+    expect(detector.isResolved).toBeDefined();
+  });
+
+  describe('scheduledScan', () => {
+    it('should raise an issue with evidence for matching entitlements', async () => {
+      const overdue = pastDueFor(5);
+      const latest = createTestCanonicalEvent(orgId, {
+        userId, productId, eventType: 'renewal', status: 'failed', amountCents: 50000, currency: 'EUR', proceedsCents: 42000,
+      });
+      mockDb._queueListed([overdue, pastDueFor(1, { userId: 'user_rules_002' })]);
+      mockDb._queueLimited([latest]);
+
+      const detected = await createRuleDetector(enterprisePastDue).scheduledScan!(mockDb, orgId);
+
+      expect(detected).toHaveLength(1);
+      expect(detected[0]).toMatchObject({
+        issueType: 'custom_rule',
+        severity: 'critical',
+        title: 'enterprise subscription past due for 5 days',
+        userId,
+        estimatedRevenueCents: 50000,
+        netRevenueCents: 42000,
+        revenueCurrency: 'EUR',
+        confidence: 1,
+        detectionTier: 'billing_only',
+      });
+      expect(detected[0].description).toContain('Matched the custom rule "Enterprise dunning"');
+      expect(detected[0].evidence).toMatchObject({
+        ruleId: 'rule-1',
+        entitlementId: overdue.id,
+        eventId: latest.id,
+        accessCheckId: null,
+      });
+      expect(detected[0].evidence.matched).toHaveLength(3);
+    });
+
+    it('should only load events for entitlements that pass the entitlement conditions', async () => {
+      mockDb._queueListed([pastDueFor(1), pastDueFor(2, { planTier: 'pro' })]);
+
+      const detected = await createRuleDetector(enterprisePastDue).scheduledScan!(mockDb, orgId);
+
+      expect(detected).toEqual([]);
+      expect(mockDb.from).not.toHaveBeenCalledWith(canonicalEvents);
+    });
+
+    it('should filter on plan tier in the query', async () => {
+      await createRuleDetector(enterprisePastDue).scheduledScan!(mockDb, orgId);
+
+      const query = new PgDialect().sqlToQuery(mockDb.where.mock.calls[0][0]);
+      expect(query.sql).toContain('lower("entitlements"."plan_tier") in');
+      expect(query.params).toContain('enterprise');
+    });
+
+    it('should compare product IDs as UUIDs in the query', async () => {
+      const productUuid = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+      const rule = createTestRule({
+        conditions: [{ subject: 'entitlement', field: 'productId', operator: 'eq', value: productUuid }],
+      });
+
+      await createRuleDetector(rule).scheduledScan!(mockDb, orgId);
+
+      const query = new PgDialect().sqlToQuery(mockDb.where.mock.calls[0][0]);
+      expect(query.sql).toContain('"entitlements"."product_id" in');
+      expect(query.sql).not.toContain('lower("entitlements"."product_id")');
+      expect(query.params).toContain(productUuid);
+    });
+
+    it('should page through entitlements in batches', async () => {
+      const firstPage = Array.from({ length: 500 }, () => pastDueFor(1));
+      mockDb._queueListed(firstPage, [pastDueFor(5)]);
+      mockDb._queueLimited([]);
+
+      const detected = await createRuleDetector(enterprisePastDue).scheduledScan!(mockDb, orgId);
+
+      expect(detected).toHaveLength(1);
+      expect(mockDb.from.mock.calls.filter(([table]: any[]) => table === entitlements)).toHaveLength(2);
+      const secondPage = new PgDialect().sqlToQuery(mockDb.where.mock.calls[1][0]);
+      expect(secondPage.params).toContain(firstPage[499].id);
+    });
+
+    it('should check the user\'s latest access check when the rule asks about access', async () => {
+      const rule = createTestRule({
+        conditions: [
+          { subject: 'entitlement', field: 'state', operator: 'eq', value: 'expired' },
+          { subject: 'accessCheck', field: 'hasAccess', operator: 'eq', value: true },
+        ],
+      });
+      mockDb._queueListed([createTestEntitlement(orgId, userId, productId, { state: 'expired' })]);
+      mockDb._queueLimited([], [{ id: 'check-1', hasAccess: true, reportedAt: new Date() }]);
+
+      const detected = await createRuleDetector(rule).scheduledScan!(mockDb, orgId);
+
+      expect(detected).toHaveLength(1);
+      expect(detected[0].detectionTier).toBe('app_verified');
+      expect(detected[0].evidence.accessCheckId).toBe('check-1');
+    });
+  });
+
+  describe('checkEvent', () => {
+    it('should evaluate event conditions against the event being processed', async () => {
+      const rule = createTestRule({
+        conditions: [
+          { subject: 'event', field: 'eventType', operator: 'eq', value: 'refund' },
+          { subject: 'entitlement', field: 'state', operator: 'eq', value: 'active' },
+        ],
+      });
+      const refund = createTestCanonicalEvent(orgId, { userId, productId, eventType: 'refund', amountCents: 1999 }) as CanonicalEvent;
+      mockDb._queueListed([createTestEntitlement(orgId, userId, productId, { state: 'active' })]);
+
+      const detected = await createRuleDetector(rule).checkEvent(mockDb, orgId, userId, refund);
+
+      expect(detected).toHaveLength(1);
+      expect(detected[0].evidence.eventId).toBe(refund.id);
+      expect(detected[0].estimatedRevenueCents).toBe(1999);
+      expect(mockDb.limit).not.toHaveBeenCalled();
+    });
+
+    it('should not match other events', async () => {
+      const rule = createTestRule({
+        conditions: [{ subject: 'event', field: 'eventType', operator: 'eq', value: 'refund' }],
+      });
+      const renewal = createTestCanonicalEvent(orgId, { userId, productId }) as CanonicalEvent;
+      mockDb._queueListed([createTestEntitlement(orgId, userId, productId)]);
+
+      expect(await createRuleDetector(rule).checkEvent(mockDb, orgId, userId, renewal)).toEqual([]);
+    });
+  });
+
+  describe('isResolved', () => {
+    const issue = createTestIssue(orgId, {
+      issueType: 'custom_rule',
+      detectorId: 'rule:rule-1',
+      evidence: { ruleId: 'rule-1', entitlementId: 'ent-1' },
+    });
+
+    it('should resolve once the conditions stop holding', async () => {
+      mockDb._queueListed([createTestEntitlement(orgId, userId, productId, { id: 'ent-1', state: 'active', planTier: 'enterprise' })]);
+
+      expect(await createRuleDetector(enterprisePastDue).isResolved!(mockDb, orgId, issue as any)).toBe(true);
+    });
+
+    it('should stay open while they hold', async () => {
+      mockDb._queueListed([pastDueFor(6, { id: 'ent-1' })]);
+
+      expect(await createRuleDetector(enterprisePastDue).isResolved!(mockDb, orgId, issue as any)).toBe(false);
+    });
+
+    it('should resolve when the entitlement is gone', async () => {
+      expect(await createRuleDetector(enterprisePastDue).isResolved!(mockDb, orgId, issue as any)).toBe(true);
+    });
+  });
+
+  describe('dryRunRule', () => {
+    it('should report scan and event matches once per user without raising issues', async () => {
+      const overdue = pastDueFor(5);
+      const events = [
+        createTestCanonicalEvent(orgId, { userId, productId, eventType: 'renewal', status: 'failed' }),
+        createTestCanonicalEvent(orgId, { userId, productId, eventType: 'renewal', status: 'failed' }),
+      ];
+      mockDb._queueListed([overdue], [overdue], [overdue]);
+      mockDb._queueLimited([events[0]], events);
+
+      const result = await dryRunRule(mockDb, orgId, { ...enterprisePastDue, descriptionTemplate: null }, 30);
+
+      expect(result.scan.matches).toBe(1);
+      expect(result.events).toMatchObject({ days: 30, checked: 2, truncated: false, matches: 1 });
+      expect(result.events.issues[0].title).toBe('enterprise subscription past due for 5 days');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+});
+
+function createTestRule(overrides?: Partial<DetectorRule>): DetectorRule {
+  return {
+    id: 'rule-1',
+    orgId: 'org_rules_test',
+    name: 'Enterprise dunning',
+    description: null,
+    severity: 'critical',
+    conditions: [],
+    titleTemplate: '{{rule.name}}',
+    descriptionTemplate: null,
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Mock DB for rule evaluation. Entitlement queries take results from the
+ * listed queue; other queries (latest events and access checks, dry run
+ * events) take them from the limited queue. Both fall back to empty.
+ */
+function createRuleMockDb() {
+  let listed: any[][] = [];
+  let limited: any[][] = [];
+  let table: unknown;
+  const next = () => Promise.resolve((table === entitlements ? listed : limited).shift() ?? []);
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    from: vi.fn().mockImplementation((from: unknown) => {
+      table = from;
+      return chainable;
+    }),
+    where: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(next),
+    then: (resolve: any, reject: any) => next().then(resolve, reject),
+
+    _queueListed(...results: any[][]) {
+      listed = results;
+    },
+    _queueLimited(...results: any[][]) {
+      limited = results;
+    },
+  };
+
+  return chainable;
+}
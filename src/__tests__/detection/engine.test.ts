@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SQL } from 'drizzle-orm';
 import { IssueDetectionEngine } from '../../detection/engine.js';
 import { createTestCanonicalEvent, createTestIssue, resetUuidCounter } from '../helpers.js';
 import type { CanonicalEvent } from '../../models/types.js';
@@ -23,7 +24,46 @@ vi.mock('../../slack/notifications.js', () => ({
   notifyCxChannel: vi.fn().mockResolvedValue(undefined),
 }));
 
-// Mock all 8 registered detectors
+// Mock outbound webhook events and audit logging
+vi.mock('../../alerts/webhook-events.js', () => ({
+  dispatchWebhookEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../alerts/incident-sync.js', () => ({
+  resolveIncidents: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../security/audit.js', () => ({
+  systemAuditLog: vi.fn(),
+}));
+
+// Mock webhook gap recovery (Apple is recoverable)
+vi.mock('../../ingestion/recovery/gap-recovery.js', () => ({
+  canRecoverGap: (source: string) => source === 'apple',
+}));
+
+vi.mock('../../queue/gap-recovery-worker.js', () => ({
+  enqueueGapRecovery: vi.fn(),
+}));
+
+// Mock currency conversion (the reporting currency is USD)
+const { mockConvert, mockGetDetectorSettings } = vi.hoisted(() => ({
+  mockConvert: vi.fn(),
+  mockGetDetectorSettings: vi.fn(),
+}));
+
+vi.mock('../../config/org-settings.js', () => ({
+  getReportingCurrency: vi.fn().mockResolvedValue('USD'),
+  getDetectorSettings: mockGetDetectorSettings,
+}));
+
+vi.mock('../../currency/fx.js', () => ({
+  CurrencyConverter: class {
+    convert = mockConvert;
+  },
+}));
+
+// Mock all 9 registered detectors
 vi.mock('../../detection/detectors/webhook-gap.js', () => ({
   webhookGapDetector: {
     id: 'webhook_delivery_gap',
@@ -51,6 +91,7 @@ vi.mock('../../detection/detectors/refund-still-active.js', () => ({
     description: 'Test',
     checkEvent: vi.fn().mockResolvedValue([]),
     scheduledScan: vi.fn().mockResolvedValue([]),
+    isResolved: vi.fn().mockResolvedValue(false),
   },
 }));
 
@@ -79,6 +120,7 @@ vi.mock('../../detection/detectors/data-freshness.js', () => ({
     name: 'Data Freshness',
     description: 'Test',
     scheduledScan: vi.fn().mockResolvedValue([]),
+    resolvesOnScan: true,
   },
 }));
 
@@ -100,6 +142,24 @@ vi.mock('../../detection/detectors/verified-access-no-payment.js', () => ({
   },
 }));
 
+vi.mock('../../detection/detectors/state-drift.js', () => ({
+  stateDriftDetector: {
+    id: 'state_drift',
+    name: 'State Drift',
+    description: 'Test',
+    checkEvent: vi.fn().mockResolvedValue([]),
+    isResolved: vi.fn().mockResolvedValue(false),
+  },
+}));
+
+// Custom rules, loaded per org
+const { mockLoadRuleDetectors } = vi.hoisted(() => ({ mockLoadRuleDetectors: vi.fn() }));
+
+vi.mock('../../detection/rules/rule-detector.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../detection/rules/rule-detector.js')>()),
+  loadRuleDetectors: mockLoadRuleDetectors,
+}));
+
 describe('IssueDetectionEngine', () => {
   const orgId = 'org_engine_test';
   const userId = 'user_engine_001';
@@ -110,12 +170,14 @@ describe('IssueDetectionEngine', () => {
     resetUuidCounter();
     mockDb = createEngineMockDb();
     engine = new IssueDetectionEngine(mockDb);
+    mockLoadRuleDetectors.mockResolvedValue([]);
+    mockGetDetectorSettings.mockResolvedValue({});
   });
 
   describe('getDetectors', () => {
-    it('should return all 8 registered detectors', () => {
+    it('should return all 9 registered detectors', () => {
       const detectors = engine.getDetectors();
-      expect(detectors).toHaveLength(8);
+      expect(detectors).toHaveLength(9);
     });
 
     it('should include detector metadata', () => {
@@ -130,6 +192,7 @@ describe('IssueDetectionEngine', () => {
       expect(ids).toContain('data_freshness');
       expect(ids).toContain('verified_paid_no_access');
       expect(ids).toContain('verified_access_no_payment');
+      expect(ids).toContain('state_drift');
     });
 
     it('should indicate which detectors have scheduled scans', () => {
@@ -141,6 +204,14 @@ describe('IssueDetectionEngine', () => {
         expect(d.description).toBeTruthy();
       }
     });
+
+    it('should flag detectors that auto-resolve', () => {
+      const refund = engine.getDetectors().find(d => d.id === 'unrevoked_refund');
+      const renewal = engine.getDetectors().find(d => d.id === 'renewal_anomaly');
+
+      expect(refund?.autoResolves).toBe(true);
+      expect(renewal?.autoResolves).toBe(false);
+    });
   });
 
   describe('checkForIssues', () => {
@@ -219,6 +290,507 @@ describe('IssueDetectionEngine', () => {
       // Should not throw, and other detectors with checkEvent should still be called
       expect(refundStillActiveDetector.checkEvent).toHaveBeenCalled();
     });
+
+    it('should not run detectors for sandbox events', async () => {
+      const { webhookGapDetector } = await import('../../detection/detectors/webhook-gap.js');
+      const event = createTestCanonicalEvent(orgId, { environment: 'sandbox' }) as CanonicalEvent;
+
+      await engine.checkForIssues(orgId, userId, event);
+
+      expect(webhookGapDetector.checkEvent).not.toHaveBeenCalled();
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('webhook gap recovery', () => {
+    beforeEach(async () => {
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      const { notifyCxChannel } = await import('../../slack/notifications.js');
+      const { enqueueGapRecovery } = await import('../../queue/gap-recovery-worker.js');
+      (dispatchAlert as any).mockResolvedValue(undefined);
+      (notifyCxChannel as any).mockResolvedValue(undefined);
+      (enqueueGapRecovery as any).mockResolvedValue('job-1');
+    });
+
+    async function raiseGap(source: string) {
+      const { webhookGapDetector } = await import('../../detection/detectors/webhook-gap.js');
+      (webhookGapDetector.scheduledScan as any).mockResolvedValueOnce([{
+        issueType: 'webhook_delivery_gap',
+        severity: 'critical',
+        title: `No ${source} webhooks for 50 hours`,
+        description: 'Test description',
+        confidence: 0.9,
+        evidence: { source, connectionId: 'conn-1' },
+      }]);
+      mockDb._configureInsertResult([{ id: 'gap-issue-id', orgId, issueType: 'webhook_delivery_gap' }]);
+
+      await engine.runSingleDetectorScan(orgId, 'webhook_delivery_gap');
+    }
+
+    it('should queue recovery when a gap is raised for a recoverable source', async () => {
+      const { enqueueGapRecovery } = await import('../../queue/gap-recovery-worker.js');
+
+      await raiseGap('apple');
+
+      expect(enqueueGapRecovery).toHaveBeenCalledWith({ orgId, issueId: 'gap-issue-id' });
+    });
+
+    it('should queue recovery again when a gap issue is reopened', async () => {
+      const { enqueueGapRecovery } = await import('../../queue/gap-recovery-worker.js');
+      const { dispatchWebhookEvent } = await import('../../alerts/webhook-events.js');
+      (dispatchWebhookEvent as any).mockResolvedValue(undefined);
+      mockDb.limit = vi.fn()
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 'resolved-gap-id', resolvedAt: new Date() }]);
+
+      await raiseGap('apple');
+
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(enqueueGapRecovery).toHaveBeenCalledWith({ orgId, issueId: 'resolved-gap-id' });
+    });
+
+    it('should not queue recovery for sources without a recovery API', async () => {
+      const { enqueueGapRecovery } = await import('../../queue/gap-recovery-worker.js');
+
+      await raiseGap('google');
+
+      expect(enqueueGapRecovery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reportIssues', () => {
+    it('should create issues found outside the detectors and count the new ones', async () => {
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      const { notifyCxChannel } = await import('../../slack/notifications.js');
+      (dispatchAlert as any).mockResolvedValue(undefined);
+      (notifyCxChannel as any).mockResolvedValue(undefined);
+      mockDb._configureInsertResult([{ id: 'drift-issue-id', orgId, issueType: 'state_drift' }]);
+
+      const created = await engine.reportIssues(orgId, 'state_drift', [{
+        issueType: 'state_drift',
+        severity: 'critical',
+        title: 'stripe says active, entitlement is expired',
+        description: 'Test description',
+        userId,
+        confidence: 0.95,
+        evidence: { source: 'stripe' },
+      }]);
+
+      expect(created).toBe(1);
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        issueType: 'state_drift',
+        detectorId: 'state_drift',
+        userId,
+      }));
+      expect(dispatchAlert).toHaveBeenCalled();
+    });
+
+    it('should store gross and net revenue in the reporting currency and keep the originals', async () => {
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      const { notifyCxChannel } = await import('../../slack/notifications.js');
+      const { getReportingCurrency } = await import('../../config/org-settings.js');
+      (dispatchAlert as any).mockResolvedValue(undefined);
+      (notifyCxChannel as any).mockResolvedValue(undefined);
+      (getReportingCurrency as any).mockResolvedValue('USD');
+      mockConvert.mockResolvedValueOnce(1087).mockResolvedValueOnce(761);
+      mockDb._configureInsertResult([{ id: 'eur-issue-id', orgId }]);
+      const revenueAt = new Date('2026-10-01T00:00:00Z');
+
+      await engine.reportIssues(orgId, 'state_drift', [{
+        issueType: 'state_drift',
+        severity: 'critical',
+        title: 'Test issue',
+        description: 'Test description',
+        userId,
+        estimatedRevenueCents: 1000,
+        netRevenueCents: 700,
+        revenueCurrency: 'eur',
+        revenueAt,
+        confidence: 0.95,
+        evidence: {},
+      }]);
+
+      expect(mockConvert).toHaveBeenCalledWith(orgId, 1000, 'EUR', 'USD', revenueAt);
+      expect(mockConvert).toHaveBeenCalledWith(orgId, 700, 'EUR', 'USD', revenueAt);
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        estimatedRevenueCents: 1087,
+        netRevenueCents: 761,
+        revenueCurrency: 'USD',
+        originalRevenueCents: 1000,
+        originalNetRevenueCents: 700,
+        originalCurrency: 'EUR',
+        revenueAt,
+      }));
+    });
+  });
+
+  describe('custom rules', () => {
+    function createRuleDetector(detected: any[] = []) {
+      return {
+        id: 'rule:rule-1',
+        name: 'Enterprise dunning',
+        description: 'Test',
+        checkEvent: vi.fn().mockResolvedValue(detected),
+        scheduledScan: vi.fn().mockResolvedValue(detected),
+        isResolved: vi.fn().mockResolvedValue(false),
+      };
+    }
+
+    const ruleIssue = {
+      issueType: 'custom_rule',
+      severity: 'critical',
+      title: 'enterprise subscription past due for 5 days',
+      description: 'Test description',
+      userId,
+      confidence: 1,
+      evidence: { ruleId: 'rule-1' },
+    };
+
+    beforeEach(async () => {
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      const { notifyCxChannel } = await import('../../slack/notifications.js');
+      (dispatchAlert as any).mockResolvedValue(undefined);
+      (notifyCxChannel as any).mockResolvedValue(undefined);
+    });
+
+    it('should run the org\'s rules on each event after the built-in detectors', async () => {
+      const rule = createRuleDetector([ruleIssue]);
+      mockLoadRuleDetectors.mockResolvedValue([rule]);
+      const event = createTestCanonicalEvent(orgId) as CanonicalEvent;
+
+      await engine.checkForIssues(orgId, userId, event);
+
+      expect(mockLoadRuleDetectors).toHaveBeenCalledWith(mockDb, orgId);
+      expect(rule.checkEvent).toHaveBeenCalledWith(mockDb, orgId, userId, event);
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        issueType: 'custom_rule',
+        detectorId: 'rule:rule-1',
+      }));
+    });
+
+    it('should run every rule on the custom_rules scan', async () => {
+      const first = createRuleDetector([ruleIssue]);
+      const second = { ...createRuleDetector(), id: 'rule:rule-2' };
+      mockLoadRuleDetectors.mockResolvedValue([first, second]);
+
+      const result = await engine.runSingleDetectorScan(orgId, 'custom_rules');
+
+      expect(first.scheduledScan).toHaveBeenCalledWith(mockDb, orgId);
+      expect(second.scheduledScan).toHaveBeenCalledWith(mockDb, orgId);
+      expect(result).toEqual({ total: 1, new: 1, resolved: 0 });
+    });
+
+    it('should scan a single rule by its detector ID', async () => {
+      const rule = createRuleDetector();
+      mockLoadRuleDetectors.mockResolvedValue([rule]);
+
+      expect(await engine.runSingleDetectorScan(orgId, 'rule:rule-1')).toEqual({ total: 0, new: 0, resolved: 0 });
+      expect(await engine.runSingleDetectorScan(orgId, 'rule:deleted')).toBeNull();
+    });
+
+    it('should still run the built-in detectors when rules fail to load', async () => {
+      const { webhookGapDetector } = await import('../../detection/detectors/webhook-gap.js');
+      mockLoadRuleDetectors.mockRejectedValue(new Error('db down'));
+
+      await engine.checkForIssues(orgId, userId, createTestCanonicalEvent(orgId) as CanonicalEvent);
+
+      expect(webhookGapDetector.checkEvent).toHaveBeenCalled();
+    });
+
+    it('should re-verify rule issues with their rule', async () => {
+      const rule = createRuleDetector();
+      rule.isResolved.mockResolvedValue(true);
+      mockLoadRuleDetectors.mockResolvedValue([rule]);
+      const { dispatchWebhookEvent } = await import('../../alerts/webhook-events.js');
+      (dispatchWebhookEvent as any).mockResolvedValue(undefined);
+      mockDb._configureOpenIssues([
+        createTestIssue(orgId, { issueType: 'custom_rule', detectorId: 'rule:rule-1' }),
+      ]);
+
+      expect(await engine.autoResolveIssues(orgId)).toBe(1);
+    });
+  });
+
+  describe('fingerprints', () => {
+    const staleData = {
+      issueType: 'data_freshness',
+      severity: 'critical',
+      title: '30% of stripe subscriptions have stale data',
+      description: 'Test',
+      confidence: 0.9,
+      evidence: { source: 'stripe', stalePercent: 30 },
+    };
+
+    beforeEach(async () => {
+      const { dataFreshnessDetector } = await import('../../detection/detectors/data-freshness.js');
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      const { notifyCxChannel } = await import('../../slack/notifications.js');
+      const { dispatchWebhookEvent } = await import('../../alerts/webhook-events.js');
+      (dataFreshnessDetector.scheduledScan as any).mockResolvedValue([staleData]);
+      (dispatchAlert as any).mockResolvedValue(undefined);
+      (notifyCxChannel as any).mockResolvedValue(undefined);
+      (dispatchWebhookEvent as any).mockResolvedValue(undefined);
+    });
+
+    it('should raise a new aggregate issue with its fingerprint', async () => {
+      mockDb._configureInsertResult([{ id: 'new-issue-id', orgId }]);
+
+      const result = await engine.runSingleDetectorScan(orgId, 'data_freshness');
+
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        fingerprint: 'data_freshness:data_freshness:stripe:org',
+      }));
+      expect(result).toEqual({ total: 1, new: 1, resolved: 0 });
+    });
+
+    it('should keep one user\'s entitlements apart', async () => {
+      const { issueFingerprint } = await import('../../detection/fingerprint.js');
+      const drift = (entitlementId: string) => issueFingerprint('state_drift', {
+        issueType: 'state_drift',
+        userId: 'user-1',
+        evidence: { source: 'stripe', entitlementId, productId: 'product-1' },
+      });
+
+      expect(drift('ent-1')).toBe('state_drift:state_drift:stripe:user-1:ent-1');
+      expect(drift('ent-2')).not.toBe(drift('ent-1'));
+    });
+
+    it('should update the open issue when the problem persists', async () => {
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      mockDb._configureSelectResult([{ id: 'existing-issue' }]);
+
+      const result = await engine.runSingleDetectorScan(orgId, 'data_freshness');
+
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        title: staleData.title,
+        lastSeenAt: expect.any(Date),
+      }));
+      // Merged into the stored evidence rather than replacing it
+      const { evidence } = mockDb.set.mock.calls[0][0];
+      expect(evidence).toBeInstanceOf(SQL);
+      expect(evidence.queryChunks).toContain(JSON.stringify(staleData.evidence));
+      expect(mockDb.set).not.toHaveBeenCalledWith(expect.objectContaining({ status: 'open' }));
+      expect(dispatchAlert).not.toHaveBeenCalled();
+      expect(result).toEqual({ total: 1, new: 0, resolved: 0 });
+    });
+
+    it('should resolve aggregate issues the scan no longer reports, without scanning again', async () => {
+      const { dataFreshnessDetector } = await import('../../detection/detectors/data-freshness.js');
+      const { dispatchWebhookEvent } = await import('../../alerts/webhook-events.js');
+      const { resolveIncidents } = await import('../../alerts/incident-sync.js');
+      (resolveIncidents as any).mockResolvedValue(undefined);
+      const stillStale = createTestIssue(orgId, {
+        id: 'issue-stripe',
+        issueType: 'data_freshness',
+        detectorId: 'data_freshness',
+        fingerprint: 'data_freshness:data_freshness:stripe:org',
+      });
+      const caughtUp = createTestIssue(orgId, {
+        id: 'issue-apple',
+        issueType: 'data_freshness',
+        detectorId: 'data_freshness',
+        fingerprint: 'data_freshness:data_freshness:apple:org',
+      });
+      mockDb._configureOpenIssues([stillStale, caughtUp]);
+
+      const result = await engine.runSingleDetectorScan(orgId, 'data_freshness');
+
+      expect(result?.resolved).toBe(1);
+      expect(dataFreshnessDetector.scheduledScan).toHaveBeenCalledTimes(1);
+      expect(dispatchWebhookEvent).toHaveBeenCalledWith(mockDb, orgId, 'issue-apple', 'issue.resolved');
+      expect(dispatchWebhookEvent).not.toHaveBeenCalledWith(mockDb, orgId, 'issue-stripe', 'issue.resolved');
+    });
+
+    it('should reopen an issue resolved within the last week instead of alerting again', async () => {
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      const { dispatchWebhookEvent } = await import('../../alerts/webhook-events.js');
+      const { systemAuditLog } = await import('../../security/audit.js');
+      mockDb.limit = vi.fn()
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 'resolved-issue', resolvedAt: new Date() }]);
+
+      const result = await engine.runSingleDetectorScan(orgId, 'data_freshness');
+
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'open',
+        resolvedAt: null,
+        resolvedBy: null,
+      }));
+      expect(dispatchWebhookEvent).toHaveBeenCalledWith(mockDb, orgId, 'resolved-issue', 'issue.reopened');
+      expect(systemAuditLog).toHaveBeenCalledWith(
+        mockDb, orgId, 'issue.reopened', 'issue', 'resolved-issue', expect.objectContaining({ detectorId: 'data_freshness' }),
+      );
+      expect(dispatchAlert).not.toHaveBeenCalled();
+      expect(result).toEqual({ total: 1, new: 0, resolved: 0 });
+    });
+  });
+
+  describe('detector settings', () => {
+    beforeEach(async () => {
+      const { dispatchAlert } = await import('../../alerts/dispatcher.js');
+      const { notifyCxChannel } = await import('../../slack/notifications.js');
+      (dispatchAlert as any).mockResolvedValue(undefined);
+      (notifyCxChannel as any).mockResolvedValue(undefined);
+    });
+
+    it('should skip detectors the org has disabled', async () => {
+      const { webhookGapDetector } = await import('../../detection/detectors/webhook-gap.js');
+      const { duplicateBillingDetector } = await import('../../detection/detectors/duplicate-billing.js');
+      mockGetDetectorSettings.mockResolvedValue({ duplicate_billing: { enabled: false } });
+
+      await engine.checkForIssues(orgId, userId, createTestCanonicalEvent(orgId) as CanonicalEvent);
+
+      expect(mockGetDetectorSettings).toHaveBeenCalledWith(mockDb, orgId);
+      expect(webhookGapDetector.checkEvent).toHaveBeenCalled();
+      expect(duplicateBillingDetector.checkEvent).not.toHaveBeenCalled();
+      expect(await engine.runSingleDetectorScan(orgId, 'duplicate_billing')).toBeNull();
+    });
+
+    it('should pass the org\'s thresholds and override the severity', async () => {
+      const { dataFreshnessDetector } = await import('../../detection/detectors/data-freshness.js');
+      (dataFreshnessDetector.scheduledScan as any).mockResolvedValue([{
+        issueType: 'data_freshness',
+        severity: 'critical',
+        title: '40% of stripe subscriptions have stale data',
+        description: 'Test',
+        confidence: 0.9,
+        evidence: { source: 'stripe' },
+      }]);
+      mockGetDetectorSettings.mockResolvedValue({
+        data_freshness: { severity: 'info', thresholds: { staleDays: 60 } },
+      });
+
+      const result = await engine.runSingleDetectorScan(orgId, 'data_freshness');
+
+      expect(dataFreshnessDetector.scheduledScan).toHaveBeenCalledWith(mockDb, orgId, { staleDays: 60 });
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        issueType: 'data_freshness',
+        severity: 'info',
+      }));
+      expect(result).toEqual({ total: 1, new: 1, resolved: 0 });
+    });
+
+    it('should leave the issues of a disabled detector open', async () => {
+      const { refundStillActiveDetector } = await import('../../detection/detectors/refund-still-active.js');
+      (refundStillActiveDetector.isResolved as any).mockResolvedValue(true);
+      mockGetDetectorSettings.mockResolvedValue({ unrevoked_refund: { enabled: false } });
+      mockDb._configureOpenIssues([
+        createTestIssue(orgId, { issueType: 'unrevoked_refund', detectorId: 'unrevoked_refund' }),
+      ]);
+
+      expect(await engine.autoResolveIssues(orgId)).toBe(0);
+      expect(refundStillActiveDetector.isResolved).not.toHaveBeenCalled();
+    });
+
+    it('should run every detector with its defaults when settings fail to load', async () => {
+      const { duplicateBillingDetector } = await import('../../detection/detectors/duplicate-billing.js');
+      mockGetDetectorSettings.mockRejectedValue(new Error('db down'));
+      const event = createTestCanonicalEvent(orgId) as CanonicalEvent;
+
+      await engine.checkForIssues(orgId, userId, event);
+
+      expect(duplicateBillingDetector.checkEvent).toHaveBeenCalledWith(mockDb, orgId, userId, event);
+    });
+  });
+
+  describe('autoResolveIssues', () => {
+    it('should resolve issues whose condition has cleared', async () => {
+      const { refundStillActiveDetector } = await import('../../detection/detectors/refund-still-active.js');
+      const { dispatchWebhookEvent } = await import('../../alerts/webhook-events.js');
+      const { systemAuditLog } = await import('../../security/audit.js');
+      const { resolveIncidents } = await import('../../alerts/incident-sync.js');
+      (dispatchWebhookEvent as any).mockResolvedValue(undefined);
+      (resolveIncidents as any).mockResolvedValue(undefined);
+      (refundStillActiveDetector.isResolved as any).mockResolvedValueOnce(true);
+
+      const issue = createTestIssue(orgId, {
+        id: 'issue-refund',
+        userId,
+        issueType: 'unrevoked_refund',
+        detectorId: 'unrevoked_refund',
+      });
+      mockDb._configureOpenIssues([issue]);
+
+      const resolved = await engine.autoResolveIssues(orgId);
+
+      expect(resolved).toBe(1);
+      expect(refundStillActiveDetector.isResolved).toHaveBeenCalledWith(mockDb, orgId, issue);
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'resolved',
+        resolvedBy: 'system',
+        snoozedUntil: null,
+      }));
+      expect(dispatchWebhookEvent).toHaveBeenCalledWith(mockDb, orgId, 'issue-refund', 'issue.resolved');
+      expect(resolveIncidents).toHaveBeenCalledWith(mockDb, orgId, 'issue-refund');
+      expect(systemAuditLog).toHaveBeenCalledWith(
+        mockDb, orgId, 'issue.auto_resolved', 'issue', 'issue-refund', expect.any(Object),
+      );
+    });
+
+    it('should leave an issue someone closed since it was loaded', async () => {
+      const { refundStillActiveDetector } = await import('../../detection/detectors/refund-still-active.js');
+      const { dispatchWebhookEvent } = await import('../../alerts/webhook-events.js');
+      (refundStillActiveDetector.isResolved as any).mockResolvedValueOnce(true);
+      mockDb._configureOpenIssues([createTestIssue(orgId, { detectorId: 'unrevoked_refund' })]);
+      mockDb._configureInsertResult([]);
+
+      const resolved = await engine.autoResolveIssues(orgId);
+
+      expect(resolved).toBe(0);
+      expect(dispatchWebhookEvent).not.toHaveBeenCalled();
+    });
+
+    it('should leave issues open when the condition persists', async () => {
+      const { refundStillActiveDetector } = await import('../../detection/detectors/refund-still-active.js');
+      (refundStillActiveDetector.isResolved as any).mockResolvedValueOnce(false);
+
+      mockDb._configureOpenIssues([
+        createTestIssue(orgId, { detectorId: 'unrevoked_refund' }),
+      ]);
+
+      const resolved = await engine.autoResolveIssues(orgId);
+
+      expect(resolved).toBe(0);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip issues from detectors without isResolved', async () => {
+      mockDb._configureOpenIssues([
+        createTestIssue(orgId, { detectorId: 'renewal_anomaly' }),
+        createTestIssue(orgId, { detectorId: 'payment_without_entitlement' }),
+      ]);
+
+      const resolved = await engine.autoResolveIssues(orgId);
+
+      expect(resolved).toBe(0);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when a resolution check throws', async () => {
+      const { refundStillActiveDetector } = await import('../../detection/detectors/refund-still-active.js');
+      (refundStillActiveDetector.isResolved as any)
+        .mockRejectedValueOnce(new Error('db down'))
+        .mockResolvedValueOnce(true);
+
+      mockDb._configureOpenIssues([
+        createTestIssue(orgId, { detectorId: 'unrevoked_refund' }),
+        createTestIssue(orgId, { detectorId: 'unrevoked_refund' }),
+      ]);
+
+      const resolved = await engine.autoResolveIssues(orgId);
+
+      expect(resolved).toBe(1);
+    });
+
+    it('should report resolved count from scheduled scans', async () => {
+      mockDb._configureOpenIssues([]);
+
+      const result = await engine.runScheduledScans(orgId);
+
+      expect(result.resolved).toBe(0);
+    });
   });
 });
 
@@ -238,6 +810,8 @@ function createEngineMockDb() {
     returning: vi.fn().mockImplementation(() => Promise.resolve(insertResult)),
     orderBy: vi.fn().mockReturnThis(),
     catch: vi.fn().mockReturnThis(),
+    // Queries awaited without .limit() (e.g. loading open issues) resolve empty
+    then: vi.fn().mockImplementation((resolve: any) => resolve([])),
 
     _configureSelectResult(data: any[]) {
       selectResult = data;
@@ -245,6 +819,10 @@ function createEngineMockDb() {
     _configureInsertResult(data: any[]) {
       insertResult = data;
     },
+    /** The open issues the next auto-resolution loads */
+    _configureOpenIssues(data: any[]) {
+      chainable.then.mockImplementationOnce((resolve: any) => resolve(data));
+    },
   };
 
   return chainable;
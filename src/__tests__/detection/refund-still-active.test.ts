@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { refundStillActiveDetector } from '../../detection/detectors/refund-still-active.js';
-import { createTestCanonicalEvent, createTestEntitlement, resetUuidCounter } from '../helpers.js';
+import { createTestCanonicalEvent, createTestEntitlement, createTestIssue, resetUuidCounter } from '../helpers.js';
 import type { CanonicalEvent } from '../../models/types.js';
 
 describe('RefundStillActiveDetector', () => {
@@ -249,6 +249,45 @@ describe('RefundStillActiveDetector', () => {
       expect(refundStillActiveDetector.scheduledScan).toBeDefined();
     });
   });
+
+  describe('isResolved', () => {
+    const issue = createTestIssue(orgId, {
+      userId,
+      issueType: 'unrevoked_refund',
+      detectorId: 'unrevoked_refund',
+      evidence: { entitlementId: 'ent_rsa_001', entitlementState: 'active' },
+    });
+
+    it('should resolve once the entitlement is refunded', async () => {
+      mockDb._configureSelectResult([
+        createTestEntitlement(orgId, userId, productId, { id: 'ent_rsa_001', state: 'refunded' }),
+      ]);
+
+      expect(await refundStillActiveDetector.isResolved!(mockDb, orgId, issue)).toBe(true);
+    });
+
+    it('should resolve once the entitlement is revoked', async () => {
+      mockDb._configureSelectResult([
+        createTestEntitlement(orgId, userId, productId, { id: 'ent_rsa_001', state: 'revoked' }),
+      ]);
+
+      expect(await refundStillActiveDetector.isResolved!(mockDb, orgId, issue)).toBe(true);
+    });
+
+    it('should stay open while the entitlement is still active', async () => {
+      mockDb._configureSelectResult([
+        createTestEntitlement(orgId, userId, productId, { id: 'ent_rsa_001', state: 'active' }),
+      ]);
+
+      expect(await refundStillActiveDetector.isResolved!(mockDb, orgId, issue)).toBe(false);
+    });
+
+    it('should stay open when evidence has no entitlement', async () => {
+      const bare = createTestIssue(orgId, { detectorId: 'unrevoked_refund', evidence: {} });
+
+      expect(await refundStillActiveDetector.isResolved!(mockDb, orgId, bare)).toBe(false);
+    });
+  });
 });
 
 function createDetectorMockDb() {
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { webhookGapDetector } from '../../detection/detectors/webhook-gap.js';
+import { duplicateBillingDetector } from '../../detection/detectors/duplicate-billing.js';
+import { refundStillActiveDetector } from '../../detection/detectors/refund-still-active.js';
+import { crossPlatformConflictDetector } from '../../detection/detectors/cross-platform-conflict.js';
+import { renewalAnomalyDetector } from '../../detection/detectors/renewal-anomaly.js';
+import { dataFreshnessDetector } from '../../detection/detectors/data-freshness.js';
+import {
+  createTestBillingConnection,
+  createTestCanonicalEvent,
+  createTestEntitlement,
+  resetUuidCounter,
+} from '../helpers.js';
+import type { BillingSource, CanonicalEvent } from '../../models/types.js';
+
+/**
+ * Tier 1 detectors run on billing data alone, so they must behave the same
+ * for every web billing source. Each scenario runs for Stripe and Recurly.
+ */
+describe.each([
+  { source: 'stripe' as BillingSource, gapHours: { warning: 4, critical: 12 } },
+  { source: 'recurly' as BillingSource, gapHours: { warning: 6, critical: 24 } },
+])('Tier 1 detectors on $source data', ({ source, gapHours }) => {
+  const orgId = `org_tier1_${source}`;
+  const userId = `user_tier1_${source}`;
+  const productId = 'product_tier1';
+  const hoursAgo = (h: number) => new Date(Date.now() - h * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    resetUuidCounter();
+  });
+
+  describe('webhook_delivery_gap', () => {
+    function scan(lastWebhookAt: Date) {
+      const conn = createTestBillingConnection(orgId, { source, isActive: true, lastWebhookAt });
+      return webhookGapDetector.scheduledScan!(createQueuedMockDb([conn]), orgId);
+    }
+
+    it('should flag a critical gap past the critical threshold', async () => {
+      const issues = await scan(hoursAgo(gapHours.critical + 1));
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('critical');
+      expect(issues[0].evidence.source).toBe(source);
+    });
+
+    it('should flag a warning past the warning threshold', async () => {
+      const issues = await scan(hoursAgo(gapHours.warning + 1));
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('warning');
+    });
+
+    it('should not flag deliveries inside the normal window', async () => {
+      expect(await scan(hoursAgo(gapHours.warning - 1))).toHaveLength(0);
+    });
+  });
+
+  describe('duplicate_billing', () => {
+    it('should flag an active subscription alongside an Apple one for the same product', async () => {
+      const db = createQueuedMockDb([
+        createTestEntitlement(orgId, userId, productId, { source, state: 'active' }),
+        createTestEntitlement(orgId, userId, productId, { source: 'apple', state: 'active' }),
+      ]);
+      const event = createTestCanonicalEvent(orgId, { userId, productId, source }) as CanonicalEvent;
+
+      const issues = await duplicateBillingDetector.checkEvent(db, orgId, userId, event);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('critical');
+      expect(issues[0].title).toContain(source);
+    });
+
+    it('should not flag a single subscription', async () => {
+      const db = createQueuedMockDb([
+        createTestEntitlement(orgId, userId, productId, { source, state: 'active' }),
+      ]);
+      const event = createTestCanonicalEvent(orgId, { userId, productId, source }) as CanonicalEvent;
+
+      expect(await duplicateBillingDetector.checkEvent(db, orgId, userId, event)).toHaveLength(0);
+    });
+  });
+
+  describe('unrevoked_refund', () => {
+    it('should flag a refund whose entitlement is still active', async () => {
+      const db = createQueuedMockDb([
+        createTestEntitlement(orgId, userId, productId, { source, state: 'active' }),
+      ]);
+      const event = createTestCanonicalEvent(orgId, {
+        userId,
+        productId,
+        source,
+        eventType: 'refund',
+        status: 'refunded',
+        amountCents: 1999,
+      }) as CanonicalEvent;
+
+      const issues = await refundStillActiveDetector.checkEvent(db, orgId, userId, event);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].estimatedRevenueCents).toBe(1999);
+    });
+
+    it('should not flag a refund once the entitlement is refunded', async () => {
+      const db = createQueuedMockDb([
+        createTestEntitlement(orgId, userId, productId, { source, state: 'refunded' }),
+      ]);
+      const event = createTestCanonicalEvent(orgId, {
+        userId,
+        productId,
+        source,
+        eventType: 'refund',
+        status: 'refunded',
+      }) as CanonicalEvent;
+
+      expect(await refundStillActiveDetector.checkEvent(db, orgId, userId, event)).toHaveLength(0);
+    });
+  });
+
+  describe('cross_platform_conflict', () => {
+    it('should flag an active subscription when Apple says expired', async () => {
+      const db = createQueuedMockDb([
+        createTestEntitlement(orgId, userId, productId, { source, state: 'active' }),
+        createTestEntitlement(orgId, userId, productId, { source: 'apple', state: 'expired' }),
+      ]);
+      const event = createTestCanonicalEvent(orgId, { userId, productId, source }) as CanonicalEvent;
+
+      const issues = await crossPlatformConflictDetector.checkEvent(db, orgId, userId, event);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].title).toBe(`${source} says active, apple says expired`);
+    });
+  });
+
+  describe('renewal_anomaly', () => {
+    it('should flag renewals collapsing against the 30-day baseline', async () => {
+      // 1200 renewals in 30 days = 10 per 6h window; none in the last 6h
+      const db = createQueuedMockDb(
+        [createTestBillingConnection(orgId, { source, isActive: true })],
+        [{ count: 0 }],
+        [{ count: 1200 }],
+      );
+
+      const issues = await renewalAnomalyDetector.scheduledScan!(db, orgId);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('critical');
+      expect(issues[0].evidence.source).toBe(source);
+    });
+
+    it('should not flag renewals at the normal rate', async () => {
+      const db = createQueuedMockDb(
+        [createTestBillingConnection(orgId, { source, isActive: true })],
+        [{ count: 10 }],
+        [{ count: 1200 }],
+      );
+
+      expect(await renewalAnomalyDetector.scheduledScan!(db, orgId)).toHaveLength(0);
+    });
+
+    it('should use the org\'s drop thresholds', async () => {
+      // 6 renewals against 10 expected is a 40% drop
+      const db = createQueuedMockDb(
+        [createTestBillingConnection(orgId, { source, isActive: true })],
+        [{ count: 6 }],
+        [{ count: 1200 }],
+      );
+
+      expect(await renewalAnomalyDetector.scheduledScan!(db, orgId, { warningDropPercent: 50 })).toHaveLength(0);
+    });
+  });
+
+  describe('data_freshness', () => {
+    it('should flag when a quarter of active subscriptions have gone stale', async () => {
+      const db = createQueuedMockDb(
+        [createTestBillingConnection(orgId, { source, isActive: true })],
+        [{ count: 40 }],
+        [{ count: 12 }],
+      );
+
+      const issues = await dataFreshnessDetector.scheduledScan!(db, orgId);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('critical');
+      expect(issues[0].evidence).toMatchObject({ source, staleCount: 12, totalActive: 40 });
+    });
+
+    it('should use the org\'s stale window and percentages', async () => {
+      const db = createQueuedMockDb(
+        [createTestBillingConnection(orgId, { source, isActive: true })],
+        [{ count: 40 }],
+        [{ count: 12 }],
+      );
+
+      const issues = await dataFreshnessDetector.scheduledScan!(db, orgId, { staleDays: 60, criticalPercent: 50 });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('warning');
+      expect(issues[0].evidence.thresholdDays).toBe(60);
+    });
+  });
+});
+
+/**
+ * Mock DB whose queries resolve to the queued results in order, whether
+ * awaited straight after where() or after limit().
+ */
+function createQueuedMockDb(...results: any[][]): any {
+  return {
+    select: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockImplementation(() => {
+      const result = Promise.resolve(results.shift() ?? []);
+      return Object.assign(result, { limit: () => result });
+    }),
+  };
+}
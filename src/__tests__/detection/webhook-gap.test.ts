@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { webhookGapDetector } from '../../detection/detectors/webhook-gap.js';
-import { createTestBillingConnection, createTestCanonicalEvent, resetUuidCounter } from '../helpers.js';
+import { createTestBillingConnection, createTestCanonicalEvent, createTestIssue, resetUuidCounter } from '../helpers.js';
 import type { CanonicalEvent } from '../../models/types.js';
 
 describe('WebhookGapDetector', () => {
@@ -94,6 +94,26 @@ describe('WebhookGapDetector', () => {
       expect(issues).toHaveLength(0);
     });
 
+    it('should use the org\'s thresholds for every source', async () => {
+      const conn = createTestBillingConnection(orgId, {
+        source: 'apple',
+        isActive: true,
+        lastWebhookAt: new Date(Date.now() - 3 * 60 * 60 * 1000),
+      });
+
+      const mockDb: any = {
+        select: vi.fn().mockReturnThis(),
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockImplementation(() => Promise.resolve([conn])),
+      };
+
+      const issues = await webhookGapDetector.scheduledScan!(mockDb, orgId, { warningHours: 1, criticalHours: 2 });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('critical');
+      expect(issues[0].evidence.threshold).toBe(2);
+    });
+
     it('should use different thresholds for Apple (12h warning, 48h critical)', async () => {
       const fifteenHoursAgo = new Date(Date.now() - 15 * 60 * 60 * 1000);
 
@@ -242,4 +262,63 @@ describe('WebhookGapDetector', () => {
       expect(issues).toHaveLength(0);
     });
   });
+
+  describe('isResolved', () => {
+    function connectionDb(rows: any[]) {
+      return {
+        select: vi.fn().mockReturnThis(),
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockImplementation(() => Promise.resolve(rows)),
+      } as any;
+    }
+
+    const issue = createTestIssue(orgId, {
+      issueType: 'webhook_delivery_gap',
+      detectorId: 'webhook_delivery_gap',
+      evidence: { source: 'stripe', connectionId: 'wg-conn-1' },
+    });
+
+    it('should resolve once webhooks resume', async () => {
+      const conn = createTestBillingConnection(orgId, {
+        id: 'wg-conn-1',
+        source: 'stripe',
+        lastWebhookAt: new Date(Date.now() - 10 * 60 * 1000),
+      });
+
+      expect(await webhookGapDetector.isResolved!(connectionDb([conn]), orgId, issue)).toBe(true);
+    });
+
+    it('should stay open while the gap continues', async () => {
+      const conn = createTestBillingConnection(orgId, {
+        id: 'wg-conn-1',
+        source: 'stripe',
+        lastWebhookAt: new Date(Date.now() - 13 * 60 * 60 * 1000),
+      });
+
+      expect(await webhookGapDetector.isResolved!(connectionDb([conn]), orgId, issue)).toBe(false);
+    });
+
+    it('should stay open until webhooks are within the org\'s warning threshold', async () => {
+      const conn = createTestBillingConnection(orgId, {
+        id: 'wg-conn-1',
+        source: 'stripe',
+        lastWebhookAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      });
+
+      expect(await webhookGapDetector.isResolved!(connectionDb([conn]), orgId, issue, { warningHours: 1 })).toBe(false);
+    });
+
+    it('should stay open when no webhook has ever arrived', async () => {
+      const conn = createTestBillingConnection(orgId, { id: 'wg-conn-1', lastWebhookAt: null });
+
+      expect(await webhookGapDetector.isResolved!(connectionDb([conn]), orgId, issue)).toBe(false);
+    });
+
+    it('should resolve when the connection was deactivated', async () => {
+      const conn = createTestBillingConnection(orgId, { id: 'wg-conn-1', isActive: false });
+
+      expect(await webhookGapDetector.isResolved!(connectionDb([conn]), orgId, issue)).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createTestBillingConnection,
+  createTestEntitlement,
+  resetUuidCounter,
+} from '../helpers.js';
+
+const { mockLookup, mockConnect, mockReportIssues, mockAutoResolve, mockGetOrgSettings, mockAudit } = vi.hoisted(() => ({
+  mockLookup: vi.fn(),
+  mockConnect: vi.fn(),
+  mockReportIssues: vi.fn(),
+  mockAutoResolve: vi.fn(),
+  mockGetOrgSettings: vi.fn(),
+  mockAudit: vi.fn(),
+}));
+
+vi.mock('../../entitlement/reconciliation/stripe-subscriptions.js', () => ({
+  stripeSubscriptions: { connect: mockConnect },
+}));
+vi.mock('../../entitlement/reconciliation/recurly-subscriptions.js', () => ({
+  recurlySubscriptions: { connect: mockConnect },
+}));
+vi.mock('../../entitlement/reconciliation/google-subscriptions.js', () => ({
+  googleSubscriptions: { connect: mockConnect },
+}));
+vi.mock('../../entitlement/reconciliation/apple-subscriptions.js', () => ({
+  appleSubscriptions: { connect: mockConnect },
+}));
+
+vi.mock('../../detection/engine.js', () => ({
+  IssueDetectionEngine: class {
+    reportIssues = mockReportIssues;
+    autoResolveIssues = mockAutoResolve;
+  },
+}));
+
+vi.mock('../../config/org-settings.js', () => ({
+  getOrgSettings: mockGetOrgSettings,
+}));
+
+vi.mock('../../security/audit.js', () => ({
+  systemAuditLog: mockAudit,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { SubscriptionReconciler, canReconcile } from '../../entitlement/reconciliation/reconciler.js';
+import { stateDriftDetector } from '../../detection/detectors/state-drift.js';
+
+describe('SubscriptionReconciler', () => {
+  const orgId = 'org_reconcile_test';
+  let mockDb: any;
+  let reconciler: SubscriptionReconciler;
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createReconcilerMockDb();
+    reconciler = new SubscriptionReconciler(mockDb);
+    mockConnect.mockResolvedValue(mockLookup);
+    mockReportIssues.mockResolvedValue(0);
+    mockAutoResolve.mockResolvedValue(0);
+    mockGetOrgSettings.mockResolvedValue({ reconciliation: { enabled: true } });
+  });
+
+  function withEntitlements(...ents: any[]) {
+    mockDb._queueLimited([createTestBillingConnection(orgId)], ents);
+  }
+
+  it('should support every billing source with a subscription API', () => {
+    expect(['stripe', 'recurly', 'google', 'apple'].every(s => canReconcile(s as any))).toBe(true);
+  });
+
+  it('should report a paying customer marked expired as critical drift', async () => {
+    const ent = createTestEntitlement(orgId, 'user-1', 'prod-1', { state: 'expired' });
+    withEntitlements(ent);
+    mockLookup.mockResolvedValue({
+      state: 'active',
+      status: 'active',
+      currentPeriodEnd: new Date('2025-03-01T00:00:00Z'),
+    });
+
+    const outcome = await reconciler.reconcile(orgId, 'stripe');
+
+    expect(outcome).toMatchObject({ status: 'completed', mode: 'sample', checked: 1, drifted: 1, corrected: 0 });
+    const [, detectorId, detected] = mockReportIssues.mock.calls[0];
+    expect(detectorId).toBe('state_drift');
+    expect(detected).toHaveLength(1);
+    expect(detected[0]).toMatchObject({
+      issueType: 'state_drift',
+      severity: 'critical',
+      userId: 'user-1',
+      title: 'stripe says active, entitlement is expired',
+      evidence: {
+        entitlementId: ent.id,
+        externalSubscriptionId: 'sub_test123',
+        provider: { state: 'active', status: 'active', currentPeriodEnd: '2025-03-01T00:00:00.000Z' },
+        entitlement: { state: 'expired', currentPeriodEnd: '2025-02-01T00:00:00.000Z' },
+        autoCorrected: false,
+      },
+    });
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it('should not report states that agree on access', async () => {
+    withEntitlements(createTestEntitlement(orgId, 'user-1', 'prod-1', { state: 'grace_period' }));
+    mockLookup.mockResolvedValue({ state: 'billing_retry', status: 'past_due', currentPeriodEnd: null });
+
+    const outcome = await reconciler.reconcile(orgId, 'stripe');
+
+    expect(outcome).toMatchObject({ checked: 1, drifted: 0 });
+    expect(mockReportIssues).toHaveBeenCalledWith(orgId, 'state_drift', []);
+  });
+
+  it('should correct the entitlement and auto-resolve when autoCorrect is on', async () => {
+    mockGetOrgSettings.mockResolvedValue({ reconciliation: { enabled: true, autoCorrect: true } });
+    const ent = createTestEntitlement(orgId, 'user-1', 'prod-1', { state: 'active' });
+    withEntitlements(ent);
+    mockDb._queueReturning([{ id: ent.id }]);
+    mockLookup.mockResolvedValue({ state: 'expired', status: 'canceled', currentPeriodEnd: null });
+
+    const outcome = await reconciler.reconcile(orgId, 'stripe');
+
+    expect(outcome).toMatchObject({ drifted: 1, corrected: 1 });
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+      state: 'expired',
+      stateHistory: [expect.objectContaining({ from: 'active', to: 'expired', eventType: 'reconciliation', eventId: null })],
+    }));
+    expect(mockAudit).toHaveBeenCalledWith(mockDb, orgId, 'entitlement.reconciled', 'entitlement', ent.id, expect.objectContaining({
+      from: 'active',
+      to: 'expired',
+    }));
+    expect(mockReportIssues.mock.calls[0][2][0]).toMatchObject({
+      severity: 'warning',
+      evidence: { autoCorrected: true },
+    });
+    expect(mockAutoResolve).toHaveBeenCalledWith(orgId, { detectorId: 'state_drift' });
+  });
+
+  it('should not count a correction that lost the race with an event', async () => {
+    mockGetOrgSettings.mockResolvedValue({ reconciliation: { enabled: true, autoCorrect: true } });
+    withEntitlements(createTestEntitlement(orgId, 'user-1', 'prod-1', { state: 'active' }));
+    mockLookup.mockResolvedValue({ state: 'expired', status: 'canceled', currentPeriodEnd: null });
+
+    const outcome = await reconciler.reconcile(orgId, 'stripe');
+
+    expect(outcome).toMatchObject({ drifted: 1, corrected: 0 });
+    expect(mockAudit).not.toHaveBeenCalled();
+    expect(mockAutoResolve).not.toHaveBeenCalled();
+  });
+
+  it('should count unknown subscriptions and lookup failures separately', async () => {
+    withEntitlements(
+      createTestEntitlement(orgId, 'user-1', 'prod-1', { externalSubscriptionId: 'sub_gone' }),
+      createTestEntitlement(orgId, 'user-2', 'prod-1', { externalSubscriptionId: 'sub_broken' }),
+    );
+    mockLookup
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error('rate limited'));
+
+    const outcome = await reconciler.reconcile(orgId, 'stripe');
+
+    expect(outcome).toMatchObject({ checked: 2, notFound: 1, failed: 1, drifted: 0 });
+    expect(outcome!.errors).toEqual(['sub_broken: rate limited']);
+  });
+
+  it('should skip orgs that have not enabled reconciliation', async () => {
+    mockGetOrgSettings.mockResolvedValue({});
+    mockDb._queueLimited([createTestBillingConnection(orgId)]);
+
+    const outcome = await reconciler.reconcile(orgId, 'stripe');
+
+    expect(outcome).toMatchObject({ status: 'skipped', reason: 'not_enabled' });
+    expect(mockConnect).not.toHaveBeenCalled();
+  });
+
+  it('should skip connections without API access', async () => {
+    mockConnect.mockResolvedValue(null);
+    mockDb._queueLimited([createTestBillingConnection(orgId, { source: 'apple', credentials: null })]);
+
+    const outcome = await reconciler.reconcile(orgId, 'apple');
+
+    expect(outcome).toMatchObject({ status: 'skipped', reason: 'no_api_access' });
+    expect(mockReportIssues).not.toHaveBeenCalled();
+  });
+
+  it('should return null without an active connection', async () => {
+    expect(await reconciler.reconcile(orgId, 'stripe')).toBeNull();
+  });
+});
+
+describe('stateDriftDetector.isResolved', () => {
+  const orgId = 'org_reconcile_test';
+  const issue = {
+    evidence: { entitlementId: 'ent-1', provider: { state: 'active' } },
+  } as any;
+
+  it('should resolve once the entitlement grants access like the provider', async () => {
+    const db = createReconcilerMockDb();
+    db._queueLimited([{ state: 'trial' }]);
+
+    expect(await stateDriftDetector.isResolved!(db, orgId, issue)).toBe(true);
+  });
+
+  it('should stay open while the entitlement still disagrees', async () => {
+    const db = createReconcilerMockDb();
+    db._queueLimited([{ state: 'expired' }]);
+
+    expect(await stateDriftDetector.isResolved!(db, orgId, issue)).toBe(false);
+  });
+
+  it('should resolve when the entitlement is gone', async () => {
+    expect(await stateDriftDetector.isResolved!(createReconcilerMockDb(), orgId, issue)).toBe(true);
+  });
+});
+
+/**
+ * Mock DB for the reconciler. Queries ending in limit() take results from
+ * the limited queue; updates ending in returning() from the returning
+ * queue. Both fall back to an empty array.
+ */
+function createReconcilerMockDb() {
+  let limited: any[][] = [];
+  let returned: any[][] = [];
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve(limited.shift() ?? [])),
+    returning: vi.fn().mockImplementation(() => Promise.resolve(returned.shift() ?? [])),
+
+    _queueLimited(...results: any[][]) {
+      limited = results;
+    },
+    _queueReturning(...results: any[][]) {
+      returned = results;
+    },
+  };
+
+  return chainable;
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EntitlementReplayer } from '../../entitlement/replay.js';
+import { createTestCanonicalEvent, createTestEntitlement, resetUuidCounter } from '../helpers.js';
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('EntitlementReplayer', () => {
+  const orgId = 'org_replay_test';
+  const userId = 'user_replay_001';
+  const productId = 'product_replay_001';
+  let mockDb: any;
+  let replayer: EntitlementReplayer;
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createReplayMockDb();
+    replayer = new EntitlementReplayer(mockDb);
+  });
+
+  function event(eventType: string, eventTime: string, overrides?: Partial<any>) {
+    return createTestCanonicalEvent(orgId, {
+      userId,
+      productId,
+      eventType,
+      eventTime: new Date(eventTime),
+      ...overrides,
+    });
+  }
+
+  it('should report a changed entitlement without writing in dry-run mode', async () => {
+    mockDb._configure({
+      events: [
+        event('purchase', '2025-01-01T00:00:00Z', { id: 'evt_buy' }),
+        event('refund', '2025-01-10T00:00:00Z', { id: 'evt_refund' }),
+      ],
+      entitlements: [
+        createTestEntitlement(orgId, userId, productId, {
+          id: 'ent_001',
+          state: 'active',
+          currentPeriodStart: null,
+          currentPeriodEnd: null,
+          lastEventId: 'evt_buy',
+          stateHistory: [{ from: 'inactive', to: 'active' }],
+        }),
+      ],
+    });
+
+    const result = await replayer.run({ orgId, userId }, true);
+
+    expect(result.dryRun).toBe(true);
+    expect(result.entitlementsScanned).toBe(1);
+    expect(result.entitlementsChanged).toBe(1);
+    expect(result.eventsReplayed).toBe(2);
+    expect(result.changes[0]).toMatchObject({
+      entitlementId: 'ent_001',
+      before: { state: 'active', lastEventId: 'evt_buy', transitions: 1 },
+      after: { state: 'refunded', lastEventId: 'evt_refund', transitions: 2 },
+      changedFields: ['state', 'lastEventId', 'transitions'],
+    });
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it('should upsert changed entitlements when not a dry run', async () => {
+    mockDb._configure({
+      events: [event('purchase', '2025-01-01T00:00:00Z', { id: 'evt_buy' })],
+      entitlements: [],
+    });
+
+    const result = await replayer.run({ orgId, userId }, false);
+
+    expect(result.entitlementsChanged).toBe(1);
+    expect(result.changes[0].entitlementId).toBeNull();
+    expect(result.changes[0].before).toBeNull();
+    expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+      orgId,
+      userId,
+      productId,
+      source: 'stripe',
+      state: 'active',
+      lastEventId: 'evt_buy',
+    }));
+    expect(mockDb.onConflictDoUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      set: expect.objectContaining({ state: 'active' }),
+    }));
+  });
+
+  it('should leave entitlements that already match untouched', async () => {
+    mockDb._configure({
+      events: [event('purchase', '2025-01-01T00:00:00Z', { id: 'evt_buy' })],
+      entitlements: [
+        createTestEntitlement(orgId, userId, productId, {
+          state: 'active',
+          currentPeriodStart: null,
+          currentPeriodEnd: null,
+          lastEventId: 'evt_buy',
+          stateHistory: [{ from: 'inactive', to: 'active' }],
+        }),
+      ],
+    });
+
+    const result = await replayer.run({ orgId, userId }, false);
+
+    expect(result.entitlementsScanned).toBe(1);
+    expect(result.entitlementsChanged).toBe(0);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it('should replay each product and source separately', async () => {
+    mockDb._configure({
+      events: [
+        event('purchase', '2025-01-01T00:00:00Z'),
+        event('purchase', '2025-01-02T00:00:00Z', { source: 'apple' }),
+        event('expiration', '2025-01-03T00:00:00Z', { source: 'apple' }),
+      ],
+      entitlements: [],
+    });
+
+    const result = await replayer.run({ orgId, userId }, true);
+
+    expect(result.entitlementsScanned).toBe(2);
+    const bySource = Object.fromEntries(result.changes.map(c => [c.source, c.after.state]));
+    expect(bySource).toEqual({ stripe: 'active', apple: 'expired' });
+  });
+
+  it('should keep sandbox events out of production entitlements', async () => {
+    mockDb._configure({
+      events: [
+        event('purchase', '2025-01-01T00:00:00Z'),
+        event('refund', '2025-01-02T00:00:00Z', { environment: 'sandbox' }),
+      ],
+      entitlements: [],
+    });
+
+    const result = await replayer.run({ orgId, userId }, true);
+
+    expect(result.entitlementsScanned).toBe(2);
+    const byEnvironment = Object.fromEntries(result.changes.map(c => [c.environment, c.after.state]));
+    expect(byEnvironment).toEqual({ production: 'active', sandbox: 'inactive' });
+  });
+
+  it('should find users from events when no user is given', async () => {
+    mockDb._configure({
+      userIds: [{ userId }, { userId: 'user_replay_002' }],
+      events: [],
+      entitlements: [],
+    });
+
+    const result = await replayer.run({ orgId, source: 'apple' }, true);
+
+    expect(mockDb.selectDistinct).toHaveBeenCalled();
+    expect(result.usersScanned).toBe(2);
+  });
+
+  it('should record per-user errors and keep going', async () => {
+    mockDb._configure({
+      userIds: [{ userId }, { userId: 'user_replay_002' }],
+      events: [],
+      entitlements: [],
+    });
+    mockDb.orderBy
+      .mockImplementationOnce(() => Promise.reject(new Error('connection reset')))
+      .mockImplementationOnce(() => Promise.resolve([]));
+
+    const result = await replayer.run({ orgId }, true);
+
+    expect(result.usersScanned).toBe(1);
+    expect(result.errors).toEqual([`User ${userId}: connection reset`]);
+  });
+});
+
+function createReplayMockDb() {
+  let data: { userIds?: any[]; events: any[]; entitlements: any[] } = { events: [], entitlements: [] };
+  let distinct = false;
+
+  const chainable: any = {
+    select: vi.fn().mockImplementation(function (this: any) {
+      distinct = false;
+      return this;
+    }),
+    selectDistinct: vi.fn().mockImplementation(function (this: any) {
+      distinct = true;
+      return this;
+    }),
+    insert: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockImplementation(() => Promise.resolve(data.events)),
+    onConflictDoUpdate: vi.fn().mockResolvedValue([]),
+    // Awaiting select(...).where(...) directly: distinct user IDs or entitlements
+    then: vi.fn().mockImplementation((resolve: any) =>
+      resolve(distinct ? (data.userIds ?? []) : data.entitlements),
+    ),
+
+    _configure(next: typeof data) {
+      data = next;
+    },
+  };
+
+  return chainable;
+}
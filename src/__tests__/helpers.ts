@@ -6,6 +6,7 @@
 import { vi } from 'vitest';
 import type { BillingSource, EventType, EventStatus, EntitlementState, IssueSeverity } from '../models/types.js';
 import * as jose from 'jose';
+import { createHash, createHmac } from 'crypto';
 
 // ─── Mock Database ────────────────────────────────────────────────
 
@@ -141,8 +142,9 @@ export function createTestProduct(orgId: string, overrides?: Partial<any>) {
     id: mockUuid(),
     orgId,
     name: 'Premium Plan',
-    externalIds: { stripe: 'prod_test123', apple: 'com.app.premium' },
+    externalIds: { stripe: ['prod_test123'], apple: ['com.app.premium'] },
     isActive: true,
+    autoCreated: false,
     createdAt: new Date('2025-01-01T00:00:00Z'),
     updatedAt: new Date('2025-01-01T00:00:00Z'),
     ...overrides,
@@ -170,6 +172,7 @@ export function createTestEntitlement(
     billingInterval: null,
     planTier: null,
     lastEventId: null,
+    environment: 'production',
     stateHistory: [],
     metadata: {},
     createdAt: new Date('2025-01-01T00:00:00Z'),
@@ -231,6 +234,7 @@ export function createTestIssue(orgId: string, overrides?: Partial<any>) {
     estimatedRevenueCents: 1999,
     confidence: 0.95,
     detectorId: 'payment_without_entitlement',
+    environment: 'production',
     evidence: {},
     resolvedAt: null,
     resolvedBy: null,
@@ -629,6 +633,75 @@ export function createRawWebhookEvent(
   };
 }
 
+// ─── Braintree Webhook Fixtures ──────────────────────────────────
+
+/**
+ * Creates Braintree subscription XML as the gateway sends it
+ * (kebab-case elements, typed attributes).
+ */
+export function createBraintreeSubscriptionXml(overrides?: {
+  id?: string;
+  status?: string;
+  planId?: string;
+  price?: string;
+  trialPeriod?: boolean;
+  currentBillingCycle?: number;
+  transactionsXml?: string;
+}) {
+  const o = overrides || {};
+  return `<subscription>
+    <id>${o.id ?? 'bt_sub_abc123'}</id>
+    <plan-id>${o.planId ?? 'premium_monthly'}</plan-id>
+    <status>${o.status ?? 'Active'}</status>
+    <price>${o.price ?? '19.99'}</price>
+    <payment-method-token>pm_tok_001</payment-method-token>
+    <trial-period type="boolean">${o.trialPeriod ?? false}</trial-period>
+    <current-billing-cycle type="integer">${o.currentBillingCycle ?? 2}</current-billing-cycle>
+    <billing-period-start-date type="date">2025-01-15</billing-period-start-date>
+    <billing-period-end-date type="date">2025-02-14</billing-period-end-date>
+    <created-at type="datetime">2024-12-15T10:00:00Z</created-at>
+    <descriptor><name nil="true"/></descriptor>
+    <transactions type="array">${o.transactionsXml ?? createBraintreeTransactionXml()}</transactions>
+  </subscription>`;
+}
+
+/** Creates Braintree transaction XML with an embedded customer. */
+export function createBraintreeTransactionXml(overrides?: { id?: string; amount?: string; currency?: string }) {
+  const o = overrides || {};
+  return `<transaction>
+      <id>bt_txn_${o.id ?? '001'}</id>
+      <type>sale</type>
+      <status>settled</status>
+      <amount>${o.amount ?? '19.99'}</amount>
+      <currency-iso-code>${o.currency ?? 'USD'}</currency-iso-code>
+      <customer><id>bt_cust_123</id><email>user@test.com</email></customer>
+    </transaction>`;
+}
+
+/**
+ * Creates a form-encoded Braintree webhook body (bt_signature + bt_payload),
+ * signed with the given private key the way the gateway signs it.
+ */
+export function createBraintreeWebhookBody(
+  kind: string,
+  subjectXml: string,
+  options?: { privateKey?: string; publicKey?: string; timestamp?: string },
+) {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<notification>
+  <kind>${kind}</kind>
+  <timestamp type="datetime">${options?.timestamp ?? '2025-01-15T12:00:00Z'}</timestamp>
+  <subject>${subjectXml}</subject>
+</notification>`;
+  const payload = Buffer.from(xml).toString('base64');
+  const key = createHash('sha1').update(options?.privateKey ?? 'bt_private_key').digest();
+  const digest = createHmac('sha1', key).update(payload).digest('hex');
+  return new URLSearchParams({
+    bt_signature: `${options?.publicKey ?? 'bt_public_key'}|${digest}`,
+    bt_payload: payload,
+  }).toString();
+}
+
 // ─── Google Play Pub/Sub Fixtures ─────────────────────────────────
 
 /**
@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createTestUser, createTestEntitlement, createTestIssue, resetUuidCounter } from '../helpers.js';
+
+const { mockReplayRun } = vi.hoisted(() => ({
+  mockReplayRun: vi.fn(),
+}));
+
+vi.mock('../../entitlement/replay.js', () => ({
+  EntitlementReplayer: class {
+    run = mockReplayRun;
+  },
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { IdentityMergeService } from '../../identity/merge.js';
+import { appleConsumptionRequests, alertMutes, issues } from '../../models/schema.js';
+
+describe('IdentityMergeService', () => {
+  const orgId = 'org_merge_test';
+  let mockDb: any;
+  let service: IdentityMergeService;
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createMergeMockDb();
+    service = new IdentityMergeService(mockDb);
+    mockReplayRun.mockResolvedValue({ errors: [] });
+  });
+
+  describe('merge', () => {
+    const target = createTestUser(orgId, { id: 'user-target', email: null });
+    const source = createTestUser(orgId, { id: 'user-source', email: 'dup@test.com' });
+
+    it('should move entitlements the target does not already have', async () => {
+      const ent = createTestEntitlement(orgId, source.id, 'product-1', { id: 'ent-source' });
+      mockDb._queueAwaited([ent], []);
+      mockDb._queueReturning([{ id: 'ident-1' }], [{ id: 'evt-1' }, { id: 'evt-2' }]);
+
+      const result = await service.merge(orgId, target as any, source as any);
+
+      expect(result).toMatchObject({
+        targetUserId: target.id,
+        mergedUserId: source.id,
+        identitiesMoved: 1,
+        eventsMoved: 2,
+        entitlementsMoved: 1,
+        entitlementsRebuilt: 0,
+      });
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ userId: target.id }));
+      expect(mockReplayRun).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild the target entitlement when both users have one for the same key', async () => {
+      mockDb._queueAwaited(
+        [createTestEntitlement(orgId, source.id, 'product-1', { id: 'ent-source' })],
+        [createTestEntitlement(orgId, target.id, 'product-1', { id: 'ent-target' })],
+      );
+
+      const result = await service.merge(orgId, target as any, source as any);
+
+      expect(result.entitlementsMoved).toBe(0);
+      expect(result.entitlementsRebuilt).toBe(1);
+      expect(mockDb.delete).toHaveBeenCalled();
+      expect(mockReplayRun).toHaveBeenCalledWith({ orgId, userId: target.id }, false);
+    });
+
+    it('should move Apple consumption requests before deleting the merged user', async () => {
+      mockDb._queueAwaited([], []);
+
+      await service.merge(orgId, target as any, source as any);
+
+      const consumptionUpdate = mockDb.update.mock.calls.findIndex(([table]: any[]) => table === appleConsumptionRequests);
+      expect(consumptionUpdate).toBeGreaterThanOrEqual(0);
+      expect(mockDb.set.mock.calls[consumptionUpdate][0]).toMatchObject({ userId: target.id });
+      expect(mockDb.update.mock.invocationCallOrder[consumptionUpdate])
+        .toBeLessThan(mockDb.delete.mock.invocationCallOrder.at(-1));
+    });
+
+    it('should move the merged user\'s alert mutes to the target', async () => {
+      mockDb._queueAwaited([], []);
+
+      await service.merge(orgId, target as any, source as any);
+
+      const muteUpdate = mockDb.update.mock.calls.findIndex(([table]: any[]) => table === alertMutes);
+      expect(mockDb.set.mock.calls[muteUpdate][0]).toEqual({ userId: target.id });
+    });
+
+    it('should re-fingerprint moved issues and close ones the target already has open', async () => {
+      const refund = createTestIssue(orgId, {
+        id: 'issue-refund',
+        userId: source.id,
+        issueType: 'unrevoked_refund',
+        detectorId: 'unrevoked_refund',
+        evidence: { source: 'stripe' },
+        fingerprint: `unrevoked_refund:unrevoked_refund:stripe:${source.id}`,
+      });
+      const conflict = createTestIssue(orgId, {
+        id: 'issue-conflict',
+        userId: source.id,
+        issueType: 'cross_platform_conflict',
+        detectorId: 'cross_platform_conflict',
+        fingerprint: `cross_platform_conflict:cross_platform_conflict:-:${source.id}`,
+      });
+      // Entitlements, then the source's issues and the target's active fingerprints
+      mockDb._queueAwaited([], [], [refund, conflict], [
+        { fingerprint: `cross_platform_conflict:cross_platform_conflict:-:${target.id}` },
+      ]);
+
+      const result = await service.merge(orgId, target as any, source as any);
+
+      expect(result.issuesMoved).toBe(2);
+      const issueUpdates = mockDb.update.mock.calls
+        .map(([table]: any[], i: number) => (table === issues ? mockDb.set.mock.calls[i][0] : null))
+        .filter(Boolean);
+      expect(issueUpdates).toContainEqual(expect.objectContaining({
+        userId: target.id,
+        fingerprint: `unrevoked_refund:unrevoked_refund:stripe:${target.id}`,
+      }));
+      expect(issueUpdates).toContainEqual(expect.objectContaining({
+        userId: target.id,
+        fingerprint: `cross_platform_conflict:cross_platform_conflict:-:${target.id}`,
+        status: 'resolved',
+        resolvedBy: 'system',
+      }));
+      expect(issueUpdates.find((u: any) => u.fingerprint?.startsWith('unrevoked_refund'))).not.toHaveProperty('status');
+    });
+
+    it('should carry over profile fields the target is missing', async () => {
+      mockDb._queueAwaited([], []);
+
+      await service.merge(orgId, target as any, source as any);
+
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'dup@test.com',
+        externalUserId: target.externalUserId,
+      }));
+    });
+  });
+
+  describe('split', () => {
+    const user = createTestUser(orgId, { id: 'user-original' });
+    const appleIdentity = {
+      id: 'ident-apple',
+      userId: user.id,
+      source: 'apple',
+      idType: 'original_transaction_id',
+      externalId: 'txn_1',
+    };
+
+    it('should move a source\'s events when no identity on it stays behind', async () => {
+      mockDb._queueAwaited([{ source: 'stripe' }]);
+      mockDb._queueReturning([{ id: 'user-new' }], [{ id: 'evt-1' }]);
+
+      const result = await service.split(orgId, user as any, [appleIdentity as any]);
+
+      expect(result).toMatchObject({
+        userId: user.id,
+        newUserId: 'user-new',
+        identitiesMoved: 1,
+        eventsMoved: 1,
+        sourcesMoved: ['apple'],
+      });
+      expect(mockDb.delete).toHaveBeenCalled();
+      expect(mockReplayRun).toHaveBeenCalledWith({ orgId, userId: 'user-new' }, false);
+      expect(mockDb.update).toHaveBeenCalledWith(appleConsumptionRequests);
+    });
+
+    it('should move the issues about a moved source with fingerprints for the new user', async () => {
+      const refund = createTestIssue(orgId, {
+        id: 'issue-refund',
+        userId: user.id,
+        issueType: 'unrevoked_refund',
+        detectorId: 'unrevoked_refund',
+        evidence: { source: 'apple' },
+        fingerprint: `unrevoked_refund:unrevoked_refund:apple:${user.id}`,
+      });
+      // Kept identities, the identity move, the user's mutes, then the apple issues
+      mockDb._queueAwaited([{ source: 'stripe' }], [], [], [refund]);
+      mockDb._queueReturning([{ id: 'user-new' }], [{ id: 'evt-1' }]);
+
+      const result = await service.split(orgId, user as any, [appleIdentity as any]);
+
+      expect(result.issuesMoved).toBe(1);
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-new',
+        fingerprint: 'unrevoked_refund:unrevoked_refund:apple:user-new',
+      }));
+    });
+
+    it('should leave events alone when the user keeps an identity on the source', async () => {
+      mockDb._queueAwaited([{ source: 'apple' }]);
+      mockDb._queueReturning([{ id: 'user-new' }]);
+
+      const result = await service.split(orgId, user as any, [appleIdentity as any]);
+
+      expect(result.sourcesMoved).toEqual([]);
+      expect(result.eventsMoved).toBe(0);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+      expect(mockReplayRun).not.toHaveBeenCalled();
+      expect(mockDb.update).not.toHaveBeenCalledWith(appleConsumptionRequests);
+    });
+
+    it('should give the new user the original user\'s active alert mutes', async () => {
+      const mute = {
+        id: 'mute-1',
+        orgId,
+        issueType: null,
+        userId: user.id,
+        reason: 'Known test account',
+        mutedUntil: new Date(Date.now() + 60_000),
+        createdBy: 'key-1',
+        createdAt: new Date(),
+      };
+      // Kept identities, the identity move, then the user's mutes
+      mockDb._queueAwaited([{ source: 'apple' }], [], [mute]);
+      mockDb._queueReturning([{ id: 'user-new' }]);
+
+      await service.split(orgId, user as any, [appleIdentity as any]);
+
+      expect(mockDb.insert).toHaveBeenCalledWith(alertMutes);
+      expect(mockDb.values).toHaveBeenCalledWith([{
+        orgId,
+        issueType: null,
+        userId: 'user-new',
+        reason: 'Known test account',
+        mutedUntil: mute.mutedUntil,
+        createdBy: 'key-1',
+      }]);
+    });
+
+    it('should move a detached email off the original user', async () => {
+      const emailIdentity = {
+        id: 'ident-email',
+        userId: user.id,
+        source: 'stripe',
+        idType: 'email',
+        externalId: user.email,
+      };
+      mockDb._queueAwaited([{ source: 'stripe' }]);
+      mockDb._queueReturning([{ id: 'user-new' }]);
+
+      await service.split(orgId, user as any, [emailIdentity as any]);
+
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({ email: user.email }));
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ email: null }));
+    });
+  });
+});
+
+/**
+ * Mock DB for merge/split. The transaction callback gets the same chain.
+ * Chains awaited after where() take results from the awaited queue;
+ * chains ending in returning() take them from the returning queue.
+ * Both fall back to an empty array.
+ */
+function createMergeMockDb() {
+  let awaited: any[][] = [];
+  let returned: any[][] = [];
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    delete: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockImplementation(() => Promise.resolve(returned.shift() ?? [])),
+    then: (resolve: any) => resolve(awaited.shift() ?? []),
+    transaction: vi.fn().mockImplementation((fn: any) => fn(chainable)),
+
+    _queueAwaited(...results: any[][]) {
+      awaited = results;
+    },
+    _queueReturning(...results: any[][]) {
+      returned = results;
+    },
+  };
+
+  return chainable;
+}
@@ -2,6 +2,20 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { IdentityResolver } from '../../identity/resolver.js';
 import type { IdentityHint } from '../../models/types.js';
 
+const { mockMerge } = vi.hoisted(() => ({
+  mockMerge: vi.fn(),
+}));
+
+vi.mock('../../identity/merge.js', () => ({
+  IdentityMergeService: class {
+    merge = mockMerge;
+  },
+}));
+
+vi.mock('../../alerts/dispatcher.js', () => ({
+  dispatchAlert: () => Promise.resolve(),
+}));
+
 // Mock the logger
 vi.mock('../../config/logger.js', () => ({
   createChildLogger: () => ({
@@ -118,6 +132,64 @@ describe('IdentityResolver', () => {
       expect(userId).toBe(userId1);
     });
 
+    it('should open a possible_duplicate_user issue when hints match several users', async () => {
+      const userId1 = 'user-1-uuid';
+      const userId2 = 'user-2-uuid';
+
+      let selectCallCount = 0;
+      mockDb.limit = vi.fn().mockImplementation(() => {
+        selectCallCount++;
+        if (selectCallCount === 1) return Promise.resolve([{ userId: userId1 }]);
+        if (selectCallCount === 2) return Promise.resolve([{ userId: userId2 }]);
+        if (selectCallCount === 3) return Promise.resolve([{ id: userId1 }]); // oldest user
+        return Promise.resolve([]); // no open duplicate issue yet
+      });
+      mockDb._configureInsertResult([{ id: 'issue-dup', orgId, issueType: 'possible_duplicate_user' }]);
+
+      const hints: IdentityHint[] = [
+        { source: 'stripe', idType: 'customer_id', externalId: 'cus_one' },
+        { source: 'apple', idType: 'original_transaction_id', externalId: 'txn_two' },
+      ];
+
+      await resolver.resolve(orgId, hints);
+
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        userId: userId1,
+        issueType: 'possible_duplicate_user',
+        detectorId: 'identity-resolver',
+        fingerprint: `identity-resolver:possible_duplicate_user:-:${userId1}`,
+        evidence: expect.objectContaining({
+          primaryUserId: userId1,
+          userIds: [userId1, userId2],
+          otherUserIds: [userId2],
+          matchedIdentities: [
+            { source: 'stripe', idType: 'customer_id', externalId: 'cus_one', userId: userId1 },
+            { source: 'apple', idType: 'original_transaction_id', externalId: 'txn_two', userId: userId2 },
+          ],
+        }),
+      }));
+    });
+
+    it('should not open a second duplicate issue while one is open', async () => {
+      let selectCallCount = 0;
+      mockDb.limit = vi.fn().mockImplementation(() => {
+        selectCallCount++;
+        if (selectCallCount === 1) return Promise.resolve([{ userId: 'user-1' }]);
+        if (selectCallCount === 2) return Promise.resolve([{ userId: 'user-2' }]);
+        if (selectCallCount === 3) return Promise.resolve([{ id: 'user-1' }]);
+        return Promise.resolve([{ id: 'existing-dup-issue' }]);
+      });
+
+      await resolver.resolve(orgId, [
+        { source: 'stripe', idType: 'customer_id', externalId: 'cus_one' },
+        { source: 'apple', idType: 'original_transaction_id', externalId: 'txn_two' },
+      ]);
+
+      expect(mockDb.values).not.toHaveBeenCalledWith(
+        expect.objectContaining({ issueType: 'possible_duplicate_user' }),
+      );
+    });
+
     it('should extract email from hints when creating a new user', async () => {
       const newUserId = 'new-user-with-email';
 
@@ -185,6 +257,81 @@ describe('IdentityResolver', () => {
     });
   });
 
+  describe('identify', () => {
+    /** Results for the awaited (non-.limit()) queries, in order */
+    function queueAwaited(...results: any[][]) {
+      mockDb.then = vi.fn().mockImplementation((resolve: any) => resolve(results.shift() ?? []));
+    }
+
+    it('should create a user when nothing matches', async () => {
+      queueAwaited([], []);
+      mockDb._configureInsertResult([{ id: 'new-user' }]);
+
+      const result = await resolver.identify(orgId, {
+        appUserId: 'app_42',
+        email: 'a@test.com',
+        stripeCustomerId: 'cus_42',
+      });
+
+      expect(result.userId).toBe('new-user');
+      expect(result.created).toBe(true);
+      expect(mockDb.values).toHaveBeenCalledWith({ orgId, email: 'a@test.com', externalUserId: 'app_42' });
+      expect(result.identities).toEqual(expect.arrayContaining([
+        { source: 'stripe', idType: 'customer_id', externalId: 'cus_42' },
+        { source: 'apple', idType: 'app_user_id', externalId: 'app_42' },
+        { source: 'recurly', idType: 'email', externalId: 'a@test.com' },
+      ]));
+      expect(mockMerge).not.toHaveBeenCalled();
+    });
+
+    it('should link identifiers to the user that owns the app user ID', async () => {
+      const user = { id: 'user-app', externalUserId: 'app_42', email: 'a@test.com' };
+      queueAwaited([{ id: user.id }], [], [user]);
+
+      const result = await resolver.identify(orgId, {
+        appUserId: 'app_42',
+        appleOriginalTransactionId: 'txn_42',
+      });
+
+      expect(result).toMatchObject({ userId: user.id, created: false, merged: [] });
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        userId: user.id,
+        source: 'apple',
+        idType: 'original_transaction_id',
+        externalId: 'txn_42',
+      }));
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should merge other users holding the identifiers into the app user', async () => {
+      const appUser = { id: 'user-app', externalUserId: 'app_42', email: null };
+      const stripeUser = { id: 'user-stripe', externalUserId: null, email: 'old@test.com' };
+      queueAwaited([{ id: appUser.id }], [{ userId: stripeUser.id }], [stripeUser, appUser], []);
+      mockMerge.mockResolvedValue({ targetUserId: appUser.id, mergedUserId: stripeUser.id });
+
+      const result = await resolver.identify(orgId, {
+        appUserId: 'app_42',
+        stripeCustomerId: 'cus_old',
+      });
+
+      expect(result.userId).toBe(appUser.id);
+      expect(mockMerge).toHaveBeenCalledWith(orgId, appUser, stripeUser);
+      expect(result.merged).toHaveLength(1);
+    });
+
+    it('should set the app user ID on a user found only by identity', async () => {
+      const user = { id: 'user-stripe', externalUserId: null, email: null };
+      queueAwaited([], [{ userId: user.id }], [user], []);
+
+      await resolver.identify(orgId, { appUserId: 'app_42', email: 'a@test.com', stripeCustomerId: 'cus_1' });
+
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        externalUserId: 'app_42',
+        email: 'a@test.com',
+      }));
+    });
+  });
+
   describe('linkIdentity', () => {
     it('should insert a new identity link', async () => {
       mockDb._configureInsertResult([]);
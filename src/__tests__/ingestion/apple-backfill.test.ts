@@ -0,0 +1,349 @@
+/**
+ * Apple backfill tests run against a local mock App Store Server API
+ * (a real HTTP server on an ephemeral port, selected via APPLE_API_BASE_URL).
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import * as jose from 'jose';
+import { AppleBackfill } from '../../ingestion/backfill/apple-backfill.js';
+import { AppleNormalizer } from '../../ingestion/providers/apple.js';
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Mock Redis (no real Redis in unit tests)
+vi.mock('ioredis', () => {
+  class MockRedis {
+    connect = vi.fn().mockResolvedValue(undefined);
+    get = vi.fn().mockResolvedValue(null);
+    set = vi.fn().mockResolvedValue('OK');
+    del = vi.fn().mockResolvedValue(1);
+    quit = vi.fn().mockResolvedValue(undefined);
+    constructor(..._args: any[]) {}
+  }
+  return { default: MockRedis };
+});
+
+// Mock the rate limiter (token bucket lives in Redis)
+const { mockConsume, mockReadCredentials, mockProcessTrustedWebhook } = vi.hoisted(() => ({
+  mockConsume: vi.fn(),
+  mockReadCredentials: vi.fn(),
+  mockProcessTrustedWebhook: vi.fn(),
+}));
+vi.mock('../../queue/rate-limiter.js', () => ({
+  appleApiRateLimiter: { consume: mockConsume },
+}));
+
+vi.mock('../../security/credentials.js', () => ({
+  readCredentials: mockReadCredentials,
+  writeCredentials: () => 'encrypted',
+}));
+
+vi.mock('../../ingestion/pipeline.js', () => ({
+  IngestionPipeline: function() {
+    return { processTrustedWebhook: mockProcessTrustedWebhook };
+  },
+}));
+
+// ─── Mock App Store Server ──────────────────────────────────────────
+
+interface MockSubscription {
+  historyPages: string[][];
+  statuses: Array<{ status: number; signedTransactionInfo: string; signedRenewalInfo?: string }>;
+}
+
+const appStore = {
+  subscriptions: new Map<string, MockSubscription>(),
+  requests: [] as Array<{ path: string; authorization?: string }>,
+};
+
+function handleAppStoreRequest(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url!, 'http://localhost');
+  appStore.requests.push({ path: url.pathname + url.search, authorization: req.headers.authorization });
+
+  const history = url.pathname.match(/^\/inApps\/v2\/history\/(.+)$/);
+  const statuses = url.pathname.match(/^\/inApps\/v1\/subscriptions\/(.+)$/);
+  const sub = appStore.subscriptions.get(decodeURIComponent((history || statuses)?.[1] || ''));
+
+  if (!sub) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ errorCode: 4040010, errorMessage: 'Transaction id not found.' }));
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  if (history) {
+    const page = Number(url.searchParams.get('revision') || 0);
+    res.end(JSON.stringify({
+      revision: String(page + 1),
+      hasMore: page + 1 < sub.historyPages.length,
+      bundleId: 'com.test.app',
+      environment: 'Sandbox',
+      signedTransactions: sub.historyPages[page] || [],
+    }));
+  } else {
+    res.end(JSON.stringify({
+      environment: 'Sandbox',
+      bundleId: 'com.test.app',
+      data: [{
+        subscriptionGroupIdentifier: 'group_1',
+        lastTransactions: sub.statuses.map((s) => ({ ...s, originalTransactionId: 'unused' })),
+      }],
+    }));
+  }
+}
+
+function signed(payload: Record<string, unknown>): string {
+  return new jose.UnsecuredJWT(payload).encode();
+}
+
+function transaction(transactionId: string, originalTransactionId: string, overrides?: Record<string, unknown>) {
+  return signed({
+    transactionId,
+    originalTransactionId,
+    productId: 'com.test.app.premium',
+    bundleId: 'com.test.app',
+    purchaseDate: 1700000000000,
+    expiresDate: 1702592000000,
+    type: 'Auto-Renewable Subscription',
+    ...overrides,
+  });
+}
+
+function decodeSubmitted(call: any[]) {
+  const body = JSON.parse(call[2].body);
+  return jose.decodeJwt(body.signedPayload) as any;
+}
+
+describe('AppleBackfill', () => {
+  let server: Server;
+  let mockDb: any;
+  let privateKey: string;
+
+  function createMockDb(knownIds: string[] = []) {
+    const chain: any = {
+      select: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue([{
+        id: 'conn_apple_1',
+        orgId: 'org_test',
+        source: 'apple',
+        credentials: 'encrypted',
+        isActive: true,
+      }]),
+      // Awaiting the chain directly yields the known identity rows
+      then: vi.fn().mockImplementation((resolve: any) => resolve(knownIds.map((externalId) => ({ externalId })))),
+    };
+    return chain;
+  }
+
+  beforeAll(async () => {
+    const { privateKey: key } = await jose.generateKeyPair('ES256', { extractable: true });
+    privateKey = await jose.exportPKCS8(key);
+
+    server = createServer(handleAppStoreRequest);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.APPLE_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.APPLE_API_BASE_URL;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    appStore.subscriptions.clear();
+    appStore.requests = [];
+    // Restore hoisted mock implementations after mockReset
+    mockConsume.mockResolvedValue(undefined);
+    mockProcessTrustedWebhook.mockResolvedValue(undefined);
+    mockReadCredentials.mockReturnValue({
+      keyId: 'KEY123',
+      issuerId: 'issuer-uuid',
+      bundleId: 'com.test.app',
+      privateKey,
+    });
+    mockDb = createMockDb();
+  });
+
+  it('should replay transaction history as SUBSCRIBED then DID_RENEW', async () => {
+    appStore.subscriptions.set('1000', {
+      historyPages: [[transaction('1000', '1000'), transaction('1001', '1000', { purchaseDate: 1702592000000 })]],
+      statuses: [{ status: 1, signedTransactionInfo: transaction('1001', '1000') }],
+    });
+
+    const result = await new AppleBackfill(mockDb).run('org_test', ['1000']);
+
+    expect(result.errors).toEqual([]);
+    expect(result.subscriptionsProcessed).toBe(1);
+    expect(result.eventsProcessed).toBe(2);
+    expect(mockProcessTrustedWebhook).toHaveBeenCalledTimes(2);
+
+    const first = decodeSubmitted(mockProcessTrustedWebhook.mock.calls[0]);
+    expect(first.notificationType).toBe('SUBSCRIBED');
+    expect(first.subtype).toBe('INITIAL_BUY');
+    expect(first.notificationUUID).toBe('backfill-1000-subscribed');
+    expect(first.signedDate).toBe(1700000000000);
+    expect(first.data.environment).toBe('Sandbox');
+
+    const second = decodeSubmitted(mockProcessTrustedWebhook.mock.calls[1]);
+    expect(second.notificationType).toBe('DID_RENEW');
+    expect(jose.decodeJwt(second.data.signedTransactionInfo).transactionId).toBe('1001');
+  });
+
+  it('should produce envelopes the Apple normalizer accepts', async () => {
+    appStore.subscriptions.set('1000', {
+      historyPages: [[transaction('1000', '1000', { price: 9990, currency: 'USD' })]],
+      statuses: [],
+    });
+
+    await new AppleBackfill(mockDb).run('org_test', ['1000']);
+
+    const [, , rawEvent] = mockProcessTrustedWebhook.mock.calls[0];
+    const [event] = await new AppleNormalizer().normalize('org_test', rawEvent);
+    expect(event.eventType).toBe('purchase');
+    expect(event.idempotencyKey).toBe('apple:backfill-1000-subscribed');
+    expect(event.externalSubscriptionId).toBe('1000');
+    expect(event.currency).toBe('USD');
+  });
+
+  it('should sign requests with an ES256 bearer token for the bundle', async () => {
+    appStore.subscriptions.set('1000', { historyPages: [[]], statuses: [] });
+
+    await new AppleBackfill(mockDb).run('org_test', ['1000']);
+
+    const auth = appStore.requests[0].authorization!;
+    expect(auth.startsWith('Bearer ')).toBe(true);
+    const header = jose.decodeProtectedHeader(auth.slice(7));
+    const claims = jose.decodeJwt(auth.slice(7));
+    expect(header).toMatchObject({ alg: 'ES256', kid: 'KEY123' });
+    expect(claims).toMatchObject({ iss: 'issuer-uuid', aud: 'appstoreconnect-v1', bid: 'com.test.app' });
+  });
+
+  it('should follow history pagination via revision', async () => {
+    appStore.subscriptions.set('2000', {
+      historyPages: [[transaction('2000', '2000')], [transaction('2001', '2000')], [transaction('2002', '2000')]],
+      statuses: [],
+    });
+
+    const result = await new AppleBackfill(mockDb).run('org_test', ['2000']);
+
+    expect(result.eventsProcessed).toBe(3);
+    const historyCalls = appStore.requests.filter((r) => r.path.startsWith('/inApps/v2/history'));
+    expect(historyCalls).toHaveLength(3);
+    expect(historyCalls[2].path).toContain('revision=2');
+  });
+
+  it('should add a REFUND for revoked transactions in history', async () => {
+    appStore.subscriptions.set('3000', {
+      historyPages: [[transaction('3000', '3000', { revocationDate: 1701000000000, revocationReason: 0 })]],
+      statuses: [],
+    });
+
+    await new AppleBackfill(mockDb).run('org_test', ['3000']);
+
+    const refund = decodeSubmitted(mockProcessTrustedWebhook.mock.calls[1]);
+    expect(refund.notificationType).toBe('REFUND');
+    expect(refund.signedDate).toBe(1701000000000);
+  });
+
+  it('should synthesize status notifications for non-active subscriptions', async () => {
+    appStore.subscriptions.set('4000', {
+      historyPages: [[]],
+      statuses: [
+        {
+          status: 2,
+          signedTransactionInfo: transaction('4005', '4000'),
+          signedRenewalInfo: signed({ expirationIntent: 2, autoRenewStatus: 0 }),
+        },
+        { status: 4, signedTransactionInfo: transaction('4105', '4100') },
+        {
+          status: 1,
+          signedTransactionInfo: transaction('4205', '4200'),
+          signedRenewalInfo: signed({ autoRenewStatus: 0, signedDate: 1701500000000 }),
+        },
+        {
+          status: 1,
+          signedTransactionInfo: transaction('4305', '4300'),
+          signedRenewalInfo: signed({ autoRenewStatus: 1 }),
+        },
+      ],
+    });
+
+    const result = await new AppleBackfill(mockDb).run('org_test', ['4000']);
+
+    expect(result.eventsProcessed).toBe(3); // active + auto-renewing needs no event
+    const submitted = mockProcessTrustedWebhook.mock.calls.map(decodeSubmitted);
+    expect(submitted.map((n) => `${n.notificationType}:${n.subtype || ''}`)).toEqual([
+      'EXPIRED:BILLING_RETRY',
+      'DID_FAIL_TO_RENEW:GRACE_PERIOD',
+      'DID_CHANGE_RENEWAL_STATUS:AUTO_RENEW_DISABLED',
+    ]);
+    expect(submitted[0].signedDate).toBe(1702592000000); // expiresDate
+    expect(submitted[2].signedDate).toBe(1701500000000);
+    expect(submitted[0].data.signedRenewalInfo).toBeDefined();
+  });
+
+  it('should include originalTransactionIds already known from identities', async () => {
+    mockDb = createMockDb(['5000', '1000']);
+    appStore.subscriptions.set('1000', { historyPages: [[]], statuses: [] });
+    appStore.subscriptions.set('5000', { historyPages: [[]], statuses: [] });
+
+    const result = await new AppleBackfill(mockDb).run('org_test', ['1000']);
+
+    expect(result.subscriptionsProcessed).toBe(2); // de-duplicated
+  });
+
+  it('should wait on the Apple rate limiter before every request', async () => {
+    appStore.subscriptions.set('1000', { historyPages: [[transaction('1000', '1000')]], statuses: [] });
+
+    await new AppleBackfill(mockDb).run('org_test', ['1000']);
+
+    expect(mockConsume).toHaveBeenCalledTimes(appStore.requests.length);
+    expect(appStore.requests).toHaveLength(2);
+  });
+
+  it('should record an error and continue when a transaction is unknown', async () => {
+    appStore.subscriptions.set('1000', { historyPages: [[transaction('1000', '1000')]], statuses: [] });
+
+    const result = await new AppleBackfill(mockDb).run('org_test', ['9999', '1000']);
+
+    expect(result.subscriptionsProcessed).toBe(1);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('9999');
+    expect(result.errors[0]).toContain('404');
+  });
+
+  it('should fail without a private key', async () => {
+    mockReadCredentials.mockReturnValue({ keyId: 'KEY123', issuerId: 'issuer-uuid', bundleId: 'com.test.app' });
+
+    const result = await new AppleBackfill(mockDb).run('org_test', ['1000']);
+
+    expect(result.errors[0]).toContain('private key not configured');
+    expect(appStore.requests).toHaveLength(0);
+  });
+
+  it('should throw when Apple connection is not found', async () => {
+    mockDb.limit = vi.fn().mockResolvedValue([]);
+
+    await expect(new AppleBackfill(mockDb).run('org_test')).rejects.toThrow('Apple not connected');
+  });
+
+  describe('getProgress', () => {
+    it('should return null when no progress exists', async () => {
+      expect(await AppleBackfill.getProgress('org_nonexistent')).toBeNull();
+    });
+  });
+});
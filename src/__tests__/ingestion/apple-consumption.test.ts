@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ConsumptionRequestNotification } from '../../ingestion/providers/apple.js';
+
+const { mockGetOrgSettings, mockReadCredentials, mockSendConsumption } = vi.hoisted(() => ({
+  mockGetOrgSettings: vi.fn(),
+  mockReadCredentials: vi.fn(),
+  mockSendConsumption: vi.fn(),
+}));
+
+vi.mock('../../config/org-settings.js', () => ({
+  getOrgSettings: mockGetOrgSettings,
+}));
+
+vi.mock('../../security/credentials.js', () => ({
+  readCredentials: mockReadCredentials,
+}));
+
+vi.mock('../../ingestion/providers/apple-api.js', () => ({
+  AppStoreServerClient: class {
+    sendConsumptionInformation = mockSendConsumption;
+  },
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import {
+  AppleConsumptionResponder,
+  accountTenureBucket,
+  playTimeBucket,
+  dollarsBucket,
+} from '../../ingestion/providers/apple-consumption.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('AppleConsumptionResponder', () => {
+  const orgId = 'org_consumption_test';
+  let mockDb: any;
+  let responder: AppleConsumptionResponder;
+
+  beforeEach(() => {
+    mockDb = createConsumptionMockDb();
+    responder = new AppleConsumptionResponder(mockDb);
+    mockGetOrgSettings.mockResolvedValue({ appleConsumption: { enabled: true, customerConsented: true } });
+  });
+
+  function consumptionRequest(overrides?: Partial<ConsumptionRequestNotification>): ConsumptionRequestNotification {
+    return {
+      notificationUUID: 'notif-consumption-1',
+      reason: 'UNINTENDED_PURCHASE',
+      signedDate: new Date(),
+      environment: 'production',
+      transactionId: 'txn_2',
+      originalTransactionId: 'orig_txn_1',
+      productId: 'com.app.premium.monthly',
+      purchaseDate: new Date(Date.now() - 10 * DAY),
+      expiresDate: new Date(Date.now() + 20 * DAY),
+      appAccountToken: '7e3fb20b-4cdb-47cc-936d-99d65f608138',
+      ...overrides,
+    };
+  }
+
+  describe('value ranges', () => {
+    it('should bucket account tenure in days', () => {
+      expect(accountTenureBucket(1)).toBe(1);
+      expect(accountTenureBucket(45)).toBe(4);
+      expect(accountTenureBucket(400)).toBe(7);
+    });
+
+    it('should bucket play time in minutes', () => {
+      expect(playTimeBucket(0)).toBe(1);
+      expect(playTimeBucket(30)).toBe(2);
+      expect(playTimeBucket(20 * 24 * 60)).toBe(7);
+    });
+
+    it('should bucket lifetime dollars, with 1 meaning none', () => {
+      expect(dollarsBucket(0)).toBe(1);
+      expect(dollarsBucket(999)).toBe(2);
+      expect(dollarsBucket(7_500)).toBe(3);
+      expect(dollarsBucket(250_000)).toBe(7);
+    });
+  });
+
+  describe('receive', () => {
+    it('should record requests as skipped until the org opts in', async () => {
+      mockGetOrgSettings.mockResolvedValue({});
+
+      const record = await responder.receive(orgId, consumptionRequest());
+
+      expect(record?.status).toBe('skipped');
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'skipped',
+        skipReason: 'not_enabled',
+        consumptionData: null,
+      }));
+    });
+
+    it('should not send until the org records its customers\' consent', async () => {
+      mockGetOrgSettings.mockResolvedValue({ appleConsumption: { enabled: true } });
+
+      await responder.receive(orgId, consumptionRequest());
+
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'skipped',
+        skipReason: 'no_consent',
+        consumptionData: null,
+      }));
+    });
+
+    it('should skip reasons the org did not opt in to', async () => {
+      mockGetOrgSettings.mockResolvedValue({
+        appleConsumption: { enabled: true, customerConsented: true, reasons: ['FULFILLMENT_ISSUE'] },
+      });
+
+      await responder.receive(orgId, consumptionRequest());
+
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({ skipReason: 'reason_excluded' }));
+    });
+
+    it('should assemble consumption data from events and access checks', async () => {
+      mockGetOrgSettings.mockResolvedValue({
+        appleConsumption: {
+          enabled: true,
+          customerConsented: true,
+          refundPreference: 'decline',
+          sampleContentProvided: true,
+        },
+      });
+      mockDb._queueLimit([{ userId: 'user-1' }]);
+      mockDb._queueAwaited(
+        [{ firstEventAt: new Date(Date.now() - 45 * DAY), purchasedCents: 7_500, refundedCents: 0 }],
+        [{ totalChecks: 40, playWindows: 9, deniedChecks: 0 }],
+      );
+      const request = consumptionRequest();
+
+      const record = await responder.receive(orgId, request);
+
+      expect(record?.status).toBe('pending');
+      const values = mockDb.values.mock.calls[0][0];
+      expect(values).toMatchObject({
+        userId: 'user-1',
+        transactionId: 'txn_2',
+        deadlineAt: new Date(request.signedDate.getTime() + 12 * 60 * 60 * 1000),
+      });
+      expect(values.consumptionData).toEqual({
+        accountTenure: 4,
+        appAccountToken: '7e3fb20b-4cdb-47cc-936d-99d65f608138',
+        consumptionStatus: 2,
+        customerConsented: true,
+        deliveryStatus: 0,
+        lifetimeDollarsPurchased: 3,
+        lifetimeDollarsRefunded: 1,
+        platform: 0,
+        playTime: 2,
+        refundPreference: 1,
+        sampleContentProvided: true,
+        userStatus: 1,
+      });
+    });
+
+    it('should report content not consumed and not delivered from access checks', async () => {
+      mockDb._queueLimit([{ userId: 'user-1' }]);
+      mockDb._queueAwaited(
+        [{ firstEventAt: new Date(), purchasedCents: 999, refundedCents: 0 }],
+        [{ totalChecks: 3, playWindows: 0, deniedChecks: 3 }],
+      );
+
+      await responder.receive(orgId, consumptionRequest());
+
+      expect(mockDb.values.mock.calls[0][0].consumptionData).toMatchObject({
+        consumptionStatus: 1,
+        deliveryStatus: 5,
+        playTime: 1,
+      });
+    });
+
+    it('should convert lifetime spend to US dollars', async () => {
+      // 1 USD = 0.92 EUR, so EUR 460.00 is $500.00
+      mockDb._queueLimit([{ userId: 'user-1' }], [{ unitsPerUsd: '0.92' }]);
+      mockDb._queueAwaited(
+        [{ currency: 'EUR', firstEventAt: new Date(), purchasedCents: 46_000, refundedCents: 0 }],
+        [{ totalChecks: 0 }],
+      );
+
+      await responder.receive(orgId, consumptionRequest());
+
+      expect(mockDb.values.mock.calls[0][0].consumptionData).toMatchObject({
+        lifetimeDollarsPurchased: 5,
+        lifetimeDollarsRefunded: 1,
+      });
+    });
+
+    it('should leave usage undeclared for customers RevBack does not know', async () => {
+      await responder.receive(orgId, consumptionRequest());
+
+      expect(mockDb.values.mock.calls[0][0].consumptionData).toMatchObject({
+        userStatus: 0,
+        accountTenure: 0,
+        consumptionStatus: 0,
+        playTime: 0,
+        lifetimeDollarsPurchased: 0,
+      });
+    });
+
+    it('should return null for a notification already recorded', async () => {
+      mockDb._queueReturning([]);
+
+      expect(await responder.receive(orgId, consumptionRequest())).toBeNull();
+    });
+
+    it('should return a redelivered request that is still pending so it is queued again', async () => {
+      const recorded = { id: 'req-1', orgId, status: 'pending', notificationUuid: 'notif-consumption-1' };
+      mockDb._queueReturning([]);
+      // The identity lookup, then the request already recorded
+      mockDb._queueLimit([], [recorded]);
+
+      expect(await responder.receive(orgId, consumptionRequest())).toEqual(recorded);
+    });
+  });
+
+  describe('send', () => {
+    const pending = {
+      id: 'req-1',
+      orgId,
+      transactionId: 'txn_2',
+      status: 'pending',
+      attempts: 0,
+      consumptionData: { customerConsented: true },
+      deadlineAt: new Date(Date.now() + DAY),
+    };
+
+    it('should send the recorded data and mark it sent', async () => {
+      mockDb._queueLimit([pending], [{ credentials: 'encrypted' }]);
+      mockReadCredentials.mockReturnValue({ keyId: 'K', issuerId: 'I', bundleId: 'B', privateKey: 'pk' });
+
+      await responder.send('req-1');
+
+      expect(mockSendConsumption).toHaveBeenCalledWith('txn_2', { customerConsented: true });
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'sent', attempts: 1 }));
+    });
+
+    it('should record a failure and rethrow so the job retries', async () => {
+      mockDb._queueLimit([pending], [{ credentials: 'encrypted' }]);
+      mockReadCredentials.mockReturnValue({ keyId: 'K', issuerId: 'I', bundleId: 'B', privateKey: 'pk' });
+      mockSendConsumption.mockRejectedValue(new Error('App Store Server API error 500: '));
+
+      await expect(responder.send('req-1')).rejects.toThrow('500');
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'failed',
+        errorMessage: 'App Store Server API error 500: ',
+      }));
+    });
+
+    it('should expire requests past Apple\'s 12-hour window', async () => {
+      mockDb._queueLimit([{ ...pending, deadlineAt: new Date(Date.now() - 1000) }]);
+
+      await responder.send('req-1');
+
+      expect(mockSendConsumption).not.toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'expired' }));
+    });
+
+    it('should skip when the org has no App Store Server API key', async () => {
+      mockDb._queueLimit([pending], [{ credentials: 'encrypted' }]);
+      mockReadCredentials.mockReturnValue({ keyId: 'K', issuerId: 'I', bundleId: 'B' });
+
+      await responder.send('req-1');
+
+      expect(mockSendConsumption).not.toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'skipped', skipReason: 'no_api_key' }));
+    });
+
+    it('should not resend a request that was already sent', async () => {
+      mockDb._queueLimit([{ ...pending, status: 'sent' }]);
+
+      await responder.send('req-1');
+
+      expect(mockSendConsumption).not.toHaveBeenCalled();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+});
+
+/**
+ * Mock DB for the responder. Chains awaited after where() and chains
+ * ending in limit() take results from their own queues; returning() echoes
+ * the inserted or updated row unless a result is queued.
+ */
+function createConsumptionMockDb() {
+  let awaited: any[][] = [];
+  let limited: any[][] = [];
+  let returned: any[][] = [];
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    onConflictDoNothing: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    groupBy: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve(limited.shift() ?? [])),
+    returning: vi.fn().mockImplementation(() => {
+      const queued = returned.shift();
+      if (queued) return Promise.resolve(queued);
+      const row = chainable.set.mock.calls.at(-1)?.[0] ?? chainable.values.mock.calls.at(-1)?.[0];
+      return Promise.resolve([{ id: 'req-1', ...row }]);
+    }),
+    then: (resolve: any) => resolve(awaited.shift() ?? []),
+
+    _queueAwaited(...results: any[][]) {
+      awaited = results;
+    },
+    _queueLimit(...results: any[][]) {
+      limited = results;
+    },
+    _queueReturning(...results: any[][]) {
+      returned = results;
+    },
+  };
+
+  return chainable;
+}
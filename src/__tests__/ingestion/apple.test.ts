@@ -624,6 +624,45 @@ describe('AppleNormalizer', () => {
       });
     });
 
+    // ─── Consumption requests ──────────────────────────────────────
+    describe('decodeConsumptionRequest', () => {
+      it('should decode the transaction Apple is asking about', async () => {
+        const base = await createAppleNotificationPayload('CONSUMPTION_REQUEST', undefined);
+        const payload = await createAppleNotificationPayload('CONSUMPTION_REQUEST', undefined, undefined, {
+          data: { ...base._notification.data, consumptionRequestReason: 'UNINTENDED_PURCHASE' },
+        });
+        const rawEvent = createRawWebhookEvent(
+          'apple',
+          JSON.stringify({ signedPayload: payload.signedPayload }),
+        );
+
+        const request = await normalizer.decodeConsumptionRequest(rawEvent);
+
+        expect(request).toEqual({
+          notificationUUID: 'notif_apple_CONSUMPTION_REQUEST_none',
+          reason: 'UNINTENDED_PURCHASE',
+          signedDate: new Date('2025-01-15T12:00:00Z'),
+          environment: 'production',
+          transactionId: 'txn_apple_001',
+          originalTransactionId: 'orig_txn_apple_001',
+          productId: 'com.app.premium.monthly',
+          purchaseDate: new Date('2025-01-15T12:00:00Z'),
+          expiresDate: new Date('2025-02-15T12:00:00Z'),
+          appAccountToken: undefined,
+        });
+      });
+
+      it('should return null for other notification types', async () => {
+        const payload = await createAppleNotificationPayload('REFUND', undefined);
+        const rawEvent = createRawWebhookEvent(
+          'apple',
+          JSON.stringify({ signedPayload: payload.signedPayload }),
+        );
+
+        expect(await normalizer.decodeConsumptionRequest(rawEvent)).toBeNull();
+      });
+    });
+
     // ─── Financial extraction ──────────────────────────────────────
     describe('financial details', () => {
       it('should extract price in milliunits and convert', async () => {
@@ -639,9 +678,42 @@ describe('AppleNormalizer', () => {
 
         const events = await normalizer.normalize(orgId, rawEvent);
 
-        // Apple sends price in milliunits, normalizer multiplies by 1000
-        expect(events[0].amountCents).toBe(Math.round(9990 * 1000));
+        // Apple sends price in milliunits: 9990 is $9.99
+        expect(events[0].amountCents).toBe(999);
         expect(events[0].currency).toBe('USD');
+        expect(events[0].commissionRate).toBe(0.3);
+      });
+
+      it('should scale milliunits to zero-decimal currencies', async () => {
+        const payload = await createAppleNotificationPayload(
+          'SUBSCRIBED',
+          'INITIAL_BUY',
+          { price: 1200000, currency: 'JPY' },
+        );
+        const rawEvent = createRawWebhookEvent(
+          'apple',
+          JSON.stringify({ signedPayload: payload.signedPayload }),
+        );
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].amountCents).toBe(1200);
+      });
+
+      it('should apply the reduced commission after a year of subscription', async () => {
+        const payload = await createAppleNotificationPayload(
+          'DID_RENEW',
+          undefined,
+          { originalPurchaseDate: new Date('2024-01-10T12:00:00Z').getTime() },
+        );
+        const rawEvent = createRawWebhookEvent(
+          'apple',
+          JSON.stringify({ signedPayload: payload.signedPayload }),
+        );
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].commissionRate).toBe(0.15);
       });
 
       it('should handle missing price gracefully', async () => {
@@ -679,6 +751,7 @@ describe('AppleNormalizer', () => {
 
         const raw = events[0].rawPayload as any;
         expect(raw.notification.data.environment).toBe('Production');
+        expect(events[0].environment).toBe('production');
       });
 
       it('should preserve Sandbox environment in raw payload', async () => {
@@ -696,6 +769,7 @@ describe('AppleNormalizer', () => {
 
         const raw = events[0].rawPayload as any;
         expect(raw.transaction.environment).toBe('Sandbox');
+        expect(events[0].environment).toBe('sandbox');
       });
     });
 
@@ -716,6 +790,86 @@ describe('AppleNormalizer', () => {
 
         const raw = events[0].rawPayload as any;
         expect(raw.transaction.inAppOwnershipType).toBe('FAMILY_SHARED');
+        expect(events[0].isFamilyShare).toBe(true);
+      });
+
+      it('should not flag purchased transactions as family shared', async () => {
+        const payload = await createAppleNotificationPayload(
+          'SUBSCRIBED',
+          'INITIAL_BUY',
+          { inAppOwnershipType: 'PURCHASED' },
+        );
+        const rawEvent = createRawWebhookEvent(
+          'apple',
+          JSON.stringify({ signedPayload: payload.signedPayload }),
+        );
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].isFamilyShare).toBe(false);
+      });
+    });
+
+    // ─── Lifecycle fields ──────────────────────────────────────────
+    describe('lifecycle fields', () => {
+      async function normalizeWith(
+        notificationType: string,
+        subtype: string | undefined,
+        transactionOverrides?: Record<string, unknown>,
+      ) {
+        const payload = await createAppleNotificationPayload(notificationType, subtype, transactionOverrides);
+        const rawEvent = createRawWebhookEvent(
+          'apple',
+          JSON.stringify({ signedPayload: payload.signedPayload }),
+        );
+        return normalizer.normalize(orgId, rawEvent);
+      }
+
+      it('should extract subscription identity, expiry and storefront', async () => {
+        const events = await normalizeWith('DID_RENEW', undefined, {
+          subscriptionGroupIdentifier: '20831234',
+        });
+
+        expect(events[0].originalTransactionId).toBe('orig_txn_apple_001');
+        expect(events[0].subscriptionGroupId).toBe('20831234');
+        expect(events[0].expirationTime).toEqual(new Date('2025-02-15T12:00:00Z'));
+        expect(events[0].countryCode).toBe('USA');
+        expect(events[0].periodType).toBe('normal');
+        expect(events[0].cancellationReason).toBeUndefined();
+      });
+
+      it('should distinguish free trials from paid introductory offers', async () => {
+        const [trial] = await normalizeWith('SUBSCRIBED', 'INITIAL_BUY', { offerType: 1 });
+        const [intro] = await normalizeWith('SUBSCRIBED', 'INITIAL_BUY', {
+          offerType: 1,
+          offerDiscountType: 'PAY_AS_YOU_GO',
+        });
+        const [promo] = await normalizeWith('SUBSCRIBED', 'INITIAL_BUY', { offerType: 2 });
+
+        expect(trial.periodType).toBe('trial');
+        expect(trial.trialStartedAt).toEqual(new Date('2025-01-15T12:00:00Z'));
+        expect(intro.periodType).toBe('intro');
+        expect(intro.trialStartedAt).toBeUndefined();
+        expect(promo.periodType).toBe('promotional');
+      });
+
+      it('should map expiration subtypes to cancellation reasons', async () => {
+        const [voluntary] = await normalizeWith('EXPIRED', 'VOLUNTARY');
+        const [billing] = await normalizeWith('EXPIRED', 'BILLING_RETRY');
+        const [price] = await normalizeWith('EXPIRED', 'PRICE_INCREASE');
+
+        expect(voluntary.cancellationReason).toBe('voluntary');
+        expect(billing.cancellationReason).toBe('billing_failure');
+        expect(price.cancellationReason).toBe('price_increase');
+      });
+
+      it('should set refund as the cancellation reason on refunds', async () => {
+        const events = await normalizeWith('REFUND', undefined, {
+          revocationDate: new Date('2025-01-20T00:00:00Z').getTime(),
+          revocationReason: 0,
+        });
+
+        expect(events[0].cancellationReason).toBe('refund');
       });
     });
   });
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BraintreeBackfill } from '../../ingestion/backfill/braintree-backfill.js';
+import { parseBraintreeXml } from '../../ingestion/providers/braintree.js';
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Mock Redis (no real Redis in unit tests)
+vi.mock('ioredis', () => {
+  class MockRedis {
+    connect = vi.fn().mockResolvedValue(undefined);
+    get = vi.fn().mockResolvedValue(null);
+    set = vi.fn().mockResolvedValue('OK');
+    del = vi.fn().mockResolvedValue(1);
+    quit = vi.fn().mockResolvedValue(undefined);
+    constructor(..._args: any[]) {}
+  }
+  return { default: MockRedis };
+});
+
+// Mock the circuit breaker to pass through
+vi.mock('../../security/circuit-breaker.js', () => ({
+  CircuitBreaker: vi.fn().mockImplementation(() => ({
+    execute: (fn: () => any) => fn(),
+  })),
+}));
+
+// Mock credentials reader
+vi.mock('../../security/credentials.js', () => ({
+  readCredentials: () => ({
+    merchantId: 'merchant_123',
+    publicKey: 'bt_public_key',
+    privateKey: 'bt_private_key',
+    environment: 'sandbox',
+  }),
+  writeCredentials: () => 'encrypted',
+}));
+
+// Mock the ingestion pipeline
+const { mockProcessTrustedWebhook } = vi.hoisted(() => ({
+  mockProcessTrustedWebhook: vi.fn(),
+}));
+vi.mock('../../ingestion/pipeline.js', () => ({
+  IngestionPipeline: function() {
+    return { processTrustedWebhook: mockProcessTrustedWebhook };
+  },
+}));
+
+// Mock global fetch for Braintree API calls
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+describe('BraintreeBackfill', () => {
+  let backfill: BraintreeBackfill;
+  let mockDb: any;
+
+  function createMockDb() {
+    const chain: any = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      values: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue([{
+        id: 'conn_1',
+        orgId: 'org_test',
+        source: 'braintree',
+        credentials: 'encrypted',
+        webhookSecret: 'bt_private_key',
+        isActive: true,
+      }]),
+      returning: vi.fn().mockResolvedValue([]),
+      then: vi.fn().mockImplementation((resolve: any) => resolve([])),
+    };
+    return chain;
+  }
+
+  function xmlResponse(xml: string, status = 200) {
+    return {
+      ok: status < 400,
+      status,
+      text: vi.fn().mockResolvedValue(xml),
+    };
+  }
+
+  function searchIdsResponse(ids: string[]) {
+    return xmlResponse(
+      `<search-results><page-size type="integer">50</page-size><ids type="array">${ids.map((id) => `<item>${id}</item>`).join('')}</ids></search-results>`,
+    );
+  }
+
+  function subscriptionsResponse(subs: Array<{ id: string; status?: string }>) {
+    const body = subs.map((s) => `<subscription>
+      <id>${s.id}</id>
+      <status>${s.status ?? 'Active'}</status>
+      <plan-id>premium_monthly</plan-id>
+      <price>19.99</price>
+      <updated-at type="datetime">2025-01-10T00:00:00Z</updated-at>
+    </subscription>`).join('');
+    return xmlResponse(`<subscriptions type="collection">${body}</subscriptions>`);
+  }
+
+  function decodeNotification(rawEvent: { body: string }) {
+    const payload = new URLSearchParams(rawEvent.body).get('bt_payload')!;
+    return parseBraintreeXml(Buffer.from(payload, 'base64').toString('utf-8')).notification as any;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Restore hoisted mock implementations after mockReset
+    mockProcessTrustedWebhook.mockResolvedValue(undefined);
+    mockDb = createMockDb();
+    backfill = new BraintreeBackfill(mockDb);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('run', () => {
+    it('should process subscriptions found by advanced search', async () => {
+      mockFetch.mockResolvedValueOnce(searchIdsResponse(['sub_001', 'sub_002']));
+      mockFetch.mockResolvedValueOnce(subscriptionsResponse([{ id: 'sub_001' }, { id: 'sub_002' }]));
+
+      const result = await backfill.run('org_test');
+
+      expect(result.subscriptionsProcessed).toBe(2);
+      expect(result.errors).toHaveLength(0);
+      expect(mockProcessTrustedWebhook).toHaveBeenCalledTimes(2);
+    });
+
+    it('should call the sandbox gateway with basic auth and the XML API version', async () => {
+      mockFetch.mockResolvedValueOnce(searchIdsResponse([]));
+
+      await backfill.run('org_test');
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.sandbox.braintreegateway.com/merchants/merchant_123/subscriptions/advanced_search_ids');
+      expect(init.method).toBe('POST');
+      expect(init.headers['X-ApiVersion']).toBe('6');
+      expect(init.headers['Authorization']).toBe(
+        `Basic ${Buffer.from('bt_public_key:bt_private_key').toString('base64')}`,
+      );
+    });
+
+    it('should synthesize a webhook notification matching the subscription status', async () => {
+      mockFetch.mockResolvedValueOnce(searchIdsResponse(['sub_pd']));
+      mockFetch.mockResolvedValueOnce(subscriptionsResponse([{ id: 'sub_pd', status: 'Past Due' }]));
+
+      await backfill.run('org_test');
+
+      const [orgId, source, rawEvent] = mockProcessTrustedWebhook.mock.calls[0];
+      expect(orgId).toBe('org_test');
+      expect(source).toBe('braintree');
+
+      const notification = decodeNotification(rawEvent);
+      expect(notification.kind).toBe('subscription_went_past_due');
+      expect(notification.timestamp).toBe('2025-01-10T00:00:00Z');
+      expect(notification.subject.subscription.id).toBe('sub_pd');
+      expect(notification.subject.subscription.planId).toBe('premium_monthly');
+    });
+
+    it('should map canceled subscriptions to subscription_canceled', async () => {
+      mockFetch.mockResolvedValueOnce(searchIdsResponse(['sub_c']));
+      mockFetch.mockResolvedValueOnce(subscriptionsResponse([{ id: 'sub_c', status: 'Canceled' }]));
+
+      await backfill.run('org_test');
+
+      const [, , rawEvent] = mockProcessTrustedWebhook.mock.calls[0];
+      expect(decodeNotification(rawEvent).kind).toBe('subscription_canceled');
+    });
+
+    it('should fetch subscriptions in batches of 50 IDs', async () => {
+      const ids = Array.from({ length: 75 }, (_, i) => `sub_${i}`);
+      mockFetch.mockResolvedValueOnce(searchIdsResponse(ids));
+      mockFetch.mockResolvedValueOnce(subscriptionsResponse(ids.slice(0, 50).map((id) => ({ id }))));
+      mockFetch.mockResolvedValueOnce(subscriptionsResponse(ids.slice(50).map((id) => ({ id }))));
+
+      const result = await backfill.run('org_test');
+
+      expect(result.subscriptionsProcessed).toBe(75);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      const secondBatchBody = parseBraintreeXml(mockFetch.mock.calls[2][1].body) as any;
+      expect(secondBatchBody.search.ids).toHaveLength(25);
+    });
+
+    it('should throw when Braintree connection is not found', async () => {
+      mockDb.limit = vi.fn().mockResolvedValue([]);
+
+      await expect(backfill.run('org_test')).rejects.toThrow('Braintree not connected');
+    });
+
+    it('should continue processing when individual subscriptions fail', async () => {
+      mockFetch.mockResolvedValueOnce(searchIdsResponse(['sub_ok', 'sub_fail', 'sub_ok2']));
+      mockFetch.mockResolvedValueOnce(subscriptionsResponse([
+        { id: 'sub_ok' }, { id: 'sub_fail' }, { id: 'sub_ok2' },
+      ]));
+
+      mockProcessTrustedWebhook
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Pipeline error'))
+        .mockResolvedValueOnce(undefined);
+
+      const result = await backfill.run('org_test');
+
+      expect(result.subscriptionsProcessed).toBe(2);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toContain('sub_fail');
+    });
+
+    it('should handle Braintree API errors gracefully', async () => {
+      mockFetch.mockResolvedValueOnce(xmlResponse('Unauthorized', 401));
+
+      const result = await backfill.run('org_test');
+
+      expect(result.errors[0]).toContain('Braintree API error 401');
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should return null when no progress exists', async () => {
+      const progress = await BraintreeBackfill.getProgress('org_nonexistent');
+      expect(progress).toBeNull();
+    });
+  });
+});
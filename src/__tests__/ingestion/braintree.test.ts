@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BraintreeNormalizer, parseBraintreeXml, buildBraintreeXml } from '../../ingestion/providers/braintree.js';
+import {
+  createBraintreeSubscriptionXml,
+  createBraintreeTransactionXml,
+  createBraintreeWebhookBody,
+  createRawWebhookEvent,
+} from '../helpers.js';
+
+// Mock the logger to prevent console output during tests
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('BraintreeNormalizer', () => {
+  let normalizer: BraintreeNormalizer;
+  const orgId = 'org_test_001';
+
+  beforeEach(() => {
+    normalizer = new BraintreeNormalizer();
+  });
+
+  describe('source', () => {
+    it('should identify as braintree', () => {
+      expect(normalizer.source).toBe('braintree');
+    });
+  });
+
+  describe('verifySignature', () => {
+    it('should accept a payload signed with the private key', async () => {
+      const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml());
+      const rawEvent = createRawWebhookEvent('braintree', body);
+
+      expect(await normalizer.verifySignature(rawEvent, 'bt_private_key')).toBe(true);
+    });
+
+    it('should reject a payload signed with a different key', async () => {
+      const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml(), {
+        privateKey: 'someone_elses_key',
+      });
+      const rawEvent = createRawWebhookEvent('braintree', body);
+
+      expect(await normalizer.verifySignature(rawEvent, 'bt_private_key')).toBe(false);
+    });
+
+    it('should accept when any of multiple signature pairs matches', async () => {
+      const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml());
+      const form = new URLSearchParams(body);
+      form.set('bt_signature', `old_public|${'0'.repeat(40)}&${form.get('bt_signature')}`);
+      const rawEvent = createRawWebhookEvent('braintree', form.toString());
+
+      expect(await normalizer.verifySignature(rawEvent, 'bt_private_key')).toBe(true);
+    });
+
+    it('should reject a body without bt_signature', async () => {
+      const form = new URLSearchParams(createBraintreeWebhookBody('check', ''));
+      form.delete('bt_signature');
+      const rawEvent = createRawWebhookEvent('braintree', form.toString());
+
+      expect(await normalizer.verifySignature(rawEvent, 'bt_private_key')).toBe(false);
+    });
+  });
+
+  describe('normalize', () => {
+    describe('subscription_went_active', () => {
+      it('should normalize to purchase event', async () => {
+        const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml());
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events).toHaveLength(1);
+        expect(events[0].eventType).toBe('purchase');
+        expect(events[0].status).toBe('success');
+        expect(events[0].source).toBe('braintree');
+        expect(events[0].orgId).toBe(orgId);
+      });
+
+      it('should extract amount, currency, subscription and plan', async () => {
+        const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml({
+          id: 'bt_sub_777',
+          planId: 'pro_annual',
+          transactionsXml: createBraintreeTransactionXml({ amount: '49.50', currency: 'eur' }),
+        }));
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].amountCents).toBe(4950);
+        expect(events[0].currency).toBe('EUR');
+        expect(events[0].externalSubscriptionId).toBe('bt_sub_777');
+        expect(events[0].planTier).toBe('pro_annual');
+      });
+
+      it('should take the period end from the billing period', async () => {
+        const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml());
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].expirationTime).toEqual(new Date('2025-02-14'));
+        expect(events[0].periodType).toBe('normal');
+      });
+
+      it('should set idempotency key from kind, subject and timestamp', async () => {
+        const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml(), {
+          timestamp: '2025-01-15T12:00:00Z',
+        });
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        const ts = new Date('2025-01-15T12:00:00Z').getTime();
+        expect(events[0].idempotencyKey).toBe(`braintree:subscription_went_active:bt_sub_abc123:${ts}`);
+        expect(events[0].eventTime).toEqual(new Date('2025-01-15T12:00:00Z'));
+      });
+
+      it('should normalize to trial_start when active inside a trial with no charges', async () => {
+        const body = createBraintreeWebhookBody('subscription_went_active', createBraintreeSubscriptionXml({
+          trialPeriod: true,
+          currentBillingCycle: 0,
+          transactionsXml: '',
+        }));
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].eventType).toBe('trial_start');
+        expect(events[0].periodType).toBe('trial');
+        expect(events[0].trialStartedAt).toEqual(new Date('2024-12-15T10:00:00Z'));
+        expect(events[0].amountCents).toBe(1999); // falls back to subscription price
+      });
+    });
+
+    describe('subscription_charged_successfully', () => {
+      it('should normalize to renewal event', async () => {
+        const body = createBraintreeWebhookBody('subscription_charged_successfully', createBraintreeSubscriptionXml());
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].eventType).toBe('renewal');
+        expect(events[0].status).toBe('success');
+      });
+
+      it('should normalize the first charge after a trial to trial_conversion', async () => {
+        const body = createBraintreeWebhookBody('subscription_charged_successfully', createBraintreeSubscriptionXml({
+          trialPeriod: true,
+          currentBillingCycle: 1,
+        }));
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].eventType).toBe('trial_conversion');
+      });
+    });
+
+    describe('failures and terminations', () => {
+      it('should normalize subscription_charged_unsuccessfully to failed billing_retry', async () => {
+        const body = createBraintreeWebhookBody('subscription_charged_unsuccessfully', createBraintreeSubscriptionXml());
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].eventType).toBe('billing_retry');
+        expect(events[0].status).toBe('failed');
+      });
+
+      it('should normalize subscription_went_past_due to failed billing_retry', async () => {
+        const body = createBraintreeWebhookBody('subscription_went_past_due', createBraintreeSubscriptionXml({ status: 'Past Due' }));
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].eventType).toBe('billing_retry');
+        expect(events[0].status).toBe('failed');
+      });
+
+      it('should normalize subscription_canceled to expiration (cancellation is immediate)', async () => {
+        const body = createBraintreeWebhookBody('subscription_canceled', createBraintreeSubscriptionXml({ status: 'Canceled' }));
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].eventType).toBe('expiration');
+        expect(events[0].cancellationReason).toBe('voluntary');
+      });
+
+      it('should normalize subscription_expired to expiration', async () => {
+        const body = createBraintreeWebhookBody('subscription_expired', createBraintreeSubscriptionXml({ status: 'Expired' }));
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events[0].eventType).toBe('expiration');
+      });
+    });
+
+    describe('dispute_opened', () => {
+      it('should normalize to pending chargeback with disputed amount', async () => {
+        const disputeXml = `<dispute>
+          <id>bt_dispute_001</id>
+          <amount-disputed>19.99</amount-disputed>
+          <currency-iso-code>USD</currency-iso-code>
+          <reason>fraud</reason>
+          <transaction><id>bt_txn_001</id><amount>19.99</amount></transaction>
+        </dispute>`;
+        const body = createBraintreeWebhookBody('dispute_opened', disputeXml);
+        const events = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+        expect(events).toHaveLength(1);
+        expect(events[0].eventType).toBe('chargeback');
+        expect(events[0].status).toBe('pending');
+        expect(events[0].amountCents).toBe(1999);
+        expect(events[0].idempotencyKey).toContain('dispute_opened:bt_dispute_001');
+      });
+    });
+
+    describe('skipped and unknown kinds', () => {
+      it('should return empty array for the check notification', async () => {
+        const body = createBraintreeWebhookBody('check', '');
+        expect(await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body))).toEqual([]);
+      });
+
+      it('should return empty array for informational kinds', async () => {
+        const body = createBraintreeWebhookBody('subscription_trial_ended', createBraintreeSubscriptionXml());
+        expect(await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body))).toEqual([]);
+      });
+
+      it('should return empty array for unmapped kinds', async () => {
+        const body = createBraintreeWebhookBody('partner_merchant_connected', '');
+        expect(await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body))).toEqual([]);
+      });
+
+      it('should throw when bt_payload is missing', async () => {
+        await expect(
+          normalizer.normalize(orgId, createRawWebhookEvent('braintree', 'bt_signature=abc')),
+        ).rejects.toThrow('missing bt_payload');
+      });
+    });
+  });
+
+  describe('extractIdentityHints', () => {
+    it('should extract customer id, email, subscription id and payment method token', async () => {
+      const body = createBraintreeWebhookBody('subscription_charged_successfully', createBraintreeSubscriptionXml());
+      const [event] = await normalizer.normalize(orgId, createRawWebhookEvent('braintree', body));
+
+      expect(event.identityHints).toEqual([
+        { source: 'braintree', idType: 'customer_id', externalId: 'bt_cust_123' },
+        { source: 'braintree', idType: 'email', externalId: 'user@test.com' },
+        { source: 'braintree', idType: 'subscription_id', externalId: 'bt_sub_abc123' },
+        { source: 'braintree', idType: 'payment_method_token', externalId: 'pm_tok_001' },
+      ]);
+    });
+
+    it('should return empty array for a payload without subject', () => {
+      expect(normalizer.extractIdentityHints({})).toEqual([]);
+    });
+  });
+});
+
+describe('Braintree XML', () => {
+  it('should convert kebab-case elements and typed attributes', () => {
+    const parsed = parseBraintreeXml(`<?xml version="1.0"?>
+      <subscription>
+        <plan-id>gold</plan-id>
+        <trial-period type="boolean">true</trial-period>
+        <current-billing-cycle type="integer">3</current-billing-cycle>
+        <next-bill-amount nil="true"/>
+        <add-ons type="array"/>
+        <description>Tom &amp; Jerry</description>
+      </subscription>`);
+
+    expect(parsed.subscription).toEqual({
+      planId: 'gold',
+      trialPeriod: true,
+      currentBillingCycle: 3,
+      nextBillAmount: null,
+      addOns: [],
+      description: 'Tom & Jerry',
+    });
+  });
+
+  it('should collapse repeated siblings into an array', () => {
+    const parsed = parseBraintreeXml(
+      '<subscriptions type="collection"><subscription><id>a</id></subscription><subscription><id>b</id></subscription></subscriptions>',
+    );
+
+    expect((parsed.subscriptions as any).subscription).toEqual([{ id: 'a' }, { id: 'b' }]);
+  });
+
+  it('should round-trip through buildBraintreeXml', () => {
+    const value = {
+      kind: 'subscription_went_active',
+      subject: {
+        subscription: {
+          id: 'sub_1',
+          trialPeriod: false,
+          currentBillingCycle: 2,
+          price: '9.99',
+          transactions: [{ id: 'txn_1', customer: { email: 'a&b@test.com' } }],
+          descriptor: null,
+        },
+      },
+    };
+
+    const parsed = parseBraintreeXml(buildBraintreeXml('notification', value));
+    expect(parsed.notification).toEqual(value);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Job } from 'bullmq';
+
+const { mockQueueAdd } = vi.hoisted(() => ({
+  mockQueueAdd: vi.fn(),
+}));
+
+vi.mock('../../config/queue.js', () => ({
+  QUEUE_NAMES: { APPLE_CONSUMPTION: 'apple-consumption' },
+  getQueue: () => ({ add: mockQueueAdd }),
+  createWorker: vi.fn(),
+}));
+
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { enqueueConsumptionResponse } from '../../queue/consumption-worker.js';
+
+beforeEach(() => {
+  mockQueueAdd.mockResolvedValue({ id: 'job-1' });
+});
+
+describe('enqueueConsumptionResponse', () => {
+  it('uses a job id BullMQ accepts', async () => {
+    await enqueueConsumptionResponse({ orgId: 'org-1', requestId: 'req-1' });
+
+    const [name, data, opts] = mockQueueAdd.mock.calls[0];
+    expect(opts.jobId).toBe('consumption-req-1');
+
+    // The same check Queue.add runs before writing to Redis
+    const queue = { toKey: (type: string) => `bull:apple-consumption:${type}`, keys: {}, qualifiedName: 'bull:apple-consumption' };
+    const job = new Job(queue as any, name, data, opts, opts.jobId);
+    expect(() => (job as any).validateOptions(job.asJSON())).not.toThrow();
+  });
+});
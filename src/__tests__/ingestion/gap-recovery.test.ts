@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createTestBillingConnection, createTestIssue, resetUuidCounter } from '../helpers.js';
+
+const { mockProcessRecovered, mockGetNotificationHistory, mockReadCredentials } = vi.hoisted(() => ({
+  mockProcessRecovered: vi.fn(),
+  mockGetNotificationHistory: vi.fn(),
+  mockReadCredentials: vi.fn(),
+}));
+
+vi.mock('../../ingestion/pipeline.js', () => ({
+  IngestionPipeline: class {
+    processRecoveredWebhook = mockProcessRecovered;
+  },
+}));
+
+vi.mock('../../ingestion/providers/apple-api.js', () => ({
+  AppStoreServerClient: class {
+    getNotificationHistory = mockGetNotificationHistory;
+  },
+}));
+
+vi.mock('../../security/credentials.js', () => ({
+  readCredentials: mockReadCredentials,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { WebhookGapRecovery, canRecoverGap } from '../../ingestion/recovery/gap-recovery.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Unsigned stand-in for an Apple signedPayload; only the claims are read */
+function signedPayload(notificationUUID: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'ES256' })}.${encode({ notificationUUID, notificationType: 'DID_RENEW' })}.sig`;
+}
+
+describe('WebhookGapRecovery', () => {
+  const orgId = 'org_gap_recovery_test';
+  const lastWebhookAt = new Date(Date.now() - 3 * DAY);
+  let mockDb: any;
+  let recovery: WebhookGapRecovery;
+  let gapIssue: any;
+  let connection: any;
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createRecoveryMockDb();
+    recovery = new WebhookGapRecovery(mockDb);
+    connection = createTestBillingConnection(orgId, { id: 'conn-apple', source: 'apple', credentials: 'encrypted' });
+    gapIssue = createTestIssue(orgId, {
+      id: 'gap-issue',
+      issueType: 'webhook_delivery_gap',
+      detectorId: 'webhook_delivery_gap',
+      evidence: { source: 'apple', connectionId: 'conn-apple', lastWebhookAt: lastWebhookAt.toISOString() },
+    });
+    mockReadCredentials.mockReturnValue({ keyId: 'K', issuerId: 'I', bundleId: 'B', privateKey: 'pk' });
+    mockProcessRecovered.mockResolvedValue({ processed: 1, skipped: 0, errors: [] });
+  });
+
+  it('should only recover sources with a history API', () => {
+    expect(canRecoverGap('apple')).toBe(true);
+    expect(canRecoverGap('stripe')).toBe(true);
+    expect(canRecoverGap('google')).toBe(false);
+  });
+
+  it('should replay notifications that were never stored and record the outcome', async () => {
+    mockDb._queueLimit([gapIssue], [connection]);
+    mockDb._queueAwaited([{ externalEventId: 'notif-2' }]);
+    mockGetNotificationHistory.mockResolvedValue([
+      signedPayload('notif-1'),
+      signedPayload('notif-2'),
+      signedPayload('notif-3'),
+    ]);
+
+    const outcome = await recovery.recover(orgId, 'gap-issue');
+
+    expect(mockGetNotificationHistory).toHaveBeenCalledWith(lastWebhookAt, expect.any(Date));
+    expect(mockProcessRecovered).toHaveBeenCalledTimes(2);
+    expect(mockProcessRecovered).toHaveBeenCalledWith(
+      orgId,
+      'apple',
+      expect.objectContaining({ body: JSON.stringify({ signedPayload: signedPayload('notif-1') }) }),
+      'gap-issue',
+    );
+    expect(outcome).toMatchObject({ status: 'completed', found: 3, alreadyReceived: 1, replayed: 2, failed: 0 });
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+      evidence: expect.objectContaining({
+        source: 'apple',
+        recovery: expect.objectContaining({ replayed: 2, from: lastWebhookAt.toISOString() }),
+      }),
+    }));
+  });
+
+  it('should count notifications the pipeline failed on', async () => {
+    mockDb._queueLimit([gapIssue], [connection]);
+    mockGetNotificationHistory.mockResolvedValue([signedPayload('notif-1')]);
+    mockProcessRecovered.mockResolvedValue({ processed: 0, skipped: 0, errors: ['No product'] });
+
+    const outcome = await recovery.recover(orgId, 'gap-issue');
+
+    expect(outcome).toMatchObject({ status: 'completed', replayed: 0, failed: 1, errors: ['No product'] });
+  });
+
+  it('should not ask Apple for more than its 180 days of history', async () => {
+    gapIssue.evidence.lastWebhookAt = new Date(Date.now() - 400 * DAY).toISOString();
+    mockDb._queueLimit([gapIssue], [connection]);
+    mockGetNotificationHistory.mockResolvedValue([]);
+
+    await recovery.recover(orgId, 'gap-issue');
+
+    const [from, to] = mockGetNotificationHistory.mock.calls[0];
+    expect(to.getTime() - from.getTime()).toBe(180 * DAY);
+  });
+
+  it('should skip connections without App Store Server API access', async () => {
+    mockDb._queueLimit([gapIssue], [connection]);
+    mockReadCredentials.mockReturnValue({ keyId: 'K', issuerId: 'I', bundleId: 'B' });
+
+    const outcome = await recovery.recover(orgId, 'gap-issue');
+
+    expect(outcome).toMatchObject({ status: 'skipped', reason: 'no_api_access' });
+    expect(mockGetNotificationHistory).not.toHaveBeenCalled();
+  });
+
+  it('should record provider API failures and rethrow so the job retries', async () => {
+    mockDb._queueLimit([gapIssue], [connection]);
+    mockGetNotificationHistory.mockRejectedValue(new Error('App Store Server API error 401: '));
+
+    await expect(recovery.recover(orgId, 'gap-issue')).rejects.toThrow('401');
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+      evidence: expect.objectContaining({
+        recovery: expect.objectContaining({ status: 'failed', errors: ['App Store Server API error 401: '] }),
+      }),
+    }));
+  });
+
+  it('should recover an explicit window without linking an issue', async () => {
+    const from = new Date(Date.now() - DAY);
+    const to = new Date();
+    mockDb._queueLimit([connection]);
+    mockGetNotificationHistory.mockResolvedValue([signedPayload('notif-1')]);
+
+    const outcome = await recovery.recoverWindow(orgId, 'apple', from, to);
+
+    expect(mockGetNotificationHistory).toHaveBeenCalledWith(from, to);
+    expect(mockProcessRecovered).toHaveBeenCalledWith(orgId, 'apple', expect.anything(), null);
+    expect(outcome).toMatchObject({ status: 'completed', replayed: 1, from: from.toISOString() });
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it('should not recover a window for an unconnected source', async () => {
+    expect(await recovery.recoverWindow(orgId, 'apple', new Date(0), new Date())).toBeNull();
+    expect(mockGetNotificationHistory).not.toHaveBeenCalled();
+  });
+
+  it('should ignore issues that are not webhook gaps', async () => {
+    mockDb._queueLimit([{ ...gapIssue, issueType: 'duplicate_billing' }]);
+
+    expect(await recovery.recover(orgId, 'gap-issue')).toBeNull();
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * Mock DB for gap recovery. Chains ending in limit() and chains awaited
+ * after where() take results from their own queues, falling back to an
+ * empty array.
+ */
+function createRecoveryMockDb() {
+  let awaited: any[][] = [];
+  let limited: any[][] = [];
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve(limited.shift() ?? [])),
+    then: (resolve: any) => resolve(awaited.shift() ?? []),
+
+    _queueAwaited(...results: any[][]) {
+      awaited = results;
+    },
+    _queueLimit(...results: any[][]) {
+      limited = results;
+    },
+  };
+
+  return chainable;
+}
@@ -192,6 +192,16 @@ describe('GoogleNormalizer', () => {
       expect(events[0].eventType).toBe('refund');
       expect(events[0].status).toBe('refunded');
       expect(events[0].source).toBe('google');
+      expect(events[0].cancellationReason).toBe('refund');
+    });
+
+    it('should strip the renewal suffix from the order ID for the original transaction', async () => {
+      const pubSubMsg = createGoogleVoidedPurchaseNotification(1, { orderId: 'GPA.1234-5678-9012-34567..3' });
+      const rawEvent = createRawWebhookEvent('google', JSON.stringify(pubSubMsg));
+
+      const events = await normalizer.normalize(orgId, rawEvent);
+
+      expect(events[0].originalTransactionId).toBe('GPA.1234-5678-9012-34567');
     });
 
     it('should normalize refundType!=1 as chargeback', async () => {
@@ -438,6 +448,86 @@ describe('GoogleNormalizer', () => {
     });
   });
 
+  // ─── API Enrichment ───────────────────────────────────────────────
+
+  describe('API enrichment', () => {
+    async function normalizeWithDetails(details: Record<string, unknown>, notificationType = 2) {
+      normalizer.setCredentials('test@project.iam.gserviceaccount.com', 'key', 'com.example.app');
+      vi.spyOn(normalizer as any, 'fetchSubscriptionDetails').mockResolvedValue(details);
+      const pubSubMsg = createGooglePubSubMessage('subscription', {
+        subscriptionNotificationType: notificationType,
+      });
+      return normalizer.normalize(orgId, createRawWebhookEvent('google', JSON.stringify(pubSubMsg)));
+    }
+
+    it('should populate lifecycle fields from the subscription', async () => {
+      const events = await normalizeWithDetails(
+        createGoogleSubscriptionDetails({ latestOrderId: 'GPA.3300-1111-2222-33333..2' }),
+      );
+
+      expect(events[0].expirationTime).toEqual(new Date('2025-02-15T12:00:00.000Z'));
+      expect(events[0].countryCode).toBe('US');
+      expect(events[0].environment).toBe('production');
+      expect(events[0].periodType).toBe('normal');
+      expect(events[0].originalTransactionId).toBe('GPA.3300-1111-2222-33333');
+      expect(events[0].gracePeriodExpiration).toBeUndefined();
+    });
+
+    it('should mark license-tester purchases as sandbox', async () => {
+      const events = await normalizeWithDetails(createGoogleSubscriptionDetails({ testPurchase: {} }));
+
+      expect(events[0].environment).toBe('sandbox');
+    });
+
+    it('should take the period type from the current offer phase', async () => {
+      const events = await normalizeWithDetails(createGoogleSubscriptionDetails({
+        lineItems: [{
+          productId: 'premium',
+          expiryTime: '2025-01-22T12:00:00.000Z',
+          offerDetails: { basePlanId: 'monthly', offerId: 'free-week' },
+          offerPhase: { freeTrial: {} },
+        }],
+      }), 4);
+
+      expect(events[0].periodType).toBe('trial');
+      expect(events[0].expirationTime).toEqual(new Date('2025-01-22T12:00:00.000Z'));
+    });
+
+    it('should record the grace period end while in grace', async () => {
+      const events = await normalizeWithDetails(createGoogleSubscriptionDetails({
+        subscriptionState: 'SUBSCRIPTION_STATE_IN_GRACE_PERIOD',
+      }), 6);
+
+      expect(events[0].gracePeriodExpiration).toEqual(new Date('2025-02-15T12:00:00.000Z'));
+    });
+
+    it('should map the canceled state context to a cancellation reason', async () => {
+      const [user] = await normalizeWithDetails(createGoogleSubscriptionDetails({
+        canceledStateContext: { userInitiatedCancellation: { cancelTime: '2025-01-20T00:00:00Z' } },
+      }), 3);
+      const [system] = await normalizeWithDetails(createGoogleSubscriptionDetails({
+        canceledStateContext: { systemInitiatedCancellation: {} },
+      }), 3);
+
+      expect(user.cancellationReason).toBe('voluntary');
+      expect(system.cancellationReason).toBe('billing_failure');
+    });
+
+    it('should take the price from the renewal plan at the subscription commission', async () => {
+      const events = await normalizeWithDetails(createGoogleSubscriptionDetails({
+        lineItems: [{
+          productId: 'premium',
+          expiryTime: '2025-02-15T12:00:00.000Z',
+          autoRenewingPlan: { recurringPrice: { currencyCode: 'EUR', units: '9', nanos: 990000000 } },
+        }],
+      }), 2);
+
+      expect(events[0].amountCents).toBe(999);
+      expect(events[0].currency).toBe('EUR');
+      expect(events[0].commissionRate).toBe(0.15);
+    });
+  });
+
   // ─── Base64 Decoding ──────────────────────────────────────────────
 
   describe('base64 decoding', () => {
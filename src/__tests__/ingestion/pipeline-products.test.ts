@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NormalizedEvent } from '../../models/types.js';
+
+const { mockNormalize, mockResolveIdentity, mockProcessEntitlement, mockFindByExternalId } = vi.hoisted(() => ({
+  mockNormalize: vi.fn(),
+  mockResolveIdentity: vi.fn(),
+  mockProcessEntitlement: vi.fn(),
+  mockFindByExternalId: vi.fn(),
+}));
+
+vi.mock('../../ingestion/normalizer/base.js', () => ({
+  getNormalizer: () => ({ normalize: mockNormalize }),
+}));
+
+vi.mock('../../identity/resolver.js', () => ({
+  IdentityResolver: class {
+    resolve = mockResolveIdentity;
+  },
+}));
+
+vi.mock('../../entitlement/engine.js', () => ({
+  EntitlementEngine: class {
+    processEvent = mockProcessEntitlement;
+  },
+}));
+
+vi.mock('../../detection/engine.js', () => ({
+  IssueDetectionEngine: class {
+    checkForIssues = vi.fn();
+  },
+}));
+
+vi.mock('../../products/catalog.js', () => ({
+  ProductCatalog: class {
+    findByExternalId = mockFindByExternalId;
+  },
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { IngestionPipeline } from '../../ingestion/pipeline.js';
+
+describe('IngestionPipeline product resolution', () => {
+  const orgId = 'org_pipeline_products';
+  let mockDb: any;
+  let pipeline: IngestionPipeline;
+  let eventCounter = 0;
+
+  beforeEach(() => {
+    mockDb = createPipelineMockDb();
+    pipeline = new IngestionPipeline(mockDb);
+    mockResolveIdentity.mockResolvedValue('user-1');
+    mockFindByExternalId.mockResolvedValue(undefined);
+  });
+
+  function event(overrides: Partial<NormalizedEvent>): NormalizedEvent {
+    return {
+      orgId,
+      source: 'recurly',
+      eventType: 'purchase',
+      eventTime: new Date('2025-01-15T00:00:00Z'),
+      status: 'success',
+      idempotencyKey: `key_${++eventCounter}`,
+      rawPayload: {},
+      identityHints: [{ source: 'recurly', idType: 'account_code', externalId: 'acct_123' }],
+      ...overrides,
+    };
+  }
+
+  async function process(...events: NormalizedEvent[]) {
+    mockNormalize.mockResolvedValue(events);
+    return pipeline.processTrustedWebhook(orgId, events[0].source, {
+      headers: {},
+      body: '{}',
+      receivedAt: new Date(),
+    });
+  }
+
+  /** productId written to each stored canonical event */
+  function storedProductIds() {
+    return mockDb.values.mock.calls.map((call: any[]) => call[0].productId);
+  }
+
+  it('should resolve a Stripe product ID from the subscription items', async () => {
+    mockFindByExternalId.mockResolvedValue({ id: 'prod-premium' });
+
+    await process(event({
+      source: 'stripe',
+      rawPayload: { data: { object: { items: { data: [{ price: { product: 'prod_abc' } }] } } } },
+    }));
+
+    expect(mockFindByExternalId).toHaveBeenCalledWith(orgId, 'stripe', 'prod_abc');
+    expect(storedProductIds()).toEqual(['prod-premium']);
+    expect(mockProcessEntitlement).toHaveBeenCalled();
+  });
+
+  it('should resolve a Recurly plan code to its product', async () => {
+    mockFindByExternalId.mockResolvedValue({ id: 'prod-premium' });
+
+    await process(event({ rawPayload: { subscription: { plan: { code: 'premium' } } } }));
+
+    expect(mockFindByExternalId).toHaveBeenCalledWith(orgId, 'recurly', 'premium');
+    expect(storedProductIds()).toEqual(['prod-premium']);
+    expect(mockProcessEntitlement).toHaveBeenCalled();
+  });
+
+  it('should resolve Recurly add-ons by their own code rather than the plan', async () => {
+    mockFindByExternalId.mockImplementation(async (_org: string, _source: string, code: string) =>
+      ({ id: `prod-${code}` }));
+    const rawPayload = { subscription: { plan: { code: 'premium' } } };
+
+    await process(
+      event({ rawPayload, externalSubscriptionId: 'sub_1' }),
+      event({ rawPayload, externalSubscriptionId: 'sub_1:extra_seats', externalProductId: 'extra_seats' }),
+    );
+
+    expect(storedProductIds()).toEqual(['prod-premium', 'prod-extra_seats']);
+    expect(mockProcessEntitlement).toHaveBeenCalledTimes(2);
+  });
+
+  it('should auto-create an unmapped product for an unknown plan code', async () => {
+    mockDb._queueReturning([{ id: 'prod-new' }]);
+
+    await process(event({ rawPayload: { subscription: { plan: { code: 'gold' } } } }));
+
+    expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'gold',
+      externalIds: { recurly: ['gold'] },
+      autoCreated: true,
+    }));
+    expect(storedProductIds()).toContain('prod-new');
+  });
+
+  it('should fall back to the product of earlier events on the same subscription', async () => {
+    mockDb._queueLimit([{ productId: 'prod-premium' }]);
+
+    await process(event({ eventType: 'refund', status: 'refunded', externalSubscriptionId: 'sub_1' }));
+
+    expect(mockFindByExternalId).not.toHaveBeenCalled();
+    expect(storedProductIds()).toEqual(['prod-premium']);
+    expect(mockProcessEntitlement).toHaveBeenCalled();
+  });
+
+  it('should store the event without a product when nothing identifies it', async () => {
+    await process(event({ eventType: 'refund', status: 'refunded' }));
+
+    expect(storedProductIds()).toEqual([undefined]);
+    expect(mockProcessEntitlement).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * Mock DB for the pipeline. returning() hands out queued results first,
+ * then echoes the inserted canonical event; limit() hands out queued
+ * results, then an empty array.
+ */
+function createPipelineMockDb() {
+  let returned: any[][] = [];
+  let limited: any[][] = [];
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    onConflictDoNothing: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve(limited.shift() ?? [])),
+    returning: vi.fn().mockImplementation(() => {
+      const queued = returned.shift();
+      if (queued) return Promise.resolve(queued);
+      const values = chainable.values.mock.calls.at(-1)?.[0];
+      return Promise.resolve([{ id: 'evt-stored', ...values }]);
+    }),
+
+    _queueReturning(...results: any[][]) {
+      returned = results;
+    },
+    _queueLimit(...results: any[][]) {
+      limited = results;
+    },
+  };
+
+  return chainable;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NormalizedEvent } from '../../models/types.js';
+
+const { mockGetOrgSettings, mockConnectStripeFees } = vi.hoisted(() => ({
+  mockGetOrgSettings: vi.fn(),
+  mockConnectStripeFees: vi.fn(),
+}));
+
+vi.mock('../../config/org-settings.js', () => ({
+  getOrgSettings: mockGetOrgSettings,
+}));
+
+vi.mock('../../ingestion/providers/stripe-fees.js', () => ({
+  connectStripeFees: mockConnectStripeFees,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { ProceedsCalculator } from '../../ingestion/proceeds.js';
+
+describe('ProceedsCalculator', () => {
+  const orgId = 'org_proceeds_test';
+  let mockDb: any;
+  let calculator: ProceedsCalculator;
+
+  beforeEach(() => {
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue([]),
+    };
+    mockGetOrgSettings.mockResolvedValue({});
+    calculator = new ProceedsCalculator(mockDb);
+  });
+
+  it('should take the store commission from the amount after tax', async () => {
+    const event = createTestEvent({
+      orgId, source: 'apple', amountCents: 1200, taxCents: 200, commissionRate: 0.3,
+    });
+
+    await calculator.apply(orgId, [event]);
+
+    expect(event.feeCents).toBe(300);
+    expect(event.proceedsCents).toBe(700);
+  });
+
+  it('should apply the reduced rate for orgs in the small business program', async () => {
+    mockGetOrgSettings.mockResolvedValue({ smallBusinessProgram: { apple: true } });
+    const apple = createTestEvent({ orgId, source: 'apple', amountCents: 1000, commissionRate: 0.3 });
+    const google = createTestEvent({ orgId, source: 'google', amountCents: 1000, commissionRate: 0.3 });
+
+    await calculator.apply(orgId, [apple, google]);
+
+    expect(apple.proceedsCents).toBe(850);
+    expect(google.proceedsCents).toBe(700);
+    expect(mockGetOrgSettings).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave events without an amount alone', async () => {
+    const event = createTestEvent({ orgId, source: 'apple', amountCents: undefined, commissionRate: 0.3 });
+
+    await calculator.apply(orgId, [event]);
+
+    expect(event.feeCents).toBeUndefined();
+    expect(event.proceedsCents).toBeUndefined();
+  });
+
+  it('should look up Stripe fees through the org\'s connection', async () => {
+    const lookup = vi.fn().mockResolvedValue(175);
+    mockDb.limit.mockResolvedValue([{ id: 'conn_1', source: 'stripe', credentials: 'enc' }]);
+    mockConnectStripeFees.mockResolvedValue(lookup);
+    const event = createTestEvent({ orgId, source: 'stripe', status: 'success', amountCents: 4999, taxCents: 400 });
+
+    await calculator.apply(orgId, [event]);
+
+    expect(lookup).toHaveBeenCalledWith(event.rawPayload);
+    expect(event.feeCents).toBe(175);
+    expect(event.proceedsCents).toBe(4424);
+  });
+
+  it('should count an unknown Stripe fee as zero when the lookup fails', async () => {
+    mockDb.limit.mockResolvedValue([{ id: 'conn_1', source: 'stripe', credentials: 'enc' }]);
+    mockConnectStripeFees.mockResolvedValue(vi.fn().mockRejectedValue(new Error('rate limited')));
+    const event = createTestEvent({ orgId, source: 'stripe', status: 'success', amountCents: 4999 });
+
+    await calculator.apply(orgId, [event]);
+
+    expect(event.feeCents).toBeUndefined();
+    expect(event.proceedsCents).toBe(4999);
+  });
+
+  it('should not connect to Stripe without an active connection', async () => {
+    const event = createTestEvent({ orgId, source: 'stripe', status: 'success', amountCents: 4999 });
+
+    await calculator.apply(orgId, [event]);
+
+    expect(mockConnectStripeFees).not.toHaveBeenCalled();
+    expect(event.proceedsCents).toBe(4999);
+  });
+});
+
+function createTestEvent(overrides: Partial<NormalizedEvent>): NormalizedEvent {
+  return {
+    orgId: 'org_proceeds_test',
+    source: 'stripe',
+    eventType: 'renewal',
+    eventTime: new Date('2026-10-01T12:00:00Z'),
+    status: 'success',
+    currency: 'USD',
+    idempotencyKey: 'idem_1',
+    rawPayload: { id: 'evt_1', data: { object: { object: 'invoice', charge: 'ch_1' } } },
+    ...overrides,
+  } as NormalizedEvent;
+}
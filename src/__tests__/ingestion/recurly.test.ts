@@ -61,6 +61,18 @@ describe('RecurlyNormalizer', () => {
         expect(events[0].currency).toBe('USD');
       });
 
+      it('should extract the tax included in the invoice total', async () => {
+        const payload = createRecurlySubscriptionPayload('created', {
+          invoice: { uuid: 'inv_001', total_in_cents: 5999, tax_in_cents: 1000, currency: 'USD' },
+        });
+        const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].amountCents).toBe(5999);
+        expect(events[0].taxCents).toBe(1000);
+      });
+
       it('should set correct idempotency key', async () => {
         const payload = createRecurlySubscriptionPayload('created');
         const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
@@ -293,6 +305,97 @@ describe('RecurlyNormalizer', () => {
       });
     });
 
+    // ─── Add-ons ────────────────────────────────────────────────────
+    describe('add-ons', () => {
+      const addOns = [
+        { add_on_code: 'extra_seats', quantity: 3 },
+        { add_on: { code: 'priority_support', name: 'Priority Support' }, quantity: 1 },
+      ];
+
+      it('should emit an event per add-on alongside the plan event', async () => {
+        const payload = createRecurlySubscriptionPayload('created');
+        Object.assign(payload.subscription, { add_ons: addOns });
+        const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events).toHaveLength(3);
+        expect(events[0].externalProductId).toBeUndefined();
+        expect(events[0].amountCents).toBe(1999);
+        expect(events.slice(1)).toEqual([
+          expect.objectContaining({
+            eventType: 'purchase',
+            externalProductId: 'extra_seats',
+            externalSubscriptionId: 'sub_recurly_abc123:extra_seats',
+            idempotencyKey: `recurly:${payload.id}:addon:extra_seats`,
+            amountCents: undefined,
+          }),
+          expect.objectContaining({
+            externalProductId: 'priority_support',
+            externalSubscriptionId: 'sub_recurly_abc123:priority_support',
+          }),
+        ]);
+      });
+
+      it('should carry the plan event type to add-ons on expiration', async () => {
+        const payload = createRecurlySubscriptionPayload('expired');
+        Object.assign(payload.subscription, { add_ons: addOns });
+        const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events.map(e => e.eventType)).toEqual(['expiration', 'expiration', 'expiration']);
+      });
+
+      it('should turn add-ons added and removed in an update into purchase and expiration', async () => {
+        const payload = {
+          id: 'notif_recurly_updated_addons',
+          object_type: 'subscription',
+          event_type: 'updated',
+          account: { code: 'acct_123', email: 'user@test.com' },
+          subscription: {
+            uuid: 'sub_recurly_abc123',
+            plan: { code: 'premium', name: 'Premium Plan' },
+            unit_amount_in_cents: 1999,
+            currency: 'USD',
+            add_ons: [{ add_on_code: 'priority_support' }],
+          },
+          previous_subscription: {
+            uuid: 'sub_recurly_abc123',
+            plan: { code: 'premium', name: 'Premium Plan' },
+            unit_amount_in_cents: 1999,
+            add_ons: [{ add_on_code: 'extra_seats' }],
+          },
+        };
+        const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events).toHaveLength(2);
+        expect(events[0]).toMatchObject({
+          eventType: 'purchase',
+          externalProductId: 'priority_support',
+          externalSubscriptionId: 'sub_recurly_abc123:priority_support',
+          idempotencyKey: 'recurly:notif_recurly_updated_addons:addon:priority_support:added',
+        });
+        expect(events[1]).toMatchObject({
+          eventType: 'expiration',
+          externalProductId: 'extra_seats',
+          idempotencyKey: 'recurly:notif_recurly_updated_addons:addon:extra_seats:removed',
+        });
+      });
+    });
+
+    it('should take the subscription ID from the transaction when the payload has no subscription', async () => {
+      const payload = createRecurlyRefundPayload({ transaction: { subscription_id: 'sub_recurly_abc123' } });
+      delete (payload as any).subscription;
+      const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
+
+      const events = await normalizer.normalize(orgId, rawEvent);
+
+      expect(events[0].externalSubscriptionId).toBe('sub_recurly_abc123');
+    });
+
     // ─── Unknown / skipped event types ──────────────────────────────
     describe('unknown and skipped event types', () => {
       it('should return empty array for unmapped event types', async () => {
@@ -387,6 +490,57 @@ describe('RecurlyNormalizer', () => {
       });
     });
 
+    // ─── Lifecycle fields ───────────────────────────────────────────
+    describe('lifecycle fields', () => {
+      it('should extract the period end and country', async () => {
+        const payload = createRecurlySubscriptionPayload('renewed', {
+          account: { code: 'acct_123', address: { country: 'GB' } },
+        });
+        const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].expirationTime).toEqual(new Date('2025-02-15T00:00:00Z'));
+        expect(events[0].countryCode).toBe('GB');
+        expect(events[0].periodType).toBe('normal');
+      });
+
+      it('should mark subscriptions inside their trial with the trial period type', async () => {
+        const payload = createRecurlySubscriptionPayload('created', {
+          subscription: {
+            uuid: 'sub_001',
+            plan: { code: 'premium', name: 'Premium' },
+            trial_started_at: '2025-01-10T00:00:00Z',
+            trial_ends_at: '2099-01-01T00:00:00Z',
+          },
+        });
+        const rawEvent = createRawWebhookEvent('recurly', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].periodType).toBe('trial');
+      });
+
+      it('should set cancellation reasons for cancellations, non-payment expiry and refunds', async () => {
+        const [canceled] = await normalizer.normalize(orgId, createRawWebhookEvent(
+          'recurly', JSON.stringify(createRecurlySubscriptionPayload('canceled')),
+        ));
+        const [expired] = await normalizer.normalize(orgId, createRawWebhookEvent(
+          'recurly', JSON.stringify(createRecurlySubscriptionPayload('expired', {
+            subscription: { uuid: 'sub_001', expires_at: '2025-02-01T00:00:00Z', expiration_reason: 'nonpayment' },
+          })),
+        ));
+        const [refund] = await normalizer.normalize(orgId, createRawWebhookEvent(
+          'recurly', JSON.stringify(createRecurlyRefundPayload()),
+        ));
+
+        expect(canceled.cancellationReason).toBe('voluntary');
+        expect(expired.cancellationReason).toBe('billing_failure');
+        expect(expired.expirationTime).toEqual(new Date('2025-02-01T00:00:00Z'));
+        expect(refund.cancellationReason).toBe('refund');
+      });
+    });
+
     // ─── Malformed payloads ─────────────────────────────────────────
     describe('malformed payloads', () => {
       it('should throw on invalid JSON', async () => {
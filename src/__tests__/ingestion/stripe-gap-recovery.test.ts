@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createTestBillingConnection } from '../helpers.js';
+
+const { mockReadCredentials } = vi.hoisted(() => ({
+  mockReadCredentials: vi.fn(),
+}));
+
+vi.mock('../../security/credentials.js', () => ({
+  readCredentials: mockReadCredentials,
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { stripeEvents } from '../../ingestion/recovery/stripe-events.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function stripeEvent(id: string, created: number) {
+  return { id, object: 'event', type: 'invoice.payment_succeeded', created, data: { object: {} } };
+}
+
+/**
+ * Runs the real Stripe client against a local stand-in for GET /v1/events
+ * (as with stripe-mock), serving two pages newest first.
+ */
+describe('stripeEvents gap recovery source', () => {
+  let server: Server;
+  let requests: URL[];
+  const connection = createTestBillingConnection('org_stripe_recovery', { source: 'stripe', credentials: 'encrypted' });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push(url);
+      const firstPage = !url.searchParams.get('starting_after');
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        object: 'list',
+        url: '/v1/events',
+        has_more: firstPage,
+        data: firstPage
+          ? [stripeEvent('evt_3', 300), stripeEvent('evt_2', 200)]
+          : [stripeEvent('evt_1', 100)],
+      }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.STRIPE_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.STRIPE_API_BASE_URL;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    mockReadCredentials.mockReturnValue({ apiKey: 'sk_test_123' });
+  });
+
+  it('should page through the window and return events oldest first', async () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - 2 * DAY);
+
+    const notifications = await stripeEvents.fetchNotifications(connection as any, from, to);
+
+    expect(notifications!.map(n => n.externalEventId)).toEqual(['evt_1', 'evt_2', 'evt_3']);
+    expect(JSON.parse(notifications![0].rawEvent.body)).toMatchObject({ id: 'evt_1', type: 'invoice.payment_succeeded' });
+    expect(requests).toHaveLength(2);
+    expect(requests[0].pathname).toBe('/v1/events');
+    expect(requests[0].searchParams.get('created[gte]')).toBe(String(Math.floor(from.getTime() / 1000)));
+    expect(requests[0].searchParams.get('types[0]')).toBe('invoice.payment_succeeded');
+    expect(requests[1].searchParams.get('starting_after')).toBe('evt_2');
+  });
+
+  it('should not ask for more than Stripe\'s 30 days of events', async () => {
+    const to = new Date();
+
+    await stripeEvents.fetchNotifications(connection as any, new Date(to.getTime() - 90 * DAY), to);
+
+    const gte = Number(requests[0].searchParams.get('created[gte]'));
+    expect(gte).toBe(Math.floor((to.getTime() - 30 * DAY) / 1000));
+  });
+
+  it('should return null when the connection has no API key', async () => {
+    mockReadCredentials.mockReturnValue({});
+
+    expect(await stripeEvents.fetchNotifications(connection as any, new Date(0), new Date())).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+});
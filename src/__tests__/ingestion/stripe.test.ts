@@ -63,6 +63,19 @@ describe('StripeNormalizer', () => {
         expect(events[0].currency).toBe('USD');
       });
 
+      it('should extract the tax on the invoice', async () => {
+        const withTaxRates = createStripeInvoicePayload({
+          dataObject: { total_tax_amounts: [{ amount: 300 }, { amount: 120 }] },
+        });
+        const legacy = createStripeInvoicePayload({ dataObject: { tax: 250 } });
+
+        const [taxed] = await normalizer.normalize(orgId, createRawWebhookEvent('stripe', JSON.stringify(withTaxRates)));
+        const [legacyTaxed] = await normalizer.normalize(orgId, createRawWebhookEvent('stripe', JSON.stringify(legacy)));
+
+        expect(taxed.taxCents).toBe(420);
+        expect(legacyTaxed.taxCents).toBe(250);
+      });
+
       it('should set correct idempotency key', async () => {
         const payload = createStripeInvoicePayload();
         const rawEvent = createRawWebhookEvent('stripe', JSON.stringify(payload));
@@ -427,6 +440,85 @@ describe('StripeNormalizer', () => {
       });
     });
 
+    // ─── Lifecycle fields ────────────────────────────────────────
+    describe('lifecycle fields', () => {
+      it('should extract period end, period type and environment from a subscription', async () => {
+        const payload = createStripeSubscriptionCreatedPayload({ livemode: true });
+        const rawEvent = createRawWebhookEvent('stripe', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].expirationTime).toEqual(new Date('2025-02-15T00:00:00Z'));
+        expect(events[0].periodType).toBe('normal');
+        expect(events[0].environment).toBe('production');
+      });
+
+      it('should mark test-mode events as sandbox', async () => {
+        const payload = createStripeInvoicePayload({ livemode: false });
+        const rawEvent = createRawWebhookEvent('stripe', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].environment).toBe('sandbox');
+      });
+
+      it('should take the period end and country from an invoice', async () => {
+        const payload = createStripeInvoicePayload({
+          dataObject: {
+            customer_address: { country: 'DE' },
+            lines: {
+              data: [{
+                price: { id: 'price_test123', unit_amount: 1999, currency: 'usd' },
+                period: { start: 1736899200, end: 1739577600 },
+              }],
+            },
+          },
+        });
+        const rawEvent = createRawWebhookEvent('stripe', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].expirationTime).toEqual(new Date(1739577600 * 1000));
+        expect(events[0].countryCode).toBe('DE');
+      });
+
+      it('should carry the cancellation reason on scheduled cancellations', async () => {
+        const payload = createStripeSubscriptionUpdatedPayload({
+          dataObject: {
+            cancel_at_period_end: true,
+            cancellation_details: { reason: 'cancellation_requested' },
+          },
+          previousAttributes: { cancel_at_period_end: false },
+        });
+        const rawEvent = createRawWebhookEvent('stripe', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].eventType).toBe('cancellation');
+        expect(events[0].cancellationReason).toBe('voluntary');
+        expect(events[0].expirationTime).toEqual(new Date('2025-02-15T00:00:00Z'));
+      });
+
+      it('should mark trialing subscriptions with the trial period type', async () => {
+        const payload = createStripeSubscriptionCreatedPayload();
+        payload.data.object.status = 'trialing';
+        const rawEvent = createRawWebhookEvent('stripe', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].periodType).toBe('trial');
+      });
+
+      it('should set refund as the cancellation reason on refunds', async () => {
+        const payload = createStripeChargeRefundedPayload();
+        const rawEvent = createRawWebhookEvent('stripe', JSON.stringify(payload));
+
+        const events = await normalizer.normalize(orgId, rawEvent);
+
+        expect(events[0].cancellationReason).toBe('refund');
+      });
+    });
+
     // ─── Unknown / skipped event types ───────────────────────────
     describe('unknown and skipped event types', () => {
       it('should return empty array for unmapped event types', async () => {
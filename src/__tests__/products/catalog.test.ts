@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createTestProduct, createTestEntitlement, resetUuidCounter } from '../helpers.js';
+
+const { mockReplayRun } = vi.hoisted(() => ({
+  mockReplayRun: vi.fn(),
+}));
+
+vi.mock('../../entitlement/replay.js', () => ({
+  EntitlementReplayer: class {
+    run = mockReplayRun;
+  },
+}));
+
+// Mock the logger
+vi.mock('../../config/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { ProductCatalog, mergeExternalIds } from '../../products/catalog.js';
+
+describe('ProductCatalog', () => {
+  const orgId = 'org_catalog_test';
+  let mockDb: any;
+  let catalog: ProductCatalog;
+
+  beforeEach(() => {
+    resetUuidCounter();
+    mockDb = createCatalogMockDb();
+    catalog = new ProductCatalog(mockDb);
+    mockReplayRun.mockResolvedValue({ errors: [] });
+  });
+
+  describe('mergeExternalIds', () => {
+    it('should combine IDs per source without duplicates', () => {
+      expect(mergeExternalIds(
+        { stripe: ['prod_a'], apple: ['com.app.premium'] },
+        { apple: ['com.app.premium', 'com.app.premium.annual'], google: ['premium'] },
+      )).toEqual({
+        stripe: ['prod_a'],
+        apple: ['com.app.premium', 'com.app.premium.annual'],
+        google: ['premium'],
+      });
+    });
+  });
+
+  describe('findConflicts', () => {
+    it('should report which product owns each taken external ID', async () => {
+      const owner = createTestProduct(orgId, { id: 'prod-owner', name: 'Premium' });
+      mockDb._queueAwaited([owner]);
+
+      const conflicts = await catalog.findConflicts(orgId, {
+        stripe: ['prod_test123', 'prod_free'],
+        google: ['premium'],
+      });
+
+      expect(conflicts).toEqual([
+        { source: 'stripe', externalId: 'prod_test123', productId: 'prod-owner', productName: 'Premium' },
+      ]);
+    });
+
+    it('should not query when no external IDs are given', async () => {
+      expect(await catalog.findConflicts(orgId, {})).toEqual([]);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('merge', () => {
+    const target = createTestProduct(orgId, { id: 'prod-target', externalIds: { stripe: ['prod_abc'] } });
+    const source = createTestProduct(orgId, { id: 'prod-source', externalIds: { apple: ['com.app.premium'] } });
+
+    it('should re-point events and entitlements to the target', async () => {
+      const ent = createTestEntitlement(orgId, 'user-1', source.id, { id: 'ent-apple', source: 'apple' });
+      // product update, then source and target entitlements
+      mockDb._queueAwaited([], [ent], []);
+      mockDb._queueReturning([{ id: 'evt-1' }, { id: 'evt-2' }], [], [{ id: 'issue-1' }]);
+
+      const result = await catalog.merge(orgId, target as any, source as any);
+
+      expect(result).toMatchObject({
+        targetProductId: target.id,
+        mergedProductId: source.id,
+        externalIds: { stripe: ['prod_abc'], apple: ['com.app.premium'] },
+        eventsMoved: 2,
+        entitlementsMoved: 1,
+        entitlementsRebuilt: 0,
+        issuesUpdated: 1,
+      });
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ autoCreated: false }));
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ productId: target.id }));
+      expect(mockReplayRun).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild users who had the same source on both products', async () => {
+      mockDb._queueAwaited(
+        [],
+        [createTestEntitlement(orgId, 'user-1', source.id, { id: 'ent-source', source: 'stripe' })],
+        [createTestEntitlement(orgId, 'user-1', target.id, { id: 'ent-target', source: 'stripe' })],
+      );
+
+      const result = await catalog.merge(orgId, target as any, source as any);
+
+      expect(result.entitlementsMoved).toBe(0);
+      expect(result.entitlementsRebuilt).toBe(1);
+      expect(mockReplayRun).toHaveBeenCalledWith({ orgId, userId: 'user-1' }, false);
+    });
+  });
+});
+
+/**
+ * Mock DB for the catalog. The transaction callback gets the same chain.
+ * Chains awaited after where() take results from the awaited queue;
+ * chains ending in returning() take them from the returning queue.
+ * Both fall back to an empty array.
+ */
+function createCatalogMockDb() {
+  let awaited: any[][] = [];
+  let returned: any[][] = [];
+
+  const chainable: any = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    delete: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockImplementation(() => Promise.resolve(awaited.shift() ?? [])),
+    returning: vi.fn().mockImplementation(() => Promise.resolve(returned.shift() ?? [])),
+    then: (resolve: any) => resolve(awaited.shift() ?? []),
+    transaction: vi.fn().mockImplementation((fn: any) => fn(chainable)),
+
+    _queueAwaited(...results: any[][]) {
+      awaited = results;
+    },
+    _queueReturning(...results: any[][]) {
+      returned = results;
+    },
+  };
+
+  return chainable;
+}
@@ -2,6 +2,8 @@ import { eq, and, desc, gte, inArray, count, sql, sum } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
 import { issues } from '../models/schema.js';
 import { callClaude, parseJsonFromResponse, isAiEnabled } from './client.js';
+import { getReportingCurrency } from '../config/org-settings.js';
+import { formatMoney } from '../currency/format.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('ai-grouper');
@@ -92,6 +94,8 @@ export async function findIncidentClusters(
     return [];
   }
 
+  const currency = await getReportingCurrency(db, orgId);
+
   // Group by issue type
   const byType = new Map<string, typeof openIssues>();
   for (const issue of openIssues) {
@@ -133,7 +137,7 @@ export async function findIncidentClusters(
 
       // Try to get AI-generated title/summary for significant clusters
       let title = `${issueType} cluster: ${cluster.length} issues in ${windowHours}h window`;
-      let summary = `${cluster.length} "${issueType}" issues detected between ${new Date(timeStart).toISOString()} and ${new Date(timeEnd).toISOString()}, affecting ${uniqueUsers.size} users with $${(totalRevenue / 100).toFixed(2)} total revenue impact.`;
+      let summary = `${cluster.length} "${issueType}" issues detected between ${new Date(timeStart).toISOString()} and ${new Date(timeEnd).toISOString()}, affecting ${uniqueUsers.size} users with ${formatMoney(totalRevenue, currency)} total revenue impact.`;
       let source: string | null = null;
 
       if (isAiEnabled() && cluster.length >= 5) {
@@ -141,7 +145,7 @@ export async function findIncidentClusters(
           issueType,
           cluster,
           uniqueUsers.size,
-          totalRevenue,
+          formatMoney(totalRevenue, currency),
         );
         if (aiSuggestion) {
           title = aiSuggestion.title;
@@ -228,7 +232,7 @@ async function getAiGroupingSuggestion(
   issueType: string,
   cluster: Array<{ title: string; evidence: unknown; createdAt: Date | string }>,
   affectedUsers: number,
-  totalRevenueCents: number,
+  totalRevenue: string,
 ): Promise<AiGroupingSuggestion | null> {
   const sampleIssues = cluster.slice(0, 10).map((i) => ({
     title: i.title,
@@ -236,7 +240,7 @@ async function getAiGroupingSuggestion(
     createdAt: i.createdAt,
   }));
 
-  const prompt = `I found a cluster of ${cluster.length} "${issueType}" issues occurring within a short time window, affecting ${affectedUsers} users with $${(totalRevenueCents / 100).toFixed(2)} total revenue impact.
+  const prompt = `I found a cluster of ${cluster.length} "${issueType}" issues occurring within a short time window, affecting ${affectedUsers} users with ${totalRevenue} total revenue impact.
 
 Here are sample issues from this cluster:
 ${JSON.stringify(sampleIssues, null, 2)}
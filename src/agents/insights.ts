@@ -2,10 +2,17 @@ import { eq, and, desc, gte, lt, count, sum } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
 import { issues, canonicalEvents, entitlements } from '../models/schema.js';
 import { callClaude, parseJsonFromResponse, isAiEnabled } from './client.js';
+import { getReportingCurrency } from '../config/org-settings.js';
+import { CurrencyConverter } from '../currency/fx.js';
+import { DEFAULT_CURRENCY, formatMoney } from '../currency/format.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('ai-insights');
 
+/** Revenue at risk worth an insight, in USD cents; converted to the reporting currency */
+const REVENUE_AT_RISK_WARNING_CENTS = 10000;
+const REVENUE_AT_RISK_CRITICAL_CENTS = 100000;
+
 // ─── Types ──────────────────────────────────────────────────────────
 
 export interface Insight {
@@ -105,6 +112,10 @@ export async function generateInsights(
 // ─── Metrics Collection ─────────────────────────────────────────────
 
 interface PeriodMetrics {
+  /** The org's reporting currency, which every revenue figure is in */
+  currency: string;
+  /** Revenue-at-risk thresholds in the reporting currency */
+  revenueThresholds: { warning: number; critical: number };
   current: {
     totalIssues: number;
     criticalIssues: number;
@@ -331,7 +342,17 @@ async function gatherMetrics(
     .where(eq(entitlements.orgId, orgId))
     .groupBy(entitlements.state);
 
+  const currency = await getReportingCurrency(db, orgId);
+  const converter = new CurrencyConverter(db);
+  const threshold = async (usdCents: number) =>
+    (await converter.convert(orgId, usdCents, DEFAULT_CURRENCY, currency, now)) ?? usdCents;
+
   return {
+    currency,
+    revenueThresholds: {
+      warning: await threshold(REVENUE_AT_RISK_WARNING_CENTS),
+      critical: await threshold(REVENUE_AT_RISK_CRITICAL_CENTS),
+    },
     current: {
       totalIssues: currentIssueCount.count,
       criticalIssues: currentCritical.count,
@@ -374,6 +395,7 @@ function generateRuleBasedInsights(metrics: PeriodMetrics, period: string): Insi
   const c = metrics.current;
   const p = metrics.previous;
   const periodLabel = period === 'daily' ? '24 hours' : '7 days';
+  const money = (cents: number) => formatMoney(cents, metrics.currency);
 
   // Issue volume change
   if (p.totalIssues > 0) {
@@ -418,16 +440,16 @@ function generateRuleBasedInsights(metrics: PeriodMetrics, period: string): Insi
   }
 
   // Revenue at risk
-  if (c.revenueAtRiskCents > 10000) {
+  if (c.revenueAtRiskCents > metrics.revenueThresholds.warning) {
     insights.push({
-      title: `$${(c.revenueAtRiskCents / 100).toFixed(0)} revenue at risk`,
-      description: `Open issues in the last ${periodLabel} represent $${(c.revenueAtRiskCents / 100).toFixed(2)} in potential revenue impact. ${
+      title: `${money(c.revenueAtRiskCents)} revenue at risk`,
+      description: `Open issues in the last ${periodLabel} represent ${money(c.revenueAtRiskCents)} in potential revenue impact. ${
         p.revenueAtRiskCents > 0
-          ? `This is ${c.revenueAtRiskCents > p.revenueAtRiskCents ? 'up' : 'down'} from $${(p.revenueAtRiskCents / 100).toFixed(2)} in the previous period.`
+          ? `This is ${c.revenueAtRiskCents > p.revenueAtRiskCents ? 'up' : 'down'} from ${money(p.revenueAtRiskCents)} in the previous period.`
           : ''
       }`,
       category: 'trend',
-      severity: c.revenueAtRiskCents > 100000 ? 'critical' : 'warning',
+      severity: c.revenueAtRiskCents > metrics.revenueThresholds.critical ? 'critical' : 'warning',
       metric: {
         name: 'revenue_at_risk_cents',
         current: c.revenueAtRiskCents,
@@ -479,7 +501,7 @@ function generateRuleBasedInsights(metrics: PeriodMetrics, period: string): Insi
         title: `"${dominant.type}" is the dominant issue type`,
         description: `${dominant.type} accounts for ${dominant.count} of ${c.totalIssues} total issues (${Math.round((dominant.count / c.totalIssues) * 100)}%). ${
           dominant.revenue > 0
-            ? `These issues represent $${(dominant.revenue / 100).toFixed(2)} in revenue impact.`
+            ? `These issues represent ${money(dominant.revenue)} in revenue impact.`
             : ''
         } Focus investigation efforts here for the biggest impact.`,
         category: 'recommendation',
@@ -505,10 +527,10 @@ async function generateAiInsights(
 - Warning issues: ${metrics.current.warningIssues}
 - Resolved: ${metrics.current.resolvedIssues}
 - Dismissed: ${metrics.current.dismissedIssues}
-- Revenue at risk: $${(metrics.current.revenueAtRiskCents / 100).toFixed(2)}
+- Revenue at risk: ${formatMoney(metrics.current.revenueAtRiskCents, metrics.currency)}
 - Total billing events: ${metrics.current.totalEvents}
 - Failed events: ${metrics.current.failedEvents}
-- Issues by type: ${JSON.stringify(metrics.current.issuesByType)}
+- Issues by type (revenue in ${metrics.currency} minor units): ${JSON.stringify(metrics.current.issuesByType)}
 - Events by source: ${JSON.stringify(metrics.current.eventsBySource)}
 
 ## Previous Period
@@ -516,7 +538,7 @@ async function generateAiInsights(
 - Critical: ${metrics.previous.criticalIssues}
 - Resolved: ${metrics.previous.resolvedIssues}
 - Dismissed: ${metrics.previous.dismissedIssues}
-- Revenue at risk: $${(metrics.previous.revenueAtRiskCents / 100).toFixed(2)}
+- Revenue at risk: ${formatMoney(metrics.previous.revenueAtRiskCents, metrics.currency)}
 - Events: ${metrics.previous.totalEvents}
 - Failed events: ${metrics.previous.failedEvents}
 
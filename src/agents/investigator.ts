@@ -9,6 +9,7 @@ import {
 } from '../models/schema.js';
 import type { Issue } from '../models/types.js';
 import { callClaude, parseJsonFromResponse, isAiEnabled } from './client.js';
+import { formatMoney } from '../currency/format.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('ai-investigator');
@@ -298,7 +299,7 @@ function buildInvestigationPrompt(issue: Issue, context: InvestigationContext):
 - **Title:** ${issue.title}
 - **Description:** ${issue.description}
 - **Confidence:** ${issue.confidence ?? 'N/A'}
-- **Estimated Revenue Impact:** ${issue.estimatedRevenueCents ? `$${(issue.estimatedRevenueCents / 100).toFixed(2)}` : 'Unknown'}
+- **Estimated Revenue Impact:** ${issue.estimatedRevenueCents ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency) : 'Unknown'}
 - **Detector:** ${issue.detectorId}
 - **Detected At:** ${issue.createdAt}
 - **Evidence:** ${JSON.stringify(issue.evidence, null, 2)}`);
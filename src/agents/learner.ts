@@ -149,6 +149,7 @@ export async function getDetectorHealthMetrics(
         detector.open += row.count;
         break;
       case 'acknowledged':
+      case 'snoozed':
         detector.acknowledged += row.count;
         break;
     }
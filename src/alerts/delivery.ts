@@ -0,0 +1,122 @@
+import type { Database } from '../config/database.js';
+import { alertDeliveryLogs } from '../models/schema.js';
+import type {
+  Issue,
+  AlertConfiguration,
+  AlertEscalation,
+  SlackAlertConfig,
+  EmailAlertConfig,
+  WebhookAlertConfig,
+  PagerDutyAlertConfig,
+  OpsgenieAlertConfig,
+  TeamsAlertConfig,
+  DiscordAlertConfig,
+} from '../models/types.js';
+import { sendSlackAlert } from './slack.js';
+import { sendEmailAlert } from './email.js';
+import { sendPagerDutyAlert } from './pagerduty.js';
+import { sendOpsgenieAlert } from './opsgenie.js';
+import { sendTeamsAlert } from './teams.js';
+import { sendDiscordAlert } from './discord.js';
+import { enqueueWebhookDelivery } from '../queue/webhook-delivery-worker.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-delivery');
+
+/**
+ * Send one issue through one alert configuration's channel and record
+ * it in the delivery log. Escalations are logged with their level.
+ * Webhooks are queued for delivery with retries and log their own
+ * attempts. Never throws; the result says whether it went out.
+ */
+export async function deliverAlert(
+  db: Database,
+  config: AlertConfiguration,
+  issue: Issue,
+  escalation?: AlertEscalation,
+): Promise<{ success: boolean; error?: string }> {
+  let result: { success: boolean; error?: string };
+
+  switch (config.channel) {
+    case 'slack': {
+      const slackConfig = config.config as unknown as SlackAlertConfig;
+      result = await sendSlackAlert(slackConfig.webhookUrl, issue, escalation);
+      break;
+    }
+    case 'email': {
+      const emailConfig = config.config as unknown as EmailAlertConfig;
+      result = await sendEmailAlert(emailConfig.recipients, issue, escalation);
+      break;
+    }
+    case 'webhook': {
+      const webhookConfig = config.config as unknown as WebhookAlertConfig;
+      // Webhooks are delivered async via BullMQ for retries
+      try {
+        await enqueueWebhookDelivery({
+          orgId: config.orgId,
+          alertConfigId: config.id,
+          issueId: issue.id,
+          issue,
+          config: webhookConfig,
+          eventType: 'issue.created',
+        });
+        result = { success: true };
+      } catch (err: any) {
+        result = { success: false, error: err.message };
+      }
+      break;
+    }
+    case 'pagerduty': {
+      const pagerdutyConfig = config.config as unknown as PagerDutyAlertConfig;
+      result = await sendPagerDutyAlert(pagerdutyConfig.routingKey, issue, escalation);
+      break;
+    }
+    case 'opsgenie': {
+      const opsgenieConfig = config.config as unknown as OpsgenieAlertConfig;
+      result = await sendOpsgenieAlert(opsgenieConfig.apiKey, issue, escalation, opsgenieConfig.region);
+      break;
+    }
+    case 'teams': {
+      const teamsConfig = config.config as unknown as TeamsAlertConfig;
+      result = await sendTeamsAlert(teamsConfig.webhookUrl, issue, escalation);
+      break;
+    }
+    case 'discord': {
+      const discordConfig = config.config as unknown as DiscordAlertConfig;
+      result = await sendDiscordAlert(discordConfig.webhookUrl, issue, escalation);
+      break;
+    }
+    default:
+      log.warn({ channel: config.channel }, 'Unknown alert channel');
+      return { success: false, error: `Unknown channel: ${config.channel}` };
+  }
+
+  // Log the delivery attempt (webhook logs its own via the worker)
+  if (config.channel !== 'webhook') {
+    await db.insert(alertDeliveryLogs).values({
+      orgId: config.orgId,
+      alertConfigId: config.id,
+      issueId: issue.id,
+      channel: config.channel,
+      status: result.success ? 'sent' : 'failed',
+      errorMessage: result.error || null,
+      escalationLevel: escalation?.level ?? 0,
+    }).catch((err) => {
+      log.error({ err, configId: config.id }, 'Failed to log alert delivery');
+    });
+  }
+
+  if (result.success) {
+    log.info(
+      { configId: config.id, channel: config.channel, issueId: issue.id, escalationLevel: escalation?.level },
+      'Alert dispatched successfully',
+    );
+  } else {
+    log.warn(
+      { configId: config.id, channel: config.channel, issueId: issue.id, error: result.error },
+      'Alert dispatch failed',
+    );
+  }
+
+  return result;
+}
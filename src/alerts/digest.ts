@@ -0,0 +1,161 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import type { Database } from '../config/database.js';
+import { alertDeliveryLogs, issues } from '../models/schema.js';
+import type {
+  Issue,
+  AlertConfiguration,
+  AlertDeliverySchedule,
+  AlertDigestPeriod,
+  SlackAlertConfig,
+  EmailAlertConfig,
+  TeamsAlertConfig,
+  DiscordAlertConfig,
+} from '../models/types.js';
+import { sendSlackDigest } from './slack.js';
+import { sendEmailDigest } from './email.js';
+import { sendTeamsDigest } from './teams.js';
+import { sendDiscordDigest } from './discord.js';
+import { localTime } from './local-time.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-digest');
+
+export const DEFAULT_BATCH_WINDOW_MINUTES = 15;
+export const DEFAULT_DIGEST_HOUR = 9;
+/** Weekly digests go out on Mondays unless configured otherwise */
+export const DEFAULT_DIGEST_DAY_OF_WEEK = 1;
+
+const SEVERITY_RANK: Record<string, number> = { critical: 0, warning: 1, info: 2 };
+
+/**
+ * What a batch or digest message covers, from the configuration's
+ * delivery mode and schedule.
+ */
+export function digestPeriod(config: Pick<AlertConfiguration, 'deliveryMode' | 'deliverySchedule'>): AlertDigestPeriod {
+  const schedule = (config.deliverySchedule ?? {}) as AlertDeliverySchedule;
+
+  if (config.deliveryMode === 'digest') {
+    return schedule.frequency === 'weekly'
+      ? { title: 'Weekly Digest', window: 'the last 7 days' }
+      : { title: 'Daily Digest', window: 'the last 24 hours' };
+  }
+
+  const minutes = schedule.windowMinutes ?? DEFAULT_BATCH_WINDOW_MINUTES;
+  const window = minutes % 60 === 0
+    ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}`
+    : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return { title: 'Alert Summary', window: `the last ${window}` };
+}
+
+/**
+ * Whether a digest is due in the hour containing `now`: its hour, and for
+ * weekly digests its day, in the schedule's timezone.
+ */
+export function isDigestDue(schedule: AlertDeliverySchedule, now: Date): boolean {
+  const { hour, weekday } = localTime(now, schedule.timezone ?? 'UTC');
+
+  if (hour !== (schedule.hour ?? DEFAULT_DIGEST_HOUR)) return false;
+  if (schedule.frequency === 'weekly') {
+    return weekday === (schedule.dayOfWeek ?? DEFAULT_DIGEST_DAY_OF_WEEK);
+  }
+  return true;
+}
+
+/** Most severe first, then by revenue at risk, so digests lead with what matters most */
+export function rankIssues(issuesList: Issue[]): Issue[] {
+  return [...issuesList].sort((a, b) =>
+    (SEVERITY_RANK[a.severity] ?? 3) - (SEVERITY_RANK[b.severity] ?? 3)
+    || (b.estimatedRevenueCents ?? 0) - (a.estimatedRevenueCents ?? 0),
+  );
+}
+
+/**
+ * Send one message for every issue waiting on a batched or digest alert
+ * configuration, then mark their delivery log entries sent. If the send
+ * fails they stay pending, with the error, so a retry or the next digest
+ * picks them up. Issues resolved, dismissed or snoozed while they waited
+ * are skipped rather than alerted on.
+ */
+export async function deliverPendingAlerts(
+  db: Database,
+  config: AlertConfiguration,
+): Promise<{ sent: number; skipped: number; failed: number }> {
+  const pending = await db
+    .select({ logId: alertDeliveryLogs.id, issue: issues })
+    .from(alertDeliveryLogs)
+    .innerJoin(issues, eq(alertDeliveryLogs.issueId, issues.id))
+    .where(
+      and(
+        eq(alertDeliveryLogs.alertConfigId, config.id),
+        eq(alertDeliveryLogs.status, 'pending'),
+      ),
+    );
+
+  const open = pending.filter(p => p.issue.status === 'open' || p.issue.status === 'acknowledged');
+  const closed = pending.filter(p => !open.includes(p));
+
+  if (closed.length > 0) {
+    await db
+      .update(alertDeliveryLogs)
+      .set({ status: 'skipped', errorMessage: 'Issue was closed before delivery', sentAt: new Date() })
+      .where(inArray(alertDeliveryLogs.id, closed.map(p => p.logId)));
+  }
+
+  if (open.length === 0) {
+    return { sent: 0, skipped: closed.length, failed: 0 };
+  }
+
+  const period = digestPeriod(config);
+  const ranked = rankIssues(open.map(p => p.issue));
+  let result: { success: boolean; error?: string };
+
+  switch (config.channel) {
+    case 'slack': {
+      const slackConfig = config.config as unknown as SlackAlertConfig;
+      result = await sendSlackDigest(slackConfig.webhookUrl, ranked, period);
+      break;
+    }
+    case 'email': {
+      const emailConfig = config.config as unknown as EmailAlertConfig;
+      result = await sendEmailDigest(emailConfig.recipients, ranked, period);
+      break;
+    }
+    case 'teams': {
+      const teamsConfig = config.config as unknown as TeamsAlertConfig;
+      result = await sendTeamsDigest(teamsConfig.webhookUrl, ranked, period);
+      break;
+    }
+    case 'discord': {
+      const discordConfig = config.config as unknown as DiscordAlertConfig;
+      result = await sendDiscordDigest(discordConfig.webhookUrl, ranked, period);
+      break;
+    }
+    default:
+      result = { success: false, error: `${config.channel} alerts can't be batched` };
+  }
+
+  await db
+    .update(alertDeliveryLogs)
+    .set(result.success
+      ? { status: 'sent', errorMessage: null, sentAt: new Date() }
+      : { errorMessage: result.error || null })
+    .where(inArray(alertDeliveryLogs.id, open.map(p => p.logId)));
+
+  if (result.success) {
+    log.info(
+      { configId: config.id, channel: config.channel, issueCount: open.length },
+      'Alert digest dispatched successfully',
+    );
+  } else {
+    log.warn(
+      { configId: config.id, channel: config.channel, issueCount: open.length, error: result.error },
+      'Alert digest dispatch failed',
+    );
+  }
+
+  return {
+    sent: result.success ? open.length : 0,
+    skipped: closed.length,
+    failed: result.success ? 0 : open.length,
+  };
+}
@@ -0,0 +1,271 @@
+import type { Issue, AlertDigestPeriod, AlertEscalation } from '../models/types.js';
+import { getEnv } from '../config/env.js';
+import { formatMoney } from '../currency/format.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-discord');
+
+/**
+ * Rate limiter: max 1 Discord message per second. Discord allows about
+ * five per two seconds per webhook and answers 429 beyond that.
+ */
+let lastSentAt = 0;
+const MIN_INTERVAL_MS = 1000;
+
+async function waitForRateLimit(): Promise<void> {
+  const now = Date.now();
+  const elapsed = now - lastSentAt;
+  if (elapsed < MIN_INTERVAL_MS) {
+    await new Promise((resolve) => setTimeout(resolve, MIN_INTERVAL_MS - elapsed));
+  }
+  lastSentAt = Date.now();
+}
+
+/** Discord's limits on embed text; longer messages are rejected outright */
+const EMBED_TITLE_MAX = 256;
+const EMBED_DESCRIPTION_MAX = 4096;
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}\u2026`;
+}
+
+/**
+ * Severity-to-color mapping for the embed's side bar, as Discord's
+ * integer colors.
+ */
+function severityColor(severity: string): number {
+  switch (severity) {
+    case 'critical':
+      return 0xdc2626; // red
+    case 'warning':
+      return 0xf59e0b; // yellow/amber
+    case 'info':
+      return 0x3b82f6; // blue
+    default:
+      return 0x6b7280; // gray
+  }
+}
+
+/**
+ * Severity-to-emoji mapping for the title.
+ */
+function severityEmoji(severity: string): string {
+  switch (severity) {
+    case 'critical':
+      return '\u{1F6A8}'; // rotating light
+    case 'warning':
+      return '\u{26A0}\u{FE0F}'; // warning
+    case 'info':
+      return '\u{2139}\u{FE0F}'; // info
+    default:
+      return '\u{1F514}'; // bell
+  }
+}
+
+/**
+ * Wrap embeds in a webhook message. Mentions are never parsed, so an
+ * issue title can't ping @everyone.
+ */
+function webhookMessage(embeds: unknown[]) {
+  return {
+    username: 'RevBack',
+    allowed_mentions: { parse: [] },
+    embeds,
+  };
+}
+
+/**
+ * Format an issue as a Discord embed. Escalations say how long the issue
+ * has been waiting for someone to acknowledge it.
+ */
+function formatDiscordMessage(issue: Issue, dashboardUrl: string, escalation?: AlertEscalation) {
+  const emoji = severityEmoji(issue.severity);
+  const revenueImpact = issue.estimatedRevenueCents
+    ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
+    : 'Unknown';
+  const confidence = issue.confidence
+    ? `${Math.round(issue.confidence * 100)}%`
+    : 'N/A';
+  const severity = issue.severity.charAt(0).toUpperCase() + issue.severity.slice(1);
+  const escalationLine = escalation
+    ? `**Still open after ${escalation.openMinutes} minutes.** Nobody has acknowledged this issue yet.\n\n`
+    : '';
+
+  return webhookMessage([
+    {
+      title: escalation
+        ? `${emoji} Unacknowledged ${severity} Billing Issue`
+        : `${emoji} ${severity} Billing Issue Detected`,
+      url: `${dashboardUrl}/issues/${issue.id}`,
+      color: severityColor(issue.severity),
+      description: truncate(`${escalationLine}**${issue.title}**\n${issue.description}`, EMBED_DESCRIPTION_MAX),
+      fields: [
+        { name: 'Type', value: `\`${issue.issueType}\``, inline: true },
+        { name: 'Severity', value: issue.severity.toUpperCase(), inline: true },
+        { name: 'Revenue Impact', value: revenueImpact, inline: true },
+        { name: 'Confidence', value: confidence, inline: true },
+      ],
+      footer: { text: `Issue ID: ${issue.id}` },
+      timestamp: new Date(issue.createdAt).toISOString(),
+    },
+  ]);
+}
+
+/** Escape what would end a markdown link's text early */
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]\\]/g, '\\$&');
+}
+
+/** Issues listed in a digest; the rest are counted */
+const DIGEST_TOP_ISSUES = 10;
+
+/**
+ * Format a batch of issues as one Discord embed: counts by severity,
+ * revenue at risk, and the first issues given.
+ */
+function formatDiscordDigest(issuesList: Issue[], period: AlertDigestPeriod, dashboardUrl: string) {
+  const count = (severity: string) => issuesList.filter(i => i.severity === severity).length;
+  const totalRevenue = issuesList.reduce((sum, i) => sum + (i.estimatedRevenueCents || 0), 0);
+  // Issue revenue is in the org's reporting currency, so any issue's currency is the digest's
+  const currency = issuesList.find(i => i.revenueCurrency)?.revenueCurrency ?? null;
+
+  const lines = issuesList.slice(0, DIGEST_TOP_ISSUES).map((issue) => {
+    const revenue = issue.estimatedRevenueCents
+      ? ` \u2014 ${formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)}`
+      : '';
+    const title = escapeLinkText(truncate(issue.title, EMBED_TITLE_MAX));
+    return `${severityEmoji(issue.severity)} [${title}](${dashboardUrl}/issues/${issue.id})${revenue}`;
+  });
+  if (issuesList.length > DIGEST_TOP_ISSUES) {
+    lines.push(`_...and ${issuesList.length - DIGEST_TOP_ISSUES} more_`);
+  }
+
+  return webhookMessage([
+    {
+      title: `\u{1F4CB} RevBack ${period.title}: ${issuesList.length} issue${issuesList.length === 1 ? '' : 's'}`,
+      url: `${dashboardUrl}/issues`,
+      color: severityColor(['critical', 'warning', 'info'].find(sev => count(sev) > 0) ?? 'info'),
+      description: truncate(`**Top issues**\n${lines.join('\n')}`, EMBED_DESCRIPTION_MAX),
+      fields: [
+        { name: 'Critical', value: String(count('critical')), inline: true },
+        { name: 'Warning', value: String(count('warning')), inline: true },
+        { name: 'Info', value: String(count('info')), inline: true },
+        { name: 'Revenue at Risk', value: formatMoney(totalRevenue, currency), inline: true },
+      ],
+      footer: { text: `Issues detected in ${period.window}` },
+    },
+  ]);
+}
+
+/**
+ * Format a test alert for verifying the Discord webhook.
+ */
+function formatTestMessage(dashboardUrl: string) {
+  return webhookMessage([
+    {
+      title: '\u2705 RevBack Test Alert',
+      url: dashboardUrl,
+      color: 0x22c55e, // green
+      description: 'Your Discord integration is working correctly. You will receive alerts here when billing issues are detected.',
+    },
+  ]);
+}
+
+/**
+ * POST a message to a Discord webhook, which answers 204 on success.
+ */
+async function postToDiscord(webhookUrl: string, payload: unknown): Promise<{ success: boolean; error?: string; status?: number; body?: string }> {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    return { success: false, error: `Discord returned ${response.status}: ${body}`, status: response.status, body };
+  }
+  return { success: true };
+}
+
+/**
+ * Send an issue alert to a Discord webhook URL, or an escalation of one.
+ */
+export async function sendDiscordAlert(
+  webhookUrl: string,
+  issue: Issue,
+  escalation?: AlertEscalation,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const env = getEnv();
+    await waitForRateLimit();
+
+    const result = await postToDiscord(webhookUrl, formatDiscordMessage(issue, env.DASHBOARD_URL, escalation));
+    if (!result.success) {
+      log.warn({ status: result.status, body: result.body, issueId: issue.id }, 'Discord webhook failed');
+      return { success: false, error: result.error };
+    }
+
+    log.info({ issueId: issue.id }, 'Discord alert sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err, issueId: issue.id }, 'Discord alert delivery error');
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send a digest of several issues as one message to a Discord webhook URL.
+ * Issues are listed in the order given.
+ */
+export async function sendDiscordDigest(
+  webhookUrl: string,
+  issuesList: Issue[],
+  period: AlertDigestPeriod,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (issuesList.length === 0) {
+      log.debug('No issues for digest, skipping');
+      return { success: true };
+    }
+
+    const env = getEnv();
+    await waitForRateLimit();
+
+    const result = await postToDiscord(webhookUrl, formatDiscordDigest(issuesList, period, env.DASHBOARD_URL));
+    if (!result.success) {
+      log.warn({ status: result.status, body: result.body, issueCount: issuesList.length }, 'Discord digest webhook failed');
+      return { success: false, error: result.error };
+    }
+
+    log.info({ issueCount: issuesList.length }, 'Discord digest sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err }, 'Discord digest delivery error');
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send a test message to a Discord webhook URL.
+ */
+export async function sendDiscordTestAlert(
+  webhookUrl: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const env = getEnv();
+    await waitForRateLimit();
+
+    const result = await postToDiscord(webhookUrl, formatTestMessage(env.DASHBOARD_URL));
+    if (!result.success) {
+      log.warn({ status: result.status, body: result.body }, 'Discord test webhook failed');
+      return { success: false, error: result.error };
+    }
+
+    log.info('Discord test alert sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err }, 'Discord test alert delivery error');
+    return { success: false, error: err.message };
+  }
+}
@@ -1,11 +1,12 @@
 import { eq, and } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
 import { alertConfigurations, alertDeliveryLogs } from '../models/schema.js';
-import type { Issue, SlackAlertConfig, EmailAlertConfig, WebhookAlertConfig, PagerDutyAlertConfig } from '../models/types.js';
-import { sendSlackAlert } from './slack.js';
-import { sendEmailAlert } from './email.js';
-import { sendPagerDutyAlert } from './pagerduty.js';
-import { enqueueWebhookDelivery } from '../queue/webhook-delivery-worker.js';
+import type { Issue, AlertConfiguration, AlertDeliverySchedule, AlertEscalationPolicy } from '../models/types.js';
+import { deliverAlert } from './delivery.js';
+import { loadActiveMutes, suppressionReason, recordSuppressedAlert } from './suppression.js';
+import { enqueueAlertBatch } from '../queue/alert-digest-worker.js';
+import { enqueueAlertEscalation } from '../queue/alert-escalation-worker.js';
+import { DEFAULT_BATCH_WINDOW_MINUTES } from './digest.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('alert-dispatcher');
@@ -16,6 +17,11 @@ const log = createChildLogger('alert-dispatcher');
  * Central function for dispatching alerts when new issues are detected.
  * Looks up all enabled alert configurations for the org, filters by
  * severity and issue type, and sends to all matching channels.
+ * Batched and digest configurations queue the issue instead; it goes
+ * out with the others when the batch window closes or the digest is due.
+ * Configurations with an escalation policy also schedule a check on
+ * whether the issue has been acknowledged. Mutes and quiet hours hold
+ * alerts back; see suppressionReason().
  */
 export async function dispatchAlert(
   db: Database,
@@ -39,6 +45,8 @@ export async function dispatchAlert(
       return;
     }
 
+    const mutes = await loadActiveMutes(db, orgId);
+
     for (const config of configs) {
       // Check severity filter
       const severityFilter = config.severityFilter as string[];
@@ -60,72 +68,61 @@ export async function dispatchAlert(
         continue;
       }
 
-      // Dispatch based on channel type
-      let result: { success: boolean; error?: string };
+      // Snoozed or muted issues, and quiet hours, are logged but not alerted on or escalated
+      const suppressed = suppressionReason(config, issue, mutes);
+      if (suppressed) {
+        await recordSuppressedAlert(db, config, issue, suppressed);
+        continue;
+      }
 
-      switch (config.channel) {
-        case 'slack': {
-          const slackConfig = config.config as unknown as SlackAlertConfig;
-          result = await sendSlackAlert(slackConfig.webhookUrl, issue);
-          break;
-        }
-        case 'email': {
-          const emailConfig = config.config as unknown as EmailAlertConfig;
-          result = await sendEmailAlert(emailConfig.recipients, issue);
-          break;
-        }
-        case 'webhook': {
-          const webhookConfig = config.config as unknown as WebhookAlertConfig;
-          // Webhooks are delivered async via BullMQ for retries
-          await enqueueWebhookDelivery({
-            orgId,
-            alertConfigId: config.id,
-            issueId: issue.id,
-            issue,
-            config: webhookConfig,
-            eventType: 'issue.created',
+      const escalation = config.escalationPolicy as AlertEscalationPolicy | null;
+      if (escalation && (escalation.severities ?? ['critical']).includes(issue.severity)) {
+        await enqueueAlertEscalation({ alertConfigId: config.id, issueId: issue.id, level: 1 }, escalation.afterMinutes)
+          .catch((err) => {
+            log.error({ err, configId: config.id, issueId: issue.id }, 'Failed to schedule alert escalation');
           });
-          result = { success: true };
-          break;
-        }
-        case 'pagerduty': {
-          const pagerdutyConfig = config.config as unknown as PagerDutyAlertConfig;
-          result = await sendPagerDutyAlert(pagerdutyConfig.routingKey, issue);
-          break;
-        }
-        default:
-          log.warn({ channel: config.channel }, 'Unknown alert channel');
-          continue;
       }
 
-      // Log the delivery attempt (webhook logs its own via the worker)
-      if (config.channel !== 'webhook') {
-        await db.insert(alertDeliveryLogs).values({
-          orgId,
-          alertConfigId: config.id,
-          issueId: issue.id,
-          channel: config.channel,
-          status: result.success ? 'sent' : 'failed',
-          errorMessage: result.error || null,
-        }).catch((err) => {
-          log.error({ err, configId: config.id }, 'Failed to log alert delivery');
+      if (config.deliveryMode !== 'immediate') {
+        await queueAlertDelivery(db, config, issue).catch((err) => {
+          log.error({ err, configId: config.id, issueId: issue.id }, 'Failed to queue alert for batched delivery');
         });
+        continue;
       }
 
-      if (result.success) {
-        log.info(
-          { configId: config.id, channel: config.channel, issueId: issue.id },
-          'Alert dispatched successfully',
-        );
-      } else {
-        log.warn(
-          { configId: config.id, channel: config.channel, issueId: issue.id, error: result.error },
-          'Alert dispatch failed',
-        );
-      }
+      await deliverAlert(db, config, issue);
     }
   } catch (err) {
     log.error({ err, orgId, issueId: issue.id }, 'Alert dispatch error');
     // Don't throw — alert failures should never break the detection pipeline
   }
 }
+
+/**
+ * Record an issue as pending delivery for a batched or digest alert
+ * configuration. Batches are scheduled as their first issue arrives;
+ * digests are picked up by the hourly digest job.
+ */
+async function queueAlertDelivery(
+  db: Database,
+  config: AlertConfiguration,
+  issue: Issue,
+): Promise<void> {
+  await db.insert(alertDeliveryLogs).values({
+    orgId: config.orgId,
+    alertConfigId: config.id,
+    issueId: issue.id,
+    channel: config.channel,
+    status: 'pending',
+  });
+
+  if (config.deliveryMode === 'batched') {
+    const schedule = (config.deliverySchedule ?? {}) as AlertDeliverySchedule;
+    await enqueueAlertBatch(config.id, schedule.windowMinutes ?? DEFAULT_BATCH_WINDOW_MINUTES);
+  }
+
+  log.debug(
+    { configId: config.id, deliveryMode: config.deliveryMode, issueId: issue.id },
+    'Alert queued for batched delivery',
+  );
+}
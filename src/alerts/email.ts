@@ -1,7 +1,8 @@
 import nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
-import type { Issue } from '../models/types.js';
+import type { Issue, AlertDigestPeriod, AlertEscalation } from '../models/types.js';
 import { getEnv } from '../config/env.js';
+import { formatMoney } from '../currency/format.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('alert-email');
@@ -51,9 +52,9 @@ function severityLabel(severity: string): string {
 
 // ─── HTML Templates ────────────────────────────────────────────────
 
-function immediateAlertHtml(issue: Issue, dashboardUrl: string): string {
+function immediateAlertHtml(issue: Issue, dashboardUrl: string, escalation?: AlertEscalation): string {
   const revenueImpact = issue.estimatedRevenueCents
-    ? `$${(issue.estimatedRevenueCents / 100).toFixed(2)}`
+    ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
     : 'Unknown';
   const confidence = issue.confidence
     ? `${Math.round(issue.confidence * 100)}%`
@@ -82,6 +83,16 @@ function immediateAlertHtml(issue: Issue, dashboardUrl: string): string {
             </td>
           </tr>
 
+${escalation ? `
+          <!-- Escalation -->
+          <tr>
+            <td style="padding:24px 32px 0;">
+              <p style="margin:0;padding:12px 16px;background-color:#fef2f2;border:1px solid #fecaca;border-radius:6px;color:#991b1b;font-size:14px;">
+                Still open after ${escalation.openMinutes} minutes. Nobody has acknowledged this issue yet.
+              </p>
+            </td>
+          </tr>
+` : ''}
           <!-- Severity Badge -->
           <tr>
             <td style="padding:24px 32px 0;">
@@ -160,9 +171,9 @@ function immediateAlertHtml(issue: Issue, dashboardUrl: string): string {
 </html>`;
 }
 
-function immediateAlertText(issue: Issue, dashboardUrl: string): string {
+function immediateAlertText(issue: Issue, dashboardUrl: string, escalation?: AlertEscalation): string {
   const revenueImpact = issue.estimatedRevenueCents
-    ? `$${(issue.estimatedRevenueCents / 100).toFixed(2)}`
+    ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
     : 'Unknown';
   const confidence = issue.confidence
     ? `${Math.round(issue.confidence * 100)}%`
@@ -170,8 +181,8 @@ function immediateAlertText(issue: Issue, dashboardUrl: string): string {
   const issueUrl = `${dashboardUrl}/issues/${issue.id}`;
 
   return `
-RevBack Alert — ${severityLabel(issue.severity)} Billing Issue Detected
-
+RevBack Alert — ${severityLabel(issue.severity)} Billing Issue ${escalation ? 'Unacknowledged' : 'Detected'}
+${escalation ? `\nStill open after ${escalation.openMinutes} minutes. Nobody has acknowledged this issue yet.\n` : ''}
 ${issue.title}
 
 ${issue.description}
@@ -188,8 +199,14 @@ Manage alert settings: ${dashboardUrl}/alerts
 `.trim();
 }
 
-function digestHtml(issuesList: Issue[], dashboardUrl: string): string {
+/** Issue revenue is in the org's reporting currency, so any issue's currency is the digest's */
+function digestCurrency(issuesList: Issue[]): string | null {
+  return issuesList.find(i => i.revenueCurrency)?.revenueCurrency ?? null;
+}
+
+function digestHtml(issuesList: Issue[], period: AlertDigestPeriod, dashboardUrl: string): string {
   const totalRevenue = issuesList.reduce((sum, i) => sum + (i.estimatedRevenueCents || 0), 0);
+  const currency = digestCurrency(issuesList);
   const criticalCount = issuesList.filter(i => i.severity === 'critical').length;
   const warningCount = issuesList.filter(i => i.severity === 'warning').length;
   const infoCount = issuesList.filter(i => i.severity === 'info').length;
@@ -197,7 +214,7 @@ function digestHtml(issuesList: Issue[], dashboardUrl: string): string {
   const issueRows = issuesList.slice(0, 20).map(issue => {
     const color = severityColor(issue.severity);
     const revenue = issue.estimatedRevenueCents
-      ? `$${(issue.estimatedRevenueCents / 100).toFixed(2)}`
+      ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
       : '-';
     return `
       <tr>
@@ -217,7 +234,7 @@ function digestHtml(issuesList: Issue[], dashboardUrl: string): string {
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>RevBack Daily Digest</title>
+  <title>RevBack ${period.title}</title>
 </head>
 <body style="margin:0;padding:0;background-color:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
   <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f3f4f6;padding:32px 16px;">
@@ -228,14 +245,14 @@ function digestHtml(issuesList: Issue[], dashboardUrl: string): string {
           <tr>
             <td style="background-color:#111827;padding:24px 32px;">
               <h1 style="margin:0;color:#ffffff;font-size:20px;font-weight:700;">RevBack</h1>
-              <p style="margin:4px 0 0;color:#9ca3af;font-size:12px;">Daily Issue Digest</p>
+              <p style="margin:4px 0 0;color:#9ca3af;font-size:12px;">${period.title}</p>
             </td>
           </tr>
 
           <!-- Summary -->
           <tr>
             <td style="padding:24px 32px;">
-              <h2 style="margin:0 0 16px;color:#111827;font-size:18px;">Issues in the last 24 hours</h2>
+              <h2 style="margin:0 0 16px;color:#111827;font-size:18px;">${issuesList.length} issue${issuesList.length === 1 ? '' : 's'} in ${period.window}</h2>
               <table width="100%" cellpadding="0" cellspacing="0">
                 <tr>
                   <td align="center" style="padding:12px;background-color:#fef2f2;border-radius:6px;">
@@ -254,8 +271,8 @@ function digestHtml(issuesList: Issue[], dashboardUrl: string): string {
                   </td>
                   <td width="8"></td>
                   <td align="center" style="padding:12px;background-color:#f9fafb;border-radius:6px;">
-                    <span style="color:#111827;font-size:24px;font-weight:700;">$${(totalRevenue / 100).toFixed(2)}</span><br>
-                    <span style="color:#6b7280;font-size:11px;font-weight:500;">Revenue Impact</span>
+                    <span style="color:#111827;font-size:24px;font-weight:700;">${formatMoney(totalRevenue, currency)}</span><br>
+                    <span style="color:#6b7280;font-size:11px;font-weight:500;">Revenue at Risk</span>
                   </td>
                 </tr>
               </table>
@@ -290,7 +307,7 @@ function digestHtml(issuesList: Issue[], dashboardUrl: string): string {
           <tr>
             <td style="background-color:#f9fafb;padding:16px 32px;border-top:1px solid #e5e7eb;">
               <p style="margin:0;color:#9ca3af;font-size:12px;text-align:center;">
-                You're receiving this daily digest because you configured alert notifications in RevBack.
+                You're receiving this digest because you configured alert notifications in RevBack.
                 <br>
                 <a href="${dashboardUrl}/alerts" style="color:#6b7280;">Manage alert settings</a>
               </p>
@@ -304,20 +321,21 @@ function digestHtml(issuesList: Issue[], dashboardUrl: string): string {
 </html>`;
 }
 
-function digestText(issuesList: Issue[], dashboardUrl: string): string {
+function digestText(issuesList: Issue[], period: AlertDigestPeriod, dashboardUrl: string): string {
   const totalRevenue = issuesList.reduce((sum, i) => sum + (i.estimatedRevenueCents || 0), 0);
+  const currency = digestCurrency(issuesList);
   const lines = issuesList.slice(0, 20).map(i => {
     const revenue = i.estimatedRevenueCents
-      ? `$${(i.estimatedRevenueCents / 100).toFixed(2)}`
+      ? formatMoney(i.estimatedRevenueCents, i.revenueCurrency)
       : '-';
     return `  [${i.severity.toUpperCase()}] ${i.title} (Impact: ${revenue})`;
   });
 
   return `
-RevBack Daily Digest
+RevBack ${period.title}
 
-Issues in the last 24 hours: ${issuesList.length}
-Total revenue impact: $${(totalRevenue / 100).toFixed(2)}
+Issues in ${period.window}: ${issuesList.length}
+Revenue at risk: ${formatMoney(totalRevenue, currency)}
 
 ${lines.join('\n')}
 ${issuesList.length > 20 ? `\n  ...and ${issuesList.length - 20} more issues` : ''}
@@ -384,11 +402,12 @@ function escapeHtml(str: string): string {
 // ─── Public API ────────────────────────────────────────────────────
 
 /**
- * Send an immediate alert email for a single issue.
+ * Send an immediate alert email for a single issue, or an escalation of one.
  */
 export async function sendEmailAlert(
   recipients: string[],
   issue: Issue,
+  escalation?: AlertEscalation,
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const transporter = getTransporter();
@@ -398,14 +417,16 @@ export async function sendEmailAlert(
 
     const env = getEnv();
     const from = env.SMTP_FROM || 'alerts@revback.io';
-    const subject = `[RevBack] ${severityLabel(issue.severity)}: ${issue.title}`;
+    const subject = escalation
+      ? `[RevBack] Unacknowledged ${severityLabel(issue.severity)}: ${issue.title}`
+      : `[RevBack] ${severityLabel(issue.severity)}: ${issue.title}`;
 
     await transporter.sendMail({
       from,
       to: recipients.join(', '),
       subject,
-      text: immediateAlertText(issue, env.DASHBOARD_URL),
-      html: immediateAlertHtml(issue, env.DASHBOARD_URL),
+      text: immediateAlertText(issue, env.DASHBOARD_URL, escalation),
+      html: immediateAlertHtml(issue, env.DASHBOARD_URL, escalation),
     });
 
     log.info({ issueId: issue.id, recipients: recipients.length }, 'Email alert sent');
@@ -417,11 +438,13 @@ export async function sendEmailAlert(
 }
 
 /**
- * Send a daily digest email summarizing recent issues.
+ * Send a digest email summarizing a batch of issues, in the order given:
+ * the first 20 are listed.
  */
 export async function sendEmailDigest(
   recipients: string[],
   issuesList: Issue[],
+  period: AlertDigestPeriod,
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const transporter = getTransporter();
@@ -438,15 +461,15 @@ export async function sendEmailDigest(
     const from = env.SMTP_FROM || 'alerts@revback.io';
     const criticalCount = issuesList.filter(i => i.severity === 'critical').length;
     const subject = criticalCount > 0
-      ? `[RevBack] Daily Digest: ${criticalCount} critical issue${criticalCount > 1 ? 's' : ''} + ${issuesList.length - criticalCount} more`
-      : `[RevBack] Daily Digest: ${issuesList.length} issue${issuesList.length > 1 ? 's' : ''} detected`;
+      ? `[RevBack] ${period.title}: ${criticalCount} critical issue${criticalCount > 1 ? 's' : ''} + ${issuesList.length - criticalCount} more`
+      : `[RevBack] ${period.title}: ${issuesList.length} issue${issuesList.length > 1 ? 's' : ''} detected`;
 
     await transporter.sendMail({
       from,
       to: recipients.join(', '),
       subject,
-      text: digestText(issuesList, env.DASHBOARD_URL),
-      html: digestHtml(issuesList, env.DASHBOARD_URL),
+      text: digestText(issuesList, period, env.DASHBOARD_URL),
+      html: digestHtml(issuesList, period, env.DASHBOARD_URL),
     });
 
     log.info({ recipients: recipients.length, issueCount: issuesList.length }, 'Email digest sent');
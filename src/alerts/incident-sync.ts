@@ -0,0 +1,248 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { eq, and, inArray } from 'drizzle-orm';
+import type { Database } from '../config/database.js';
+import { alertConfigurations, alertDeliveryLogs, issues } from '../models/schema.js';
+import type {
+  AlertConfiguration,
+  PagerDutyAlertConfig,
+  OpsgenieAlertConfig,
+} from '../models/types.js';
+import { sendPagerDutyResolve } from './pagerduty.js';
+import { sendOpsgenieClose } from './opsgenie.js';
+import { dispatchWebhookEvent } from './webhook-events.js';
+import { integrationAuditLog } from '../security/audit.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('incident-sync');
+
+/** Alert channels that open incidents, which are kept in step with the issue */
+export type IncidentTool = 'pagerduty' | 'opsgenie';
+
+const INCIDENT_TOOLS: IncidentTool[] = ['pagerduty', 'opsgenie'];
+
+const TOOL_NAMES: Record<IncidentTool, string> = {
+  pagerduty: 'PagerDuty',
+  opsgenie: 'Opsgenie',
+};
+
+/** Dedup keys and aliases are issue IDs; anything else (e.g. a test alert) isn't ours to sync */
+const ISSUE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * An acknowledgement or resolution made in an incident tool, for one of
+ * our issues.
+ */
+export interface IncidentUpdate {
+  action: 'acknowledge' | 'resolve';
+  issueId: string;
+  /** Who acted in the incident tool, when it says */
+  agent: string | null;
+  /** The incident tool's ID for the event or alert */
+  eventId: string | null;
+}
+
+// ─── Outbound ──────────────────────────────────────────────────────
+
+/**
+ * Resolve the PagerDuty incidents and close the Opsgenie alerts raised for
+ * an issue that has been resolved or dismissed. Only configurations that
+ * actually alerted on the issue are contacted, with the issue ID as the
+ * dedup key or alias the alert went out with. `exceptAlertConfigId` skips
+ * the configuration the resolution came from. Never throws.
+ */
+export async function resolveIncidents(
+  db: Database,
+  orgId: string,
+  issueId: string,
+  options: { exceptAlertConfigId?: string } = {},
+): Promise<void> {
+  try {
+    const alerted = await db
+      .selectDistinct({ alertConfigId: alertDeliveryLogs.alertConfigId })
+      .from(alertDeliveryLogs)
+      .where(
+        and(
+          eq(alertDeliveryLogs.orgId, orgId),
+          eq(alertDeliveryLogs.issueId, issueId),
+          eq(alertDeliveryLogs.status, 'sent'),
+          inArray(alertDeliveryLogs.channel, INCIDENT_TOOLS),
+        ),
+      );
+
+    const configIds = alerted
+      .map(a => a.alertConfigId)
+      .filter(id => id !== options.exceptAlertConfigId);
+    if (configIds.length === 0) return;
+
+    const configs = await db
+      .select()
+      .from(alertConfigurations)
+      .where(
+        and(
+          eq(alertConfigurations.orgId, orgId),
+          inArray(alertConfigurations.id, configIds),
+        ),
+      );
+
+    for (const config of configs) {
+      let result: { success: boolean; error?: string };
+
+      if (config.channel === 'pagerduty') {
+        const pagerdutyConfig = config.config as unknown as PagerDutyAlertConfig;
+        result = await sendPagerDutyResolve(pagerdutyConfig.routingKey, issueId);
+      } else {
+        const opsgenieConfig = config.config as unknown as OpsgenieAlertConfig;
+        result = await sendOpsgenieClose(opsgenieConfig.apiKey, issueId, opsgenieConfig.region);
+      }
+
+      if (!result.success) {
+        log.warn({ configId: config.id, channel: config.channel, issueId, error: result.error }, 'Failed to resolve incident');
+      }
+    }
+  } catch (err) {
+    log.error({ err, orgId, issueId }, 'Failed to resolve incidents');
+  }
+}
+
+// ─── Inbound ───────────────────────────────────────────────────────
+
+/**
+ * Verify the X-PagerDuty-Signature header of a V3 webhook: one or more
+ * comma-separated `v1=<hex HMAC-SHA256 of the raw body>` values, several
+ * while PagerDuty rotates the secret.
+ */
+export function verifyPagerDutySignature(
+  rawBody: string,
+  header: string | undefined,
+  secret: string,
+): boolean {
+  if (!header) return false;
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'));
+  return header.split(',').some((part) => {
+    const signature = part.trim();
+    if (!signature.startsWith('v1=')) return false;
+    const received = Buffer.from(signature.slice(3));
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+}
+
+/**
+ * Check the shared secret Opsgenie's outgoing webhook sends in the
+ * X-RevBack-Webhook-Secret header; Opsgenie doesn't sign its webhooks.
+ */
+export function verifyOpsgenieSecret(header: string | undefined, secret: string): boolean {
+  if (!header) return false;
+
+  const received = Buffer.from(header);
+  const expected = Buffer.from(secret);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Read an acknowledgement or resolution from a PagerDuty V3 webhook.
+ * Other event types, and incidents RevBack didn't raise, give null.
+ */
+export function parsePagerDutyWebhook(payload: any): IncidentUpdate | null {
+  const event = payload?.event;
+  const action = event?.event_type === 'incident.acknowledged'
+    ? 'acknowledge'
+    : event?.event_type === 'incident.resolved' ? 'resolve' : null;
+  const issueId = event?.data?.incident_key;
+
+  if (!action || typeof issueId !== 'string' || !ISSUE_ID_PATTERN.test(issueId)) return null;
+
+  return {
+    action,
+    issueId,
+    agent: typeof event.agent?.summary === 'string' ? event.agent.summary : null,
+    eventId: typeof event.id === 'string' ? event.id : null,
+  };
+}
+
+/**
+ * Read an acknowledgement or close from an Opsgenie outgoing webhook.
+ * Other actions, and alerts RevBack didn't raise, give null.
+ */
+export function parseOpsgenieWebhook(payload: any): IncidentUpdate | null {
+  const action = payload?.action === 'Acknowledge'
+    ? 'acknowledge'
+    : payload?.action === 'Close' ? 'resolve' : null;
+  const alert = payload?.alert;
+  const issueId = alert?.alias;
+
+  if (!action || typeof issueId !== 'string' || !ISSUE_ID_PATTERN.test(issueId)) return null;
+
+  return {
+    action,
+    issueId,
+    agent: typeof alert.username === 'string' ? alert.username : null,
+    eventId: typeof alert.alertId === 'string' ? alert.alertId : null,
+  };
+}
+
+/**
+ * Apply an incident tool's acknowledgement or resolution to the issue,
+ * recording it in the audit log with the tool as the actor. Resolutions
+ * are passed on to the org's other incident tools. Issues already past
+ * that state are left alone, which also stops our own resolve events
+ * echoing back.
+ */
+export async function applyIncidentUpdate(
+  db: Database,
+  config: AlertConfiguration,
+  update: IncidentUpdate,
+): Promise<'acknowledged' | 'resolved' | 'ignored'> {
+  const tool = config.channel as IncidentTool;
+  const now = new Date();
+
+  const [updated] = update.action === 'acknowledge'
+    ? await db
+      .update(issues)
+      .set({ status: 'acknowledged', snoozedUntil: null, updatedAt: now })
+      .where(
+        and(
+          eq(issues.orgId, config.orgId),
+          eq(issues.id, update.issueId),
+          inArray(issues.status, ['open', 'snoozed']),
+        ),
+      )
+      .returning({ id: issues.id })
+    : await db
+      .update(issues)
+      .set({
+        status: 'resolved',
+        resolvedAt: now,
+        resolvedBy: tool,
+        resolution: `Resolved in ${TOOL_NAMES[tool]}${update.agent ? ` by ${update.agent}` : ''}`,
+        snoozedUntil: null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(issues.orgId, config.orgId),
+          eq(issues.id, update.issueId),
+          inArray(issues.status, ['open', 'acknowledged', 'snoozed']),
+        ),
+      )
+      .returning({ id: issues.id });
+
+  if (!updated) return 'ignored';
+
+  const status = update.action === 'acknowledge' ? 'acknowledged' : 'resolved';
+
+  log.info({ issueId: update.issueId, tool, configId: config.id, status }, 'Issue updated from incident tool');
+
+  dispatchWebhookEvent(db, config.orgId, update.issueId, `issue.${status}`).catch(() => {});
+  integrationAuditLog(db, config.orgId, tool, `issue.${status}`, 'issue', update.issueId, {
+    alertConfigId: config.id,
+    agent: update.agent,
+    eventId: update.eventId,
+  });
+
+  if (status === 'resolved') {
+    resolveIncidents(db, config.orgId, update.issueId, { exceptAlertConfigId: config.id }).catch(() => {});
+  }
+
+  return status;
+}
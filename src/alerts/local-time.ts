@@ -0,0 +1,31 @@
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * The wall-clock time at `now` in an IANA timezone: hour (0-23), minute,
+ * and weekday (0 = Sunday).
+ */
+export function localTime(now: Date, timeZone: string): { hour: number; minute: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+  };
+}
+
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
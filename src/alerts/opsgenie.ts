@@ -0,0 +1,178 @@
+import type { Issue, AlertEscalation, OpsgenieRegion } from '../models/types.js';
+import { getEnv } from '../config/env.js';
+import { formatMoney } from '../currency/format.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-opsgenie');
+
+/** Opsgenie keeps EU accounts' data in a separate API region */
+const OPSGENIE_API_URLS: Record<OpsgenieRegion, string> = {
+  us: 'https://api.opsgenie.com/v2/alerts',
+  eu: 'https://api.eu.opsgenie.com/v2/alerts',
+};
+
+/** Opsgenie rejects alert messages longer than this */
+const MAX_MESSAGE_LENGTH = 130;
+
+/**
+ * Map RevBack severity to Opsgenie priority.
+ * Opsgenie supports P1 (highest) through P5.
+ */
+function mapPriority(severity: string): 'P1' | 'P3' | 'P5' {
+  switch (severity) {
+    case 'critical':
+      return 'P1';
+    case 'info':
+      return 'P5';
+    default:
+      return 'P3';
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 3)}...`;
+}
+
+/**
+ * Build an Opsgenie Alert API create payload. The alias is the issue ID,
+ * so escalations land on the same alert and closing can find it again.
+ */
+function buildAlertPayload(issue: Issue, dashboardUrl: string, escalation?: AlertEscalation) {
+  const revenueImpact = issue.estimatedRevenueCents
+    ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
+    : 'Unknown';
+  const confidence = issue.confidence
+    ? `${Math.round(issue.confidence * 100)}%`
+    : 'N/A';
+
+  // Opsgenie only accepts string values in details
+  const details: Record<string, string> = {
+    issue_id: issue.id,
+    issue_type: issue.issueType,
+    revenue_impact: revenueImpact,
+    confidence,
+    dashboard_url: `${dashboardUrl}/issues/${issue.id}`,
+  };
+  if (escalation) {
+    details.escalation_level = String(escalation.level);
+    details.open_minutes = String(escalation.openMinutes);
+  }
+
+  return {
+    message: truncate(
+      escalation
+        ? `[RevBack] ${issue.severity.toUpperCase()} (unacknowledged ${escalation.openMinutes}m): ${issue.title}`
+        : `[RevBack] ${issue.severity.toUpperCase()}: ${issue.title}`,
+      MAX_MESSAGE_LENGTH,
+    ),
+    alias: issue.id,
+    description: issue.description,
+    priority: mapPriority(issue.severity),
+    source: 'revback',
+    entity: issue.issueType,
+    tags: ['revback', issue.severity, issue.issueType],
+    details,
+  };
+}
+
+async function postToOpsgenie(url: string, apiKey: string, payload: unknown): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `GenieKey ${apiKey}`,
+    },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(10_000),
+  });
+}
+
+/**
+ * Send an issue alert to Opsgenie via the Alert API.
+ */
+export async function sendOpsgenieAlert(
+  apiKey: string,
+  issue: Issue,
+  escalation?: AlertEscalation,
+  region: OpsgenieRegion = 'us',
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const env = getEnv();
+    const payload = buildAlertPayload(issue, env.DASHBOARD_URL, escalation);
+
+    const response = await postToOpsgenie(OPSGENIE_API_URLS[region], apiKey, payload);
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      log.warn({ status: response.status, body, issueId: issue.id }, 'Opsgenie alert failed');
+      return { success: false, error: `Opsgenie returned ${response.status}: ${body}` };
+    }
+
+    log.info({ issueId: issue.id, alias: issue.id }, 'Opsgenie alert sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err, issueId: issue.id }, 'Opsgenie alert delivery error');
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Close a previously created Opsgenie alert by its alias.
+ */
+export async function sendOpsgenieClose(
+  apiKey: string,
+  alias: string,
+  region: OpsgenieRegion = 'us',
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const url = `${OPSGENIE_API_URLS[region]}/${encodeURIComponent(alias)}/close?identifierType=alias`;
+    const response = await postToOpsgenie(url, apiKey, {
+      source: 'revback',
+      note: 'Closed in RevBack',
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      log.warn({ status: response.status, body, alias }, 'Opsgenie close failed');
+      return { success: false, error: `Opsgenie returned ${response.status}: ${body}` };
+    }
+
+    log.info({ alias }, 'Opsgenie close sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err, alias }, 'Opsgenie close delivery error');
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send a low-priority test alert to Opsgenie to verify the API key.
+ */
+export async function sendOpsgenieTestAlert(
+  apiKey: string,
+  region: OpsgenieRegion = 'us',
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await postToOpsgenie(OPSGENIE_API_URLS[region], apiKey, {
+      message: '[RevBack] Test Alert - Your Opsgenie integration is working correctly',
+      alias: 'revback-test-alert',
+      description: 'This is a test alert to verify your Opsgenie integration. You will receive alerts here when billing issues are detected.',
+      priority: 'P5',
+      source: 'revback',
+      entity: 'test',
+      tags: ['revback', 'test'],
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      log.warn({ status: response.status, body }, 'Opsgenie test alert failed');
+      return { success: false, error: `Opsgenie returned ${response.status}: ${body}` };
+    }
+
+    log.info('Opsgenie test alert sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err }, 'Opsgenie test alert delivery error');
+    return { success: false, error: err.message };
+  }
+}
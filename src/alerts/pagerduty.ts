@@ -1,5 +1,6 @@
-import type { Issue } from '../models/types.js';
+import type { Issue, AlertEscalation } from '../models/types.js';
 import { getEnv } from '../config/env.js';
+import { formatMoney } from '../currency/format.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('alert-pagerduty');
@@ -24,11 +25,12 @@ function mapSeverity(severity: string): 'critical' | 'error' | 'warning' | 'info
 }
 
 /**
- * Build a PagerDuty Events API v2 trigger payload.
+ * Build a PagerDuty Events API v2 trigger payload. Escalations keep the
+ * issue's dedup key, so they land on the same incident.
  */
-function buildTriggerPayload(routingKey: string, issue: Issue, dashboardUrl: string) {
+function buildTriggerPayload(routingKey: string, issue: Issue, dashboardUrl: string, escalation?: AlertEscalation) {
   const revenueImpact = issue.estimatedRevenueCents
-    ? `$${(issue.estimatedRevenueCents / 100).toFixed(2)}`
+    ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
     : 'Unknown';
   const confidence = issue.confidence
     ? `${Math.round(issue.confidence * 100)}%`
@@ -40,7 +42,9 @@ function buildTriggerPayload(routingKey: string, issue: Issue, dashboardUrl: str
     event_action: 'trigger' as const,
     dedup_key: issue.id,
     payload: {
-      summary: `[RevBack] ${issue.severity.toUpperCase()}: ${issue.title}`,
+      summary: escalation
+        ? `[RevBack] ${issue.severity.toUpperCase()} (unacknowledged ${escalation.openMinutes}m): ${issue.title}`
+        : `[RevBack] ${issue.severity.toUpperCase()}: ${issue.title}`,
       source: 'revback',
       severity: mapSeverity(issue.severity),
       timestamp: new Date(issue.createdAt).toISOString(),
@@ -52,6 +56,7 @@ function buildTriggerPayload(routingKey: string, issue: Issue, dashboardUrl: str
         revenue_impact: revenueImpact,
         confidence,
         dashboard_url: issueUrl,
+        ...(escalation ? { escalation_level: escalation.level, open_minutes: escalation.openMinutes } : {}),
       },
     },
     links: [
@@ -69,10 +74,11 @@ function buildTriggerPayload(routingKey: string, issue: Issue, dashboardUrl: str
 export async function sendPagerDutyAlert(
   routingKey: string,
   issue: Issue,
+  escalation?: AlertEscalation,
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const env = getEnv();
-    const payload = buildTriggerPayload(routingKey, issue, env.DASHBOARD_URL);
+    const payload = buildTriggerPayload(routingKey, issue, env.DASHBOARD_URL, escalation);
 
     const response = await fetch(PAGERDUTY_EVENTS_URL, {
       method: 'POST',
@@ -1,5 +1,6 @@
-import type { Issue } from '../models/types.js';
+import type { Issue, AlertDigestPeriod, AlertEscalation } from '../models/types.js';
 import { getEnv } from '../config/env.js';
+import { formatMoney } from '../currency/format.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('alert-slack');
@@ -52,18 +53,20 @@ function severityEmoji(severity: string): string {
 }
 
 /**
- * Format an issue as a rich Slack Block Kit message.
+ * Format an issue as a rich Slack Block Kit message. Escalations say how
+ * long the issue has been waiting for someone to acknowledge it.
  */
-function formatSlackMessage(issue: Issue, dashboardUrl: string) {
+function formatSlackMessage(issue: Issue, dashboardUrl: string, escalation?: AlertEscalation) {
   const emoji = severityEmoji(issue.severity);
   const color = severityColor(issue.severity);
   const revenueImpact = issue.estimatedRevenueCents
-    ? `$${(issue.estimatedRevenueCents / 100).toFixed(2)}`
+    ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
     : 'Unknown';
   const confidence = issue.confidence
     ? `${Math.round(issue.confidence * 100)}%`
     : 'N/A';
   const issueUrl = `${dashboardUrl}/issues/${issue.id}`;
+  const severity = issue.severity.charAt(0).toUpperCase() + issue.severity.slice(1);
 
   return {
     attachments: [
@@ -74,10 +77,21 @@ function formatSlackMessage(issue: Issue, dashboardUrl: string) {
             type: 'header',
             text: {
               type: 'plain_text',
-              text: `${emoji} ${issue.severity.charAt(0).toUpperCase() + issue.severity.slice(1)} Billing Issue Detected`,
+              text: escalation
+                ? `${emoji} Unacknowledged ${severity} Billing Issue`
+                : `${emoji} ${severity} Billing Issue Detected`,
               emoji: true,
             },
           },
+          ...(escalation
+            ? [{
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `*Still open after ${escalation.openMinutes} minutes.* Nobody has acknowledged this issue yet.`,
+              },
+            }]
+            : []),
           {
             type: 'section',
             fields: [
@@ -136,6 +150,106 @@ function formatSlackMessage(issue: Issue, dashboardUrl: string) {
   };
 }
 
+/** Slack's escaping for text inside mrkdwn, so titles can't break the links they sit in */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Issues listed in a digest; the rest are counted */
+const DIGEST_TOP_ISSUES = 10;
+
+/**
+ * Format a batch of issues as one Slack message: counts by severity,
+ * revenue at risk, and the first issues given.
+ */
+function formatSlackDigest(issuesList: Issue[], period: AlertDigestPeriod, dashboardUrl: string) {
+  const count = (severity: string) => issuesList.filter(i => i.severity === severity).length;
+  const criticalCount = count('critical');
+  const totalRevenue = issuesList.reduce((sum, i) => sum + (i.estimatedRevenueCents || 0), 0);
+  // Issue revenue is in the org's reporting currency, so any issue's currency is the digest's
+  const currency = issuesList.find(i => i.revenueCurrency)?.revenueCurrency ?? null;
+
+  const lines = issuesList.slice(0, DIGEST_TOP_ISSUES).map((issue) => {
+    const revenue = issue.estimatedRevenueCents
+      ? ` \u2014 ${formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)}`
+      : '';
+    return `${severityEmoji(issue.severity)} <${dashboardUrl}/issues/${issue.id}|${escapeMrkdwn(issue.title)}>${revenue}`;
+  });
+  if (issuesList.length > DIGEST_TOP_ISSUES) {
+    lines.push(`_...and ${issuesList.length - DIGEST_TOP_ISSUES} more_`);
+  }
+
+  return {
+    attachments: [
+      {
+        color: severityColor(['critical', 'warning', 'info'].find(sev => count(sev) > 0) ?? 'info'),
+        blocks: [
+          {
+            type: 'header',
+            text: {
+              type: 'plain_text',
+              text: `\u{1F4CB} RevBack ${period.title}: ${issuesList.length} issue${issuesList.length === 1 ? '' : 's'}`,
+              emoji: true,
+            },
+          },
+          {
+            type: 'section',
+            fields: [
+              {
+                type: 'mrkdwn',
+                text: `*Critical:*\n${criticalCount}`,
+              },
+              {
+                type: 'mrkdwn',
+                text: `*Warning:*\n${count('warning')}`,
+              },
+              {
+                type: 'mrkdwn',
+                text: `*Info:*\n${count('info')}`,
+              },
+              {
+                type: 'mrkdwn',
+                text: `*Revenue at Risk:*\n${formatMoney(totalRevenue, currency)}`,
+              },
+            ],
+          },
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `*Top issues*\n${lines.join('\n')}`,
+            },
+          },
+          {
+            type: 'actions',
+            elements: [
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: 'View All Issues \u2192',
+                  emoji: true,
+                },
+                url: `${dashboardUrl}/issues`,
+                style: 'primary',
+              },
+            ],
+          },
+          {
+            type: 'context',
+            elements: [
+              {
+                type: 'mrkdwn',
+                text: `Issues detected in ${period.window}`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
 /**
  * Format a test alert for verifying the Slack webhook.
  */
@@ -182,17 +296,18 @@ function formatTestMessage(dashboardUrl: string) {
 }
 
 /**
- * Send an issue alert to a Slack webhook URL.
+ * Send an issue alert to a Slack webhook URL, or an escalation of one.
  */
 export async function sendSlackAlert(
   webhookUrl: string,
   issue: Issue,
+  escalation?: AlertEscalation,
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const env = getEnv();
     await waitForRateLimit();
 
-    const payload = formatSlackMessage(issue, env.DASHBOARD_URL);
+    const payload = formatSlackMessage(issue, env.DASHBOARD_URL, escalation);
 
     const response = await fetch(webhookUrl, {
       method: 'POST',
@@ -214,6 +329,46 @@ export async function sendSlackAlert(
   }
 }
 
+/**
+ * Send a digest of several issues as one message to a Slack webhook URL.
+ * Issues are listed in the order given.
+ */
+export async function sendSlackDigest(
+  webhookUrl: string,
+  issuesList: Issue[],
+  period: AlertDigestPeriod,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (issuesList.length === 0) {
+      log.debug('No issues for digest, skipping');
+      return { success: true };
+    }
+
+    const env = getEnv();
+    await waitForRateLimit();
+
+    const payload = formatSlackDigest(issuesList, period, env.DASHBOARD_URL);
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      log.warn({ status: response.status, body, issueCount: issuesList.length }, 'Slack digest webhook failed');
+      return { success: false, error: `Slack returned ${response.status}: ${body}` };
+    }
+
+    log.info({ issueCount: issuesList.length }, 'Slack digest sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err }, 'Slack digest delivery error');
+    return { success: false, error: err.message };
+  }
+}
+
 /**
  * Send a test message to a Slack webhook URL.
  */
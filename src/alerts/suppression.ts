@@ -0,0 +1,99 @@
+import { eq, and, gt } from 'drizzle-orm';
+import type { Database } from '../config/database.js';
+import { alertMutes, alertDeliveryLogs } from '../models/schema.js';
+import type { Issue, AlertConfiguration, AlertMute, AlertQuietHours } from '../models/types.js';
+import { localTime } from './local-time.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-suppression');
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `now` falls within quiet hours, in their timezone. The start
+ * is inclusive and the end exclusive; a window that ends before it
+ * starts runs past midnight.
+ */
+export function isQuietHours(quietHours: AlertQuietHours, now: Date): boolean {
+  const { hour, minute } = localTime(now, quietHours.timezone);
+  const current = hour * 60 + minute;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/** The org's mutes that haven't expired yet */
+export async function loadActiveMutes(db: Database, orgId: string, now = new Date()): Promise<AlertMute[]> {
+  return db
+    .select()
+    .from(alertMutes)
+    .where(
+      and(
+        eq(alertMutes.orgId, orgId),
+        gt(alertMutes.mutedUntil, now),
+      ),
+    );
+}
+
+/** A mute covers an issue when every field it sets matches */
+export function findMute(mutes: AlertMute[], issue: Pick<Issue, 'issueType' | 'userId'>): AlertMute | undefined {
+  return mutes.find(mute =>
+    (mute.issueType === null || mute.issueType === issue.issueType)
+    && (mute.userId === null || mute.userId === issue.userId),
+  );
+}
+
+/**
+ * Why an alert configuration shouldn't alert on an issue right now: the
+ * issue is snoozed, muted, or it's the config's quiet hours and the issue
+ * isn't a critical one allowed through. Digests already go out at a set
+ * hour, so quiet hours don't hold them back. Null when it should alert.
+ */
+export function suppressionReason(
+  config: Pick<AlertConfiguration, 'quietHours' | 'deliveryMode'>,
+  issue: Pick<Issue, 'issueType' | 'userId' | 'severity' | 'status'>,
+  mutes: AlertMute[],
+  now = new Date(),
+): string | null {
+  if (issue.status === 'snoozed') return 'Issue is snoozed';
+
+  const mute = findMute(mutes, issue);
+  if (mute) return `Muted until ${mute.mutedUntil.toISOString()}`;
+
+  const quietHours = config.quietHours as AlertQuietHours | null;
+  if (quietHours && config.deliveryMode !== 'digest' && isQuietHours(quietHours, now)) {
+    const criticalAllowed = issue.severity === 'critical' && quietHours.allowCritical !== false;
+    if (!criticalAllowed) return 'Quiet hours';
+  }
+
+  return null;
+}
+
+/** Record an alert that wasn't sent, and why, in the delivery log */
+export async function recordSuppressedAlert(
+  db: Database,
+  config: AlertConfiguration,
+  issue: Pick<Issue, 'id'>,
+  reason: string,
+  escalationLevel = 0,
+): Promise<void> {
+  await db.insert(alertDeliveryLogs).values({
+    orgId: config.orgId,
+    alertConfigId: config.id,
+    issueId: issue.id,
+    channel: config.channel,
+    status: 'suppressed',
+    errorMessage: reason,
+    escalationLevel,
+  }).catch((err) => {
+    log.error({ err, configId: config.id }, 'Failed to log suppressed alert');
+  });
+
+  log.debug({ configId: config.id, issueId: issue.id, reason }, 'Alert suppressed');
+}
@@ -0,0 +1,344 @@
+import type { Issue, AlertDigestPeriod, AlertEscalation } from '../models/types.js';
+import { getEnv } from '../config/env.js';
+import { formatMoney } from '../currency/format.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-teams');
+
+/**
+ * Rate limiter: max 1 Teams message per second, well under the
+ * per-webhook throttling Teams applies to bursts.
+ */
+let lastSentAt = 0;
+const MIN_INTERVAL_MS = 1000;
+
+async function waitForRateLimit(): Promise<void> {
+  const now = Date.now();
+  const elapsed = now - lastSentAt;
+  if (elapsed < MIN_INTERVAL_MS) {
+    await new Promise((resolve) => setTimeout(resolve, MIN_INTERVAL_MS - elapsed));
+  }
+  lastSentAt = Date.now();
+}
+
+/**
+ * Severity-to-color mapping. Adaptive Cards only take named colors.
+ */
+function severityColor(severity: string): 'Attention' | 'Warning' | 'Accent' | 'Default' {
+  switch (severity) {
+    case 'critical':
+      return 'Attention';
+    case 'warning':
+      return 'Warning';
+    case 'info':
+      return 'Accent';
+    default:
+      return 'Default';
+  }
+}
+
+/**
+ * Severity-to-emoji mapping for the title.
+ */
+function severityEmoji(severity: string): string {
+  switch (severity) {
+    case 'critical':
+      return '\u{1F6A8}'; // rotating light
+    case 'warning':
+      return '\u{26A0}\u{FE0F}'; // warning
+    case 'info':
+      return '\u{2139}\u{FE0F}'; // info
+    default:
+      return '\u{1F514}'; // bell
+  }
+}
+
+/**
+ * Wrap an Adaptive Card in the message envelope Teams incoming webhooks
+ * and Workflows expect.
+ */
+function adaptiveCardMessage(body: unknown[], actions: unknown[]) {
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          msteams: { width: 'Full' },
+          body,
+          actions,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Format an issue as an Adaptive Card. Escalations say how long the
+ * issue has been waiting for someone to acknowledge it.
+ */
+function formatTeamsMessage(issue: Issue, dashboardUrl: string, escalation?: AlertEscalation) {
+  const emoji = severityEmoji(issue.severity);
+  const revenueImpact = issue.estimatedRevenueCents
+    ? formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)
+    : 'Unknown';
+  const confidence = issue.confidence
+    ? `${Math.round(issue.confidence * 100)}%`
+    : 'N/A';
+  const issueUrl = `${dashboardUrl}/issues/${issue.id}`;
+  const severity = issue.severity.charAt(0).toUpperCase() + issue.severity.slice(1);
+
+  return adaptiveCardMessage(
+    [
+      {
+        type: 'TextBlock',
+        size: 'Large',
+        weight: 'Bolder',
+        color: severityColor(issue.severity),
+        text: escalation
+          ? `${emoji} Unacknowledged ${severity} Billing Issue`
+          : `${emoji} ${severity} Billing Issue Detected`,
+        wrap: true,
+      },
+      ...(escalation
+        ? [{
+          type: 'TextBlock',
+          text: `**Still open after ${escalation.openMinutes} minutes.** Nobody has acknowledged this issue yet.`,
+          wrap: true,
+        }]
+        : []),
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Type', value: issue.issueType },
+          { title: 'Severity', value: issue.severity.toUpperCase() },
+          { title: 'Revenue Impact', value: revenueImpact },
+          { title: 'Confidence', value: confidence },
+        ],
+      },
+      {
+        type: 'TextBlock',
+        weight: 'Bolder',
+        text: issue.title,
+        wrap: true,
+      },
+      {
+        type: 'TextBlock',
+        text: issue.description,
+        wrap: true,
+      },
+      {
+        type: 'TextBlock',
+        size: 'Small',
+        isSubtle: true,
+        text: `Detected at ${new Date(issue.createdAt).toISOString()} | Issue ID: ${issue.id}`,
+        wrap: true,
+      },
+    ],
+    [{ type: 'Action.OpenUrl', title: 'View in Dashboard', url: issueUrl }],
+  );
+}
+
+/** Escape what would end a markdown link's text early */
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]\\]/g, '\\$&');
+}
+
+/** Issues listed in a digest; the rest are counted */
+const DIGEST_TOP_ISSUES = 10;
+
+/**
+ * Format a batch of issues as one Adaptive Card: counts by severity,
+ * revenue at risk, and the first issues given.
+ */
+function formatTeamsDigest(issuesList: Issue[], period: AlertDigestPeriod, dashboardUrl: string) {
+  const count = (severity: string) => issuesList.filter(i => i.severity === severity).length;
+  const totalRevenue = issuesList.reduce((sum, i) => sum + (i.estimatedRevenueCents || 0), 0);
+  // Issue revenue is in the org's reporting currency, so any issue's currency is the digest's
+  const currency = issuesList.find(i => i.revenueCurrency)?.revenueCurrency ?? null;
+
+  const lines = issuesList.slice(0, DIGEST_TOP_ISSUES).map((issue) => {
+    const revenue = issue.estimatedRevenueCents
+      ? ` \u2014 ${formatMoney(issue.estimatedRevenueCents, issue.revenueCurrency)}`
+      : '';
+    return {
+      type: 'TextBlock',
+      spacing: 'Small',
+      text: `${severityEmoji(issue.severity)} [${escapeLinkText(issue.title)}](${dashboardUrl}/issues/${issue.id})${revenue}`,
+      wrap: true,
+    };
+  });
+  if (issuesList.length > DIGEST_TOP_ISSUES) {
+    lines.push({
+      type: 'TextBlock',
+      spacing: 'Small',
+      text: `_...and ${issuesList.length - DIGEST_TOP_ISSUES} more_`,
+      wrap: true,
+    });
+  }
+
+  return adaptiveCardMessage(
+    [
+      {
+        type: 'TextBlock',
+        size: 'Large',
+        weight: 'Bolder',
+        color: severityColor(['critical', 'warning', 'info'].find(sev => count(sev) > 0) ?? 'info'),
+        text: `\u{1F4CB} RevBack ${period.title}: ${issuesList.length} issue${issuesList.length === 1 ? '' : 's'}`,
+        wrap: true,
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Critical', value: String(count('critical')) },
+          { title: 'Warning', value: String(count('warning')) },
+          { title: 'Info', value: String(count('info')) },
+          { title: 'Revenue at Risk', value: formatMoney(totalRevenue, currency) },
+        ],
+      },
+      {
+        type: 'TextBlock',
+        weight: 'Bolder',
+        text: 'Top issues',
+        wrap: true,
+      },
+      ...lines,
+      {
+        type: 'TextBlock',
+        size: 'Small',
+        isSubtle: true,
+        text: `Issues detected in ${period.window}`,
+        wrap: true,
+      },
+    ],
+    [{ type: 'Action.OpenUrl', title: 'View All Issues', url: `${dashboardUrl}/issues` }],
+  );
+}
+
+/**
+ * Format a test alert for verifying the Teams webhook.
+ */
+function formatTestMessage(dashboardUrl: string) {
+  return adaptiveCardMessage(
+    [
+      {
+        type: 'TextBlock',
+        size: 'Large',
+        weight: 'Bolder',
+        color: 'Good',
+        text: '\u2705 RevBack Test Alert',
+        wrap: true,
+      },
+      {
+        type: 'TextBlock',
+        text: 'Your Microsoft Teams integration is working correctly. You will receive alerts here when billing issues are detected.',
+        wrap: true,
+      },
+    ],
+    [{ type: 'Action.OpenUrl', title: 'Open Dashboard', url: dashboardUrl }],
+  );
+}
+
+/**
+ * POST a message to a Teams webhook. Teams answers 200 from incoming
+ * webhooks and 202 from Workflows.
+ */
+async function postToTeams(webhookUrl: string, payload: unknown): Promise<{ success: boolean; error?: string; status?: number; body?: string }> {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    return { success: false, error: `Teams returned ${response.status}: ${body}`, status: response.status, body };
+  }
+  return { success: true };
+}
+
+/**
+ * Send an issue alert to a Microsoft Teams webhook URL, or an escalation of one.
+ */
+export async function sendTeamsAlert(
+  webhookUrl: string,
+  issue: Issue,
+  escalation?: AlertEscalation,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const env = getEnv();
+    await waitForRateLimit();
+
+    const result = await postToTeams(webhookUrl, formatTeamsMessage(issue, env.DASHBOARD_URL, escalation));
+    if (!result.success) {
+      log.warn({ status: result.status, body: result.body, issueId: issue.id }, 'Teams webhook failed');
+      return { success: false, error: result.error };
+    }
+
+    log.info({ issueId: issue.id }, 'Teams alert sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err, issueId: issue.id }, 'Teams alert delivery error');
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send a digest of several issues as one message to a Teams webhook URL.
+ * Issues are listed in the order given.
+ */
+export async function sendTeamsDigest(
+  webhookUrl: string,
+  issuesList: Issue[],
+  period: AlertDigestPeriod,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (issuesList.length === 0) {
+      log.debug('No issues for digest, skipping');
+      return { success: true };
+    }
+
+    const env = getEnv();
+    await waitForRateLimit();
+
+    const result = await postToTeams(webhookUrl, formatTeamsDigest(issuesList, period, env.DASHBOARD_URL));
+    if (!result.success) {
+      log.warn({ status: result.status, body: result.body, issueCount: issuesList.length }, 'Teams digest webhook failed');
+      return { success: false, error: result.error };
+    }
+
+    log.info({ issueCount: issuesList.length }, 'Teams digest sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err }, 'Teams digest delivery error');
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send a test message to a Teams webhook URL.
+ */
+export async function sendTeamsTestAlert(
+  webhookUrl: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const env = getEnv();
+    await waitForRateLimit();
+
+    const result = await postToTeams(webhookUrl, formatTestMessage(env.DASHBOARD_URL));
+    if (!result.success) {
+      log.warn({ status: result.status, body: result.body }, 'Teams test webhook failed');
+      return { success: false, error: result.error };
+    }
+
+    log.info('Teams test alert sent');
+    return { success: true };
+  } catch (err: any) {
+    log.error({ err }, 'Teams test alert delivery error');
+    return { success: false, error: err.message };
+  }
+}
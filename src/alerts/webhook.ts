@@ -31,6 +31,10 @@ export function buildWebhookPayload(
         title: issue.title,
         description: issue.description,
         estimatedRevenueCents: issue.estimatedRevenueCents,
+        netRevenueCents: issue.netRevenueCents,
+        revenueCurrency: issue.revenueCurrency,
+        originalRevenueCents: issue.originalRevenueCents,
+        originalCurrency: issue.originalCurrency,
         confidence: issue.confidence,
         detectorId: issue.detectorId,
         detectionTier: issue.detectionTier,
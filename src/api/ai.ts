@@ -10,6 +10,7 @@ import { findIncidentClusters } from '../agents/grouper.js';
 import { generateInsights } from '../agents/insights.js';
 import { recordFeedback, getDetectorHealthMetrics } from '../agents/learner.js';
 import { enqueueInvestigation } from '../agents/worker.js';
+import { resolveIncidents } from '../alerts/incident-sync.js';
 import { createChildLogger } from '../config/logger.js';
 import { requireScope } from '../middleware/require-scope.js';
 
@@ -185,6 +186,7 @@ export function createAiRoutes(db: Database) {
         actualCause: parsed.data.actualCause,
         notes: parsed.data.notes,
       });
+      resolveIncidents(db, orgId, issueId).catch(() => {});
 
       return c.json({ ok: true, status: parsed.data.wasRealIssue ? 'resolved' : 'dismissed' });
     } catch (err: any) {
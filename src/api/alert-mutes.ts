@@ -0,0 +1,134 @@
+import { Hono } from 'hono';
+import { eq, and, gt, asc } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import { alertMutes, users } from '../models/schema.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-mutes-api');
+
+/** Mutes are for riding out noise, not turning alerts off; that's what disabling a config is for */
+const MAX_MUTE_DAYS = 90;
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const createMuteSchema = z.object({
+  issueType: z.string().min(1).max(100).optional(),
+  userId: z.string().uuid().optional(),
+  until: z.string().datetime({ offset: true }),
+  reason: z.string().max(2000).optional(),
+}).strict().refine(m => m.issueType || m.userId, 'Provide issueType, userId, or both');
+
+/**
+ * Alert mutes: stop alerting on an issue type, a user, or one issue type
+ * for one user, until a given time. Issues are still raised and shown;
+ * the alerts that would have gone out are logged as suppressed.
+ *
+ * Routes (mounted under /api/v1/alert-mutes):
+ *   GET    /          - Mutes still in effect
+ *   POST   /          - Mute an issue type and/or user until a time
+ *   DELETE /:muteId   - Lift a mute early
+ */
+export function createAlertMuteRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+
+  // ─── List mutes ────────────────────────────────────────────────
+
+  app.get('/', requireScope('alerts:read'), async (c) => {
+    const { orgId } = c.get('auth');
+
+    const mutes = await db
+      .select()
+      .from(alertMutes)
+      .where(
+        and(
+          eq(alertMutes.orgId, orgId),
+          gt(alertMutes.mutedUntil, new Date()),
+        ),
+      )
+      .orderBy(asc(alertMutes.mutedUntil));
+
+    return c.json({ mutes });
+  });
+
+  // ─── Create mute ───────────────────────────────────────────────
+
+  app.post('/', requireScope('alerts:write'), async (c) => {
+    const auth = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = createMuteSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const { issueType, userId, reason } = parsed.data;
+    const until = new Date(parsed.data.until);
+    const now = Date.now();
+    if (until.getTime() <= now || until.getTime() > now + MAX_MUTE_DAYS * 24 * 3600_000) {
+      return c.json({
+        error: 'Invalid request body',
+        details: { until: [`Must be in the future and within ${MAX_MUTE_DAYS} days`] },
+      }, 400);
+    }
+
+    if (userId) {
+      const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.id, userId), eq(users.orgId, auth.orgId)))
+        .limit(1);
+
+      if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+    }
+
+    const [mute] = await db
+      .insert(alertMutes)
+      .values({
+        orgId: auth.orgId,
+        issueType: issueType ?? null,
+        userId: userId ?? null,
+        reason: reason ?? null,
+        mutedUntil: until,
+        createdBy: auth.apiKeyId,
+      })
+      .returning();
+
+    log.info({ orgId: auth.orgId, muteId: mute.id, issueType, userId }, 'Alert mute created');
+    auditLog(db, auth, 'alert_mute.created', 'alert_mute', mute.id, {
+      issueType: mute.issueType,
+      userId: mute.userId,
+      mutedUntil: mute.mutedUntil.toISOString(),
+    });
+
+    return c.json({ mute }, 201);
+  });
+
+  // ─── Delete mute ───────────────────────────────────────────────
+
+  app.delete('/:muteId', requireScope('alerts:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const muteId = c.req.param('muteId');
+
+    const [deleted] = await db
+      .delete(alertMutes)
+      .where(and(eq(alertMutes.id, muteId), eq(alertMutes.orgId, orgId)))
+      .returning({ id: alertMutes.id });
+
+    if (!deleted) {
+      return c.json({ error: 'Mute not found' }, 404);
+    }
+
+    log.info({ orgId, muteId }, 'Alert mute deleted');
+    auditLog(db, c.get('auth'), 'alert_mute.deleted', 'alert_mute', muteId);
+
+    return c.json({ ok: true });
+  });
+
+  return app;
+}
@@ -4,12 +4,33 @@ import { z } from 'zod';
 import type { Database } from '../config/database.js';
 import { alertConfigurations, alertDeliveryLogs } from '../models/schema.js';
 import type { AuthContext } from '../middleware/auth.js';
-import type { SlackAlertConfig, EmailAlertConfig, WebhookAlertConfig, PagerDutyAlertConfig } from '../models/types.js';
+import type {
+  SlackAlertConfig,
+  EmailAlertConfig,
+  WebhookAlertConfig,
+  PagerDutyAlertConfig,
+  OpsgenieAlertConfig,
+  TeamsAlertConfig,
+  DiscordAlertConfig,
+  AlertDeliveryMode,
+  AlertDeliverySchedule,
+  AlertEscalationPolicy,
+} from '../models/types.js';
 import { sendSlackTestAlert } from '../alerts/slack.js';
 import { sendEmailTestAlert } from '../alerts/email.js';
 import { sendWebhookTestAlert } from '../alerts/webhook.js';
 import { sendPagerDutyTestAlert } from '../alerts/pagerduty.js';
+import { sendOpsgenieTestAlert } from '../alerts/opsgenie.js';
+import { sendTeamsTestAlert } from '../alerts/teams.js';
+import { sendDiscordTestAlert } from '../alerts/discord.js';
 import { generateSigningSecret } from '../alerts/webhook-signing.js';
+import {
+  DEFAULT_BATCH_WINDOW_MINUTES,
+  DEFAULT_DIGEST_HOUR,
+  DEFAULT_DIGEST_DAY_OF_WEEK,
+} from '../alerts/digest.js';
+import { enqueueAlertBatch } from '../queue/alert-digest-worker.js';
+import { isTimeZone } from '../alerts/local-time.js';
 import { createChildLogger } from '../config/logger.js';
 import { requireScope } from '../middleware/require-scope.js';
 import { auditLog } from '../security/audit.js';
@@ -29,35 +50,126 @@ const emailConfigSchema = z.object({
 
 const webhookConfigSchema = z.object({
   url: z.string().url(),
-  eventTypes: z.array(z.enum(['issue.created', 'issue.resolved', 'issue.dismissed', 'issue.acknowledged'])).optional(),
+  eventTypes: z.array(z.enum(['issue.created', 'issue.resolved', 'issue.reopened', 'issue.dismissed', 'issue.acknowledged'])).optional(),
 });
 
+/** Secret for incoming incident sync webhooks; null turns the sync off */
+const incidentWebhookSecretSchema = z.string()
+  .min(16, 'webhookSecret must be at least 16 characters')
+  .max(256)
+  .nullable()
+  .optional();
+
 const pagerdutyConfigSchema = z.object({
   routingKey: z.string().min(1, 'routingKey is required'),
+  webhookSecret: incidentWebhookSecretSchema,
+});
+
+const opsgenieConfigSchema = z.object({
+  apiKey: z.string().min(1, 'apiKey is required'),
+  region: z.enum(['us', 'eu']).optional(),
+  webhookSecret: incidentWebhookSecretSchema,
+});
+
+/** Teams incoming webhooks, and the Workflows (Power Automate) URLs that replace them */
+const TEAMS_WEBHOOK_HOSTS = ['.webhook.office.com', '.logic.azure.com', '.api.powerplatform.com'];
+
+function isTeamsWebhookUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && TEAMS_WEBHOOK_HOSTS.some(host => hostname.endsWith(host));
+  } catch {
+    return false;
+  }
+}
+
+const teamsConfigSchema = z.object({
+  webhookUrl: z.string().url().refine(isTeamsWebhookUrl, 'Must be a Microsoft Teams incoming webhook or Workflows URL'),
+  channelName: z.string().optional(),
+});
+
+const discordConfigSchema = z.object({
+  webhookUrl: z.string().url().regex(
+    /^https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/,
+    'Must be a Discord webhook URL (https://discord.com/api/webhooks/...)',
+  ),
+  channelName: z.string().optional(),
 });
 
 const severityFilterSchema = z.array(
   z.enum(['critical', 'warning', 'info']),
 ).min(1);
 
+const deliveryModeSchema = z.enum(['immediate', 'batched', 'digest']);
+
+const batchedScheduleSchema = z.object({
+  windowMinutes: z.number().int().min(1).max(1440).default(DEFAULT_BATCH_WINDOW_MINUTES),
+}).strict();
+
+const digestScheduleSchema = z.object({
+  frequency: z.enum(['daily', 'weekly']).default('daily'),
+  hour: z.number().int().min(0).max(23).default(DEFAULT_DIGEST_HOUR),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  timezone: z.string().refine(isTimeZone, 'Unknown timezone').default('UTC'),
+}).strict().transform((schedule) =>
+  schedule.frequency === 'weekly' && schedule.dayOfWeek === undefined
+    ? { ...schedule, dayOfWeek: DEFAULT_DIGEST_DAY_OF_WEEK }
+    : schedule,
+);
+
+const escalationPolicySchema = z.object({
+  afterMinutes: z.number().int().min(1).max(7 * 24 * 60),
+  severities: severityFilterSchema.default(['critical']),
+  escalateToAlertConfigId: z.string().uuid().optional(),
+  maxEscalations: z.number().int().min(1).max(10).default(1),
+}).strict();
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM');
+
+const quietHoursSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+  timezone: z.string().refine(isTimeZone, 'Unknown timezone'),
+  allowCritical: z.boolean().default(true),
+}).strict().refine(q => q.start !== q.end, 'start and end must differ');
+
 const createAlertSchema = z.object({
-  channel: z.enum(['slack', 'email', 'webhook', 'pagerduty']),
+  channel: z.enum(['slack', 'email', 'webhook', 'pagerduty', 'opsgenie', 'teams', 'discord']),
   config: z.union([
     slackConfigSchema,
     emailConfigSchema,
     webhookConfigSchema,
     pagerdutyConfigSchema,
+    opsgenieConfigSchema,
+    teamsConfigSchema,
+    discordConfigSchema,
   ]),
   severityFilter: severityFilterSchema.default(['critical', 'warning', 'info']),
   issueTypes: z.array(z.string()).nullable().default(null),
   enabled: z.boolean().default(true),
+  deliveryMode: deliveryModeSchema.default('immediate'),
+  deliverySchedule: z.record(z.unknown()).nullable().optional(),
+  escalationPolicy: escalationPolicySchema.nullable().default(null),
+  quietHours: quietHoursSchema.nullable().default(null),
 });
 
 const updateAlertSchema = z.object({
-  config: z.union([slackConfigSchema, emailConfigSchema, webhookConfigSchema, pagerdutyConfigSchema]).optional(),
+  config: z.union([
+    slackConfigSchema,
+    emailConfigSchema,
+    webhookConfigSchema,
+    pagerdutyConfigSchema,
+    opsgenieConfigSchema,
+    teamsConfigSchema,
+    discordConfigSchema,
+  ]).optional(),
   severityFilter: severityFilterSchema.optional(),
   issueTypes: z.array(z.string()).nullable().optional(),
   enabled: z.boolean().optional(),
+  deliveryMode: deliveryModeSchema.optional(),
+  deliverySchedule: z.record(z.unknown()).nullable().optional(),
+  escalationPolicy: escalationPolicySchema.nullable().optional(),
+  quietHours: quietHoursSchema.nullable().optional(),
 });
 
 const testAlertSchema = z.object({
@@ -66,6 +178,39 @@ const testAlertSchema = z.object({
 
 // ─── Helpers ───────────────────────────────────────────────────────
 
+/** Channels that can send several issues as one message */
+const BATCHABLE_CHANNELS = ['slack', 'email', 'teams', 'discord'];
+
+/**
+ * Validate a delivery mode and schedule against the channel. Returns the
+ * schedule to store, with defaults filled in, or the validation errors.
+ */
+function parseDelivery(
+  channel: string,
+  mode: AlertDeliveryMode,
+  schedule: unknown,
+): { success: true; schedule: AlertDeliverySchedule | null } | { success: false; errors: string[] } {
+  if (mode === 'immediate') {
+    return schedule == null
+      ? { success: true, schedule: null }
+      : { success: false, errors: ['deliverySchedule only applies to batched and digest delivery'] };
+  }
+
+  if (!BATCHABLE_CHANNELS.includes(channel)) {
+    return { success: false, errors: [`${channel} alerts are always delivered immediately`] };
+  }
+
+  const schema = mode === 'batched' ? batchedScheduleSchema : digestScheduleSchema;
+  const parsed = schema.safeParse(schedule ?? {});
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(i => (i.path.length > 0 ? `${i.path.join('.')}: ${i.message}` : i.message)),
+    };
+  }
+  return { success: true, schedule: parsed.data };
+}
+
 /**
  * Mask a Slack webhook URL for safe display.
  * Only shows the last 8 characters.
@@ -75,6 +220,24 @@ function maskWebhookUrl(url: string): string {
   return `***${url.slice(-8)}`;
 }
 
+/**
+ * Incident sync secrets are masked in responses, so an update that leaves
+ * webhookSecret out keeps the existing one; null removes it.
+ */
+function withWebhookSecret<T extends { webhookSecret?: string | null }>(
+  config: T,
+  existing: { webhookSecret?: string },
+): T {
+  if (config.webhookSecret === undefined && existing.webhookSecret) {
+    return { ...config, webhookSecret: existing.webhookSecret };
+  }
+  if (config.webhookSecret === null) {
+    const { webhookSecret: _removed, ...rest } = config;
+    return rest as T;
+  }
+  return config;
+}
+
 /**
  * Sanitize alert config for API responses — never expose secrets.
  */
@@ -94,16 +257,70 @@ function sanitizeConfig(channel: string, config: unknown): unknown {
       eventTypes: webhookConfig.eventTypes || null,
     };
   }
+  if (channel === 'teams' || channel === 'discord') {
+    const chatConfig = config as TeamsAlertConfig | DiscordAlertConfig;
+    return {
+      webhookUrl: maskWebhookUrl(chatConfig.webhookUrl),
+      channelName: chatConfig.channelName || null,
+    };
+  }
   if (channel === 'pagerduty') {
     const pdConfig = config as PagerDutyAlertConfig;
     return {
       routingKey: maskWebhookUrl(pdConfig.routingKey),
+      webhookSecret: pdConfig.webhookSecret ? '***' : null,
+    };
+  }
+  if (channel === 'opsgenie') {
+    const opsgenieConfig = config as OpsgenieAlertConfig;
+    return {
+      apiKey: maskWebhookUrl(opsgenieConfig.apiKey),
+      region: opsgenieConfig.region || 'us',
+      webhookSecret: opsgenieConfig.webhookSecret ? '***' : null,
     };
   }
   // Email config is safe to return as-is
   return config;
 }
 
+/**
+ * Check that an escalation policy notifies a channel that can take it:
+ * another of the org's configurations other than a webhook, or this one
+ * when it isn't a webhook. Returns the problem, if any.
+ */
+async function checkEscalationTarget(
+  db: Database,
+  orgId: string,
+  channel: string,
+  policy: AlertEscalationPolicy,
+  alertConfigId?: string,
+): Promise<string | null> {
+  if (!policy.escalateToAlertConfigId) {
+    return channel === 'webhook'
+      ? 'Webhook alerts can\'t be re-notified; set escalateToAlertConfigId to escalate to another channel'
+      : null;
+  }
+
+  if (policy.escalateToAlertConfigId === alertConfigId) {
+    return 'Omit escalateToAlertConfigId to re-notify this alert configuration';
+  }
+
+  const [target] = await db
+    .select({ id: alertConfigurations.id, channel: alertConfigurations.channel })
+    .from(alertConfigurations)
+    .where(
+      and(
+        eq(alertConfigurations.id, policy.escalateToAlertConfigId),
+        eq(alertConfigurations.orgId, orgId),
+      ),
+    )
+    .limit(1);
+
+  if (!target) return 'escalateToAlertConfigId is not one of the organization\'s alert configurations';
+  if (target.channel === 'webhook') return 'Escalations can\'t go to webhook alerts';
+  return null;
+}
+
 // ─── Routes ────────────────────────────────────────────────────────
 
 export function createAlertRoutes(db: Database) {
@@ -158,6 +375,48 @@ export function createAlertRoutes(db: Database) {
           details: check.error.flatten().fieldErrors,
         }, 400);
       }
+    } else if (data.channel === 'opsgenie') {
+      const check = opsgenieConfigSchema.safeParse(data.config);
+      if (!check.success) {
+        return c.json({
+          error: 'Invalid Opsgenie configuration. Provide the apiKey of an Opsgenie API integration.',
+          details: check.error.flatten().fieldErrors,
+        }, 400);
+      }
+    } else if (data.channel === 'teams') {
+      const check = teamsConfigSchema.safeParse(data.config);
+      if (!check.success) {
+        return c.json({
+          error: 'Invalid Microsoft Teams configuration. Provide webhookUrl (a Teams incoming webhook or Workflows URL).',
+          details: check.error.flatten().fieldErrors,
+        }, 400);
+      }
+    } else if (data.channel === 'discord') {
+      const check = discordConfigSchema.safeParse(data.config);
+      if (!check.success) {
+        return c.json({
+          error: 'Invalid Discord configuration. Provide webhookUrl (must start with https://discord.com/api/webhooks/).',
+          details: check.error.flatten().fieldErrors,
+        }, 400);
+      }
+    }
+
+    const delivery = parseDelivery(data.channel, data.deliveryMode, data.deliverySchedule);
+    if (!delivery.success) {
+      return c.json({
+        error: 'Invalid alert configuration',
+        details: { deliverySchedule: delivery.errors },
+      }, 400);
+    }
+
+    if (data.escalationPolicy) {
+      const problem = await checkEscalationTarget(db, orgId, data.channel, data.escalationPolicy);
+      if (problem) {
+        return c.json({
+          error: 'Invalid alert configuration',
+          details: { escalationPolicy: [problem] },
+        }, 400);
+      }
     }
 
     // Auto-generate signing secret for webhook configs
@@ -177,6 +436,10 @@ export function createAlertRoutes(db: Database) {
         severityFilter: data.severityFilter,
         issueTypes: data.issueTypes,
         enabled: data.enabled,
+        deliveryMode: data.deliveryMode,
+        deliverySchedule: delivery.schedule,
+        escalationPolicy: data.escalationPolicy,
+        quietHours: data.quietHours,
       })
       .returning();
 
@@ -283,6 +546,61 @@ export function createAlertRoutes(db: Database) {
             details: check.error.flatten().fieldErrors,
           }, 400);
         }
+        parsed.data.config = withWebhookSecret(check.data, existing.config as unknown as PagerDutyAlertConfig);
+      } else if (existing.channel === 'opsgenie') {
+        const check = opsgenieConfigSchema.safeParse(parsed.data.config);
+        if (!check.success) {
+          return c.json({
+            error: 'Invalid Opsgenie configuration',
+            details: check.error.flatten().fieldErrors,
+          }, 400);
+        }
+        parsed.data.config = withWebhookSecret(check.data, existing.config as unknown as OpsgenieAlertConfig);
+      } else if (existing.channel === 'teams') {
+        const check = teamsConfigSchema.safeParse(parsed.data.config);
+        if (!check.success) {
+          return c.json({
+            error: 'Invalid Microsoft Teams configuration',
+            details: check.error.flatten().fieldErrors,
+          }, 400);
+        }
+      } else if (existing.channel === 'discord') {
+        const check = discordConfigSchema.safeParse(parsed.data.config);
+        if (!check.success) {
+          return c.json({
+            error: 'Invalid Discord configuration',
+            details: check.error.flatten().fieldErrors,
+          }, 400);
+        }
+      }
+    }
+
+    // A new mode starts from its own defaults rather than the old mode's schedule
+    const deliveryMode = parsed.data.deliveryMode ?? existing.deliveryMode as AlertDeliveryMode;
+    const modeChanged = deliveryMode !== existing.deliveryMode;
+    let deliverySchedule: AlertDeliverySchedule | null | undefined;
+    if (parsed.data.deliveryMode !== undefined || parsed.data.deliverySchedule !== undefined) {
+      const delivery = parseDelivery(
+        existing.channel,
+        deliveryMode,
+        parsed.data.deliverySchedule !== undefined || modeChanged ? parsed.data.deliverySchedule : existing.deliverySchedule,
+      );
+      if (!delivery.success) {
+        return c.json({
+          error: 'Invalid update data',
+          details: { deliverySchedule: delivery.errors },
+        }, 400);
+      }
+      deliverySchedule = delivery.schedule;
+    }
+
+    if (parsed.data.escalationPolicy) {
+      const problem = await checkEscalationTarget(db, orgId, existing.channel, parsed.data.escalationPolicy, id);
+      if (problem) {
+        return c.json({
+          error: 'Invalid update data',
+          details: { escalationPolicy: [problem] },
+        }, 400);
       }
     }
 
@@ -291,6 +609,12 @@ export function createAlertRoutes(db: Database) {
     if (parsed.data.severityFilter !== undefined) updateData.severityFilter = parsed.data.severityFilter;
     if (parsed.data.issueTypes !== undefined) updateData.issueTypes = parsed.data.issueTypes;
     if (parsed.data.enabled !== undefined) updateData.enabled = parsed.data.enabled;
+    if (parsed.data.escalationPolicy !== undefined) updateData.escalationPolicy = parsed.data.escalationPolicy;
+    if (parsed.data.quietHours !== undefined) updateData.quietHours = parsed.data.quietHours;
+    if (deliverySchedule !== undefined) {
+      updateData.deliveryMode = deliveryMode;
+      updateData.deliverySchedule = deliverySchedule;
+    }
 
     const [updated] = await db
       .update(alertConfigurations)
@@ -303,6 +627,13 @@ export function createAlertRoutes(db: Database) {
       )
       .returning();
 
+    // Issues waiting on a digest would otherwise never go out; batches deliver their own
+    if (existing.deliveryMode === 'digest' && modeChanged) {
+      await enqueueAlertBatch(id).catch((err) => {
+        log.error({ err, configId: id }, 'Failed to flush pending digest alerts');
+      });
+    }
+
     log.info({ orgId, configId: id }, 'Alert configuration updated');
     auditLog(db, c.get('auth'), 'alert.updated', 'alert_configuration', id);
 
@@ -406,6 +737,21 @@ export function createAlertRoutes(db: Database) {
         result = await sendPagerDutyTestAlert(pagerdutyConfig.routingKey);
         break;
       }
+      case 'opsgenie': {
+        const opsgenieConfig = config.config as unknown as OpsgenieAlertConfig;
+        result = await sendOpsgenieTestAlert(opsgenieConfig.apiKey, opsgenieConfig.region);
+        break;
+      }
+      case 'teams': {
+        const teamsConfig = config.config as unknown as TeamsAlertConfig;
+        result = await sendTeamsTestAlert(teamsConfig.webhookUrl);
+        break;
+      }
+      case 'discord': {
+        const discordConfig = config.config as unknown as DiscordAlertConfig;
+        result = await sendDiscordTestAlert(discordConfig.webhookUrl);
+        break;
+      }
       default:
         return c.json({ error: `Unknown channel: ${config.channel}` }, 400);
     }
@@ -0,0 +1,67 @@
+import { Hono } from 'hono';
+import { eq, and, desc, count } from 'drizzle-orm';
+import type { Database } from '../config/database.js';
+import { appleConsumptionRequests } from '../models/schema.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { requireScope } from '../middleware/require-scope.js';
+
+/**
+ * Apple consumption request routes — what RevBack told Apple about each
+ * refund request it was asked about.
+ *
+ * Routes (mounted under /api/v1/admin/apple-consumption):
+ *   GET /      - Consumption requests, newest first (?status=)
+ *   GET /:id   - One request with the consumption data sent
+ */
+export function createAppleConsumptionRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+
+  app.get('/', requireScope('admin:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 100);
+    const offset = parseInt(c.req.query('offset') || '0');
+    const status = c.req.query('status');
+
+    const whereCondition = and(
+      eq(appleConsumptionRequests.orgId, orgId),
+      status ? eq(appleConsumptionRequests.status, status) : undefined,
+    );
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(appleConsumptionRequests)
+      .where(whereCondition);
+
+    const requests = await db
+      .select()
+      .from(appleConsumptionRequests)
+      .where(whereCondition)
+      .orderBy(desc(appleConsumptionRequests.requestedAt))
+      .limit(limit)
+      .offset(offset);
+
+    return c.json({
+      requests,
+      pagination: { limit, offset, count: totalResult.count },
+    });
+  });
+
+  app.get('/:id', requireScope('admin:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const id = c.req.param('id');
+
+    const [request] = await db
+      .select()
+      .from(appleConsumptionRequests)
+      .where(and(eq(appleConsumptionRequests.orgId, orgId), eq(appleConsumptionRequests.id, id)))
+      .limit(1);
+
+    if (!request) {
+      return c.json({ error: 'Consumption request not found' }, 404);
+    }
+
+    return c.json({ request });
+  });
+
+  return app;
+}
@@ -1,9 +1,11 @@
 import { Hono } from 'hono';
-import { eq, and, desc, gte, sql, count, sum } from 'drizzle-orm';
+import { eq, and, desc, gte, sql, count, sum, max, inArray, countDistinct } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
-import { canonicalEvents, issues, entitlements, users } from '../models/schema.js';
+import { canonicalEvents, issues, entitlements, users, products } from '../models/schema.js';
 import type { AuthContext } from '../middleware/auth.js';
 import { requireScope } from '../middleware/require-scope.js';
+import { getReportingCurrency } from '../config/org-settings.js';
+import { parseEnvironmentFilter, environmentCondition, INVALID_ENVIRONMENT_ERROR } from './environment.js';
 
 /**
  * Dashboard API — aggregate views for the main dashboard.
@@ -13,25 +15,35 @@ import { requireScope } from '../middleware/require-scope.js';
  * 2. Event feed (real-time stream of billing events)
  * 3. Entitlement health overview
  * 4. Trend data for charts
+ * 5. Unmapped products (auto-created from events, awaiting mapping)
  */
 export function createDashboardRoutes(db: Database) {
   const app = new Hono<{ Variables: { auth: AuthContext } }>();
 
   // ─── Revenue Impact View ────────────────────────────────────────────
   // "You're losing $X/month" — the killer feature for enterprise sales.
+  // Issue revenue is stored converted, so sums are in the reporting currency.
+  // Gross is what customers paid; net is what the org keeps after tax and fees.
 
   app.get('/revenue-impact', requireScope('dashboard:read'), async (c) => {
     const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
 
     // Total revenue at risk from open issues
     const [openIssues] = await db
       .select({
         totalRevenueCents: sum(issues.estimatedRevenueCents),
+        totalNetRevenueCents: sum(issues.netRevenueCents),
         issueCount: count(),
       })
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.status, 'open')),
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.status, 'open'),
+          environmentCondition(issues.environment, environment),
+        ),
       );
 
     // Revenue at risk by severity
@@ -39,11 +51,16 @@ export function createDashboardRoutes(db: Database) {
       .select({
         severity: issues.severity,
         totalRevenueCents: sum(issues.estimatedRevenueCents),
+        totalNetRevenueCents: sum(issues.netRevenueCents),
         issueCount: count(),
       })
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.status, 'open')),
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.status, 'open'),
+          environmentCondition(issues.environment, environment),
+        ),
       )
       .groupBy(issues.severity);
 
@@ -52,11 +69,16 @@ export function createDashboardRoutes(db: Database) {
       .select({
         issueType: issues.issueType,
         totalRevenueCents: sum(issues.estimatedRevenueCents),
+        totalNetRevenueCents: sum(issues.netRevenueCents),
         issueCount: count(),
       })
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.status, 'open')),
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.status, 'open'),
+          environmentCondition(issues.environment, environment),
+        ),
       )
       .groupBy(issues.issueType);
 
@@ -64,22 +86,30 @@ export function createDashboardRoutes(db: Database) {
     const [resolved] = await db
       .select({
         totalRevenueCents: sum(issues.estimatedRevenueCents),
+        totalNetRevenueCents: sum(issues.netRevenueCents),
         issueCount: count(),
       })
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.status, 'resolved')),
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.status, 'resolved'),
+          environmentCondition(issues.environment, environment),
+        ),
       );
 
     return c.json({
+      currency: await getReportingCurrency(db, orgId),
       atRisk: {
         totalCents: Number(openIssues.totalRevenueCents) || 0,
+        netCents: Number(openIssues.totalNetRevenueCents) || 0,
         issueCount: openIssues.issueCount,
       },
       bySeverity,
       byType,
       saved: {
         totalCents: Number(resolved.totalRevenueCents) || 0,
+        netCents: Number(resolved.totalNetRevenueCents) || 0,
         issueCount: resolved.issueCount,
       },
     });
@@ -89,6 +119,8 @@ export function createDashboardRoutes(db: Database) {
 
   app.get('/events', requireScope('dashboard:read'), async (c) => {
     const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
     const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
     const source = c.req.query('source');
     const eventType = c.req.query('type');
@@ -113,6 +145,7 @@ export function createDashboardRoutes(db: Database) {
       .where(
         and(
           eq(canonicalEvents.orgId, orgId),
+          environmentCondition(canonicalEvents.environment, environment),
           source ? eq(canonicalEvents.source, source as any) : undefined,
           eventType ? eq(canonicalEvents.eventType, eventType as any) : undefined,
           startDate ? gte(canonicalEvents.eventTime, new Date(startDate)) : undefined,
@@ -129,6 +162,13 @@ export function createDashboardRoutes(db: Database) {
 
   app.get('/entitlement-health', requireScope('dashboard:read'), async (c) => {
     const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
+
+    const entitlementScope = and(
+      eq(entitlements.orgId, orgId),
+      environmentCondition(entitlements.environment, environment),
+    );
 
     const byState = await db
       .select({
@@ -136,7 +176,7 @@ export function createDashboardRoutes(db: Database) {
         count: count(),
       })
       .from(entitlements)
-      .where(eq(entitlements.orgId, orgId))
+      .where(entitlementScope)
       .groupBy(entitlements.state);
 
     const bySource = await db
@@ -146,7 +186,7 @@ export function createDashboardRoutes(db: Database) {
         count: count(),
       })
       .from(entitlements)
-      .where(eq(entitlements.orgId, orgId))
+      .where(entitlementScope)
       .groupBy(entitlements.source, entitlements.state);
 
     const [totalUsers] = await db
@@ -165,6 +205,8 @@ export function createDashboardRoutes(db: Database) {
 
   app.get('/trends/issues', requireScope('dashboard:read'), async (c) => {
     const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
     const days = Math.min(parseInt(c.req.query('days') || '30'), 90);
     const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
@@ -174,22 +216,26 @@ export function createDashboardRoutes(db: Database) {
         severity: issues.severity,
         count: count(),
         revenue: sum(issues.estimatedRevenueCents),
+        netRevenue: sum(issues.netRevenueCents),
       })
       .from(issues)
       .where(
         and(
           eq(issues.orgId, orgId),
+          environmentCondition(issues.environment, environment),
           gte(issues.createdAt, since),
         ),
       )
       .groupBy(sql`DATE(${issues.createdAt})`, issues.severity)
       .orderBy(sql`DATE(${issues.createdAt})`);
 
-    return c.json({ trend, days });
+    return c.json({ trend, days, currency: await getReportingCurrency(db, orgId) });
   });
 
   app.get('/trends/events', requireScope('dashboard:read'), async (c) => {
     const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
     const days = Math.min(parseInt(c.req.query('days') || '30'), 90);
     const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
@@ -203,6 +249,7 @@ export function createDashboardRoutes(db: Database) {
       .where(
         and(
           eq(canonicalEvents.orgId, orgId),
+          environmentCondition(canonicalEvents.environment, environment),
           gte(canonicalEvents.eventTime, since),
         ),
       )
@@ -212,5 +259,54 @@ export function createDashboardRoutes(db: Database) {
     return c.json({ trend, days });
   });
 
+  // ─── Unmapped Products ──────────────────────────────────────────────
+  // Products the pipeline created from an external ID it hadn't seen.
+  // Until they're named or merged, the same plan sold on two platforms
+  // counts as two products and duplicate billing goes unnoticed.
+
+  app.get('/unmapped-products', requireScope('dashboard:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
+
+    const unmapped = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.orgId, orgId), eq(products.autoCreated, true), eq(products.isActive, true)))
+      .orderBy(desc(products.createdAt));
+
+    if (unmapped.length === 0) {
+      return c.json({ products: [] });
+    }
+
+    const activity = await db
+      .select({
+        productId: canonicalEvents.productId,
+        eventCount: count(),
+        userCount: countDistinct(canonicalEvents.userId),
+        lastEventAt: max(canonicalEvents.eventTime),
+      })
+      .from(canonicalEvents)
+      .where(
+        and(
+          eq(canonicalEvents.orgId, orgId),
+          environmentCondition(canonicalEvents.environment, environment),
+          inArray(canonicalEvents.productId, unmapped.map(p => p.id)),
+        ),
+      )
+      .groupBy(canonicalEvents.productId);
+
+    const byProduct = new Map(activity.map(a => [a.productId, a]));
+
+    return c.json({
+      products: unmapped.map(p => ({
+        ...p,
+        eventCount: byProduct.get(p.id)?.eventCount ?? 0,
+        userCount: byProduct.get(p.id)?.userCount ?? 0,
+        lastEventAt: byProduct.get(p.id)?.lastEventAt ?? null,
+      })),
+    });
+  });
+
   return app;
 }
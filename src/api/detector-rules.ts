@@ -0,0 +1,273 @@
+import { Hono } from 'hono';
+import { and, asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import { detectorRules } from '../models/schema.js';
+import type { DetectorRule, RuleCondition } from '../models/types.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+import { RULE_FIELDS, validateConditions, validateTemplate } from '../detection/rules/conditions.js';
+import { RULE_DETECTOR_PREFIX, dryRunRule, type RuleDefinition } from '../detection/rules/rule-detector.js';
+import { triggerScanNow } from '../queue/scan-scheduler.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('detector-rules-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const ruleValueSchema = z.union([z.string().max(255), z.number(), z.boolean()]);
+
+const conditionSchema = z.object({
+  subject: z.enum(['entitlement', 'event', 'accessCheck']),
+  field: z.string().min(1).max(100),
+  operator: z.enum(['eq', 'neq', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte', 'exists', 'not_exists']),
+  value: z.union([ruleValueSchema, z.array(ruleValueSchema).max(50)]).optional(),
+}).strict();
+
+const ruleShape = {
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).nullable().optional(),
+  severity: z.enum(['critical', 'warning', 'info']),
+  conditions: z.array(conditionSchema).min(1).max(20),
+  titleTemplate: z.string().min(1).max(500),
+  descriptionTemplate: z.string().max(5000).nullable().optional(),
+  enabled: z.boolean().default(true),
+};
+
+const daysSchema = z.number().int().min(1).max(90).default(30);
+
+/** Field names and placeholders the shapes can't check on their own */
+function checkRule(
+  rule: { conditions?: RuleCondition[]; titleTemplate?: string; descriptionTemplate?: string | null },
+  ctx: z.RefinementCtx,
+) {
+  for (const message of validateConditions(rule.conditions ?? [])) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['conditions'], message });
+  }
+  for (const key of ['titleTemplate', 'descriptionTemplate'] as const) {
+    for (const message of validateTemplate(rule[key] ?? '')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message });
+    }
+  }
+}
+
+const createRuleSchema = z.object(ruleShape).strict().superRefine(checkRule);
+
+const updateRuleSchema = z.object({
+  name: ruleShape.name.optional(),
+  description: ruleShape.description,
+  severity: ruleShape.severity.optional(),
+  conditions: ruleShape.conditions.optional(),
+  titleTemplate: ruleShape.titleTemplate.optional(),
+  descriptionTemplate: ruleShape.descriptionTemplate,
+  enabled: z.boolean().optional(),
+}).strict().superRefine(checkRule);
+
+const dryRunSchema = z.object({
+  ...ruleShape,
+  enabled: z.boolean().optional(),
+  days: daysSchema,
+}).strict().superRefine(checkRule);
+
+const savedDryRunSchema = z.object({ days: daysSchema }).strict();
+
+/**
+ * Custom detector rule routes.
+ *
+ * Routes (mounted under /api/v1/detector-rules):
+ *   GET    /                  - List the org's rules
+ *   GET    /fields            - Fields conditions and templates can use
+ *   GET    /:ruleId           - Get a rule
+ *   POST   /                  - Create a rule
+ *   PUT    /:ruleId           - Update a rule
+ *   DELETE /:ruleId           - Delete a rule
+ *   POST   /dry-run           - Evaluate an unsaved rule against the org's data
+ *   POST   /:ruleId/dry-run   - Evaluate a saved rule against the org's data
+ */
+export function createDetectorRuleRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+
+  // ─── List rules ────────────────────────────────────────────────
+
+  app.get('/', requireScope('detectors:read'), async (c) => {
+    const { orgId } = c.get('auth');
+
+    const rules = await db
+      .select()
+      .from(detectorRules)
+      .where(eq(detectorRules.orgId, orgId))
+      .orderBy(asc(detectorRules.name));
+
+    return c.json({ rules: rules.map(withDetectorId) });
+  });
+
+  // ─── Available fields ──────────────────────────────────────────
+
+  app.get('/fields', requireScope('detectors:read'), (c) => {
+    return c.json({ fields: RULE_FIELDS });
+  });
+
+  // ─── Get rule ──────────────────────────────────────────────────
+
+  app.get('/:ruleId', requireScope('detectors:read'), async (c) => {
+    const { orgId } = c.get('auth');
+
+    const rule = await findRule(db, orgId, c.req.param('ruleId'));
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404);
+    }
+
+    return c.json({ rule: withDetectorId(rule) });
+  });
+
+  // ─── Create rule ───────────────────────────────────────────────
+
+  app.post('/', requireScope('detectors:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = createRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const [rule] = await db
+      .insert(detectorRules)
+      .values({ orgId, ...parsed.data })
+      .returning();
+
+    log.info({ orgId, ruleId: rule.id }, 'Detector rule created');
+    auditLog(db, c.get('auth'), 'detector_rule.created', 'detector_rule', rule.id, { name: rule.name });
+
+    if (rule.enabled) scanRule(orgId, rule.id);
+
+    return c.json({ rule: withDetectorId(rule) }, 201);
+  });
+
+  // ─── Update rule ───────────────────────────────────────────────
+
+  app.put('/:ruleId', requireScope('detectors:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const ruleId = c.req.param('ruleId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = updateRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const existing = await findRule(db, orgId, ruleId);
+    if (!existing) {
+      return c.json({ error: 'Rule not found' }, 404);
+    }
+
+    const [rule] = await db
+      .update(detectorRules)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(and(eq(detectorRules.orgId, orgId), eq(detectorRules.id, ruleId)))
+      .returning();
+
+    log.info({ orgId, ruleId }, 'Detector rule updated');
+    auditLog(db, c.get('auth'), 'detector_rule.updated', 'detector_rule', ruleId, { changes: parsed.data });
+
+    if (rule.enabled) scanRule(orgId, rule.id);
+
+    return c.json({ rule: withDetectorId(rule) });
+  });
+
+  // ─── Delete rule ───────────────────────────────────────────────
+
+  app.delete('/:ruleId', requireScope('detectors:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const ruleId = c.req.param('ruleId');
+
+    const existing = await findRule(db, orgId, ruleId);
+    if (!existing) {
+      return c.json({ error: 'Rule not found' }, 404);
+    }
+
+    await db.delete(detectorRules).where(and(eq(detectorRules.orgId, orgId), eq(detectorRules.id, ruleId)));
+
+    log.info({ orgId, ruleId }, 'Detector rule deleted');
+    auditLog(db, c.get('auth'), 'detector_rule.deleted', 'detector_rule', ruleId, { name: existing.name });
+
+    return c.json({ ok: true });
+  });
+
+  // ─── Dry run (unsaved rule) ────────────────────────────────────
+
+  app.post('/dry-run', requireScope('detectors:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = dryRunSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const { days, ...rule } = parsed.data;
+    const result = await dryRunRule(db, orgId, toDefinition({ id: null, ...rule }), days);
+
+    return c.json(result);
+  });
+
+  // ─── Dry run (saved rule) ──────────────────────────────────────
+
+  app.post('/:ruleId/dry-run', requireScope('detectors:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = savedDryRunSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const rule = await findRule(db, orgId, c.req.param('ruleId'));
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404);
+    }
+
+    const result = await dryRunRule(db, orgId, toDefinition(rule), parsed.data.days);
+
+    return c.json(result);
+  });
+
+  return app;
+}
+
+async function findRule(db: Database, orgId: string, ruleId: string) {
+  const [rule] = await db
+    .select()
+    .from(detectorRules)
+    .where(and(eq(detectorRules.orgId, orgId), eq(detectorRules.id, ruleId)))
+    .limit(1);
+  return rule;
+}
+
+/** Issues a rule raises carry this detectorId */
+function withDetectorId(rule: DetectorRule) {
+  return { ...rule, detectorId: `${RULE_DETECTOR_PREFIX}${rule.id}` };
+}
+
+function toDefinition(rule: Pick<DetectorRule, 'name' | 'severity' | 'titleTemplate'> & {
+  id: string | null;
+  conditions: unknown;
+  descriptionTemplate?: string | null;
+}): RuleDefinition {
+  return {
+    id: rule.id,
+    name: rule.name,
+    severity: rule.severity,
+    conditions: rule.conditions as RuleCondition[],
+    titleTemplate: rule.titleTemplate,
+    descriptionTemplate: rule.descriptionTemplate ?? null,
+  };
+}
+
+/** Raise a new or changed rule's issues now rather than at the next scan */
+function scanRule(orgId: string, ruleId: string) {
+  triggerScanNow(`${RULE_DETECTOR_PREFIX}${ruleId}`, orgId).catch((err) => {
+    log.warn({ err, orgId, ruleId }, 'Failed to queue a scan for the detector rule');
+  });
+}
@@ -0,0 +1,149 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import type { DetectorSettings } from '../models/types.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+import { getDetectorSettings, setDetectorSettings } from '../config/org-settings.js';
+import { IssueDetectionEngine } from '../detection/engine.js';
+import { validateThresholds } from '../detection/detector-config.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('detector-settings-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const updateDetectorSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(['critical', 'warning', 'info']).nullable().optional(),
+  thresholds: z.record(z.string(), z.number().nullable()).optional(),
+}).strict();
+
+type DetectorInfo = ReturnType<IssueDetectionEngine['getDetectors']>[number];
+
+/**
+ * Per-org settings for the built-in detectors. Custom rules are
+ * configured on the rules themselves (/detector-rules).
+ *
+ * Routes (mounted under /api/v1/detector-settings):
+ *   GET    /              - Every built-in detector with the org's settings
+ *   PUT    /:detectorId   - Disable/enable a detector, tune its thresholds, override its severity
+ *   DELETE /:detectorId   - Reset a detector to its defaults
+ */
+export function createDetectorSettingsRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+  const detectors = new IssueDetectionEngine(db).getDetectors();
+
+  // ─── List detectors ────────────────────────────────────────────
+
+  app.get('/', requireScope('detectors:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const settings = await getDetectorSettings(db, orgId);
+
+    return c.json({ detectors: detectors.map(d => withSettings(d, settings[d.id])) });
+  });
+
+  // ─── Update detector settings ──────────────────────────────────
+
+  app.put('/:detectorId', requireScope('detectors:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const detectorId = c.req.param('detectorId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const detector = detectors.find(d => d.id === detectorId);
+    if (!detector) {
+      return c.json({ error: 'Detector not found' }, 404);
+    }
+
+    const parsed = updateDetectorSettingsSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const all = await getDetectorSettings(db, orgId);
+    const next = mergeSettings(all[detectorId] ?? {}, parsed.data);
+
+    const errors = validateThresholds(detector, next.thresholds ?? {});
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid request body', details: { thresholds: errors } }, 400);
+    }
+
+    await setDetectorSettings(db, orgId, detectorId, Object.keys(next).length > 0 ? next : undefined);
+
+    log.info({ orgId, detectorId }, 'Detector settings updated');
+    auditLog(db, c.get('auth'), 'detector_settings.updated', 'detector', detectorId, { changes: parsed.data });
+
+    return c.json({ detector: withSettings(detector, next) });
+  });
+
+  // ─── Reset detector settings ───────────────────────────────────
+
+  app.delete('/:detectorId', requireScope('detectors:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const detectorId = c.req.param('detectorId');
+
+    const detector = detectors.find(d => d.id === detectorId);
+    if (!detector) {
+      return c.json({ error: 'Detector not found' }, 404);
+    }
+
+    const previous = (await getDetectorSettings(db, orgId))[detectorId];
+    if (previous) {
+      await setDetectorSettings(db, orgId, detectorId);
+
+      log.info({ orgId, detectorId }, 'Detector settings reset');
+      auditLog(db, c.get('auth'), 'detector_settings.reset', 'detector', detectorId, { previous });
+    }
+
+    return c.json({ detector: withSettings(detector, undefined) });
+  });
+
+  return app;
+}
+
+/**
+ * Apply an update to a detector's settings. `null` clears a severity
+ * override or a threshold; settings left at their defaults are dropped.
+ */
+function mergeSettings(
+  current: DetectorSettings,
+  update: z.infer<typeof updateDetectorSettingsSchema>,
+): DetectorSettings {
+  const next: DetectorSettings = { ...current };
+
+  if (update.enabled === true) delete next.enabled;
+  if (update.enabled === false) next.enabled = false;
+
+  if (update.severity === null) delete next.severity;
+  else if (update.severity) next.severity = update.severity;
+
+  if (update.thresholds) {
+    const thresholds = { ...next.thresholds };
+    for (const [name, value] of Object.entries(update.thresholds)) {
+      if (value === null) delete thresholds[name];
+      else thresholds[name] = value;
+    }
+    if (Object.keys(thresholds).length > 0) next.thresholds = thresholds;
+    else delete next.thresholds;
+  }
+
+  return next;
+}
+
+/** A detector with the org's settings and the threshold values in effect */
+function withSettings(detector: DetectorInfo, settings: DetectorSettings | undefined) {
+  const overrides = settings?.thresholds ?? {};
+  return {
+    ...detector,
+    enabled: settings?.enabled !== false,
+    severity: settings?.severity ?? null,
+    thresholds: Object.fromEntries(
+      Object.entries(detector.thresholds).map(([name, threshold]) => [
+        name,
+        { ...threshold, value: overrides[name] ?? threshold.default ?? null },
+      ]),
+    ),
+    settings: settings ?? {},
+  };
+}
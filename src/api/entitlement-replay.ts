@@ -0,0 +1,129 @@
+import { Hono } from 'hono';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { users } from '../models/schema.js';
+import { enqueueEntitlementReplay, type ReplayJobData } from '../queue/replay-worker.js';
+import { getQueue, QUEUE_NAMES } from '../config/queue.js';
+import { createChildLogger } from '../config/logger.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+
+const log = createChildLogger('entitlement-replay-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const rebuildSchema = z.object({
+  userId: z.string().uuid().optional(),
+  source: z.enum(['stripe', 'apple', 'google', 'recurly', 'braintree']).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+/**
+ * Entitlement rebuild API routes.
+ *
+ * Recomputes entitlements by replaying canonical events in eventTime
+ * order. Dry runs are the default; pass dryRun: false to write changes.
+ *
+ * Routes (mounted under /api/v1/admin/entitlements):
+ *   POST /rebuild         - Queue a rebuild for the org, a user, or a source
+ *   GET  /rebuild/:jobId  - Job status and the change report
+ */
+export function createEntitlementReplayRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+
+  // ── POST /rebuild — Queue an entitlement rebuild ────────────────────
+  app.post('/rebuild', requireScope('admin:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = rebuildSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const { userId, source, dryRun } = parsed.data;
+
+    if (userId) {
+      const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.id, userId), eq(users.orgId, orgId)))
+        .limit(1);
+
+      if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+    }
+
+    const jobData: ReplayJobData = {
+      orgId,
+      userId,
+      source,
+      dryRun,
+      requestedAt: new Date().toISOString(),
+    };
+
+    try {
+      const jobId = await enqueueEntitlementReplay(jobData);
+
+      log.info({ orgId, userId, source, dryRun, jobId }, 'Entitlement rebuild requested via API');
+      auditLog(db, c.get('auth'), 'entitlements.rebuild_requested', 'entitlement', undefined, {
+        jobId,
+        userId,
+        source,
+        dryRun,
+      });
+
+      return c.json({
+        ok: true,
+        jobId,
+        dryRun,
+        scope: { userId: userId ?? null, source: source ?? null },
+        message: `Rebuild queued. Check /admin/entitlements/rebuild/${jobId} for results.`,
+      });
+    } catch (err: any) {
+      log.error({ err, orgId }, 'Failed to queue entitlement rebuild');
+      return c.json({
+        error: 'Failed to queue entitlement rebuild',
+        message: err.message,
+      }, 500);
+    }
+  });
+
+  // ── GET /rebuild/:jobId — Job status and change report ──────────────
+  app.get('/rebuild/:jobId', requireScope('admin:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const jobId = c.req.param('jobId');
+
+    try {
+      const queue = getQueue(QUEUE_NAMES.ENTITLEMENT_REPLAY);
+      const job = await queue.getJob(jobId);
+
+      // Jobs from other orgs are reported as missing
+      if (!job || job.data?.orgId !== orgId) {
+        return c.json({ error: 'Rebuild job not found' }, 404);
+      }
+
+      return c.json({
+        jobId: job.id,
+        status: await job.getState(),
+        dryRun: job.data.dryRun,
+        scope: { userId: job.data.userId ?? null, source: job.data.source ?? null },
+        requestedAt: job.data.requestedAt,
+        finishedOn: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+        error: job.failedReason ?? null,
+        result: job.returnvalue ?? null,
+      });
+    } catch (err: any) {
+      log.error({ err, jobId }, 'Failed to get entitlement rebuild job');
+      return c.json({
+        error: 'Failed to get rebuild job',
+        message: err.message,
+      }, 500);
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,23 @@
+import { eq, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import type { BillingEnvironment } from '../models/types.js';
+
+export type EnvironmentFilter = BillingEnvironment | 'all';
+
+export const INVALID_ENVIRONMENT_ERROR = "Invalid environment. Use 'production', 'sandbox' or 'all'";
+
+/**
+ * Parse the `environment` query param shared by the issues, users,
+ * events and dashboard APIs. Defaults to production so sandbox data
+ * only shows up when asked for. Returns null for unknown values.
+ */
+export function parseEnvironmentFilter(value: string | undefined): EnvironmentFilter | null {
+  if (!value) return 'production';
+  if (value === 'production' || value === 'sandbox' || value === 'all') return value;
+  return null;
+}
+
+/** Where-clause for an environment column, or undefined for 'all'. */
+export function environmentCondition(column: AnyPgColumn, filter: EnvironmentFilter): SQL | undefined {
+  return filter === 'all' ? undefined : eq(column, filter);
+}
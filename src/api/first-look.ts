@@ -10,6 +10,8 @@ import {
 } from '../models/schema.js';
 import type { AuthContext } from '../middleware/auth.js';
 import { requireScope } from '../middleware/require-scope.js';
+import { getReportingCurrency } from '../config/org-settings.js';
+import { parseEnvironmentFilter, environmentCondition, INVALID_ENVIRONMENT_ERROR } from './environment.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('first-look');
@@ -35,6 +37,14 @@ export function createFirstLookRoutes(db: Database) {
 
   app.get('/', requireScope('dashboard:read'), async (c) => {
     const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
+
+    const openIssues = and(
+      eq(issues.orgId, orgId),
+      eq(issues.status, 'open'),
+      environmentCondition(issues.environment, environment),
+    );
 
     // Run all queries in parallel for speed
     const [
@@ -61,7 +71,10 @@ export function createFirstLookRoutes(db: Database) {
           count: count(),
         })
         .from(entitlements)
-        .where(eq(entitlements.orgId, orgId))
+        .where(and(
+          eq(entitlements.orgId, orgId),
+          environmentCondition(entitlements.environment, environment),
+        ))
         .groupBy(entitlements.state),
 
       // Issues by type with revenue impact
@@ -70,9 +83,10 @@ export function createFirstLookRoutes(db: Database) {
           issueType: issues.issueType,
           count: count(),
           totalRevenueCents: sum(issues.estimatedRevenueCents),
+          totalNetRevenueCents: sum(issues.netRevenueCents),
         })
         .from(issues)
-        .where(and(eq(issues.orgId, orgId), eq(issues.status, 'open')))
+        .where(openIssues)
         .groupBy(issues.issueType)
         .orderBy(desc(sum(issues.estimatedRevenueCents))),
 
@@ -82,9 +96,10 @@ export function createFirstLookRoutes(db: Database) {
           severity: issues.severity,
           count: count(),
           totalRevenueCents: sum(issues.estimatedRevenueCents),
+          totalNetRevenueCents: sum(issues.netRevenueCents),
         })
         .from(issues)
-        .where(and(eq(issues.orgId, orgId), eq(issues.status, 'open')))
+        .where(openIssues)
         .groupBy(issues.severity),
 
       // Top 5 most impactful issues (by estimated revenue)
@@ -96,11 +111,12 @@ export function createFirstLookRoutes(db: Database) {
           title: issues.title,
           description: issues.description,
           estimatedRevenueCents: issues.estimatedRevenueCents,
+          netRevenueCents: issues.netRevenueCents,
           confidence: issues.confidence,
           createdAt: issues.createdAt,
         })
         .from(issues)
-        .where(and(eq(issues.orgId, orgId), eq(issues.status, 'open')))
+        .where(openIssues)
         .orderBy(desc(issues.estimatedRevenueCents))
         .limit(5),
 
@@ -122,7 +138,10 @@ export function createFirstLookRoutes(db: Database) {
           count: count(),
         })
         .from(canonicalEvents)
-        .where(eq(canonicalEvents.orgId, orgId))
+        .where(and(
+          eq(canonicalEvents.orgId, orgId),
+          environmentCondition(canonicalEvents.environment, environment),
+        ))
         .groupBy(canonicalEvents.source),
 
       // Recent event activity (last 30 days aggregated by day)
@@ -135,6 +154,7 @@ export function createFirstLookRoutes(db: Database) {
         .where(
           and(
             eq(canonicalEvents.orgId, orgId),
+            environmentCondition(canonicalEvents.environment, environment),
             sql`${canonicalEvents.eventTime} >= NOW() - INTERVAL '30 days'`,
           ),
         )
@@ -147,6 +167,10 @@ export function createFirstLookRoutes(db: Database) {
       (sum, row) => sum + (Number(row.totalRevenueCents) || 0),
       0,
     );
+    const totalNetRevenueCentsAtRisk = issuesBySeverity.reduce(
+      (sum, row) => sum + (Number(row.totalNetRevenueCents) || 0),
+      0,
+    );
     const totalOpenIssues = issuesBySeverity.reduce(
       (sum, row) => sum + Number(row.count),
       0,
@@ -190,17 +214,21 @@ export function createFirstLookRoutes(db: Database) {
 
       // "You're losing $X/month"
       revenueImpact: {
+        currency: await getReportingCurrency(db, orgId),
         totalMonthlyRevenueCentsAtRisk: monthlyRevenueAtRisk,
+        totalMonthlyNetRevenueCentsAtRisk: totalNetRevenueCentsAtRisk,
         totalOpenIssues,
         bySeverity: issuesBySeverity.map((s) => ({
           severity: s.severity,
           count: Number(s.count),
           revenueCents: Number(s.totalRevenueCents) || 0,
+          netRevenueCents: Number(s.totalNetRevenueCents) || 0,
         })),
         byType: issuesByType.map((t) => ({
           issueType: t.issueType,
           count: Number(t.count),
           revenueCents: Number(t.totalRevenueCents) || 0,
+          netRevenueCents: Number(t.totalNetRevenueCents) || 0,
         })),
       },
 
@@ -212,6 +240,7 @@ export function createFirstLookRoutes(db: Database) {
         title: issue.title,
         description: issue.description,
         estimatedRevenueCents: issue.estimatedRevenueCents,
+        netRevenueCents: issue.netRevenueCents,
         confidence: issue.confidence,
       })),
 
@@ -0,0 +1,101 @@
+import { Hono } from 'hono';
+import { and, desc, eq, gte, isNull, lte, or } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { fxRates } from '../models/schema.js';
+import { CurrencyConverter, fxSnapshotSchema } from '../currency/fx.js';
+import { createChildLogger } from '../config/logger.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+
+const log = createChildLogger('fx-rates-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const loadRatesSchema = z.union([fxSnapshotSchema, z.array(fxSnapshotSchema).min(1).max(366)]);
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * FX rate API routes.
+ *
+ * Rates convert issue revenue into the org's reporting currency. The org's
+ * own rates take precedence over the shared ones loaded from FX_RATES_FILE.
+ *
+ * Routes (mounted under /api/v1/admin/fx-rates):
+ *   GET  /  - Rates in effect for the org, newest first
+ *   POST /  - Load one day's rates, or several; replaces rates for the same day
+ */
+export function createFxRateRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+
+  // ── GET / — List rates ──────────────────────────────────────────────
+  app.get('/', requireScope('admin:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const currency = c.req.query('currency')?.toUpperCase();
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+    const limit = Math.min(parseInt(c.req.query('limit') || '100'), 500);
+
+    if ((from && !day.safeParse(from).success) || (to && !day.safeParse(to).success)) {
+      return c.json({ error: '`from` and `to` must be YYYY-MM-DD dates' }, 400);
+    }
+
+    const rates = await db
+      .select({
+        currency: fxRates.currency,
+        unitsPerUsd: fxRates.unitsPerUsd,
+        effectiveDate: fxRates.effectiveDate,
+        orgId: fxRates.orgId,
+      })
+      .from(fxRates)
+      .where(
+        and(
+          or(eq(fxRates.orgId, orgId), isNull(fxRates.orgId)),
+          currency ? eq(fxRates.currency, currency) : undefined,
+          from ? gte(fxRates.effectiveDate, from) : undefined,
+          to ? lte(fxRates.effectiveDate, to) : undefined,
+        ),
+      )
+      .orderBy(desc(fxRates.effectiveDate), fxRates.currency)
+      .limit(limit);
+
+    return c.json({
+      rates: rates.map(({ orgId: rateOrgId, ...rate }) => ({
+        ...rate,
+        unitsPerUsd: Number(rate.unitsPerUsd),
+        shared: rateOrgId === null,
+      })),
+    });
+  });
+
+  // ── POST / — Load rates ─────────────────────────────────────────────
+  app.post('/', requireScope('admin:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = loadRatesSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const snapshots = Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+    const converter = new CurrencyConverter(db);
+    const stored = await converter.loadRates(orgId, snapshots);
+
+    auditLog(db, c.get('auth'), 'fx_rates.loaded', 'organization', orgId, {
+      days: snapshots.map((s) => s.date),
+      stored,
+    });
+
+    // Issues that were waiting for one of these rates
+    converter.convertIssues(orgId).catch((err) => {
+      log.error({ err, orgId }, 'Failed to convert issues after loading FX rates');
+    });
+
+    return c.json({ stored }, 201);
+  });
+
+  return app;
+}
@@ -0,0 +1,145 @@
+import { Hono } from 'hono';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { billingConnections, issues } from '../models/schema.js';
+import type { BillingSource } from '../models/types.js';
+import { canRecoverGap } from '../ingestion/recovery/gap-recovery.js';
+import { enqueueGapRecovery, type GapRecoveryJobData } from '../queue/gap-recovery-worker.js';
+import { getQueue, QUEUE_NAMES } from '../config/queue.js';
+import { createChildLogger } from '../config/logger.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+
+const log = createChildLogger('gap-recovery-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const recoverySchema = z.object({
+  issueId: z.string().uuid().optional(),
+  source: z.enum(['stripe', 'apple', 'google', 'recurly', 'braintree']).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+}).refine((body) => body.issueId || (body.source && body.from), {
+  message: 'Provide issueId, or source and from',
+  path: ['issueId'],
+});
+
+/**
+ * Webhook gap recovery API routes.
+ *
+ * Recovery runs automatically when a webhook_delivery_gap issue opens;
+ * these routes re-run it for an issue or recover an explicit window.
+ *
+ * Routes (mounted under /api/v1/admin/gap-recovery):
+ *   POST /        - Queue a recovery for a gap issue or a source and window
+ *   GET  /:jobId  - Job status and the recovery outcome
+ */
+export function createGapRecoveryRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+
+  // ── POST / — Queue a recovery ───────────────────────────────────────
+  app.post('/', requireScope('admin:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = recoverySchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const { issueId, from, to } = parsed.data;
+    let source = parsed.data.source as BillingSource | undefined;
+
+    if (issueId) {
+      const [issue] = await db
+        .select()
+        .from(issues)
+        .where(and(eq(issues.orgId, orgId), eq(issues.id, issueId)))
+        .limit(1);
+
+      if (!issue || issue.issueType !== 'webhook_delivery_gap') {
+        return c.json({ error: 'Webhook gap issue not found' }, 404);
+      }
+      source = (issue.evidence as { source?: BillingSource }).source;
+    } else if (to && new Date(from!) >= new Date(to)) {
+      return c.json({ error: '`from` must be before `to`' }, 400);
+    }
+
+    if (!source || !canRecoverGap(source)) {
+      return c.json({ error: `Gap recovery is not supported for ${source ?? 'this source'}` }, 400);
+    }
+
+    const [connection] = await db
+      .select({ id: billingConnections.id })
+      .from(billingConnections)
+      .where(and(eq(billingConnections.orgId, orgId), eq(billingConnections.source, source)))
+      .limit(1);
+
+    if (!connection) {
+      return c.json({ error: `No ${source} billing connection` }, 404);
+    }
+
+    const jobData: GapRecoveryJobData = issueId ? { orgId, issueId } : { orgId, source, from, to };
+
+    try {
+      const jobId = await enqueueGapRecovery(jobData);
+
+      log.info({ orgId, issueId, source, from, to, jobId }, 'Gap recovery requested via API');
+      auditLog(db, c.get('auth'), 'webhooks.gap_recovery_requested', 'issue', issueId, {
+        jobId,
+        source,
+        from,
+        to,
+      });
+
+      return c.json({
+        ok: true,
+        jobId,
+        source,
+        message: `Recovery queued. Check /admin/gap-recovery/${jobId} for results.`,
+      });
+    } catch (err: any) {
+      log.error({ err, orgId }, 'Failed to queue gap recovery');
+      return c.json({
+        error: 'Failed to queue gap recovery',
+        message: err.message,
+      }, 500);
+    }
+  });
+
+  // ── GET /:jobId — Job status and outcome ────────────────────────────
+  app.get('/:jobId', requireScope('admin:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const jobId = c.req.param('jobId');
+
+    try {
+      const queue = getQueue(QUEUE_NAMES.GAP_RECOVERY);
+      const job = await queue.getJob(jobId);
+
+      // Jobs from other orgs are reported as missing
+      if (!job || job.data?.orgId !== orgId) {
+        return c.json({ error: 'Recovery job not found' }, 404);
+      }
+
+      return c.json({
+        jobId: job.id,
+        status: await job.getState(),
+        issueId: job.data.issueId ?? null,
+        source: job.data.source ?? null,
+        finishedOn: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+        error: job.failedReason ?? null,
+        result: job.returnvalue ?? null,
+      });
+    } catch (err: any) {
+      log.error({ err, jobId }, 'Failed to get gap recovery job');
+      return c.json({
+        error: 'Failed to get recovery job',
+        message: err.message,
+      }, 500);
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,110 @@
+import { Hono, type Context } from 'hono';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import { alertConfigurations, organizations } from '../models/schema.js';
+import type { PagerDutyAlertConfig, OpsgenieAlertConfig } from '../models/types.js';
+import {
+  applyIncidentUpdate,
+  parseOpsgenieWebhook,
+  parsePagerDutyWebhook,
+  verifyOpsgenieSecret,
+  verifyPagerDutySignature,
+  type IncidentTool,
+} from '../alerts/incident-sync.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('incident-webhook-api');
+
+const alertConfigIdSchema = z.string().uuid();
+
+/**
+ * Incident tool webhook receivers, for two-way sync with PagerDuty and
+ * Opsgenie alert configurations:
+ *   POST /webhooks/:orgSlug/pagerduty/:alertConfigId
+ *   POST /webhooks/:orgSlug/opsgenie/:alertConfigId
+ *
+ * Acknowledging or resolving an incident there updates the issue here.
+ * Requests are only accepted for configurations with a webhookSecret,
+ * and must be signed with it (PagerDuty) or carry it (Opsgenie).
+ */
+export function createIncidentWebhookRoutes(db: Database) {
+  const app = new Hono();
+
+  const handleIncidentWebhook = async (c: Context, tool: IncidentTool) => {
+    const orgSlug = c.req.param('orgSlug');
+    const alertConfigId = c.req.param('alertConfigId');
+
+    if (!alertConfigIdSchema.safeParse(alertConfigId).success) {
+      return c.json({ error: 'Alert configuration not found' }, 404);
+    }
+
+    const [org] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.slug, orgSlug))
+      .limit(1);
+
+    if (!org) {
+      return c.json({ error: 'Organization not found' }, 404);
+    }
+
+    const [config] = await db
+      .select()
+      .from(alertConfigurations)
+      .where(
+        and(
+          eq(alertConfigurations.id, alertConfigId),
+          eq(alertConfigurations.orgId, org.id),
+          eq(alertConfigurations.channel, tool),
+        ),
+      )
+      .limit(1);
+
+    if (!config) {
+      return c.json({ error: 'Alert configuration not found' }, 404);
+    }
+
+    const { webhookSecret } = config.config as unknown as PagerDutyAlertConfig | OpsgenieAlertConfig;
+    if (!webhookSecret) {
+      log.warn({ orgSlug, tool, alertConfigId }, 'Incident webhook received without a webhookSecret configured');
+      return c.json({ error: 'Incident sync not configured' }, 404);
+    }
+
+    // Verify against the raw body before trusting anything in it
+    const rawBody = await c.req.text();
+    const valid = tool === 'pagerduty'
+      ? verifyPagerDutySignature(rawBody, c.req.header('x-pagerduty-signature'), webhookSecret)
+      : verifyOpsgenieSecret(c.req.header('x-revback-webhook-secret'), webhookSecret);
+
+    if (!valid) {
+      log.warn({ orgSlug, tool, alertConfigId }, 'Incident webhook verification failed');
+      return c.json({ error: 'Invalid signature' }, 401);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return c.json({ error: 'Invalid JSON body' }, 400);
+    }
+
+    const update = tool === 'pagerduty' ? parsePagerDutyWebhook(payload) : parseOpsgenieWebhook(payload);
+    if (!update) {
+      return c.json({ ok: true, result: 'ignored' });
+    }
+
+    try {
+      const result = await applyIncidentUpdate(db, config, update);
+      return c.json({ ok: true, result });
+    } catch (err: any) {
+      log.error({ err, orgSlug, tool, alertConfigId, issueId: update.issueId }, 'Failed to apply incident update');
+      return c.json({ error: 'Failed to apply incident update' }, 500);
+    }
+  };
+
+  app.post('/:orgSlug/pagerduty/:alertConfigId', (c) => handleIncidentWebhook(c, 'pagerduty'));
+  app.post('/:orgSlug/opsgenie/:alertConfigId', (c) => handleIncidentWebhook(c, 'opsgenie'));
+
+  return app;
+}
@@ -6,8 +6,12 @@ import { issues } from '../models/schema.js';
 import type { AuthContext } from '../middleware/auth.js';
 import { DETECTOR_META, CATEGORY_ISSUE_TYPES, enrichIssue } from '../detection/detector-meta.js';
 import { dispatchWebhookEvent } from '../alerts/webhook-events.js';
+import { resolveIncidents } from '../alerts/incident-sync.js';
 import { requireScope } from '../middleware/require-scope.js';
+import { getReportingCurrency } from '../config/org-settings.js';
 import { auditLog } from '../security/audit.js';
+import { enqueueIssueUnsnooze } from '../queue/issue-snooze-worker.js';
+import { parseEnvironmentFilter, environmentCondition, INVALID_ENVIRONMENT_ERROR } from './environment.js';
 
 // ─── Validation Schemas ────────────────────────────────────────────
 
@@ -19,6 +23,14 @@ const dismissIssueSchema = z.object({
   reason: z.string().max(2000).optional(),
 });
 
+const snoozeIssueSchema = z.object({
+  until: z.string().datetime({ offset: true }),
+  reason: z.string().max(2000).optional(),
+});
+
+const MAX_SNOOZE_DAYS = 90;
+const SNOOZABLE_STATUSES = ['open', 'acknowledged', 'snoozed'];
+
 /**
  * Issues API — the core dashboard API.
  *
@@ -37,6 +49,8 @@ export function createIssueRoutes(db: Database) {
     const category = c.req.query('category');
     const limit = Math.min(parseInt(c.req.query('limit') || '50'), 100);
     const offset = parseInt(c.req.query('offset') || '0');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
 
     // Resolve category to a list of issue types
     const categoryTypes = category ? CATEGORY_ISSUE_TYPES[category] : undefined;
@@ -47,6 +61,7 @@ export function createIssueRoutes(db: Database) {
       severity ? eq(issues.severity, severity as any) : undefined,
       issueType ? eq(issues.issueType, issueType) : undefined,
       categoryTypes ? inArray(issues.issueType, categoryTypes) : undefined,
+      environmentCondition(issues.environment, environment),
     );
 
     const [totalResult] = await db
@@ -72,12 +87,15 @@ export function createIssueRoutes(db: Database) {
 
   app.get('/summary', requireScope('issues:read'), async (c) => {
     const { orgId } = c.get('auth');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
+    const envCondition = environmentCondition(issues.environment, environment);
 
     const [openCount] = await db
       .select({ count: count() })
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.status, 'open')),
+        and(eq(issues.orgId, orgId), eq(issues.status, 'open'), envCondition),
       );
 
     const [criticalCount] = await db
@@ -88,14 +106,15 @@ export function createIssueRoutes(db: Database) {
           eq(issues.orgId, orgId),
           eq(issues.status, 'open'),
           eq(issues.severity, 'critical'),
+          envCondition,
         ),
       );
 
     const [revenueAtRisk] = await db
-      .select({ total: sum(issues.estimatedRevenueCents) })
+      .select({ total: sum(issues.estimatedRevenueCents), net: sum(issues.netRevenueCents) })
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.status, 'open')),
+        and(eq(issues.orgId, orgId), eq(issues.status, 'open'), envCondition),
       );
 
     // Group by issue type
@@ -104,27 +123,31 @@ export function createIssueRoutes(db: Database) {
         issueType: issues.issueType,
         count: count(),
         revenue: sum(issues.estimatedRevenueCents),
+        netRevenue: sum(issues.netRevenueCents),
       })
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.status, 'open')),
+        and(eq(issues.orgId, orgId), eq(issues.status, 'open'), envCondition),
       )
       .groupBy(issues.issueType);
 
     // Derive category summary from byType
-    const byCategory: Record<string, { count: number; revenue: number }> = {};
+    const byCategory: Record<string, { count: number; revenue: number; netRevenue: number }> = {};
     for (const row of byType) {
       const meta = DETECTOR_META[row.issueType];
       const cat = meta?.category || 'unknown';
-      if (!byCategory[cat]) byCategory[cat] = { count: 0, revenue: 0 };
+      if (!byCategory[cat]) byCategory[cat] = { count: 0, revenue: 0, netRevenue: 0 };
       byCategory[cat].count += row.count;
       byCategory[cat].revenue += Number(row.revenue) || 0;
+      byCategory[cat].netRevenue += Number(row.netRevenue) || 0;
     }
 
     return c.json({
       open: openCount.count,
       critical: criticalCount.count,
       revenueAtRiskCents: Number(revenueAtRisk.total) || 0,
+      netRevenueAtRiskCents: Number(revenueAtRisk.net) || 0,
+      currency: await getReportingCurrency(db, orgId),
       byType: byType.map(row => ({
         ...row,
         category: DETECTOR_META[row.issueType]?.category || 'unknown',
@@ -162,7 +185,7 @@ export function createIssueRoutes(db: Database) {
 
     await db
       .update(issues)
-      .set({ status: 'acknowledged', updatedAt: new Date() })
+      .set({ status: 'acknowledged', snoozedUntil: null, updatedAt: new Date() })
       .where(
         and(eq(issues.orgId, orgId), eq(issues.id, issueId)),
       );
@@ -190,6 +213,7 @@ export function createIssueRoutes(db: Database) {
       .set({
         status: 'resolved',
         resolvedAt: new Date(),
+        snoozedUntil: null,
         resolution: parsed.data.resolution || null,
         updatedAt: new Date(),
       })
@@ -198,6 +222,7 @@ export function createIssueRoutes(db: Database) {
       );
 
     dispatchWebhookEvent(db, orgId, issueId, 'issue.resolved').catch(() => {});
+    resolveIncidents(db, orgId, issueId).catch(() => {});
     auditLog(db, c.get('auth'), 'issue.resolved', 'issue', issueId);
 
     return c.json({ ok: true });
@@ -220,6 +245,7 @@ export function createIssueRoutes(db: Database) {
       .set({
         status: 'dismissed',
         resolution: parsed.data.reason || 'Dismissed',
+        snoozedUntil: null,
         updatedAt: new Date(),
       })
       .where(
@@ -227,10 +253,63 @@ export function createIssueRoutes(db: Database) {
       );
 
     dispatchWebhookEvent(db, orgId, issueId, 'issue.dismissed').catch(() => {});
+    resolveIncidents(db, orgId, issueId).catch(() => {});
     auditLog(db, c.get('auth'), 'issue.dismissed', 'issue', issueId);
 
     return c.json({ ok: true });
   });
 
+  // ─── Snooze Issue ───────────────────────────────────────────────────
+
+  app.post('/:issueId/snooze', requireScope('issues:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const issueId = c.req.param('issueId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = snoozeIssueSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const until = new Date(parsed.data.until);
+    const now = Date.now();
+    if (until.getTime() <= now || until.getTime() > now + MAX_SNOOZE_DAYS * 24 * 3600_000) {
+      return c.json({
+        error: 'Invalid request body',
+        details: { until: [`Must be in the future and within ${MAX_SNOOZE_DAYS} days`] },
+      }, 400);
+    }
+
+    const [issue] = await db
+      .select({ status: issues.status })
+      .from(issues)
+      .where(and(eq(issues.orgId, orgId), eq(issues.id, issueId)))
+      .limit(1);
+
+    if (!issue) {
+      return c.json({ error: 'Issue not found' }, 404);
+    }
+    if (!SNOOZABLE_STATUSES.includes(issue.status)) {
+      return c.json({ error: `Cannot snooze a ${issue.status} issue` }, 409);
+    }
+
+    // Queued first: if that fails the issue is left as it was. A job that
+    // runs for an issue that never got snoozed finds nothing to do.
+    await enqueueIssueUnsnooze(issueId, until);
+
+    await db
+      .update(issues)
+      .set({ status: 'snoozed', snoozedUntil: until, updatedAt: new Date() })
+      .where(
+        and(eq(issues.orgId, orgId), eq(issues.id, issueId)),
+      );
+    auditLog(db, c.get('auth'), 'issue.snoozed', 'issue', issueId, {
+      snoozedUntil: until.toISOString(),
+      reason: parsed.data.reason ?? null,
+    });
+
+    return c.json({ ok: true, snoozedUntil: until.toISOString() });
+  });
+
   return app;
 }
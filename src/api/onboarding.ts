@@ -18,6 +18,9 @@ import { hashApiKey } from '../middleware/auth.js';
 import { StripeBackfill } from '../ingestion/backfill/stripe-backfill.js';
 import { RecurlyBackfill } from '../ingestion/backfill/recurly-backfill.js';
 import { GoogleBackfill } from '../ingestion/backfill/google-backfill.js';
+import { AppleBackfill } from '../ingestion/backfill/apple-backfill.js';
+import { BraintreeBackfill, braintreeFetch } from '../ingestion/backfill/braintree-backfill.js';
+import type { BraintreeCredentials } from '../ingestion/backfill/braintree-backfill.js';
 import { createChildLogger } from '../config/logger.js';
 import { writeCredentials, readCredentials } from '../security/credentials.js';
 import { auditLog } from '../security/audit.js';
@@ -50,6 +53,13 @@ const connectGoogleSchema = z.object({
   serviceAccountJson: z.string().min(1, 'serviceAccountJson is required'),
 });
 
+const connectBraintreeSchema = z.object({
+  merchantId: z.string().min(1, 'merchantId is required'),
+  publicKey: z.string().min(1, 'publicKey is required'),
+  privateKey: z.string().min(1, 'privateKey is required'),
+  environment: z.enum(['production', 'sandbox']).default('production'),
+});
+
 const connectAppleSchema = z.object({
   keyId: z.string().min(1, 'keyId is required'),
   issuerId: z.string().min(1, 'issuerId is required'),
@@ -70,14 +80,18 @@ const connectAppleSchema = z.object({
  * 2b. POST /setup/apple            → Connect Apple (paste credentials)
  * 2c. POST /setup/recurly          → Connect Recurly (API key + subdomain)
  * 2d. POST /setup/google           → Connect Google Play (service account JSON + package name)
+ * 2e. POST /setup/braintree        → Connect Braintree (merchant ID + API key pair)
  * 3a. POST /setup/verify/stripe    → Verify Stripe connectivity
  * 3b. POST /setup/verify/apple     → Verify Apple credentials
  * 3c. POST /setup/verify/recurly   → Verify Recurly connectivity
  * 3d. POST /setup/verify/google    → Verify Google Play connectivity
+ * 3e. POST /setup/verify/braintree → Verify Braintree connectivity
  * 4.  GET  /setup/status           → Check integration health (enhanced)
  * 5a. POST /setup/backfill/stripe  → Import historical data from Stripe
  * 5b. POST /setup/backfill/recurly → Import historical data from Recurly
  * 5c. POST /setup/backfill/google  → Import Google Play purchase tokens
+ * 5d. POST /setup/backfill/braintree → Import historical data from Braintree
+ * 5e. POST /setup/backfill/apple    → Import App Store transaction history
  * 6.  GET  /setup/backfill/progress → Real-time import progress
  * 7.  GET  /setup/security-info    → Security documentation for enterprise
  *
@@ -520,6 +534,72 @@ export function createOnboardingRoutes(db: Database) {
     });
   });
 
+  // ─── Step 2e: Connect Braintree ────────────────────────────────────
+
+  app.post('/braintree', async (c) => {
+    const { orgId } = c.get('auth') as AuthContext;
+    const body = await c.req.json();
+
+    const parsed = connectBraintreeSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const creds: BraintreeCredentials = parsed.data;
+
+    // Validate the key pair works by listing plans on the merchant account
+    try {
+      await braintreeFetch(creds, '/plans');
+    } catch (err: any) {
+      return c.json({
+        error: 'Invalid Braintree credentials',
+        detail: err.message,
+      }, 400);
+    }
+
+    const [org] = await db
+      .select({ slug: organizations.slug })
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .limit(1);
+
+    // Braintree signs webhooks with the API private key, so it doubles as the webhook secret
+    await db
+      .insert(billingConnections)
+      .values({
+        orgId,
+        source: 'braintree',
+        credentials: writeCredentials(creds),
+        webhookSecret: creds.privateKey,
+        isActive: true,
+      })
+      .onConflictDoUpdate({
+        target: [billingConnections.orgId, billingConnections.source],
+        set: {
+          credentials: writeCredentials(creds),
+          webhookSecret: creds.privateKey,
+          isActive: true,
+          updatedAt: new Date(),
+        },
+      });
+
+    log.info({ orgId, environment: creds.environment }, 'Braintree connection configured');
+    auditLog(db, c.get('auth'), 'billing_connection.created', 'billing_connection', undefined, { source: 'braintree' });
+
+    return c.json({
+      connected: true,
+      source: 'braintree',
+      environment: creds.environment,
+      webhookUrl: `/webhooks/${org?.slug}/braintree`,
+      instructions: [
+        '1. Go to Braintree Control Panel -> Settings -> Webhooks',
+        `2. Add destination URL: YOUR_DOMAIN/webhooks/${org?.slug}/braintree`,
+        '3. Select notification kinds: all Subscription and Dispute notifications',
+        '4. Use "Check URL" to send a test notification',
+      ],
+    });
+  });
+
   // ─── Step 3: Verify Stripe Connectivity ─────────────────────────────
 
   app.post('/verify/stripe', async (c) => {
@@ -847,6 +927,76 @@ export function createOnboardingRoutes(db: Database) {
     });
   });
 
+  // ─── Step 3e: Verify Braintree Connectivity ────────────────────────
+
+  app.post('/verify/braintree', async (c) => {
+    const { orgId } = c.get('auth') as AuthContext;
+
+    const [conn] = await db
+      .select()
+      .from(billingConnections)
+      .where(
+        and(
+          eq(billingConnections.orgId, orgId),
+          eq(billingConnections.source, 'braintree'),
+        ),
+      )
+      .limit(1);
+
+    if (!conn) {
+      return c.json({ error: 'Braintree not connected. Run POST /setup/braintree first.' }, 400);
+    }
+
+    const checks: {
+      apiKeyValid: boolean;
+      webhookKeyConfigured: boolean;
+      canListPlans: boolean;
+      canSearchSubscriptions: boolean;
+      planCount: number | null;
+      subscriptionCount: number | null;
+      environment: string | null;
+      error: string | null;
+    } = {
+      apiKeyValid: false,
+      webhookKeyConfigured: !!conn.webhookSecret,
+      canListPlans: false,
+      canSearchSubscriptions: false,
+      planCount: null,
+      subscriptionCount: null,
+      environment: null,
+      error: null,
+    };
+
+    try {
+      const creds = readCredentials<BraintreeCredentials>(conn.credentials);
+      checks.environment = creds.environment;
+
+      // Test 1: List plans
+      const plansData = await braintreeFetch(creds, '/plans');
+      const plans = plansData.plans;
+      checks.apiKeyValid = true;
+      checks.canListPlans = true;
+      checks.planCount = Array.isArray(plans) ? plans.length : 0;
+
+      // Test 2: Search subscription IDs
+      const searchData = await braintreeFetch(creds, '/subscriptions/advanced_search_ids', '<search></search>');
+      const ids = (searchData.searchResults as Record<string, unknown> | undefined)?.ids;
+      checks.canSearchSubscriptions = true;
+      checks.subscriptionCount = Array.isArray(ids) ? ids.length : 0;
+    } catch (err: any) {
+      checks.error = err.message;
+    }
+
+    return c.json({
+      source: 'braintree',
+      verified: checks.apiKeyValid && checks.canSearchSubscriptions,
+      checks,
+      message: checks.apiKeyValid
+        ? 'Braintree API keys are valid and working'
+        : `Braintree verification failed: ${checks.error}`,
+    });
+  });
+
   // ─── Step 4: Check Integration Health (Enhanced) ────────────────────
 
   app.get('/status', async (c) => {
@@ -902,15 +1052,23 @@ export function createOnboardingRoutes(db: Database) {
       );
 
     // Fetch backfill progress if available
-    let backfillProgress: { stripe: any; recurly: any; google: any } | null = null;
+    let backfillProgress: { stripe: any; recurly: any; google: any; braintree: any; apple: any } | null = null;
     try {
-      const [stripeProgress, recurlyProgress, googleProgress] = await Promise.all([
+      const [stripeProgress, recurlyProgress, googleProgress, braintreeProgress, appleProgress] = await Promise.all([
         StripeBackfill.getProgress(orgId).catch(() => null),
         RecurlyBackfill.getProgress(orgId).catch(() => null),
         GoogleBackfill.getProgress(orgId).catch(() => null),
+        BraintreeBackfill.getProgress(orgId).catch(() => null),
+        AppleBackfill.getProgress(orgId).catch(() => null),
       ]);
-      if (stripeProgress || recurlyProgress || googleProgress) {
-        backfillProgress = { stripe: stripeProgress, recurly: recurlyProgress, google: googleProgress };
+      if (stripeProgress || recurlyProgress || googleProgress || braintreeProgress || appleProgress) {
+        backfillProgress = {
+          stripe: stripeProgress,
+          recurly: recurlyProgress,
+          google: googleProgress,
+          braintree: braintreeProgress,
+          apple: appleProgress,
+        };
       }
     } catch {
       // Redis not available, skip
@@ -1144,21 +1302,144 @@ export function createOnboardingRoutes(db: Database) {
     });
   });
 
+  // ─── Step 5d: Historical Backfill from Braintree ───────────────────
+
+  app.post('/backfill/braintree', async (c) => {
+    const { orgId } = c.get('auth') as AuthContext;
+
+    const [conn] = await db
+      .select()
+      .from(billingConnections)
+      .where(
+        and(
+          eq(billingConnections.orgId, orgId),
+          eq(billingConnections.source, 'braintree'),
+        ),
+      )
+      .limit(1);
+
+    if (!conn) {
+      return c.json({ error: 'Braintree not connected. Run POST /setup/braintree first.' }, 400);
+    }
+
+    // Check if backfill is already running
+    let existingProgress = null;
+    try {
+      existingProgress = await BraintreeBackfill.getProgress(orgId);
+    } catch {
+      // Redis not available
+    }
+
+    if (existingProgress && (existingProgress.status === 'importing_subscriptions' || existingProgress.status === 'importing_events' || existingProgress.status === 'counting')) {
+      return c.json({
+        error: 'Backfill already in progress',
+        progress: existingProgress,
+      }, 409);
+    }
+
+    // Start backfill in the background
+    const jobId = `backfill_braintree_${orgId}_${Date.now()}`;
+    const backfill = new BraintreeBackfill(db);
+
+    // Fire and forget - don't await
+    backfill.run(orgId).catch((err) => {
+      log.error({ err, orgId, jobId }, 'Background Braintree backfill failed');
+    });
+
+    log.info({ orgId, jobId }, 'Braintree backfill started');
+
+    return c.json({
+      jobId,
+      status: 'started',
+      message: 'Historical data import from Braintree has started. Check /setup/backfill/progress for real-time updates.',
+      progressUrl: '/setup/backfill/progress',
+      estimatedTime: '5-15 minutes depending on data volume',
+    });
+  });
+
+  // ─── Step 5e: Historical Backfill from Apple App Store ─────────────
+
+  app.post('/backfill/apple', async (c) => {
+    const { orgId } = c.get('auth') as AuthContext;
+
+    const [conn] = await db
+      .select()
+      .from(billingConnections)
+      .where(
+        and(
+          eq(billingConnections.orgId, orgId),
+          eq(billingConnections.source, 'apple'),
+        ),
+      )
+      .limit(1);
+
+    if (!conn) {
+      return c.json({ error: 'Apple not connected. Run POST /setup/apple first.' }, 400);
+    }
+
+    const creds = readCredentials<{ privateKey?: string }>(conn.credentials);
+    if (!creds.privateKey) {
+      return c.json({ error: 'Apple private key not configured. Re-run POST /setup/apple with privateKey.' }, 400);
+    }
+
+    // Check if backfill is already running
+    let existingProgress = null;
+    try {
+      existingProgress = await AppleBackfill.getProgress(orgId);
+    } catch {
+      // Redis not available
+    }
+
+    if (existingProgress && (existingProgress.status === 'importing_subscriptions' || existingProgress.status === 'importing_events' || existingProgress.status === 'counting')) {
+      return c.json({
+        error: 'Backfill already in progress',
+        progress: existingProgress,
+      }, 409);
+    }
+
+    // Accept optional originalTransactionIds; known IDs are always included
+    const body = await c.req.json().catch(() => ({}));
+    const originalTransactionIds: string[] = Array.isArray(body.originalTransactionIds)
+      ? body.originalTransactionIds.filter((id: unknown) => typeof id === 'string')
+      : [];
+
+    // Start backfill in the background
+    const jobId = `backfill_apple_${orgId}_${Date.now()}`;
+    const backfill = new AppleBackfill(db);
+
+    // Fire and forget - don't await
+    backfill.run(orgId, originalTransactionIds).catch((err) => {
+      log.error({ err, orgId, jobId }, 'Background Apple backfill failed');
+    });
+
+    log.info({ orgId, jobId, idCount: originalTransactionIds.length }, 'Apple backfill started');
+
+    return c.json({
+      jobId,
+      status: 'started',
+      message: 'Importing App Store transaction history. Check /setup/backfill/progress for real-time updates.',
+      progressUrl: '/setup/backfill/progress',
+      estimatedTime: '2-15 minutes depending on data volume (Apple API is rate limited)',
+    });
+  });
+
   // ─── Backfill Progress ──────────────────────────────────────────────
 
   app.get('/backfill/progress', async (c) => {
     const { orgId } = c.get('auth') as AuthContext;
 
-    const [stripeProgress, recurlyProgress, googleProgress] = await Promise.all([
+    const [stripeProgress, recurlyProgress, googleProgress, braintreeProgress, appleProgress] = await Promise.all([
       StripeBackfill.getProgress(orgId).catch(() => null),
       RecurlyBackfill.getProgress(orgId).catch(() => null),
       GoogleBackfill.getProgress(orgId).catch(() => null),
+      BraintreeBackfill.getProgress(orgId).catch(() => null),
+      AppleBackfill.getProgress(orgId).catch(() => null),
     ]);
 
-    if (!stripeProgress && !recurlyProgress && !googleProgress) {
+    if (!stripeProgress && !recurlyProgress && !googleProgress && !braintreeProgress && !appleProgress) {
       return c.json({
         status: 'not_started',
-        message: 'No backfill has been started. Run POST /setup/backfill/stripe, /setup/backfill/recurly, or /setup/backfill/google to begin.',
+        message: 'No backfill has been started. Run POST /setup/backfill/stripe, /setup/backfill/recurly, /setup/backfill/google, /setup/backfill/braintree, or /setup/backfill/apple to begin.',
       });
     }
 
@@ -1166,6 +1447,8 @@ export function createOnboardingRoutes(db: Database) {
       stripe: stripeProgress || null,
       recurly: recurlyProgress || null,
       google: googleProgress || null,
+      braintree: braintreeProgress || null,
+      apple: appleProgress || null,
     });
   });
 
@@ -0,0 +1,255 @@
+import { Hono } from 'hono';
+import { eq, and, asc, count, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import { products, canonicalEvents, entitlements, accessChecks } from '../models/schema.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+import { ProductCatalog } from '../products/catalog.js';
+import { triggerScanNow } from '../queue/scan-scheduler.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('products-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const externalIdListSchema = z
+  .array(z.string().min(1).max(255))
+  .max(50)
+  .transform(ids => [...new Set(ids)]);
+
+const externalIdsSchema = z.object({
+  stripe: externalIdListSchema.optional(),
+  apple: externalIdListSchema.optional(),
+  google: externalIdListSchema.optional(),
+  recurly: externalIdListSchema.optional(),
+  braintree: externalIdListSchema.optional(),
+}).strict();
+
+const createProductSchema = z.object({
+  name: z.string().min(1).max(255),
+  externalIds: externalIdsSchema.default({}),
+  isActive: z.boolean().default(true),
+});
+
+const updateProductSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  externalIds: externalIdsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+const mergeProductSchema = z.object({
+  sourceProductId: z.string().uuid(),
+});
+
+/**
+ * Product catalog routes.
+ *
+ * Routes (mounted under /api/v1/products):
+ *   GET    /                    - List products (?unmapped=true for auto-created ones)
+ *   GET    /:productId          - Product with event/entitlement counts
+ *   POST   /                    - Create a product
+ *   PUT    /:productId          - Rename, remap external IDs, (de)activate
+ *   DELETE /:productId          - Delete a product nothing references
+ *   POST   /:productId/merge    - Fold another product into this one
+ */
+export function createProductRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+  const catalog = new ProductCatalog(db);
+
+  // ─── List products ─────────────────────────────────────────────
+
+  app.get('/', requireScope('products:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const unmapped = c.req.query('unmapped') === 'true';
+
+    const rows = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.orgId, orgId), unmapped ? eq(products.autoCreated, true) : undefined))
+      .orderBy(asc(products.name));
+
+    return c.json({ products: rows });
+  });
+
+  // ─── Get product ───────────────────────────────────────────────
+
+  app.get('/:productId', requireScope('products:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const productId = c.req.param('productId');
+
+    const product = await findProduct(db, orgId, productId);
+    if (!product) {
+      return c.json({ error: 'Product not found' }, 404);
+    }
+
+    const usage = await productUsage(db, orgId, productId);
+    return c.json({ product, usage });
+  });
+
+  // ─── Create product ────────────────────────────────────────────
+
+  app.post('/', requireScope('products:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = createProductSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const conflicts = await catalog.findConflicts(orgId, parsed.data.externalIds);
+    if (conflicts.length > 0) {
+      return c.json({ error: 'External IDs already mapped to another product', conflicts }, 409);
+    }
+
+    const [product] = await db
+      .insert(products)
+      .values({ orgId, ...parsed.data })
+      .returning();
+
+    log.info({ orgId, productId: product.id }, 'Product created');
+    auditLog(db, c.get('auth'), 'product.created', 'product', product.id, { name: product.name });
+
+    return c.json({ product }, 201);
+  });
+
+  // ─── Update product ────────────────────────────────────────────
+
+  app.put('/:productId', requireScope('products:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const productId = c.req.param('productId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = updateProductSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const existing = await findProduct(db, orgId, productId);
+    if (!existing) {
+      return c.json({ error: 'Product not found' }, 404);
+    }
+
+    if (parsed.data.externalIds) {
+      const conflicts = await catalog.findConflicts(orgId, parsed.data.externalIds, productId);
+      if (conflicts.length > 0) {
+        return c.json({ error: 'External IDs already mapped to another product', conflicts }, 409);
+      }
+    }
+
+    // Any edit counts as a human having mapped the product
+    const [product] = await db
+      .update(products)
+      .set({ ...parsed.data, autoCreated: false, updatedAt: new Date() })
+      .where(and(eq(products.orgId, orgId), eq(products.id, productId)))
+      .returning();
+
+    log.info({ orgId, productId }, 'Product updated');
+    auditLog(db, c.get('auth'), 'product.updated', 'product', productId, { changes: parsed.data });
+
+    return c.json({ product });
+  });
+
+  // ─── Delete product ────────────────────────────────────────────
+
+  app.delete('/:productId', requireScope('products:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const productId = c.req.param('productId');
+
+    const existing = await findProduct(db, orgId, productId);
+    if (!existing) {
+      return c.json({ error: 'Product not found' }, 404);
+    }
+
+    const usage = await productUsage(db, orgId, productId);
+    if (usage.events > 0 || usage.entitlements > 0 || usage.accessChecks > 0) {
+      return c.json({
+        error: 'Product is in use. Merge it into another product or deactivate it instead',
+        usage,
+      }, 409);
+    }
+
+    await db.delete(products).where(and(eq(products.orgId, orgId), eq(products.id, productId)));
+
+    log.info({ orgId, productId }, 'Product deleted');
+    auditLog(db, c.get('auth'), 'product.deleted', 'product', productId, { name: existing.name });
+
+    return c.json({ ok: true });
+  });
+
+  // ─── Merge (fold another product into this one) ────────────────
+
+  app.post('/:productId/merge', requireScope('products:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const productId = c.req.param('productId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = mergeProductSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const { sourceProductId } = parsed.data;
+    if (sourceProductId === productId) {
+      return c.json({ error: 'Cannot merge a product into itself' }, 400);
+    }
+
+    const found = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.orgId, orgId), inArray(products.id, [productId, sourceProductId])));
+
+    const target = found.find(p => p.id === productId);
+    const source = found.find(p => p.id === sourceProductId);
+    if (!target || !source) {
+      return c.json({ error: 'Product not found' }, 404);
+    }
+
+    const result = await catalog.merge(orgId, target, source);
+
+    auditLog(db, c.get('auth'), 'product.merged', 'product', productId, {
+      ...result,
+      mergedProductName: source.name,
+    });
+
+    // Users billed for both products on different platforms are now
+    // duplicate billing; don't wait for the next scheduled scan
+    if (result.eventsMoved > 0) {
+      triggerScanNow('duplicate_billing', orgId).catch((err) => {
+        log.warn({ err, orgId }, 'Failed to queue duplicate billing scan after product merge');
+      });
+    }
+
+    return c.json({ ok: true, ...result });
+  });
+
+  return app;
+}
+
+async function findProduct(db: Database, orgId: string, productId: string) {
+  const [product] = await db
+    .select()
+    .from(products)
+    .where(and(eq(products.orgId, orgId), eq(products.id, productId)))
+    .limit(1);
+  return product;
+}
+
+async function productUsage(db: Database, orgId: string, productId: string) {
+  const [[events], [ents], [checks]] = await Promise.all([
+    db.select({ count: count() }).from(canonicalEvents)
+      .where(and(eq(canonicalEvents.orgId, orgId), eq(canonicalEvents.productId, productId))),
+    db.select({ count: count() }).from(entitlements)
+      .where(and(eq(entitlements.orgId, orgId), eq(entitlements.productId, productId))),
+    db.select({ count: count() }).from(accessChecks)
+      .where(and(eq(accessChecks.orgId, orgId), eq(accessChecks.productId, productId))),
+  ]);
+
+  return {
+    events: Number(events?.count ?? 0),
+    entitlements: Number(ents?.count ?? 0),
+    accessChecks: Number(checks?.count ?? 0),
+  };
+}
@@ -5,6 +5,7 @@ import type { AuthContext } from '../middleware/auth.js';
 import { triggerScanNow, getScanSchedules } from '../queue/scan-scheduler.js';
 import { getQueue, QUEUE_NAMES } from '../config/queue.js';
 import { IssueDetectionEngine } from '../detection/engine.js';
+import { CUSTOM_RULES_SCAN_ID } from '../detection/rules/rule-detector.js';
 import { createChildLogger } from '../config/logger.js';
 import { requireScope } from '../middleware/require-scope.js';
 import { auditLog } from '../security/audit.js';
@@ -47,7 +48,7 @@ export function createScanRoutes(db: Database) {
     const detectorId = parsed.data.detectorId || 'all';
 
     // Validate detector exists if a specific one was requested
-    if (detectorId !== 'all') {
+    if (detectorId !== 'all' && detectorId !== CUSTOM_RULES_SCAN_ID) {
       const engine = new IssueDetectionEngine(db);
       const detectors = engine.getDetectors();
       const found = detectors.find(d => d.id === detectorId);
@@ -0,0 +1,90 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import type { AuthContext } from '../middleware/auth.js';
+import { getOrgSettings, updateOrgSettings } from '../config/org-settings.js';
+import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+import { CurrencyConverter } from '../currency/fx.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('settings-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const appleConsumptionSchema = z.object({
+  enabled: z.boolean(),
+  customerConsented: z.boolean().optional(),
+  refundPreference: z.enum(['decline', 'grant', 'no_preference']).optional(),
+  sampleContentProvided: z.boolean().optional(),
+  reasons: z.array(z.enum([
+    'UNINTENDED_PURCHASE',
+    'FULFILLMENT_ISSUE',
+    'UNSATISFIED_WITH_PURCHASE',
+    'LEGAL',
+    'OTHER',
+  ])).min(1).optional(),
+}).strict();
+
+const reconciliationSchema = z.object({
+  enabled: z.boolean(),
+  mode: z.enum(['sample', 'full']).optional(),
+  sampleSize: z.number().int().min(1).max(5000).optional(),
+  autoCorrect: z.boolean().optional(),
+}).strict();
+
+const smallBusinessProgramSchema = z.object({
+  apple: z.boolean().optional(),
+  google: z.boolean().optional(),
+}).strict();
+
+const updateSettingsSchema = z.object({
+  dropSandboxEvents: z.boolean().optional(),
+  appleConsumption: appleConsumptionSchema.optional(),
+  reconciliation: reconciliationSchema.optional(),
+  reportingCurrency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code').optional(),
+  smallBusinessProgram: smallBusinessProgramSchema.optional(),
+}).strict();
+
+/**
+ * Organization settings routes.
+ *
+ * Routes (mounted under /api/v1/settings):
+ *   GET /  - Current settings
+ *   PUT /  - Update one or more settings; omitted keys are left unchanged
+ */
+export function createSettingsRoutes(db: Database) {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>();
+
+  app.get('/', requireScope('admin:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const settings = await getOrgSettings(db, orgId);
+    return c.json({ settings });
+  });
+
+  app.put('/', requireScope('admin:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = updateSettingsSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten() }, 400);
+    }
+
+    const previous = await getOrgSettings(db, orgId);
+    const settings = await updateOrgSettings(db, orgId, parsed.data);
+
+    // Re-convert existing issue revenue into the new reporting currency
+    if (parsed.data.reportingCurrency && parsed.data.reportingCurrency !== previous.reportingCurrency) {
+      new CurrencyConverter(db).convertIssues(orgId).catch((err) => {
+        log.error({ err, orgId }, 'Failed to convert issues to the new reporting currency');
+      });
+    }
+
+    auditLog(db, c.get('auth'), 'settings.updated', 'organization', orgId, { changes: parsed.data });
+
+    return c.json({ settings });
+  });
+
+  return app;
+}
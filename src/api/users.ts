@@ -1,9 +1,63 @@
 import { Hono } from 'hono';
-import { eq, and, desc, count, sql } from 'drizzle-orm';
+import { eq, and, desc, count, sql, inArray } from 'drizzle-orm';
+import { z } from 'zod';
 import type { Database } from '../config/database.js';
 import { users, userIdentities, canonicalEvents, entitlements, issues } from '../models/schema.js';
 import type { AuthContext } from '../middleware/auth.js';
 import { requireScope } from '../middleware/require-scope.js';
+import { auditLog } from '../security/audit.js';
+import { IdentityMergeService } from '../identity/merge.js';
+import { IdentityResolver } from '../identity/resolver.js';
+import { createChildLogger } from '../config/logger.js';
+import {
+  parseEnvironmentFilter,
+  environmentCondition,
+  INVALID_ENVIRONMENT_ERROR,
+  type EnvironmentFilter,
+} from './environment.js';
+
+const log = createChildLogger('users-api');
+
+// ─── Validation Schemas ────────────────────────────────────────────
+
+const mergeUserSchema = z.object({
+  sourceUserId: z.string().uuid(),
+});
+
+const splitUserSchema = z.object({
+  identityIds: z.array(z.string().uuid()).min(1).max(100),
+});
+
+const identifyUserSchema = z.object({
+  appUserId: z.string().min(1).max(255),
+  email: z.string().email().max(255).optional(),
+  stripeCustomerId: z.string().min(1).max(512).optional(),
+  appleOriginalTransactionId: z.string().min(1).max(512).optional(),
+  googlePurchaseToken: z.string().min(1).max(512).optional(),
+  recurlyAccountCode: z.string().min(1).max(512).optional(),
+});
+
+const identifyBatchSchema = z.object({
+  users: z.array(identifyUserSchema).min(1).max(500),
+});
+
+/**
+ * Users don't carry an environment of their own; a user is a sandbox user
+ * when they have sandbox events, and a production user unless all of their
+ * events are sandbox (users with no events yet count as production).
+ */
+function userEnvironmentCondition(filter: EnvironmentFilter) {
+  if (filter === 'all') return undefined;
+
+  const hasEventsIn = (env: string) => sql`EXISTS (
+    SELECT 1 FROM ${canonicalEvents}
+    WHERE ${canonicalEvents.userId} = ${users.id} AND ${canonicalEvents.environment} = ${env}
+  )`;
+
+  return filter === 'sandbox'
+    ? hasEventsIn('sandbox')
+    : sql`(${hasEventsIn('production')} OR NOT ${hasEventsIn('sandbox')})`;
+}
 
 /**
  * User API — the "user timeline" view.
@@ -14,6 +68,8 @@ import { requireScope } from '../middleware/require-scope.js';
  */
 export function createUserRoutes(db: Database) {
   const app = new Hono<{ Variables: { auth: AuthContext } }>();
+  const mergeService = new IdentityMergeService(db);
+  const resolver = new IdentityResolver(db);
 
   // ─── List Users (paginated, with optional search) ──────────────────
 
@@ -22,8 +78,12 @@ export function createUserRoutes(db: Database) {
     const limit = Math.min(parseInt(c.req.query('limit') || '25'), 100);
     const offset = parseInt(c.req.query('offset') || '0') || 0;
     const search = c.req.query('search');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
 
     const conditions = [eq(users.orgId, orgId)];
+    const envCondition = userEnvironmentCondition(environment);
+    if (envCondition) conditions.push(envCondition);
     if (search && search.length >= 2) {
       conditions.push(
         sql`(${users.email} ILIKE ${'%' + search + '%'} OR ${users.externalUserId} ILIKE ${'%' + search + '%'})`,
@@ -54,6 +114,68 @@ export function createUserRoutes(db: Database) {
     });
   });
 
+  // ─── Identify (customer-declared identity mapping) ─────────────────
+
+  app.post('/identify', requireScope('users:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = identifyUserSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const result = await resolver.identify(orgId, parsed.data);
+
+    auditLog(db, c.get('auth'), 'user.identified', 'user', result.userId, {
+      appUserId: parsed.data.appUserId,
+      created: result.created,
+      mergedUserIds: result.merged.map(m => m.mergedUserId),
+    });
+
+    return c.json({ ok: true, ...result });
+  });
+
+  app.post('/identify/batch', requireScope('users:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = identifyBatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    // Sequential so rows naming the same user don't race each other
+    const results = [];
+    const errors = [];
+    for (const [index, input] of parsed.data.users.entries()) {
+      try {
+        const result = await resolver.identify(orgId, input);
+        results.push({
+          index,
+          appUserId: input.appUserId,
+          userId: result.userId,
+          created: result.created,
+          mergedUserIds: result.merged.map(m => m.mergedUserId),
+        });
+      } catch (err: any) {
+        log.error({ err, orgId, appUserId: input.appUserId }, 'Identify failed for batch row');
+        errors.push({ index, appUserId: input.appUserId, error: err.message });
+      }
+    }
+
+    const summary = {
+      identified: results.length,
+      created: results.filter(r => r.created).length,
+      merged: results.reduce((n, r) => n + r.mergedUserIds.length, 0),
+      failed: errors.length,
+    };
+
+    auditLog(db, c.get('auth'), 'users.identified_batch', 'user', undefined, summary);
+
+    return c.json({ ok: errors.length === 0, summary, results, errors });
+  });
+
   // ─── Search Users ───────────────────────────────────────────────────
 
   app.get('/search', requireScope('users:read'), async (c) => {
@@ -111,6 +233,8 @@ export function createUserRoutes(db: Database) {
   app.get('/:userId/timeline', requireScope('users:read'), async (c) => {
     const { orgId } = c.get('auth');
     const userId = c.req.param('userId');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
     const limit = Math.min(parseInt(c.req.query('limit') || '100'), 500);
 
     // Get all events for this user, newest first
@@ -118,7 +242,11 @@ export function createUserRoutes(db: Database) {
       .select()
       .from(canonicalEvents)
       .where(
-        and(eq(canonicalEvents.orgId, orgId), eq(canonicalEvents.userId, userId)),
+        and(
+          eq(canonicalEvents.orgId, orgId),
+          eq(canonicalEvents.userId, userId),
+          environmentCondition(canonicalEvents.environment, environment),
+        ),
       )
       .orderBy(desc(canonicalEvents.eventTime))
       .limit(limit);
@@ -131,12 +259,18 @@ export function createUserRoutes(db: Database) {
   app.get('/:userId/entitlements', requireScope('users:read'), async (c) => {
     const { orgId } = c.get('auth');
     const userId = c.req.param('userId');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
 
     const ents = await db
       .select()
       .from(entitlements)
       .where(
-        and(eq(entitlements.orgId, orgId), eq(entitlements.userId, userId)),
+        and(
+          eq(entitlements.orgId, orgId),
+          eq(entitlements.userId, userId),
+          environmentCondition(entitlements.environment, environment),
+        ),
       );
 
     return c.json({ entitlements: ents });
@@ -163,12 +297,18 @@ export function createUserRoutes(db: Database) {
   app.get('/:userId/issues', requireScope('users:read'), async (c) => {
     const { orgId } = c.get('auth');
     const userId = c.req.param('userId');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
 
     const userIssues = await db
       .select()
       .from(issues)
       .where(
-        and(eq(issues.orgId, orgId), eq(issues.userId, userId)),
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.userId, userId),
+          environmentCondition(issues.environment, environment),
+        ),
       )
       .orderBy(desc(issues.createdAt));
 
@@ -180,6 +320,8 @@ export function createUserRoutes(db: Database) {
   app.get('/:userId', requireScope('users:read'), async (c) => {
     const { orgId } = c.get('auth');
     const userId = c.req.param('userId');
+    const environment = parseEnvironmentFilter(c.req.query('environment'));
+    if (!environment) return c.json({ error: INVALID_ENVIRONMENT_ERROR }, 400);
 
     const [user] = await db
       .select()
@@ -199,17 +341,30 @@ export function createUserRoutes(db: Database) {
       db
         .select()
         .from(entitlements)
-        .where(and(eq(entitlements.orgId, orgId), eq(entitlements.userId, userId))),
+        .where(and(
+          eq(entitlements.orgId, orgId),
+          eq(entitlements.userId, userId),
+          environmentCondition(entitlements.environment, environment),
+        )),
       db
         .select()
         .from(issues)
-        .where(and(eq(issues.orgId, orgId), eq(issues.userId, userId), eq(issues.status, 'open')))
+        .where(and(
+          eq(issues.orgId, orgId),
+          eq(issues.userId, userId),
+          eq(issues.status, 'open'),
+          environmentCondition(issues.environment, environment),
+        ))
         .orderBy(desc(issues.createdAt))
         .limit(10),
       db
         .select()
         .from(canonicalEvents)
-        .where(and(eq(canonicalEvents.orgId, orgId), eq(canonicalEvents.userId, userId)))
+        .where(and(
+          eq(canonicalEvents.orgId, orgId),
+          eq(canonicalEvents.userId, userId),
+          environmentCondition(canonicalEvents.environment, environment),
+        ))
         .orderBy(desc(canonicalEvents.eventTime))
         .limit(20),
     ]);
@@ -223,5 +378,86 @@ export function createUserRoutes(db: Database) {
     });
   });
 
+  // ─── Merge (fold another user into this one) ───────────────────────
+
+  app.post('/:userId/merge', requireScope('users:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const userId = c.req.param('userId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = mergeUserSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const { sourceUserId } = parsed.data;
+    if (sourceUserId === userId) {
+      return c.json({ error: 'Cannot merge a user into itself' }, 400);
+    }
+
+    const found = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.orgId, orgId), inArray(users.id, [userId, sourceUserId])));
+
+    const target = found.find(u => u.id === userId);
+    const source = found.find(u => u.id === sourceUserId);
+    if (!target || !source) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const result = await mergeService.merge(orgId, target, source);
+
+    auditLog(db, c.get('auth'), 'user.merged', 'user', userId, { ...result });
+
+    return c.json({ ok: true, ...result });
+  });
+
+  // ─── Split (detach identities into a new user) ─────────────────────
+
+  app.post('/:userId/split', requireScope('users:write'), async (c) => {
+    const { orgId } = c.get('auth');
+    const userId = c.req.param('userId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = splitUserSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.orgId, orgId), eq(users.id, userId)))
+      .limit(1);
+
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const identities = await db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.orgId, orgId), eq(userIdentities.userId, userId)));
+
+    const requested = new Set(parsed.data.identityIds);
+    const detached = identities.filter(i => requested.has(i.id));
+    if (detached.length !== requested.size) {
+      return c.json({ error: 'One or more identities do not belong to this user' }, 400);
+    }
+    if (detached.length === identities.length) {
+      return c.json({ error: 'Cannot detach every identity; at least one must stay with the user' }, 400);
+    }
+
+    const result = await mergeService.split(orgId, user, detached);
+
+    auditLog(db, c.get('auth'), 'user.split', 'user', userId, {
+      ...result,
+      identityIds: parsed.data.identityIds,
+    });
+
+    return c.json({ ok: true, ...result });
+  });
+
   return app;
 }
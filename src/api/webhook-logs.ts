@@ -1,7 +1,8 @@
 import { Hono } from 'hono';
-import { eq, and, desc, gte, sql, count } from 'drizzle-orm';
+import { eq, and, desc, gte, sql, count, isNotNull } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
-import { webhookLogs } from '../models/schema.js';
+import { webhookLogs, issues } from '../models/schema.js';
+import type { GapRecoveryOutcome } from '../models/types.js';
 import type { AuthContext } from '../middleware/auth.js';
 import { requireScope } from '../middleware/require-scope.js';
 
@@ -9,7 +10,8 @@ import { requireScope } from '../middleware/require-scope.js';
  * Webhook Logs API — view incoming webhook deliveries and debug integration issues.
  *
  * Lets customers see what webhooks are arriving, their processing status,
- * and any errors that occurred during normalization.
+ * and any errors that occurred during normalization — plus the deliveries
+ * recovered from the provider's API after a webhook gap.
  */
 export function createWebhookLogRoutes(db: Database) {
   const app = new Hono<{ Variables: { auth: AuthContext } }>();
@@ -86,6 +88,41 @@ export function createWebhookLogRoutes(db: Database) {
     });
   });
 
+  // ─── Gap Recoveries ────────────────────────────────────────────────
+  // Webhook gap issues whose missed notifications were recovered from the
+  // provider's API, newest first. Also mounted before /:id.
+
+  app.get('/recoveries', requireScope('dashboard:read'), async (c) => {
+    const { orgId } = c.get('auth');
+    const limit = Math.min(parseInt(c.req.query('limit') || '10'), 50);
+
+    const rows = await db
+      .select({
+        issueId: issues.id,
+        status: issues.status,
+        title: issues.title,
+        evidence: issues.evidence,
+        createdAt: issues.createdAt,
+      })
+      .from(issues)
+      .where(
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.issueType, 'webhook_delivery_gap'),
+          sql`${issues.evidence} -> 'recovery' is not null`,
+        ),
+      )
+      .orderBy(desc(issues.createdAt))
+      .limit(limit);
+
+    return c.json({
+      recoveries: rows.map(({ evidence, ...issue }) => {
+        const { source, recovery } = evidence as { source: string; recovery: GapRecoveryOutcome };
+        return { ...issue, source, recovery };
+      }),
+    });
+  });
+
   // ─── List Webhook Logs ─────────────────────────────────────────────
 
   app.get('/', requireScope('dashboard:read'), async (c) => {
@@ -96,6 +133,7 @@ export function createWebhookLogRoutes(db: Database) {
     const status = c.req.query('status');
     const from = c.req.query('from');
     const to = c.req.query('to');
+    const recovered = c.req.query('recovered') === 'true';
 
     const whereCondition = and(
       eq(webhookLogs.orgId, orgId),
@@ -103,6 +141,7 @@ export function createWebhookLogRoutes(db: Database) {
       status ? eq(webhookLogs.processingStatus, status) : undefined,
       from ? gte(webhookLogs.createdAt, new Date(from)) : undefined,
       to ? sql`${webhookLogs.createdAt} <= ${new Date(to)}` : undefined,
+      recovered ? isNotNull(webhookLogs.recoveryIssueId) : undefined,
     );
 
     const [totalResult] = await db
@@ -118,6 +157,7 @@ export function createWebhookLogRoutes(db: Database) {
         eventType: webhookLogs.eventType,
         externalEventId: webhookLogs.externalEventId,
         errorMessage: webhookLogs.errorMessage,
+        recoveryIssueId: webhookLogs.recoveryIssueId,
         createdAt: webhookLogs.createdAt,
         processedAt: webhookLogs.processedAt,
       })
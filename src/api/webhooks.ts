@@ -18,6 +18,8 @@ const log = createChildLogger('webhook-api');
  *   POST /webhooks/:orgSlug/stripe
  *   POST /webhooks/:orgSlug/apple
  *   POST /webhooks/:orgSlug/google
+ *   POST /webhooks/:orgSlug/recurly
+ *   POST /webhooks/:orgSlug/braintree
  *
  * Design principles:
  * 1. Verify signature BEFORE enqueuing (security-critical)
@@ -168,6 +170,7 @@ export function createWebhookRoutes(db: Database) {
   app.post('/:orgSlug/apple', (c) => handleWebhook(c, 'apple'));
   app.post('/:orgSlug/google', (c) => handleWebhook(c, 'google'));
   app.post('/:orgSlug/recurly', (c) => handleWebhook(c, 'recurly'));
+  app.post('/:orgSlug/braintree', (c) => handleWebhook(c, 'braintree'));
 
   return app;
 }
@@ -15,6 +15,7 @@ const envSchema = z.object({
   APPLE_BUNDLE_ID: z.string().optional(),
   APPLE_PRIVATE_KEY_PATH: z.string().optional(),
   APPLE_ENVIRONMENT: z.enum(['sandbox', 'production']).default('sandbox'),
+  APPLE_API_BASE_URL: z.string().url().optional(), // overrides App Store Server API host (e.g. local mock)
 
   RECURLY_API_KEY: z.string().optional(),
   RECURLY_WEBHOOK_KEY: z.string().optional(),
@@ -54,6 +55,9 @@ const envSchema = z.object({
 
   // ─── Scheduled Scans ──────────────────────────────────────────────
   ENABLE_SCHEDULED_SCANS: z.enum(['true', 'false']).default('true'),
+
+  // ─── FX Rates (optional — JSON rates loaded as shared rates at startup) ──
+  FX_RATES_FILE: z.string().optional(),
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -0,0 +1,76 @@
+import { eq, sql } from 'drizzle-orm';
+import type { Database } from './database.js';
+import { organizations } from '../models/schema.js';
+import type { DetectorSettings, OrgSettings } from '../models/types.js';
+import { DEFAULT_CURRENCY } from '../currency/format.js';
+
+/**
+ * Read an org's settings. Unknown orgs and unset settings both come back
+ * as an empty object, so callers only need to handle missing keys.
+ */
+export async function getOrgSettings(db: Database, orgId: string): Promise<OrgSettings> {
+  const [org] = await db
+    .select({ settings: organizations.settings })
+    .from(organizations)
+    .where(eq(organizations.id, orgId))
+    .limit(1);
+
+  return (org?.settings as OrgSettings | null) ?? {};
+}
+
+/** The currency an org's revenue figures are converted to and reported in */
+export async function getReportingCurrency(db: Database, orgId: string): Promise<string> {
+  return (await getOrgSettings(db, orgId)).reportingCurrency ?? DEFAULT_CURRENCY;
+}
+
+/** An org's overrides for the built-in detectors, keyed by detector ID */
+export async function getDetectorSettings(db: Database, orgId: string): Promise<Record<string, DetectorSettings>> {
+  return (await getOrgSettings(db, orgId)).detectors ?? {};
+}
+
+/**
+ * Merge a partial update into an org's settings and return the result.
+ * The merge happens in the database, so concurrent updates to different
+ * keys don't overwrite each other.
+ */
+export async function updateOrgSettings(
+  db: Database,
+  orgId: string,
+  patch: Partial<OrgSettings>,
+): Promise<OrgSettings> {
+  const [org] = await db
+    .update(organizations)
+    .set({
+      settings: sql`coalesce(${organizations.settings}, '{}'::jsonb) || ${JSON.stringify(patch)}::jsonb`,
+      updatedAt: new Date(),
+    })
+    .where(eq(organizations.id, orgId))
+    .returning({ settings: organizations.settings });
+
+  return (org?.settings as OrgSettings | null) ?? {};
+}
+
+/**
+ * Replace one detector's overrides, or remove them when `settings` is
+ * undefined, leaving the other detectors' untouched. Like
+ * updateOrgSettings, the change is made in the database.
+ */
+export async function setDetectorSettings(
+  db: Database,
+  orgId: string,
+  detectorId: string,
+  settings?: DetectorSettings,
+): Promise<void> {
+  const others = sql`coalesce(${organizations.settings} -> 'detectors', '{}'::jsonb) - ${detectorId}::text`;
+  const detectors = settings
+    ? sql`(${others}) || jsonb_build_object(${detectorId}::text, ${JSON.stringify(settings)}::jsonb)`
+    : others;
+
+  await db
+    .update(organizations)
+    .set({
+      settings: sql`jsonb_set(coalesce(${organizations.settings}, '{}'::jsonb), '{detectors}', ${detectors})`,
+      updatedAt: new Date(),
+    })
+    .where(eq(organizations.id, orgId));
+}
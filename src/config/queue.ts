@@ -13,6 +13,13 @@ export const QUEUE_NAMES = {
   AI_INVESTIGATION: 'ai-investigation',
   WEBHOOK_DELIVERY: 'webhook-delivery',
   DATA_RETENTION: 'data-retention',
+  ENTITLEMENT_REPLAY: 'entitlement-replay',
+  APPLE_CONSUMPTION: 'apple-consumption',
+  GAP_RECOVERY: 'webhook-gap-recovery',
+  RECONCILIATION: 'subscription-reconciliation',
+  ALERT_DIGESTS: 'alert-digests',
+  ALERT_ESCALATIONS: 'alert-escalations',
+  ISSUE_SNOOZE: 'issue-snooze',
 } as const;
 
 export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
@@ -0,0 +1,24 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+function currencyFormat(currency: string): Intl.NumberFormat | null {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Digits in a currency's minor unit: amounts are stored in minor units, so
+ * 1000 is $10.00 but ¥1000 and KWD 1.000.
+ */
+export function minorUnitDigits(currency: string): number {
+  return currencyFormat(currency)?.resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/** Format an amount in minor units for people, e.g. "$14.99", "€9.99", "¥1,200" */
+export function formatMoney(cents: number, currency: string | null | undefined): string {
+  const code = (currency || DEFAULT_CURRENCY).toUpperCase();
+  const amount = cents / 10 ** minorUnitDigits(code);
+  return currencyFormat(code)?.format(amount) ?? `${amount.toFixed(2)} ${code}`;
+}
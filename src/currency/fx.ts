@@ -0,0 +1,228 @@
+import { readFile } from 'node:fs/promises';
+import { and, asc, desc, eq, gt, isNotNull, isNull, lte, or, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '../config/database.js';
+import { fxRates, issues } from '../models/schema.js';
+import { getReportingCurrency } from '../config/org-settings.js';
+import { DEFAULT_CURRENCY, minorUnitDigits } from './format.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('fx');
+
+/** Issues are re-converted in batches of this size */
+const BATCH_SIZE = 500;
+
+/**
+ * One day's rates against USD, in the shape most rate feeds publish:
+ * `{ "date": "2026-10-01", "rates": { "EUR": 0.92, "JPY": 149.3 } }`
+ * means 1 USD = 0.92 EUR = 149.3 JPY on that day.
+ */
+export const fxSnapshotSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+  base: z.literal(DEFAULT_CURRENCY).optional(),
+  rates: z.record(z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code'), z.number().positive()),
+});
+
+export type FxSnapshot = z.infer<typeof fxSnapshotSchema>;
+
+/** The calendar day (UTC) whose rate applies at a moment */
+function rateDay(at: Date): string {
+  return at.toISOString().slice(0, 10);
+}
+
+/**
+ * Converts amounts between currencies with the rates in fx_rates.
+ *
+ * An amount is converted at the rate of its own day — the most recent rate
+ * on or before it, or the earliest rate on record for amounts older than
+ * the table. An org's own rates win over the shared ones for the same day.
+ * Lookups are cached for the converter's lifetime, so create one per job.
+ */
+export class CurrencyConverter {
+  private rates = new Map<string, number | null>();
+
+  constructor(private db: Database) {}
+
+  /**
+   * Convert an amount in minor units. Returns null when either currency
+   * has no rate on record.
+   */
+  async convert(
+    orgId: string,
+    cents: number,
+    from: string,
+    to: string,
+    at: Date = new Date(),
+  ): Promise<number | null> {
+    from = from.toUpperCase();
+    to = to.toUpperCase();
+    if (from === to) return cents;
+
+    const [fromRate, toRate] = await Promise.all([
+      this.unitsPerUsd(orgId, from, at),
+      this.unitsPerUsd(orgId, to, at),
+    ]);
+    if (fromRate === null || toRate === null) return null;
+
+    const usd = cents / 10 ** minorUnitDigits(from) / fromRate;
+    return Math.round(usd * toRate * 10 ** minorUnitDigits(to));
+  }
+
+  /** How many units of the currency one USD bought on the day of `at` */
+  async unitsPerUsd(orgId: string, currency: string, at: Date): Promise<number | null> {
+    if (currency === DEFAULT_CURRENCY) return 1;
+
+    const day = rateDay(at);
+    const key = `${orgId}:${currency}:${day}`;
+    if (this.rates.has(key)) return this.rates.get(key)!;
+
+    const scope = and(
+      eq(fxRates.currency, currency),
+      or(eq(fxRates.orgId, orgId), isNull(fxRates.orgId)),
+    );
+    const orgFirst = sql`${fxRates.orgId} nulls last`;
+
+    let [rate] = await this.db
+      .select({ unitsPerUsd: fxRates.unitsPerUsd })
+      .from(fxRates)
+      .where(and(scope, lte(fxRates.effectiveDate, day)))
+      .orderBy(desc(fxRates.effectiveDate), orgFirst)
+      .limit(1);
+
+    if (!rate) {
+      [rate] = await this.db
+        .select({ unitsPerUsd: fxRates.unitsPerUsd })
+        .from(fxRates)
+        .where(and(scope, gt(fxRates.effectiveDate, day)))
+        .orderBy(asc(fxRates.effectiveDate), orgFirst)
+        .limit(1);
+    }
+
+    const value = rate ? Number(rate.unitsPerUsd) : null;
+    this.rates.set(key, value);
+    return value;
+  }
+
+  /**
+   * Store rates, replacing any already stored for the same day. Rates
+   * without an org are shared by every org. Returns the number stored.
+   */
+  async loadRates(orgId: string | null, snapshots: FxSnapshot[]): Promise<number> {
+    let stored = 0;
+
+    for (const snapshot of snapshots) {
+      const rows = Object.entries(snapshot.rates)
+        .filter(([currency]) => currency !== DEFAULT_CURRENCY)
+        .map(([currency, unitsPerUsd]) => ({
+          orgId,
+          currency,
+          unitsPerUsd: String(unitsPerUsd),
+          effectiveDate: snapshot.date,
+        }));
+      if (rows.length === 0) continue;
+
+      await this.db
+        .insert(fxRates)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: orgId
+            ? [fxRates.orgId, fxRates.currency, fxRates.effectiveDate]
+            : [fxRates.currency, fxRates.effectiveDate],
+          targetWhere: orgId ? isNotNull(fxRates.orgId) : isNull(fxRates.orgId),
+          set: { unitsPerUsd: sql`excluded.units_per_usd`, updatedAt: new Date() },
+        });
+      stored += rows.length;
+    }
+
+    this.rates.clear();
+    return stored;
+  }
+
+  /**
+   * Convert issue revenue that isn't in the org's reporting currency yet:
+   * issues created before a rate was available, or before the reporting
+   * currency changed. Issues are converted at the rate of the day their
+   * revenue changed hands, as on detection. Returns the number converted.
+   */
+  async convertIssues(orgId: string): Promise<number> {
+    const reportingCurrency = await getReportingCurrency(this.db, orgId);
+    let converted = 0;
+    let afterId: string | undefined;
+
+    do {
+      const conditions = [
+        eq(issues.orgId, orgId),
+        isNotNull(issues.originalRevenueCents),
+        sql`${issues.revenueCurrency} is distinct from ${reportingCurrency}`,
+      ];
+      if (afterId) conditions.push(gt(issues.id, afterId));
+
+      const batch = await this.db
+        .select({
+          id: issues.id,
+          estimatedRevenueCents: issues.estimatedRevenueCents,
+          originalRevenueCents: issues.originalRevenueCents,
+          originalNetRevenueCents: issues.originalNetRevenueCents,
+          originalCurrency: issues.originalCurrency,
+          revenueAt: issues.revenueAt,
+        })
+        .from(issues)
+        .where(and(...conditions))
+        .orderBy(asc(issues.id))
+        .limit(BATCH_SIZE);
+
+      for (const issue of batch) {
+        const from = issue.originalCurrency ?? DEFAULT_CURRENCY;
+        const cents = await this.convert(orgId, issue.originalRevenueCents!, from, reportingCurrency, issue.revenueAt ?? undefined);
+        // Without a rate, drop the stale amount rather than sum it with
+        // amounts in another currency; it's converted once a rate arrives
+        if (cents === null && issue.estimatedRevenueCents === null) continue;
+
+        const netCents = cents === null
+          ? null
+          : await this.convert(
+            orgId,
+            issue.originalNetRevenueCents ?? issue.originalRevenueCents!,
+            from,
+            reportingCurrency,
+            issue.revenueAt ?? undefined,
+          );
+
+        await this.db
+          .update(issues)
+          .set({
+            estimatedRevenueCents: cents,
+            netRevenueCents: netCents,
+            revenueCurrency: cents === null ? null : reportingCurrency,
+          })
+          .where(eq(issues.id, issue.id));
+        if (cents !== null) converted++;
+      }
+
+      afterId = batch.length === BATCH_SIZE ? batch[batch.length - 1].id : undefined;
+    } while (afterId);
+
+    if (converted > 0) {
+      log.info({ orgId, reportingCurrency, converted }, 'Converted issue revenue to reporting currency');
+    }
+    return converted;
+  }
+}
+
+/**
+ * Load shared rates from a JSON file holding one snapshot or an array of
+ * them (see fxSnapshotSchema). Returns the number of rates stored.
+ */
+export async function loadFxRatesFile(db: Database, path: string): Promise<number> {
+  const parsed = z
+    .union([fxSnapshotSchema, z.array(fxSnapshotSchema)])
+    .safeParse(JSON.parse(await readFile(path, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid FX rates file ${path}: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const snapshots = Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+  const stored = await new CurrencyConverter(db).loadRates(null, snapshots);
+  log.info({ path, days: snapshots.length, stored }, 'Loaded shared FX rates');
+  return stored;
+}
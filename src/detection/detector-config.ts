@@ -0,0 +1,70 @@
+import type { DetectedIssue, DetectorSettings } from '../models/types.js';
+import type { IssueDetector } from './detector.js';
+
+/**
+ * Apply an org's settings to a detector: its thresholds are passed to
+ * each method, and a severity override replaces the severity of every
+ * issue it raises. Detectors the org hasn't configured come back as-is.
+ */
+export function configureDetector(detector: IssueDetector, settings?: DetectorSettings): IssueDetector {
+  if (!settings || (!settings.severity && !settings.thresholds)) return detector;
+
+  const thresholds = settings.thresholds ?? {};
+  const withSeverity = (detected: DetectedIssue[]) =>
+    settings.severity ? detected.map(issue => ({ ...issue, severity: settings.severity! })) : detected;
+
+  return {
+    ...detector,
+    async checkEvent(db, orgId, userId, event) {
+      return withSeverity(await detector.checkEvent(db, orgId, userId, event, thresholds));
+    },
+    scheduledScan: detector.scheduledScan && (async (db, orgId) => {
+      return withSeverity(await detector.scheduledScan!(db, orgId, thresholds));
+    }),
+    isResolved: detector.isResolved && ((db, orgId, issue) => {
+      return detector.isResolved!(db, orgId, issue, thresholds);
+    }),
+  };
+}
+
+/** Warning thresholds and the critical threshold each must stay below */
+const WARNING_BEFORE_CRITICAL: Array<[warning: string, critical: string]> = [
+  ['warningHours', 'criticalHours'],
+  ['warningPercent', 'criticalPercent'],
+  ['warningDropPercent', 'criticalDropPercent'],
+];
+
+/**
+ * Check the thresholds an org sets are ones the detector has, within
+ * their bounds, and that a warning comes before the issue is critical.
+ * Thresholds left unset are checked at their defaults, where there is
+ * one. Returns one message per problem.
+ */
+export function validateThresholds(
+  detector: Pick<IssueDetector, 'id' | 'thresholds'>,
+  thresholds: Record<string, number>,
+): string[] {
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(thresholds)) {
+    const threshold = detector.thresholds?.[name];
+    if (!threshold) {
+      errors.push(`${detector.id} has no threshold "${name}"`);
+    } else if (value < threshold.min || value > threshold.max) {
+      errors.push(`${name} must be between ${threshold.min} and ${threshold.max}`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  for (const [warning, critical] of WARNING_BEFORE_CRITICAL) {
+    if (!(warning in thresholds) && !(critical in thresholds)) continue;
+
+    const warningValue = thresholds[warning] ?? detector.thresholds?.[warning]?.default;
+    const criticalValue = thresholds[critical] ?? detector.thresholds?.[critical]?.default;
+    if (warningValue !== undefined && criticalValue !== undefined && warningValue >= criticalValue) {
+      errors.push(`${warning} must be less than ${critical}`);
+    }
+  }
+
+  return errors;
+}
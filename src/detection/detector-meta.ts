@@ -42,6 +42,11 @@ export const DETECTOR_META: Record<string, {
     scope: 'aggregate',
     recommendedAction: 'Re-register your server notification URL for this billing source. Verify delivery with a test subscription. A large percentage of stale subscriptions indicates systematic webhook failure.',
   },
+  state_drift: {
+    category: 'integration_health',
+    scope: 'per_user',
+    recommendedAction: 'Compare the provider and entitlement states in the evidence. Look for a missed webhook around the provider\'s last change and check webhook delivery for this source. Enable reconciliation auto-correct to fix drift automatically.',
+  },
   verified_paid_no_access: {
     category: 'access_verification',
     scope: 'per_user',
@@ -52,6 +57,16 @@ export const DETECTOR_META: Record<string, {
     scope: 'per_user',
     recommendedAction: 'Check your access control logic. This user may be exploiting a caching bug, using a hardcoded bypass, or their access was not properly revoked.',
   },
+  possible_duplicate_user: {
+    category: 'cross_platform',
+    scope: 'per_user',
+    recommendedAction: 'Compare the users in the evidence. If they are the same person, merge them with POST /users/:userId/merge; if an identity was linked to the wrong user, detach it with POST /users/:userId/split.',
+  },
+  custom_rule: {
+    category: 'custom',
+    scope: 'per_user',
+    recommendedAction: 'Follow your team\'s process for this rule. The evidence names the rule and the conditions that matched; the issue resolves itself once they stop holding.',
+  },
   // Legacy types that may still exist in the database
   refund_not_revoked: {
     category: 'revenue_protection',
@@ -96,10 +111,11 @@ export const DETECTOR_META: Record<string, {
 };
 
 export const CATEGORY_ISSUE_TYPES: Record<string, string[]> = {
-  integration_health: ['webhook_delivery_gap', 'renewal_anomaly', 'data_freshness', 'silent_renewal_failure', 'stale_subscription'],
-  cross_platform: ['duplicate_billing', 'cross_platform_conflict', 'cross_platform_mismatch', 'duplicate_subscription'],
+  integration_health: ['webhook_delivery_gap', 'renewal_anomaly', 'data_freshness', 'state_drift', 'silent_renewal_failure', 'stale_subscription'],
+  cross_platform: ['duplicate_billing', 'cross_platform_conflict', 'cross_platform_mismatch', 'duplicate_subscription', 'possible_duplicate_user'],
   revenue_protection: ['unrevoked_refund', 'refund_not_revoked'],
   access_verification: ['verified_paid_no_access', 'verified_access_no_payment'],
+  custom: ['custom_rule'],
 };
 
 /**
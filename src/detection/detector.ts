@@ -1,5 +1,5 @@
 import type { Database } from '../config/database.js';
-import type { CanonicalEvent, DetectedIssue } from '../models/types.js';
+import type { CanonicalEvent, DetectedIssue, Issue } from '../models/types.js';
 
 /**
  * Base interface for all issue detectors.
@@ -18,6 +18,13 @@ export interface IssueDetector {
   /** Description of what this detector catches */
   description: string;
 
+  /**
+   * Numbers an org can tune in its detector settings, keyed by name.
+   * The org's values arrive as the `thresholds` argument of each method;
+   * names it hasn't set are missing, and the detector uses its defaults.
+   */
+  thresholds?: Record<string, DetectorThreshold>;
+
   /**
    * Check for issues triggered by a specific event.
    * Called in real-time as events are processed.
@@ -27,6 +34,7 @@ export interface IssueDetector {
     orgId: string,
     userId: string,
     event: CanonicalEvent,
+    thresholds?: DetectorThresholds,
   ): Promise<DetectedIssue[]>;
 
   /**
@@ -36,5 +44,40 @@ export interface IssueDetector {
   scheduledScan?(
     db: Database,
     orgId: string,
+    thresholds?: DetectorThresholds,
   ): Promise<DetectedIssue[]>;
+
+  /**
+   * Re-verify an open issue raised by this detector.
+   * Returns true when the underlying condition has cleared, in which
+   * case the engine auto-resolves the issue. Detectors without this
+   * method leave their issues for a human to close.
+   */
+  isResolved?(
+    db: Database,
+    orgId: string,
+    issue: Issue,
+    thresholds?: DetectorThresholds,
+  ): Promise<boolean>;
+
+  /**
+   * Instead of isResolved, for aggregate detectors: an open issue whose
+   * fingerprint the detector's scheduled scan no longer reports has
+   * cleared. The engine resolves these right after the scan, without
+   * re-running it per issue.
+   */
+  resolvesOnScan?: boolean;
+}
+
+/** An org's threshold values for a detector, keyed by threshold name */
+export type DetectorThresholds = Record<string, number>;
+
+/** A tunable threshold, as shown in the detector settings */
+export interface DetectorThreshold {
+  description: string;
+  unit: 'hours' | 'days' | 'percent' | 'count';
+  /** Absent when the default varies, e.g. by billing source */
+  default?: number;
+  min: number;
+  max: number;
 }
@@ -46,6 +46,9 @@ export const accessNoPaymentDetector: IssueDetector = {
       description: `Payment failed but entitlement state is still "active". If no successful payment follows, this entitlement may be unbacked by revenue.`,
       userId,
       estimatedRevenueCents: event.amountCents || 0,
+      netRevenueCents: event.proceedsCents ?? undefined,
+      revenueCurrency: event.currency ?? undefined,
+      revenueAt: event.eventTime,
       confidence: 0.80,
       evidence: {
         eventId: event.id,
@@ -26,6 +26,18 @@ export const crossPlatformConflictDetector: IssueDetector = {
   async scheduledScan(db, orgId) {
     return [];
   },
+
+  /**
+   * Resolved once the user's entitlements for the product agree again
+   * across platforms.
+   */
+  async isResolved(db, orgId, issue) {
+    if (!issue.userId) return false;
+    const { productId } = issue.evidence as { productId?: string };
+
+    const current = await checkUser(db, orgId, issue.userId);
+    return !current.some(i => i.evidence.productId === productId);
+  },
 };
 
 async function checkUser(
@@ -39,6 +51,7 @@ async function checkUser(
     .where(
       and(
         eq(entitlements.orgId, orgId),
+        eq(entitlements.environment, 'production'),
         eq(entitlements.userId, userId),
       ),
     );
@@ -19,15 +19,52 @@ export const dataFreshnessDetector: IssueDetector = {
   name: 'Stale Billing Data',
   description: 'A significant percentage of active subscriptions have had no billing events in over 35 days. This usually means webhooks from your billing provider are being silently lost — your provider is sending them, but your server isn\'t receiving or processing them.',
 
+  thresholds: {
+    staleDays: {
+      description: 'Days without an event before an active subscription counts as stale',
+      unit: 'days',
+      default: 35,
+      min: 7,
+      max: 400,
+    },
+    warningPercent: {
+      description: 'Share of a source\'s active subscriptions that are stale before a warning',
+      unit: 'percent',
+      default: 10,
+      min: 1,
+      max: 100,
+    },
+    criticalPercent: {
+      description: 'Share of a source\'s active subscriptions that are stale before it is critical',
+      unit: 'percent',
+      default: 25,
+      min: 1,
+      max: 100,
+    },
+    minActiveSubscriptions: {
+      description: 'Active subscriptions a source needs before its freshness is checked',
+      unit: 'count',
+      default: 10,
+      min: 1,
+      max: 100000,
+    },
+  },
+
   async checkEvent() {
     // Aggregate detector — scheduled scan only
     return [];
   },
 
-  async scheduledScan(db, orgId) {
+  async scheduledScan(db, orgId, overrides = {}) {
     const issues: DetectedIssue[] = [];
     const now = new Date();
-    const staleThreshold = new Date(now.getTime() - 35 * 24 * 60 * 60 * 1000);
+    const {
+      staleDays = 35,
+      warningPercent = 10,
+      criticalPercent = 25,
+      minActiveSubscriptions = 10,
+    } = overrides;
+    const staleThreshold = new Date(now.getTime() - staleDays * 24 * 60 * 60 * 1000);
 
     // Get all active billing connections
     const connections = await db
@@ -50,6 +87,7 @@ export const dataFreshnessDetector: IssueDetector = {
         .where(
           and(
             eq(entitlements.orgId, orgId),
+            eq(entitlements.environment, 'production'),
             eq(entitlements.source, conn.source),
             inArray(entitlements.state, activeStates),
           ),
@@ -58,9 +96,9 @@ export const dataFreshnessDetector: IssueDetector = {
       const totalActive = totalResult.count;
 
       // Skip sources with too few active subscriptions
-      if (totalActive < 10) continue;
+      if (totalActive < minActiveSubscriptions) continue;
 
-      // Count active entitlements where the last event is >35 days old.
+      // Count active entitlements where the last event is older than staleDays.
       // We use a subquery approach: find entitlements whose updatedAt is older
       // than the stale threshold (as a proxy for last event time).
       const [staleResult] = await db
@@ -69,6 +107,7 @@ export const dataFreshnessDetector: IssueDetector = {
         .where(
           and(
             eq(entitlements.orgId, orgId),
+            eq(entitlements.environment, 'production'),
             eq(entitlements.source, conn.source),
             inArray(entitlements.state, activeStates),
             lt(entitlements.updatedAt, staleThreshold),
@@ -78,34 +117,34 @@ export const dataFreshnessDetector: IssueDetector = {
       const staleCount = staleResult.count;
       const stalePct = (staleCount / totalActive) * 100;
 
-      if (stalePct >= 25) {
+      if (stalePct >= criticalPercent) {
         issues.push({
           issueType: 'data_freshness',
           severity: 'critical',
           title: `${Math.round(stalePct)}% of ${conn.source} subscriptions have stale data`,
-          description: `${staleCount} of ${totalActive} active ${conn.source} subscriptions have had no billing events in over 35 days. This suggests systematic webhook delivery failure. Re-register your ${conn.source} notification URL and verify with a test subscription.`,
+          description: `${staleCount} of ${totalActive} active ${conn.source} subscriptions have had no billing events in over ${staleDays} days. This suggests systematic webhook delivery failure. Re-register your ${conn.source} notification URL and verify with a test subscription.`,
           confidence: 0.90,
           evidence: {
             source: conn.source,
             staleCount,
             totalActive,
             stalePercent: Math.round(stalePct),
-            thresholdDays: 35,
+            thresholdDays: staleDays,
           },
         });
-      } else if (stalePct >= 10) {
+      } else if (stalePct >= warningPercent) {
         issues.push({
           issueType: 'data_freshness',
           severity: 'warning',
           title: `${Math.round(stalePct)}% of ${conn.source} subscriptions may be stale`,
-          description: `${staleCount} of ${totalActive} active ${conn.source} subscriptions have had no billing events in over 35 days. Check your webhook configuration for ${conn.source}.`,
+          description: `${staleCount} of ${totalActive} active ${conn.source} subscriptions have had no billing events in over ${staleDays} days. Check your webhook configuration for ${conn.source}.`,
           confidence: 0.75,
           evidence: {
             source: conn.source,
             staleCount,
             totalActive,
             stalePercent: Math.round(stalePct),
-            thresholdDays: 35,
+            thresholdDays: staleDays,
           },
         });
       }
@@ -113,4 +152,11 @@ export const dataFreshnessDetector: IssueDetector = {
 
     return issues;
   },
+
+  /**
+   * Resolved once fewer than the warning share (10% by default) of the
+   * source's active subscriptions are stale, and the scan stops
+   * reporting the source.
+   */
+  resolvesOnScan: true,
 };
@@ -1,9 +1,11 @@
-import { eq, and, inArray } from 'drizzle-orm';
+import { eq, and, inArray, sql } from 'drizzle-orm';
 import type { IssueDetector } from '../detector.js';
 import type { Database } from '../../config/database.js';
 import type { DetectedIssue, EntitlementState } from '../../models/types.js';
 import { entitlements } from '../../models/schema.js';
 
+const ACTIVE_STATES: EntitlementState[] = ['active', 'trial', 'grace_period', 'billing_retry'];
+
 /**
  * Detector: Duplicate Cross-Platform Billing
  *
@@ -23,10 +25,41 @@ export const duplicateBillingDetector: IssueDetector = {
     return checkUser(db, orgId, userId);
   },
 
+  /**
+   * Catches duplicates no single event reveals — e.g. after two products
+   * are merged, users who had one on each platform are now double-billed.
+   */
   async scheduledScan(db, orgId) {
-    // Scheduled scan is a no-op stub — the real-time event check covers this.
-    // A future optimization could batch-query for all users with multi-source entitlements.
-    return [];
+    const candidates = await db
+      .select({ userId: entitlements.userId })
+      .from(entitlements)
+      .where(
+        and(
+          eq(entitlements.orgId, orgId),
+          eq(entitlements.environment, 'production'),
+          inArray(entitlements.state, ACTIVE_STATES),
+        ),
+      )
+      .groupBy(entitlements.userId, entitlements.productId)
+      .having(sql`count(distinct ${entitlements.source}) > 1`);
+
+    const issues: DetectedIssue[] = [];
+    for (const userId of new Set(candidates.map(c => c.userId))) {
+      issues.push(...await checkUser(db, orgId, userId));
+    }
+    return issues;
+  },
+
+  /**
+   * Resolved once the user no longer has active entitlements on more
+   * than one platform for the product.
+   */
+  async isResolved(db, orgId, issue) {
+    if (!issue.userId) return false;
+    const { productId } = issue.evidence as { productId?: string };
+
+    const current = await checkUser(db, orgId, issue.userId);
+    return !current.some(i => i.evidence.productId === productId);
   },
 };
 
@@ -35,16 +68,15 @@ async function checkUser(
   orgId: string,
   userId: string,
 ): Promise<DetectedIssue[]> {
-  const activeStates: EntitlementState[] = ['active', 'trial', 'grace_period', 'billing_retry'];
-
   const userEntitlements = await db
     .select()
     .from(entitlements)
     .where(
       and(
         eq(entitlements.orgId, orgId),
+        eq(entitlements.environment, 'production'),
         eq(entitlements.userId, userId),
-        inArray(entitlements.state, activeStates),
+        inArray(entitlements.state, ACTIVE_STATES),
       ),
     );
 
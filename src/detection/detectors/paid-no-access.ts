@@ -3,6 +3,7 @@ import type { IssueDetector } from '../detector.js';
 import type { Database } from '../../config/database.js';
 import type { CanonicalEvent, DetectedIssue } from '../../models/types.js';
 import { entitlements, canonicalEvents } from '../../models/schema.js';
+import { formatMoney } from '../../currency/format.js';
 
 /**
  * Detector: Payment Not Provisioned
@@ -53,6 +54,9 @@ export const paidNoAccessDetector: IssueDetector = {
         description: `Payment of ${formatCents(event.amountCents, event.currency)} succeeded but entitlement state is "${ent.state}" instead of "active". This may indicate a missed webhook or state machine failure.`,
         userId,
         estimatedRevenueCents: event.amountCents || 0,
+        netRevenueCents: event.proceedsCents ?? undefined,
+        revenueCurrency: event.currency ?? undefined,
+        revenueAt: event.eventTime,
         confidence: 0.95,
         evidence: {
           eventId: event.id,
@@ -109,6 +113,9 @@ export const paidNoAccessDetector: IssueDetector = {
           description: `Successful payment from ${payment.eventTime.toISOString()} but entitlement state is "${ent.state}". Expected state transition to "active" did not occur.`,
           userId: ent.userId,
           estimatedRevenueCents: payment.amountCents || 0,
+          netRevenueCents: payment.proceedsCents ?? undefined,
+          revenueCurrency: payment.currency ?? undefined,
+          revenueAt: payment.eventTime,
           confidence: 0.90,
           evidence: {
             eventId: payment.id,
@@ -126,5 +133,5 @@ export const paidNoAccessDetector: IssueDetector = {
 
 function formatCents(cents: number | null | undefined, currency?: string | null): string {
   if (!cents) return 'unknown amount';
-  return `${(cents / 100).toFixed(2)} ${currency || 'USD'}`;
+  return formatMoney(cents, currency);
 }
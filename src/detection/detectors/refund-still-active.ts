@@ -2,6 +2,7 @@ import { eq, and, lt, gte, inArray } from 'drizzle-orm';
 import type { IssueDetector } from '../detector.js';
 import type { DetectedIssue } from '../../models/types.js';
 import { entitlements, canonicalEvents } from '../../models/schema.js';
+import { formatMoney } from '../../currency/format.js';
 
 /**
  * Detector: Unrevoked Refund/Chargeback
@@ -14,6 +15,9 @@ import { entitlements, canonicalEvents } from '../../models/schema.js';
  *
  * Scheduled scan: finds refunds from the last 30 days where
  * entitlement never transitioned.
+ *
+ * Auto-resolves once the entitlement leaves the active states
+ * (typically to refunded or revoked).
  */
 export const refundStillActiveDetector: IssueDetector = {
   id: 'unrevoked_refund',
@@ -40,6 +44,7 @@ export const refundStillActiveDetector: IssueDetector = {
       .where(
         and(
           eq(entitlements.orgId, orgId),
+          eq(entitlements.environment, 'production'),
           eq(entitlements.userId, userId),
           eq(entitlements.productId, event.productId),
         ),
@@ -63,6 +68,9 @@ export const refundStillActiveDetector: IssueDetector = {
         : `A refund of ${formatCents(event.amountCents, event.currency)} was processed but no access revocation followed. Verify your app's refund webhook handler is working.`,
       userId,
       estimatedRevenueCents: event.amountCents || 0,
+      netRevenueCents: event.proceedsCents ?? undefined,
+      revenueCurrency: event.currency ?? undefined,
+      revenueAt: event.eventTime,
       confidence: 0.92,
       evidence: {
         eventId: event.id,
@@ -89,6 +97,7 @@ export const refundStillActiveDetector: IssueDetector = {
       .where(
         and(
           eq(canonicalEvents.orgId, orgId),
+          eq(canonicalEvents.environment, 'production'),
           inArray(canonicalEvents.eventType, ['refund', 'chargeback']),
           gte(canonicalEvents.eventTime, thirtyDaysAgo),
           lt(canonicalEvents.eventTime, twentyFourHoursAgo),
@@ -105,6 +114,7 @@ export const refundStillActiveDetector: IssueDetector = {
         .where(
           and(
             eq(entitlements.orgId, orgId),
+            eq(entitlements.environment, 'production'),
             eq(entitlements.userId, event.userId),
             eq(entitlements.productId, event.productId),
           ),
@@ -128,6 +138,9 @@ export const refundStillActiveDetector: IssueDetector = {
           : `A refund of ${formatCents(event.amountCents, event.currency)} was processed ${daysSince(event.eventTime, now)} days ago but no revocation followed. Verify your refund webhook handler is working.`,
         userId: event.userId,
         estimatedRevenueCents: event.amountCents || 0,
+        netRevenueCents: event.proceedsCents ?? undefined,
+        revenueCurrency: event.currency ?? undefined,
+        revenueAt: event.eventTime,
         confidence: 0.90,
         evidence: {
           eventId: event.id,
@@ -144,11 +157,33 @@ export const refundStillActiveDetector: IssueDetector = {
 
     return issues;
   },
+
+  async isResolved(db, orgId, issue) {
+    const { entitlementId } = issue.evidence as { entitlementId?: string };
+    if (!entitlementId) return false;
+
+    const [ent] = await db
+      .select()
+      .from(entitlements)
+      .where(
+        and(
+          eq(entitlements.orgId, orgId),
+          eq(entitlements.environment, 'production'),
+          eq(entitlements.id, entitlementId),
+        ),
+      )
+      .limit(1);
+
+    if (!ent) return true;
+
+    const activeStates = ['active', 'trial', 'grace_period', 'billing_retry'];
+    return !activeStates.includes(ent.state);
+  },
 };
 
 function formatCents(cents: number | null | undefined, currency?: string | null): string {
   if (!cents) return 'unknown amount';
-  return `${(cents / 100).toFixed(2)} ${currency || 'USD'}`;
+  return formatMoney(cents, currency);
 }
 
 function daysSince(date: Date, now: Date): number {
@@ -18,14 +18,43 @@ export const renewalAnomalyDetector: IssueDetector = {
   name: 'Unusual Renewal Pattern',
   description: 'The rate of successful subscription renewals has dropped significantly compared to your recent average. This often signals a wave of expired payment methods, a pricing change impact, or an issue with your billing provider.',
 
+  thresholds: {
+    warningDropPercent: {
+      description: 'Drop below the 30-day average renewal rate that raises a warning',
+      unit: 'percent',
+      default: 30,
+      min: 5,
+      max: 100,
+    },
+    criticalDropPercent: {
+      description: 'Drop below the 30-day average renewal rate that is critical',
+      unit: 'percent',
+      default: 60,
+      min: 5,
+      max: 100,
+    },
+    minRenewalsPerWindow: {
+      description: 'Average renewals per 6-hour window a source needs before its rate is watched',
+      unit: 'count',
+      default: 2,
+      min: 1,
+      max: 10000,
+    },
+  },
+
   async checkEvent() {
     // Aggregate detector — scheduled scan only
     return [];
   },
 
-  async scheduledScan(db, orgId) {
+  async scheduledScan(db, orgId, overrides = {}) {
     const issues: DetectedIssue[] = [];
     const now = new Date();
+    const {
+      warningDropPercent = 30,
+      criticalDropPercent = 60,
+      minRenewalsPerWindow = 2,
+    } = overrides;
 
     // Get all active billing connections for this org
     const connections = await db
@@ -47,6 +76,7 @@ export const renewalAnomalyDetector: IssueDetector = {
         .where(
           and(
             eq(canonicalEvents.orgId, orgId),
+            eq(canonicalEvents.environment, 'production'),
             eq(canonicalEvents.source, conn.source),
             eq(canonicalEvents.eventType, 'renewal'),
             eq(canonicalEvents.status, 'success'),
@@ -64,6 +94,7 @@ export const renewalAnomalyDetector: IssueDetector = {
         .where(
           and(
             eq(canonicalEvents.orgId, orgId),
+            eq(canonicalEvents.environment, 'production'),
             eq(canonicalEvents.source, conn.source),
             eq(canonicalEvents.eventType, 'renewal'),
             eq(canonicalEvents.status, 'success'),
@@ -76,13 +107,13 @@ export const renewalAnomalyDetector: IssueDetector = {
       const avgPer6h = historicalTotal / 120;
 
       // Skip sources with too little data to establish a baseline
-      if (avgPer6h < 2) continue;
+      if (avgPer6h < minRenewalsPerWindow) continue;
 
       const dropPct = avgPer6h > 0
         ? ((avgPer6h - recentCount) / avgPer6h) * 100
         : 0;
 
-      if (dropPct >= 60 || (recentCount === 0 && avgPer6h >= 10)) {
+      if (dropPct >= criticalDropPercent || (recentCount === 0 && avgPer6h >= 10)) {
         issues.push({
           issueType: 'renewal_anomaly',
           severity: 'critical',
@@ -98,7 +129,7 @@ export const renewalAnomalyDetector: IssueDetector = {
             baselineDays: 30,
           },
         });
-      } else if (dropPct >= 30) {
+      } else if (dropPct >= warningDropPercent) {
         issues.push({
           issueType: 'renewal_anomaly',
           severity: 'warning',
@@ -119,4 +150,11 @@ export const renewalAnomalyDetector: IssueDetector = {
 
     return issues;
   },
+
+  /**
+   * Resolved once the source's renewal rate is back within the warning
+   * drop (30% by default) of the rolling average, and the scan stops
+   * reporting the source.
+   */
+  resolvesOnScan: true,
 };
@@ -0,0 +1,52 @@
+import { eq, and } from 'drizzle-orm';
+import type { IssueDetector } from '../detector.js';
+import type { EntitlementState } from '../../models/types.js';
+import { entitlements } from '../../models/schema.js';
+
+/** States in which the subscriber should have access */
+export const ACCESS_STATES: EntitlementState[] = ['active', 'trial', 'grace_period', 'billing_retry'];
+
+export function grantsAccess(state: string): boolean {
+  return ACCESS_STATES.includes(state as EntitlementState);
+}
+
+/**
+ * Detector: State Drift
+ *
+ * An entitlement disagrees with the billing provider's own view of the
+ * subscription about whether the customer should have access — almost
+ * always a missed webhook. Issues are raised by scheduled reconciliation
+ * against the provider's subscription API (see SubscriptionReconciler),
+ * not by this detector, so it only re-verifies them.
+ */
+export const stateDriftDetector: IssueDetector = {
+  id: 'state_drift',
+  name: 'State Drift',
+  description: 'An entitlement disagrees with the billing provider\'s subscription API about whether the customer should have access. Usually a webhook was missed, so the entitlement never moved to the provider\'s state.',
+
+  async checkEvent() {
+    // Raised by reconciliation only
+    return [];
+  },
+
+  /**
+   * Resolved once the entitlement agrees with the provider's state
+   * recorded in the evidence — after a late event, a rebuild, or
+   * auto-correction — or the entitlement is gone.
+   */
+  async isResolved(db, orgId, issue) {
+    const { entitlementId, provider } = issue.evidence as {
+      entitlementId?: string;
+      provider?: { state: EntitlementState };
+    };
+    if (!entitlementId || !provider) return false;
+
+    const [ent] = await db
+      .select({ state: entitlements.state })
+      .from(entitlements)
+      .where(and(eq(entitlements.orgId, orgId), eq(entitlements.id, entitlementId)))
+      .limit(1);
+
+    return !ent || grantsAccess(ent.state) === grantsAccess(provider.state);
+  },
+};
@@ -58,6 +58,7 @@ export const verifiedAccessNoPaymentDetector: IssueDetector = {
         .where(
           and(
             eq(entitlements.orgId, orgId),
+            eq(entitlements.environment, 'production'),
             eq(entitlements.userId, check.userId),
           ),
         );
@@ -87,4 +88,40 @@ export const verifiedAccessNoPaymentDetector: IssueDetector = {
 
     return issues;
   },
+
+  /**
+   * Resolved once the user has an active entitlement again, or the app
+   * stops reporting access for them.
+   */
+  async isResolved(db, orgId, issue) {
+    if (!issue.userId) return false;
+
+    const userEnts = await db
+      .select()
+      .from(entitlements)
+      .where(
+        and(
+          eq(entitlements.orgId, orgId),
+          eq(entitlements.environment, 'production'),
+          eq(entitlements.userId, issue.userId),
+        ),
+      );
+
+    const inactiveStates = ['expired', 'revoked', 'refunded', 'inactive'];
+    if (userEnts.some(e => !inactiveStates.includes(e.state))) return true;
+
+    const [latestCheck] = await db
+      .select()
+      .from(accessChecks)
+      .where(
+        and(
+          eq(accessChecks.orgId, orgId),
+          eq(accessChecks.userId, issue.userId),
+        ),
+      )
+      .orderBy(desc(accessChecks.reportedAt))
+      .limit(1);
+
+    return latestCheck?.hasAccess === false;
+  },
 };
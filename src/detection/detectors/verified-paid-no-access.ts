@@ -36,6 +36,7 @@ export const verifiedPaidNoAccessDetector: IssueDetector = {
       .where(
         and(
           eq(entitlements.orgId, orgId),
+          eq(entitlements.environment, 'production'),
           inArray(entitlements.state, ['active', 'trial']),
         ),
       );
@@ -79,4 +80,43 @@ export const verifiedPaidNoAccessDetector: IssueDetector = {
 
     return issues;
   },
+
+  /**
+   * Resolved once the app reports access for the user again, or the
+   * entitlement is no longer active.
+   */
+  async isResolved(db, orgId, issue) {
+    if (!issue.userId) return false;
+    const { entitlementId } = issue.evidence as { entitlementId?: string };
+
+    if (entitlementId) {
+      const [ent] = await db
+        .select()
+        .from(entitlements)
+        .where(
+          and(
+            eq(entitlements.orgId, orgId),
+            eq(entitlements.environment, 'production'),
+            eq(entitlements.id, entitlementId),
+          ),
+        )
+        .limit(1);
+
+      if (!ent || !['active', 'trial'].includes(ent.state)) return true;
+    }
+
+    const [latestCheck] = await db
+      .select()
+      .from(accessChecks)
+      .where(
+        and(
+          eq(accessChecks.orgId, orgId),
+          eq(accessChecks.userId, issue.userId),
+        ),
+      )
+      .orderBy(desc(accessChecks.reportedAt))
+      .limit(1);
+
+    return latestCheck?.hasAccess === true;
+  },
 };
@@ -1,8 +1,27 @@
 import { eq, and, lt } from 'drizzle-orm';
-import type { IssueDetector } from '../detector.js';
+import type { DetectorThresholds, IssueDetector } from '../detector.js';
 import type { CanonicalEvent, DetectedIssue } from '../../models/types.js';
 import { billingConnections } from '../../models/schema.js';
 
+// Thresholds vary by source — Apple sends less frequently than Stripe
+const thresholds: Record<string, { warning: number; critical: number }> = {
+  stripe: { warning: 4, critical: 12 },
+  apple: { warning: 12, critical: 48 },
+  google: { warning: 8, critical: 24 },
+  recurly: { warning: 6, critical: 24 },
+  braintree: { warning: 6, critical: 24 },
+};
+const defaultThreshold = { warning: 6, critical: 24 };
+
+/** The source's thresholds, unless the org has set its own for every source */
+function thresholdFor(source: string, overrides: DetectorThresholds = {}) {
+  const base = thresholds[source] || defaultThreshold;
+  return {
+    warning: overrides.warningHours ?? base.warning,
+    critical: overrides.criticalHours ?? base.critical,
+  };
+}
+
 /**
  * Detector: Webhook Delivery Gap
  *
@@ -26,12 +45,34 @@ export const webhookGapDetector: IssueDetector = {
   name: 'Webhook Delivery Gap',
   description: 'Your billing provider has stopped sending event notifications (webhooks) to your server. Without webhooks, your app won\'t know about new payments, cancellations, or refunds — so your records may be getting out of date.',
 
+  thresholds: {
+    warningHours: {
+      description: 'Hours without webhooks from a source before a warning. Defaults by source: Stripe 4, Apple 12, Google 8, others 6',
+      unit: 'hours',
+      min: 1,
+      max: 168,
+    },
+    criticalHours: {
+      description: 'Hours without webhooks from a source before the gap is critical. Defaults by source: Stripe 12, Apple 48, Google 24, others 24',
+      unit: 'hours',
+      min: 1,
+      max: 336,
+    },
+    setupGraceHours: {
+      description: 'Hours a new connection may go without its first webhook',
+      unit: 'hours',
+      default: 24,
+      min: 1,
+      max: 336,
+    },
+  },
+
   async checkEvent() {
     // This is a scheduled-only detector
     return [];
   },
 
-  async scheduledScan(db, orgId) {
+  async scheduledScan(db, orgId, overrides = {}) {
     const issues: DetectedIssue[] = [];
     const now = new Date();
 
@@ -52,7 +93,7 @@ export const webhookGapDetector: IssueDetector = {
         const connectionAgeHours =
           (now.getTime() - conn.createdAt.getTime()) / (1000 * 60 * 60);
 
-        if (connectionAgeHours > 24) {
+        if (connectionAgeHours > (overrides.setupGraceHours ?? 24)) {
           issues.push({
             issueType: 'webhook_delivery_gap',
             severity: 'critical',
@@ -73,16 +114,7 @@ export const webhookGapDetector: IssueDetector = {
       const hoursSinceLastWebhook =
         (now.getTime() - conn.lastWebhookAt.getTime()) / (1000 * 60 * 60);
 
-      // Thresholds vary by source — Apple sends less frequently than Stripe
-      const thresholds: Record<string, { warning: number; critical: number }> = {
-        stripe: { warning: 4, critical: 12 },
-        apple: { warning: 12, critical: 48 },
-        google: { warning: 8, critical: 24 },
-        recurly: { warning: 6, critical: 24 },
-        braintree: { warning: 6, critical: 24 },
-      };
-
-      const threshold = thresholds[conn.source] || { warning: 6, critical: 24 };
+      const threshold = thresholdFor(conn.source, overrides);
 
       if (hoursSinceLastWebhook > threshold.critical) {
         issues.push({
@@ -119,4 +151,31 @@ export const webhookGapDetector: IssueDetector = {
 
     return issues;
   },
+
+  /**
+   * Resolved once webhooks resume: the connection has received a webhook
+   * within its warning threshold (or was disconnected entirely).
+   */
+  async isResolved(db, orgId, issue, overrides) {
+    const { connectionId } = issue.evidence as { connectionId?: string };
+    if (!connectionId) return false;
+
+    const [conn] = await db
+      .select()
+      .from(billingConnections)
+      .where(
+        and(
+          eq(billingConnections.orgId, orgId),
+          eq(billingConnections.id, connectionId),
+        ),
+      )
+      .limit(1);
+
+    if (!conn || !conn.isActive) return true;
+    if (!conn.lastWebhookAt) return false;
+
+    const hoursSinceLastWebhook =
+      (Date.now() - conn.lastWebhookAt.getTime()) / (1000 * 60 * 60);
+    return hoursSinceLastWebhook <= thresholdFor(conn.source, overrides).warning;
+  },
 };
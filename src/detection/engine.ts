@@ -1,8 +1,10 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc, gte, inArray, sql } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
 import { issues } from '../models/schema.js';
-import type { CanonicalEvent, DetectedIssue, Issue } from '../models/types.js';
+import type { BillingSource, CanonicalEvent, DetectedIssue, DetectorSettings, Issue, NewIssue } from '../models/types.js';
 import type { IssueDetector } from './detector.js';
+import { configureDetector } from './detector-config.js';
+import { issueFingerprint } from './fingerprint.js';
 import { webhookGapDetector } from './detectors/webhook-gap.js';
 import { duplicateBillingDetector } from './detectors/duplicate-billing.js';
 import { refundStillActiveDetector } from './detectors/refund-still-active.js';
@@ -11,22 +13,48 @@ import { renewalAnomalyDetector } from './detectors/renewal-anomaly.js';
 import { dataFreshnessDetector } from './detectors/data-freshness.js';
 import { verifiedPaidNoAccessDetector } from './detectors/verified-paid-no-access.js';
 import { verifiedAccessNoPaymentDetector } from './detectors/verified-access-no-payment.js';
+import { stateDriftDetector } from './detectors/state-drift.js';
+import { CUSTOM_RULES_SCAN_ID, isRuleDetector, loadRuleDetectors } from './rules/rule-detector.js';
 import { dispatchAlert } from '../alerts/dispatcher.js';
 import { notifyCxChannel } from '../slack/notifications.js';
+import { dispatchWebhookEvent } from '../alerts/webhook-events.js';
+import { resolveIncidents } from '../alerts/incident-sync.js';
+import { systemAuditLog } from '../security/audit.js';
+import { canRecoverGap } from '../ingestion/recovery/gap-recovery.js';
+import { enqueueGapRecovery } from '../queue/gap-recovery-worker.js';
+import { CurrencyConverter } from '../currency/fx.js';
+import { getDetectorSettings, getReportingCurrency } from '../config/org-settings.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('issue-detection');
 
+/** A resolved issue that recurs within this window is reopened instead of raised again */
+const REOPEN_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Issue Detection Engine
  *
  * Orchestrates all issue detectors and manages the lifecycle
  * of detected issues: creation, deduplication, and auto-resolution.
  *
- * Registry: 8 detectors total
+ * Deduplication: each detected problem has a fingerprint (see
+ * issueFingerprint). While an issue with that fingerprint is open or
+ * acknowledged, detecting it again updates that issue's evidence,
+ * occurrence count and last-seen time. If it was resolved within the
+ * last 7 days it is reopened. Neither alerts again.
+ *
+ * Auto-resolution: detectors that implement `isResolved` have their open
+ * issues re-verified after every scheduled scan (and, for per-user
+ * issues, after each event for that user). Aggregate detectors that
+ * resolve on scan have theirs resolved when the scan stops reporting
+ * them. Issues whose condition has cleared are resolved with resolvedBy
+ * 'system', audited, and announced via the issue.resolved webhook.
+ *
+ * Registry: 9 detectors total
  *   Tier 1 (Billing Only):
  *     P0: webhook_delivery_gap, duplicate_billing, unrevoked_refund
  *     P1: cross_platform_conflict, renewal_anomaly, data_freshness
+ *     Reconciliation: state_drift (raised via reportIssues)
  *   Tier 2 (App Verified):
  *     P0: verified_paid_no_access, verified_access_no_payment
  *
@@ -35,6 +63,13 @@ const log = createChildLogger('issue-detection');
  *
  * Removed (moved to analytics):
  *   trial_no_conversion, silent_renewal_failure, stale_subscription
+ *
+ * Custom rules: each org's enabled detector rules run after the built-in
+ * detectors as `rule:<ruleId>`, per event and on the custom_rules scan.
+ *
+ * Detector settings: orgs can disable built-in detectors, tune their
+ * thresholds and override their severity (organizations.settings.detectors).
+ * A disabled detector neither raises nor auto-resolves issues for the org.
  */
 export class IssueDetectionEngine {
   private detectors: IssueDetector[];
@@ -49,6 +84,8 @@ export class IssueDetectionEngine {
       crossPlatformConflictDetector,
       renewalAnomalyDetector,
       dataFreshnessDetector,
+      // Tier 1 — raised by provider reconciliation
+      stateDriftDetector,
       // Tier 2: App-verified (requires access-check integration)
       verifiedPaidNoAccessDetector,
       verifiedAccessNoPaymentDetector,
@@ -58,13 +95,19 @@ export class IssueDetectionEngine {
   /**
    * Run all event-triggered detectors for a specific event.
    * Called in real-time from the ingestion pipeline.
+   * Sandbox events are stored but never raise issues.
    */
   async checkForIssues(
     orgId: string,
     userId: string,
     event: CanonicalEvent,
   ): Promise<void> {
-    for (const detector of this.detectors) {
+    if (event.environment === 'sandbox') {
+      log.debug({ eventId: event.id }, 'Skipping detection for sandbox event');
+      return;
+    }
+
+    for (const detector of await this.detectorsFor(orgId)) {
       try {
         const detected = await detector.checkEvent(this.db, orgId, userId, event);
         for (const issue of detected) {
@@ -77,17 +120,20 @@ export class IssueDetectionEngine {
         );
       }
     }
+
+    await this.autoResolveIssues(orgId, { userId });
   }
 
   /**
    * Run all scheduled scan detectors.
    * Called periodically by a cron job.
    */
-  async runScheduledScans(orgId: string): Promise<{ total: number; new: number }> {
+  async runScheduledScans(orgId: string): Promise<{ total: number; new: number; resolved: number }> {
     let total = 0;
     let newIssues = 0;
+    const scanned: ScannedFingerprints = new Map();
 
-    for (const detector of this.detectors) {
+    for (const detector of await this.detectorsFor(orgId)) {
       if (!detector.scheduledScan) continue;
 
       try {
@@ -98,17 +144,157 @@ export class IssueDetectionEngine {
           const created = await this.createOrUpdateIssue(orgId, issue, detector.id);
           if (created) newIssues++;
         }
+        recordScan(scanned, detector, detected);
       } catch (err) {
         log.error({ err, detectorId: detector.id }, 'Scheduled scan failed');
       }
     }
 
-    log.info({ orgId, total, newIssues }, 'Scheduled scan completed');
-    return { total, new: newIssues };
+    const resolved = await this.autoResolveIssues(orgId, {}, scanned);
+
+    log.info({ orgId, total, newIssues, resolved }, 'Scheduled scan completed');
+    return { total, new: newIssues, resolved };
+  }
+
+  /**
+   * Record issues found outside the detectors' own checks, e.g. by
+   * reconciliation against a provider's API. They're deduplicated and
+   * alerted on like any other. Returns the number of new issues.
+   */
+  async reportIssues(orgId: string, detectorId: string, detected: DetectedIssue[]): Promise<number> {
+    let newIssues = 0;
+    for (const issue of detected) {
+      if (await this.createOrUpdateIssue(orgId, issue, detectorId)) newIssues++;
+    }
+    return newIssues;
   }
 
   /**
-   * Create a new issue or skip if a similar one already exists.
+   * Re-verify open, acknowledged and snoozed issues against their
+   * detectors and resolve the ones whose condition has cleared.
+   * Optionally scoped to one user or one detector. Issues from detectors
+   * that resolve on scan are checked against `scanned`, the fingerprints
+   * their scans just reported, and left alone without one. Returns the
+   * number of issues resolved.
+   */
+  async autoResolveIssues(
+    orgId: string,
+    scope: { userId?: string; detectorId?: string } = {},
+    scanned: ScannedFingerprints = new Map(),
+  ): Promise<number> {
+    const conditions = [
+      eq(issues.orgId, orgId),
+      inArray(issues.status, ['open', 'acknowledged', 'snoozed']),
+    ];
+    if (scope.userId) conditions.push(eq(issues.userId, scope.userId));
+    if (scope.detectorId) conditions.push(eq(issues.detectorId, scope.detectorId));
+
+    let candidates: Issue[];
+    try {
+      candidates = await this.db
+        .select()
+        .from(issues)
+        .where(and(...conditions));
+    } catch (err) {
+      log.error({ err, orgId }, 'Failed to load open issues for auto-resolution');
+      return 0;
+    }
+
+    let resolved = 0;
+    const detectors = await this.detectorsFor(orgId, {
+      rules: candidates.some(i => isRuleDetector(i.detectorId)),
+    });
+
+    for (const issue of candidates) {
+      const detector = detectors.find(d => d.id === issue.detectorId);
+      const reported = detector?.resolvesOnScan ? scanned.get(detector.id) : undefined;
+      if (!detector || (!reported && !detector.isResolved)) continue;
+
+      try {
+        const cleared = reported
+          ? !reported.has(issue.fingerprint ?? '')
+          : await detector.isResolved!(this.db, orgId, issue);
+        if (!cleared) continue;
+
+        // Someone may have resolved or dismissed it since it was loaded
+        const [updated] = await this.db
+          .update(issues)
+          .set({
+            status: 'resolved',
+            resolvedAt: new Date(),
+            resolvedBy: 'system',
+            resolution: 'Auto-resolved: the detected condition has cleared',
+            snoozedUntil: null,
+            updatedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(issues.orgId, orgId),
+              eq(issues.id, issue.id),
+              inArray(issues.status, ['open', 'acknowledged', 'snoozed']),
+            ),
+          )
+          .returning({ id: issues.id });
+        if (!updated) continue;
+
+        resolved++;
+
+        log.info(
+          { issueId: issue.id, issueType: issue.issueType, userId: issue.userId },
+          'Issue auto-resolved',
+        );
+
+        dispatchWebhookEvent(this.db, orgId, issue.id, 'issue.resolved').catch((err) => {
+          log.error({ err, issueId: issue.id }, 'Failed to dispatch issue.resolved webhook');
+        });
+        resolveIncidents(this.db, orgId, issue.id).catch(() => {});
+        systemAuditLog(this.db, orgId, 'issue.auto_resolved', 'issue', issue.id, {
+          detectorId: issue.detectorId,
+          issueType: issue.issueType,
+        });
+      } catch (err) {
+        log.error({ err, issueId: issue.id, detectorId: detector.id }, 'Auto-resolution check failed');
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * The built-in detectors the org has enabled, with its settings applied,
+   * followed by its custom rules unless `rules` is false. If the rules
+   * can't be loaded, the built-in detectors still run.
+   */
+  private async detectorsFor(orgId: string, { rules = true } = {}): Promise<IssueDetector[]> {
+    const builtIn = await this.configuredDetectors(orgId);
+    if (!rules) return builtIn;
+
+    try {
+      return [...builtIn, ...await loadRuleDetectors(this.db, orgId)];
+    } catch (err) {
+      log.error({ err, orgId }, 'Failed to load custom detector rules');
+      return builtIn;
+    }
+  }
+
+  /** The built-in detectors with the org's settings; the defaults if those can't be loaded */
+  private async configuredDetectors(orgId: string): Promise<IssueDetector[]> {
+    let settings: Record<string, DetectorSettings>;
+    try {
+      settings = await getDetectorSettings(this.db, orgId);
+    } catch (err) {
+      log.error({ err, orgId }, 'Failed to load detector settings');
+      return this.detectors;
+    }
+
+    return this.detectors
+      .filter(d => settings[d.id]?.enabled !== false)
+      .map(d => configureDetector(d, settings[d.id]));
+  }
+
+  /**
+   * Create a new issue, or record another occurrence of an existing one:
+   * update it while it's open, reopen it if it was resolved recently.
    * Returns true if a new issue was created.
    */
   private async createOrUpdateIssue(
@@ -116,31 +302,59 @@ export class IssueDetectionEngine {
     detected: DetectedIssue,
     detectorId: string,
   ): Promise<boolean> {
-    // Deduplication: check for existing open issue of same type for same user
-    if (detected.userId) {
-      const existing = await this.db
-        .select({ id: issues.id })
-        .from(issues)
-        .where(
-          and(
-            eq(issues.orgId, orgId),
-            eq(issues.userId, detected.userId),
-            eq(issues.issueType, detected.issueType),
-            eq(issues.status, 'open'),
-          ),
-        )
-        .limit(1);
-
-      if (existing.length > 0) {
-        log.debug(
-          { issueType: detected.issueType, userId: detected.userId },
-          'Duplicate issue, skipping',
-        );
-        return false;
-      }
+    const fingerprint = issueFingerprint(detectorId, detected);
+
+    const [existing] = await this.db
+      .select({ id: issues.id })
+      .from(issues)
+      .where(
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.fingerprint, fingerprint),
+          inArray(issues.status, ['open', 'acknowledged', 'snoozed']),
+        ),
+      )
+      .orderBy(desc(issues.createdAt))
+      .limit(1);
+
+    if (existing) {
+      await this.recordOccurrence(orgId, existing.id, detected);
+      log.debug({ issueId: existing.id, fingerprint }, 'Issue seen again');
+      return false;
+    }
+
+    const [recentlyResolved] = await this.db
+      .select({ id: issues.id, resolvedAt: issues.resolvedAt })
+      .from(issues)
+      .where(
+        and(
+          eq(issues.orgId, orgId),
+          eq(issues.fingerprint, fingerprint),
+          eq(issues.status, 'resolved'),
+          gte(issues.resolvedAt, new Date(Date.now() - REOPEN_WINDOW_MS)),
+        ),
+      )
+      .orderBy(desc(issues.resolvedAt))
+      .limit(1);
+
+    if (recentlyResolved) {
+      await this.recordOccurrence(orgId, recentlyResolved.id, detected, { reopen: true });
+
+      log.info({ issueId: recentlyResolved.id, fingerprint }, 'Resolved issue recurred, reopened');
+      dispatchWebhookEvent(this.db, orgId, recentlyResolved.id, 'issue.reopened').catch((err) => {
+        log.error({ err, issueId: recentlyResolved.id }, 'Failed to dispatch issue.reopened webhook');
+      });
+      systemAuditLog(this.db, orgId, 'issue.reopened', 'issue', recentlyResolved.id, {
+        detectorId,
+        fingerprint,
+        resolvedAt: recentlyResolved.resolvedAt,
+      });
+      this.recoverGap(orgId, recentlyResolved.id, detectorId, detected);
+      return false;
     }
 
     try {
+      const revenue = await this.convertRevenue(orgId, detected);
       const [newIssue] = await this.db.insert(issues).values({
         orgId,
         userId: detected.userId,
@@ -148,18 +362,21 @@ export class IssueDetectionEngine {
         severity: detected.severity,
         title: detected.title,
         description: detected.description,
-        estimatedRevenueCents: detected.estimatedRevenueCents,
+        ...revenue,
         confidence: detected.confidence,
         detectorId,
         detectionTier: detected.detectionTier || 'billing_only',
         evidence: detected.evidence,
+        fingerprint,
       }).returning();
 
       log.info({
         issueType: detected.issueType,
         severity: detected.severity,
         userId: detected.userId,
-        revenue: detected.estimatedRevenueCents,
+        revenue: revenue.estimatedRevenueCents,
+        netRevenue: revenue.netRevenueCents,
+        currency: revenue.revenueCurrency,
       }, 'New issue detected');
 
       // Dispatch alert for the new issue (fire and forget — never block detection)
@@ -172,6 +389,8 @@ export class IssueDetectionEngine {
         log.error({ err, issueId: newIssue.id }, 'Failed to notify CX channel');
       });
 
+      this.recoverGap(orgId, newIssue.id, detectorId, detected);
+
       return true;
     } catch (err: any) {
       // Handle race condition: if a duplicate was inserted between check and insert
@@ -186,19 +405,116 @@ export class IssueDetectionEngine {
     }
   }
 
+  /**
+   * Replay what the provider sent during a webhook gap, for a gap issue
+   * that was just raised or reopened (fire and forget).
+   */
+  private recoverGap(orgId: string, issueId: string, detectorId: string, detected: DetectedIssue): void {
+    const gapSource = detected.evidence.source as BillingSource | undefined;
+    if (detectorId !== webhookGapDetector.id || !gapSource || !canRecoverGap(gapSource)) return;
+
+    enqueueGapRecovery({ orgId, issueId }).catch((err) => {
+      log.error({ err, issueId }, 'Failed to enqueue webhook gap recovery');
+    });
+  }
+
+  /**
+   * Record that an issue was detected again, with what the detector sees
+   * now. Revenue figures are left as first detected. The new evidence is
+   * merged into the stored evidence, so keys written after detection, such
+   * as a webhook gap's `recovery`, survive.
+   */
+  private async recordOccurrence(
+    orgId: string,
+    issueId: string,
+    detected: DetectedIssue,
+    { reopen = false } = {},
+  ): Promise<void> {
+    const now = new Date();
+    await this.db
+      .update(issues)
+      .set({
+        severity: detected.severity,
+        title: detected.title,
+        description: detected.description,
+        confidence: detected.confidence,
+        evidence: sql`coalesce(${issues.evidence}, '{}'::jsonb) || ${JSON.stringify(detected.evidence)}::jsonb`,
+        occurrenceCount: sql`${issues.occurrenceCount} + 1`,
+        lastSeenAt: now,
+        updatedAt: now,
+        ...(reopen && { status: 'open' as const, resolvedAt: null, resolvedBy: null, resolution: null }),
+      })
+      .where(and(eq(issues.orgId, orgId), eq(issues.id, issueId)));
+  }
+
+  /**
+   * Convert a detected issue's gross and net revenue to the org's reporting
+   * currency at the rate of the day it changed hands, keeping the original
+   * amounts and that day. Net defaults to gross when the detector couldn't tell. Without
+   * a rate the converted amounts are left empty, to be filled in by
+   * CurrencyConverter.convertIssues once one is loaded.
+   */
+  private async convertRevenue(
+    orgId: string,
+    detected: DetectedIssue,
+  ): Promise<Pick<
+    NewIssue,
+    | 'estimatedRevenueCents'
+    | 'netRevenueCents'
+    | 'revenueCurrency'
+    | 'originalRevenueCents'
+    | 'originalNetRevenueCents'
+    | 'originalCurrency'
+    | 'revenueAt'
+  >> {
+    const cents = detected.estimatedRevenueCents;
+    if (cents == null || !detected.revenueCurrency) {
+      return { estimatedRevenueCents: cents, netRevenueCents: detected.netRevenueCents ?? cents };
+    }
+    const netCents = detected.netRevenueCents ?? cents;
+
+    const originalCurrency = detected.revenueCurrency.toUpperCase();
+    const revenueAt = detected.revenueAt ?? new Date();
+    const reportingCurrency = await getReportingCurrency(this.db, orgId);
+    const converter = new CurrencyConverter(this.db);
+    const converted = await converter.convert(orgId, cents, originalCurrency, reportingCurrency, revenueAt);
+    if (converted === null) {
+      log.warn({ orgId, currency: originalCurrency, reportingCurrency }, 'No FX rate for issue revenue');
+    }
+    // The rate is cached by now
+    const convertedNet = converted === null
+      ? null
+      : await converter.convert(orgId, netCents, originalCurrency, reportingCurrency, revenueAt);
+
+    return {
+      estimatedRevenueCents: converted,
+      netRevenueCents: convertedNet,
+      revenueCurrency: converted === null ? null : reportingCurrency,
+      originalRevenueCents: cents,
+      originalNetRevenueCents: netCents,
+      originalCurrency,
+      revenueAt,
+    };
+  }
+
   /**
    * Run a single detector's scheduled scan by detector ID.
-   * Returns null if the detector doesn't exist or doesn't have a scheduled scan.
+   * Returns null if the detector doesn't exist, is disabled for the org, or
+   * doesn't have a scheduled scan.
    */
   async runSingleDetectorScan(
     orgId: string,
     detectorId: string,
-  ): Promise<{ total: number; new: number } | null> {
-    const detector = this.detectors.find(d => d.id === detectorId);
+  ): Promise<{ total: number; new: number; resolved: number } | null> {
+    if (detectorId === CUSTOM_RULES_SCAN_ID) return this.runRuleScans(orgId);
+
+    const detectors = await this.detectorsFor(orgId, { rules: isRuleDetector(detectorId) });
+    const detector = detectors.find(d => d.id === detectorId);
     if (!detector || !detector.scheduledScan) return null;
 
     let total = 0;
     let newIssues = 0;
+    const scanned: ScannedFingerprints = new Map();
 
     try {
       const detected = await detector.scheduledScan(this.db, orgId);
@@ -208,13 +524,45 @@ export class IssueDetectionEngine {
         const created = await this.createOrUpdateIssue(orgId, issue, detector.id);
         if (created) newIssues++;
       }
+      recordScan(scanned, detector, detected);
     } catch (err) {
       log.error({ err, detectorId: detector.id }, 'Single detector scan failed');
       throw err;
     }
 
-    log.info({ orgId, detectorId, total, newIssues }, 'Single detector scan completed');
-    return { total, new: newIssues };
+    const resolved = await this.autoResolveIssues(orgId, { detectorId }, scanned);
+
+    log.info({ orgId, detectorId, total, newIssues, resolved }, 'Single detector scan completed');
+    return { total, new: newIssues, resolved };
+  }
+
+  /**
+   * Run every enabled custom rule's scan. A failing rule is logged and
+   * skipped, like in runScheduledScans.
+   */
+  private async runRuleScans(orgId: string): Promise<{ total: number; new: number; resolved: number }> {
+    const rules = (await this.detectorsFor(orgId)).filter(d => isRuleDetector(d.id));
+    let total = 0;
+    let newIssues = 0;
+    let resolved = 0;
+
+    for (const rule of rules) {
+      try {
+        const detected = await rule.scheduledScan!(this.db, orgId);
+        total += detected.length;
+
+        for (const issue of detected) {
+          if (await this.createOrUpdateIssue(orgId, issue, rule.id)) newIssues++;
+        }
+      } catch (err) {
+        log.error({ err, detectorId: rule.id }, 'Custom rule scan failed');
+      }
+
+      resolved += await this.autoResolveIssues(orgId, { detectorId: rule.id });
+    }
+
+    log.info({ orgId, rules: rules.length, total, newIssues, resolved }, 'Custom rule scans completed');
+    return { total, new: newIssues, resolved };
   }
 
   /**
@@ -226,6 +574,16 @@ export class IssueDetectionEngine {
       name: d.name,
       description: d.description,
       hasScheduledScan: !!d.scheduledScan,
+      autoResolves: !!d.isResolved || !!d.resolvesOnScan,
+      thresholds: d.thresholds ?? {},
     }));
   }
 }
+
+/** Fingerprints each detector's scheduled scan reported, by detector ID */
+type ScannedFingerprints = Map<string, Set<string>>;
+
+function recordScan(scanned: ScannedFingerprints, detector: IssueDetector, detected: DetectedIssue[]): void {
+  if (!detector.resolvesOnScan) return;
+  scanned.set(detector.id, new Set(detected.map(issue => issueFingerprint(detector.id, issue))));
+}
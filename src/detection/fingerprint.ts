@@ -0,0 +1,26 @@
+import type { DetectedIssue } from '../models/types.js';
+
+/**
+ * Stable identity of a detected problem: the detector, the issue type,
+ * the billing source it's about, and the user — or the whole org, for
+ * aggregate issues — followed by the entitlement or product it's about,
+ * when the evidence names one, so one user's subscriptions don't share an
+ * issue. A problem that persists across scans keeps its fingerprint, so
+ * the engine updates one issue instead of raising more.
+ *
+ * migrations/0014_issue_fingerprints.sql backfills existing issues with
+ * the same format; keep the two in step.
+ */
+export function issueFingerprint(
+  detectorId: string,
+  detected: Pick<DetectedIssue, 'issueType' | 'userId' | 'evidence'>,
+): string {
+  const { evidence } = detected;
+  const source = typeof evidence.source === 'string' ? evidence.source : '-';
+  const scope = typeof evidence.entitlementId === 'string' ? evidence.entitlementId
+    : typeof evidence.productId === 'string' ? evidence.productId
+    : null;
+  const parts = [detectorId, detected.issueType, source, detected.userId ?? 'org'];
+  if (scope) parts.push(scope);
+  return parts.join(':');
+}
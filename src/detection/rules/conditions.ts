@@ -0,0 +1,262 @@
+import type {
+  AccessCheck,
+  CanonicalEvent,
+  Entitlement,
+  RuleCondition,
+  RuleOperator,
+  RuleSubject,
+  RuleValue,
+  StateTransition,
+} from '../../models/types.js';
+
+export type RuleFieldType = 'string' | 'number' | 'boolean';
+
+/** Field values for one subject; every field is present, null when unknown */
+export type RuleFacts = Record<string, RuleValue | null>;
+
+/** A condition that held, with the value it held for */
+export interface RuleConditionMatch extends RuleCondition {
+  actual: RuleValue | null;
+}
+
+/**
+ * Fields a rule condition or template can refer to, per subject. Day
+ * counts are fractional; templates show whole days.
+ */
+export const RULE_FIELDS: Record<RuleSubject, Record<string, RuleFieldType>> = {
+  entitlement: {
+    source: 'string',
+    state: 'string',
+    planTier: 'string',
+    billingInterval: 'string',
+    productId: 'string',
+    externalSubscriptionId: 'string',
+    /** Since the last state change */
+    daysInState: 'number',
+    /** Negative while the period is still running */
+    daysSincePeriodEnd: 'number',
+    cancelScheduled: 'boolean',
+  },
+  event: {
+    eventType: 'string',
+    sourceEventType: 'string',
+    status: 'string',
+    source: 'string',
+    amountCents: 'number',
+    currency: 'string',
+    planTier: 'string',
+    billingInterval: 'string',
+    periodType: 'string',
+    cancellationReason: 'string',
+    countryCode: 'string',
+    ageDays: 'number',
+  },
+  accessCheck: {
+    hasAccess: 'boolean',
+    ageDays: 'number',
+  },
+};
+
+const COMPARISON_OPERATORS: RuleOperator[] = ['gt', 'gte', 'lt', 'lte'];
+const LIST_OPERATORS: RuleOperator[] = ['in', 'not_in'];
+const PRESENCE_OPERATORS: RuleOperator[] = ['exists', 'not_exists'];
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(\w+)\.(\w+)\s*\}\}/g;
+
+/** Fields stored in uuid columns; their condition values must be UUIDs */
+const UUID_FIELDS: Partial<Record<RuleSubject, string[]>> = {
+  entitlement: ['productId'],
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: RuleValue): boolean {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysSince(date: Date | null | undefined, now: Date): number | null {
+  return date ? (now.getTime() - date.getTime()) / DAY_MS : null;
+}
+
+export function entitlementFacts(ent: Entitlement, now: Date): RuleFacts {
+  const history = Array.isArray(ent.stateHistory) ? ent.stateHistory as StateTransition[] : [];
+  const lastChange = history.length > 0 ? new Date(history[history.length - 1].timestamp) : ent.createdAt;
+
+  return {
+    source: ent.source,
+    state: ent.state,
+    planTier: ent.planTier,
+    billingInterval: ent.billingInterval,
+    productId: ent.productId,
+    externalSubscriptionId: ent.externalSubscriptionId,
+    daysInState: daysSince(lastChange, now),
+    daysSincePeriodEnd: daysSince(ent.currentPeriodEnd, now),
+    cancelScheduled: ent.cancelAt != null,
+  };
+}
+
+export function eventFacts(event: CanonicalEvent | null, now: Date): RuleFacts {
+  if (!event) return emptyFacts('event');
+  return {
+    eventType: event.eventType,
+    sourceEventType: event.sourceEventType,
+    status: event.status,
+    source: event.source,
+    amountCents: event.amountCents,
+    currency: event.currency,
+    planTier: event.planTier,
+    billingInterval: event.billingInterval,
+    periodType: event.periodType,
+    cancellationReason: event.cancellationReason,
+    countryCode: event.countryCode,
+    ageDays: daysSince(event.eventTime, now),
+  };
+}
+
+export function accessCheckFacts(check: AccessCheck | null, now: Date): RuleFacts {
+  if (!check) return emptyFacts('accessCheck');
+  return {
+    hasAccess: check.hasAccess,
+    ageDays: daysSince(check.reportedAt, now),
+  };
+}
+
+function emptyFacts(subject: RuleSubject): RuleFacts {
+  return Object.fromEntries(Object.keys(RULE_FIELDS[subject]).map(field => [field, null]));
+}
+
+/**
+ * Evaluate conditions against the facts for each subject. Returns the
+ * matched conditions when all of them hold, otherwise null.
+ */
+export function evaluateConditions(
+  conditions: RuleCondition[],
+  facts: Partial<Record<RuleSubject, RuleFacts>>,
+): RuleConditionMatch[] | null {
+  const matched: RuleConditionMatch[] = [];
+
+  for (const condition of conditions) {
+    const actual = facts[condition.subject]?.[condition.field] ?? null;
+    if (!holds(condition.operator, actual, condition.value)) return null;
+    matched.push({ ...condition, actual });
+  }
+
+  return matched;
+}
+
+function holds(operator: RuleOperator, actual: RuleValue | null, expected: RuleCondition['value']): boolean {
+  switch (operator) {
+    case 'exists':
+      return actual !== null;
+    case 'not_exists':
+      return actual === null;
+    case 'eq':
+      return actual !== null && sameValue(actual, expected as RuleValue);
+    case 'neq':
+      return actual === null || !sameValue(actual, expected as RuleValue);
+    case 'in':
+      return actual !== null && (expected as RuleValue[]).some(v => sameValue(actual, v));
+    case 'not_in':
+      return actual === null || !(expected as RuleValue[]).some(v => sameValue(actual, v));
+    case 'gt':
+      return typeof actual === 'number' && actual > (expected as number);
+    case 'gte':
+      return typeof actual === 'number' && actual >= (expected as number);
+    case 'lt':
+      return typeof actual === 'number' && actual < (expected as number);
+    case 'lte':
+      return typeof actual === 'number' && actual <= (expected as number);
+  }
+}
+
+/** Strings compare case-insensitively, so `USD` matches `usd` */
+function sameValue(a: RuleValue, b: RuleValue): boolean {
+  if (typeof a === 'string' && typeof b === 'string') return a.toLowerCase() === b.toLowerCase();
+  return a === b;
+}
+
+/**
+ * Check each condition names a known field and has a value that suits
+ * its operator and the field's type. Returns one message per problem.
+ */
+export function validateConditions(conditions: RuleCondition[]): string[] {
+  const errors: string[] = [];
+
+  conditions.forEach((condition, i) => {
+    const where = `conditions[${i}]`;
+    const type = RULE_FIELDS[condition.subject]?.[condition.field];
+    if (!type) {
+      errors.push(`${where}: unknown ${condition.subject} field "${condition.field}"`);
+      return;
+    }
+
+    const { operator, value } = condition;
+    const reported = errors.length;
+    if (PRESENCE_OPERATORS.includes(operator)) {
+      if (value !== undefined) errors.push(`${where}: ${operator} takes no value`);
+    } else if (LIST_OPERATORS.includes(operator)) {
+      if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`${where}: ${operator} needs a non-empty list of values`);
+      } else if (value.some(v => typeof v !== type)) {
+        errors.push(`${where}: ${condition.field} values must be ${type}s`);
+      }
+    } else if (COMPARISON_OPERATORS.includes(operator)) {
+      if (type !== 'number' || typeof value !== 'number') {
+        errors.push(`${where}: ${operator} compares numeric fields with a number`);
+      }
+    } else if (typeof value !== type) {
+      errors.push(`${where}: ${condition.field} is a ${type}`);
+    }
+
+    if (errors.length === reported && value !== undefined && UUID_FIELDS[condition.subject]?.includes(condition.field)) {
+      const values = Array.isArray(value) ? value : [value];
+      if (!values.every(isUuid)) errors.push(`${where}: ${condition.field} values must be UUIDs`);
+    }
+  });
+
+  return errors;
+}
+
+/** Check a template only refers to known fields, or `{{rule.name}}` */
+export function validateTemplate(template: string): string[] {
+  const errors: string[] = [];
+  for (const [placeholder, subject, field] of template.matchAll(TEMPLATE_PLACEHOLDER)) {
+    if (subject === 'rule' && field === 'name') continue;
+    if (!RULE_FIELDS[subject as RuleSubject]?.[field]) {
+      errors.push(`unknown placeholder ${placeholder}`);
+    }
+  }
+  return errors;
+}
+
+/** Subjects a rule refers to in its conditions or templates */
+export function referencedSubjects(conditions: RuleCondition[], ...templates: Array<string | null>): Set<RuleSubject> {
+  const subjects = new Set<RuleSubject>(conditions.map(c => c.subject));
+  for (const template of templates) {
+    if (!template) continue;
+    for (const [, subject] of template.matchAll(TEMPLATE_PLACEHOLDER)) {
+      if (subject in RULE_FIELDS) subjects.add(subject as RuleSubject);
+    }
+  }
+  return subjects;
+}
+
+/**
+ * Fill `{{subject.field}}` placeholders from the facts. Unknown values
+ * render as "unknown" and day counts as whole days.
+ */
+export function renderTemplate(
+  template: string,
+  facts: Partial<Record<RuleSubject, RuleFacts>>,
+  ruleName: string,
+): string {
+  return template.replace(TEMPLATE_PLACEHOLDER, (_, subject: string, field: string) => {
+    if (subject === 'rule' && field === 'name') return ruleName;
+    const value = facts[subject as RuleSubject]?.[field] ?? null;
+    if (value === null) return 'unknown';
+    if (typeof value === 'number' && !Number.isInteger(value)) return String(Math.floor(value));
+    return String(value);
+  });
+}
@@ -0,0 +1,380 @@
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../../config/database.js';
+import { accessChecks, canonicalEvents, detectorRules, entitlements } from '../../models/schema.js';
+import type {
+  AccessCheck,
+  CanonicalEvent,
+  DetectedIssue,
+  DetectorRule,
+  Entitlement,
+  EntitlementState,
+  BillingSource,
+  Issue,
+  RuleCondition,
+  RuleSubject,
+  RuleValue,
+} from '../../models/types.js';
+import type { IssueDetector } from '../detector.js';
+import {
+  accessCheckFacts,
+  entitlementFacts,
+  evaluateConditions,
+  eventFacts,
+  isUuid,
+  referencedSubjects,
+  renderTemplate,
+  type RuleConditionMatch,
+  type RuleFacts,
+} from './conditions.js';
+
+/** Custom rules run as detectors with the rule ID behind this prefix */
+export const RULE_DETECTOR_PREFIX = 'rule:';
+
+/** Scan schedule detector ID that runs every enabled rule */
+export const CUSTOM_RULES_SCAN_ID = 'custom_rules';
+
+/** Issue type of everything rules raise; the rule is named in the evidence */
+export const CUSTOM_RULE_ISSUE_TYPE = 'custom_rule';
+
+/** Most recent events a dry run replays */
+const DRY_RUN_EVENT_LIMIT = 1000;
+
+/** Issues a dry run returns per mode; the counts cover all of them */
+const DRY_RUN_SAMPLE_SIZE = 25;
+
+/** Scans load entitlements in batches of this size */
+const BATCH_SIZE = 500;
+
+/** Free-text entitlement columns a scan can narrow by; compared case-insensitively like conditions */
+const TEXT_FILTER_COLUMNS = {
+  planTier: entitlements.planTier,
+  billingInterval: entitlements.billingInterval,
+} as const;
+
+/** What it takes to evaluate a rule, whether or not it has been saved */
+export interface RuleDefinition {
+  id: string | null;
+  name: string;
+  severity: DetectorRule['severity'];
+  conditions: RuleCondition[];
+  titleTemplate: string;
+  descriptionTemplate: string | null;
+}
+
+export interface RuleDryRunResult {
+  /** Issues a scan would raise now */
+  scan: { matches: number; issues: DetectedIssue[] };
+  /** Issues the rule would have raised on the events of the last `days` days */
+  events: { days: number; checked: number; truncated: boolean; matches: number; issues: DetectedIssue[] };
+}
+
+export function isRuleDetector(detectorId: string): boolean {
+  return detectorId.startsWith(RULE_DETECTOR_PREFIX);
+}
+
+/**
+ * Turn a stored rule into a detector the engine runs like any other.
+ * The rule's issues auto-resolve once its conditions stop holding for
+ * the entitlement that raised them.
+ */
+export function createRuleDetector(rule: DetectorRule): IssueDetector {
+  const definition: RuleDefinition = {
+    id: rule.id,
+    name: rule.name,
+    severity: rule.severity,
+    conditions: rule.conditions as RuleCondition[],
+    titleTemplate: rule.titleTemplate,
+    descriptionTemplate: rule.descriptionTemplate,
+  };
+
+  return {
+    id: `${RULE_DETECTOR_PREFIX}${rule.id}`,
+    name: rule.name,
+    description: rule.description || `Custom rule: ${rule.name}`,
+
+    async checkEvent(db, orgId, userId, event) {
+      return new RuleEvaluator(db, orgId, definition).checkEvent(userId, event);
+    },
+
+    async scheduledScan(db, orgId) {
+      return new RuleEvaluator(db, orgId, definition).scan();
+    },
+
+    async isResolved(db, orgId, issue) {
+      return new RuleEvaluator(db, orgId, definition).isResolved(issue);
+    },
+  };
+}
+
+/** Detectors for an org's enabled rules */
+export async function loadRuleDetectors(db: Database, orgId: string): Promise<IssueDetector[]> {
+  const rules = await db
+    .select()
+    .from(detectorRules)
+    .where(and(eq(detectorRules.orgId, orgId), eq(detectorRules.enabled, true)));
+
+  return rules.map(createRuleDetector);
+}
+
+/**
+ * Evaluate a rule against the org's data without raising anything: as a
+ * scan would now, and as it would have on each event of the last `days`
+ * days. Entitlement and access check conditions see their current state.
+ * Matches count one issue per user, as the engine keeps one open issue
+ * per user and rule.
+ */
+export async function dryRunRule(
+  db: Database,
+  orgId: string,
+  rule: RuleDefinition,
+  days: number,
+): Promise<RuleDryRunResult> {
+  const evaluator = new RuleEvaluator(db, orgId, rule);
+  const scanned = uniquePerUser(await evaluator.scan());
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const events = await db
+    .select()
+    .from(canonicalEvents)
+    .where(
+      and(
+        eq(canonicalEvents.orgId, orgId),
+        eq(canonicalEvents.environment, 'production'),
+        isNotNull(canonicalEvents.userId),
+        gte(canonicalEvents.eventTime, since),
+      ),
+    )
+    .orderBy(desc(canonicalEvents.eventTime))
+    .limit(DRY_RUN_EVENT_LIMIT);
+
+  const replayed: DetectedIssue[] = [];
+  for (const event of events) {
+    replayed.push(...await evaluator.checkEvent(event.userId!, event));
+  }
+  const fromEvents = uniquePerUser(replayed);
+
+  return {
+    scan: { matches: scanned.length, issues: scanned.slice(0, DRY_RUN_SAMPLE_SIZE) },
+    events: {
+      days,
+      checked: events.length,
+      truncated: events.length === DRY_RUN_EVENT_LIMIT,
+      matches: fromEvents.length,
+      issues: fromEvents.slice(0, DRY_RUN_SAMPLE_SIZE),
+    },
+  };
+}
+
+function uniquePerUser(detected: DetectedIssue[]): DetectedIssue[] {
+  const seen = new Set<string | undefined>();
+  return detected.filter((issue) => {
+    if (seen.has(issue.userId)) return false;
+    seen.add(issue.userId);
+    return true;
+  });
+}
+
+/**
+ * Evaluates one rule per entitlement, with the entitlement's latest event
+ * (or the event being processed) and the user's latest access check.
+ */
+class RuleEvaluator {
+  private readonly subjects: Set<RuleSubject>;
+  private readonly entitlementConditions: RuleCondition[];
+  private readonly now = new Date();
+
+  constructor(
+    private db: Database,
+    private orgId: string,
+    private rule: RuleDefinition,
+  ) {
+    this.subjects = referencedSubjects(rule.conditions, rule.titleTemplate, rule.descriptionTemplate);
+    this.entitlementConditions = rule.conditions.filter(c => c.subject === 'entitlement');
+  }
+
+  /** Evaluate against the entitlements the event is about */
+  async checkEvent(userId: string, event: CanonicalEvent): Promise<DetectedIssue[]> {
+    const filters: SQL[] = [
+      eq(entitlements.orgId, this.orgId),
+      eq(entitlements.userId, userId),
+      eq(entitlements.source, event.source),
+      eq(entitlements.environment, 'production'),
+    ];
+    if (event.productId) filters.push(eq(entitlements.productId, event.productId));
+
+    const ents = await this.db.select().from(entitlements).where(and(...filters));
+    return this.evaluateAll(ents, event);
+  }
+
+  /** Evaluate against every production entitlement, a batch at a time */
+  async scan(): Promise<DetectedIssue[]> {
+    const filters: SQL[] = [
+      eq(entitlements.orgId, this.orgId),
+      eq(entitlements.environment, 'production'),
+    ];
+
+    // Narrow the query by the values the rule asks for
+    for (const condition of this.entitlementConditions) {
+      const values = condition.operator === 'eq' ? [condition.value as RuleValue]
+        : condition.operator === 'in' ? condition.value as RuleValue[]
+        : null;
+      if (!values) continue;
+      const lowered = values.map(v => String(v).toLowerCase());
+      if (condition.field === 'state') {
+        filters.push(inArray(entitlements.state, lowered as EntitlementState[]));
+      } else if (condition.field === 'source') {
+        filters.push(inArray(entitlements.source, lowered as BillingSource[]));
+      } else if (condition.field === 'productId') {
+        // A uuid column; values that aren't UUIDs can't match it
+        filters.push(inArray(entitlements.productId, values.filter(isUuid) as string[]));
+      } else if (condition.field in TEXT_FILTER_COLUMNS) {
+        const column = TEXT_FILTER_COLUMNS[condition.field as keyof typeof TEXT_FILTER_COLUMNS];
+        filters.push(inArray(sql`lower(${column})`, lowered));
+      }
+    }
+
+    const detected: DetectedIssue[] = [];
+    let afterId: string | undefined;
+
+    do {
+      const conditions = afterId ? [...filters, gt(entitlements.id, afterId)] : filters;
+      const batch = await this.db
+        .select()
+        .from(entitlements)
+        .where(and(...conditions))
+        .orderBy(asc(entitlements.id))
+        .limit(BATCH_SIZE);
+
+      detected.push(...await this.evaluateAll(batch));
+      afterId = batch.length === BATCH_SIZE ? batch[batch.length - 1].id : undefined;
+    } while (afterId);
+
+    return detected;
+  }
+
+  /**
+   * True once the rule no longer matches the issue's entitlement, or the
+   * entitlement is gone
+   */
+  async isResolved(issue: Issue): Promise<boolean> {
+    const entitlementId = (issue.evidence as Record<string, unknown>)?.entitlementId;
+    if (typeof entitlementId !== 'string') return false;
+
+    const [ent] = await this.db
+      .select()
+      .from(entitlements)
+      .where(and(eq(entitlements.orgId, this.orgId), eq(entitlements.id, entitlementId)))
+      .limit(1);
+    if (!ent) return true;
+
+    return (await this.evaluate(ent)) === null;
+  }
+
+  private async evaluateAll(ents: Entitlement[], event?: CanonicalEvent): Promise<DetectedIssue[]> {
+    const detected: DetectedIssue[] = [];
+    for (const ent of ents) {
+      const issue = await this.evaluate(ent, event);
+      if (issue) detected.push(issue);
+    }
+    return detected;
+  }
+
+  private async evaluate(ent: Entitlement, event?: CanonicalEvent): Promise<DetectedIssue | null> {
+    const facts: Partial<Record<RuleSubject, RuleFacts>> = {
+      entitlement: entitlementFacts(ent, this.now),
+    };
+
+    // Entitlement conditions go first so only candidates cost more queries
+    if (!evaluateConditions(this.entitlementConditions, facts)) return null;
+
+    const latestEvent = event ?? await this.latestEvent(ent);
+    facts.event = eventFacts(latestEvent, this.now);
+
+    let check: AccessCheck | null = null;
+    if (this.subjects.has('accessCheck')) {
+      check = await this.latestAccessCheck(ent);
+      facts.accessCheck = accessCheckFacts(check, this.now);
+    }
+
+    const matched = evaluateConditions(this.rule.conditions, facts);
+    if (!matched) return null;
+
+    return this.toIssue(ent, latestEvent, check, facts, matched);
+  }
+
+  private async latestEvent(ent: Entitlement): Promise<CanonicalEvent | null> {
+    const [event] = await this.db
+      .select()
+      .from(canonicalEvents)
+      .where(
+        and(
+          eq(canonicalEvents.orgId, this.orgId),
+          eq(canonicalEvents.userId, ent.userId),
+          eq(canonicalEvents.productId, ent.productId),
+          eq(canonicalEvents.source, ent.source),
+        ),
+      )
+      .orderBy(desc(canonicalEvents.eventTime))
+      .limit(1);
+    return event ?? null;
+  }
+
+  private async latestAccessCheck(ent: Entitlement): Promise<AccessCheck | null> {
+    const [check] = await this.db
+      .select()
+      .from(accessChecks)
+      .where(and(eq(accessChecks.orgId, this.orgId), eq(accessChecks.userId, ent.userId)))
+      .orderBy(desc(accessChecks.reportedAt))
+      .limit(1);
+    return check ?? null;
+  }
+
+  private toIssue(
+    ent: Entitlement,
+    event: CanonicalEvent | null,
+    check: AccessCheck | null,
+    facts: Partial<Record<RuleSubject, RuleFacts>>,
+    matched: RuleConditionMatch[],
+  ): DetectedIssue {
+    const { rule } = this;
+    const revenue: Partial<DetectedIssue> = event?.amountCents != null
+      ? {
+          estimatedRevenueCents: event.amountCents,
+          netRevenueCents: event.proceedsCents ?? undefined,
+          revenueCurrency: event.currency ?? undefined,
+          revenueAt: event.eventTime,
+        }
+      : {};
+
+    return {
+      issueType: CUSTOM_RULE_ISSUE_TYPE,
+      severity: rule.severity,
+      title: renderTemplate(rule.titleTemplate, facts, rule.name),
+      description: rule.descriptionTemplate
+        ? renderTemplate(rule.descriptionTemplate, facts, rule.name)
+        : `Matched the custom rule "${rule.name}": ${matched.map(describeMatch).join('; ')}.`,
+      userId: ent.userId,
+      ...revenue,
+      confidence: 1,
+      detectionTier: this.subjects.has('accessCheck') ? 'app_verified' : 'billing_only',
+      evidence: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        entitlementId: ent.id,
+        productId: ent.productId,
+        source: ent.source,
+        state: ent.state,
+        externalSubscriptionId: ent.externalSubscriptionId,
+        eventId: event?.id ?? null,
+        accessCheckId: check?.id ?? null,
+        matched,
+      },
+    };
+  }
+}
+
+function describeMatch(match: RuleConditionMatch): string {
+  const value = match.value === undefined ? '' : ` ${JSON.stringify(match.value)}`;
+  const actual = typeof match.actual === 'number' ? Math.round(match.actual * 10) / 10 : match.actual;
+  return `${match.subject}.${match.field} ${match.operator}${value} (was ${JSON.stringify(actual)})`;
+}
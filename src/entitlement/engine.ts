@@ -1,7 +1,7 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, asc } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
-import { entitlements } from '../models/schema.js';
-import type { CanonicalEvent, EntitlementState, EventType, StateTransition } from '../models/types.js';
+import { entitlements, canonicalEvents } from '../models/schema.js';
+import type { CanonicalEvent, Entitlement, EntitlementState, EventType, StateTransition } from '../models/types.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('entitlement-engine');
@@ -21,6 +21,11 @@ const log = createChildLogger('entitlement-engine');
  *
  * Key insight: we don't ask "is this subscription active?" — we ask
  * "based on all events, SHOULD this user have access right now?"
+ *
+ * Out-of-order delivery: Apple and Google routinely deliver webhooks out
+ * of order. When an event's eventTime is older than the latest event
+ * already applied, the state is re-derived from the entitlement's full
+ * event history in eventTime order instead of applying the event on top.
  */
 
 type TransitionResult = {
@@ -103,6 +108,18 @@ const STATE_TRANSITIONS: Record<EntitlementState, Partial<Record<EventType, Tran
   },
 };
 
+/** Entitlement fields derived by replaying an event history (see deriveState). */
+export interface DerivedEntitlement {
+  state: EntitlementState;
+  stateHistory: StateTransition[];
+  lastEventId: string | null;
+  currentPeriodStart: Date | null;
+  currentPeriodEnd: Date | null;
+  billingInterval: string | null;
+  planTier: string | null;
+  externalSubscriptionId: string | null;
+}
+
 export class EntitlementEngine {
   constructor(private db: Database) {}
 
@@ -124,6 +141,7 @@ export class EntitlementEngine {
         userId: event.userId,
         productId: event.productId,
         source: event.source,
+        environment: event.environment ?? 'production',
         state: 'inactive',
         externalSubscriptionId: event.externalSubscriptionId,
         billingInterval: event.billingInterval,
@@ -141,6 +159,7 @@ export class EntitlementEngine {
           eq(entitlements.userId, event.userId),
           eq(entitlements.productId, event.productId),
           eq(entitlements.source, event.source),
+          eq(entitlements.environment, event.environment ?? 'production'),
         ),
       )
       .limit(1);
@@ -148,6 +167,12 @@ export class EntitlementEngine {
     const currentState = entitlement.state as EntitlementState;
     const eventType = event.eventType as EventType;
 
+    // An event older than one already applied can't be applied on top
+    const lastAppliedAt = this.lastAppliedEventTime(entitlement);
+    if (lastAppliedAt && event.eventTime < lastAppliedAt) {
+      return this.rederiveFromHistory(entitlement, event, lastAppliedAt);
+    }
+
     // Look up transition
     const transitions = STATE_TRANSITIONS[currentState];
     const result = transitions?.[eventType];
@@ -219,6 +244,149 @@ export class EntitlementEngine {
     return transition;
   }
 
+  /**
+   * Handle an out-of-order event: replay the entitlement's stored events
+   * (including this one) in eventTime order and overwrite the derived
+   * fields. The prior history is kept, and the reorder is appended to it
+   * as a transition flagged `reordered`.
+   */
+  private async rederiveFromHistory(
+    entitlement: Entitlement,
+    event: CanonicalEvent,
+    lastAppliedAt: Date,
+  ): Promise<StateTransition | null> {
+    const events = await this.db
+      .select()
+      .from(canonicalEvents)
+      .where(
+        and(
+          eq(canonicalEvents.orgId, entitlement.orgId),
+          eq(canonicalEvents.userId, entitlement.userId),
+          eq(canonicalEvents.productId, entitlement.productId),
+          eq(canonicalEvents.source, entitlement.source),
+          eq(canonicalEvents.environment, entitlement.environment),
+        ),
+      )
+      .orderBy(asc(canonicalEvents.eventTime), asc(canonicalEvents.ingestedAt));
+
+    if (!events.some(e => e.id === event.id)) events.push(event);
+
+    const currentState = entitlement.state as EntitlementState;
+    const derived = this.deriveState(events);
+
+    const transition: StateTransition = {
+      from: currentState,
+      to: derived.state,
+      eventType: event.eventType as EventType,
+      eventId: event.id,
+      timestamp: event.eventTime,
+      reordered: true,
+    };
+
+    const history = (entitlement.stateHistory as StateTransition[]) || [];
+    history.push(transition);
+
+    const updated = await this.db
+      .update(entitlements)
+      .set({
+        state: derived.state,
+        lastEventId: derived.lastEventId ?? entitlement.lastEventId,
+        stateHistory: history,
+        currentPeriodStart: derived.currentPeriodStart ?? undefined,
+        currentPeriodEnd: derived.currentPeriodEnd ?? undefined,
+        billingInterval: derived.billingInterval ?? entitlement.billingInterval,
+        planTier: derived.planTier ?? entitlement.planTier,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(entitlements.id, entitlement.id),
+          eq(entitlements.state, currentState), // optimistic lock
+        ),
+      )
+      .returning();
+
+    if (updated.length === 0) {
+      log.warn({
+        entitlementId: entitlement.id,
+        expectedState: currentState,
+        eventId: event.id,
+      }, 'Entitlement state changed concurrently, skipping re-derivation');
+      return null;
+    }
+
+    log.info({
+      entitlementId: entitlement.id,
+      eventId: event.id,
+      eventTime: event.eventTime,
+      lastAppliedAt,
+      from: currentState,
+      to: derived.state,
+      eventsReplayed: events.length,
+    }, 'Out-of-order event — re-derived entitlement from ordered history');
+
+    return transition;
+  }
+
+  /** Latest eventTime among the transitions already applied to an entitlement. */
+  private lastAppliedEventTime(entitlement: Entitlement): Date | null {
+    const history = (entitlement.stateHistory as StateTransition[]) || [];
+    let latest: number | null = null;
+    for (const t of history) {
+      const time = new Date(t.timestamp).getTime();
+      if (!Number.isNaN(time) && (latest === null || time > latest)) latest = time;
+    }
+    return latest === null ? null : new Date(latest);
+  }
+
+  /**
+   * Re-derive an entitlement from scratch by folding its events, in
+   * eventTime order, through the state machine starting from 'inactive'.
+   * Pure — touches no storage. Events that have no valid transition are
+   * skipped, as in processEvent.
+   */
+  deriveState(events: CanonicalEvent[]): DerivedEntitlement {
+    const ordered = [...events].sort((a, b) =>
+      a.eventTime.getTime() - b.eventTime.getTime()
+      || a.ingestedAt.getTime() - b.ingestedAt.getTime(),
+    );
+
+    const derived: DerivedEntitlement = {
+      state: 'inactive',
+      stateHistory: [],
+      lastEventId: null,
+      currentPeriodStart: null,
+      currentPeriodEnd: null,
+      billingInterval: null,
+      planTier: null,
+      externalSubscriptionId: null,
+    };
+
+    for (const event of ordered) {
+      derived.externalSubscriptionId = event.externalSubscriptionId ?? derived.externalSubscriptionId;
+
+      const eventType = event.eventType as EventType;
+      const result = STATE_TRANSITIONS[derived.state]?.[eventType];
+      if (!result) continue;
+
+      derived.stateHistory.push({
+        from: derived.state,
+        to: result.newState,
+        eventType,
+        eventId: event.id,
+        timestamp: event.eventTime,
+      });
+      derived.state = result.newState;
+      derived.lastEventId = event.id;
+      derived.currentPeriodStart = this.extractPeriodStart(event) ?? derived.currentPeriodStart;
+      derived.currentPeriodEnd = this.extractPeriodEnd(event) ?? derived.currentPeriodEnd;
+      derived.billingInterval = event.billingInterval ?? derived.billingInterval;
+      derived.planTier = event.planTier ?? derived.planTier;
+    }
+
+    return derived;
+  }
+
   /**
    * Get the current entitlement state for a user across all products.
    */
@@ -236,6 +404,7 @@ export class EntitlementEngine {
 
   /**
    * Check if a user should currently have access to a product.
+   * Only production entitlements count.
    */
   async hasAccess(orgId: string, userId: string, productId: string): Promise<boolean> {
     const [ent] = await this.db
@@ -246,6 +415,7 @@ export class EntitlementEngine {
           eq(entitlements.orgId, orgId),
           eq(entitlements.userId, userId),
           eq(entitlements.productId, productId),
+          eq(entitlements.environment, 'production'),
         ),
       )
       .limit(1);
@@ -272,19 +442,14 @@ export class EntitlementEngine {
     if (raw?.transaction?.purchaseDate) {
       return new Date(raw.transaction.purchaseDate);
     }
+    // Braintree
+    if (raw?.subject?.subscription?.billingPeriodStartDate) {
+      return new Date(raw.subject.subscription.billingPeriodStartDate);
+    }
     return undefined;
   }
 
   private extractPeriodEnd(event: CanonicalEvent): Date | undefined {
-    const raw = event.rawPayload as any;
-    // Stripe
-    if (raw?.data?.object?.current_period_end) {
-      return new Date(raw.data.object.current_period_end * 1000);
-    }
-    // Apple
-    if (raw?.transaction?.expiresDate) {
-      return new Date(raw.transaction.expiresDate);
-    }
-    return undefined;
+    return event.expirationTime ?? undefined;
   }
 }
@@ -0,0 +1,53 @@
+import * as jose from 'jose';
+import type { EntitlementState } from '../../models/types.js';
+import { readCredentials } from '../../security/credentials.js';
+import { AppStoreServerClient, type AppleCredentials } from '../../ingestion/providers/apple-api.js';
+import type { SubscriptionSource } from './reconciler.js';
+
+/** Get All Subscription Statuses `status` → entitlement state */
+const APPLE_STATES: Record<number, { state: EntitlementState; status: string }> = {
+  1: { state: 'active', status: 'ACTIVE' },
+  2: { state: 'expired', status: 'EXPIRED' },
+  3: { state: 'billing_retry', status: 'BILLING_RETRY' },
+  4: { state: 'grace_period', status: 'BILLING_GRACE_PERIOD' },
+  5: { state: 'revoked', status: 'REVOKED' },
+};
+
+/**
+ * Looks subscriptions up with the App Store Server API's Get All
+ * Subscription Statuses, by original transaction ID. Needs the
+ * connection's private key.
+ */
+export const appleSubscriptions: SubscriptionSource = {
+  async connect(connection) {
+    const creds = connection.credentials
+      ? readCredentials<AppleCredentials>(connection.credentials)
+      : null;
+    if (!creds?.privateKey) return null;
+
+    const client = new AppStoreServerClient(creds);
+
+    return async (originalTransactionId) => {
+      let response;
+      try {
+        response = await client.getAllSubscriptionStatuses(originalTransactionId);
+      } catch (err: any) {
+        if (/error 404/.test(err?.message ?? '')) return null;
+        throw err;
+      }
+
+      const item = response.data
+        .flatMap(group => group.lastTransactions)
+        .find(t => t.originalTransactionId === originalTransactionId);
+      if (!item) return null;
+
+      const { expiresDate } = jose.decodeJwt(item.signedTransactionInfo) as { expiresDate?: number };
+      const mapped = APPLE_STATES[item.status] ?? { state: 'inactive', status: String(item.status) };
+      return {
+        state: mapped.state,
+        status: mapped.status,
+        currentPeriodEnd: expiresDate ? new Date(expiresDate) : null,
+      };
+    };
+  },
+};
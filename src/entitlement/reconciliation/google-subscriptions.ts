@@ -0,0 +1,67 @@
+import type { EntitlementState } from '../../models/types.js';
+import { readCredentials } from '../../security/credentials.js';
+import { GoogleNormalizer, type SubscriptionPurchaseV2 } from '../../ingestion/providers/google.js';
+import type { SubscriptionSource } from './reconciler.js';
+
+interface GoogleCredentials {
+  clientEmail?: string;
+  privateKey?: string;
+  packageName?: string;
+}
+
+/**
+ * Looks subscriptions up with purchases.subscriptionsv2.get, by purchase
+ * token. Google stops answering for tokens that expired more than 60 days
+ * ago (410), which counts as not found.
+ */
+export const googleSubscriptions: SubscriptionSource = {
+  async connect(connection) {
+    const creds = connection.credentials
+      ? readCredentials<GoogleCredentials>(connection.credentials)
+      : null;
+    if (!creds?.clientEmail || !creds.privateKey || !creds.packageName) return null;
+
+    // The normalizer caches its access token, so one instance serves the run
+    const google = new GoogleNormalizer();
+    google.setCredentials(creds.clientEmail, creds.privateKey, creds.packageName);
+
+    return async (purchaseToken) => {
+      let details: SubscriptionPurchaseV2;
+      try {
+        details = await google.fetchSubscriptionDetails(creds.packageName!, purchaseToken);
+      } catch (err: any) {
+        if (/error (404|410)/.test(err?.message ?? '')) return null;
+        throw err;
+      }
+
+      const expiryTime = details.lineItems?.[0]?.expiryTime || details.expiryTime;
+      return {
+        state: googleState(details, expiryTime),
+        status: details.subscriptionState,
+        currentPeriodEnd: expiryTime ? new Date(expiryTime) : null,
+      };
+    };
+  },
+};
+
+function googleState(details: SubscriptionPurchaseV2, expiryTime: string | undefined): EntitlementState {
+  switch (details.subscriptionState) {
+    case 'SUBSCRIPTION_STATE_ACTIVE':
+      return details.lineItems?.[0]?.offerPhase?.freeTrial ? 'trial' : 'active';
+    // Canceled subscriptions keep access until they expire
+    case 'SUBSCRIPTION_STATE_CANCELED':
+      return expiryTime && new Date(expiryTime) > new Date() ? 'active' : 'expired';
+    case 'SUBSCRIPTION_STATE_IN_GRACE_PERIOD':
+      return 'grace_period';
+    // Account hold: payment failed and access is suspended
+    case 'SUBSCRIPTION_STATE_ON_HOLD':
+      return 'past_due';
+    case 'SUBSCRIPTION_STATE_PAUSED':
+      return 'paused';
+    case 'SUBSCRIPTION_STATE_EXPIRED':
+    case 'SUBSCRIPTION_STATE_PENDING_PURCHASE_CANCELED':
+      return 'expired';
+    default:
+      return 'inactive';
+  }
+}
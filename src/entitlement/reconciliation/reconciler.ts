@@ -0,0 +1,293 @@
+import { eq, and, gt, lt, asc, isNotNull, sql } from 'drizzle-orm';
+import type { Database } from '../../config/database.js';
+import { billingConnections, entitlements } from '../../models/schema.js';
+import type {
+  BillingConnection,
+  BillingSource,
+  DetectedIssue,
+  EntitlementState,
+  ReconciliationOutcome,
+  StateTransition,
+} from '../../models/types.js';
+import { getOrgSettings } from '../../config/org-settings.js';
+import { IssueDetectionEngine } from '../../detection/engine.js';
+import { stateDriftDetector, grantsAccess } from '../../detection/detectors/state-drift.js';
+import { systemAuditLog } from '../../security/audit.js';
+import { stripeSubscriptions } from './stripe-subscriptions.js';
+import { recurlySubscriptions } from './recurly-subscriptions.js';
+import { googleSubscriptions } from './google-subscriptions.js';
+import { appleSubscriptions } from './apple-subscriptions.js';
+import { createChildLogger } from '../../config/logger.js';
+
+const log = createChildLogger('reconciliation');
+
+const DEFAULT_SAMPLE_SIZE = 100;
+
+/** Full walks load entitlements in batches of this size */
+const BATCH_SIZE = 500;
+
+/**
+ * Entitlements changed this recently are skipped: the provider may have
+ * moved on while the webhook that tells us is still in flight.
+ */
+const SETTLE_MS = 60 * 60 * 1000;
+
+/** At most this many error messages are kept on the outcome */
+const MAX_RECORDED_ERRORS = 10;
+
+/** The provider's current view of a subscription */
+export interface ProviderSubscription {
+  /** The provider's status mapped onto our entitlement states */
+  state: EntitlementState;
+  /** The provider's own status, for the evidence */
+  status: string;
+  currentPeriodEnd: Date | null;
+}
+
+/** Returns null when the provider doesn't know the subscription */
+export type SubscriptionLookup = (externalSubscriptionId: string) => Promise<ProviderSubscription | null>;
+
+/** Looks up live subscriptions in a billing source's API */
+export interface SubscriptionSource {
+  /** Returns null when the connection has no API access to look up with */
+  connect(connection: BillingConnection): Promise<SubscriptionLookup | null>;
+}
+
+const subscriptionSources: Partial<Record<BillingSource, SubscriptionSource>> = {
+  stripe: stripeSubscriptions,
+  recurly: recurlySubscriptions,
+  google: googleSubscriptions,
+  apple: appleSubscriptions,
+};
+
+/** Whether entitlements from a billing source can be reconciled */
+export function canReconcile(source: BillingSource): boolean {
+  return source in subscriptionSources;
+}
+
+type CheckedEntitlement = Pick<
+  typeof entitlements.$inferSelect,
+  'id' | 'userId' | 'productId' | 'state' | 'externalSubscriptionId' | 'currentPeriodEnd' | 'stateHistory'
+>;
+
+/**
+ * Subscription State Reconciliation
+ *
+ * Entitlements are derived from webhooks alone, so one missed event
+ * leaves a subscription wrong until the next one arrives — possibly
+ * never. Reconciliation looks each entitlement's subscription up in the
+ * provider's API and raises a state_drift issue, with both views in the
+ * evidence, where they disagree on whether the customer should have
+ * access. With `autoCorrect` on, the entitlement is also moved to the
+ * provider's state (recorded as a `reconciliation` transition) and the
+ * issue auto-resolves.
+ *
+ * Runs per billing connection, for orgs that enable the `reconciliation`
+ * setting: a random sample of subscriptions each run, or all of them.
+ */
+export class SubscriptionReconciler {
+  private detection: IssueDetectionEngine;
+
+  constructor(private db: Database) {
+    this.detection = new IssueDetectionEngine(db);
+  }
+
+  /**
+   * Reconcile one source's production entitlements. Returns null when the
+   * source isn't supported or the org has no active connection for it.
+   */
+  async reconcile(orgId: string, source: BillingSource): Promise<ReconciliationOutcome | null> {
+    const subscriptionSource = subscriptionSources[source];
+    if (!subscriptionSource) return null;
+
+    const [connection] = await this.db
+      .select()
+      .from(billingConnections)
+      .where(
+        and(
+          eq(billingConnections.orgId, orgId),
+          eq(billingConnections.source, source),
+          eq(billingConnections.isActive, true),
+        ),
+      )
+      .limit(1);
+    if (!connection) return null;
+
+    const { reconciliation: settings } = await getOrgSettings(this.db, orgId);
+    const mode = settings?.mode ?? 'sample';
+    const outcome: ReconciliationOutcome = {
+      status: 'completed',
+      source,
+      mode,
+      checked: 0,
+      drifted: 0,
+      corrected: 0,
+      notFound: 0,
+      failed: 0,
+      completedAt: '',
+    };
+
+    if (!settings?.enabled) {
+      return { ...outcome, status: 'skipped', reason: 'not_enabled', completedAt: new Date().toISOString() };
+    }
+
+    const lookup = await subscriptionSource.connect(connection);
+    if (!lookup) {
+      return { ...outcome, status: 'skipped', reason: 'no_api_access', completedAt: new Date().toISOString() };
+    }
+
+    const errors: string[] = [];
+    const detected: DetectedIssue[] = [];
+    const settledBefore = new Date(Date.now() - SETTLE_MS);
+    let afterId: string | undefined;
+
+    do {
+      const conditions = [
+        eq(entitlements.orgId, orgId),
+        eq(entitlements.source, source),
+        eq(entitlements.environment, 'production'),
+        isNotNull(entitlements.externalSubscriptionId),
+        lt(entitlements.updatedAt, settledBefore),
+      ];
+      if (afterId) conditions.push(gt(entitlements.id, afterId));
+
+      const batch: CheckedEntitlement[] = await this.db
+        .select({
+          id: entitlements.id,
+          userId: entitlements.userId,
+          productId: entitlements.productId,
+          state: entitlements.state,
+          externalSubscriptionId: entitlements.externalSubscriptionId,
+          currentPeriodEnd: entitlements.currentPeriodEnd,
+          stateHistory: entitlements.stateHistory,
+        })
+        .from(entitlements)
+        .where(and(...conditions))
+        .orderBy(mode === 'full' ? asc(entitlements.id) : sql`random()`)
+        .limit(mode === 'full' ? BATCH_SIZE : settings.sampleSize ?? DEFAULT_SAMPLE_SIZE);
+
+      for (const ent of batch) {
+        outcome.checked++;
+        try {
+          const provider = await lookup(ent.externalSubscriptionId!);
+          if (!provider) {
+            outcome.notFound++;
+            continue;
+          }
+          if (grantsAccess(ent.state) === grantsAccess(provider.state)) continue;
+
+          outcome.drifted++;
+          const corrected = settings.autoCorrect ? await this.correct(orgId, source, ent, provider) : false;
+          if (corrected) outcome.corrected++;
+          detected.push(driftIssue(source, ent, provider, corrected));
+        } catch (err: any) {
+          outcome.failed++;
+          errors.push(`${ent.externalSubscriptionId}: ${err.message}`);
+          log.warn({ err, orgId, source, entitlementId: ent.id }, 'Failed to reconcile entitlement');
+        }
+      }
+
+      afterId = mode === 'full' && batch.length === BATCH_SIZE ? batch[batch.length - 1].id : undefined;
+    } while (afterId);
+
+    await this.detection.reportIssues(orgId, stateDriftDetector.id, detected);
+    if (outcome.corrected > 0) {
+      await this.detection.autoResolveIssues(orgId, { detectorId: stateDriftDetector.id });
+    }
+
+    if (errors.length > 0) outcome.errors = errors.slice(0, MAX_RECORDED_ERRORS);
+    outcome.completedAt = new Date().toISOString();
+
+    log.info({
+      orgId,
+      source,
+      mode,
+      checked: outcome.checked,
+      drifted: outcome.drifted,
+      corrected: outcome.corrected,
+      failed: outcome.failed,
+    }, 'Subscription reconciliation completed');
+
+    return outcome;
+  }
+
+  /**
+   * Move an entitlement to the provider's state. Returns false when an
+   * event changed it while we were looking (optimistic lock on state).
+   */
+  private async correct(
+    orgId: string,
+    source: BillingSource,
+    ent: CheckedEntitlement,
+    provider: ProviderSubscription,
+  ): Promise<boolean> {
+    const transition: StateTransition = {
+      from: ent.state as EntitlementState,
+      to: provider.state,
+      eventType: 'reconciliation',
+      eventId: null,
+      timestamp: new Date(),
+    };
+    const history = (ent.stateHistory as StateTransition[]) || [];
+
+    const updated = await this.db
+      .update(entitlements)
+      .set({
+        state: provider.state,
+        currentPeriodEnd: provider.currentPeriodEnd ?? undefined,
+        stateHistory: [...history, transition],
+        updatedAt: new Date(),
+      })
+      .where(and(eq(entitlements.id, ent.id), eq(entitlements.state, ent.state)))
+      .returning({ id: entitlements.id });
+
+    if (updated.length === 0) return false;
+
+    systemAuditLog(this.db, orgId, 'entitlement.reconciled', 'entitlement', ent.id, {
+      source,
+      from: ent.state,
+      to: provider.state,
+      providerStatus: provider.status,
+    });
+    return true;
+  }
+}
+
+function driftIssue(
+  source: BillingSource,
+  ent: CheckedEntitlement,
+  provider: ProviderSubscription,
+  corrected: boolean,
+): DetectedIssue {
+  const providerGrants = grantsAccess(provider.state);
+  const impact = providerGrants
+    ? `The customer is paying on ${source} but RevBack considers the subscription ${ent.state}, so your app may be denying them access.`
+    : `${source} considers the subscription ${provider.status}, but RevBack still has it ${ent.state}, so the customer may be keeping access they no longer pay for.`;
+
+  return {
+    issueType: 'state_drift',
+    // A paying customer treated as lapsed is worse than a lapsed one kept on
+    severity: providerGrants ? 'critical' : 'warning',
+    title: `${source} says ${provider.state}, entitlement is ${ent.state}`,
+    description: `${impact} A webhook was most likely missed.${corrected ? ' The entitlement has been corrected to match the provider.' : ''}`,
+    userId: ent.userId,
+    confidence: 0.95,
+    evidence: {
+      source,
+      entitlementId: ent.id,
+      productId: ent.productId,
+      externalSubscriptionId: ent.externalSubscriptionId,
+      provider: {
+        state: provider.state,
+        status: provider.status,
+        currentPeriodEnd: provider.currentPeriodEnd?.toISOString() ?? null,
+      },
+      entitlement: {
+        state: ent.state,
+        currentPeriodEnd: ent.currentPeriodEnd?.toISOString() ?? null,
+      },
+      autoCorrected: corrected,
+      checkedAt: new Date().toISOString(),
+    },
+  };
+}
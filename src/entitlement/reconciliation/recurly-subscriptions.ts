@@ -0,0 +1,79 @@
+import type { EntitlementState } from '../../models/types.js';
+import { readCredentials } from '../../security/credentials.js';
+import { CircuitBreaker } from '../../security/circuit-breaker.js';
+import type { SubscriptionSource } from './reconciler.js';
+
+const RECURLY_BASE_URL = 'https://v3.recurly.com';
+const RECURLY_API_VERSION = 'application/vnd.recurly.v2021-02-25+json';
+
+/** Circuit breaker for Recurly API calls during reconciliation. */
+const recurlyReconciliationBreaker = new CircuitBreaker('recurly-reconciliation-api', {
+  failureThreshold: 5,
+  resetTimeoutMs: 60_000,
+  halfOpenMaxAttempts: 3,
+});
+
+/** GET /subscriptions/{id} response (subset of fields we need). */
+interface RecurlySubscription {
+  uuid: string;
+  state: string;
+  current_period_ends_at: string | null;
+  trial_ends_at: string | null;
+}
+
+/**
+ * Looks subscriptions up with GET /subscriptions/uuid-{uuid}. Add-on
+ * entitlements (`<uuid>:<add-on code>`) follow their subscription.
+ */
+export const recurlySubscriptions: SubscriptionSource = {
+  async connect(connection) {
+    const creds = connection.credentials
+      ? readCredentials<{ apiKey?: string }>(connection.credentials)
+      : null;
+    if (!creds?.apiKey) return null;
+
+    const auth = Buffer.from(`${creds.apiKey}:`).toString('base64');
+
+    return async (externalSubscriptionId) => {
+      const uuid = externalSubscriptionId.split(':')[0];
+      const sub = await recurlyReconciliationBreaker.execute(async () => {
+        const response = await fetch(`${RECURLY_BASE_URL}/subscriptions/uuid-${encodeURIComponent(uuid)}`, {
+          headers: {
+            'Authorization': `Basic ${auth}`,
+            'Accept': RECURLY_API_VERSION,
+          },
+        });
+        if (response.status === 404) return null;
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          throw new Error(`Recurly API error ${response.status}: ${body}`);
+        }
+        return response.json() as Promise<RecurlySubscription>;
+      });
+      if (!sub) return null;
+
+      return {
+        state: recurlyState(sub),
+        status: sub.state,
+        currentPeriodEnd: sub.current_period_ends_at ? new Date(sub.current_period_ends_at) : null,
+      };
+    };
+  },
+};
+
+function recurlyState(sub: RecurlySubscription): EntitlementState {
+  switch (sub.state) {
+    case 'active':
+      return sub.trial_ends_at && new Date(sub.trial_ends_at) > new Date() ? 'trial' : 'active';
+    // Canceled subscriptions keep access until the period ends, then expire
+    case 'canceled':
+      return 'active';
+    case 'paused':
+      return 'paused';
+    case 'expired':
+      return 'expired';
+    // `future` hasn't started; `failed` never collected its first payment
+    default:
+      return 'inactive';
+  }
+}
@@ -0,0 +1,59 @@
+import type Stripe from 'stripe';
+import type { EntitlementState } from '../../models/types.js';
+import { readCredentials } from '../../security/credentials.js';
+import { CircuitBreaker } from '../../security/circuit-breaker.js';
+import type { SubscriptionSource } from './reconciler.js';
+
+/** Circuit breaker for Stripe API calls during reconciliation. */
+const stripeReconciliationBreaker = new CircuitBreaker('stripe-reconciliation-api', {
+  failureThreshold: 5,
+  resetTimeoutMs: 60_000,
+  halfOpenMaxAttempts: 3,
+});
+
+const STRIPE_STATES: Record<Stripe.Subscription.Status, EntitlementState> = {
+  trialing: 'trial',
+  active: 'active',
+  past_due: 'billing_retry',
+  unpaid: 'past_due',
+  paused: 'paused',
+  canceled: 'expired',
+  incomplete: 'inactive',
+  incomplete_expired: 'expired',
+};
+
+/**
+ * Looks subscriptions up with GET /v1/subscriptions/:id. Entitlements
+ * keyed by something other than a subscription ID (one-off checkout
+ * purchases) can't be looked up and come back as not found.
+ */
+export const stripeSubscriptions: SubscriptionSource = {
+  async connect(connection) {
+    const creds = connection.credentials
+      ? readCredentials<{ apiKey?: string }>(connection.credentials)
+      : null;
+    if (!creds?.apiKey) return null;
+
+    // Loaded here so the detection engine doesn't pull in the Stripe SDK
+    const { createStripeClient } = await import('../../ingestion/providers/stripe-api.js');
+    const stripe = createStripeClient(creds.apiKey);
+
+    return async (subscriptionId) => {
+      if (!subscriptionId.startsWith('sub_')) return null;
+
+      let sub: Stripe.Subscription;
+      try {
+        sub = await stripeReconciliationBreaker.execute(() => stripe.subscriptions.retrieve(subscriptionId));
+      } catch (err: any) {
+        if (err?.statusCode === 404) return null;
+        throw err;
+      }
+
+      return {
+        state: STRIPE_STATES[sub.status] ?? 'inactive',
+        status: sub.status,
+        currentPeriodEnd: sub.current_period_end ? new Date(sub.current_period_end * 1000) : null,
+      };
+    };
+  },
+};
@@ -0,0 +1,265 @@
+import { eq, and, asc, isNotNull } from 'drizzle-orm';
+import type { Database } from '../config/database.js';
+import { canonicalEvents, entitlements } from '../models/schema.js';
+import type { BillingSource, CanonicalEvent, Entitlement } from '../models/types.js';
+import { EntitlementEngine, type DerivedEntitlement } from './engine.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('entitlement-replay');
+
+/** Cap on per-entitlement diffs kept in a result (results are stored on the job). */
+const MAX_REPORTED_CHANGES = 500;
+
+export interface ReplayScope {
+  orgId: string;
+  userId?: string;
+  source?: BillingSource;
+}
+
+/** The entitlement fields a replay can change, in JSON-friendly form. */
+export interface EntitlementSnapshot {
+  state: string;
+  currentPeriodStart: string | null;
+  currentPeriodEnd: string | null;
+  lastEventId: string | null;
+  transitions: number;
+}
+
+export interface EntitlementChange {
+  /** null when the replay would create an entitlement that doesn't exist yet */
+  entitlementId: string | null;
+  userId: string;
+  productId: string;
+  source: string;
+  environment: string;
+  eventsReplayed: number;
+  before: EntitlementSnapshot | null;
+  after: EntitlementSnapshot;
+  changedFields: string[];
+}
+
+export interface ReplayResult {
+  dryRun: boolean;
+  usersScanned: number;
+  entitlementsScanned: number;
+  entitlementsChanged: number;
+  eventsReplayed: number;
+  changes: EntitlementChange[];
+  changesTruncated: boolean;
+  errors: string[];
+}
+
+/**
+ * Entitlement Rebuild
+ *
+ * Recomputes entitlements (state, period bounds, stateHistory) from the
+ * stored canonical events, replaying each user × product × source history
+ * in eventTime order through EntitlementEngine.deriveState. Used after a
+ * fix to STATE_TRANSITIONS or a normalizer, when existing rows are wrong.
+ *
+ * In dry-run mode nothing is written; the result lists which entitlements
+ * would change and how. Work is done one user at a time so org-wide
+ * rebuilds don't load the whole event table into memory.
+ */
+export class EntitlementReplayer {
+  private engine: EntitlementEngine;
+
+  constructor(private db: Database) {
+    this.engine = new EntitlementEngine(db);
+  }
+
+  async run(scope: ReplayScope, dryRun: boolean): Promise<ReplayResult> {
+    const result: ReplayResult = {
+      dryRun,
+      usersScanned: 0,
+      entitlementsScanned: 0,
+      entitlementsChanged: 0,
+      eventsReplayed: 0,
+      changes: [],
+      changesTruncated: false,
+      errors: [],
+    };
+
+    const userIds = scope.userId ? [scope.userId] : await this.findUserIds(scope);
+
+    for (const userId of userIds) {
+      try {
+        await this.replayUser(scope, userId, dryRun, result);
+        result.usersScanned++;
+      } catch (err: any) {
+        log.error({ err, orgId: scope.orgId, userId }, 'Entitlement replay failed for user');
+        result.errors.push(`User ${userId}: ${err.message}`);
+      }
+    }
+
+    log.info({
+      orgId: scope.orgId,
+      userId: scope.userId,
+      source: scope.source,
+      dryRun,
+      usersScanned: result.usersScanned,
+      entitlementsChanged: result.entitlementsChanged,
+      errors: result.errors.length,
+    }, 'Entitlement replay completed');
+
+    return result;
+  }
+
+  private async findUserIds(scope: ReplayScope): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ userId: canonicalEvents.userId })
+      .from(canonicalEvents)
+      .where(
+        and(
+          eq(canonicalEvents.orgId, scope.orgId),
+          isNotNull(canonicalEvents.userId),
+          isNotNull(canonicalEvents.productId),
+          scope.source ? eq(canonicalEvents.source, scope.source) : undefined,
+        ),
+      );
+
+    return rows.map(r => r.userId!).filter(Boolean);
+  }
+
+  private async replayUser(
+    scope: ReplayScope,
+    userId: string,
+    dryRun: boolean,
+    result: ReplayResult,
+  ): Promise<void> {
+    const events = await this.db
+      .select()
+      .from(canonicalEvents)
+      .where(
+        and(
+          eq(canonicalEvents.orgId, scope.orgId),
+          eq(canonicalEvents.userId, userId),
+          isNotNull(canonicalEvents.productId),
+          scope.source ? eq(canonicalEvents.source, scope.source) : undefined,
+        ),
+      )
+      .orderBy(asc(canonicalEvents.eventTime), asc(canonicalEvents.ingestedAt));
+
+    const existing = await this.db
+      .select()
+      .from(entitlements)
+      .where(
+        and(
+          eq(entitlements.orgId, scope.orgId),
+          eq(entitlements.userId, userId),
+          scope.source ? eq(entitlements.source, scope.source) : undefined,
+        ),
+      );
+
+    // Group events by entitlement key
+    const byKey = new Map<string, CanonicalEvent[]>();
+    for (const event of events) {
+      const key = `${event.productId}:${event.source}:${event.environment ?? 'production'}`;
+      const group = byKey.get(key) || [];
+      group.push(event);
+      byKey.set(key, group);
+    }
+
+    for (const [key, group] of byKey) {
+      const [productId, source, environment] = key.split(':');
+      const current = existing.find(
+        e => e.productId === productId && e.source === source && e.environment === environment,
+      );
+      const derived = this.engine.deriveState(group);
+
+      result.entitlementsScanned++;
+      result.eventsReplayed += group.length;
+
+      const before = current ? snapshotEntitlement(current) : null;
+      const after = snapshotDerived(derived);
+      const changedFields = diffSnapshots(before, after);
+      if (changedFields.length === 0) continue;
+
+      result.entitlementsChanged++;
+      if (result.changes.length < MAX_REPORTED_CHANGES) {
+        result.changes.push({
+          entitlementId: current?.id ?? null,
+          userId,
+          productId,
+          source,
+          environment,
+          eventsReplayed: group.length,
+          before,
+          after,
+          changedFields,
+        });
+      } else {
+        result.changesTruncated = true;
+      }
+
+      if (!dryRun) {
+        await this.writeEntitlement(scope.orgId, userId, group[0], derived);
+      }
+    }
+  }
+
+  private async writeEntitlement(
+    orgId: string,
+    userId: string,
+    sample: CanonicalEvent,
+    derived: DerivedEntitlement,
+  ): Promise<void> {
+    const fields = {
+      state: derived.state,
+      stateHistory: derived.stateHistory,
+      lastEventId: derived.lastEventId,
+      currentPeriodStart: derived.currentPeriodStart,
+      currentPeriodEnd: derived.currentPeriodEnd,
+      billingInterval: derived.billingInterval,
+      planTier: derived.planTier,
+      externalSubscriptionId: derived.externalSubscriptionId,
+      updatedAt: new Date(),
+    };
+
+    await this.db
+      .insert(entitlements)
+      .values({
+        orgId,
+        userId,
+        productId: sample.productId!,
+        source: sample.source,
+        environment: sample.environment ?? 'production',
+        ...fields,
+      })
+      .onConflictDoUpdate({
+        target: [
+          entitlements.orgId,
+          entitlements.userId,
+          entitlements.productId,
+          entitlements.source,
+          entitlements.environment,
+        ],
+        set: fields,
+      });
+  }
+}
+
+function snapshotEntitlement(ent: Entitlement): EntitlementSnapshot {
+  return {
+    state: ent.state,
+    currentPeriodStart: ent.currentPeriodStart?.toISOString() ?? null,
+    currentPeriodEnd: ent.currentPeriodEnd?.toISOString() ?? null,
+    lastEventId: ent.lastEventId,
+    transitions: Array.isArray(ent.stateHistory) ? ent.stateHistory.length : 0,
+  };
+}
+
+function snapshotDerived(derived: DerivedEntitlement): EntitlementSnapshot {
+  return {
+    state: derived.state,
+    currentPeriodStart: derived.currentPeriodStart?.toISOString() ?? null,
+    currentPeriodEnd: derived.currentPeriodEnd?.toISOString() ?? null,
+    lastEventId: derived.lastEventId,
+    transitions: derived.stateHistory.length,
+  };
+}
+
+function diffSnapshots(before: EntitlementSnapshot | null, after: EntitlementSnapshot): string[] {
+  if (!before) return Object.keys(after);
+  return (Object.keys(after) as (keyof EntitlementSnapshot)[]).filter(k => before[k] !== after[k]);
+}
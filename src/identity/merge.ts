@@ -0,0 +1,351 @@
+import { eq, and, gt, inArray, notInArray, sql } from 'drizzle-orm';
+import type { Database } from '../config/database.js';
+import {
+  users,
+  userIdentities,
+  canonicalEvents,
+  entitlements,
+  issues,
+  accessChecks,
+  appleConsumptionRequests,
+  alertMutes,
+} from '../models/schema.js';
+import type { Issue, User, UserIdentity } from '../models/types.js';
+import { issueFingerprint } from '../detection/fingerprint.js';
+import { EntitlementReplayer } from '../entitlement/replay.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('identity-merge');
+
+export interface MergeResult {
+  targetUserId: string;
+  mergedUserId: string;
+  identitiesMoved: number;
+  eventsMoved: number;
+  entitlementsMoved: number;
+  /** Entitlements both users had for the same product/source/environment, rebuilt from the combined events */
+  entitlementsRebuilt: number;
+  issuesMoved: number;
+  accessChecksMoved: number;
+  duplicateIssuesResolved: number;
+}
+
+export interface SplitResult {
+  userId: string;
+  newUserId: string;
+  identitiesMoved: number;
+  eventsMoved: number;
+  /** Sources whose events and entitlements followed the detached identities */
+  sourcesMoved: string[];
+  issuesMoved: number;
+}
+
+const ACTIVE_ISSUE_STATUSES: Issue['status'][] = ['open', 'acknowledged', 'snoozed'];
+
+/**
+ * Manual identity merge and split.
+ *
+ * Merge folds one user into another: identities, events, entitlements,
+ * issues, access checks, Apple consumption requests and alert mutes are
+ * re-pointed, and the folded user is deleted.
+ * Where both users had an entitlement for the same product × source ×
+ * environment, the target's is rebuilt from the combined event history.
+ * Moved issues take the target's fingerprint; one the target already has
+ * open is resolved as a duplicate.
+ *
+ * Split detaches identities into a new user. Events don't record which
+ * identity they came in on, so a source's events (and entitlements) move
+ * with the identities only when the original user keeps no other identity
+ * on that source; otherwise they stay put. Apple consumption requests
+ * and issues about a moved source follow its events. Active alert mutes
+ * apply to both users.
+ *
+ * Callers verify that the users and identities belong to the org.
+ */
+export class IdentityMergeService {
+  constructor(private db: Database) {}
+
+  async merge(orgId: string, target: User, source: User): Promise<MergeResult> {
+    const result = await this.db.transaction(async (tx) => {
+      const identitiesMoved = await tx
+        .update(userIdentities)
+        .set({ userId: target.id })
+        .where(and(eq(userIdentities.orgId, orgId), eq(userIdentities.userId, source.id)))
+        .returning({ id: userIdentities.id });
+
+      const eventsMoved = await tx
+        .update(canonicalEvents)
+        .set({ userId: target.id })
+        .where(and(eq(canonicalEvents.orgId, orgId), eq(canonicalEvents.userId, source.id)))
+        .returning({ id: canonicalEvents.id });
+
+      // Entitlements: move unless the target already has one for the same key
+      const [sourceEnts, targetEnts] = await Promise.all([
+        tx.select().from(entitlements)
+          .where(and(eq(entitlements.orgId, orgId), eq(entitlements.userId, source.id))),
+        tx.select().from(entitlements)
+          .where(and(eq(entitlements.orgId, orgId), eq(entitlements.userId, target.id))),
+      ]);
+      const targetKeys = new Set(targetEnts.map(e => `${e.productId}:${e.source}:${e.environment}`));
+      const conflicting = sourceEnts.filter(e => targetKeys.has(`${e.productId}:${e.source}:${e.environment}`));
+      const movable = sourceEnts.filter(e => !conflicting.includes(e));
+
+      if (conflicting.length > 0) {
+        await tx.delete(entitlements).where(inArray(entitlements.id, conflicting.map(e => e.id)));
+      }
+      if (movable.length > 0) {
+        await tx
+          .update(entitlements)
+          .set({ userId: target.id, updatedAt: new Date() })
+          .where(inArray(entitlements.id, movable.map(e => e.id)));
+      }
+
+      // Fingerprints name the user, so moved issues are re-fingerprinted for
+      // the target. An active one the target already has is closed in favour
+      // of the target's, keeping one active issue per fingerprint.
+      const [sourceIssues, targetActive] = await Promise.all([
+        tx.select().from(issues)
+          .where(and(eq(issues.orgId, orgId), eq(issues.userId, source.id))),
+        tx.select({ fingerprint: issues.fingerprint }).from(issues)
+          .where(
+            and(
+              eq(issues.orgId, orgId),
+              eq(issues.userId, target.id),
+              inArray(issues.status, ACTIVE_ISSUE_STATUSES),
+            ),
+          ),
+      ]);
+      const activeFingerprints = new Set(targetActive.map(i => i.fingerprint));
+
+      for (const issue of sourceIssues) {
+        const fingerprint = refingerprint(issue, target.id);
+        const active = ACTIVE_ISSUE_STATUSES.includes(issue.status);
+
+        if (active && fingerprint && activeFingerprints.has(fingerprint)) {
+          await tx
+            .update(issues)
+            .set({
+              userId: target.id,
+              fingerprint,
+              status: 'resolved',
+              resolvedAt: new Date(),
+              resolvedBy: 'system',
+              resolution: `Duplicate of an active issue on ${target.id} after merging users`,
+              snoozedUntil: null,
+              updatedAt: new Date(),
+            })
+            .where(eq(issues.id, issue.id));
+          continue;
+        }
+
+        await tx
+          .update(issues)
+          .set({ userId: target.id, fingerprint, updatedAt: new Date() })
+          .where(eq(issues.id, issue.id));
+        if (active) activeFingerprints.add(fingerprint);
+      }
+
+      const accessChecksMoved = await tx
+        .update(accessChecks)
+        .set({ userId: target.id })
+        .where(and(eq(accessChecks.orgId, orgId), eq(accessChecks.userId, source.id)))
+        .returning({ id: accessChecks.id });
+
+      await tx
+        .update(appleConsumptionRequests)
+        .set({ userId: target.id, updatedAt: new Date() })
+        .where(and(eq(appleConsumptionRequests.orgId, orgId), eq(appleConsumptionRequests.userId, source.id)));
+
+      await tx
+        .update(alertMutes)
+        .set({ userId: target.id })
+        .where(and(eq(alertMutes.orgId, orgId), eq(alertMutes.userId, source.id)));
+
+      // The review is done: close duplicate issues that named the merged user
+      const duplicateIssuesResolved = await tx
+        .update(issues)
+        .set({
+          status: 'resolved',
+          resolvedAt: new Date(),
+          resolvedBy: 'system',
+          resolution: `Merged user ${source.id} into ${target.id}`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(issues.orgId, orgId),
+            eq(issues.userId, target.id),
+            eq(issues.issueType, 'possible_duplicate_user'),
+            inArray(issues.status, ACTIVE_ISSUE_STATUSES),
+            sql`${issues.evidence}->'userIds' @> ${JSON.stringify([source.id])}::jsonb`,
+          ),
+        )
+        .returning({ id: issues.id });
+
+      await tx
+        .update(users)
+        .set({
+          email: target.email ?? source.email,
+          externalUserId: target.externalUserId ?? source.externalUserId,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, target.id));
+
+      await tx.delete(users).where(and(eq(users.orgId, orgId), eq(users.id, source.id)));
+
+      return {
+        targetUserId: target.id,
+        mergedUserId: source.id,
+        identitiesMoved: identitiesMoved.length,
+        eventsMoved: eventsMoved.length,
+        entitlementsMoved: movable.length,
+        entitlementsRebuilt: conflicting.length,
+        issuesMoved: sourceIssues.length,
+        accessChecksMoved: accessChecksMoved.length,
+        duplicateIssuesResolved: duplicateIssuesResolved.length,
+      };
+    });
+
+    if (result.entitlementsRebuilt > 0) {
+      await new EntitlementReplayer(this.db).run({ orgId, userId: target.id }, false);
+    }
+
+    log.info({ orgId, ...result }, 'Users merged');
+    return result;
+  }
+
+  async split(orgId: string, user: User, detached: UserIdentity[]): Promise<SplitResult> {
+    const detachedIds = detached.map(i => i.id);
+    const email = detached.find(i => i.idType === 'email')?.externalId;
+    const appUserId = detached.find(i => i.idType === 'app_user_id')?.externalId;
+
+    const result = await this.db.transaction(async (tx) => {
+      const kept = await tx
+        .select({ source: userIdentities.source })
+        .from(userIdentities)
+        .where(
+          and(
+            eq(userIdentities.orgId, orgId),
+            eq(userIdentities.userId, user.id),
+            notInArray(userIdentities.id, detachedIds),
+          ),
+        );
+      const keptSources = new Set(kept.map(k => k.source));
+      const sourcesMoved = [...new Set(detached.map(i => i.source))].filter(s => !keptSources.has(s));
+
+      const [newUser] = await tx
+        .insert(users)
+        .values({ orgId, email, externalUserId: appUserId })
+        .returning();
+
+      await tx
+        .update(userIdentities)
+        .set({ userId: newUser.id })
+        .where(inArray(userIdentities.id, detachedIds));
+
+      // A mute was set on the person both users were taken to be
+      const mutes = await tx
+        .select()
+        .from(alertMutes)
+        .where(
+          and(
+            eq(alertMutes.orgId, orgId),
+            eq(alertMutes.userId, user.id),
+            gt(alertMutes.mutedUntil, new Date()),
+          ),
+        );
+      if (mutes.length > 0) {
+        await tx.insert(alertMutes).values(
+          mutes.map(({ id: _id, createdAt: _createdAt, ...mute }) => ({ ...mute, userId: newUser.id })),
+        );
+      }
+
+      // The detached email / app user ID no longer describe the original user
+      if ((email && user.email === email) || (appUserId && user.externalUserId === appUserId)) {
+        await tx
+          .update(users)
+          .set({
+            email: user.email === email ? null : user.email,
+            externalUserId: user.externalUserId === appUserId ? null : user.externalUserId,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, user.id));
+      }
+
+      let eventsMoved = 0;
+      let issuesMoved = 0;
+      if (sourcesMoved.length > 0) {
+        const moved = await tx
+          .update(canonicalEvents)
+          .set({ userId: newUser.id })
+          .where(
+            and(
+              eq(canonicalEvents.orgId, orgId),
+              eq(canonicalEvents.userId, user.id),
+              inArray(canonicalEvents.source, sourcesMoved),
+            ),
+          )
+          .returning({ id: canonicalEvents.id });
+        eventsMoved = moved.length;
+
+        const sourceIssues = await tx
+          .select()
+          .from(issues)
+          .where(
+            and(
+              eq(issues.orgId, orgId),
+              eq(issues.userId, user.id),
+              inArray(sql`${issues.evidence}->>'source'`, sourcesMoved),
+            ),
+          );
+        for (const issue of sourceIssues) {
+          await tx
+            .update(issues)
+            .set({ userId: newUser.id, fingerprint: refingerprint(issue, newUser.id), updatedAt: new Date() })
+            .where(eq(issues.id, issue.id));
+        }
+        issuesMoved = sourceIssues.length;
+
+        if (sourcesMoved.includes('apple')) {
+          await tx
+            .update(appleConsumptionRequests)
+            .set({ userId: newUser.id, updatedAt: new Date() })
+            .where(and(eq(appleConsumptionRequests.orgId, orgId), eq(appleConsumptionRequests.userId, user.id)));
+        }
+
+        // Rebuilt for the new user below from the events that moved
+        await tx
+          .delete(entitlements)
+          .where(
+            and(
+              eq(entitlements.orgId, orgId),
+              eq(entitlements.userId, user.id),
+              inArray(entitlements.source, sourcesMoved),
+            ),
+          );
+      }
+
+      return {
+        userId: user.id,
+        newUserId: newUser.id,
+        identitiesMoved: detachedIds.length,
+        eventsMoved,
+        sourcesMoved,
+        issuesMoved,
+      };
+    });
+
+    if (result.eventsMoved > 0) {
+      await new EntitlementReplayer(this.db).run({ orgId, userId: result.newUserId }, false);
+    }
+
+    log.info({ orgId, ...result }, 'User split');
+    return result;
+  }
+}
+
+/** The issue's fingerprint once it belongs to another user; issues raised before fingerprinting keep none */
+function refingerprint(issue: Issue, userId: string): string | null {
+  if (!issue.fingerprint) return null;
+  return issueFingerprint(issue.detectorId, { issueType: issue.issueType, userId, evidence: issue.evidence as Record<string, unknown> });
+}
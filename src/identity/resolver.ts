@@ -1,11 +1,40 @@
-import { eq, and, inArray, asc } from 'drizzle-orm';
+import { eq, and, or, inArray, asc } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
-import { users, userIdentities } from '../models/schema.js';
-import type { IdentityHint, BillingSource } from '../models/types.js';
+import { users, userIdentities, issues } from '../models/schema.js';
+import type { IdentityHint, BillingSource, Issue } from '../models/types.js';
+import { dispatchAlert } from '../alerts/dispatcher.js';
+import { issueFingerprint } from '../detection/fingerprint.js';
+import { IdentityMergeService, type MergeResult } from './merge.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('identity-resolver');
 
+/** Issues raised by the resolver itself carry this as their detector */
+const DETECTOR_ID = 'identity-resolver';
+
+/** Customer-declared mapping of their app user ID to billing identifiers */
+export interface IdentifyInput {
+  appUserId: string;
+  email?: string;
+  stripeCustomerId?: string;
+  appleOriginalTransactionId?: string;
+  googlePurchaseToken?: string;
+  recurlyAccountCode?: string;
+}
+
+export interface IdentifyResult {
+  userId: string;
+  created: boolean;
+  /** Users that held some of the identifiers and were merged into userId */
+  merged: MergeResult[];
+  identities: Array<{ source: BillingSource; idType: string; externalId: string }>;
+}
+
+// Sources whose webhooks carry the app user ID / email as an identity hint,
+// so identify() can pre-link them before the first event arrives
+const APP_USER_ID_SOURCES: BillingSource[] = ['stripe', 'apple', 'google'];
+const EMAIL_SOURCES: BillingSource[] = ['stripe', 'recurly', 'braintree'];
+
 /**
  * Identity Resolution Service
  *
@@ -19,7 +48,8 @@ const log = createChildLogger('identity-resolver');
  *
  * Strategy:
  * 1. Check if any hint matches an existing identity → return that user
- * 2. If multiple hints match different users → merge (flag for review)
+ * 2. If multiple hints match different users → use the oldest user and
+ *    open a possible_duplicate_user issue so the customer can merge them
  * 3. If no match → create new user and store identities
  */
 export class IdentityResolver {
@@ -36,6 +66,7 @@ export class IdentityResolver {
 
     // 1. Try to find existing user from any hint
     const matchedUserIds = new Set<string>();
+    const matches: Array<IdentityHint & { userId: string }> = [];
     for (const hint of hints) {
       const existing = await this.db
         .select({ userId: userIdentities.userId })
@@ -51,6 +82,7 @@ export class IdentityResolver {
 
       if (existing.length > 0) {
         matchedUserIds.add(existing[0].userId);
+        matches.push({ ...hint, userId: existing[0].userId });
       }
     }
 
@@ -61,14 +93,13 @@ export class IdentityResolver {
       return userId;
     }
 
-    // 3. If multiple users found, we have a merge situation
-    //    For MVP: pick the oldest user and log a warning
+    // 3. If multiple users found, we have a merge situation:
+    //    attribute the event to the oldest user and flag the rest for review
     if (matchedUserIds.size > 1) {
       log.warn(
         { orgId, matchedUserIds: Array.from(matchedUserIds), hints },
         'Multiple users matched identity hints — possible duplicate accounts',
       );
-      // TODO: Create a merge issue for the customer to review
       const userIds = Array.from(matchedUserIds);
       const matchedUsers = await this.db
         .select()
@@ -84,6 +115,7 @@ export class IdentityResolver {
 
       const primaryUserId = matchedUsers[0].id;
       await this.linkNewIdentities(orgId, primaryUserId, hints);
+      await this.flagPossibleDuplicate(orgId, primaryUserId, userIds, matches);
       return primaryUserId;
     }
 
@@ -91,6 +123,80 @@ export class IdentityResolver {
     return this.createUser(orgId, hints);
   }
 
+  /**
+   * Open a possible_duplicate_user issue on the primary user, with the
+   * competing users and the identities that matched them as evidence.
+   * One open issue per primary user, fingerprinted like detector issues
+   * so merges and the unique index treat it the same. Failures are
+   * logged, never thrown, so ingestion carries on.
+   */
+  private async flagPossibleDuplicate(
+    orgId: string,
+    primaryUserId: string,
+    userIds: string[],
+    matches: Array<IdentityHint & { userId: string }>,
+  ): Promise<void> {
+    try {
+      const existing = await this.db
+        .select({ id: issues.id })
+        .from(issues)
+        .where(
+          and(
+            eq(issues.orgId, orgId),
+            eq(issues.userId, primaryUserId),
+            eq(issues.issueType, 'possible_duplicate_user'),
+            inArray(issues.status, ['open', 'acknowledged', 'snoozed']),
+          ),
+        )
+        .limit(1);
+
+      if (existing.length > 0) return;
+
+      const otherUserIds = userIds.filter(id => id !== primaryUserId);
+      const evidence = {
+        primaryUserId,
+        userIds,
+        otherUserIds,
+        matchedIdentities: matches.map(m => ({
+          source: m.source,
+          idType: m.idType,
+          externalId: m.externalId,
+          userId: m.userId,
+        })),
+      };
+      const [issue] = await this.db
+        .insert(issues)
+        .values({
+          orgId,
+          userId: primaryUserId,
+          issueType: 'possible_duplicate_user',
+          severity: 'warning',
+          title: `Possible duplicate user: identities match ${userIds.length} users`,
+          description: `A billing event carried identities that belong to ${userIds.length} different users. `
+            + 'It was attributed to the oldest user. If these are the same person, merge them; '
+            + 'otherwise split the shared identity off.',
+          estimatedRevenueCents: 0,
+          confidence: 0.7,
+          detectorId: DETECTOR_ID,
+          evidence,
+          fingerprint: issueFingerprint(DETECTOR_ID, {
+            issueType: 'possible_duplicate_user',
+            userId: primaryUserId,
+            evidence,
+          }),
+        })
+        .returning();
+
+      dispatchAlert(this.db, orgId, issue as Issue).catch((err) => {
+        log.error({ err, issueId: issue.id }, 'Failed to dispatch alert for duplicate user issue');
+      });
+    } catch (err: any) {
+      // Another event for the same users opened the issue first
+      if (err.code === '23505') return;
+      log.error({ err, orgId, primaryUserId }, 'Failed to flag possible duplicate user');
+    }
+  }
+
   private async createUser(orgId: string, hints: IdentityHint[]): Promise<string> {
     // Extract email if available
     const emailHint = hints.find(h => h.idType === 'email');
@@ -157,6 +263,107 @@ export class IdentityResolver {
       .onConflictDoNothing();
   }
 
+  /**
+   * Link a customer-declared set of identifiers to one canonical user.
+   *
+   * The app user ID is authoritative: the user it names (or the oldest
+   * user holding any of the identifiers) is kept, and every other user
+   * holding one of them is merged into it. Creates the user if none match.
+   */
+  async identify(orgId: string, input: IdentifyInput): Promise<IdentifyResult> {
+    const hints = this.identifyHints(input);
+
+    const byAppUserId = await this.db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.orgId, orgId), eq(users.externalUserId, input.appUserId)))
+      .orderBy(asc(users.createdAt));
+
+    const byIdentity = await this.db
+      .select({ userId: userIdentities.userId })
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.orgId, orgId),
+          or(...hints.map(h => and(
+            eq(userIdentities.source, h.source),
+            eq(userIdentities.externalId, h.externalId),
+          ))),
+        ),
+      );
+
+    const candidateIds = new Set([
+      ...byAppUserId.map(u => u.id),
+      ...byIdentity.map(r => r.userId),
+    ]);
+
+    if (candidateIds.size === 0) {
+      const userId = await this.createUser(orgId, hints);
+      return { userId, created: true, merged: [], identities: hints.map(toIdentity) };
+    }
+
+    const candidates = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.orgId, orgId), inArray(users.id, Array.from(candidateIds))))
+      .orderBy(asc(users.createdAt));
+
+    const primary = candidates.find(u => u.id === byAppUserId[0]?.id) ?? candidates[0];
+    const merged: MergeResult[] = [];
+    if (candidates.length > 1) {
+      const mergeService = new IdentityMergeService(this.db);
+      for (const other of candidates) {
+        if (other.id === primary.id) continue;
+        merged.push(await mergeService.merge(orgId, primary, other));
+      }
+    }
+
+    for (const hint of hints) {
+      await this.linkIdentity(orgId, primary.id, hint.source, hint.externalId, hint.idType);
+    }
+
+    if (primary.externalUserId !== input.appUserId || (input.email && !primary.email)) {
+      await this.db
+        .update(users)
+        .set({
+          externalUserId: input.appUserId,
+          email: primary.email ?? input.email,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, primary.id));
+    }
+
+    return { userId: primary.id, created: false, merged, identities: hints.map(toIdentity) };
+  }
+
+  private identifyHints(input: IdentifyInput): IdentityHint[] {
+    const hints: IdentityHint[] = APP_USER_ID_SOURCES.map(source => ({
+      source,
+      idType: 'app_user_id',
+      externalId: input.appUserId,
+    }));
+
+    if (input.email) {
+      for (const source of EMAIL_SOURCES) {
+        hints.push({ source, idType: 'email', externalId: input.email });
+      }
+    }
+    if (input.stripeCustomerId) {
+      hints.push({ source: 'stripe', idType: 'customer_id', externalId: input.stripeCustomerId });
+    }
+    if (input.appleOriginalTransactionId) {
+      hints.push({ source: 'apple', idType: 'original_transaction_id', externalId: input.appleOriginalTransactionId });
+    }
+    if (input.googlePurchaseToken) {
+      hints.push({ source: 'google', idType: 'purchase_token', externalId: input.googlePurchaseToken });
+    }
+    if (input.recurlyAccountCode) {
+      hints.push({ source: 'recurly', idType: 'account_code', externalId: input.recurlyAccountCode });
+    }
+
+    return hints;
+  }
+
   /**
    * Resolve a user by external ID — checks users.externalUserId,
    * then userIdentities.externalId, then users.email.
@@ -218,3 +425,7 @@ export class IdentityResolver {
       .where(eq(userIdentities.userId, userId));
   }
 }
+
+function toIdentity(hint: IdentityHint) {
+  return { source: hint.source, idType: hint.idType, externalId: hint.externalId };
+}
@@ -7,6 +7,7 @@ import { closeAllQueues } from './config/queue.js';
 import { createChildLogger } from './config/logger.js';
 import { createAuthMiddleware } from './middleware/auth.js';
 import { createWebhookRoutes } from './api/webhooks.js';
+import { createIncidentWebhookRoutes } from './api/incident-webhooks.js';
 import { createIssueRoutes } from './api/issues.js';
 import { createUserRoutes } from './api/users.js';
 import { createDashboardRoutes } from './api/dashboard.js';
@@ -17,12 +18,25 @@ import { createDataManagementRoutes } from './api/data-management.js';
 import { createAuditLogRoutes } from './api/audit-logs.js';
 import { createFirstLookRoutes } from './api/first-look.js';
 import { createWebhookLogRoutes } from './api/webhook-logs.js';
+import { createSettingsRoutes } from './api/settings.js';
+import { createProductRoutes } from './api/products.js';
+import { createDetectorRuleRoutes } from './api/detector-rules.js';
+import { createDetectorSettingsRoutes } from './api/detector-settings.js';
+import { createAlertMuteRoutes } from './api/alert-mutes.js';
 import { createDlqRoutes } from './queue/dlq.js';
 import { createQueueMonitorRoutes } from './queue/monitor.js';
 import { startWebhookWorker } from './queue/webhook-worker.js';
 import { startScanWorker } from './queue/scan-worker.js';
 import { startScanScheduler } from './queue/scan-scheduler.js';
 import { createScanRoutes } from './api/scans.js';
+import { createEntitlementReplayRoutes } from './api/entitlement-replay.js';
+import { createAppleConsumptionRoutes } from './api/apple-consumption.js';
+import { createGapRecoveryRoutes } from './api/gap-recovery.js';
+import { createFxRateRoutes } from './api/fx-rates.js';
+import { startReplayWorker } from './queue/replay-worker.js';
+import { startConsumptionWorker } from './queue/consumption-worker.js';
+import { startGapRecoveryWorker } from './queue/gap-recovery-worker.js';
+import { startReconciliationWorker, startReconciliationScheduler } from './queue/reconciliation-worker.js';
 import { createAiRoutes } from './api/ai.js';
 import { startAiWorker } from './agents/worker.js';
 import { registerNormalizer } from './ingestion/normalizer/base.js';
@@ -30,14 +44,19 @@ import { StripeNormalizer } from './ingestion/providers/stripe.js';
 import { AppleNormalizer } from './ingestion/providers/apple.js';
 import { RecurlyNormalizer } from './ingestion/providers/recurly.js';
 import { GoogleNormalizer } from './ingestion/providers/google.js';
+import { BraintreeNormalizer } from './ingestion/providers/braintree.js';
 import { createSlackRoutes, isSlackEnabled } from './slack/index.js';
 import { createMcpRoutes } from './mcp/transport.js';
 import { startWebhookDeliveryWorker } from './queue/webhook-delivery-worker.js';
 import { rateLimit } from './middleware/rate-limit.js';
 import { startRetentionWorker, startRetentionScheduler } from './queue/retention-worker.js';
+import { startAlertDigestWorker, startAlertDigestScheduler } from './queue/alert-digest-worker.js';
+import { startAlertEscalationWorker } from './queue/alert-escalation-worker.js';
+import { startIssueSnoozeWorker, startIssueSnoozeScheduler } from './queue/issue-snooze-worker.js';
 import { createHealthRoutes } from './api/health.js';
 import { createCircuitBreakerRoutes } from './api/admin-circuit-breakers.js';
 import { createDocsRoutes } from './api/docs.js';
+import { loadFxRatesFile } from './currency/fx.js';
 
 const log = createChildLogger('server');
 
@@ -50,6 +69,7 @@ registerNormalizer(new StripeNormalizer());
 registerNormalizer(new AppleNormalizer());
 registerNormalizer(new RecurlyNormalizer());
 registerNormalizer(new GoogleNormalizer());
+registerNormalizer(new BraintreeNormalizer());
 
 // Start queue workers
 startWebhookWorker();
@@ -62,10 +82,24 @@ if (enableScans) {
   startScanScheduler().catch((err) => {
     log.error({ err }, 'Failed to start scan scheduler — scheduled scans disabled');
   });
+  // Subscription reconciliation only does work for orgs that enable it
+  startReconciliationWorker();
+  startReconciliationScheduler().catch((err) => {
+    log.error({ err }, 'Failed to start reconciliation scheduler');
+  });
 } else {
   log.info('Scheduled scans disabled via ENABLE_SCHEDULED_SCANS=false');
 }
 
+// Start entitlement rebuild worker (jobs are only queued via the admin API)
+startReplayWorker();
+
+// Start Apple consumption response worker (jobs are queued on CONSUMPTION_REQUEST)
+startConsumptionWorker();
+
+// Start webhook gap recovery worker (jobs are queued when a webhook gap issue is raised)
+startGapRecoveryWorker();
+
 // Start AI investigation worker (only if ANTHROPIC_API_KEY is set)
 startAiWorker();
 
@@ -75,6 +109,29 @@ startRetentionScheduler().catch((err) => {
   log.error({ err }, 'Failed to start retention scheduler');
 });
 
+// Start batched alert and digest worker (batches are queued as issues are detected)
+startAlertDigestWorker();
+startAlertDigestScheduler().catch((err) => {
+  log.error({ err }, 'Failed to start alert digest scheduler');
+});
+
+// Start alert escalation worker (checks are queued when an alert has an escalation policy)
+startAlertEscalationWorker();
+
+// Start issue snooze worker (reopens snoozed issues when their snooze ends)
+// and the sweep that catches snoozes whose job was lost
+startIssueSnoozeWorker();
+startIssueSnoozeScheduler().catch((err) => {
+  log.error({ err }, 'Failed to start issue snooze sweep');
+});
+
+// Load shared FX rates for revenue conversion (org rates come via the admin API)
+if (process.env.FX_RATES_FILE) {
+  loadFxRatesFile(db, process.env.FX_RATES_FILE).catch((err) => {
+    log.error({ err }, 'Failed to load FX rates file');
+  });
+}
+
 // ─── App Setup ───────────────────────────────────────────────────────
 
 const app = new Hono();
@@ -105,6 +162,7 @@ app.route('/', healthRoutes);
 // Webhook endpoints (no API key auth — use provider signature verification)
 app.use('/webhooks/*', rateLimit('webhook'));
 app.route('/webhooks', createWebhookRoutes(db));
+app.route('/webhooks', createIncidentWebhookRoutes(db));
 
 // API documentation (public, no auth)
 app.route('/docs', createDocsRoutes());
@@ -128,16 +186,25 @@ api.route('/users', createUserRoutes(db));
 api.route('/dashboard', createDashboardRoutes(db));
 api.route('/first-look', createFirstLookRoutes(db));
 api.route('/alerts', createAlertRoutes(db));
+api.route('/alert-mutes', createAlertMuteRoutes(db));
 api.route('/access-checks', createAccessCheckRoutes(db));
 api.route('/data-management', createDataManagementRoutes(db));
 api.route('/webhook-logs', createWebhookLogRoutes(db));
 api.route('/audit-logs', createAuditLogRoutes(db));
+api.route('/settings', createSettingsRoutes(db));
+api.route('/products', createProductRoutes(db));
+api.route('/detector-rules', createDetectorRuleRoutes(db));
+api.route('/detector-settings', createDetectorSettingsRoutes(db));
 
 // Admin routes (also authenticated)
 api.route('/admin/dlq', createDlqRoutes());
 api.route('/admin/queues', createQueueMonitorRoutes());
 api.route('/admin/scans', createScanRoutes(db));
+api.route('/admin/entitlements', createEntitlementReplayRoutes(db));
 api.route('/admin/circuit-breakers', createCircuitBreakerRoutes());
+api.route('/admin/apple-consumption', createAppleConsumptionRoutes(db));
+api.route('/admin/gap-recovery', createGapRecoveryRoutes(db));
+api.route('/admin/fx-rates', createFxRateRoutes(db));
 
 app.route('/api/v1', api);
 
@@ -228,12 +295,19 @@ const server = serve({ fetch: app.fetch, port }, () => {
   log.info('  POST   /webhooks/:org/apple      → Apple webhooks (with proxy)');
   log.info('  POST   /webhooks/:org/recurly    → Recurly webhooks');
   log.info('  POST   /webhooks/:org/google     → Google Play webhooks');
+  log.info('  POST   /webhooks/:org/braintree  → Braintree webhooks');
+  log.info('  POST   /webhooks/:org/pagerduty/:id → PagerDuty incident sync');
+  log.info('  POST   /webhooks/:org/opsgenie/:id  → Opsgenie alert sync');
   log.info('  POST   /setup/recurly            → Connect Recurly');
   log.info('  POST   /setup/verify/recurly     → Verify Recurly connectivity');
   log.info('  POST   /setup/backfill/recurly   → Import Recurly history');
   log.info('  POST   /setup/google             → Connect Google Play');
   log.info('  POST   /setup/verify/google      → Verify Google Play connectivity');
   log.info('  POST   /setup/backfill/google    → Import Google Play history');
+  log.info('  POST   /setup/braintree          → Connect Braintree');
+  log.info('  POST   /setup/verify/braintree   → Verify Braintree connectivity');
+  log.info('  POST   /setup/backfill/braintree → Import Braintree history');
+  log.info('  POST   /setup/backfill/apple     → Import App Store history');
   log.info('  GET    /api/v1/first-look        → First Look report');
   log.info('  GET    /api/v1/issues            → Issue feed');
   log.info('  GET    /api/v1/issues/summary    → Issue summary');
@@ -0,0 +1,442 @@
+import { eq, and } from 'drizzle-orm';
+import * as jose from 'jose';
+import Redis from 'ioredis';
+import type { Database } from '../../config/database.js';
+import { billingConnections, userIdentities } from '../../models/schema.js';
+import { IngestionPipeline } from '../pipeline.js';
+import type { RawWebhookEvent } from '../../models/types.js';
+import { readCredentials } from '../../security/credentials.js';
+import { createChildLogger } from '../../config/logger.js';
+import { AppStoreServerClient } from '../providers/apple-api.js';
+import type { AppleCredentials, LastTransactionItem } from '../providers/apple-api.js';
+import type { BackfillProgress, BackfillResult } from './stripe-backfill.js';
+
+const log = createChildLogger('apple-backfill');
+
+/** Redis key for backfill progress */
+function progressKey(orgId: string): string {
+  return `backfill:apple:${orgId}`;
+}
+
+/** Decoded JWSTransaction (subset of fields we need). */
+interface DecodedTransaction {
+  transactionId: string;
+  originalTransactionId: string;
+  purchaseDate: number;
+  expiresDate?: number;
+  revocationDate?: number;
+}
+
+/** Decoded JWSRenewalInfo (subset of fields we need). */
+interface DecodedRenewalInfo {
+  autoRenewStatus?: number;
+  expirationIntent?: number;
+  signedDate?: number;
+}
+
+/** Maps Apple's expirationIntent to the EXPIRED notification subtype. */
+const EXPIRATION_INTENT_SUBTYPE: Record<number, string> = {
+  1: 'VOLUNTARY',
+  2: 'BILLING_RETRY',
+  3: 'PRICE_INCREASE',
+  4: 'PRODUCT_NOT_FOR_SALE',
+};
+
+/**
+ * Apple App Store Historical Backfill
+ *
+ * Apple has no "list all subscriptions" API, so backfill works from
+ * originalTransactionIds: those passed in by the customer plus every one
+ * we've already seen in user identities. For each one:
+ * 1. Walk the transaction history (oldest first) and synthesize
+ *    SUBSCRIBED / DID_RENEW / REFUND notifications per transaction
+ * 2. Fetch the current subscription statuses and synthesize the
+ *    notification that explains any non-active state (expired, billing
+ *    retry, grace period, revoked, auto-renew off)
+ *
+ * Synthetic notifications carry Apple's own signed transaction and renewal
+ * info, wrapped in an unsigned envelope, and go through the trusted pipeline.
+ * Notification UUIDs are derived from transaction IDs rather than the run,
+ * so re-running a backfill over the same history doesn't double-count renewals.
+ *
+ * All API calls wait on the shared Apple token bucket (appleApiRateLimiter).
+ * Progress is tracked in Redis so the frontend can poll for updates.
+ */
+export class AppleBackfill {
+  private pipeline: IngestionPipeline;
+  private redis: Redis | null = null;
+
+  constructor(private db: Database) {
+    this.pipeline = new IngestionPipeline(db);
+  }
+
+  /**
+   * Connect to Redis for progress tracking.
+   * Falls back gracefully if Redis is not available.
+   */
+  private async getRedis(): Promise<Redis | null> {
+    if (this.redis) return this.redis;
+    try {
+      const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+      this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 1, lazyConnect: true });
+      await this.redis.connect();
+      return this.redis;
+    } catch (err) {
+      log.warn({ err }, 'Redis not available, progress tracking disabled');
+      return null;
+    }
+  }
+
+  /**
+   * Update progress in Redis. Expires after 24 hours.
+   */
+  private async updateProgress(orgId: string, progress: Partial<BackfillProgress>): Promise<void> {
+    const redis = await this.getRedis();
+    if (!redis) return;
+
+    try {
+      const key = progressKey(orgId);
+      const existing = await redis.get(key);
+      const current: BackfillProgress = existing
+        ? JSON.parse(existing)
+        : {
+            status: 'queued',
+            phase: 'Initializing',
+            totalCustomers: 0,
+            importedCustomers: 0,
+            totalEvents: 0,
+            importedEvents: 0,
+            eventsCreated: 0,
+            issuesFound: 0,
+            errors: [],
+            startedAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            completedAt: null,
+            estimatedSecondsRemaining: null,
+            processingRatePerSecond: 0,
+          };
+
+      const updated = { ...current, ...progress, updatedAt: new Date().toISOString() };
+
+      // Calculate estimated time remaining
+      if (updated.status === 'importing_subscriptions' && updated.importedCustomers > 0) {
+        const elapsed = (Date.now() - new Date(updated.startedAt).getTime()) / 1000;
+        const rate = updated.importedCustomers / elapsed;
+        updated.processingRatePerSecond = Math.round(rate * 10) / 10;
+        const remaining = updated.totalCustomers - updated.importedCustomers;
+        updated.estimatedSecondsRemaining = Math.round(remaining / Math.max(rate, 0.1));
+      }
+
+      await redis.set(key, JSON.stringify(updated), 'EX', 86400); // 24h TTL
+    } catch (err) {
+      log.warn({ err }, 'Failed to update Apple backfill progress');
+    }
+  }
+
+  /**
+   * Get current progress from Redis.
+   */
+  static async getProgress(orgId: string): Promise<BackfillProgress | null> {
+    try {
+      const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+      const redis = new Redis(redisUrl, { maxRetriesPerRequest: 1, lazyConnect: true });
+      await redis.connect();
+      const key = progressKey(orgId);
+      const data = await redis.get(key);
+      await redis.quit();
+      return data ? JSON.parse(data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async run(orgId: string, originalTransactionIds: string[] = []): Promise<BackfillResult> {
+    const result: BackfillResult = {
+      subscriptionsProcessed: 0,
+      eventsProcessed: 0,
+      errors: [],
+      durationMs: 0,
+    };
+
+    const startTime = Date.now();
+    const lockKey = `backfill-lock:apple:${orgId}`;
+
+    // Acquire a Redis-based lock to prevent concurrent backfills for the same org
+    const redis = await this.getRedis();
+    if (redis) {
+      const acquired = await redis.set(lockKey, Date.now().toString(), 'EX', 3600, 'NX');
+      if (!acquired) {
+        throw new Error('Apple backfill already in progress for this organization');
+      }
+    }
+
+    try {
+      await this.updateProgress(orgId, {
+        status: 'counting',
+        phase: 'Connecting to the App Store Server API...',
+        startedAt: new Date().toISOString(),
+      });
+
+      // Get Apple credentials
+      const [conn] = await this.db
+        .select()
+        .from(billingConnections)
+        .where(
+          and(
+            eq(billingConnections.orgId, orgId),
+            eq(billingConnections.source, 'apple'),
+          ),
+        )
+        .limit(1);
+
+      if (!conn) {
+        await this.updateProgress(orgId, {
+          status: 'failed',
+          phase: 'Apple not connected',
+          errors: ['Apple not connected'],
+        });
+        throw new Error('Apple not connected');
+      }
+
+      const creds = readCredentials<AppleCredentials>(conn.credentials);
+
+      try {
+        const client = new AppStoreServerClient(creds);
+
+        // Phase 0: Merge supplied IDs with every originalTransactionId we already know
+        const known = await this.db
+          .select({ externalId: userIdentities.externalId })
+          .from(userIdentities)
+          .where(
+            and(
+              eq(userIdentities.orgId, orgId),
+              eq(userIdentities.source, 'apple'),
+              eq(userIdentities.idType, 'original_transaction_id'),
+            ),
+          );
+        const ids = [...new Set([...originalTransactionIds, ...known.map((k) => k.externalId)])];
+
+        await this.updateProgress(orgId, {
+          status: 'importing_subscriptions',
+          phase: `Importing ${ids.length} Apple subscriptions...`,
+          totalCustomers: ids.length,
+        });
+
+        // Phase 1: History + current status per subscription
+        log.info({ orgId, total: ids.length }, 'Starting Apple subscription backfill');
+        for (const originalTransactionId of ids) {
+          try {
+            await this.backfillSubscription(orgId, client, creds, originalTransactionId, result);
+            result.subscriptionsProcessed++;
+
+            // Update progress every 10 subscriptions to avoid Redis spam
+            if (result.subscriptionsProcessed % 10 === 0) {
+              await this.updateProgress(orgId, {
+                importedCustomers: result.subscriptionsProcessed,
+                importedEvents: result.eventsProcessed,
+              });
+            }
+          } catch (err: any) {
+            log.warn({ err, originalTransactionId }, 'Failed to backfill Apple subscription');
+            result.errors.push(`Transaction ${originalTransactionId}: ${err.message}`);
+          }
+        }
+
+        // Update sync status
+        await this.db
+          .update(billingConnections)
+          .set({
+            lastSyncAt: new Date(),
+            syncStatus: 'completed',
+          })
+          .where(eq(billingConnections.id, conn.id));
+
+        await this.updateProgress(orgId, {
+          status: 'completed',
+          phase: 'Import complete',
+          importedCustomers: result.subscriptionsProcessed,
+          totalCustomers: result.subscriptionsProcessed,
+          importedEvents: result.eventsProcessed,
+          totalEvents: result.eventsProcessed,
+          completedAt: new Date().toISOString(),
+          estimatedSecondsRemaining: 0,
+        });
+      } catch (err: any) {
+        log.error({ err, orgId }, 'Apple backfill failed');
+        result.errors.push(err.message);
+
+        await this.db
+          .update(billingConnections)
+          .set({ syncStatus: 'failed' })
+          .where(eq(billingConnections.id, conn.id));
+
+        await this.updateProgress(orgId, {
+          status: 'failed',
+          phase: `Failed: ${err.message}`,
+          errors: result.errors,
+        });
+      }
+
+      result.durationMs = Date.now() - startTime;
+      log.info({
+        orgId,
+        ...result,
+      }, 'Apple backfill completed');
+    } finally {
+      // Release the backfill lock
+      if (redis) {
+        await redis.del(lockKey).catch(() => {});
+      }
+
+      // Clean up Redis connection
+      if (this.redis) {
+        await this.redis.quit().catch(() => {});
+      }
+    }
+
+    return result;
+  }
+
+  private async backfillSubscription(
+    orgId: string,
+    client: AppStoreServerClient,
+    creds: AppleCredentials,
+    originalTransactionId: string,
+    result: BackfillResult,
+  ) {
+    // 1. Replay the transaction history in purchase order
+    const history = await client.getTransactionHistory(originalTransactionId);
+    for (const signedTransaction of history.signedTransactions) {
+      const transaction = jose.decodeJwt(signedTransaction) as unknown as DecodedTransaction;
+      const isInitial = transaction.transactionId === transaction.originalTransactionId;
+
+      await this.submit(orgId, creds, history.environment, {
+        notificationType: isInitial ? 'SUBSCRIBED' : 'DID_RENEW',
+        subtype: isInitial ? 'INITIAL_BUY' : undefined,
+        uuid: `backfill-${transaction.transactionId}-${isInitial ? 'subscribed' : 'renew'}`,
+        signedDate: transaction.purchaseDate,
+        signedTransactionInfo: signedTransaction,
+      });
+      result.eventsProcessed++;
+
+      if (transaction.revocationDate) {
+        await this.submit(orgId, creds, history.environment, {
+          notificationType: 'REFUND',
+          uuid: `backfill-${transaction.transactionId}-refund`,
+          signedDate: transaction.revocationDate,
+          signedTransactionInfo: signedTransaction,
+        });
+        result.eventsProcessed++;
+      }
+    }
+
+    // 2. Explain the current state of each subscription in the family
+    const statuses = await client.getAllSubscriptionStatuses(originalTransactionId);
+    for (const group of statuses.data || []) {
+      for (const item of group.lastTransactions || []) {
+        const submitted = await this.submitStatus(orgId, creds, statuses.environment, item);
+        if (submitted) result.eventsProcessed++;
+      }
+    }
+  }
+
+  /**
+   * Synthesize the notification Apple would have sent for a non-active
+   * subscription status. Returns false when the status needs no event
+   * (active and auto-renewing).
+   */
+  private async submitStatus(
+    orgId: string,
+    creds: AppleCredentials,
+    environment: string,
+    item: LastTransactionItem,
+  ): Promise<boolean> {
+    const transaction = jose.decodeJwt(item.signedTransactionInfo) as unknown as DecodedTransaction;
+    const renewalInfo = item.signedRenewalInfo
+      ? jose.decodeJwt(item.signedRenewalInfo) as unknown as DecodedRenewalInfo
+      : undefined;
+    const expiresAt = transaction.expiresDate ?? Date.now();
+
+    let notificationType: string;
+    let subtype: string | undefined;
+    let signedDate: number;
+
+    switch (item.status) {
+      case 2: // Expired
+        notificationType = 'EXPIRED';
+        subtype = EXPIRATION_INTENT_SUBTYPE[renewalInfo?.expirationIntent ?? 1] || 'VOLUNTARY';
+        signedDate = expiresAt;
+        break;
+      case 3: // Billing retry
+        notificationType = 'DID_FAIL_TO_RENEW';
+        signedDate = expiresAt;
+        break;
+      case 4: // Billing grace period
+        notificationType = 'DID_FAIL_TO_RENEW';
+        subtype = 'GRACE_PERIOD';
+        signedDate = expiresAt;
+        break;
+      case 5: // Revoked
+        notificationType = 'REVOKE';
+        signedDate = transaction.revocationDate ?? Date.now();
+        break;
+      default: // Active — only interesting if the user turned off auto-renew
+        if (renewalInfo?.autoRenewStatus !== 0) return false;
+        notificationType = 'DID_CHANGE_RENEWAL_STATUS';
+        subtype = 'AUTO_RENEW_DISABLED';
+        signedDate = renewalInfo.signedDate ?? Date.now();
+    }
+
+    await this.submit(orgId, creds, environment, {
+      notificationType,
+      subtype,
+      uuid: `backfill-${transaction.transactionId}-${notificationType.toLowerCase()}${subtype ? `-${subtype.toLowerCase()}` : ''}`,
+      signedDate,
+      signedTransactionInfo: item.signedTransactionInfo,
+      signedRenewalInfo: item.signedRenewalInfo,
+    });
+    return true;
+  }
+
+  /**
+   * Wrap Apple's signed transaction data in a notification envelope shaped
+   * like App Store Server Notifications V2 and feed it to the pipeline.
+   * The envelope is unsigned — processTrustedWebhook skips verification.
+   */
+  private async submit(
+    orgId: string,
+    creds: AppleCredentials,
+    environment: string,
+    notification: {
+      notificationType: string;
+      subtype?: string;
+      uuid: string;
+      signedDate: number;
+      signedTransactionInfo: string;
+      signedRenewalInfo?: string;
+    },
+  ) {
+    const signedPayload = new jose.UnsecuredJWT({
+      notificationType: notification.notificationType,
+      subtype: notification.subtype,
+      notificationUUID: notification.uuid,
+      version: '2.0',
+      signedDate: notification.signedDate,
+      data: {
+        bundleId: creds.bundleId,
+        environment,
+        signedTransactionInfo: notification.signedTransactionInfo,
+        signedRenewalInfo: notification.signedRenewalInfo,
+      },
+    }).encode();
+
+    const rawEvent: RawWebhookEvent = {
+      source: 'apple',
+      headers: {},
+      body: JSON.stringify({ signedPayload }),
+      receivedAt: new Date(),
+    };
+
+    await this.pipeline.processTrustedWebhook(orgId, 'apple', rawEvent);
+  }
+}
@@ -0,0 +1,386 @@
+import { eq, and } from 'drizzle-orm';
+import Redis from 'ioredis';
+import type { Database } from '../../config/database.js';
+import { billingConnections } from '../../models/schema.js';
+import { IngestionPipeline } from '../pipeline.js';
+import type { RawWebhookEvent } from '../../models/types.js';
+import { readCredentials } from '../../security/credentials.js';
+import { createChildLogger } from '../../config/logger.js';
+import { CircuitBreaker } from '../../security/circuit-breaker.js';
+import { buildBraintreeXml, parseBraintreeXml } from '../providers/braintree.js';
+import type { BackfillProgress, BackfillResult } from './stripe-backfill.js';
+
+const log = createChildLogger('braintree-backfill');
+
+/** Circuit breaker for Braintree API calls during backfill. */
+const braintreeBackfillBreaker = new CircuitBreaker('braintree-backfill-api', {
+  failureThreshold: 5,
+  resetTimeoutMs: 60_000,
+  halfOpenMaxAttempts: 3,
+});
+
+const BRAINTREE_BASE_URLS = {
+  production: 'https://api.braintreegateway.com',
+  sandbox: 'https://api.sandbox.braintreegateway.com',
+} as const;
+
+/** Braintree advanced search returns IDs in pages of this size. */
+const SEARCH_BATCH_SIZE = 50;
+
+/**
+ * Braintree Historical Backfill
+ *
+ * Pulls historical subscription data from the Braintree gateway API
+ * immediately after connection setup. Subscription IDs are collected via
+ * advanced search, then fetched in batches. For each subscription, a
+ * synthetic webhook notification is constructed (the same base64 XML
+ * envelope Braintree sends) and fed through the trusted ingestion pipeline.
+ *
+ * Progress is tracked in Redis so the frontend can poll for updates.
+ *
+ * MVP scope: subscription backfill only (no transaction history phase).
+ */
+
+/** Redis key for backfill progress */
+function progressKey(orgId: string): string {
+  return `backfill:braintree:${orgId}`;
+}
+
+/** Stored Braintree credentials. */
+export type BraintreeCredentials = {
+  merchantId: string;
+  publicKey: string;
+  privateKey: string;
+  environment: 'production' | 'sandbox';
+};
+
+/** Braintree subscription shape as parsed from XML (subset of fields we need). */
+interface BraintreeSubscription {
+  id: string;
+  status: string;
+  planId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: unknown;
+}
+
+/** Maps Braintree subscription status to the notification kind it implies. */
+const STATUS_TO_KIND: Record<string, string> = {
+  'Active': 'subscription_went_active',
+  'Pending': 'subscription_went_active',
+  'Past Due': 'subscription_went_past_due',
+  'Canceled': 'subscription_canceled',
+  'Expired': 'subscription_expired',
+};
+
+/**
+ * Make an authenticated request to the Braintree gateway XML API.
+ * Shared with onboarding, which uses it to validate credentials.
+ */
+export async function braintreeFetch(
+  creds: BraintreeCredentials,
+  path: string,
+  body?: string,
+): Promise<Record<string, unknown>> {
+  const baseUrl = BRAINTREE_BASE_URLS[creds.environment] || BRAINTREE_BASE_URLS.production;
+  const auth = Buffer.from(`${creds.publicKey}:${creds.privateKey}`).toString('base64');
+
+  const response = await fetch(`${baseUrl}/merchants/${creds.merchantId}${path}`, {
+    method: body !== undefined ? 'POST' : 'GET',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+      'X-ApiVersion': '6',
+      'Accept': 'application/xml',
+      'Content-Type': 'application/xml',
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Braintree API error ${response.status}: ${text}`);
+  }
+
+  return parseBraintreeXml(await response.text());
+}
+
+export class BraintreeBackfill {
+  private pipeline: IngestionPipeline;
+  private redis: Redis | null = null;
+
+  constructor(private db: Database) {
+    this.pipeline = new IngestionPipeline(db);
+  }
+
+  /**
+   * Connect to Redis for progress tracking.
+   * Falls back gracefully if Redis is not available.
+   */
+  private async getRedis(): Promise<Redis | null> {
+    if (this.redis) return this.redis;
+    try {
+      const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+      this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 1, lazyConnect: true });
+      await this.redis.connect();
+      return this.redis;
+    } catch (err) {
+      log.warn({ err }, 'Redis not available, progress tracking disabled');
+      return null;
+    }
+  }
+
+  /**
+   * Update progress in Redis. Expires after 24 hours.
+   */
+  private async updateProgress(orgId: string, progress: Partial<BackfillProgress>): Promise<void> {
+    const redis = await this.getRedis();
+    if (!redis) return;
+
+    try {
+      const key = progressKey(orgId);
+      const existing = await redis.get(key);
+      const current: BackfillProgress = existing
+        ? JSON.parse(existing)
+        : {
+            status: 'queued',
+            phase: 'Initializing',
+            totalCustomers: 0,
+            importedCustomers: 0,
+            totalEvents: 0,
+            importedEvents: 0,
+            eventsCreated: 0,
+            issuesFound: 0,
+            errors: [],
+            startedAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            completedAt: null,
+            estimatedSecondsRemaining: null,
+            processingRatePerSecond: 0,
+          };
+
+      const updated = { ...current, ...progress, updatedAt: new Date().toISOString() };
+
+      // Calculate estimated time remaining
+      if (updated.status === 'importing_subscriptions' && updated.importedCustomers > 0) {
+        const elapsed = (Date.now() - new Date(updated.startedAt).getTime()) / 1000;
+        const rate = updated.importedCustomers / elapsed;
+        updated.processingRatePerSecond = Math.round(rate * 10) / 10;
+        const remaining = updated.totalCustomers - updated.importedCustomers;
+        updated.estimatedSecondsRemaining = Math.round(remaining / Math.max(rate, 0.1));
+      }
+
+      await redis.set(key, JSON.stringify(updated), 'EX', 86400); // 24h TTL
+    } catch (err) {
+      log.warn({ err }, 'Failed to update backfill progress');
+    }
+  }
+
+  /**
+   * Get current progress from Redis.
+   */
+  static async getProgress(orgId: string): Promise<BackfillProgress | null> {
+    try {
+      const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+      const redis = new Redis(redisUrl, { maxRetriesPerRequest: 1, lazyConnect: true });
+      await redis.connect();
+      const key = progressKey(orgId);
+      const data = await redis.get(key);
+      await redis.quit();
+      return data ? JSON.parse(data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async run(orgId: string): Promise<BackfillResult> {
+    const result: BackfillResult = {
+      subscriptionsProcessed: 0,
+      eventsProcessed: 0,
+      errors: [],
+      durationMs: 0,
+    };
+
+    const startTime = Date.now();
+    const lockKey = `backfill-lock:braintree:${orgId}`;
+
+    // Acquire a Redis-based lock to prevent concurrent backfills for the same org
+    const redis = await this.getRedis();
+    if (redis) {
+      const acquired = await redis.set(lockKey, Date.now().toString(), 'EX', 3600, 'NX');
+      if (!acquired) {
+        throw new Error('Braintree backfill already in progress for this organization');
+      }
+    }
+
+    try {
+      await this.updateProgress(orgId, {
+        status: 'counting',
+        phase: 'Connecting to Braintree and counting records...',
+        startedAt: new Date().toISOString(),
+      });
+
+      // Get Braintree credentials
+      const [conn] = await this.db
+        .select()
+        .from(billingConnections)
+        .where(
+          and(
+            eq(billingConnections.orgId, orgId),
+            eq(billingConnections.source, 'braintree'),
+          ),
+        )
+        .limit(1);
+
+      if (!conn) {
+        await this.updateProgress(orgId, {
+          status: 'failed',
+          phase: 'Braintree not connected',
+          errors: ['Braintree not connected'],
+        });
+        throw new Error('Braintree not connected');
+      }
+
+      const creds = readCredentials<BraintreeCredentials>(conn.credentials);
+
+      try {
+        // Phase 0: Collect all subscription IDs (this also gives us an exact count)
+        log.info({ orgId }, 'Searching Braintree subscriptions');
+        const searchResult = await braintreeBackfillBreaker.execute(() =>
+          braintreeFetch(creds, '/subscriptions/advanced_search_ids', '<search></search>'),
+        );
+        const ids = toArray<string>((searchResult.searchResults as Record<string, unknown> | undefined)?.ids);
+
+        await this.updateProgress(orgId, {
+          status: 'importing_subscriptions',
+          phase: 'Importing subscriptions from Braintree...',
+          totalCustomers: ids.length,
+        });
+
+        // Phase 1: Backfill subscriptions
+        log.info({ orgId, total: ids.length }, 'Starting Braintree subscription backfill');
+        await this.backfillSubscriptions(orgId, creds, ids, result);
+
+        // No Phase 2 for Braintree MVP (no notification history API)
+
+        // Update sync status
+        await this.db
+          .update(billingConnections)
+          .set({
+            lastSyncAt: new Date(),
+            syncStatus: 'completed',
+          })
+          .where(eq(billingConnections.id, conn.id));
+
+        await this.updateProgress(orgId, {
+          status: 'completed',
+          phase: 'Import complete',
+          importedCustomers: result.subscriptionsProcessed,
+          totalCustomers: result.subscriptionsProcessed,
+          completedAt: new Date().toISOString(),
+          estimatedSecondsRemaining: 0,
+        });
+      } catch (err: any) {
+        log.error({ err, orgId }, 'Braintree backfill failed');
+        result.errors.push(err.message);
+
+        await this.db
+          .update(billingConnections)
+          .set({ syncStatus: 'failed' })
+          .where(eq(billingConnections.id, conn.id));
+
+        await this.updateProgress(orgId, {
+          status: 'failed',
+          phase: `Failed: ${err.message}`,
+          errors: result.errors,
+        });
+      }
+
+      result.durationMs = Date.now() - startTime;
+      log.info({
+        orgId,
+        ...result,
+      }, 'Braintree backfill completed');
+    } finally {
+      // Release the backfill lock
+      if (redis) {
+        await redis.del(lockKey).catch(() => {});
+      }
+
+      // Clean up Redis connection
+      if (this.redis) {
+        await this.redis.quit().catch(() => {});
+      }
+    }
+
+    return result;
+  }
+
+  private async backfillSubscriptions(
+    orgId: string,
+    creds: BraintreeCredentials,
+    ids: string[],
+    result: BackfillResult,
+  ) {
+    for (let offset = 0; offset < ids.length; offset += SEARCH_BATCH_SIZE) {
+      const batch = ids.slice(offset, offset + SEARCH_BATCH_SIZE);
+      const searchBody = buildBraintreeXml('search', { ids: batch });
+
+      const response = await braintreeBackfillBreaker.execute(() =>
+        braintreeFetch(creds, '/subscriptions/advanced_search', searchBody),
+      );
+      const subscriptions = toArray<BraintreeSubscription>(
+        (response.subscriptions as Record<string, unknown> | undefined)?.subscription,
+      );
+
+      for (const sub of subscriptions) {
+        try {
+          const kind = STATUS_TO_KIND[sub.status];
+          if (!kind) {
+            log.debug({ subId: sub.id, status: sub.status }, 'Skipping Braintree subscription with unknown status');
+            continue;
+          }
+
+          // Synthesize the notification Braintree would have sent for this state
+          const notificationXml = buildBraintreeXml('notification', {
+            kind,
+            timestamp: sub.updatedAt || sub.createdAt || new Date().toISOString(),
+            subject: { subscription: sub },
+          });
+          const form = new URLSearchParams({
+            bt_signature: '',
+            bt_payload: Buffer.from(notificationXml).toString('base64'),
+          });
+
+          const rawEvent: RawWebhookEvent = {
+            source: 'braintree',
+            headers: {},
+            body: form.toString(),
+            receivedAt: new Date(),
+          };
+
+          await this.pipeline.processTrustedWebhook(orgId, 'braintree', rawEvent);
+          result.subscriptionsProcessed++;
+
+          // Update progress every 10 subscriptions to avoid Redis spam
+          if (result.subscriptionsProcessed % 10 === 0) {
+            await this.updateProgress(orgId, {
+              importedCustomers: result.subscriptionsProcessed,
+            });
+          }
+        } catch (err: any) {
+          log.warn({ err, subId: sub.id }, 'Failed to backfill Braintree subscription');
+          result.errors.push(`Sub ${sub.id}: ${err.message}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Braintree XML collapses single-element collections into a scalar;
+ * normalize to an array either way.
+ */
+function toArray<T>(value: unknown): T[] {
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value as T[] : [value as T];
+}
@@ -50,6 +50,7 @@ interface RecurlySubscription {
   current_period_ends_at: string;
   trial_started_at: string | null;
   trial_ends_at: string | null;
+  add_ons?: Array<{ add_on: { code: string; name: string }; quantity: number }>;
 }
 
 /** Recurly list API response envelope. */
@@ -339,6 +340,7 @@ export class RecurlyBackfill {
               current_period_ends_at: sub.current_period_ends_at,
               trial_started_at: sub.trial_started_at,
               trial_ends_at: sub.trial_ends_at,
+              add_ons: sub.add_ons,
             },
           };
 
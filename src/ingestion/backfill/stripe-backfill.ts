@@ -7,6 +7,7 @@ import { IngestionPipeline } from '../pipeline.js';
 import type { RawWebhookEvent } from '../../models/types.js';
 import { readCredentials } from '../../security/credentials.js';
 import { createChildLogger } from '../../config/logger.js';
+import { createStripeClient } from '../providers/stripe-api.js';
 import { CircuitBreaker } from '../../security/circuit-breaker.js';
 
 const log = createChildLogger('stripe-backfill');
@@ -210,7 +211,7 @@ export class StripeBackfill {
       }
 
       const creds = readCredentials<{ apiKey: string }>(conn.credentials);
-      const stripe = new Stripe(creds.apiKey);
+      const stripe = createStripeClient(creds.apiKey);
 
       try {
         // Phase 0: Count total subscriptions for progress bar
@@ -1,14 +1,20 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc, isNotNull } from 'drizzle-orm';
 import type { Database } from '../config/database.js';
 import { canonicalEvents, webhookLogs, products, billingConnections } from '../models/schema.js';
 import type { NormalizedEvent, RawWebhookEvent, BillingSource } from '../models/types.js';
+import { getOrgSettings } from '../config/org-settings.js';
 import { getNormalizer } from './normalizer/base.js';
 import { IdentityResolver } from '../identity/resolver.js';
 import { EntitlementEngine } from '../entitlement/engine.js';
 import { IssueDetectionEngine } from '../detection/engine.js';
+import { ProductCatalog } from '../products/catalog.js';
+import { ProceedsCalculator } from './proceeds.js';
 import { sanitizePayload } from '../security/sanitize.js';
 import { readCredentials } from '../security/credentials.js';
 import { GoogleNormalizer } from './providers/google.js';
+import { AppleNormalizer } from './providers/apple.js';
+import { AppleConsumptionResponder } from './providers/apple-consumption.js';
+import { enqueueConsumptionResponse } from '../queue/consumption-worker.js';
 import { createChildLogger } from '../config/logger.js';
 
 const log = createChildLogger('ingestion-pipeline');
@@ -17,21 +23,28 @@ const log = createChildLogger('ingestion-pipeline');
  * The main ingestion pipeline. Processes raw webhook events through:
  * 1. Signature verification
  * 2. Event normalization
- * 3. Identity resolution
- * 4. Product resolution
- * 5. Canonical event storage
- * 6. Entitlement state updates
- * 7. Issue detection
+ * 3. Proceeds (net of tax and fees)
+ * 4. Identity resolution
+ * 5. Product resolution
+ * 6. Canonical event storage
+ * 7. Entitlement state updates
+ * 8. Issue detection
  */
 export class IngestionPipeline {
   private identityResolver: IdentityResolver;
   private entitlementEngine: EntitlementEngine;
   private issueDetectionEngine: IssueDetectionEngine;
+  private productCatalog: ProductCatalog;
+  private proceeds: ProceedsCalculator;
+  private consumptionResponder: AppleConsumptionResponder;
 
   constructor(private db: Database) {
     this.identityResolver = new IdentityResolver(db);
     this.entitlementEngine = new EntitlementEngine(db);
     this.issueDetectionEngine = new IssueDetectionEngine(db);
+    this.productCatalog = new ProductCatalog(db);
+    this.proceeds = new ProceedsCalculator(db);
+    this.consumptionResponder = new AppleConsumptionResponder(db);
   }
 
   /**
@@ -72,13 +85,42 @@ export class IngestionPipeline {
   }
 
   /**
-   * Core webhook processing logic shared between sync and queue paths.
+   * Process a notification recovered from the provider's API after a
+   * webhook delivery gap. It's logged like a delivery, linked to the gap
+   * issue when there is one, and skips signature verification since it
+   * came from an authenticated API call. Already-stored events are skipped
+   * by their idempotency keys.
+   */
+  async processRecoveredWebhook(
+    orgId: string,
+    source: BillingSource,
+    rawEvent: RawWebhookEvent,
+    recoveryIssueId: string | null,
+  ): Promise<{ processed: number; skipped: number; errors: string[] }> {
+    const [webhookLog] = await this.db
+      .insert(webhookLogs)
+      .values({
+        orgId,
+        source,
+        rawHeaders: rawEvent.headers,
+        rawBody: rawEvent.body,
+        processingStatus: 'received',
+        recoveryIssueId,
+      })
+      .returning();
+
+    return this.processWebhookWithLog(orgId, source, rawEvent, webhookLog.id, { trusted: true });
+  }
+
+  /**
+   * Core webhook processing logic shared between sync, queue and recovery paths.
    */
   private async processWebhookWithLog(
     orgId: string,
     source: BillingSource,
     rawEvent: RawWebhookEvent,
     webhookLogId: string,
+    options: { trusted?: boolean } = {},
   ): Promise<{ processed: number; skipped: number; errors: string[] }> {
     const result = { processed: 0, skipped: 0, errors: [] as string[] };
 
@@ -96,7 +138,7 @@ export class IngestionPipeline {
 
       // 2. Verify signature
       const normalizer = getNormalizer(source);
-      if (connection.webhookSecret) {
+      if (connection.webhookSecret && !options.trusted) {
         const valid = await normalizer.verifySignature(rawEvent, connection.webhookSecret);
         if (!valid) {
           throw new Error('Webhook signature verification failed');
@@ -115,8 +157,33 @@ export class IngestionPipeline {
         }
       }
 
+      // 2c. Apple consumption requests are answered, not stored as events
+      if (normalizer instanceof AppleNormalizer) {
+        const consumptionRequest = await normalizer.decodeConsumptionRequest(rawEvent);
+        if (consumptionRequest) {
+          const record = await this.consumptionResponder.receive(orgId, consumptionRequest);
+          if (record?.status === 'pending') {
+            await enqueueConsumptionResponse({ orgId, requestId: record.id });
+          }
+          await this.db
+            .update(webhookLogs)
+            .set({
+              processingStatus: 'processed',
+              eventType: 'consumption_request',
+              externalEventId: consumptionRequest.notificationUUID,
+              processedAt: new Date(),
+            })
+            .where(eq(webhookLogs.id, webhookLogId));
+          result.processed = 1;
+          return result;
+        }
+      }
+
       // 3. Normalize into canonical events
-      const normalized = await normalizer.normalize(orgId, rawEvent);
+      const normalized = await this.filterSandboxEvents(
+        orgId,
+        await normalizer.normalize(orgId, rawEvent),
+      );
 
       if (normalized.length === 0) {
         await this.db
@@ -127,7 +194,8 @@ export class IngestionPipeline {
         return result;
       }
 
-      // 4. Process each normalized event
+      // 4. Work out net proceeds, then process each normalized event
+      await this.proceeds.apply(orgId, normalized);
       for (const event of normalized) {
         try {
           await this.processNormalizedEvent(event);
@@ -199,13 +267,17 @@ export class IngestionPipeline {
         }
       }
 
-      const normalized = await normalizer.normalize(orgId, rawEvent);
+      const normalized = await this.filterSandboxEvents(
+        orgId,
+        await normalizer.normalize(orgId, rawEvent),
+      );
 
       if (normalized.length === 0) {
         result.skipped = 1;
         return result;
       }
 
+      await this.proceeds.apply(orgId, normalized);
       for (const event of normalized) {
         try {
           await this.processNormalizedEvent(event);
@@ -223,6 +295,21 @@ export class IngestionPipeline {
     return result;
   }
 
+  /**
+   * Drop sandbox events when the org has opted out of storing them.
+   * Settings are only read when the batch actually contains sandbox events.
+   */
+  private async filterSandboxEvents(orgId: string, events: NormalizedEvent[]): Promise<NormalizedEvent[]> {
+    if (!events.some((e) => e.environment === 'sandbox')) return events;
+
+    const settings = await getOrgSettings(this.db, orgId);
+    if (!settings.dropSandboxEvents) return events;
+
+    const kept = events.filter((e) => e.environment !== 'sandbox');
+    log.debug({ orgId, dropped: events.length - kept.length }, 'Dropped sandbox events per org settings');
+    return kept;
+  }
+
   private async processNormalizedEvent(event: NormalizedEvent): Promise<void> {
     // 1. Resolve user identity
     let userId: string | undefined;
@@ -231,10 +318,7 @@ export class IngestionPipeline {
     }
 
     // 2. Resolve product
-    let productId: string | undefined;
-    if (event.rawPayload) {
-      productId = await this.resolveProduct(event.orgId, event.source, event.rawPayload);
-    }
+    const productId = await this.resolveProduct(event);
 
     // 3. Store canonical event with atomic idempotency via ON CONFLICT DO NOTHING
     const inserted = await this.db
@@ -249,11 +333,23 @@ export class IngestionPipeline {
         status: event.status,
         amountCents: event.amountCents,
         currency: event.currency,
+        taxCents: event.taxCents,
+        feeCents: event.feeCents,
         externalEventId: event.externalEventId,
         externalSubscriptionId: event.externalSubscriptionId,
         billingInterval: event.billingInterval,
         planTier: event.planTier,
         trialStartedAt: event.trialStartedAt,
+        proceedsCents: event.proceedsCents,
+        originalTransactionId: event.originalTransactionId,
+        subscriptionGroupId: event.subscriptionGroupId,
+        periodType: event.periodType,
+        expirationTime: event.expirationTime,
+        gracePeriodExpiration: event.gracePeriodExpiration,
+        cancellationReason: event.cancellationReason,
+        isFamilyShare: event.isFamilyShare,
+        environment: event.environment,
+        countryCode: event.countryCode,
         idempotencyKey: event.idempotencyKey,
         rawPayload: sanitizePayload(event.source, event.rawPayload),
         processedAt: new Date(),
@@ -288,52 +384,77 @@ export class IngestionPipeline {
 
   /**
    * Resolve product from raw payload.
-   * Matches external product IDs to our canonical products.
+   * Matches external product IDs to our canonical products. Events that
+   * carry no product reference (e.g. Recurly payment notifications) take
+   * the product of earlier events on the same subscription.
    */
-  private async resolveProduct(
-    orgId: string,
-    source: BillingSource,
-    rawPayload: Record<string, unknown>,
-  ): Promise<string | undefined> {
-    let externalProductId: string | undefined;
-
-    if (source === 'stripe') {
-      const obj = (rawPayload as any)?.data?.object;
+  private async resolveProduct(event: NormalizedEvent): Promise<string | undefined> {
+    const { orgId, source } = event;
+    const rawPayload = event.rawPayload as any;
+    let externalProductId = event.externalProductId;
+
+    if (externalProductId) {
+      // Set by the normalizer
+    } else if (source === 'stripe') {
+      const obj = rawPayload?.data?.object;
       externalProductId =
         obj?.items?.data?.[0]?.price?.product ||
         obj?.lines?.data?.[0]?.price?.product;
     } else if (source === 'apple') {
-      externalProductId = (rawPayload as any)?.transaction?.productId;
+      externalProductId = rawPayload?.transaction?.productId;
     } else if (source === 'google') {
-      externalProductId = (rawPayload as any)?.productId;
+      externalProductId = rawPayload?.productId;
+    } else if (source === 'recurly') {
+      externalProductId = rawPayload?.subscription?.plan?.code;
+    } else if (source === 'braintree') {
+      const subject = rawPayload?.subject;
+      externalProductId = subject?.subscription?.planId || subject?.transaction?.planId;
     }
 
-    if (!externalProductId) return undefined;
-
-    // Search products by external ID in the jsonb field
-    const allProducts = await this.db
-      .select()
-      .from(products)
-      .where(eq(products.orgId, orgId));
-
-    for (const product of allProducts) {
-      const extIds = product.externalIds as Record<string, string>;
-      if (extIds[source] === externalProductId) {
-        return product.id;
-      }
+    if (!externalProductId) {
+      return event.externalSubscriptionId
+        ? this.productForSubscription(orgId, source, event.externalSubscriptionId)
+        : undefined;
     }
 
-    // Auto-create product if not found (for onboarding ease)
+    const existing = await this.productCatalog.findByExternalId(orgId, source, externalProductId);
+    if (existing) return existing.id;
+
+    // Auto-create product if not found (for onboarding ease). It shows up
+    // as unmapped until someone names it or merges it into a real product.
     const [newProduct] = await this.db
       .insert(products)
       .values({
         orgId,
         name: externalProductId,
-        externalIds: { [source]: externalProductId },
+        externalIds: { [source]: [externalProductId] },
+        autoCreated: true,
       })
       .returning();
 
     log.info({ orgId, productId: newProduct.id, externalProductId }, 'Auto-created product from event');
     return newProduct.id;
   }
+
+  private async productForSubscription(
+    orgId: string,
+    source: BillingSource,
+    externalSubscriptionId: string,
+  ): Promise<string | undefined> {
+    const [previous] = await this.db
+      .select({ productId: canonicalEvents.productId })
+      .from(canonicalEvents)
+      .where(
+        and(
+          eq(canonicalEvents.orgId, orgId),
+          eq(canonicalEvents.source, source),
+          eq(canonicalEvents.externalSubscriptionId, externalSubscriptionId),
+          isNotNull(canonicalEvents.productId),
+        ),
+      )
+      .orderBy(desc(canonicalEvents.eventTime))
+      .limit(1);
+
+    return previous?.productId ?? undefined;
+  }
 }
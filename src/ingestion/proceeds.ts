@@ -0,0 +1,84 @@
+import { and, eq } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import type { Database } from '../config/database.js';
+import { billingConnections } from '../models/schema.js';
+import type { NormalizedEvent, OrgSettings } from '../models/types.js';
+import { getOrgSettings } from '../config/org-settings.js';
+import { connectStripeFees, type StripeFeeLookup } from './providers/stripe-fees.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('proceeds');
+
+/** The app stores' standard commission */
+export const STANDARD_COMMISSION_RATE = 0.3;
+
+/** Subscriptions past their first year (Apple), all subscriptions (Google), small business programs */
+export const REDUCED_COMMISSION_RATE = 0.15;
+
+/**
+ * Works out what the org keeps from each charge: proceeds are the gross
+ * less tax and fees. App store commission comes from the rate the
+ * normalizer picked, lowered for orgs in a small business program; Stripe
+ * fees come from the charge's balance transaction. Tax and fees the source
+ * doesn't report count as zero, with taxCents or feeCents left unset.
+ */
+export class ProceedsCalculator {
+  constructor(private db: Database) {}
+
+  /** Set feeCents and proceedsCents on a payload's events, in place */
+  async apply(orgId: string, events: NormalizedEvent[]): Promise<void> {
+    let settings: OrgSettings | undefined;
+    let stripeFees: StripeFeeLookup | null | undefined;
+
+    for (const event of events) {
+      if (event.amountCents == null) continue;
+      const taxed = event.amountCents - (event.taxCents ?? 0);
+
+      if (event.feeCents === undefined && event.commissionRate !== undefined) {
+        settings ??= await getOrgSettings(this.db, orgId);
+        const reduced = event.source === 'apple' || event.source === 'google'
+          ? settings.smallBusinessProgram?.[event.source]
+          : false;
+        const rate = reduced ? Math.min(event.commissionRate, REDUCED_COMMISSION_RATE) : event.commissionRate;
+        event.feeCents = Math.round(taxed * rate);
+      } else if (event.feeCents === undefined && event.source === 'stripe' && event.status === 'success') {
+        if (stripeFees === undefined) stripeFees = await this.connectStripe(orgId);
+        if (stripeFees) event.feeCents = (await this.stripeFee(stripeFees, event)) ?? undefined;
+      }
+
+      event.proceedsCents = taxed - (event.feeCents ?? 0);
+    }
+  }
+
+  private async connectStripe(orgId: string): Promise<StripeFeeLookup | null> {
+    const [connection] = await this.db
+      .select()
+      .from(billingConnections)
+      .where(
+        and(
+          eq(billingConnections.orgId, orgId),
+          eq(billingConnections.source, 'stripe'),
+          eq(billingConnections.isActive, true),
+        ),
+      )
+      .limit(1);
+    if (!connection) return null;
+
+    try {
+      return await connectStripeFees(connection);
+    } catch (err) {
+      log.warn({ err, orgId }, 'Failed to connect to Stripe for fee lookups');
+      return null;
+    }
+  }
+
+  /** A failed lookup leaves the fee unknown rather than failing ingestion */
+  private async stripeFee(lookup: StripeFeeLookup, event: NormalizedEvent): Promise<number | null> {
+    try {
+      return await lookup(event.rawPayload as unknown as Stripe.Event);
+    } catch (err) {
+      log.warn({ err, orgId: event.orgId, externalEventId: event.externalEventId }, 'Failed to look up Stripe fee');
+      return null;
+    }
+  }
+}
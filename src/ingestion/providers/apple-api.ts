@@ -0,0 +1,233 @@
+import * as jose from 'jose';
+import { createChildLogger } from '../../config/logger.js';
+import { CircuitBreaker } from '../../security/circuit-breaker.js';
+import { appleApiRateLimiter } from '../../queue/rate-limiter.js';
+
+const log = createChildLogger('apple-api');
+
+/** Circuit breaker for App Store Server API calls. */
+const appleApiBreaker = new CircuitBreaker('apple-server-api', {
+  failureThreshold: 5,
+  resetTimeoutMs: 60_000,
+  halfOpenMaxAttempts: 3,
+});
+
+const APPLE_API_BASE_URLS = {
+  production: 'https://api.storekit.itunes.apple.com',
+  sandbox: 'https://api.storekit-sandbox.itunes.apple.com',
+} as const;
+
+/** Stored Apple credentials (see POST /setup/apple). */
+export type AppleCredentials = {
+  keyId: string;
+  issuerId: string;
+  bundleId: string;
+  privateKey?: string;
+  originalNotificationUrl?: string;
+};
+
+/** GET /inApps/v2/history/{transactionId} response. */
+export interface TransactionHistoryResponse {
+  revision: string;
+  hasMore: boolean;
+  bundleId: string;
+  environment: string;
+  signedTransactions: string[];
+}
+
+/** One subscription in a GET /inApps/v1/subscriptions/{transactionId} response. */
+export interface LastTransactionItem {
+  /** 1 active, 2 expired, 3 billing retry, 4 grace period, 5 revoked */
+  status: number;
+  originalTransactionId: string;
+  signedTransactionInfo: string;
+  signedRenewalInfo?: string;
+}
+
+/** GET /inApps/v1/subscriptions/{transactionId} response. */
+export interface SubscriptionStatusesResponse {
+  environment: string;
+  bundleId: string;
+  data: Array<{
+    subscriptionGroupIdentifier: string;
+    lastTransactions: LastTransactionItem[];
+  }>;
+}
+
+/** POST /inApps/v1/notifications/history response. */
+export interface NotificationHistoryResponse {
+  hasMore: boolean;
+  paginationToken?: string;
+  notificationHistory: Array<{
+    signedPayload: string;
+    sendAttempts?: Array<{ attemptDate: number; sendAttemptResult: string }>;
+  }>;
+}
+
+/**
+ * PUT /inApps/v1/transactions/consumption/{transactionId} request body.
+ * Every numeric field uses 0 for "undeclared"; the other values are
+ * Apple's ranges (see the ConsumptionRequest docs).
+ */
+export interface ConsumptionInfo {
+  accountTenure: number;
+  appAccountToken: string;
+  consumptionStatus: number;
+  customerConsented: boolean;
+  deliveryStatus: number;
+  lifetimeDollarsPurchased: number;
+  lifetimeDollarsRefunded: number;
+  platform: number;
+  playTime: number;
+  refundPreference: number;
+  sampleContentProvided: boolean;
+  userStatus: number;
+}
+
+/**
+ * App Store Server API client.
+ *
+ * Signs requests with an ES256 JWT built from the org's App Store Connect
+ * API key, waits on the shared Apple token bucket before every request,
+ * and routes calls through a circuit breaker.
+ *
+ * Apple recommends calling production first and retrying against sandbox
+ * when a transaction isn't found, so 404s fall back to sandbox. Setting
+ * APPLE_API_BASE_URL pins every call to one host (e.g. a local mock server).
+ */
+export class AppStoreServerClient {
+  private token: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(private creds: AppleCredentials) {
+    if (!creds.privateKey) {
+      throw new Error('Apple private key not configured — required for App Store Server API access');
+    }
+  }
+
+  /**
+   * Get the full transaction history for a subscription, following
+   * pagination. Only auto-renewable subscription transactions are returned,
+   * oldest first.
+   */
+  async getTransactionHistory(originalTransactionId: string): Promise<{ environment: string; signedTransactions: string[] }> {
+    const signedTransactions: string[] = [];
+    let environment = 'Production';
+    let revision: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ sort: 'ASCENDING', productType: 'AUTO_RENEWABLE' });
+      if (revision) params.set('revision', revision);
+
+      const page = await this.request<TransactionHistoryResponse>(
+        `/inApps/v2/history/${encodeURIComponent(originalTransactionId)}?${params}`,
+      );
+      signedTransactions.push(...(page.signedTransactions || []));
+      environment = page.environment || environment;
+      revision = page.hasMore ? page.revision : undefined;
+    } while (revision);
+
+    return { environment, signedTransactions };
+  }
+
+  /** Get the current status of every subscription in the transaction's family. */
+  async getAllSubscriptionStatuses(originalTransactionId: string): Promise<SubscriptionStatusesResponse> {
+    return this.request<SubscriptionStatusesResponse>(
+      `/inApps/v1/subscriptions/${encodeURIComponent(originalTransactionId)}`,
+    );
+  }
+
+  /**
+   * Get every notification Apple sent (or tried to send) between two
+   * dates, following pagination, as signed payloads. Apple keeps 180 days
+   * of history.
+   */
+  async getNotificationHistory(startDate: Date, endDate: Date): Promise<string[]> {
+    const signedPayloads: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const query = paginationToken ? `?paginationToken=${encodeURIComponent(paginationToken)}` : '';
+      const page = await this.request<NotificationHistoryResponse>(
+        `/inApps/v1/notifications/history${query}`,
+        { method: 'POST', body: { startDate: startDate.getTime(), endDate: endDate.getTime() } },
+      );
+      signedPayloads.push(...(page.notificationHistory || []).map(n => n.signedPayload));
+      paginationToken = page.hasMore ? page.paginationToken : undefined;
+    } while (paginationToken);
+
+    return signedPayloads;
+  }
+
+  /**
+   * Send consumption information for a transaction Apple asked about in a
+   * CONSUMPTION_REQUEST notification. Apple answers 202 with no body.
+   */
+  async sendConsumptionInformation(transactionId: string, info: ConsumptionInfo): Promise<void> {
+    await this.request<Record<string, never>>(
+      `/inApps/v1/transactions/consumption/${encodeURIComponent(transactionId)}`,
+      { method: 'PUT', body: info },
+    );
+  }
+
+  private async request<T>(path: string, init?: { method?: string; body?: unknown }): Promise<T> {
+    const override = process.env.APPLE_API_BASE_URL;
+    const baseUrls = override
+      ? [override]
+      : [APPLE_API_BASE_URLS.production, APPLE_API_BASE_URLS.sandbox];
+
+    let lastError: Error | null = null;
+    for (const baseUrl of baseUrls) {
+      await appleApiRateLimiter.consume();
+
+      const token = await this.getToken();
+      const response = await appleApiBreaker.execute(() =>
+        fetch(`${baseUrl}${path}`, {
+          method: init?.method || 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Accept': 'application/json',
+            ...(init?.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          },
+          body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+        }),
+      );
+
+      if (response.ok) {
+        const text = await response.text();
+        return (text ? JSON.parse(text) : {}) as T;
+      }
+
+      const body = await response.text().catch(() => '');
+      lastError = new Error(`App Store Server API error ${response.status}: ${body}`);
+
+      // Not found in production — the transaction may belong to sandbox
+      if (response.status !== 404) break;
+      log.debug({ path, baseUrl }, 'Not found in App Store environment, trying next');
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Build (or reuse) the ES256 bearer token. Apple accepts tokens valid for
+   * up to 60 minutes; we issue 20-minute tokens and refresh 5 minutes early.
+   */
+  private async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.tokenExpiresAt - 300_000) {
+      return this.token;
+    }
+
+    const privateKey = await jose.importPKCS8(this.creds.privateKey!, 'ES256');
+    this.token = await new jose.SignJWT({ bid: this.creds.bundleId })
+      .setProtectedHeader({ alg: 'ES256', kid: this.creds.keyId, typ: 'JWT' })
+      .setIssuer(this.creds.issuerId)
+      .setIssuedAt()
+      .setExpirationTime('20m')
+      .setAudience('appstoreconnect-v1')
+      .sign(privateKey);
+    this.tokenExpiresAt = Date.now() + 20 * 60_000;
+
+    return this.token;
+  }
+}
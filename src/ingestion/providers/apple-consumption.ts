@@ -0,0 +1,338 @@
+import { eq, and, gte, lte, sql } from 'drizzle-orm';
+import type { Database } from '../../config/database.js';
+import {
+  appleConsumptionRequests,
+  billingConnections,
+  canonicalEvents,
+  accessChecks,
+  userIdentities,
+} from '../../models/schema.js';
+import type {
+  AppleConsumptionRequest,
+  AppleConsumptionSettings,
+  AppleConsumptionStatus,
+} from '../../models/types.js';
+import { getOrgSettings } from '../../config/org-settings.js';
+import { readCredentials } from '../../security/credentials.js';
+import { CurrencyConverter } from '../../currency/fx.js';
+import { DEFAULT_CURRENCY } from '../../currency/format.js';
+import { AppStoreServerClient, type AppleCredentials, type ConsumptionInfo } from './apple-api.js';
+import type { ConsumptionRequestNotification } from './apple.js';
+import { createChildLogger } from '../../config/logger.js';
+
+const log = createChildLogger('apple-consumption');
+
+/** Apple ignores consumption data sent more than 12 hours after the request */
+const RESPONSE_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+/** Access checks are counted in 5-minute windows to estimate play time */
+const PLAY_WINDOW_MINUTES = 5;
+
+const REFUND_PREFERENCES: Record<NonNullable<AppleConsumptionSettings['refundPreference']>, number> = {
+  decline: 1,
+  grant: 2,
+  no_preference: 3,
+};
+
+/**
+ * Answers Apple CONSUMPTION_REQUEST notifications — Apple's request for
+ * usage data before it decides a customer's refund request.
+ *
+ * receive() records the request and assembles the consumption data from
+ * the customer's canonical events and access checks; send() delivers it to
+ * the App Store Server API. Orgs opt in through the `appleConsumption`
+ * setting, which must also record their customers' consent; requests that
+ * arrive without both are recorded as skipped.
+ */
+export class AppleConsumptionResponder {
+  constructor(private db: Database) {}
+
+  /**
+   * Record a consumption request. Returns the record, which is `pending`
+   * when it should be sent. Apple retries deliveries: a notification
+   * already recorded gives null, unless its record is still pending (the
+   * earlier delivery may have failed before it was queued).
+   */
+  async receive(
+    orgId: string,
+    request: ConsumptionRequestNotification,
+  ): Promise<AppleConsumptionRequest | null> {
+    const { appleConsumption: settings } = await getOrgSettings(this.db, orgId);
+    const skipReason = skipReasonFor(settings, request);
+
+    const [identity] = await this.db
+      .select({ userId: userIdentities.userId })
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.orgId, orgId),
+          eq(userIdentities.source, 'apple'),
+          eq(userIdentities.externalId, request.originalTransactionId),
+        ),
+      )
+      .limit(1);
+    const userId = identity?.userId ?? null;
+
+    const consumptionData = skipReason
+      ? null
+      : await this.assemble(orgId, userId, request, settings!);
+
+    const [record] = await this.db
+      .insert(appleConsumptionRequests)
+      .values({
+        orgId,
+        userId,
+        notificationUuid: request.notificationUUID,
+        transactionId: request.transactionId,
+        originalTransactionId: request.originalTransactionId,
+        externalProductId: request.productId,
+        reason: request.reason,
+        environment: request.environment,
+        status: skipReason ? 'skipped' : 'pending',
+        skipReason,
+        consumptionData,
+        requestedAt: request.signedDate,
+        deadlineAt: new Date(request.signedDate.getTime() + RESPONSE_WINDOW_MS),
+      })
+      .onConflictDoNothing({
+        target: [appleConsumptionRequests.orgId, appleConsumptionRequests.notificationUuid],
+      })
+      .returning();
+
+    if (!record) {
+      const [existing] = await this.db
+        .select()
+        .from(appleConsumptionRequests)
+        .where(
+          and(
+            eq(appleConsumptionRequests.orgId, orgId),
+            eq(appleConsumptionRequests.notificationUuid, request.notificationUUID),
+          ),
+        )
+        .limit(1);
+      if (existing?.status === 'pending') {
+        log.info({ orgId, requestId: existing.id }, 'Redelivered consumption request still pending');
+        return existing;
+      }
+      log.debug({ orgId, notificationUuid: request.notificationUUID }, 'Duplicate consumption request, skipping');
+      return null;
+    }
+
+    log.info({
+      orgId,
+      requestId: record.id,
+      transactionId: request.transactionId,
+      reason: request.reason,
+      status: record.status,
+      skipReason,
+    }, 'Apple consumption request recorded');
+
+    return record;
+  }
+
+  /**
+   * Send a pending request's consumption data to Apple. Failures are
+   * recorded and rethrown so the queue retries them until the deadline.
+   */
+  async send(requestId: string): Promise<AppleConsumptionRequest | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(appleConsumptionRequests)
+      .where(eq(appleConsumptionRequests.id, requestId))
+      .limit(1);
+
+    if (!record || (record.status !== 'pending' && record.status !== 'failed')) {
+      return record;
+    }
+
+    if (Date.now() > record.deadlineAt.getTime()) {
+      log.warn({ requestId, deadlineAt: record.deadlineAt }, 'Apple consumption request expired before it was sent');
+      return this.update(requestId, 'expired');
+    }
+
+    const [conn] = await this.db
+      .select()
+      .from(billingConnections)
+      .where(and(eq(billingConnections.orgId, record.orgId), eq(billingConnections.source, 'apple')))
+      .limit(1);
+
+    const creds = conn?.credentials ? readCredentials<AppleCredentials>(conn.credentials) : null;
+    if (!creds?.privateKey) {
+      return this.update(requestId, 'skipped', { skipReason: 'no_api_key' });
+    }
+
+    try {
+      const client = new AppStoreServerClient(creds);
+      await client.sendConsumptionInformation(record.transactionId, record.consumptionData as ConsumptionInfo);
+    } catch (err: any) {
+      await this.update(requestId, 'failed', {
+        errorMessage: err.message,
+        attempts: record.attempts + 1,
+      });
+      throw err;
+    }
+
+    log.info({ orgId: record.orgId, requestId, transactionId: record.transactionId }, 'Apple consumption data sent');
+    return this.update(requestId, 'sent', {
+      errorMessage: null,
+      attempts: record.attempts + 1,
+      sentAt: new Date(),
+    });
+  }
+
+  /**
+   * Build Apple's ConsumptionRequest body from what we know about the
+   * customer. Anything we have no data for is sent as 0 (undeclared).
+   */
+  async assemble(
+    orgId: string,
+    userId: string | null,
+    request: ConsumptionRequestNotification,
+    settings: AppleConsumptionSettings,
+  ): Promise<ConsumptionInfo> {
+    const info: ConsumptionInfo = {
+      accountTenure: 0,
+      appAccountToken: request.appAccountToken ?? '',
+      consumptionStatus: 0,
+      customerConsented: settings.customerConsented === true,
+      deliveryStatus: 0,
+      lifetimeDollarsPurchased: 0,
+      lifetimeDollarsRefunded: 0,
+      // We can't tell which device the customer used the purchase on
+      platform: 0,
+      playTime: 0,
+      refundPreference: settings.refundPreference ? REFUND_PREFERENCES[settings.refundPreference] : 0,
+      sampleContentProvided: settings.sampleContentProvided ?? false,
+      userStatus: 0,
+    };
+    if (!userId) return info;
+
+    // Lifetime spend across every billing source, per currency; Apple
+    // wants it in US dollars
+    const spendByCurrency = await this.db
+      .select({
+        currency: canonicalEvents.currency,
+        firstEventAt: sql<Date | null>`min(${canonicalEvents.eventTime})`,
+        purchasedCents: sql<number>`coalesce(sum(${canonicalEvents.amountCents}) filter (
+          where ${canonicalEvents.status} = 'success' and ${canonicalEvents.eventType} in ('purchase', 'renewal', 'upgrade')
+        ), 0)`,
+        refundedCents: sql<number>`coalesce(sum(${canonicalEvents.amountCents}) filter (
+          where ${canonicalEvents.eventType} in ('refund', 'chargeback')
+        ), 0)`,
+      })
+      .from(canonicalEvents)
+      .where(and(eq(canonicalEvents.orgId, orgId), eq(canonicalEvents.userId, userId)))
+      .groupBy(canonicalEvents.currency);
+
+    // Usage while the refunded transaction was in force
+    const from = request.purchaseDate ?? new Date(0);
+    const to = request.expiresDate && request.expiresDate < new Date() ? request.expiresDate : new Date();
+    const inPeriod = and(gte(accessChecks.reportedAt, from), lte(accessChecks.reportedAt, to));
+    const [usage] = await this.db
+      .select({
+        totalChecks: sql<number>`count(*)`,
+        playWindows: sql<number>`count(distinct floor(extract(epoch from ${accessChecks.reportedAt}) / ${PLAY_WINDOW_MINUTES * 60})) filter (
+          where ${accessChecks.hasAccess} and ${inPeriod}
+        )`,
+        deniedChecks: sql<number>`count(*) filter (where not ${accessChecks.hasAccess} and ${inPeriod})`,
+      })
+      .from(accessChecks)
+      .where(and(eq(accessChecks.orgId, orgId), eq(accessChecks.userId, userId)));
+
+    info.userStatus = 1;
+    const spend = await this.usdSpend(orgId, spendByCurrency);
+    if (spend.firstEventAt) {
+      const days = (Date.now() - spend.firstEventAt.getTime()) / 86_400_000;
+      info.accountTenure = accountTenureBucket(days);
+    }
+    info.lifetimeDollarsPurchased = dollarsBucket(spend.purchasedCents);
+    info.lifetimeDollarsRefunded = dollarsBucket(spend.refundedCents);
+
+    // Without access-check integration we know nothing about usage
+    if (Number(usage?.totalChecks ?? 0) > 0) {
+      const playWindows = Number(usage.playWindows);
+      info.playTime = playTimeBucket(playWindows * PLAY_WINDOW_MINUTES);
+      info.consumptionStatus = playWindows === 0
+        ? 1 // not consumed
+        : request.expiresDate && request.expiresDate < new Date() ? 3 : 2; // fully / partially
+      // Access denied while paid for: content wasn't delivered
+      info.deliveryStatus = Number(usage.deniedChecks) > 0 ? 5 : 0;
+    }
+
+    return info;
+  }
+
+  /**
+   * Total per-currency spend in US cents at today's rates. Amounts in a
+   * currency without a rate are left out rather than counted as dollars.
+   */
+  private async usdSpend(
+    orgId: string,
+    rows: Array<{ currency: string | null; firstEventAt: Date | null; purchasedCents: number; refundedCents: number }>,
+  ): Promise<{ firstEventAt: Date | null; purchasedCents: number; refundedCents: number }> {
+    const converter = new CurrencyConverter(this.db);
+    const toUsd = async (cents: number, currency: string) =>
+      (await converter.convert(orgId, cents, currency, DEFAULT_CURRENCY)) ?? 0;
+
+    const total = { firstEventAt: null as Date | null, purchasedCents: 0, refundedCents: 0 };
+    for (const row of rows) {
+      const currency = row.currency ?? DEFAULT_CURRENCY;
+      if (row.firstEventAt) {
+        const first = new Date(row.firstEventAt);
+        if (!total.firstEventAt || first < total.firstEventAt) total.firstEventAt = first;
+      }
+      total.purchasedCents += await toUsd(Number(row.purchasedCents), currency);
+      total.refundedCents += await toUsd(Number(row.refundedCents), currency);
+    }
+    return total;
+  }
+
+  private async update(
+    requestId: string,
+    status: AppleConsumptionStatus,
+    fields: Partial<Pick<AppleConsumptionRequest, 'skipReason' | 'errorMessage' | 'attempts' | 'sentAt'>> = {},
+  ): Promise<AppleConsumptionRequest> {
+    const [record] = await this.db
+      .update(appleConsumptionRequests)
+      .set({ status, ...fields, updatedAt: new Date() })
+      .where(eq(appleConsumptionRequests.id, requestId))
+      .returning();
+    return record;
+  }
+}
+
+function skipReasonFor(
+  settings: AppleConsumptionSettings | undefined,
+  request: ConsumptionRequestNotification,
+): string | null {
+  if (!settings?.enabled) return 'not_enabled';
+  if (!settings.customerConsented) return 'no_consent';
+  if (settings.reasons && (!request.reason || !settings.reasons.includes(request.reason))) {
+    return 'reason_excluded';
+  }
+  return null;
+}
+
+// ─── Apple's value ranges ───────────────────────────────────────────
+
+/** Days since the customer's first event → accountTenure (1–7) */
+export function accountTenureBucket(days: number): number {
+  const upperBounds = [3, 10, 30, 90, 180, 365];
+  const index = upperBounds.findIndex(bound => days < bound);
+  return index === -1 ? 7 : index + 1;
+}
+
+/** Minutes of use → playTime (1–7) */
+export function playTimeBucket(minutes: number): number {
+  const upperBounds = [5, 60, 6 * 60, 24 * 60, 4 * 24 * 60, 16 * 24 * 60];
+  const index = upperBounds.findIndex(bound => minutes < bound);
+  return index === -1 ? 7 : index + 1;
+}
+
+/** Cents → lifetimeDollarsPurchased / lifetimeDollarsRefunded (1–7) */
+export function dollarsBucket(cents: number): number {
+  if (cents <= 0) return 1;
+  const upperBounds = [5_000, 10_000, 50_000, 100_000, 200_000];
+  const index = upperBounds.findIndex(bound => cents < bound);
+  return index === -1 ? 7 : index + 2;
+}
@@ -2,16 +2,25 @@ import * as jose from 'jose';
 import type { EventNormalizer } from '../normalizer/base.js';
 import type {
   BillingSource,
+  CancellationReason,
   EventType,
   EventStatus,
   NormalizedEvent,
+  PeriodType,
   RawWebhookEvent,
   IdentityHint,
+  AppleConsumptionRequestReason,
+  BillingEnvironment,
 } from '../../models/types.js';
+import { minorUnitDigits } from '../../currency/format.js';
+import { STANDARD_COMMISSION_RATE, REDUCED_COMMISSION_RATE } from '../proceeds.js';
 import { createChildLogger } from '../../config/logger.js';
 
 const log = createChildLogger('apple-normalizer');
 
+/** Subscriptions move to the reduced commission after a year of paid service */
+const REDUCED_COMMISSION_AFTER_MS = 365 * 24 * 60 * 60 * 1000;
+
 /**
  * Apple App Store Server Notifications V2 types.
  * Reference: https://developer.apple.com/documentation/appstoreservernotifications
@@ -30,6 +39,7 @@ interface DecodedNotification {
     environment: string;
     bundleId: string;
     appAppleId?: number;
+    consumptionRequestReason?: AppleConsumptionRequestReason;
   };
   notificationUUID: string;
   version: string;
@@ -42,6 +52,7 @@ interface DecodedTransaction {
   productId: string;
   bundleId: string;
   purchaseDate: number;
+  originalPurchaseDate?: number;
   expiresDate?: number;
   type: string; // Auto-Renewable, Non-Consumable, etc.
   environment: string;
@@ -54,6 +65,24 @@ interface DecodedTransaction {
   revocationReason?: number;
   appAccountToken?: string; // This is the developer's user ID if set
   quantity?: number;
+  subscriptionGroupIdentifier?: string;
+  inAppOwnershipType?: string; // PURCHASED | FAMILY_SHARED
+  offerDiscountType?: string; // FREE_TRIAL | PAY_AS_YOU_GO | PAY_UP_FRONT
+}
+
+/** A CONSUMPTION_REQUEST notification: Apple asking about a refund request */
+export interface ConsumptionRequestNotification {
+  notificationUUID: string;
+  reason?: AppleConsumptionRequestReason;
+  /** When Apple sent the request; the response is due 12 hours later */
+  signedDate: Date;
+  environment: BillingEnvironment;
+  transactionId: string;
+  originalTransactionId: string;
+  productId: string;
+  purchaseDate?: Date;
+  expiresDate?: Date;
+  appAccountToken?: string;
 }
 
 interface DecodedRenewalInfo {
@@ -86,7 +115,7 @@ const APPLE_EVENT_MAP: Record<string, { eventType: EventType; status: EventStatu
   'EXPIRED:PRODUCT_NOT_FOR_SALE': { eventType: 'expiration', status: 'success' },
   'REFUND:': { eventType: 'refund', status: 'refunded' },
   'REVOKE:': { eventType: 'revoke', status: 'success' },
-  'CONSUMPTION_REQUEST:': null, // Apple asking for consumption data
+  'CONSUMPTION_REQUEST:': null, // answered by the consumption responder, see decodeConsumptionRequest
   'OFFER_REDEEMED:INITIAL_BUY': { eventType: 'offer_redeemed', status: 'success' },
   'OFFER_REDEEMED:RESUBSCRIBE': { eventType: 'offer_redeemed', status: 'success' },
   'OFFER_REDEEMED:UPGRADE': { eventType: 'offer_redeemed', status: 'success' },
@@ -97,6 +126,23 @@ const APPLE_EVENT_MAP: Record<string, { eventType: EventType; status: EventStatu
   'TEST:': null, // test notification
 };
 
+/** EXPIRED subtypes and DID_CHANGE_RENEWAL_STATUS that say why a subscription ends */
+const APPLE_CANCELLATION_SUBTYPES: Record<string, CancellationReason> = {
+  'EXPIRED:VOLUNTARY': 'voluntary',
+  'EXPIRED:BILLING_RETRY': 'billing_failure',
+  'EXPIRED:PRICE_INCREASE': 'price_increase',
+  'EXPIRED:PRODUCT_NOT_FOR_SALE': 'product_unavailable',
+  'DID_CHANGE_RENEWAL_STATUS:AUTO_RENEW_DISABLED': 'voluntary',
+};
+
+/** Renewal info expirationIntent codes */
+const APPLE_EXPIRATION_INTENTS: Record<number, CancellationReason> = {
+  1: 'voluntary',
+  2: 'billing_failure',
+  3: 'price_increase',
+  4: 'product_unavailable',
+};
+
 // Apple's G3 root certificate for App Store Server Notifications JWS verification.
 // Publicly available at https://www.apple.com/certificateauthority/AppleRootCA-G3.cer
 const APPLE_ROOT_CA_G3_PEM = `-----BEGIN CERTIFICATE-----
@@ -231,10 +277,12 @@ export class AppleNormalizer implements EventNormalizer {
       identityHints,
     };
 
-    // Financial details
+    // Financial details: Apple sends the customer price in milliunits
     if (transaction.price !== undefined) {
-      normalized.amountCents = Math.round(transaction.price * 1000); // Apple sends in milliunits
+      const digits = minorUnitDigits(transaction.currency || 'USD');
+      normalized.amountCents = Math.round(transaction.price / 10 ** (3 - digits));
       normalized.currency = transaction.currency;
+      normalized.commissionRate = this.commissionRate(transaction);
     }
 
     // Plan metadata
@@ -244,14 +292,99 @@ export class AppleNormalizer implements EventNormalizer {
       normalized.planTier = segments[segments.length - 1];
     }
 
-    // Trial start: if offerType === 1 (free trial), use purchaseDate
-    if (transaction.offerType === 1 && transaction.purchaseDate) {
+    // Subscription lifecycle
+    normalized.originalTransactionId = transaction.originalTransactionId;
+    normalized.subscriptionGroupId = transaction.subscriptionGroupIdentifier;
+    normalized.periodType = this.resolvePeriodType(transaction);
+    normalized.isFamilyShare = transaction.inAppOwnershipType === 'FAMILY_SHARED';
+    normalized.countryCode = transaction.storefront; // ISO 3166-1 alpha-3
+    if (transaction.expiresDate) {
+      normalized.expirationTime = new Date(transaction.expiresDate);
+    }
+    if (renewalInfo?.gracePeriodExpiresDate) {
+      normalized.gracePeriodExpiration = new Date(renewalInfo.gracePeriodExpiresDate);
+    }
+
+    const environment = notification.data.environment || transaction.environment;
+    if (environment) {
+      // Xcode StoreKit testing is reported as its own environment
+      normalized.environment = environment === 'Production' ? 'production' : 'sandbox';
+    }
+
+    if (normalized.eventType === 'refund') {
+      normalized.cancellationReason = 'refund';
+    } else {
+      normalized.cancellationReason = APPLE_CANCELLATION_SUBTYPES[mapKey]
+        ?? (renewalInfo?.expirationIntent !== undefined
+          ? APPLE_EXPIRATION_INTENTS[renewalInfo.expirationIntent]
+          : undefined);
+    }
+
+    // Trial start: a free-trial introductory offer starts at purchaseDate
+    if (normalized.periodType === 'trial' && transaction.purchaseDate) {
       normalized.trialStartedAt = new Date(transaction.purchaseDate);
     }
 
     return [normalized];
   }
 
+  /**
+   * Decode a CONSUMPTION_REQUEST notification. Returns null for every other
+   * notification type; those go through normalize().
+   */
+  async decodeConsumptionRequest(event: RawWebhookEvent): Promise<ConsumptionRequestNotification | null> {
+    const body = JSON.parse(event.body) as AppleNotificationV2;
+    const notification = await this.decodeNotification(body.signedPayload);
+    if (notification.notificationType !== 'CONSUMPTION_REQUEST') return null;
+
+    const transaction = await this.decodeTransaction(notification.data.signedTransactionInfo);
+    const environment = notification.data.environment || transaction.environment;
+
+    return {
+      notificationUUID: notification.notificationUUID,
+      reason: notification.data.consumptionRequestReason,
+      signedDate: new Date(notification.signedDate),
+      environment: environment && environment !== 'Production' ? 'sandbox' : 'production',
+      transactionId: transaction.transactionId,
+      originalTransactionId: transaction.originalTransactionId,
+      productId: transaction.productId,
+      purchaseDate: transaction.purchaseDate ? new Date(transaction.purchaseDate) : undefined,
+      expiresDate: transaction.expiresDate ? new Date(transaction.expiresDate) : undefined,
+      appAccountToken: transaction.appAccountToken,
+    };
+  }
+
+  /**
+   * offerType 1 is an introductory offer (a free trial unless a paid
+   * discount type is given); 2, 3 and 4 are promotional, offer-code and
+   * win-back offers.
+   */
+  private resolvePeriodType(transaction: DecodedTransaction): PeriodType {
+    if (transaction.offerType === 1) {
+      return transaction.offerDiscountType && transaction.offerDiscountType !== 'FREE_TRIAL'
+        ? 'intro'
+        : 'trial';
+    }
+    if (transaction.offerType !== undefined) {
+      return 'promotional';
+    }
+    return 'normal';
+  }
+
+  /**
+   * Apple's standard commission, or the reduced one for a subscription past
+   * its first year. The year is counted from the original purchase, so
+   * lapses in paid service aren't taken into account.
+   */
+  private commissionRate(transaction: DecodedTransaction): number {
+    const subscribedFor = transaction.originalPurchaseDate
+      ? transaction.purchaseDate - transaction.originalPurchaseDate
+      : 0;
+    return transaction.type.startsWith('Auto-Renewable') && subscribedFor >= REDUCED_COMMISSION_AFTER_MS
+      ? REDUCED_COMMISSION_RATE
+      : STANDARD_COMMISSION_RATE;
+  }
+
   extractIdentityHints(payload: Record<string, unknown>): IdentityHint[] {
     const hints: IdentityHint[] = [];
     const transaction = (payload as any)?.transaction as DecodedTransaction | undefined;
@@ -0,0 +1,445 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { EventNormalizer } from '../normalizer/base.js';
+import type {
+  BillingSource,
+  EventType,
+  EventStatus,
+  NormalizedEvent,
+  RawWebhookEvent,
+  IdentityHint,
+} from '../../models/types.js';
+import { createChildLogger } from '../../config/logger.js';
+
+const log = createChildLogger('braintree-normalizer');
+
+/** Maps Braintree webhook notification kinds to canonical event types */
+const BRAINTREE_EVENT_MAP: Record<string, { eventType: EventType; status: EventStatus } | null> = {
+  'subscription_went_active': { eventType: 'purchase', status: 'success' }, // trial handled specially
+  'subscription_charged_successfully': { eventType: 'renewal', status: 'success' }, // trial conversion handled specially
+  'subscription_charged_unsuccessfully': { eventType: 'billing_retry', status: 'failed' },
+  'subscription_went_past_due': { eventType: 'billing_retry', status: 'failed' },
+  // Braintree cancellation is immediate — there is no cancel-at-period-end,
+  // so the subscription is over as soon as this arrives.
+  'subscription_canceled': { eventType: 'expiration', status: 'success' },
+  'subscription_expired': { eventType: 'expiration', status: 'success' },
+  'subscription_trial_ended': null, // followed by a charge notification
+  'subscription_billing_skipped': null, // informational
+  'transaction_settlement_declined': { eventType: 'billing_retry', status: 'failed' },
+  'transaction_settled': null, // informational
+  'transaction_disbursed': null, // informational
+  'dispute_opened': { eventType: 'chargeback', status: 'pending' },
+  'dispute_won': null, // informational
+  'dispute_lost': null, // already recorded on dispute_opened
+  'dispute_accepted': null, // already recorded on dispute_opened
+  'check': null, // test notification from the Braintree control panel
+};
+
+/** Braintree transaction shape (subset of fields we need). */
+interface BraintreeTransaction {
+  id?: string;
+  type?: string; // 'sale' | 'credit'
+  status?: string;
+  amount?: string;
+  currencyIsoCode?: string;
+  subscriptionId?: string;
+  planId?: string;
+  customer?: {
+    id?: string;
+    email?: string;
+  };
+  billing?: {
+    countryCodeAlpha2?: string;
+  };
+}
+
+/** Braintree subscription shape (subset of fields we need). */
+interface BraintreeSubscription {
+  id?: string;
+  planId?: string;
+  status?: string; // 'Active' | 'Canceled' | 'Expired' | 'Past Due' | 'Pending'
+  price?: string;
+  paymentMethodToken?: string;
+  merchantAccountId?: string;
+  trialPeriod?: boolean;
+  currentBillingCycle?: number;
+  billingPeriodStartDate?: string;
+  billingPeriodEndDate?: string;
+  paidThroughDate?: string;
+  createdAt?: string;
+  transactions?: BraintreeTransaction[];
+}
+
+/** Decoded Braintree webhook notification (after XML parsing) */
+export interface BraintreeNotification {
+  kind: string;
+  timestamp: string;
+  subject: {
+    subscription?: BraintreeSubscription;
+    transaction?: BraintreeTransaction;
+    dispute?: {
+      id?: string;
+      amountDisputed?: string;
+      currencyIsoCode?: string;
+      reason?: string;
+      transaction?: { id?: string; amount?: string };
+    };
+  };
+}
+
+export class BraintreeNormalizer implements EventNormalizer {
+  source: BillingSource = 'braintree';
+
+  /**
+   * Verify a Braintree webhook notification signature.
+   *
+   * Braintree POSTs a form-encoded body with `bt_signature` and `bt_payload`.
+   * The signature is a list of `publicKey|hexDigest` pairs joined by `&`, where
+   * the digest is HMAC-SHA1 of the payload keyed with SHA1(privateKey).
+   * Braintree may sign the payload with or without a trailing newline, so
+   * both variants are accepted. The `secret` is the Braintree private key.
+   */
+  async verifySignature(event: RawWebhookEvent, secret: string): Promise<boolean> {
+    try {
+      const form = new URLSearchParams(event.body);
+      const signature = form.get('bt_signature');
+      const payload = form.get('bt_payload');
+      if (!signature || !payload) {
+        log.warn('Braintree webhook missing bt_signature or bt_payload');
+        return false;
+      }
+
+      const key = createHash('sha1').update(secret).digest();
+      const candidates = [payload, `${payload}\n`].map((p) =>
+        Buffer.from(createHmac('sha1', key).update(p).digest('hex'), 'hex'),
+      );
+
+      // Compare against each provided signature using timing-safe comparison
+      for (const pair of signature.split('&')) {
+        const digest = pair.split('|')[1];
+        if (!digest) continue;
+        const sigBuf = Buffer.from(digest, 'hex');
+        for (const expected of candidates) {
+          if (sigBuf.length === expected.length && timingSafeEqual(sigBuf, expected)) {
+            return true;
+          }
+        }
+      }
+
+      log.warn('Braintree webhook signature verification failed — no matching signature');
+      return false;
+    } catch (err) {
+      log.warn({ err }, 'Braintree webhook signature verification failed');
+      return false;
+    }
+  }
+
+  async normalize(orgId: string, event: RawWebhookEvent): Promise<NormalizedEvent[]> {
+    const notification = this.decodeNotification(event.body);
+
+    const mapping = BRAINTREE_EVENT_MAP[notification.kind];
+    if (mapping === undefined) {
+      log.debug({ kind: notification.kind }, 'Unmapped Braintree notification kind, skipping');
+      return [];
+    }
+    if (mapping === null) {
+      return []; // intentionally skipped
+    }
+
+    const subscription = notification.subject.subscription;
+    const subjectId = subscription?.id
+      || notification.subject.transaction?.id
+      || notification.subject.dispute?.id
+      || 'unknown';
+    const eventTime = new Date(notification.timestamp);
+    const externalEventId = `${notification.kind}:${subjectId}:${eventTime.getTime()}`;
+
+    const normalized: NormalizedEvent = {
+      orgId,
+      source: 'braintree',
+      eventType: this.resolveEventType(notification, mapping.eventType),
+      eventTime,
+      status: mapping.status,
+      externalEventId,
+      idempotencyKey: `braintree:${externalEventId}`,
+      rawPayload: notification as unknown as Record<string, unknown>,
+      identityHints: this.extractIdentityHints(notification as unknown as Record<string, unknown>),
+    };
+
+    this.enrichWithFinancials(normalized, notification);
+    this.enrichWithSubscriptionId(normalized, notification);
+    this.enrichWithPlanMetadata(normalized, notification);
+    this.enrichWithLifecycle(normalized, notification);
+
+    return [normalized];
+  }
+
+  /**
+   * Refine the mapped event type for trial subscriptions: a subscription
+   * that goes active inside its trial starts a trial, and the first charge
+   * after a trial is a conversion rather than a renewal.
+   */
+  private resolveEventType(notification: BraintreeNotification, mapped: EventType): EventType {
+    const sub = notification.subject.subscription;
+    if (!sub?.trialPeriod) return mapped;
+
+    if (notification.kind === 'subscription_went_active' && !sub.transactions?.length) {
+      return 'trial_start';
+    }
+    if (notification.kind === 'subscription_charged_successfully' && sub.currentBillingCycle === 1) {
+      return 'trial_conversion';
+    }
+    return mapped;
+  }
+
+  private decodeNotification(body: string): BraintreeNotification {
+    const form = new URLSearchParams(body);
+    const payload = form.get('bt_payload');
+    if (!payload) {
+      throw new Error('Braintree webhook body missing bt_payload');
+    }
+
+    const xml = Buffer.from(payload, 'base64').toString('utf-8');
+    const parsed = parseBraintreeXml(xml);
+    const notification = parsed.notification as unknown as BraintreeNotification | undefined;
+    if (!notification?.kind) {
+      throw new Error('Braintree webhook payload is not a notification');
+    }
+    notification.subject = notification.subject || {};
+    return notification;
+  }
+
+  private enrichWithFinancials(event: NormalizedEvent, notification: BraintreeNotification) {
+    const { subscription, transaction, dispute } = notification.subject;
+    const latestTransaction = transaction || subscription?.transactions?.[0];
+
+    if (dispute?.amountDisputed !== undefined) {
+      event.amountCents = toCents(dispute.amountDisputed);
+      event.currency = dispute.currencyIsoCode?.toUpperCase();
+    } else if (latestTransaction?.amount !== undefined) {
+      event.amountCents = toCents(latestTransaction.amount);
+      event.currency = latestTransaction.currencyIsoCode?.toUpperCase();
+    } else if (subscription?.price !== undefined) {
+      event.amountCents = toCents(subscription.price);
+    }
+  }
+
+  private enrichWithSubscriptionId(event: NormalizedEvent, notification: BraintreeNotification) {
+    const { subscription, transaction } = notification.subject;
+    if (subscription?.id) {
+      event.externalSubscriptionId = subscription.id;
+    } else if (transaction?.subscriptionId) {
+      event.externalSubscriptionId = transaction.subscriptionId;
+    }
+  }
+
+  private enrichWithPlanMetadata(event: NormalizedEvent, notification: BraintreeNotification) {
+    const { subscription, transaction } = notification.subject;
+    const planId = subscription?.planId || transaction?.planId;
+    if (planId) {
+      event.planTier = planId;
+    }
+
+    if (event.eventType === 'trial_start' && subscription?.createdAt) {
+      event.trialStartedAt = new Date(subscription.createdAt);
+    }
+  }
+
+  /**
+   * Braintree sandbox is a separate gateway with its own credentials and
+   * notifications carry no marker, so environment keeps the column default.
+   */
+  private enrichWithLifecycle(event: NormalizedEvent, notification: BraintreeNotification) {
+    const { subscription, transaction } = notification.subject;
+
+    if (subscription) {
+      const periodEnd = subscription.billingPeriodEndDate || subscription.paidThroughDate;
+      if (periodEnd) {
+        event.expirationTime = new Date(periodEnd);
+      }
+      event.periodType = event.eventType === 'trial_start' ? 'trial' : 'normal';
+    }
+
+    if (notification.kind === 'subscription_canceled') {
+      event.cancellationReason = 'voluntary';
+    }
+
+    const latestTransaction = transaction || subscription?.transactions?.[0];
+    if (latestTransaction?.billing?.countryCodeAlpha2) {
+      event.countryCode = latestTransaction.billing.countryCodeAlpha2;
+    }
+  }
+
+  extractIdentityHints(payload: Record<string, unknown>): IdentityHint[] {
+    const hints: IdentityHint[] = [];
+    const subject = (payload as unknown as BraintreeNotification)?.subject;
+    if (!subject) return hints;
+
+    const customer = subject.transaction?.customer || subject.subscription?.transactions?.[0]?.customer;
+    if (customer?.id) {
+      hints.push({
+        source: 'braintree',
+        idType: 'customer_id',
+        externalId: customer.id,
+      });
+    }
+    if (customer?.email) {
+      hints.push({
+        source: 'braintree',
+        idType: 'email',
+        externalId: customer.email,
+      });
+    }
+    if (subject.subscription?.id) {
+      hints.push({
+        source: 'braintree',
+        idType: 'subscription_id',
+        externalId: subject.subscription.id,
+      });
+    }
+    if (subject.subscription?.paymentMethodToken) {
+      hints.push({
+        source: 'braintree',
+        idType: 'payment_method_token',
+        externalId: subject.subscription.paymentMethodToken,
+      });
+    }
+
+    return hints;
+  }
+}
+
+// ─── Braintree XML ────────────────────────────────────────────────
+
+/**
+ * Parse Braintree gateway XML into a plain object.
+ *
+ * Braintree's XML is regular enough that a full XML parser isn't needed:
+ * element names are kebab-case (converted to camelCase), `type="array"`
+ * marks lists, `type="integer"` / `type="boolean"` mark scalars, and
+ * `nil="true"` marks nulls. Repeated sibling elements also become arrays.
+ */
+export function parseBraintreeXml(xml: string): Record<string, unknown> {
+  interface XmlNode {
+    name: string;
+    attrs: Record<string, string>;
+    children: XmlNode[];
+    text: string;
+  }
+
+  const root: XmlNode = { name: '#root', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const tokenRe = /<(\/?)([A-Za-z_][\w.-]*)([^>]*?)(\/?)>|<\?[^>]*\?>|<!--[\s\S]*?-->|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenRe.exec(xml)) !== null) {
+    const [, closing, name, rawAttrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      current.text += text;
+      continue;
+    }
+    if (!name) continue; // processing instruction or comment
+
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const attr of rawAttrs.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+      attrs[attr[1]] = attr[2];
+    }
+
+    const node: XmlNode = { name, attrs, children: [], text: '' };
+    current.children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  const convert = (node: XmlNode): unknown => {
+    if (node.attrs.nil === 'true') return null;
+    if (node.attrs.type === 'array') return node.children.map(convert);
+    if (node.children.length === 0) {
+      const text = decodeXmlEntities(node.text.trim());
+      if (node.attrs.type === 'integer') return parseInt(text, 10);
+      if (node.attrs.type === 'boolean') return text === 'true';
+      return text;
+    }
+
+    const obj: Record<string, unknown> = {};
+    for (const child of node.children) {
+      const key = kebabToCamel(child.name);
+      const value = convert(child);
+      if (key in obj) {
+        const existing = obj[key];
+        obj[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      } else {
+        obj[key] = value;
+      }
+    }
+    return obj;
+  };
+
+  return convert(root) as Record<string, unknown>;
+}
+
+/**
+ * Serialize a plain object back into Braintree-style XML.
+ * The inverse of parseBraintreeXml — used by the backfill to synthesize
+ * webhook notifications from API responses.
+ */
+export function buildBraintreeXml(name: string, value: unknown): string {
+  const tag = camelToKebab(name);
+
+  if (value === null || value === undefined) {
+    return `<${tag} nil="true"/>`;
+  }
+  if (Array.isArray(value)) {
+    return `<${tag} type="array">${value.map((item) => buildBraintreeXml('item', item)).join('')}</${tag}>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<${tag} type="boolean">${value}</${tag}>`;
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return `<${tag} type="integer">${value}</${tag}>`;
+  }
+  if (value instanceof Date) {
+    return `<${tag} type="datetime">${value.toISOString()}</${tag}>`;
+  }
+  if (typeof value === 'object') {
+    const inner = Object.entries(value as Record<string, unknown>)
+      .map(([key, child]) => buildBraintreeXml(key, child))
+      .join('');
+    return `<${tag}>${inner}</${tag}>`;
+  }
+  return `<${tag}>${encodeXmlEntities(String(value))}</${tag}>`;
+}
+
+function toCents(amount: string | number): number {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+function kebabToCamel(name: string): string {
+  return name.replace(/[-_]([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+function camelToKebab(name: string): string {
+  return name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXmlEntities(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -2,12 +2,15 @@ import * as jose from 'jose';
 import type { EventNormalizer } from '../normalizer/base.js';
 import type {
   BillingSource,
+  CancellationReason,
   EventType,
   EventStatus,
   NormalizedEvent,
   RawWebhookEvent,
   IdentityHint,
 } from '../../models/types.js';
+import { minorUnitDigits } from '../../currency/format.js';
+import { REDUCED_COMMISSION_RATE } from '../proceeds.js';
 import { createChildLogger } from '../../config/logger.js';
 import { CircuitBreaker } from '../../security/circuit-breaker.js';
 
@@ -40,6 +43,14 @@ const SUBSCRIPTION_NOTIFICATION_NAMES: Record<number, string> = {
   11: 'PAUSE_SCHEDULE_CHANGED', 12: 'REVOKED', 13: 'EXPIRED',
 };
 
+/** Which canceledStateContext member is set → canonical cancellation reason */
+const CANCELED_STATE_REASONS: Record<string, CancellationReason> = {
+  userInitiatedCancellation: 'voluntary',
+  systemInitiatedCancellation: 'billing_failure',
+  developerInitiatedCancellation: 'developer',
+  replacementCancellation: 'replaced',
+};
+
 // ─── Pub/Sub Message Types ────────────────────────────────────────
 
 interface PubSubPushMessage {
@@ -81,7 +92,7 @@ interface DeveloperNotification {
 
 // ─── Google Play Developer API Response Types ─────────────────────
 
-interface SubscriptionPurchaseV2 {
+export interface SubscriptionPurchaseV2 {
   kind: string;
   regionCode: string;
   startTime: string;
@@ -94,6 +105,8 @@ interface SubscriptionPurchaseV2 {
     obfuscatedExternalAccountId?: string;
     obfuscatedExternalProfileId?: string;
   };
+  latestOrderId?: string;
+  testPurchase?: Record<string, never>; // present (empty) for license-tester purchases
   lineItems: Array<{
     productId: string;
     expiryTime: string;
@@ -101,6 +114,17 @@ interface SubscriptionPurchaseV2 {
       basePlanId?: string;
       offerId?: string;
     };
+    offerPhase?: {
+      freeTrial?: Record<string, never>;
+      introductoryPrice?: Record<string, never>;
+      basePrice?: Record<string, never>;
+      prorationPeriod?: Record<string, never>;
+    };
+    autoRenewingPlan?: {
+      autoRenewEnabled?: boolean;
+      /** The price the subscription renews at, tax included */
+      recurringPrice?: GoogleMoney;
+    };
   }>;
   // Financial data (from monetization API)
   canceledStateContext?: {
@@ -111,6 +135,13 @@ interface SubscriptionPurchaseV2 {
   };
 }
 
+/** google.type.Money: whole units as a string, plus billionths of a unit */
+interface GoogleMoney {
+  currencyCode: string;
+  units?: string;
+  nanos?: number;
+}
+
 // ─── Google API Auth ──────────────────────────────────────────────
 
 interface GoogleCredentials {
@@ -372,6 +403,8 @@ export class GoogleNormalizer implements EventNormalizer {
         notification: notification as unknown as Record<string, unknown>,
       },
       identityHints,
+      originalTransactionId: voided.orderId.replace(/\.\.\d+$/, ''),
+      cancellationReason: isRefund ? 'refund' : undefined,
     };
 
     return [normalized];
@@ -448,9 +481,47 @@ export class GoogleNormalizer implements EventNormalizer {
       }
     }
 
-    // Region code
-    if (details.regionCode) {
-      (event.rawPayload as any).regionCode = details.regionCode;
+    // Google Play takes the reduced commission on every subscription
+    const price = lineItem?.autoRenewingPlan?.recurringPrice;
+    if (price?.currencyCode) {
+      const amount = Number(price.units ?? 0) + (price.nanos ?? 0) / 1e9;
+      event.amountCents = Math.round(amount * 10 ** minorUnitDigits(price.currencyCode));
+      event.currency = price.currencyCode.toUpperCase();
+      event.commissionRate = REDUCED_COMMISSION_RATE;
+    }
+
+    // Subscription lifecycle
+    event.environment = details.testPurchase ? 'sandbox' : 'production';
+    event.countryCode = details.regionCode;
+
+    const expiryTime = lineItem?.expiryTime || details.expiryTime;
+    if (expiryTime) {
+      event.expirationTime = new Date(expiryTime);
+      // While in grace the line item's expiry is the end of the grace period
+      if (details.subscriptionState === 'SUBSCRIPTION_STATE_IN_GRACE_PERIOD') {
+        event.gracePeriodExpiration = event.expirationTime;
+      }
+    }
+
+    // Renewal orders are "<orderId>..N"; the base order ID is stable across renewals
+    if (details.latestOrderId) {
+      event.originalTransactionId = details.latestOrderId.replace(/\.\.\d+$/, '');
+    }
+
+    if (lineItem?.offerPhase?.freeTrial) {
+      event.periodType = 'trial';
+    } else if (lineItem?.offerPhase?.introductoryPrice) {
+      event.periodType = 'intro';
+    } else if (lineItem?.offerDetails?.offerId) {
+      event.periodType = 'promotional';
+    } else {
+      event.periodType = 'normal';
+    }
+
+    const cancelContext = Object.keys(details.canceledStateContext ?? {})
+      .find((key) => CANCELED_STATE_REASONS[key]);
+    if (cancelContext) {
+      event.cancellationReason = CANCELED_STATE_REASONS[cancelContext];
     }
   }
 
@@ -458,9 +529,10 @@ export class GoogleNormalizer implements EventNormalizer {
 
   /**
    * Fetch full subscription details from Google Play Developer API.
-   * Uses purchases.subscriptionsv2.get endpoint.
+   * Uses purchases.subscriptionsv2.get endpoint. Also used by state
+   * reconciliation, after setCredentials().
    */
-  private async fetchSubscriptionDetails(
+  async fetchSubscriptionDetails(
     packageName: string,
     purchaseToken: string,
   ): Promise<SubscriptionPurchaseV2> {
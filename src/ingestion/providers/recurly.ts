@@ -2,6 +2,7 @@ import { createHmac, timingSafeEqual } from 'crypto';
 import type { EventNormalizer } from '../normalizer/base.js';
 import type {
   BillingSource,
+  CancellationReason,
   EventType,
   EventStatus,
   NormalizedEvent,
@@ -33,6 +34,16 @@ const RECURLY_EVENT_MAP: Record<string, { eventType: EventType; status: EventSta
   'new_dunning_event_notification': { eventType: 'billing_retry', status: 'pending' },
 };
 
+/** A subscription add-on; each add-on code is its own product */
+interface RecurlyAddOn {
+  add_on_code?: string;
+  add_on?: {
+    code?: string;
+    name?: string;
+  };
+  quantity?: number;
+}
+
 /** Recurly webhook payload shape (JSON format) */
 interface RecurlyPayload {
   id: string;
@@ -41,6 +52,9 @@ interface RecurlyPayload {
   account?: {
     code?: string;
     email?: string;
+    address?: {
+      country?: string;
+    };
   };
   subscription?: {
     uuid?: string;
@@ -54,17 +68,25 @@ interface RecurlyPayload {
     unit_amount_in_cents?: number;
     currency?: string;
     trial_started_at?: string;
+    trial_ends_at?: string;
+    current_period_ends_at?: string;
+    expires_at?: string;
+    expiration_reason?: string; // canceled | nonpayment | nonrenewing | tax_location_invalid
+    add_ons?: RecurlyAddOn[];
   };
   invoice?: {
     uuid?: string;
     total_in_cents?: number;
+    tax_in_cents?: number;
     currency?: string;
   };
   transaction?: {
     uuid?: string;
     amount_in_cents?: number;
+    tax_in_cents?: number;
     status?: string;
     currency?: string;
+    subscription_id?: string;
   };
   // For updated_subscription_notification: previous state
   previous_subscription?: {
@@ -74,9 +96,19 @@ interface RecurlyPayload {
       name?: string;
     };
     unit_amount_in_cents?: number;
+    add_ons?: RecurlyAddOn[];
   };
 }
 
+/** Maps Recurly subscription `expiration_reason` to canonical cancellation reasons */
+const RECURLY_EXPIRATION_REASONS: Record<string, CancellationReason> = {
+  'canceled': 'voluntary',
+  'nonpayment': 'billing_failure',
+};
+
+/** Lifecycle fields derived from the subscription in the payload */
+type LifecycleFields = Pick<NormalizedEvent, 'periodType' | 'expirationTime' | 'cancellationReason' | 'countryCode'>;
+
 export class RecurlyNormalizer implements EventNormalizer {
   source: BillingSource = 'recurly';
 
@@ -180,8 +212,28 @@ export class RecurlyNormalizer implements EventNormalizer {
     this.enrichWithFinancials(normalized, payload);
     this.enrichWithSubscriptionId(normalized, payload);
     this.enrichWithPlanMetadata(normalized, payload);
+    Object.assign(normalized, this.extractLifecycleFields(payload, notificationType, normalized.eventTime));
 
-    return [normalized];
+    return [normalized, ...this.addOnEvents(normalized, payload.subscription?.add_ons)];
+  }
+
+  /**
+   * One event per add-on on the subscription, so each add-on gets its own
+   * entitlement. The plan event carries the charge, so add-on events have
+   * no amount. Add-on subscription IDs are `<subscription uuid>:<add-on code>`.
+   */
+  private addOnEvents(planEvent: NormalizedEvent, addOns: RecurlyAddOn[] | undefined): NormalizedEvent[] {
+    return addOnCodes(addOns).map(code => ({
+      ...planEvent,
+      amountCents: undefined,
+      currency: undefined,
+      taxCents: undefined,
+      externalProductId: code,
+      externalSubscriptionId: planEvent.externalSubscriptionId
+        ? `${planEvent.externalSubscriptionId}:${code}`
+        : undefined,
+      idempotencyKey: `${planEvent.idempotencyKey}:addon:${code}`,
+    }));
   }
 
   /**
@@ -239,15 +291,17 @@ export class RecurlyNormalizer implements EventNormalizer {
     const events: NormalizedEvent[] = [];
     const identityHints = this.extractIdentityHints(payload as unknown as Record<string, unknown>);
 
+    const eventTime = new Date();
     const base = {
       orgId,
       source: 'recurly' as BillingSource,
-      eventTime: new Date(),
+      eventTime,
       externalEventId: payload.id,
       externalSubscriptionId: payload.subscription?.uuid,
       rawPayload: payload as unknown as Record<string, unknown>,
       identityHints,
       ...this.extractPlanMetadata(payload),
+      ...this.extractLifecycleFields(payload, 'updated_subscription_notification', eventTime),
     };
 
     // Detect plan change (upgrade/downgrade) by comparing current vs previous
@@ -278,6 +332,29 @@ export class RecurlyNormalizer implements EventNormalizer {
       });
     }
 
+    // Add-ons added to or removed from the subscription
+    const subId = payload.subscription?.uuid;
+    const prevAddOns = new Set(addOnCodes(payload.previous_subscription?.add_ons));
+    const currAddOns = new Set(addOnCodes(payload.subscription?.add_ons));
+    const addOnChange = (code: string, eventType: EventType, change: string): NormalizedEvent => ({
+      ...base,
+      eventType,
+      status: 'success',
+      externalProductId: code,
+      externalSubscriptionId: subId ? `${subId}:${code}` : undefined,
+      idempotencyKey: `recurly:${payload.id}:addon:${code}:${change}`,
+    });
+
+    // Without a previous add-on list there's nothing to compare against
+    if (payload.previous_subscription?.add_ons) {
+      for (const code of currAddOns) {
+        if (!prevAddOns.has(code)) events.push(addOnChange(code, 'purchase', 'added'));
+      }
+      for (const code of prevAddOns) {
+        if (!currAddOns.has(code)) events.push(addOnChange(code, 'expiration', 'removed'));
+      }
+    }
+
     if (events.length === 0) {
       log.debug({ subId: payload.subscription?.uuid }, 'Subscription update with no actionable changes');
     }
@@ -290,9 +367,11 @@ export class RecurlyNormalizer implements EventNormalizer {
     if (payload.transaction?.amount_in_cents !== undefined) {
       event.amountCents = payload.transaction.amount_in_cents;
       event.currency = (payload.transaction.currency || payload.subscription?.currency)?.toUpperCase();
+      event.taxCents = payload.transaction.tax_in_cents ?? payload.invoice?.tax_in_cents;
     } else if (payload.invoice?.total_in_cents !== undefined) {
       event.amountCents = payload.invoice.total_in_cents;
       event.currency = (payload.invoice.currency || payload.subscription?.currency)?.toUpperCase();
+      event.taxCents = payload.invoice.tax_in_cents;
     } else if (payload.subscription?.unit_amount_in_cents !== undefined) {
       event.amountCents = payload.subscription.unit_amount_in_cents;
       event.currency = payload.subscription.currency?.toUpperCase();
@@ -300,8 +379,9 @@ export class RecurlyNormalizer implements EventNormalizer {
   }
 
   private enrichWithSubscriptionId(event: NormalizedEvent, payload: RecurlyPayload) {
-    if (payload.subscription?.uuid) {
-      event.externalSubscriptionId = payload.subscription.uuid;
+    const subscriptionId = payload.subscription?.uuid || payload.transaction?.subscription_id;
+    if (subscriptionId) {
+      event.externalSubscriptionId = subscriptionId;
     }
   }
 
@@ -339,6 +419,41 @@ export class RecurlyNormalizer implements EventNormalizer {
     return result;
   }
 
+  /**
+   * Recurly webhooks carry no sandbox marker (sandbox is a separate site with
+   * its own webhook secret), so environment is left to the column default.
+   */
+  private extractLifecycleFields(
+    payload: RecurlyPayload,
+    notificationType: string,
+    eventTime: Date,
+  ): LifecycleFields {
+    const result: LifecycleFields = {};
+    const sub = payload.subscription;
+
+    if (sub) {
+      const periodEnd = sub.current_period_ends_at || sub.expires_at;
+      if (periodEnd) {
+        result.expirationTime = new Date(periodEnd);
+      }
+      result.periodType = sub.trial_ends_at && new Date(sub.trial_ends_at) > eventTime ? 'trial' : 'normal';
+    }
+
+    if (notificationType === 'successful_refund_notification') {
+      result.cancellationReason = 'refund';
+    } else if (notificationType === 'canceled_subscription_notification') {
+      result.cancellationReason = 'voluntary';
+    } else if (sub?.expiration_reason) {
+      result.cancellationReason = RECURLY_EXPIRATION_REASONS[sub.expiration_reason];
+    }
+
+    if (payload.account?.address?.country) {
+      result.countryCode = payload.account.address.country;
+    }
+
+    return result;
+  }
+
   extractIdentityHints(payload: Record<string, unknown>): IdentityHint[] {
     const hints: IdentityHint[] = [];
     const data = payload as unknown as RecurlyPayload;
@@ -368,3 +483,10 @@ export class RecurlyNormalizer implements EventNormalizer {
     return hints;
   }
 }
+
+function addOnCodes(addOns: RecurlyAddOn[] | undefined): string[] {
+  const codes = (addOns ?? [])
+    .map(a => a.add_on_code || a.add_on?.code)
+    .filter((code): code is string => !!code);
+  return [...new Set(codes)];
+}
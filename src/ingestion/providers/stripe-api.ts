@@ -0,0 +1,19 @@
+import Stripe from 'stripe';
+
+/**
+ * Stripe API client for an org's stored secret key. Setting
+ * STRIPE_API_BASE_URL points every call at another host, e.g. stripe-mock
+ * on http://localhost:12111.
+ */
+export function createStripeClient(apiKey: string): Stripe {
+  const override = process.env.STRIPE_API_BASE_URL;
+  if (!override) return new Stripe(apiKey);
+
+  const url = new URL(override);
+  const protocol = url.protocol === 'http:' ? 'http' : 'https';
+  return new Stripe(apiKey, {
+    host: url.hostname,
+    port: url.port || (protocol === 'http' ? 80 : 443),
+    protocol,
+  });
+}
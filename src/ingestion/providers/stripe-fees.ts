@@ -0,0 +1,49 @@
+import type Stripe from 'stripe';
+import type { BillingConnection } from '../../models/types.js';
+import { readCredentials } from '../../security/credentials.js';
+import { CircuitBreaker } from '../../security/circuit-breaker.js';
+
+/** Circuit breaker for Stripe API calls made to look up fees. */
+const stripeFeesBreaker = new CircuitBreaker('stripe-fees-api', {
+  failureThreshold: 5,
+  resetTimeoutMs: 60_000,
+  halfOpenMaxAttempts: 3,
+});
+
+/** Returns the fee, in the charge's currency, or null when the event has no charge */
+export type StripeFeeLookup = (event: Stripe.Event) => Promise<number | null>;
+
+/**
+ * Looks up Stripe's processing fee for the charge behind a paid invoice or
+ * a charge event, from the charge's balance transaction. Returns null when
+ * the connection has no API key.
+ */
+export async function connectStripeFees(connection: BillingConnection): Promise<StripeFeeLookup | null> {
+  const creds = connection.credentials
+    ? readCredentials<{ apiKey?: string }>(connection.credentials)
+    : null;
+  if (!creds?.apiKey) return null;
+
+  // Loaded here so the detection engine doesn't pull in the Stripe SDK
+  const { createStripeClient } = await import('./stripe-api.js');
+  const stripe = createStripeClient(creds.apiKey);
+
+  return async (event) => {
+    const obj = event.data.object as any;
+    const chargeId = obj.object === 'invoice'
+      ? (typeof obj.charge === 'string' ? obj.charge : obj.charge?.id)
+      : obj.object === 'charge' ? obj.id : undefined;
+    if (!chargeId) return null;
+
+    const charge = await stripeFeesBreaker.execute(() =>
+      stripe.charges.retrieve(chargeId, { expand: ['balance_transaction'] }),
+    );
+    const balance = charge.balance_transaction;
+    if (!balance || typeof balance === 'string') return null;
+
+    // The fee is in the account's settlement currency; scale it back to the
+    // currency the customer was charged in
+    if (balance.currency === charge.currency || balance.amount === 0) return balance.fee;
+    return Math.round((balance.fee * charge.amount) / balance.amount);
+  };
+}
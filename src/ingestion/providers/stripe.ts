@@ -2,6 +2,7 @@ import Stripe from 'stripe';
 import type { EventNormalizer } from '../normalizer/base.js';
 import type {
   BillingSource,
+  CancellationReason,
   EventType,
   EventStatus,
   NormalizedEvent,
@@ -12,6 +13,18 @@ import { createChildLogger } from '../../config/logger.js';
 
 const log = createChildLogger('stripe-normalizer');
 
+/** Maps Stripe `cancellation_details.reason` to canonical cancellation reasons */
+const STRIPE_CANCELLATION_REASONS: Record<string, CancellationReason> = {
+  'cancellation_requested': 'voluntary',
+  'payment_failed': 'billing_failure',
+};
+
+/** Lifecycle fields derived from the event's data object */
+type LifecycleFields = Pick<
+  NormalizedEvent,
+  'periodType' | 'expirationTime' | 'cancellationReason' | 'environment' | 'countryCode'
+>;
+
 /** Maps Stripe event types to our canonical event types */
 const STRIPE_EVENT_MAP: Record<string, { eventType: EventType; status: EventStatus } | null> = {
   'invoice.payment_succeeded': { eventType: 'renewal', status: 'success' },
@@ -28,6 +41,9 @@ const STRIPE_EVENT_MAP: Record<string, { eventType: EventType; status: EventStat
   'checkout.session.completed': { eventType: 'purchase', status: 'success' },
 };
 
+/** Every Stripe event type the normalizer reads, including the specially handled ones */
+export const STRIPE_EVENT_TYPES = Object.keys(STRIPE_EVENT_MAP);
+
 export class StripeNormalizer implements EventNormalizer {
   source: BillingSource = 'stripe';
 
@@ -87,6 +103,7 @@ export class StripeNormalizer implements EventNormalizer {
     this.enrichWithFinancials(normalized, payload);
     this.enrichWithSubscriptionId(normalized, payload);
     this.enrichWithPlanMetadata(normalized, payload);
+    Object.assign(normalized, this.extractLifecycleFields(payload));
 
     return [normalized];
   }
@@ -105,6 +122,7 @@ export class StripeNormalizer implements EventNormalizer {
       rawPayload: payload as unknown as Record<string, unknown>,
       identityHints: this.extractIdentityHints(payload as unknown as Record<string, unknown>),
       ...this.extractPlanMetadata(payload),
+      ...this.extractLifecycleFields(payload),
     };
 
     // Cancellation scheduled
@@ -168,6 +186,7 @@ export class StripeNormalizer implements EventNormalizer {
     if (obj.amount_paid !== undefined) {
       event.amountCents = obj.amount_paid;
       event.currency = obj.currency?.toUpperCase();
+      event.taxCents = this.invoiceTax(obj);
     } else if (obj.amount !== undefined) {
       event.amountCents = obj.amount;
       event.currency = obj.currency?.toUpperCase();
@@ -177,6 +196,14 @@ export class StripeNormalizer implements EventNormalizer {
     }
   }
 
+  /** Tax on a paid invoice; Stripe Tax lists it per rate, older invoices as one amount */
+  private invoiceTax(invoice: any): number | undefined {
+    if (Array.isArray(invoice.total_tax_amounts) && invoice.total_tax_amounts.length > 0) {
+      return invoice.total_tax_amounts.reduce((sum: number, t: { amount?: number }) => sum + (t.amount ?? 0), 0);
+    }
+    return typeof invoice.tax === 'number' ? invoice.tax : undefined;
+  }
+
   private enrichWithSubscriptionId(event: NormalizedEvent, payload: Stripe.Event) {
     const obj = payload.data.object as any;
     if (obj.subscription) {
@@ -219,6 +246,39 @@ export class StripeNormalizer implements EventNormalizer {
     return result;
   }
 
+  private extractLifecycleFields(payload: Stripe.Event): LifecycleFields {
+    const obj = payload.data.object as any;
+    // Only an explicit livemode: false marks a test-mode event
+    const result: LifecycleFields = {
+      environment: payload.livemode === false ? 'sandbox' : 'production',
+    };
+
+    // Subscriptions carry the period directly; invoices on their first line
+    const periodEnd = obj.current_period_end ?? obj.lines?.data?.[0]?.period?.end;
+    if (periodEnd) {
+      result.expirationTime = new Date(periodEnd * 1000);
+    }
+
+    if (obj.object === 'subscription') {
+      result.periodType = obj.status === 'trialing' ? 'trial' : 'normal';
+    }
+
+    if (payload.type === 'charge.refunded') {
+      result.cancellationReason = 'refund';
+    } else if (obj.cancellation_details?.reason) {
+      result.cancellationReason = STRIPE_CANCELLATION_REASONS[obj.cancellation_details.reason];
+    }
+
+    const country = obj.billing_details?.address?.country
+      || obj.customer_address?.country
+      || obj.customer_details?.address?.country;
+    if (country) {
+      result.countryCode = country;
+    }
+
+    return result;
+  }
+
   extractIdentityHints(payload: Record<string, unknown>): IdentityHint[] {
     const hints: IdentityHint[] = [];
     const data = (payload as any)?.data?.object;
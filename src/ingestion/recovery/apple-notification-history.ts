@@ -0,0 +1,35 @@
+import * as jose from 'jose';
+import { readCredentials } from '../../security/credentials.js';
+import { AppStoreServerClient, type AppleCredentials } from '../providers/apple-api.js';
+import type { GapRecoverySource } from './gap-recovery.js';
+
+/** Apple only keeps notification history for the last 180 days */
+const HISTORY_RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+
+/**
+ * Recovers Apple notifications from the App Store Server API's
+ * notification history. The signed payloads are exactly what Apple would
+ * have posted to the webhook, so they're replayed as-is.
+ */
+export const appleNotificationHistory: GapRecoverySource = {
+  async fetchNotifications(connection, from, to) {
+    const creds = connection.credentials
+      ? readCredentials<AppleCredentials>(connection.credentials)
+      : null;
+    if (!creds?.privateKey) return null;
+
+    const earliest = new Date(to.getTime() - HISTORY_RETENTION_MS);
+    const client = new AppStoreServerClient(creds);
+    const signedPayloads = await client.getNotificationHistory(from < earliest ? earliest : from, to);
+
+    return signedPayloads.map((signedPayload) => ({
+      externalEventId: jose.decodeJwt(signedPayload).notificationUUID as string,
+      rawEvent: {
+        source: 'apple' as const,
+        headers: {},
+        body: JSON.stringify({ signedPayload }),
+        receivedAt: new Date(),
+      },
+    }));
+  },
+};
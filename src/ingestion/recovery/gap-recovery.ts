@@ -0,0 +1,243 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import type { Database } from '../../config/database.js';
+import { billingConnections, canonicalEvents, issues } from '../../models/schema.js';
+import type {
+  BillingConnection,
+  BillingSource,
+  GapRecoveryOutcome,
+  RawWebhookEvent,
+} from '../../models/types.js';
+import { IngestionPipeline } from '../pipeline.js';
+import { appleNotificationHistory } from './apple-notification-history.js';
+import { stripeEvents } from './stripe-events.js';
+import { createChildLogger } from '../../config/logger.js';
+
+const log = createChildLogger('gap-recovery');
+
+/** At most this many error messages are kept on the issue */
+const MAX_RECORDED_ERRORS = 10;
+
+/** A notification fetched from the provider's API, ready to replay */
+export interface RecoveredNotification {
+  /** Matches canonical_events.external_event_id once the notification is stored */
+  externalEventId: string;
+  rawEvent: RawWebhookEvent;
+}
+
+/** Fetches what a billing source sent (or tried to send) during a window */
+export interface GapRecoverySource {
+  /**
+   * Returns null when the connection has no API access to recover with.
+   * Throws when the provider's API fails.
+   */
+  fetchNotifications(
+    connection: BillingConnection,
+    from: Date,
+    to: Date,
+  ): Promise<RecoveredNotification[] | null>;
+}
+
+const recoverySources: Partial<Record<BillingSource, GapRecoverySource>> = {
+  apple: appleNotificationHistory,
+  stripe: stripeEvents,
+};
+
+/** Whether missed notifications can be recovered for a billing source */
+export function canRecoverGap(source: BillingSource): boolean {
+  return source in recoverySources;
+}
+
+/**
+ * Webhook Gap Recovery
+ *
+ * When webhookGapDetector raises a webhook_delivery_gap issue, asks the
+ * provider's API for everything it sent since the last webhook arrived
+ * and replays the notifications we never stored through the ingestion
+ * pipeline. Replayed deliveries show up in the webhook logs linked to the
+ * gap issue, and the outcome is recorded as `evidence.recovery`.
+ *
+ * Recovery can also run for an explicit window (admin API), in which case
+ * the replayed deliveries aren't linked to an issue. It doesn't touch
+ * lastWebhookAt, so a gap issue stays open until live deliveries resume.
+ */
+export class WebhookGapRecovery {
+  private pipeline: IngestionPipeline;
+
+  constructor(private db: Database) {
+    this.pipeline = new IngestionPipeline(db);
+  }
+
+  /**
+   * Recover the gap an issue describes. Returns null when the issue isn't
+   * a recoverable webhook gap. Provider API failures are recorded on the
+   * issue and rethrown so the job retries.
+   */
+  async recover(orgId: string, issueId: string): Promise<GapRecoveryOutcome | null> {
+    const [issue] = await this.db
+      .select()
+      .from(issues)
+      .where(and(eq(issues.orgId, orgId), eq(issues.id, issueId)))
+      .limit(1);
+
+    if (!issue || issue.issueType !== 'webhook_delivery_gap') return null;
+
+    const evidence = issue.evidence as {
+      source?: BillingSource;
+      connectionId?: string;
+      lastWebhookAt?: string | null;
+    };
+    const recoverySource = evidence.source && recoverySources[evidence.source];
+    if (!recoverySource || !evidence.connectionId) return null;
+
+    const [connection] = await this.db
+      .select()
+      .from(billingConnections)
+      .where(and(eq(billingConnections.orgId, orgId), eq(billingConnections.id, evidence.connectionId)))
+      .limit(1);
+
+    if (!connection) return null;
+
+    // A connection that never received a webhook may have missed everything since setup
+    const from = evidence.lastWebhookAt ? new Date(evidence.lastWebhookAt) : connection.createdAt;
+    const to = new Date();
+
+    let outcome: GapRecoveryOutcome;
+    try {
+      outcome = await this.replay(orgId, connection, recoverySource, from, to, issue.id);
+    } catch (err: any) {
+      await this.record(issue.id, evidence, { ...emptyOutcome(from, to), status: 'failed', errors: [err.message] });
+      throw err;
+    }
+
+    return this.record(issue.id, evidence, outcome);
+  }
+
+  /**
+   * Recover an explicit window for one source's connection. Returns null
+   * when the source has no recovery API or isn't connected.
+   */
+  async recoverWindow(
+    orgId: string,
+    source: BillingSource,
+    from: Date,
+    to: Date,
+  ): Promise<GapRecoveryOutcome | null> {
+    const recoverySource = recoverySources[source];
+    if (!recoverySource) return null;
+
+    const [connection] = await this.db
+      .select()
+      .from(billingConnections)
+      .where(and(eq(billingConnections.orgId, orgId), eq(billingConnections.source, source)))
+      .limit(1);
+
+    if (!connection) return null;
+
+    const outcome = await this.replay(orgId, connection, recoverySource, from, to, null);
+    outcome.completedAt = new Date().toISOString();
+    return outcome;
+  }
+
+  /** Fetch the window's notifications and replay the ones not yet stored */
+  private async replay(
+    orgId: string,
+    connection: BillingConnection,
+    recoverySource: GapRecoverySource,
+    from: Date,
+    to: Date,
+    issueId: string | null,
+  ): Promise<GapRecoveryOutcome> {
+    const outcome = emptyOutcome(from, to);
+
+    const notifications = await recoverySource.fetchNotifications(connection, from, to);
+    if (!notifications) {
+      return { ...outcome, status: 'skipped', reason: 'no_api_access' };
+    }
+
+    outcome.found = notifications.length;
+    const stored = await this.storedEventIds(orgId, connection.source, notifications);
+    const errors: string[] = [];
+
+    for (const notification of notifications) {
+      if (stored.has(notification.externalEventId)) {
+        outcome.alreadyReceived++;
+        continue;
+      }
+
+      const result = await this.pipeline.processRecoveredWebhook(
+        orgId,
+        connection.source,
+        notification.rawEvent,
+        issueId,
+      );
+      if (result.errors.length > 0) {
+        outcome.failed++;
+        errors.push(...result.errors);
+      } else {
+        outcome.replayed++;
+      }
+    }
+
+    if (errors.length > 0) outcome.errors = errors.slice(0, MAX_RECORDED_ERRORS);
+
+    log.info({
+      orgId,
+      issueId,
+      source: connection.source,
+      found: outcome.found,
+      alreadyReceived: outcome.alreadyReceived,
+      replayed: outcome.replayed,
+      failed: outcome.failed,
+    }, 'Webhook gap recovery completed');
+
+    return outcome;
+  }
+
+  /** External event IDs among the notifications that are already stored */
+  private async storedEventIds(
+    orgId: string,
+    source: BillingSource,
+    notifications: RecoveredNotification[],
+  ): Promise<Set<string>> {
+    if (notifications.length === 0) return new Set();
+
+    const rows = await this.db
+      .select({ externalEventId: canonicalEvents.externalEventId })
+      .from(canonicalEvents)
+      .where(
+        and(
+          eq(canonicalEvents.orgId, orgId),
+          eq(canonicalEvents.source, source),
+          inArray(canonicalEvents.externalEventId, notifications.map(n => n.externalEventId)),
+        ),
+      );
+
+    return new Set(rows.map(r => r.externalEventId).filter((id): id is string => !!id));
+  }
+
+  private async record(
+    issueId: string,
+    evidence: Record<string, unknown>,
+    outcome: GapRecoveryOutcome,
+  ): Promise<GapRecoveryOutcome> {
+    outcome.completedAt = new Date().toISOString();
+    await this.db
+      .update(issues)
+      .set({ evidence: { ...evidence, recovery: outcome }, updatedAt: new Date() })
+      .where(eq(issues.id, issueId));
+    return outcome;
+  }
+}
+
+function emptyOutcome(from: Date, to: Date): GapRecoveryOutcome {
+  return {
+    status: 'completed',
+    from: from.toISOString(),
+    to: to.toISOString(),
+    found: 0,
+    alreadyReceived: 0,
+    replayed: 0,
+    failed: 0,
+    completedAt: '',
+  };
+}
@@ -0,0 +1,63 @@
+import type Stripe from 'stripe';
+import { readCredentials } from '../../security/credentials.js';
+import { CircuitBreaker } from '../../security/circuit-breaker.js';
+import type { GapRecoverySource } from './gap-recovery.js';
+
+/** Stripe only keeps events for the last 30 days */
+const EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Circuit breaker for Stripe API calls during gap recovery. */
+const stripeRecoveryBreaker = new CircuitBreaker('stripe-recovery-api', {
+  failureThreshold: 5,
+  resetTimeoutMs: 60_000,
+  halfOpenMaxAttempts: 3,
+});
+
+/**
+ * Recovers Stripe events from the Events API (GET /v1/events). Each event
+ * is the same object Stripe posts to the webhook endpoint, so it's replayed
+ * as the delivery body. Only event types the normalizer reads are fetched.
+ */
+export const stripeEvents: GapRecoverySource = {
+  async fetchNotifications(connection, from, to) {
+    const creds = connection.credentials
+      ? readCredentials<{ apiKey?: string }>(connection.credentials)
+      : null;
+    if (!creds?.apiKey) return null;
+
+    // Loaded here so the detection engine, which imports the recovery
+    // registry, doesn't pull in the Stripe SDK
+    const [{ createStripeClient }, { STRIPE_EVENT_TYPES }] = await Promise.all([
+      import('../providers/stripe-api.js'),
+      import('../providers/stripe.js'),
+    ]);
+    const stripe = createStripeClient(creds.apiKey);
+    const earliest = new Date(to.getTime() - EVENT_RETENTION_MS);
+    const created = {
+      gte: Math.floor((from < earliest ? earliest : from).getTime() / 1000),
+      lte: Math.floor(to.getTime() / 1000),
+    };
+
+    const events: Stripe.Event[] = [];
+    let startingAfter: string | undefined;
+    do {
+      const params: Stripe.EventListParams = { limit: 100, created, types: STRIPE_EVENT_TYPES };
+      if (startingAfter) params.starting_after = startingAfter;
+
+      const page = await stripeRecoveryBreaker.execute(() => stripe.events.list(params));
+      events.push(...page.data);
+      startingAfter = page.has_more && page.data.length > 0 ? page.data[page.data.length - 1].id : undefined;
+    } while (startingAfter);
+
+    // Stripe lists newest first; replay in the order the events happened
+    return events.reverse().map((event) => ({
+      externalEventId: event.id,
+      rawEvent: {
+        source: 'stripe' as const,
+        headers: {},
+        body: JSON.stringify(event),
+        receivedAt: new Date(),
+      },
+    }));
+  },
+};
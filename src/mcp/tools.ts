@@ -12,6 +12,8 @@ import {
 } from '../models/schema.js';
 import { DETECTOR_META, CATEGORY_ISSUE_TYPES, enrichIssue } from '../detection/detector-meta.js';
 import { dispatchWebhookEvent } from '../alerts/webhook-events.js';
+import { resolveIncidents } from '../alerts/incident-sync.js';
+import { getReportingCurrency } from '../config/org-settings.js';
 import type { WebhookEventType } from '../models/types.js';
 
 /**
@@ -28,10 +30,10 @@ export function registerTools(server: McpServer, db: Database): void {
     'list_issues',
     'List detected billing issues. Filter by status, severity, type, or category. Returns enriched issues with recommended actions.',
     {
-      status: z.enum(['open', 'acknowledged', 'resolved', 'dismissed']).default('open').describe('Issue status filter'),
+      status: z.enum(['open', 'acknowledged', 'snoozed', 'resolved', 'dismissed']).default('open').describe('Issue status filter'),
       severity: z.enum(['critical', 'warning', 'info']).optional().describe('Severity filter'),
       type: z.string().optional().describe('Issue type filter (e.g. duplicate_billing, unrevoked_refund)'),
-      category: z.enum(['integration_health', 'cross_platform', 'revenue_protection', 'access_verification']).optional().describe('Category filter'),
+      category: z.enum(['integration_health', 'cross_platform', 'revenue_protection', 'access_verification', 'custom']).optional().describe('Category filter'),
       limit: z.number().min(1).max(100).default(20).describe('Max results'),
       offset: z.number().min(0).default(0).describe('Pagination offset'),
     },
@@ -126,7 +128,7 @@ export function registerTools(server: McpServer, db: Database): void {
         .where(and(eq(issues.orgId, orgId), eq(issues.status, 'open'), eq(issues.severity, 'critical')));
 
       const [revenueAtRisk] = await db
-        .select({ total: sum(issues.estimatedRevenueCents) })
+        .select({ total: sum(issues.estimatedRevenueCents), net: sum(issues.netRevenueCents) })
         .from(issues)
         .where(and(eq(issues.orgId, orgId), eq(issues.status, 'open')));
 
@@ -156,6 +158,8 @@ export function registerTools(server: McpServer, db: Database): void {
             open: openCount.count,
             critical: criticalCount.count,
             revenueAtRiskCents: Number(revenueAtRisk.total) || 0,
+            netRevenueAtRiskCents: Number(revenueAtRisk.net) || 0,
+            currency: await getReportingCurrency(db, orgId),
             byType: byType.map(row => ({
               ...row,
               category: DETECTOR_META[row.issueType]?.category || 'unknown',
@@ -392,6 +396,9 @@ export function registerTools(server: McpServer, db: Database): void {
       }
 
       dispatchWebhookEvent(db, orgId, params.issueId, eventType).catch(() => {});
+      if (params.action !== 'acknowledge') {
+        resolveIncidents(db, orgId, params.issueId).catch(() => {});
+      }
 
       return {
         content: [{
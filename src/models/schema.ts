@@ -12,7 +12,10 @@ import {
   index,
   uniqueIndex,
   real,
+  numeric,
+  date,
 } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 // ─── Enums ───────────────────────────────────────────────────────────
 
@@ -77,6 +80,7 @@ export const issueSeverityEnum = pgEnum('issue_severity', [
 export const issueStatusEnum = pgEnum('issue_status', [
   'open',
   'acknowledged',
+  'snoozed',
   'resolved',
   'dismissed',
 ]);
@@ -130,12 +134,14 @@ export const products = pgTable('products', {
   id: uuid('id').primaryKey().defaultRandom(),
   orgId: uuid('org_id').notNull().references(() => organizations.id),
   name: varchar('name', { length: 255 }).notNull(),
-  externalIds: jsonb('external_ids').default({}).notNull(), // { stripe: "prod_xxx", apple: "com.app.premium" }
+  externalIds: jsonb('external_ids').default({}).notNull(), // { stripe: ["prod_xxx"], apple: ["com.app.premium", "com.app.premium.annual"] }
   isActive: boolean('is_active').default(true).notNull(),
+  autoCreated: boolean('auto_created').default(false).notNull(), // created from an event, not yet named/mapped
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   index('products_org_idx').on(table.orgId),
+  index('products_external_ids_idx').using('gin', sql`${table.externalIds} jsonb_path_ops`),
 ]);
 
 // ─── User Identity Graph ─────────────────────────────────────────────
@@ -182,9 +188,11 @@ export const canonicalEvents = pgTable('canonical_events', {
   sourceEventType: varchar('source_event_type', { length: 255 }), // original type from provider (e.g., "SUBSCRIBED:INITIAL_BUY")
   eventTime: timestamp('event_time').notNull(),
   status: eventStatusEnum('status').notNull(),
-  amountCents: integer('amount_cents'), // stored in cents to avoid float issues
+  amountCents: integer('amount_cents'), // gross, in minor units to avoid float issues
   currency: varchar('currency', { length: 3 }).default('USD'),
-  proceedsCents: integer('proceeds_cents'), // net after platform cut
+  taxCents: integer('tax_cents'), // tax included in the gross, where reported
+  feeCents: integer('fee_cents'), // store commission or processing fee, where known
+  proceedsCents: integer('proceeds_cents'), // net: gross less tax and fees
   externalEventId: varchar('external_event_id', { length: 512 }),
   externalSubscriptionId: varchar('external_subscription_id', { length: 512 }),
   originalTransactionId: varchar('original_transaction_id', { length: 512 }), // Apple's primary sub identity
@@ -231,12 +239,13 @@ export const entitlements = pgTable('entitlements', {
   billingInterval: varchar('billing_interval', { length: 20 }),
   planTier: varchar('plan_tier', { length: 100 }),
   lastEventId: uuid('last_event_id').references(() => canonicalEvents.id),
+  environment: varchar('environment', { length: 20 }).notNull().default('production'), // sandbox | production
   stateHistory: jsonb('state_history').default([]),
   metadata: jsonb('metadata').default({}),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
-  uniqueIndex('entitlements_user_product_source_idx').on(table.orgId, table.userId, table.productId, table.source),
+  uniqueIndex('entitlements_user_product_source_idx').on(table.orgId, table.userId, table.productId, table.source, table.environment),
   index('entitlements_org_state_idx').on(table.orgId, table.state),
   index('entitlements_user_idx').on(table.userId),
 ]);
@@ -252,11 +261,22 @@ export const issues = pgTable('issues', {
   status: issueStatusEnum('status').notNull().default('open'),
   title: text('title').notNull(),
   description: text('description').notNull(),
-  estimatedRevenueCents: integer('estimated_revenue_cents'),
+  estimatedRevenueCents: integer('estimated_revenue_cents'), // in revenueCurrency
+  revenueCurrency: varchar('revenue_currency', { length: 3 }), // the org's reporting currency when converted
+  originalRevenueCents: integer('original_revenue_cents'), // before conversion
+  originalCurrency: varchar('original_currency', { length: 3 }),
+  netRevenueCents: integer('net_revenue_cents'), // after tax and fees, in revenueCurrency
+  originalNetRevenueCents: integer('original_net_revenue_cents'),
+  revenueAt: timestamp('revenue_at'), // when the money changed hands; picks the exchange rate
   confidence: real('confidence'), // 0.0 - 1.0
   detectorId: varchar('detector_id', { length: 100 }).notNull(),
   detectionTier: varchar('detection_tier', { length: 20 }).notNull().default('billing_only'),
+  environment: varchar('environment', { length: 20 }).notNull().default('production'), // sandbox | production
   evidence: jsonb('evidence').default({}).notNull(), // relevant event IDs, state snapshots
+  fingerprint: varchar('fingerprint', { length: 500 }), // detector:type:source:user[:entitlement or product]; one open issue per fingerprint
+  occurrenceCount: integer('occurrence_count').notNull().default(1), // times detected, including the first
+  lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+  snoozedUntil: timestamp('snoozed_until'), // set while status is 'snoozed'; the issue reopens then
   resolvedAt: timestamp('resolved_at'),
   resolvedBy: varchar('resolved_by', { length: 255 }),
   resolution: text('resolution'),
@@ -268,20 +288,30 @@ export const issues = pgTable('issues', {
   index('issues_org_type_idx').on(table.orgId, table.issueType),
   index('issues_user_idx').on(table.userId),
   index('issues_created_idx').on(table.orgId, table.createdAt),
+  index('issues_org_environment_idx').on(table.orgId, table.environment),
+  index('issues_org_fingerprint_idx').on(table.orgId, table.fingerprint),
+  // One active issue per fingerprint; a concurrent duplicate insert fails with 23505
+  uniqueIndex('issues_org_active_fingerprint_idx')
+    .on(table.orgId, table.fingerprint)
+    .where(sql`${table.status} in ('open', 'acknowledged', 'snoozed')`),
 ]);
 
 // ─── Alert Configurations ────────────────────────────────────────────
 
-export const alertChannelEnum = pgEnum('alert_channel', ['slack', 'email', 'webhook', 'pagerduty']);
+export const alertChannelEnum = pgEnum('alert_channel', ['slack', 'email', 'webhook', 'pagerduty', 'opsgenie', 'teams', 'discord']);
 
 export const alertConfigurations = pgTable('alert_configurations', {
   id: uuid('id').primaryKey().defaultRandom(),
   orgId: uuid('org_id').notNull().references(() => organizations.id),
   channel: alertChannelEnum('channel').notNull(),
-  config: jsonb('config').notNull(), // Slack: { webhookUrl, channelName }, Email: { recipients: string[] }
+  config: jsonb('config').notNull(), // Slack, Teams, Discord: { webhookUrl, channelName }, Email: { recipients: string[] }
   severityFilter: text('severity_filter').array().notNull().default(['critical', 'warning', 'info']),
   issueTypes: text('issue_types').array(), // null = all types
   enabled: boolean('enabled').default(true).notNull(),
+  deliveryMode: varchar('delivery_mode', { length: 20 }).default('immediate').notNull(), // 'immediate', 'batched', 'digest'
+  deliverySchedule: jsonb('delivery_schedule'), // AlertDeliverySchedule; null for immediate
+  escalationPolicy: jsonb('escalation_policy'), // AlertEscalationPolicy; null = never escalate
+  quietHours: jsonb('quiet_hours'), // AlertQuietHours; null = alert at any time
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
@@ -297,15 +327,34 @@ export const alertDeliveryLogs = pgTable('alert_delivery_logs', {
   alertConfigId: uuid('alert_config_id').notNull().references(() => alertConfigurations.id),
   issueId: uuid('issue_id').references(() => issues.id),
   channel: alertChannelEnum('channel').notNull(),
-  status: varchar('status', { length: 50 }).notNull(), // 'sent', 'failed', 'rate_limited'
+  status: varchar('status', { length: 50 }).notNull(), // 'sent', 'failed', 'rate_limited', 'pending' (awaiting a batch or digest), 'skipped', 'suppressed' (quiet hours, mute)
   errorMessage: text('error_message'),
+  escalationLevel: integer('escalation_level').default(0).notNull(), // 0 = the alert itself, 1+ = escalations
   sentAt: timestamp('sent_at').defaultNow().notNull(),
 }, (table) => [
   index('alert_delivery_org_idx').on(table.orgId),
   index('alert_delivery_config_idx').on(table.alertConfigId),
+  index('alert_delivery_config_status_idx').on(table.alertConfigId, table.status),
   index('alert_delivery_sent_idx').on(table.orgId, table.sentAt),
 ]);
 
+// ─── Alert Mutes ─────────────────────────────────────────────────────
+// Silence alerts for an issue type, a user, or both, until a given time.
+// Issues are still raised; they're just not alerted on.
+
+export const alertMutes = pgTable('alert_mutes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orgId: uuid('org_id').notNull().references(() => organizations.id),
+  issueType: varchar('issue_type', { length: 100 }), // null = any type
+  userId: uuid('user_id').references(() => users.id), // null = any user
+  reason: text('reason'),
+  mutedUntil: timestamp('muted_until').notNull(),
+  createdBy: varchar('created_by', { length: 255 }).notNull(), // API key ID
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('alert_mutes_org_until_idx').on(table.orgId, table.mutedUntil),
+]);
+
 // ─── Webhook Logs ────────────────────────────────────────────────────
 
 export const webhookLogs = pgTable('webhook_logs', {
@@ -320,10 +369,13 @@ export const webhookLogs = pgTable('webhook_logs', {
   rawHeaders: jsonb('raw_headers'),
   rawBody: text('raw_body'),
   processedAt: timestamp('processed_at'),
+  // Set when the delivery was recovered from the provider's API after a webhook gap
+  recoveryIssueId: uuid('recovery_issue_id').references(() => issues.id),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('webhook_logs_org_source_idx').on(table.orgId, table.source),
   index('webhook_logs_created_idx').on(table.orgId, table.createdAt),
+  index('webhook_logs_recovery_issue_idx').on(table.recoveryIssueId),
 ]);
 
 // ─── Access Checks ───────────────────────────────────────────────────
@@ -350,7 +402,7 @@ export const accessChecks = pgTable('access_checks', {
 export const auditLogs = pgTable('audit_logs', {
   id: uuid('id').primaryKey().defaultRandom(),
   orgId: uuid('org_id').notNull().references(() => organizations.id),
-  actorType: varchar('actor_type', { length: 50 }).notNull(), // 'api_key', 'system', 'user'
+  actorType: varchar('actor_type', { length: 50 }).notNull(), // 'api_key', 'system', 'integration', 'user'
   actorId: varchar('actor_id', { length: 255 }).notNull(),
   action: varchar('action', { length: 100 }).notNull(),
   resourceType: varchar('resource_type', { length: 100 }).notNull(),
@@ -362,3 +414,74 @@ export const auditLogs = pgTable('audit_logs', {
   index('audit_logs_org_action_idx').on(table.orgId, table.action),
   index('audit_logs_org_created_idx').on(table.orgId, table.createdAt),
 ]);
+
+// ─── Apple Consumption Requests ─────────────────────────────────────
+// One row per CONSUMPTION_REQUEST notification, with the consumption
+// data sent back to Apple (or why nothing was sent).
+
+export const appleConsumptionRequests = pgTable('apple_consumption_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orgId: uuid('org_id').notNull().references(() => organizations.id),
+  userId: uuid('user_id').references(() => users.id),
+  notificationUuid: varchar('notification_uuid', { length: 255 }).notNull(),
+  transactionId: varchar('transaction_id', { length: 255 }).notNull(),
+  originalTransactionId: varchar('original_transaction_id', { length: 255 }).notNull(),
+  externalProductId: varchar('external_product_id', { length: 255 }),
+  reason: varchar('reason', { length: 50 }), // Apple's consumptionRequestReason
+  environment: varchar('environment', { length: 20 }).notNull().default('production'),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending, sent, skipped, failed, expired
+  skipReason: varchar('skip_reason', { length: 100 }),
+  consumptionData: jsonb('consumption_data'), // request body sent to Apple
+  errorMessage: text('error_message'),
+  attempts: integer('attempts').notNull().default(0),
+  requestedAt: timestamp('requested_at').notNull(), // Apple's signedDate
+  deadlineAt: timestamp('deadline_at').notNull(),
+  sentAt: timestamp('sent_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('apple_consumption_notification_idx').on(table.orgId, table.notificationUuid),
+  index('apple_consumption_org_requested_idx').on(table.orgId, table.requestedAt),
+]);
+
+// ─── FX Rates ───────────────────────────────────────────────────────
+// Daily exchange rates against USD, used to convert revenue into each
+// org's reporting currency. Rows without an org are shared (loaded from
+// FX_RATES_FILE); an org's own rows take precedence for the same day.
+
+export const fxRates = pgTable('fx_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orgId: uuid('org_id').references(() => organizations.id),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  unitsPerUsd: numeric('units_per_usd', { precision: 24, scale: 12 }).notNull(), // 1 USD = unitsPerUsd currency
+  effectiveDate: date('effective_date').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('fx_rates_shared_currency_date_idx')
+    .on(table.currency, table.effectiveDate)
+    .where(sql`${table.orgId} is null`),
+  uniqueIndex('fx_rates_org_currency_date_idx')
+    .on(table.orgId, table.currency, table.effectiveDate)
+    .where(sql`${table.orgId} is not null`),
+]);
+
+// ─── Detector Rules ─────────────────────────────────────────────────
+// Declarative detectors an org defines for itself. Each enabled rule runs
+// alongside the built-in detectors, per event and on the custom-rules scan.
+
+export const detectorRules = pgTable('detector_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orgId: uuid('org_id').notNull().references(() => organizations.id),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  severity: issueSeverityEnum('severity').notNull(),
+  conditions: jsonb('conditions').notNull(), // RuleCondition[], all must hold
+  titleTemplate: text('title_template').notNull(),
+  descriptionTemplate: text('description_template'),
+  enabled: boolean('enabled').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('detector_rules_org_idx').on(table.orgId),
+]);
@@ -27,8 +27,12 @@ export type AlertConfiguration = InferSelectModel<typeof schema.alertConfigurati
 export type NewAlertConfiguration = InferInsertModel<typeof schema.alertConfigurations>;
 export type AlertDeliveryLog = InferSelectModel<typeof schema.alertDeliveryLogs>;
 export type NewAlertDeliveryLog = InferInsertModel<typeof schema.alertDeliveryLogs>;
+export type AlertMute = InferSelectModel<typeof schema.alertMutes>;
 export type AccessCheck = InferSelectModel<typeof schema.accessChecks>;
 export type NewAccessCheck = InferInsertModel<typeof schema.accessChecks>;
+export type AppleConsumptionRequest = InferSelectModel<typeof schema.appleConsumptionRequests>;
+export type FxRate = InferSelectModel<typeof schema.fxRates>;
+export type DetectorRule = InferSelectModel<typeof schema.detectorRules>;
 
 // ─── Domain types ───────────────────────────────────────────────────
 
@@ -70,7 +74,7 @@ export type EntitlementState =
   | 'refunded';
 
 export type IssueSeverity = 'critical' | 'warning' | 'info';
-export type IssueStatus = 'open' | 'acknowledged' | 'resolved' | 'dismissed';
+export type IssueStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved' | 'dismissed';
 
 /** Raw webhook payload before normalization */
 export interface RawWebhookEvent {
@@ -89,18 +93,135 @@ export interface NormalizedEvent {
   eventType: EventType;
   eventTime: Date;
   status: EventStatus;
+  /** Gross: what the customer paid, tax included */
   amountCents?: number;
   currency?: string;
+  /** Tax included in amountCents, where the source reports it */
+  taxCents?: number;
+  /** Store commission or payment processing fee, where known */
+  feeCents?: number;
+  /**
+   * The app store's commission rate for this charge before any small
+   * business program reduction (Apple, Google). The pipeline turns it into
+   * feeCents.
+   */
+  commissionRate?: number;
   externalEventId?: string;
   externalSubscriptionId?: string;
   billingInterval?: string;
   planTier?: string;
   trialStartedAt?: Date;
+  /** Net: amountCents less taxCents and feeCents. Set by the pipeline */
+  proceedsCents?: number;
+  originalTransactionId?: string;
+  subscriptionGroupId?: string;
+  periodType?: PeriodType;
+  expirationTime?: Date;
+  gracePeriodExpiration?: Date;
+  cancellationReason?: CancellationReason;
+  isFamilyShare?: boolean;
+  environment?: BillingEnvironment;
+  countryCode?: string;
+  /**
+   * The source's product ID, for normalizers that emit several events
+   * per payload for different products (Recurly add-ons). Otherwise the
+   * pipeline reads it from the raw payload.
+   */
+  externalProductId?: string;
   idempotencyKey: string;
   rawPayload: Record<string, unknown>;
   identityHints: IdentityHint[];
 }
 
+export type BillingEnvironment = 'production' | 'sandbox';
+
+/** products.externalIds: every external product ID each source uses for the product */
+export type ProductExternalIds = Partial<Record<BillingSource, string[]>>;
+
+/** Per-org settings, stored in organizations.settings */
+export interface OrgSettings {
+  /** Discard sandbox/test-mode events at ingestion instead of storing them */
+  dropSandboxEvents?: boolean;
+  /** Answer Apple CONSUMPTION_REQUEST notifications; off unless set */
+  appleConsumption?: AppleConsumptionSettings;
+  /** Check entitlements against the providers' subscription APIs; off unless set */
+  reconciliation?: ReconciliationSettings;
+  /** ISO 4217 code revenue figures are converted to. Default: USD */
+  reportingCurrency?: string;
+  /**
+   * Stores the org is enrolled with in a reduced-commission program (App
+   * Store Small Business Program, Google Play's 15% tier), so every charge
+   * there is net of 15% instead of 30%
+   */
+  smallBusinessProgram?: Partial<Record<'apple' | 'google', boolean>>;
+  /** Overrides for the built-in detectors, keyed by detector ID */
+  detectors?: Record<string, DetectorSettings>;
+}
+
+/** An org's overrides for one built-in detector; unset keys keep the defaults */
+export interface DetectorSettings {
+  /** `false` stops the detector raising or auto-resolving issues for the org */
+  enabled?: boolean;
+  /** Severity of every issue the detector raises, instead of its own call */
+  severity?: IssueSeverity;
+  /** Values for the detector's tunable thresholds, keyed by threshold name */
+  thresholds?: Record<string, number>;
+}
+
+export interface ReconciliationSettings {
+  enabled: boolean;
+  /** `sample` checks sampleSize random subscriptions per connection each run; `full` checks all of them */
+  mode?: 'sample' | 'full';
+  /** Default: 100 */
+  sampleSize?: number;
+  /** Set drifted entitlements to the provider's state instead of only reporting them */
+  autoCorrect?: boolean;
+}
+
+/** Why Apple is asking for consumption data (the customer's refund reason) */
+export type AppleConsumptionRequestReason =
+  | 'UNINTENDED_PURCHASE'
+  | 'FULFILLMENT_ISSUE'
+  | 'UNSATISFIED_WITH_PURCHASE'
+  | 'LEGAL'
+  | 'OTHER';
+
+export interface AppleConsumptionSettings {
+  /** Send consumption data to Apple */
+  enabled: boolean;
+  /**
+   * The org's customers have consented to sharing their consumption data
+   * (Apple's customerConsented). Nothing is sent until this is true.
+   */
+  customerConsented?: boolean;
+  /** The refund outcome to ask Apple for; undeclared when unset */
+  refundPreference?: 'decline' | 'grant' | 'no_preference';
+  /** Whether the app offers a free sample or trial before purchase */
+  sampleContentProvided?: boolean;
+  /** Only answer requests with these reasons; all reasons when unset */
+  reasons?: AppleConsumptionRequestReason[];
+}
+
+/** pending → sent; or skipped (opt-in rules), failed (will retry), expired (12h window passed) */
+export type AppleConsumptionStatus = 'pending' | 'sent' | 'skipped' | 'failed' | 'expired';
+
+/** Pricing phase of the period an event belongs to */
+export type PeriodType = 'trial' | 'intro' | 'normal' | 'promotional';
+
+/**
+ * Why a subscription stopped (or will stop) renewing. `developer` and
+ * `replaced` are Google-only: cancelled via the API, or superseded by a
+ * new purchase token on upgrade/downgrade.
+ */
+export type CancellationReason =
+  | 'voluntary'
+  | 'billing_failure'
+  | 'refund'
+  | 'price_increase'
+  | 'product_unavailable'
+  | 'developer'
+  | 'replaced';
+
 /** Hints for resolving user identity from raw events */
 export interface IdentityHint {
   source: BillingSource;
@@ -113,9 +234,16 @@ export interface IdentityHint {
 export interface StateTransition {
   from: EntitlementState;
   to: EntitlementState;
-  eventType: EventType;
-  eventId: string;
+  /** `reconciliation` when the state was corrected to the provider's view, with no event */
+  eventType: EventType | 'reconciliation';
+  eventId: string | null;
   timestamp: Date;
+  /**
+   * Set when the event arrived after a later event had already been applied
+   * and the state was re-derived from the ordered history. `from`/`to` are
+   * the states before and after the re-derivation.
+   */
+  reordered?: boolean;
 }
 
 export type DetectionTier = 'billing_only' | 'app_verified';
@@ -127,15 +255,92 @@ export interface DetectedIssue {
   title: string;
   description: string;
   userId?: string;
+  /** In revenueCurrency; the engine converts it to the org's reporting currency */
   estimatedRevenueCents?: number;
+  /** Currency of estimatedRevenueCents. Omit when it's already in the reporting currency */
+  revenueCurrency?: string;
+  /** Net of tax and fees, in revenueCurrency. Default: estimatedRevenueCents */
+  netRevenueCents?: number;
+  /** When the money changed hands, which picks the exchange rate. Default: now */
+  revenueAt?: Date;
   confidence: number;
   evidence: Record<string, unknown>;
   detectionTier?: DetectionTier;
 }
 
+/**
+ * Outcome of replaying the notifications missed during a webhook delivery
+ * gap, stored on the gap issue as `evidence.recovery`.
+ */
+export interface GapRecoveryOutcome {
+  status: 'completed' | 'failed' | 'skipped';
+  /** Why nothing was replayed, when skipped */
+  reason?: string;
+  /** ISO timestamps of the window asked for */
+  from: string;
+  to: string;
+  /** Notifications the provider returned for the window */
+  found: number;
+  /** Already stored before recovery — nothing to replay */
+  alreadyReceived: number;
+  replayed: number;
+  failed: number;
+  errors?: string[];
+  completedAt: string;
+}
+
+/** Result of reconciling one billing connection's entitlements with the provider */
+export interface ReconciliationOutcome {
+  status: 'completed' | 'skipped';
+  /** Why nothing was checked, when skipped */
+  reason?: string;
+  source: BillingSource;
+  mode: 'sample' | 'full';
+  checked: number;
+  /** Entitlements whose access disagreed with the provider */
+  drifted: number;
+  corrected: number;
+  /** The provider no longer knows the subscription, or it isn't one we can look up */
+  notFound: number;
+  failed: number;
+  errors?: string[];
+  completedAt: string;
+}
+
+// ─── Detector rule types ────────────────────────────────────────────
+
+/** What a rule condition looks at, for one entitlement */
+export type RuleSubject = 'entitlement' | 'event' | 'accessCheck';
+
+export type RuleOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists'
+  | 'not_exists';
+
+export type RuleValue = string | number | boolean;
+
+/**
+ * One condition of a detector rule, e.g. the entitlement's `daysInState`
+ * is `gt` 3. `value` is a list for `in` and `not_in`, and omitted for
+ * `exists` and `not_exists`.
+ */
+export interface RuleCondition {
+  subject: RuleSubject;
+  field: string;
+  operator: RuleOperator;
+  value?: RuleValue | RuleValue[];
+}
+
 // ─── Alert types ────────────────────────────────────────────────────
 
-export type AlertChannel = 'slack' | 'email' | 'webhook' | 'pagerduty';
+export type AlertChannel = 'slack' | 'email' | 'webhook' | 'pagerduty' | 'opsgenie' | 'teams' | 'discord';
 
 export interface SlackAlertConfig {
   webhookUrl: string;
@@ -152,7 +357,12 @@ export interface WebhookAlertConfig {
   eventTypes?: WebhookEventType[];
 }
 
-export type WebhookEventType = 'issue.created' | 'issue.resolved' | 'issue.dismissed' | 'issue.acknowledged';
+export type WebhookEventType =
+  | 'issue.created'
+  | 'issue.resolved'
+  | 'issue.reopened'
+  | 'issue.dismissed'
+  | 'issue.acknowledged';
 
 export interface WebhookPayload {
   id: string;
@@ -166,6 +376,95 @@ export interface WebhookPayload {
 
 export interface PagerDutyAlertConfig {
   routingKey: string;
+  /** Signing secret of a V3 webhook subscription; enables syncing incident changes back */
+  webhookSecret?: string;
+}
+
+export type OpsgenieRegion = 'us' | 'eu';
+
+export interface OpsgenieAlertConfig {
+  /** Key of an Opsgenie API integration */
+  apiKey: string;
+  region?: OpsgenieRegion;
+  /** Sent by Opsgenie's outgoing webhook as a custom header; enables syncing alert changes back */
+  webhookSecret?: string;
+}
+
+export interface TeamsAlertConfig {
+  /** Incoming webhook or Workflows URL for the channel */
+  webhookUrl: string;
+  channelName?: string;
+}
+
+export interface DiscordAlertConfig {
+  webhookUrl: string;
+  channelName?: string;
 }
 
-export type AlertConfig = SlackAlertConfig | EmailAlertConfig | WebhookAlertConfig | PagerDutyAlertConfig;
+export type AlertConfig =
+  | SlackAlertConfig
+  | EmailAlertConfig
+  | WebhookAlertConfig
+  | PagerDutyAlertConfig
+  | OpsgenieAlertConfig
+  | TeamsAlertConfig
+  | DiscordAlertConfig;
+
+/**
+ * How an alert configuration delivers its issues: one message per issue
+ * as it's detected, one message per batch window, or a daily or weekly
+ * digest. Batches and digests are Slack and email only.
+ */
+export type AlertDeliveryMode = 'immediate' | 'batched' | 'digest';
+
+/**
+ * When a batched or digest alert configuration sends. Batches use
+ * `windowMinutes`; digests use the rest, with `hour` and `dayOfWeek`
+ * (0 = Sunday) in `timezone`.
+ */
+export interface AlertDeliverySchedule {
+  windowMinutes?: number;
+  frequency?: 'daily' | 'weekly';
+  hour?: number;
+  dayOfWeek?: number;
+  timezone?: string;
+}
+
+/**
+ * What happens when an alerted issue is still `open` — not acknowledged,
+ * resolved or dismissed — `afterMinutes` after the alert: this
+ * configuration notifies again, or the one it escalates to does. Up to
+ * `maxEscalations` times, `afterMinutes` apart.
+ */
+export interface AlertEscalationPolicy {
+  afterMinutes: number;
+  /** Severities that escalate; critical only by default */
+  severities?: IssueSeverity[];
+  /** Another of the org's alert configurations to notify instead, e.g. PagerDuty after Slack */
+  escalateToAlertConfigId?: string;
+  maxEscalations?: number;
+}
+
+/**
+ * Hours during which an alert configuration stays silent, as "HH:MM" in
+ * `timezone`. A window that ends before it starts runs past midnight.
+ * Critical issues still alert unless `allowCritical` is false.
+ */
+export interface AlertQuietHours {
+  start: string;
+  end: string;
+  timezone: string;
+  allowCritical?: boolean;
+}
+
+/** An escalation notice: the how-manyth it is, and how long the issue has gone unacknowledged */
+export interface AlertEscalation {
+  level: number;
+  openMinutes: number;
+}
+
+/** What a digest covers, for its heading: e.g. "Daily Digest" over "the last 24 hours" */
+export interface AlertDigestPeriod {
+  title: string;
+  window: string;
+}
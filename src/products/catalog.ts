@@ -0,0 +1,202 @@
+import { eq, and, ne, or, inArray, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../config/database.js';
+import {
+  products,
+  canonicalEvents,
+  entitlements,
+  issues,
+  accessChecks,
+} from '../models/schema.js';
+import type { BillingSource, Product, ProductExternalIds } from '../models/types.js';
+import { EntitlementReplayer } from '../entitlement/replay.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('product-catalog');
+
+export interface ExternalIdConflict {
+  source: BillingSource;
+  externalId: string;
+  productId: string;
+  productName: string;
+}
+
+export interface ProductMergeResult {
+  targetProductId: string;
+  mergedProductId: string;
+  externalIds: ProductExternalIds;
+  eventsMoved: number;
+  entitlementsMoved: number;
+  /** Entitlements a user had on both products from the same source, rebuilt from the combined events */
+  entitlementsRebuilt: number;
+  accessChecksMoved: number;
+  /** Issues whose evidence.productId pointed at the merged product */
+  issuesUpdated: number;
+}
+
+/**
+ * Product catalog: external ID lookup and product merge.
+ *
+ * A product carries every external ID each billing source uses for it
+ * (`{ stripe: ["prod_x"], apple: ["com.app.premium", ...] }`), so one
+ * "Premium" product can stand for a Stripe product, an App Store product
+ * and a Play SKU. Each external ID maps to at most one product per org.
+ *
+ * Merge folds one product into another: external IDs are combined, and
+ * events, entitlements, access checks and issue evidence are re-pointed
+ * before the merged product is deleted. Where a user had an entitlement
+ * on both products from the same source, it is rebuilt from the combined
+ * event history.
+ */
+export class ProductCatalog {
+  constructor(private db: Database) {}
+
+  async findByExternalId(
+    orgId: string,
+    source: BillingSource,
+    externalId: string,
+  ): Promise<Product | undefined> {
+    const [product] = await this.db
+      .select()
+      .from(products)
+      .where(and(eq(products.orgId, orgId), externalIdCondition(source, externalId)))
+      .limit(1);
+
+    return product;
+  }
+
+  /**
+   * External IDs in `externalIds` that already belong to another product.
+   */
+  async findConflicts(
+    orgId: string,
+    externalIds: ProductExternalIds,
+    excludeProductId?: string,
+  ): Promise<ExternalIdConflict[]> {
+    const pairs = externalIdPairs(externalIds);
+    if (pairs.length === 0) return [];
+
+    const owners = await this.db
+      .select()
+      .from(products)
+      .where(
+        and(
+          eq(products.orgId, orgId),
+          excludeProductId ? ne(products.id, excludeProductId) : undefined,
+          or(...pairs.map(p => externalIdCondition(p.source, p.externalId))),
+        ),
+      );
+
+    const conflicts: ExternalIdConflict[] = [];
+    for (const { source, externalId } of pairs) {
+      const owner = owners.find(p => (p.externalIds as ProductExternalIds)[source]?.includes(externalId));
+      if (owner) {
+        conflicts.push({ source, externalId, productId: owner.id, productName: owner.name });
+      }
+    }
+    return conflicts;
+  }
+
+  async merge(orgId: string, target: Product, source: Product): Promise<ProductMergeResult> {
+    const externalIds = mergeExternalIds(
+      target.externalIds as ProductExternalIds,
+      source.externalIds as ProductExternalIds,
+    );
+
+    const { result, usersToRebuild } = await this.db.transaction(async (tx) => {
+      await tx
+        .update(products)
+        .set({ externalIds, autoCreated: false, updatedAt: new Date() })
+        .where(eq(products.id, target.id));
+
+      const eventsMoved = await tx
+        .update(canonicalEvents)
+        .set({ productId: target.id })
+        .where(and(eq(canonicalEvents.orgId, orgId), eq(canonicalEvents.productId, source.id)))
+        .returning({ id: canonicalEvents.id });
+
+      // Entitlements: move unless the user already has one on the target
+      // for the same source and environment
+      const [sourceEnts, targetEnts] = await Promise.all([
+        tx.select().from(entitlements)
+          .where(and(eq(entitlements.orgId, orgId), eq(entitlements.productId, source.id))),
+        tx.select().from(entitlements)
+          .where(and(eq(entitlements.orgId, orgId), eq(entitlements.productId, target.id))),
+      ]);
+      const targetKeys = new Set(targetEnts.map(e => `${e.userId}:${e.source}:${e.environment}`));
+      const conflicting = sourceEnts.filter(e => targetKeys.has(`${e.userId}:${e.source}:${e.environment}`));
+      const movable = sourceEnts.filter(e => !conflicting.includes(e));
+
+      if (conflicting.length > 0) {
+        await tx.delete(entitlements).where(inArray(entitlements.id, conflicting.map(e => e.id)));
+      }
+      if (movable.length > 0) {
+        await tx
+          .update(entitlements)
+          .set({ productId: target.id, updatedAt: new Date() })
+          .where(inArray(entitlements.id, movable.map(e => e.id)));
+      }
+
+      const accessChecksMoved = await tx
+        .update(accessChecks)
+        .set({ productId: target.id })
+        .where(and(eq(accessChecks.orgId, orgId), eq(accessChecks.productId, source.id)))
+        .returning({ id: accessChecks.id });
+
+      const issuesUpdated = await tx
+        .update(issues)
+        .set({
+          evidence: sql`jsonb_set(${issues.evidence}, '{productId}', ${JSON.stringify(target.id)}::jsonb)`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(issues.orgId, orgId), sql`${issues.evidence}->>'productId' = ${source.id}`))
+        .returning({ id: issues.id });
+
+      await tx.delete(products).where(and(eq(products.orgId, orgId), eq(products.id, source.id)));
+
+      return {
+        result: {
+          targetProductId: target.id,
+          mergedProductId: source.id,
+          externalIds,
+          eventsMoved: eventsMoved.length,
+          entitlementsMoved: movable.length,
+          entitlementsRebuilt: conflicting.length,
+          accessChecksMoved: accessChecksMoved.length,
+          issuesUpdated: issuesUpdated.length,
+        },
+        usersToRebuild: [...new Set(conflicting.map(e => e.userId))],
+      };
+    });
+
+    if (usersToRebuild.length > 0) {
+      const replayer = new EntitlementReplayer(this.db);
+      for (const userId of usersToRebuild) {
+        await replayer.run({ orgId, userId }, false);
+      }
+    }
+
+    log.info({ orgId, ...result, externalIds: undefined }, 'Products merged');
+    return result;
+  }
+}
+
+/** Union of two external ID maps, without duplicates. */
+export function mergeExternalIds(a: ProductExternalIds, b: ProductExternalIds): ProductExternalIds {
+  const merged: ProductExternalIds = {};
+  for (const map of [a, b]) {
+    for (const [source, ids] of Object.entries(map) as [BillingSource, string[]][]) {
+      merged[source] = [...new Set([...(merged[source] ?? []), ...ids])];
+    }
+  }
+  return merged;
+}
+
+function externalIdPairs(externalIds: ProductExternalIds) {
+  return (Object.entries(externalIds) as [BillingSource, string[]][])
+    .flatMap(([source, ids]) => ids.map(externalId => ({ source, externalId })));
+}
+
+/** external_ids @> {"<source>": ["<id>"]} — served by the GIN index */
+function externalIdCondition(source: BillingSource, externalId: string): SQL {
+  return sql`${products.externalIds} @> ${JSON.stringify({ [source]: [externalId] })}::jsonb`;
+}
@@ -0,0 +1,170 @@
+import type { Job } from 'bullmq';
+import { eq, and } from 'drizzle-orm';
+import { getDb } from '../config/database.js';
+import { getQueue, createWorker, QUEUE_NAMES } from '../config/queue.js';
+import { alertConfigurations } from '../models/schema.js';
+import type { AlertDeliverySchedule } from '../models/types.js';
+import { deliverPendingAlerts, isDigestDue } from '../alerts/digest.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-digest-worker');
+
+/** Digests are checked at the top of every hour; each config says which hour is its own */
+const SCHEDULE_PATTERN = '0 * * * *';
+
+// ─── Job Data Types ──────────────────────────────────────────────────
+
+export interface AlertBatchJobData {
+  alertConfigId: string;
+}
+
+// ─── Enqueue Batch Delivery ──────────────────────────────────────────
+
+/**
+ * Schedule delivery of a batched alert configuration's pending issues at
+ * the end of the current window. Windows are aligned to the clock, and
+ * the job ID is per window, so every issue in a window shares one job.
+ * Without a window the pending issues are delivered right away.
+ */
+export async function enqueueAlertBatch(alertConfigId: string, windowMinutes?: number): Promise<void> {
+  const queue = getQueue(QUEUE_NAMES.ALERT_DIGESTS);
+  const now = Date.now();
+
+  let jobId = `alert-flush-${alertConfigId}-${now}`;
+  let delay = 0;
+  if (windowMinutes) {
+    const windowMs = windowMinutes * 60_000;
+    const windowEnd = (Math.floor(now / windowMs) + 1) * windowMs;
+    jobId = `alert-batch-${alertConfigId}-${windowEnd}`;
+    delay = windowEnd - now;
+  }
+
+  await queue.add('deliver-batch', { alertConfigId } satisfies AlertBatchJobData, {
+    jobId,
+    delay,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 30_000,
+    },
+    removeOnComplete: {
+      age: 24 * 3600,
+      count: 500,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600,
+      count: 500,
+    },
+  });
+
+  log.debug({ alertConfigId, jobId, delayMs: delay }, 'Alert batch scheduled');
+}
+
+// ─── Worker Processor ────────────────────────────────────────────────
+
+async function processBatchJob(job: Job<AlertBatchJobData>) {
+  const db = getDb();
+  const { alertConfigId } = job.data;
+
+  const [config] = await db
+    .select()
+    .from(alertConfigurations)
+    .where(eq(alertConfigurations.id, alertConfigId))
+    .limit(1);
+
+  // Deleted, or disabled: pending issues wait until it's re-enabled.
+  // Digests collect their own pending issues on schedule.
+  if (!config || !config.enabled || config.deliveryMode === 'digest') {
+    log.debug({ alertConfigId }, 'Alert configuration not found, disabled, or a digest; batch not sent');
+    return null;
+  }
+
+  const result = await deliverPendingAlerts(db, config);
+
+  // The issues are still pending; throwing lets BullMQ retry with backoff
+  if (result.failed > 0) {
+    throw new Error(`Alert batch delivery failed for ${result.failed} issue(s)`);
+  }
+
+  return result;
+}
+
+async function processDigestJob(job: Job) {
+  const db = getDb();
+  const now = new Date();
+
+  const configs = await db
+    .select()
+    .from(alertConfigurations)
+    .where(
+      and(
+        eq(alertConfigurations.deliveryMode, 'digest'),
+        eq(alertConfigurations.enabled, true),
+      ),
+    );
+
+  const due = configs.filter(c => isDigestDue((c.deliverySchedule ?? {}) as AlertDeliverySchedule, now));
+  let sent = 0;
+
+  for (const config of due) {
+    try {
+      const result = await deliverPendingAlerts(db, config);
+      if (result.sent > 0) sent++;
+    } catch (err) {
+      // One config's failure shouldn't hold up the other orgs' digests
+      log.error({ err, configId: config.id, orgId: config.orgId }, 'Alert digest failed');
+    }
+  }
+
+  log.info({ jobId: job.id, due: due.length, sent }, 'Alert digests processed');
+  return { due: due.length, sent };
+}
+
+// ─── Start Worker ────────────────────────────────────────────────────
+
+let _workerStarted = false;
+
+/**
+ * Start the alert digest worker, which sends batched alerts when their
+ * window closes and daily/weekly digests on schedule.
+ * Should be called once during server initialization.
+ */
+export function startAlertDigestWorker(): void {
+  if (_workerStarted) {
+    log.warn('Alert digest worker already started');
+    return;
+  }
+
+  createWorker(
+    QUEUE_NAMES.ALERT_DIGESTS,
+    (job) => job.name === 'send-digests' ? processDigestJob(job) : processBatchJob(job as Job<AlertBatchJobData>),
+    {
+      // One delivery at a time, so a batch and a flush of the same config can't both send it
+      concurrency: 1,
+    },
+  );
+
+  _workerStarted = true;
+  log.info('Alert digest worker started');
+}
+
+/**
+ * Register the hourly digest check. Replaces any previously registered
+ * schedule, so a changed pattern takes effect on restart.
+ */
+export async function startAlertDigestScheduler(): Promise<void> {
+  const queue = getQueue(QUEUE_NAMES.ALERT_DIGESTS);
+
+  const existing = await queue.getRepeatableJobs();
+  for (const job of existing) {
+    await queue.removeRepeatableByKey(job.key);
+  }
+
+  await queue.add('send-digests', {}, {
+    repeat: { pattern: SCHEDULE_PATTERN },
+    removeOnComplete: { count: 48 },
+    removeOnFail: { count: 48 },
+  });
+
+  log.info({ cron: SCHEDULE_PATTERN }, 'Alert digests scheduled');
+}
@@ -0,0 +1,163 @@
+import type { Job } from 'bullmq';
+import { eq, and } from 'drizzle-orm';
+import { getDb } from '../config/database.js';
+import { getQueue, createWorker, QUEUE_NAMES } from '../config/queue.js';
+import { alertConfigurations, alertDeliveryLogs, issues } from '../models/schema.js';
+import type { AlertEscalationPolicy, Issue } from '../models/types.js';
+import { deliverAlert } from '../alerts/delivery.js';
+import { loadActiveMutes, suppressionReason, recordSuppressedAlert } from '../alerts/suppression.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('alert-escalation-worker');
+
+// ─── Job Data Types ──────────────────────────────────────────────────
+
+export interface AlertEscalationJobData {
+  /** The alert configuration whose policy this is */
+  alertConfigId: string;
+  issueId: string;
+  /** 1 for the first escalation */
+  level: number;
+}
+
+// ─── Enqueue Escalation ──────────────────────────────────────────────
+
+/**
+ * Schedule an escalation check for an alerted issue `afterMinutes` from
+ * now. The job ID is per config, issue and level, so an issue is never
+ * escalated twice at the same level.
+ */
+export async function enqueueAlertEscalation(data: AlertEscalationJobData, afterMinutes: number): Promise<void> {
+  const queue = getQueue(QUEUE_NAMES.ALERT_ESCALATIONS);
+  const jobId = `alert-escalation-${data.alertConfigId}-${data.issueId}-${data.level}`;
+
+  await queue.add('escalate-alert', data, {
+    jobId,
+    delay: afterMinutes * 60_000,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 30_000,
+    },
+    removeOnComplete: {
+      age: 7 * 24 * 3600,
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600,
+      count: 1000,
+    },
+  });
+
+  log.debug({ ...data, jobId, afterMinutes }, 'Alert escalation scheduled');
+}
+
+// ─── Worker Processor ────────────────────────────────────────────────
+
+/**
+ * Escalate an issue that's still open: notify the policy's target (or
+ * the alert configuration itself), then schedule the next level if the
+ * policy allows more. Acknowledging, resolving or dismissing the issue
+ * stops the chain at the next check.
+ */
+async function processEscalationJob(job: Job<AlertEscalationJobData>): Promise<string> {
+  const db = getDb();
+  const { alertConfigId, issueId, level } = job.data;
+
+  const [issue] = await db
+    .select()
+    .from(issues)
+    .where(eq(issues.id, issueId))
+    .limit(1);
+
+  if (!issue || issue.status !== 'open') {
+    log.debug({ alertConfigId, issueId, status: issue?.status }, 'Issue no longer open, not escalating');
+    return 'not_open';
+  }
+
+  const [config] = await db
+    .select()
+    .from(alertConfigurations)
+    .where(eq(alertConfigurations.id, alertConfigId))
+    .limit(1);
+
+  const policy = config?.escalationPolicy as AlertEscalationPolicy | null | undefined;
+  if (!config || !config.enabled || !policy) {
+    log.debug({ alertConfigId, issueId }, 'Alert configuration gone, disabled, or no longer escalates');
+    return 'no_policy';
+  }
+
+  let target = config;
+  if (policy.escalateToAlertConfigId) {
+    const [escalateTo] = await db
+      .select()
+      .from(alertConfigurations)
+      .where(
+        and(
+          eq(alertConfigurations.id, policy.escalateToAlertConfigId),
+          eq(alertConfigurations.orgId, config.orgId),
+        ),
+      )
+      .limit(1);
+
+    // Record the missed escalation against the policy's own config, where it can be seen and fixed
+    if (!escalateTo || !escalateTo.enabled) {
+      await db.insert(alertDeliveryLogs).values({
+        orgId: config.orgId,
+        alertConfigId: config.id,
+        issueId,
+        channel: config.channel,
+        status: 'failed',
+        errorMessage: escalateTo ? 'Escalation target is disabled' : 'Escalation target no longer exists',
+        escalationLevel: level,
+      });
+      log.warn({ alertConfigId, issueId, escalateToAlertConfigId: policy.escalateToAlertConfigId }, 'Escalation target unavailable');
+      return 'no_target';
+    }
+    target = escalateTo;
+  }
+
+  // Quiet hours and mutes hold back this level; later levels still follow
+  const suppressed = suppressionReason(target, issue, await loadActiveMutes(db, config.orgId));
+  let outcome: string;
+  if (suppressed) {
+    await recordSuppressedAlert(db, target, issue, suppressed, level);
+    outcome = 'suppressed';
+  } else {
+    const result = await deliverAlert(db, target, issue as Issue, {
+      level,
+      openMinutes: level * policy.afterMinutes,
+    });
+    outcome = result.success ? 'sent' : 'failed';
+  }
+
+  if (level < (policy.maxEscalations ?? 1)) {
+    await enqueueAlertEscalation({ alertConfigId, issueId, level: level + 1 }, policy.afterMinutes);
+  }
+
+  log.info({ alertConfigId, targetConfigId: target.id, issueId, level, outcome }, 'Alert escalated');
+  return outcome;
+}
+
+// ─── Start Worker ────────────────────────────────────────────────────
+
+let _workerStarted = false;
+
+/**
+ * Start the alert escalation worker.
+ * Should be called once during server initialization.
+ */
+export function startAlertEscalationWorker(): void {
+  if (_workerStarted) {
+    log.warn('Alert escalation worker already started');
+    return;
+  }
+
+  createWorker<AlertEscalationJobData>(
+    QUEUE_NAMES.ALERT_ESCALATIONS,
+    processEscalationJob,
+  );
+
+  _workerStarted = true;
+  log.info('Alert escalation worker started');
+}
@@ -0,0 +1,73 @@
+import type { Job } from 'bullmq';
+import { getDb } from '../config/database.js';
+import { getQueue, createWorker, QUEUE_NAMES } from '../config/queue.js';
+import { AppleConsumptionResponder } from '../ingestion/providers/apple-consumption.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('consumption-worker');
+
+// ─── Job Data Types ──────────────────────────────────────────────────
+
+export interface ConsumptionJobData {
+  orgId: string;
+  /** apple_consumption_requests row to send */
+  requestId: string;
+}
+
+// ─── Enqueue Consumption Response ────────────────────────────────────
+
+/**
+ * Enqueue sending consumption data to Apple. Retries back off over about
+ * an hour, well inside Apple's 12-hour window.
+ */
+export async function enqueueConsumptionResponse(data: ConsumptionJobData): Promise<string> {
+  const queue = getQueue(QUEUE_NAMES.APPLE_CONSUMPTION);
+
+  const job = await queue.add('send-consumption', data, {
+    jobId: `consumption-${data.requestId}`,
+    attempts: 7,
+    backoff: {
+      type: 'exponential',
+      delay: 30_000, // 30s, 1m, 2m, 4m, 8m, 16m
+    },
+  });
+
+  log.info({ jobId: job.id, orgId: data.orgId, requestId: data.requestId }, 'Consumption response job enqueued');
+
+  return job.id!;
+}
+
+// ─── Worker Processor ────────────────────────────────────────────────
+
+async function processConsumptionJob(job: Job<ConsumptionJobData>): Promise<void> {
+  const { orgId, requestId } = job.data;
+
+  log.info({ jobId: job.id, orgId, requestId, attempt: job.attemptsMade + 1 }, 'Sending Apple consumption data');
+
+  const responder = new AppleConsumptionResponder(getDb());
+  await responder.send(requestId);
+}
+
+// ─── Start Worker ────────────────────────────────────────────────────
+
+let _workerStarted = false;
+
+/**
+ * Start the Apple consumption response worker.
+ * Should be called once during server initialization.
+ */
+export function startConsumptionWorker(): void {
+  if (_workerStarted) {
+    log.warn('Consumption worker already started');
+    return;
+  }
+
+  createWorker<ConsumptionJobData>(
+    QUEUE_NAMES.APPLE_CONSUMPTION,
+    processConsumptionJob,
+    { concurrency: 5 },
+  );
+
+  _workerStarted = true;
+  log.info('Consumption worker started');
+}
@@ -0,0 +1,93 @@
+import type { Job } from 'bullmq';
+import { getDb } from '../config/database.js';
+import { getQueue, createWorker, QUEUE_NAMES } from '../config/queue.js';
+import { WebhookGapRecovery } from '../ingestion/recovery/gap-recovery.js';
+import type { BillingSource, GapRecoveryOutcome } from '../models/types.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('gap-recovery-worker');
+
+// ─── Job Data Types ──────────────────────────────────────────────────
+
+export interface GapRecoveryJobData {
+  orgId: string;
+  /** webhook_delivery_gap issue to recover; the window comes from its evidence */
+  issueId?: string;
+  /** Or an explicit window for one source (admin API), as ISO strings */
+  source?: BillingSource;
+  from?: string;
+  to?: string;
+}
+
+// ─── Enqueue Gap Recovery ────────────────────────────────────────────
+
+/**
+ * Enqueue recovery of the notifications missed during a webhook gap.
+ * Provider API failures retry with backoff. Returns the BullMQ job ID,
+ * which the admin API uses to report the outcome.
+ */
+export async function enqueueGapRecovery(data: GapRecoveryJobData): Promise<string> {
+  const queue = getQueue(QUEUE_NAMES.GAP_RECOVERY);
+
+  const job = await queue.add('recover-webhook-gap', data, {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 60_000, // 1m, 2m
+    },
+    removeOnComplete: {
+      age: 7 * 24 * 3600, // Keep outcomes for 7 days
+      count: 200,
+    },
+  });
+
+  log.info({
+    jobId: job.id,
+    orgId: data.orgId,
+    issueId: data.issueId,
+    source: data.source,
+  }, 'Gap recovery job enqueued');
+
+  return job.id!;
+}
+
+// ─── Worker Processor ────────────────────────────────────────────────
+
+async function processGapRecoveryJob(job: Job<GapRecoveryJobData>): Promise<GapRecoveryOutcome | null> {
+  const { orgId, issueId, source, from, to } = job.data;
+
+  log.info({ jobId: job.id, orgId, issueId, source, attempt: job.attemptsMade + 1 }, 'Recovering webhook gap');
+
+  const recovery = new WebhookGapRecovery(getDb());
+  if (issueId) {
+    return recovery.recover(orgId, issueId);
+  }
+  return recovery.recoverWindow(orgId, source!, new Date(from!), to ? new Date(to) : new Date());
+}
+
+// ─── Start Worker ────────────────────────────────────────────────────
+
+let _workerStarted = false;
+
+/**
+ * Start the webhook gap recovery worker.
+ * Should be called once during server initialization.
+ */
+export function startGapRecoveryWorker(): void {
+  if (_workerStarted) {
+    log.warn('Gap recovery worker already started');
+    return;
+  }
+
+  createWorker<GapRecoveryJobData>(
+    QUEUE_NAMES.GAP_RECOVERY,
+    processGapRecoveryJob,
+    {
+      // Replays run the full pipeline per notification; keep it to one gap at a time
+      concurrency: 1,
+    },
+  );
+
+  _workerStarted = true;
+  log.info('Gap recovery worker started');
+}
@@ -0,0 +1,135 @@
+import type { Job } from 'bullmq';
+import { eq, and, lte } from 'drizzle-orm';
+import { getDb } from '../config/database.js';
+import { getQueue, createWorker, QUEUE_NAMES } from '../config/queue.js';
+import { issues } from '../models/schema.js';
+import { systemAuditLog } from '../security/audit.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('issue-snooze-worker');
+
+/** Every 15 minutes, for snoozes whose own job was lost */
+const SWEEP_PATTERN = '*/15 * * * *';
+
+// ─── Job Data Types ──────────────────────────────────────────────────
+
+/**
+ * `unsnooze-issue` reopens one issue. `unsnooze-expired` (the schedule)
+ * carries no issue and reopens every issue whose snooze has run out.
+ */
+export interface IssueSnoozeJobData {
+  issueId?: string;
+}
+
+// ─── Enqueue Unsnooze ────────────────────────────────────────────────
+
+/**
+ * Schedule a snoozed issue to reopen at `until`. Snoozing again queues
+ * another job; whichever runs before the issue's current snoozedUntil
+ * finds nothing to do.
+ */
+export async function enqueueIssueUnsnooze(issueId: string, until: Date): Promise<void> {
+  const queue = getQueue(QUEUE_NAMES.ISSUE_SNOOZE);
+  const jobId = `issue-unsnooze-${issueId}-${until.getTime()}`;
+
+  await queue.add('unsnooze-issue', { issueId }, {
+    jobId,
+    delay: Math.max(0, until.getTime() - Date.now()),
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 30_000,
+    },
+    removeOnComplete: {
+      age: 7 * 24 * 3600,
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600,
+      count: 1000,
+    },
+  });
+
+  log.debug({ issueId, jobId, until: until.toISOString() }, 'Issue unsnooze scheduled');
+}
+
+// ─── Worker Processor ────────────────────────────────────────────────
+
+/**
+ * Reopen issues whose snooze has run out: the job's issue, or for the
+ * sweep, all of them. Issues resolved, dismissed or snoozed for longer in
+ * the meantime are left alone.
+ */
+async function processUnsnoozeJob(job: Job<IssueSnoozeJobData>): Promise<string | { reopened: number }> {
+  const db = getDb();
+  const { issueId } = job.data;
+
+  const conditions = [
+    eq(issues.status, 'snoozed'),
+    lte(issues.snoozedUntil, new Date()),
+  ];
+  if (job.name !== 'unsnooze-expired') conditions.push(eq(issues.id, issueId!));
+
+  const reopened = await db
+    .update(issues)
+    .set({ status: 'open', snoozedUntil: null, updatedAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: issues.id, orgId: issues.orgId });
+
+  for (const issue of reopened) {
+    systemAuditLog(db, issue.orgId, 'issue.unsnoozed', 'issue', issue.id);
+    log.info({ issueId: issue.id, orgId: issue.orgId }, 'Snoozed issue reopened');
+  }
+
+  if (job.name === 'unsnooze-expired') return { reopened: reopened.length };
+
+  if (reopened.length === 0) {
+    log.debug({ issueId }, 'Issue no longer snoozed or snoozed for longer, leaving it');
+    return 'skipped';
+  }
+  return 'reopened';
+}
+
+// ─── Start Worker ────────────────────────────────────────────────────
+
+let _workerStarted = false;
+
+/**
+ * Start the issue snooze worker.
+ * Should be called once during server initialization.
+ */
+export function startIssueSnoozeWorker(): void {
+  if (_workerStarted) {
+    log.warn('Issue snooze worker already started');
+    return;
+  }
+
+  createWorker<IssueSnoozeJobData>(
+    QUEUE_NAMES.ISSUE_SNOOZE,
+    processUnsnoozeJob,
+  );
+
+  _workerStarted = true;
+  log.info('Issue snooze worker started');
+}
+
+/**
+ * Register the sweep that reopens expired snoozes. Replaces any previously
+ * registered schedule, so a changed pattern takes effect on restart.
+ */
+export async function startIssueSnoozeScheduler(): Promise<void> {
+  const queue = getQueue(QUEUE_NAMES.ISSUE_SNOOZE);
+
+  const existing = await queue.getRepeatableJobs();
+  for (const job of existing) {
+    await queue.removeRepeatableByKey(job.key);
+  }
+
+  await queue.add('unsnooze-expired', {}, {
+    repeat: { pattern: SWEEP_PATTERN },
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 100 },
+  });
+
+  log.info({ cron: SWEEP_PATTERN }, 'Expired snooze sweep scheduled');
+}
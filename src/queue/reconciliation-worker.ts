@@ -0,0 +1,139 @@
+import type { Job } from 'bullmq';
+import { eq, and, sql } from 'drizzle-orm';
+import { getDb } from '../config/database.js';
+import { getQueue, createWorker, QUEUE_NAMES } from '../config/queue.js';
+import { billingConnections, organizations } from '../models/schema.js';
+import { SubscriptionReconciler, canReconcile } from '../entitlement/reconciliation/reconciler.js';
+import type { BillingSource, ReconciliationOutcome } from '../models/types.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('reconciliation-worker');
+
+/** Daily at 4 AM UTC, after the retention cleanup */
+const SCHEDULE_PATTERN = '0 4 * * *';
+
+// ─── Job Data Types ──────────────────────────────────────────────────
+
+/**
+ * `reconcile-all` (the schedule) carries no data and queues one
+ * `reconcile-connection` job per billing connection of each org that
+ * has reconciliation enabled.
+ */
+export interface ReconciliationJobData {
+  orgId?: string;
+  source?: BillingSource;
+}
+
+// ─── Enqueue Reconciliation ──────────────────────────────────────────
+
+/**
+ * Enqueue reconciliation of one billing connection. A connection already
+ * queued for the same day isn't queued again.
+ */
+export async function enqueueReconciliation(orgId: string, source: BillingSource): Promise<string> {
+  const queue = getQueue(QUEUE_NAMES.RECONCILIATION);
+  const day = new Date().toISOString().slice(0, 10);
+
+  const job = await queue.add('reconcile-connection', { orgId, source }, {
+    jobId: `reconcile-${orgId}-${source}-${day}`,
+    attempts: 2,
+    backoff: {
+      type: 'exponential',
+      delay: 5 * 60_000,
+    },
+    removeOnComplete: {
+      age: 7 * 24 * 3600, // Keep outcomes for 7 days
+      count: 500,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600,
+      count: 500,
+    },
+  });
+
+  return job.id!;
+}
+
+// ─── Worker Processor ────────────────────────────────────────────────
+
+async function processReconciliationJob(
+  job: Job<ReconciliationJobData>,
+): Promise<ReconciliationOutcome | { queued: number } | null> {
+  const db = getDb();
+
+  if (job.name === 'reconcile-all') {
+    const connections = await db
+      .select({ orgId: billingConnections.orgId, source: billingConnections.source })
+      .from(billingConnections)
+      .innerJoin(organizations, eq(organizations.id, billingConnections.orgId))
+      .where(
+        and(
+          eq(billingConnections.isActive, true),
+          sql`(${organizations.settings} -> 'reconciliation' ->> 'enabled')::boolean`,
+        ),
+      );
+
+    let queued = 0;
+    for (const conn of connections) {
+      if (!canReconcile(conn.source)) continue;
+      await enqueueReconciliation(conn.orgId, conn.source);
+      queued++;
+    }
+
+    log.info({ jobId: job.id, queued }, 'Queued scheduled subscription reconciliation');
+    return { queued };
+  }
+
+  const { orgId, source } = job.data;
+  log.info({ jobId: job.id, orgId, source, attempt: job.attemptsMade + 1 }, 'Reconciling subscriptions');
+
+  return new SubscriptionReconciler(db).reconcile(orgId!, source!);
+}
+
+// ─── Start Worker ────────────────────────────────────────────────────
+
+let _workerStarted = false;
+
+/**
+ * Start the subscription reconciliation worker.
+ * Should be called once during server initialization.
+ */
+export function startReconciliationWorker(): void {
+  if (_workerStarted) {
+    log.warn('Reconciliation worker already started');
+    return;
+  }
+
+  createWorker<ReconciliationJobData>(
+    QUEUE_NAMES.RECONCILIATION,
+    processReconciliationJob,
+    {
+      // Lookups are rate limited by the providers; one connection at a time
+      concurrency: 1,
+    },
+  );
+
+  _workerStarted = true;
+  log.info('Reconciliation worker started');
+}
+
+/**
+ * Register the daily reconciliation schedule. Replaces any previously
+ * registered schedule, so a changed pattern takes effect on restart.
+ */
+export async function startReconciliationScheduler(): Promise<void> {
+  const queue = getQueue(QUEUE_NAMES.RECONCILIATION);
+
+  const existing = await queue.getRepeatableJobs();
+  for (const job of existing) {
+    await queue.removeRepeatableByKey(job.key);
+  }
+
+  await queue.add('reconcile-all', {}, {
+    repeat: { pattern: SCHEDULE_PATTERN },
+    removeOnComplete: { count: 30 },
+    removeOnFail: { count: 30 },
+  });
+
+  log.info({ cron: SCHEDULE_PATTERN }, 'Subscription reconciliation scheduled');
+}
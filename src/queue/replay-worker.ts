@@ -0,0 +1,89 @@
+import type { Job } from 'bullmq';
+import { getDb } from '../config/database.js';
+import { getQueue, createWorker, QUEUE_NAMES } from '../config/queue.js';
+import { EntitlementReplayer, type ReplayResult } from '../entitlement/replay.js';
+import type { BillingSource } from '../models/types.js';
+import { createChildLogger } from '../config/logger.js';
+
+const log = createChildLogger('replay-worker');
+
+// ─── Job Data Types ──────────────────────────────────────────────────
+
+export interface ReplayJobData {
+  orgId: string;
+  /** Limit the rebuild to one user */
+  userId?: string;
+  /** Limit the rebuild to one billing source */
+  source?: BillingSource;
+  /** Report changes without writing them */
+  dryRun: boolean;
+  /** When the rebuild was requested (ISO string) */
+  requestedAt: string;
+}
+
+// ─── Enqueue Replay Job ──────────────────────────────────────────────
+
+/**
+ * Enqueue an entitlement rebuild. Returns the BullMQ job ID, which the
+ * admin API uses to report progress and the dry-run diff.
+ */
+export async function enqueueEntitlementReplay(data: ReplayJobData): Promise<string> {
+  const queue = getQueue(QUEUE_NAMES.ENTITLEMENT_REPLAY);
+
+  const job = await queue.add('replay-entitlements', data, {
+    // A rebuild is idempotent but expensive — don't retry automatically
+    attempts: 1,
+    removeOnComplete: {
+      age: 7 * 24 * 3600, // Keep dry-run reports for 7 days
+      count: 200,
+    },
+  });
+
+  log.info({
+    jobId: job.id,
+    orgId: data.orgId,
+    userId: data.userId,
+    source: data.source,
+    dryRun: data.dryRun,
+  }, 'Entitlement replay job enqueued');
+
+  return job.id!;
+}
+
+// ─── Worker Processor ────────────────────────────────────────────────
+
+async function processReplayJob(job: Job<ReplayJobData>): Promise<ReplayResult> {
+  const { orgId, userId, source, dryRun } = job.data;
+
+  log.info({ jobId: job.id, orgId, userId, source, dryRun }, 'Processing entitlement replay job');
+
+  const replayer = new EntitlementReplayer(getDb());
+  return replayer.run({ orgId, userId, source }, dryRun);
+}
+
+// ─── Start Worker ────────────────────────────────────────────────────
+
+let _workerStarted = false;
+
+/**
+ * Start the entitlement replay worker.
+ * Should be called once during server initialization.
+ */
+export function startReplayWorker(): void {
+  if (_workerStarted) {
+    log.warn('Replay worker already started');
+    return;
+  }
+
+  createWorker<ReplayJobData>(
+    QUEUE_NAMES.ENTITLEMENT_REPLAY,
+    processReplayJob,
+    {
+      // Rebuilds rewrite many rows; run one at a time
+      concurrency: 1,
+    },
+  );
+
+  _workerStarted = true;
+  log.info('Entitlement replay worker started');
+}
@@ -71,6 +71,14 @@ const SCAN_SCHEDULES = [
     pattern: '35 * * * *',
     description: 'Check for users with app access but no active subscription (Tier 2)',
   },
+  // Per-org custom detector rules
+  {
+    name: 'custom-rules-scan',
+    detectorId: 'custom_rules',
+    // Every 15 minutes at :10, :25, :40, :55
+    pattern: '10,25,40,55 * * * *',
+    description: 'Evaluate each organization\'s custom detector rules',
+  },
 ] as const;
 
 /**
@@ -23,6 +23,7 @@ export interface ScanJobResult {
   detectorId: string;
   total: number;
   new: number;
+  resolved: number;
   durationMs: number;
   completedAt: string;
 }
@@ -56,14 +57,15 @@ async function processScanJob(job: Job<ScanJobData>): Promise<ScanJobResult[]> {
     const orgStart = Date.now();
 
     try {
-      let scanResult: { total: number; new: number };
+      let scanResult: { total: number; new: number; resolved: number };
 
       if (detectorId === 'all') {
         scanResult = await engine.runScheduledScans(currentOrgId);
       } else {
         const singleResult = await engine.runSingleDetectorScan(currentOrgId, detectorId);
         if (!singleResult) {
-          log.warn({ detectorId, orgId: currentOrgId }, 'Detector not found or has no scheduled scan');
+          // Also the case for every org that has disabled the detector
+          log.debug({ detectorId, orgId: currentOrgId }, 'Detector not found, disabled, or has no scheduled scan');
           continue;
         }
         scanResult = singleResult;
@@ -76,6 +78,7 @@ async function processScanJob(job: Job<ScanJobData>): Promise<ScanJobResult[]> {
         detectorId,
         total: scanResult.total,
         new: scanResult.new,
+        resolved: scanResult.resolved,
         durationMs,
         completedAt: new Date().toISOString(),
       };
@@ -87,6 +90,7 @@ async function processScanJob(job: Job<ScanJobData>): Promise<ScanJobResult[]> {
         detectorId,
         total: scanResult.total,
         newIssues: scanResult.new,
+        resolved: scanResult.resolved,
         durationMs,
       }, 'Scan completed for org');
 
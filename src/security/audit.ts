@@ -30,3 +30,58 @@ export function auditLog(
       log.error({ err, action, resourceType }, 'Failed to write audit log');
     });
 }
+
+/**
+ * Record an audit log entry for an action taken by RevBack itself
+ * (e.g. auto-resolving an issue) rather than by an API key.
+ */
+export function systemAuditLog(
+  db: Database,
+  orgId: string,
+  action: string,
+  resourceType: string,
+  resourceId?: string,
+  metadata?: Record<string, unknown>,
+): void {
+  db.insert(auditLogs)
+    .values({
+      orgId,
+      actorType: 'system',
+      actorId: 'system',
+      action,
+      resourceType,
+      resourceId: resourceId || null,
+      metadata: metadata || {},
+    })
+    .catch((err) => {
+      log.error({ err, action, resourceType }, 'Failed to write audit log');
+    });
+}
+
+/**
+ * Record an audit log entry for a change made from an outside tool, such
+ * as an incident resolved in PagerDuty, with the tool as the actor.
+ */
+export function integrationAuditLog(
+  db: Database,
+  orgId: string,
+  integration: string,
+  action: string,
+  resourceType: string,
+  resourceId?: string,
+  metadata?: Record<string, unknown>,
+): void {
+  db.insert(auditLogs)
+    .values({
+      orgId,
+      actorType: 'integration',
+      actorId: integration,
+      action,
+      resourceType,
+      resourceId: resourceId || null,
+      metadata: metadata || {},
+    })
+    .catch((err) => {
+      log.error({ err, action, resourceType }, 'Failed to write audit log');
+    });
+}
@@ -17,6 +17,11 @@ export const SCOPES = [
   'access-checks:write',
   'dashboard:read',
   'users:read',
+  'users:write',
+  'products:read',
+  'products:write',
+  'detectors:read',
+  'detectors:write',
   'audit:read',
   '*',
 ] as const;
@@ -1,8 +1,10 @@
 import { eq, and, desc, count, sum } from 'drizzle-orm';
 import type { Database } from '../../config/database.js';
 import { issues, organizations } from '../../models/schema.js';
+import type { OrgSettings } from '../../models/types.js';
 import type { SlackMessage } from '../types.js';
 import { formatIssuesSummary, formatError } from '../formatters.js';
+import { DEFAULT_CURRENCY } from '../../currency/format.js';
 import { createChildLogger } from '../../config/logger.js';
 
 const log = createChildLogger('slack-issues');
@@ -71,6 +73,7 @@ export async function handleIssues(db: Database, args: string): Promise<SlackMes
     open: openCount.count,
     critical: criticalCount.count,
     revenueAtRiskCents: Number(revenueAtRisk.total) || 0,
+    currency: (org.settings as OrgSettings | null)?.reportingCurrency ?? DEFAULT_CURRENCY,
     byType: byType.map((t) => ({
       issueType: t.issueType,
       count: t.count,
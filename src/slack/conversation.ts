@@ -9,6 +9,8 @@ import {
   billingConnections,
   canonicalEvents,
 } from '../models/schema.js';
+import type { Organization, OrgSettings } from '../models/types.js';
+import { DEFAULT_CURRENCY } from '../currency/format.js';
 import { callClaude, isAiEnabled } from '../agents/client.js';
 import { getSlackClient } from './client.js';
 import { isCxEngineer } from './cx-auth.js';
@@ -376,6 +378,7 @@ async function toolGetIssuesSummary(db: Database, orgSlug: string) {
     open: openCount.count,
     critical: criticalCount.count,
     revenueAtRiskCents: Number(revenue.total) || 0,
+    currency: reportingCurrencyOf(org),
     topIssues: topIssues.map((i) => ({
       id: i.id,
       type: i.issueType,
@@ -387,6 +390,10 @@ async function toolGetIssuesSummary(db: Database, orgSlug: string) {
   };
 }
 
+function reportingCurrencyOf(org: Organization): string {
+  return (org.settings as OrgSettings | null)?.reportingCurrency ?? DEFAULT_CURRENCY;
+}
+
 async function toolGetIssueDetail(db: Database, issueId: string) {
   const [issue] = await db.select().from(issues).where(eq(issues.id, issueId)).limit(1);
   if (!issue) return { error: 'Issue not found' };
@@ -427,6 +434,7 @@ async function toolGetRevenueImpact(db: Database, orgSlug: string) {
   return {
     orgName: org.name,
     totalRevenueAtRiskCents: Number(total.total) || 0,
+    currency: reportingCurrencyOf(org),
     bySeverity,
   };
 }
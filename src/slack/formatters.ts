@@ -1,6 +1,7 @@
 import type { SlackMessage, SlackBlock } from './types.js';
 import type { Issue, User, Entitlement, UserIdentity, BillingConnection } from '../models/types.js';
 import { getEnv } from '../config/env.js';
+import { formatMoney } from '../currency/format.js';
 import type { Investigation } from '../agents/investigator.js';
 
 // ─── Helpers ────────────────────────────────────────────────────────
@@ -35,9 +36,9 @@ function stateEmoji(state: string): string {
   }
 }
 
-function formatCents(cents: number | null | undefined): string {
+function formatCents(cents: number | null | undefined, currency: string | null | undefined): string {
   if (cents == null) return 'Unknown';
-  return `$${(cents / 100).toFixed(2)}`;
+  return formatMoney(cents, currency);
 }
 
 function dashboardUrl(): string {
@@ -104,7 +105,7 @@ export function formatUserLookup(
   // Open Issues
   if (openIssues.length > 0) {
     const issueLines = openIssues.slice(0, 5).map(
-      (i) => `${severityEmoji(i.severity)} \`${i.issueType}\` \u2014 ${truncate(i.title, 60)} (${formatCents(i.estimatedRevenueCents)})`
+      (i) => `${severityEmoji(i.severity)} \`${i.issueType}\` \u2014 ${truncate(i.title, 60)} (${formatCents(i.estimatedRevenueCents, i.revenueCurrency)})`
     ).join('\n');
     blocks.push({
       type: 'section',
@@ -139,6 +140,8 @@ export function formatIssuesSummary(
     open: number;
     critical: number;
     revenueAtRiskCents: number;
+    /** Currency of the revenue figures — the org's reporting currency */
+    currency: string;
     byType: Array<{ issueType: string; count: number; revenue: string | number | null }>;
   },
   topIssues: Issue[],
@@ -153,7 +156,7 @@ export function formatIssuesSummary(
       fields: [
         { type: 'mrkdwn', text: `*Open Issues:*\n${stats.open}` },
         { type: 'mrkdwn', text: `*Critical:*\n${stats.critical}` },
-        { type: 'mrkdwn', text: `*Revenue at Risk:*\n${formatCents(stats.revenueAtRiskCents)}` },
+        { type: 'mrkdwn', text: `*Revenue at Risk:*\n${formatCents(stats.revenueAtRiskCents, stats.currency)}` },
         { type: 'mrkdwn', text: `*Issue Types:*\n${stats.byType.length}` },
       ],
     },
@@ -164,7 +167,7 @@ export function formatIssuesSummary(
     const typeLines = stats.byType
       .sort((a, b) => (Number(b.revenue) || 0) - (Number(a.revenue) || 0))
       .slice(0, 8)
-      .map((t) => `\u{2022} \`${t.issueType}\`: ${t.count} issues (${formatCents(Number(t.revenue) || 0)})`)
+      .map((t) => `\u{2022} \`${t.issueType}\`: ${t.count} issues (${formatCents(Number(t.revenue) || 0, stats.currency)})`)
       .join('\n');
     blocks.push({
       type: 'section',
@@ -176,7 +179,7 @@ export function formatIssuesSummary(
   if (topIssues.length > 0) {
     blocks.push({ type: 'divider' } as SlackBlock);
     const issueLines = topIssues.slice(0, 5).map(
-      (i) => `${severityEmoji(i.severity)} *${truncate(i.title, 50)}*\n    \`${i.issueType}\` | ${formatCents(i.estimatedRevenueCents)} | ${i.confidence ? Math.round(i.confidence * 100) + '%' : 'N/A'} confidence`
+      (i) => `${severityEmoji(i.severity)} *${truncate(i.title, 50)}*\n    \`${i.issueType}\` | ${formatCents(i.estimatedRevenueCents, i.revenueCurrency)} | ${i.confidence ? Math.round(i.confidence * 100) + '%' : 'N/A'} confidence`
     ).join('\n\n');
     blocks.push({
       type: 'section',
@@ -277,7 +280,7 @@ export function formatInvestigation(
         { type: 'mrkdwn', text: `*Issue Type:*\n\`${issue.issueType}\`` },
         { type: 'mrkdwn', text: `*Severity:*\n${issue.severity.toUpperCase()}` },
         { type: 'mrkdwn', text: `*AI Confidence:*\n${confidence}%` },
-        { type: 'mrkdwn', text: `*Revenue Impact:*\n${formatCents(issue.estimatedRevenueCents)}` },
+        { type: 'mrkdwn', text: `*Revenue Impact:*\n${formatCents(issue.estimatedRevenueCents, issue.revenueCurrency)}` },
       ],
     },
     {
@@ -346,7 +349,7 @@ export function formatCxNotification(issue: Issue, orgName: string): SlackMessag
           fields: [
             { type: 'mrkdwn', text: `*Type:*\n\`${issue.issueType}\`` },
             { type: 'mrkdwn', text: `*Severity:*\n${issue.severity.toUpperCase()}` },
-            { type: 'mrkdwn', text: `*Revenue Impact:*\n${formatCents(issue.estimatedRevenueCents)}` },
+            { type: 'mrkdwn', text: `*Revenue Impact:*\n${formatCents(issue.estimatedRevenueCents, issue.revenueCurrency)}` },
             { type: 'mrkdwn', text: `*Confidence:*\n${issue.confidence ? Math.round(issue.confidence * 100) + '%' : 'N/A'}` },
           ],
         },